@@ -0,0 +1,102 @@
+-- Audit Log Migration
+-- One audit store for every mutation (src/lib/server/invoice-audit.ts), read
+-- back through GET /api/audit and the invoice status history. Entries from
+-- the legacy audit_logs table (status changes, including those made through
+-- the chat assistant) are copied across so history stays complete.
+-- IMPORTANT: This migration is additive - audit_logs is left in place
+
+-- ============================================================================
+-- PART 1: Create AuditLog table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "AuditLog" (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    action TEXT NOT NULL,
+    "userId" TEXT,
+    changes JSONB NOT NULL DEFAULT '{}',
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Tables created before this migration may lack the timestamp
+ALTER TABLE "AuditLog" ADD COLUMN IF NOT EXISTS "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+-- ============================================================================
+-- PART 2: Indexes
+-- ============================================================================
+
+-- History of one entity, newest first
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity
+ON "AuditLog"("entityType", "entityId", "createdAt" DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_user
+ON "AuditLog"("userId", "createdAt" DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_action
+ON "AuditLog"(action, "createdAt" DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at
+ON "AuditLog"("createdAt" DESC);
+
+COMMENT ON TABLE "AuditLog" IS 'Audit trail for invoices, vendors, approval policies and bulk batches';
+COMMENT ON COLUMN "AuditLog"."entityId" IS 'Entity id; invoice entries written before this migration may use the invoice number';
+COMMENT ON COLUMN "AuditLog".changes IS 'What changed (old_status/new_status, amounts, ...) plus user_email, timestamp and, for the chat assistant, source and conversation_id';
+
+-- ============================================================================
+-- PART 3: Copy legacy audit_logs entries
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF to_regclass('public.audit_logs') IS NOT NULL THEN
+        INSERT INTO "AuditLog" (id, "entityType", "entityId", action, "userId", changes, "createdAt")
+        SELECT
+            l.id,
+            'invoice',
+            l.invoice_id,
+            upper(coalesce(l.action_type, 'status_change')),
+            l.user_id::text,
+            coalesce(l.metadata, '{}'::jsonb) || jsonb_build_object(
+                'old_status', l.old_status,
+                'new_status', l.new_status,
+                'user_email', l.user_email,
+                'timestamp', l.created_at
+            ),
+            coalesce(l.created_at, NOW())
+        FROM audit_logs l
+        ON CONFLICT (id) DO NOTHING;
+    END IF;
+END $$;
+
+-- ============================================================================
+-- PART 4: Row Level Security (RLS) Policies
+-- ============================================================================
+
+ALTER TABLE "AuditLog" ENABLE ROW LEVEL SECURITY;
+
+-- The audit trail is append-only: nobody edits or deletes entries
+DROP POLICY IF EXISTS "Authenticated users can read audit log" ON "AuditLog";
+CREATE POLICY "Authenticated users can read audit log" ON "AuditLog"
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- API routes write entries with the service role
+DROP POLICY IF EXISTS "Service role full access" ON "AuditLog";
+CREATE POLICY "Service role full access" ON "AuditLog"
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+GRANT SELECT ON "AuditLog" TO authenticated;
+GRANT ALL ON "AuditLog" TO service_role;
+
+-- ============================================================================
+-- Migration complete
+-- ============================================================================
+
+SELECT 'Audit log migration completed successfully!' AS status;
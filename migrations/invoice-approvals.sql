@@ -0,0 +1,150 @@
+-- Invoice Approvals Migration
+-- Multi-step approvals (src/lib/server/invoice-approvals.ts). Approval
+-- policies match invoices by amount band, category and vendor and set how many
+-- distinct approvers must sign off; each sign-off is recorded per invoice.
+-- Invoices only move to 'approved' once their policy is satisfied, and never
+-- on the uploader's own approval.
+-- IMPORTANT: This migration is additive - it only adds a column, tables, indexes and policies
+
+-- ============================================================================
+-- PART 1: uploaded_by_user_id column on the invoices table
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'Invoice' AND column_name = 'uploaded_by_user_id'
+    ) THEN
+        ALTER TABLE "Invoice" ADD COLUMN uploaded_by_user_id TEXT;
+        COMMENT ON COLUMN "Invoice".uploaded_by_user_id IS 'User who created the invoice by hand; null for pipeline imports';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- PART 2: Create approval_policies table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS approval_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    min_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (min_amount >= 0),
+    max_amount NUMERIC(12, 2) CHECK (max_amount IS NULL OR max_amount > min_amount),
+    categories TEXT[] NOT NULL DEFAULT '{}',
+    vendor_ids TEXT[] NOT NULL DEFAULT '{}',
+    required_approvals INTEGER NOT NULL DEFAULT 1 CHECK (required_approvals BETWEEN 1 AND 5),
+    approver_roles TEXT[] NOT NULL DEFAULT '{approver,admin}',
+    priority INTEGER NOT NULL DEFAULT 0,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Finance policy: one approver under $5k, two from $5k up
+INSERT INTO approval_policies (name, min_amount, max_amount, required_approvals)
+SELECT 'Under $5,000', 0, 5000, 1
+WHERE NOT EXISTS (SELECT 1 FROM approval_policies);
+
+INSERT INTO approval_policies (name, min_amount, max_amount, required_approvals)
+SELECT '$5,000 and over', 5000, NULL, 2
+WHERE NOT EXISTS (SELECT 1 FROM approval_policies WHERE min_amount = 5000);
+
+-- ============================================================================
+-- PART 3: Create invoice_approvals table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS invoice_approvals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    invoice_id TEXT NOT NULL,
+    policy_id TEXT,
+    policy_name TEXT,
+    required_approvals INTEGER NOT NULL,
+    decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected')),
+    comment TEXT,
+    approver_user_id TEXT NOT NULL,
+    approver_email TEXT,
+    -- Set when the invoice is rejected or reopened; superseded approvals no longer count
+    superseded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================================================
+-- PART 4: Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_invoice_approvals_invoice_id
+ON invoice_approvals(invoice_id, created_at);
+
+-- One active approval per approver per invoice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_approvals_active_approver
+ON invoice_approvals(invoice_id, approver_user_id)
+WHERE superseded_at IS NULL AND decision = 'approved';
+
+CREATE INDEX IF NOT EXISTS idx_approval_policies_active
+ON approval_policies(priority DESC)
+WHERE active;
+
+COMMENT ON TABLE approval_policies IS 'Approval requirements by invoice amount band, category and vendor';
+COMMENT ON TABLE invoice_approvals IS 'Approval decisions per invoice; superseded rows are kept as history';
+
+-- ============================================================================
+-- PART 5: Row Level Security (RLS) Policies
+-- ============================================================================
+
+ALTER TABLE approval_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_approvals ENABLE ROW LEVEL SECURITY;
+
+-- Authenticated users can read policies and approvals; policies are only
+-- changed through the API with the service role
+DROP POLICY IF EXISTS "Authenticated users can read approval policies" ON approval_policies;
+CREATE POLICY "Authenticated users can read approval policies" ON approval_policies
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can read invoice approvals" ON invoice_approvals;
+CREATE POLICY "Authenticated users can read invoice approvals" ON invoice_approvals
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- The assistant changes status with the user's own client, so users may
+-- record their own decisions and mark approvals superseded
+DROP POLICY IF EXISTS "Users can record their own approvals" ON invoice_approvals;
+CREATE POLICY "Users can record their own approvals" ON invoice_approvals
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (approver_user_id = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Authenticated users can supersede approvals" ON invoice_approvals;
+CREATE POLICY "Authenticated users can supersede approvals" ON invoice_approvals
+    FOR UPDATE
+    TO authenticated
+    USING (superseded_at IS NULL)
+    WITH CHECK (superseded_at IS NOT NULL);
+
+DROP POLICY IF EXISTS "Service role full access" ON approval_policies;
+CREATE POLICY "Service role full access" ON approval_policies
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Service role full access" ON invoice_approvals;
+CREATE POLICY "Service role full access" ON invoice_approvals
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+GRANT SELECT ON approval_policies TO authenticated;
+GRANT SELECT, INSERT ON invoice_approvals TO authenticated;
+GRANT UPDATE (superseded_at) ON invoice_approvals TO authenticated;
+GRANT ALL ON approval_policies TO service_role;
+GRANT ALL ON invoice_approvals TO service_role;
+
+-- ============================================================================
+-- Migration complete
+-- ============================================================================
+
+SELECT 'Invoice approvals migration completed successfully!' AS status;
@@ -0,0 +1,143 @@
+-- Invoice Comments Migration
+-- Threaded comments on invoices (src/lib/server/invoice-comments.ts). Replaces
+-- the "[timestamp] note" lines appended to the invoices notes column; the
+-- chat assistant's addInvoiceNote tool writes into the same thread.
+-- IMPORTANT: This migration is additive - existing notes are copied into the
+-- thread and the notes column is left untouched
+
+-- ============================================================================
+-- PART 1: Create invoice_comments and invoice_comment_edits tables
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS invoice_comments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    invoice_id TEXT NOT NULL,
+    parent_id UUID REFERENCES invoice_comments(id) ON DELETE CASCADE,
+    author_id TEXT NOT NULL,
+    author_email TEXT,
+    body TEXT NOT NULL CHECK (char_length(body) <= 5000),
+    mentions TEXT[] NOT NULL DEFAULT '{}',
+    source TEXT NOT NULL DEFAULT 'app' CHECK (source IN ('app', 'chat', 'legacy')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    edited_at TIMESTAMP WITH TIME ZONE,
+    deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Previous bodies of edited or deleted comments
+CREATE TABLE IF NOT EXISTS invoice_comment_edits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    comment_id UUID NOT NULL REFERENCES invoice_comments(id) ON DELETE CASCADE,
+    previous_body TEXT NOT NULL,
+    edited_by TEXT NOT NULL,
+    edited_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================================================
+-- PART 2: Indexes
+-- ============================================================================
+
+-- Thread for an invoice, oldest first
+CREATE INDEX IF NOT EXISTS idx_invoice_comments_invoice_id
+ON invoice_comments(invoice_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_comments_parent_id
+ON invoice_comments(parent_id)
+WHERE parent_id IS NOT NULL;
+
+-- "Mentioned me" lookups
+CREATE INDEX IF NOT EXISTS idx_invoice_comments_mentions
+ON invoice_comments USING GIN (mentions);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_comment_edits_comment_id
+ON invoice_comment_edits(comment_id, edited_at DESC);
+
+COMMENT ON TABLE invoice_comments IS 'Threaded invoice comments; replies have parent_id set to a top-level comment';
+COMMENT ON COLUMN invoice_comments.invoice_id IS 'Invoice id (not invoice number)';
+COMMENT ON COLUMN invoice_comments.mentions IS 'Lowercased @handles mentioned in the body';
+COMMENT ON COLUMN invoice_comments.deleted_at IS 'Soft delete; the body is kept in invoice_comment_edits';
+
+-- ============================================================================
+-- PART 3: Copy existing invoice notes into the thread
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'Invoice' AND column_name = 'notes'
+    ) THEN
+        INSERT INTO invoice_comments (invoice_id, author_id, body, source, created_at, updated_at)
+        SELECT i.id::text, 'system', left(i.notes, 5000), 'legacy', COALESCE(i.updated_at, NOW()), COALESCE(i.updated_at, NOW())
+        FROM "Invoice" i
+        WHERE COALESCE(trim(i.notes), '') <> ''
+          AND NOT EXISTS (
+              SELECT 1 FROM invoice_comments c
+              WHERE c.invoice_id = i.id::text AND c.source = 'legacy'
+          );
+    END IF;
+END $$;
+
+-- ============================================================================
+-- PART 4: Row Level Security (RLS) Policies
+-- ============================================================================
+
+ALTER TABLE invoice_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_comment_edits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read comments" ON invoice_comments;
+CREATE POLICY "Authenticated users can read comments" ON invoice_comments
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can add comments" ON invoice_comments;
+CREATE POLICY "Authenticated users can add comments" ON invoice_comments
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (author_id = auth.uid()::text);
+
+-- Authors edit and (soft) delete their own comments
+DROP POLICY IF EXISTS "Authors can update their comments" ON invoice_comments;
+CREATE POLICY "Authors can update their comments" ON invoice_comments
+    FOR UPDATE
+    TO authenticated
+    USING (author_id = auth.uid()::text)
+    WITH CHECK (author_id = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Authenticated users can read comment edits" ON invoice_comment_edits;
+CREATE POLICY "Authenticated users can read comment edits" ON invoice_comment_edits
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Authors can record comment edits" ON invoice_comment_edits;
+CREATE POLICY "Authors can record comment edits" ON invoice_comment_edits
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (edited_by = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Service role full access" ON invoice_comments;
+CREATE POLICY "Service role full access" ON invoice_comments
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Service role full access" ON invoice_comment_edits;
+CREATE POLICY "Service role full access" ON invoice_comment_edits
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE ON invoice_comments TO authenticated;
+GRANT SELECT, INSERT ON invoice_comment_edits TO authenticated;
+GRANT ALL ON invoice_comments TO service_role;
+GRANT ALL ON invoice_comment_edits TO service_role;
+
+-- ============================================================================
+-- Migration complete
+-- ============================================================================
+
+SELECT 'Invoice comments migration completed successfully!' AS status;
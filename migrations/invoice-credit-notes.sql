@@ -0,0 +1,54 @@
+-- Invoice Credit Notes Migration
+-- Credit notes and adjustments are stored in the invoices table next to the
+-- invoice they offset (src/lib/server/invoice-credit-notes.ts). Credit notes
+-- carry a negative total and adjustments a signed one, so sums over the
+-- table give net amounts.
+-- IMPORTANT: This migration is additive - it only adds columns and indexes
+
+-- ============================================================================
+-- PART 1: Document type columns on the invoices table
+-- ============================================================================
+
+-- Add document_type column if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'Invoice' AND column_name = 'document_type'
+    ) THEN
+        ALTER TABLE "Invoice" ADD COLUMN document_type TEXT NOT NULL DEFAULT 'invoice'
+            CHECK (document_type IN ('invoice', 'credit_note', 'adjustment'));
+        COMMENT ON COLUMN "Invoice".document_type IS 'invoice, credit_note (negative total) or adjustment (signed total)';
+    END IF;
+END $$;
+
+-- Add original_invoice_id column if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'Invoice' AND column_name = 'original_invoice_id'
+    ) THEN
+        ALTER TABLE "Invoice" ADD COLUMN original_invoice_id TEXT;
+        COMMENT ON COLUMN "Invoice".original_invoice_id IS 'Invoice id a credit note or adjustment applies to';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- PART 2: Indexes
+-- ============================================================================
+
+-- Credit notes and adjustments for an invoice
+CREATE INDEX IF NOT EXISTS idx_invoices_original_invoice_id
+ON "Invoice"(original_invoice_id)
+WHERE original_invoice_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_document_type
+ON "Invoice"(document_type)
+WHERE document_type <> 'invoice';
+
+-- ============================================================================
+-- Migration complete
+-- ============================================================================
+
+SELECT 'Invoice credit notes migration completed successfully!' AS status;
@@ -0,0 +1,93 @@
+-- Invoice Duplicates Migration
+-- Review queue for likely duplicate invoices (src/lib/server/invoice-duplicates.ts).
+-- Detection scores pairs on supplier, invoice number, amount, issue date and
+-- file checksum; a reviewer merges, links or dismisses each pair. Merged
+-- duplicates point at the invoice they duplicate through Invoice.duplicate_of
+-- and are left out of stats and totals.
+-- IMPORTANT: This migration is additive - it only adds a column, a table, indexes and policies
+
+-- ============================================================================
+-- PART 1: duplicate_of column on the invoices table
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'Invoice' AND column_name = 'duplicate_of'
+    ) THEN
+        ALTER TABLE "Invoice" ADD COLUMN duplicate_of TEXT;
+        COMMENT ON COLUMN "Invoice".duplicate_of IS 'Invoice id this row was confirmed to duplicate; excluded from totals';
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_duplicate_of
+ON "Invoice"(duplicate_of)
+WHERE duplicate_of IS NOT NULL;
+
+-- ============================================================================
+-- PART 2: Create invoice_duplicate_pairs table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS invoice_duplicate_pairs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    invoice_id TEXT NOT NULL,
+    duplicate_id TEXT NOT NULL,
+    score NUMERIC(3, 2) NOT NULL CHECK (score >= 0 AND score <= 1),
+    signals TEXT[] NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'merged', 'linked', 'dismissed')),
+    resolved_by_user_id TEXT,
+    resolved_by_email TEXT,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT invoice_duplicate_pairs_distinct CHECK (invoice_id <> duplicate_id),
+    CONSTRAINT invoice_duplicate_pairs_unique UNIQUE (invoice_id, duplicate_id)
+);
+
+-- ============================================================================
+-- PART 3: Indexes
+-- ============================================================================
+
+-- Review queue, highest score first
+CREATE INDEX IF NOT EXISTS idx_invoice_duplicate_pairs_status
+ON invoice_duplicate_pairs(status, score DESC, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_duplicate_pairs_duplicate_id
+ON invoice_duplicate_pairs(duplicate_id);
+
+COMMENT ON TABLE invoice_duplicate_pairs IS 'Likely duplicate invoice pairs and how each was resolved';
+COMMENT ON COLUMN invoice_duplicate_pairs.invoice_id IS 'Earlier invoice, kept as the original';
+COMMENT ON COLUMN invoice_duplicate_pairs.duplicate_id IS 'Later invoice suspected to be a duplicate';
+COMMENT ON COLUMN invoice_duplicate_pairs.signals IS 'Matching fields: file_checksum, supplier, invoice_number, amount, date';
+
+-- ============================================================================
+-- PART 4: Row Level Security (RLS) Policies
+-- ============================================================================
+
+ALTER TABLE invoice_duplicate_pairs ENABLE ROW LEVEL SECURITY;
+
+-- Authenticated users can read the queue; detection and resolution go
+-- through the API with the service role
+DROP POLICY IF EXISTS "Authenticated users can read duplicate pairs" ON invoice_duplicate_pairs;
+CREATE POLICY "Authenticated users can read duplicate pairs" ON invoice_duplicate_pairs
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Service role full access" ON invoice_duplicate_pairs;
+CREATE POLICY "Service role full access" ON invoice_duplicate_pairs
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+GRANT SELECT ON invoice_duplicate_pairs TO authenticated;
+GRANT ALL ON invoice_duplicate_pairs TO service_role;
+
+-- ============================================================================
+-- Migration complete
+-- ============================================================================
+
+SELECT 'Invoice duplicates migration completed successfully!' AS status;
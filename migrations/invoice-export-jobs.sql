@@ -0,0 +1,91 @@
+-- Invoice Export Jobs Migration
+-- Background invoice exports (src/lib/server/export-jobs.ts). Each job
+-- records the filters, columns and format it was asked for, its progress in
+-- rows, and once finished the file it wrote to the private
+-- `invoice-exports` storage bucket. Files are kept for seven days, then
+-- removed by the cron runner; the job stays in the list as expired.
+
+-- ============================================================================
+-- PART 1: invoice_export_jobs table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS invoice_export_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL,
+    owner_email TEXT,
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled', 'expired')),
+    format TEXT NOT NULL CHECK (format IN ('csv', 'xlsx', 'jsonl')),
+    columns TEXT[] NOT NULL,
+    filters JSONB NOT NULL DEFAULT '{}',
+    rows_total INTEGER,
+    rows_written INTEGER NOT NULL DEFAULT 0,
+    filename TEXT,
+    content_type TEXT,
+    storage_path TEXT,
+    byte_size BIGINT,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON COLUMN invoice_export_jobs.user_id IS 'Owner (auth.users id); only they can see and download the export';
+COMMENT ON COLUMN invoice_export_jobs.filters IS 'The invoices page filter state (InvoiceFiltersState) the export was started with';
+COMMENT ON COLUMN invoice_export_jobs.rows_total IS 'Matching invoices counted when the job was created';
+COMMENT ON COLUMN invoice_export_jobs.rows_written IS 'Rows written so far; updated after each page';
+COMMENT ON COLUMN invoice_export_jobs.storage_path IS 'Object in the invoice-exports bucket; cleared when the file expires';
+COMMENT ON COLUMN invoice_export_jobs.updated_at IS 'Touched with each page, so stalled jobs can be told from slow ones';
+
+-- ============================================================================
+-- PART 2: Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_invoice_export_jobs_user
+ON invoice_export_jobs(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_export_jobs_active
+ON invoice_export_jobs(updated_at)
+WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_invoice_export_jobs_expiry
+ON invoice_export_jobs(expires_at)
+WHERE status = 'completed';
+
+-- ============================================================================
+-- PART 3: Storage bucket
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('invoice-exports', 'invoice-exports', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- PART 4: Row Level Security (RLS) Policies
+-- ============================================================================
+
+ALTER TABLE invoice_export_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own exports" ON invoice_export_jobs;
+CREATE POLICY "Users can read their own exports" ON invoice_export_jobs
+    FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Service role full access" ON invoice_export_jobs;
+CREATE POLICY "Service role full access" ON invoice_export_jobs
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+GRANT SELECT ON invoice_export_jobs TO authenticated;
+GRANT ALL ON invoice_export_jobs TO service_role;
+
+-- ============================================================================
+-- Migration complete
+-- ============================================================================
+
+SELECT 'Invoice export jobs migration completed successfully!' AS status;
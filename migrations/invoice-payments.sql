@@ -0,0 +1,77 @@
+-- Invoice Payments Migration
+-- Ledger of payments recorded against invoices (src/lib/server/invoice-payments.ts).
+-- Each payment reduces the invoice's amount_due; the invoice moves to paid
+-- once nothing is outstanding.
+-- IMPORTANT: This migration is additive - it only creates a table, indexes and policies
+
+-- ============================================================================
+-- PART 1: Create invoice_payments table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS invoice_payments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    invoice_id TEXT NOT NULL,
+    amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+    paid_at DATE NOT NULL,
+    method TEXT CHECK (method IN ('bank_transfer', 'credit_card', 'debit_card', 'cash', 'cheque', 'paypal', 'other')),
+    reference TEXT NOT NULL,
+    notes TEXT,
+    confirmed_by TEXT,
+    amount_due_after NUMERIC(12, 2) NOT NULL,
+    recorded_by_user_id TEXT NOT NULL,
+    recorded_by_email TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================================================
+-- PART 2: Indexes
+-- ============================================================================
+
+-- Payment history for an invoice, newest first
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice_id
+ON invoice_payments(invoice_id, paid_at DESC, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_reference
+ON invoice_payments(reference);
+
+COMMENT ON TABLE invoice_payments IS 'Payments recorded against invoices; drives Invoice.amount_due and the paid status';
+COMMENT ON COLUMN invoice_payments.invoice_id IS 'Invoice id (not invoice number)';
+COMMENT ON COLUMN invoice_payments.amount_due_after IS 'Invoice amount_due after this payment was applied';
+COMMENT ON COLUMN invoice_payments.confirmed_by IS 'Team member who confirmed the payment with the bank or vendor';
+
+-- ============================================================================
+-- PART 3: Row Level Security (RLS) Policies
+-- ============================================================================
+
+ALTER TABLE invoice_payments ENABLE ROW LEVEL SECURITY;
+
+-- Authenticated users can read the ledger and record payments; corrections
+-- are made with a new entry rather than edits
+DROP POLICY IF EXISTS "Authenticated users can read payments" ON invoice_payments;
+CREATE POLICY "Authenticated users can read payments" ON invoice_payments
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can record payments" ON invoice_payments;
+CREATE POLICY "Authenticated users can record payments" ON invoice_payments
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (recorded_by_user_id = auth.uid()::text);
+
+-- API routes record payments with the service role
+DROP POLICY IF EXISTS "Service role full access" ON invoice_payments;
+CREATE POLICY "Service role full access" ON invoice_payments
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+GRANT SELECT, INSERT ON invoice_payments TO authenticated;
+GRANT ALL ON invoice_payments TO service_role;
+
+-- ============================================================================
+-- Migration complete
+-- ============================================================================
+
+SELECT 'Invoice payments migration completed successfully!' AS status;
@@ -0,0 +1,45 @@
+-- Invoice Query Pushdown Migration
+-- Supports GET /api/invoices filtering, sorting and pagination in the database
+-- (src/lib/server/invoice-query.ts) instead of loading the whole table in memory
+-- IMPORTANT: This migration is additive - it only creates indexes and settings
+
+-- ============================================================================
+-- PART 1: Indexes for filter and sort columns
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_invoices_invoice_date_id
+ON "Invoice"(invoice_date DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_due_date_id
+ON "Invoice"(due_date, id);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_total_id
+ON "Invoice"(total, id);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_supplier_name
+ON "Invoice"(supplier_name);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_category
+ON "Invoice"(category);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_status
+ON "Invoice"(status);
+
+-- Keyset pagination orders by (sort column, id); created_at is the default sort
+CREATE INDEX IF NOT EXISTS idx_invoices_created_at_id
+ON "Invoice"(created_at DESC, id DESC);
+
+-- ============================================================================
+-- PART 2: Enable PostgREST aggregate functions
+-- ============================================================================
+
+-- Used for the filtered total amount (select=total.sum()).
+-- Without this setting the API falls back to summing the current page.
+ALTER ROLE authenticator SET pgrst.db_aggregates_enabled = 'true';
+NOTIFY pgrst, 'reload config';
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
+
+SELECT 'Invoice query pushdown migration completed successfully!' AS status;
@@ -0,0 +1,91 @@
+-- Invoice Saved Views Migration
+-- Saved filter views for the invoices and kanban pages
+-- (src/lib/server/saved-views.ts). Views belong to the Supabase user who
+-- saved them and can be shared with the team or pinned org-wide, read-only
+-- or editable.
+-- IMPORTANT: This migration is additive - existing views keep their owner and
+-- stay private, except those saved under the old placeholder user
+
+-- ============================================================================
+-- PART 1: invoice_saved_views table and sharing columns
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS invoice_saved_views (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE invoice_saved_views ADD COLUMN IF NOT EXISTS owner_email TEXT;
+ALTER TABLE invoice_saved_views ADD COLUMN IF NOT EXISTS visibility TEXT NOT NULL DEFAULT 'private'
+    CHECK (visibility IN ('private', 'team', 'org'));
+ALTER TABLE invoice_saved_views ADD COLUMN IF NOT EXISTS permission TEXT NOT NULL DEFAULT 'read'
+    CHECK (permission IN ('read', 'edit'));
+ALTER TABLE invoice_saved_views ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN invoice_saved_views.user_id IS 'Owner (auth.users id)';
+COMMENT ON COLUMN invoice_saved_views.visibility IS 'private: owner only; team: shared with everyone; org: pinned for everyone (admins only)';
+COMMENT ON COLUMN invoice_saved_views.permission IS 'Whether others may rename or change the filters of a shared view';
+COMMENT ON COLUMN invoice_saved_views.position IS 'Order within the owner''s list of views';
+
+-- ============================================================================
+-- PART 2: Views saved before users were resolved
+-- ============================================================================
+
+-- The API used to file views under a placeholder user when it could not
+-- resolve the caller. Nobody owns those views, so share them read-only
+-- rather than letting them vanish; an admin can delete them.
+UPDATE invoice_saved_views
+SET visibility = 'team', permission = 'read', is_default = FALSE
+WHERE user_id = '00000000-0000-0000-0000-000000000000'
+  AND visibility = 'private';
+
+-- ============================================================================
+-- PART 3: Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_invoice_saved_views_user
+ON invoice_saved_views(user_id, position);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_saved_views_shared
+ON invoice_saved_views(visibility)
+WHERE visibility <> 'private';
+
+-- ============================================================================
+-- PART 4: Row Level Security (RLS) Policies
+-- ============================================================================
+
+ALTER TABLE invoice_saved_views ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own and shared views" ON invoice_saved_views;
+CREATE POLICY "Users can read their own and shared views" ON invoice_saved_views
+    FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid()::text OR visibility <> 'private');
+
+DROP POLICY IF EXISTS "Users can manage their own views" ON invoice_saved_views;
+CREATE POLICY "Users can manage their own views" ON invoice_saved_views
+    FOR ALL
+    TO authenticated
+    USING (user_id = auth.uid()::text)
+    WITH CHECK (user_id = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Service role full access" ON invoice_saved_views;
+CREATE POLICY "Service role full access" ON invoice_saved_views
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON invoice_saved_views TO authenticated;
+GRANT ALL ON invoice_saved_views TO service_role;
+
+-- ============================================================================
+-- Migration complete
+-- ============================================================================
+
+SELECT 'Invoice saved views migration completed successfully!' AS status;
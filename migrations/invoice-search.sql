@@ -0,0 +1,82 @@
+-- Invoice Full-Text Search Migration
+-- Backs search on GET /api/invoices (src/lib/server/invoice-query.ts and
+-- src/lib/invoice-search.ts): a weighted tsvector over the invoice number,
+-- supplier, description, line items and extracted document text, with ranked
+-- results and highlighted snippets
+-- IMPORTANT: This migration is additive - it only adds columns, indexes and a function
+
+-- ============================================================================
+-- PART 1: Searchable source columns
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Every line item as extracted (the legacy line_1_* columns only hold the first)
+ALTER TABLE "Invoice" ADD COLUMN IF NOT EXISTS line_items JSONB;
+
+ALTER TABLE "Invoice" ADD COLUMN IF NOT EXISTS document_text TEXT;
+COMMENT ON COLUMN "Invoice".document_text IS 'Plain text extracted from the invoice document by OCR, used for search';
+
+-- ============================================================================
+-- PART 2: Search vector
+-- ============================================================================
+
+-- Weights: A invoice number and supplier, B description and category,
+-- C line items, D document text. Invoice numbers use the simple config so
+-- they are not stemmed.
+ALTER TABLE "Invoice" ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(invoice_number, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(supplier_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(line_1_desc, '') || ' ' || coalesce(category, '')), 'B') ||
+    setweight(jsonb_to_tsvector('english', coalesce(line_items, '[]'::jsonb), '["string"]'), 'C') ||
+    setweight(to_tsvector('english', coalesce(document_text, '')), 'D')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_search_vector
+ON "Invoice" USING GIN (search_vector);
+
+-- Substring matches on invoice numbers ("20931" finds "INV-20931")
+CREATE INDEX IF NOT EXISTS idx_invoices_invoice_number_trgm
+ON "Invoice" USING GIN (invoice_number gin_trgm_ops);
+
+-- ============================================================================
+-- PART 3: Ranking and snippets
+-- ============================================================================
+
+-- Rank and snippet for the given invoices against a to_tsquery expression
+-- (built by toPrefixTsQuery). Snippets wrap matches in <mark>; rows whose
+-- text does not match get the leading words, which the API discards.
+CREATE OR REPLACE FUNCTION invoice_search_matches(search_query TEXT, invoice_ids TEXT[])
+RETURNS TABLE (id TEXT, rank REAL, snippet TEXT) AS $$
+    SELECT
+        i.id::TEXT,
+        ts_rank_cd(i.search_vector, q.query),
+        ts_headline(
+            'english',
+            concat_ws(
+                ' · ',
+                i.line_1_desc,
+                CASE WHEN jsonb_typeof(i.line_items) = 'array' THEN (
+                    SELECT string_agg(item ->> 'description', ' · ')
+                    FROM jsonb_array_elements(i.line_items) AS item
+                ) END,
+                i.document_text
+            ),
+            q.query,
+            'StartSel=<mark>, StopSel=</mark>, MinWords=8, MaxWords=18, MaxFragments=2, FragmentDelimiter=" … "'
+        )
+    FROM "Invoice" i
+    CROSS JOIN (SELECT to_tsquery('english', search_query) AS query) q
+    WHERE i.id::TEXT = ANY(invoice_ids);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION invoice_search_matches(TEXT, TEXT[]) TO authenticated, service_role;
+
+NOTIFY pgrst, 'reload schema';
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
+
+SELECT 'Invoice search migration completed successfully!' AS status;
@@ -0,0 +1,41 @@
+-- Invoice Status Counts Migration
+-- Lets GET /api/invoices read its status counts, total and total amount in one
+-- grouped aggregate (src/lib/server/invoice-query.ts) instead of one count
+-- query per status
+-- IMPORTANT: This migration is additive - it only creates a function
+-- Requires document_type (migrations/invoice-credit-notes.sql)
+-- Requires PostgREST aggregate functions (migrations/invoice-query-pushdown.sql)
+
+-- ============================================================================
+-- PART 1: Effective status as a computed column
+-- ============================================================================
+
+-- The status an invoice is counted under on the board. Mirrors
+-- buildStatusCondition: credit notes and adjustments have none, a recognised
+-- status value is used as is, and anything else falls back to the amount
+-- due / due date derivation. PostgREST exposes it as a computed column, so
+-- it can be selected and grouped on (select=board_status,count:id.count()).
+CREATE OR REPLACE FUNCTION board_status(invoice "Invoice")
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN invoice.document_type IN ('credit_note', 'adjustment') THEN NULL
+        WHEN invoice.status IN ('pending', 'open') THEN 'pending'
+        WHEN invoice.status IN ('in_review', 'in review', 'in-review') THEN 'in_review'
+        WHEN invoice.status IN ('approved') THEN 'approved'
+        WHEN invoice.status IN ('paid', 'complete', 'completed') THEN 'paid'
+        WHEN invoice.status IN ('overdue', 'late') THEN 'overdue'
+        WHEN coalesce(invoice.amount_due, invoice.total, 0) = 0 THEN 'paid'
+        WHEN coalesce(invoice.amount_due, invoice.total) > 0 AND invoice.due_date < now() THEN 'overdue'
+        ELSE 'pending'
+    END
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION board_status("Invoice") TO authenticated, service_role;
+
+NOTIFY pgrst, 'reload schema';
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
+
+SELECT 'Invoice status counts migration completed successfully!' AS status;
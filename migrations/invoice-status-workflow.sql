@@ -0,0 +1,46 @@
+-- Invoice Status Workflow Migration
+-- Stores the payment details the status workflow requires before an invoice
+-- can move to paid (src/lib/invoice-status-machine.ts)
+-- IMPORTANT: This migration is additive - it only adds columns and an index
+
+-- ============================================================================
+-- PART 1: Payment detail columns on the invoices table
+-- ============================================================================
+
+-- Add paid_at column if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'Invoice' AND column_name = 'paid_at'
+    ) THEN
+        ALTER TABLE "Invoice" ADD COLUMN paid_at TIMESTAMPTZ;
+        COMMENT ON COLUMN "Invoice".paid_at IS 'Date the invoice was paid; also bounds the 90 day reopen window';
+    END IF;
+END $$;
+
+-- Add payment_reference column if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'Invoice' AND column_name = 'payment_reference'
+    ) THEN
+        ALTER TABLE "Invoice" ADD COLUMN payment_reference TEXT;
+        COMMENT ON COLUMN "Invoice".payment_reference IS 'Bank transfer or remittance reference recorded when marking paid';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- PART 2: Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_invoices_paid_at
+ON "Invoice"(paid_at)
+WHERE paid_at IS NOT NULL;
+
+-- ============================================================================
+-- Migration complete
+-- ============================================================================
+
+SELECT 'Invoice status workflow migration completed successfully!' AS status;
@@ -0,0 +1,136 @@
+-- Report Schedules Migration
+-- Scheduled email deliveries of saved invoice views
+-- (src/lib/server/report-schedules.ts). A schedule sends a CSV or XLSX of a
+-- saved view daily, weekly or monthly in Sydney time; each send is recorded
+-- as a delivery with its attempts, so failures can be retried.
+-- IMPORTANT: Run after invoice-saved-views.sql. Deleting a saved view deletes
+-- its schedules and their history.
+
+-- ============================================================================
+-- PART 1: report_schedules table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS report_schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    saved_view_id UUID NOT NULL REFERENCES invoice_saved_views(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    owner_email TEXT,
+    frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+    hour SMALLINT NOT NULL CHECK (hour BETWEEN 0 AND 23),
+    minute SMALLINT NOT NULL DEFAULT 0 CHECK (minute BETWEEN 0 AND 59),
+    day_of_week SMALLINT CHECK (day_of_week BETWEEN 0 AND 6),
+    day_of_month SMALLINT CHECK (day_of_month BETWEEN 1 AND 31),
+    timezone TEXT NOT NULL DEFAULT 'Australia/Sydney',
+    format TEXT NOT NULL DEFAULT 'csv' CHECK (format IN ('csv', 'xlsx')),
+    recipients TEXT[] NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused')),
+    next_run_at TIMESTAMP WITH TIME ZONE,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    last_delivery_status TEXT CHECK (last_delivery_status IN ('sending', 'sent', 'failed')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON COLUMN report_schedules.user_id IS 'Owner (auth.users id); the report shows the view as they see it';
+COMMENT ON COLUMN report_schedules.hour IS 'Hour of the day in the schedule''s time zone';
+COMMENT ON COLUMN report_schedules.day_of_week IS 'Weekly schedules: 0 (Sunday) to 6 (Saturday)';
+COMMENT ON COLUMN report_schedules.day_of_month IS 'Monthly schedules: runs on the last day of shorter months';
+COMMENT ON COLUMN report_schedules.next_run_at IS 'Claimed and advanced by the cron runner before it sends';
+
+-- ============================================================================
+-- PART 2: report_deliveries table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS report_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    schedule_id UUID NOT NULL REFERENCES report_schedules(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'sending' CHECK (status IN ('sending', 'sent', 'failed')),
+    trigger TEXT NOT NULL DEFAULT 'schedule' CHECK (trigger IN ('schedule', 'manual')),
+    scheduled_for TIMESTAMP WITH TIME ZONE,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE,
+    attempted_at TIMESTAMP WITH TIME ZONE,
+    recipients TEXT[] NOT NULL DEFAULT '{}',
+    sent_to TEXT[] NOT NULL DEFAULT '{}',
+    row_count INTEGER,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    sent_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE report_deliveries ADD COLUMN IF NOT EXISTS attempted_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN report_deliveries.attempted_at IS 'When the latest attempt started; still sending 10 minutes later counts as stopped and is retried';
+COMMENT ON COLUMN report_deliveries.sent_to IS 'Recipients reached so far; retries only send to the rest';
+COMMENT ON COLUMN report_deliveries.next_attempt_at IS 'When a failed delivery is retried automatically; NULL once attempts run out';
+
+-- ============================================================================
+-- PART 3: Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_report_schedules_due
+ON report_schedules(next_run_at)
+WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_report_schedules_user
+ON report_schedules(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_schedule
+ON report_deliveries(schedule_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_retry
+ON report_deliveries(next_attempt_at)
+WHERE status = 'failed';
+
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_sending
+ON report_deliveries(attempted_at)
+WHERE status = 'sending';
+
+-- ============================================================================
+-- PART 4: Row Level Security (RLS) Policies
+-- ============================================================================
+
+ALTER TABLE report_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE report_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own schedules" ON report_schedules;
+CREATE POLICY "Users can manage their own schedules" ON report_schedules
+    FOR ALL
+    TO authenticated
+    USING (user_id = auth.uid()::text)
+    WITH CHECK (user_id = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can read deliveries of their schedules" ON report_deliveries;
+CREATE POLICY "Users can read deliveries of their schedules" ON report_deliveries
+    FOR SELECT
+    TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM report_schedules
+        WHERE report_schedules.id = report_deliveries.schedule_id
+          AND report_schedules.user_id = auth.uid()::text
+    ));
+
+DROP POLICY IF EXISTS "Service role full access" ON report_schedules;
+CREATE POLICY "Service role full access" ON report_schedules
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Service role full access" ON report_deliveries;
+CREATE POLICY "Service role full access" ON report_deliveries
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON report_schedules TO authenticated;
+GRANT SELECT ON report_deliveries TO authenticated;
+GRANT ALL ON report_schedules TO service_role;
+GRANT ALL ON report_deliveries TO service_role;
+
+-- ============================================================================
+-- Migration complete
+-- ============================================================================
+
+SELECT 'Report schedules migration completed successfully!' AS status;
@@ -0,0 +1,193 @@
+-- Vendors Migration
+-- Master data for suppliers (src/lib/server/vendors.ts). Invoices keep their
+-- free-text supplier_name and are linked to a canonical vendor through
+-- Invoice.vendor_id; every spelling a vendor has been seen under is kept as
+-- an alias so filters and reports can group them.
+-- Existing invoices are linked by POST /api/vendors/sync, which uses the same
+-- name normalisation as incoming invoices.
+-- IMPORTANT: This migration is additive - it only adds tables, a column, indexes, policies
+-- and the merge_vendors function
+
+-- ============================================================================
+-- PART 1: Create vendors table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS vendors (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    normalized_name TEXT NOT NULL,
+    abn TEXT CHECK (abn IS NULL OR abn ~ '^[0-9]{11}$'),
+    email TEXT,
+    phone TEXT,
+    address TEXT,
+    default_category TEXT,
+    default_payment_terms TEXT,
+    merged_into UUID REFERENCES vendors(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================================================
+-- PART 2: Create vendor_aliases table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS vendor_aliases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    vendor_id UUID NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
+    alias TEXT NOT NULL,
+    normalized_alias TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT vendor_aliases_alias_unique UNIQUE (alias)
+);
+
+-- ============================================================================
+-- PART 3: vendor_id column on the invoices table
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'Invoice' AND column_name = 'vendor_id'
+    ) THEN
+        ALTER TABLE "Invoice" ADD COLUMN vendor_id TEXT;
+        COMMENT ON COLUMN "Invoice".vendor_id IS 'Canonical vendor (vendors.id) for supplier_name';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- PART 4: Indexes
+-- ============================================================================
+
+-- One active vendor per normalised name
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vendors_normalized_name
+ON vendors(normalized_name)
+WHERE merged_into IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vendors_abn
+ON vendors(abn)
+WHERE abn IS NOT NULL AND merged_into IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_vendor_aliases_vendor_id
+ON vendor_aliases(vendor_id);
+
+CREATE INDEX IF NOT EXISTS idx_vendor_aliases_normalized_alias
+ON vendor_aliases(normalized_alias);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_vendor_id
+ON "Invoice"(vendor_id)
+WHERE vendor_id IS NOT NULL;
+
+COMMENT ON TABLE vendors IS 'Canonical supplier identities; merged vendors point at the vendor that replaced them';
+COMMENT ON TABLE vendor_aliases IS 'Supplier names as they appear on invoices, mapped to their vendor';
+
+-- ============================================================================
+-- PART 5: Row Level Security (RLS) Policies
+-- ============================================================================
+
+ALTER TABLE vendors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vendor_aliases ENABLE ROW LEVEL SECURITY;
+
+-- Authenticated users can read vendors; changes go through the API with the
+-- service role so matching and merges stay consistent
+DROP POLICY IF EXISTS "Authenticated users can read vendors" ON vendors;
+CREATE POLICY "Authenticated users can read vendors" ON vendors
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can read vendor aliases" ON vendor_aliases;
+CREATE POLICY "Authenticated users can read vendor aliases" ON vendor_aliases
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Service role full access" ON vendors;
+CREATE POLICY "Service role full access" ON vendors
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Service role full access" ON vendor_aliases;
+CREATE POLICY "Service role full access" ON vendor_aliases
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+GRANT SELECT ON vendors TO authenticated;
+GRANT SELECT ON vendor_aliases TO authenticated;
+GRANT ALL ON vendors TO service_role;
+GRANT ALL ON vendor_aliases TO service_role;
+
+-- ============================================================================
+-- PART 6: Vendor merge
+-- ============================================================================
+
+-- Merge source vendors into a target in one transaction: aliases and
+-- invoices move to the target, the sources' names become aliases, sources
+-- are marked merged_into and the target's empty details are filled from
+-- `details`. Sources merged by a concurrent call are skipped. Returns the
+-- number of invoices moved.
+CREATE OR REPLACE FUNCTION merge_vendors(
+    target_id UUID,
+    source_ids UUID[],
+    alias_names TEXT[],
+    normalized_aliases TEXT[],
+    details JSONB DEFAULT '{}'::JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+    merging UUID[];
+    moved INTEGER;
+BEGIN
+    PERFORM 1 FROM vendors WHERE id = target_id AND merged_into IS NULL FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Vendor % does not exist or was merged', target_id USING ERRCODE = 'no_data_found';
+    END IF;
+
+    SELECT COALESCE(array_agg(id), '{}') INTO merging
+    FROM (
+        SELECT id FROM vendors
+        WHERE id = ANY(source_ids) AND id <> target_id AND merged_into IS NULL
+        FOR UPDATE
+    ) AS sources;
+
+    UPDATE vendor_aliases SET vendor_id = target_id WHERE vendor_id = ANY(merging);
+
+    INSERT INTO vendor_aliases (vendor_id, alias, normalized_alias)
+    SELECT target_id, names.alias, names.normalized_alias
+    FROM unnest(alias_names, normalized_aliases) AS names(alias, normalized_alias)
+    ON CONFLICT (alias) DO NOTHING;
+
+    UPDATE "Invoice" SET vendor_id = target_id::TEXT WHERE vendor_id = ANY(merging::TEXT[]);
+    GET DIAGNOSTICS moved = ROW_COUNT;
+
+    -- Release the unique name/ABN slots before the target takes over the ABN
+    UPDATE vendors SET merged_into = target_id, updated_at = NOW() WHERE id = ANY(merging);
+
+    UPDATE vendors SET
+        abn = COALESCE(abn, details ->> 'abn'),
+        email = COALESCE(email, details ->> 'email'),
+        phone = COALESCE(phone, details ->> 'phone'),
+        address = COALESCE(address, details ->> 'address'),
+        default_category = COALESCE(default_category, details ->> 'default_category'),
+        default_payment_terms = COALESCE(default_payment_terms, details ->> 'default_payment_terms'),
+        updated_at = NOW()
+    WHERE id = target_id AND details <> '{}'::JSONB;
+
+    RETURN moved;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION merge_vendors(UUID, UUID[], TEXT[], TEXT[], JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION merge_vendors(UUID, UUID[], TEXT[], TEXT[], JSONB) TO service_role;
+
+NOTIFY pgrst, 'reload schema';
+
+-- ============================================================================
+-- Migration complete
+-- ============================================================================
+
+SELECT 'Vendors migration completed successfully!' AS status;
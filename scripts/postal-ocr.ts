@@ -65,6 +65,8 @@ type InvoicePayload = {
   line_1_desc: string | null
   line_1_qty: number | null
   line_1_unit_price: number | null
+  line_items: OpenAiVisionResponse['line_items'] | null
+  document_text: string | null
   notes: string | null
   ocr_confidence: number | null
   file_checksum: string
@@ -414,6 +416,7 @@ type OpenAiVisionResponse = {
     unit_price?: number | null
   }>
   notes?: string | null
+  document_text?: string | null
   confidence?: {
     invoice_number?: number | null
     supplier?: number | null
@@ -481,6 +484,7 @@ async function callOpenAiVision(
     }
   ],
   "notes": string | null,
+  "document_text": string | null,
   "confidence": {
     "invoice_number": number | null,
     "supplier": number | null,
@@ -489,6 +493,7 @@ async function callOpenAiVision(
   "message_id": string | null
 }
 
+document_text is all readable text on the document in reading order, used for search.
 Return null where information is not present.`
 
   const responseRes = await fetch('https://api.openai.com/v1/responses', {
@@ -596,6 +601,8 @@ function mapToInvoicePayload(
     line_1_desc: firstLine?.description ?? null,
     line_1_qty: firstLine?.quantity ?? null,
     line_1_unit_price: firstLine?.unit_price ?? null,
+    line_items: raw.line_items ?? null,
+    document_text: raw.document_text ?? null,
     notes: raw.notes ?? null,
     ocr_confidence: averageConfidence,
     file_checksum: base.checksum,
@@ -0,0 +1,35 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ApprovalQueue } from '@/components/approvals/approval-queue';
+import { ApprovalPolicies } from '@/components/approvals/approval-policies';
+
+export default function ApprovalsPage() {
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          Awaiting my approval
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Invoices that need your sign-off. Larger invoices need more than one approver, and nobody can approve an invoice they uploaded.
+        </p>
+      </div>
+
+      <ApprovalQueue />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Approval policies</CardTitle>
+          <CardDescription>
+            How many approvals each invoice needs, by amount, category and vendor. Only admins can change policies.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ApprovalPolicies />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
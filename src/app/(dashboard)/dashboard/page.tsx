@@ -6,6 +6,7 @@ import { Calendar, Filter, Activity } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 
 import { StatsCards } from '@/components/dashboard/stats-cards';
+import { RecurringAlerts } from '@/components/dashboard/recurring-alerts';
 import { DashboardStatsProvider, useDashboardStats } from '@/components/dashboard/dashboard-stats-provider';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -14,6 +15,10 @@ import { InvoiceFiltersProvider, useInvoiceFilters } from '@/hooks/use-invoices-
 import { InvoiceFilterDrawer } from '@/components/invoices/filter-drawer';
 import { InvoiceFilterChips } from '@/components/invoices/filter-chips';
 import { fetchInvoiceFacets } from '@/lib/api/invoices';
+import { fetchAgingReport } from '@/lib/api/outstanding';
+import { fetchCashflowForecast } from '@/lib/api/forecast';
+import { fetchRecurringInsights } from '@/lib/api/recurring';
+import { DEFAULT_FORECAST_SCENARIO, type ForecastScenario } from '@/lib/cashflow-forecast';
 
 const StatusBreakdown = dynamic(() => import('@/components/charts/supplier-breakdown').then((m) => m.StatusBreakdown), {
   ssr: false,
@@ -49,6 +54,40 @@ const TopVendors = dynamic(() => import('@/components/charts/top-vendors').then(
   ),
 });
 
+const PayablesAging = dynamic(() => import('@/components/charts/payables-aging').then((m) => m.PayablesAging), {
+  ssr: false,
+  loading: () => (
+    <Card className="rpd-card-elevated">
+      <CardHeader className="pb-4">
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-3 bg-slate-200 dark:bg-slate-700 rounded-full animate-pulse"></div>
+          <div className="h-5 w-28 bg-slate-200 dark:bg-slate-700 rounded animate-pulse"></div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="h-72 rounded bg-slate-100 dark:bg-slate-800 animate-pulse" />
+      </CardContent>
+    </Card>
+  ),
+});
+
+const CashflowForecastChart = dynamic(() => import('@/components/charts/cashflow-forecast').then((m) => m.CashflowForecastChart), {
+  ssr: false,
+  loading: () => (
+    <Card className="rpd-card-elevated">
+      <CardHeader className="pb-4">
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-3 bg-slate-200 dark:bg-slate-700 rounded-full animate-pulse"></div>
+          <div className="h-5 w-32 bg-slate-200 dark:bg-slate-700 rounded animate-pulse"></div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="h-72 rounded bg-slate-100 dark:bg-slate-800 animate-pulse" />
+      </CardContent>
+    </Card>
+  ),
+});
+
 function Clock() {
   const [now, setNow] = useState<string>('');
   useEffect(() => {
@@ -81,8 +120,9 @@ function toIsoEnd(date: string): string {
 
 function DashboardView() {
   const { filters } = useInvoiceFilters();
-  const { data: stats, isLoading, isError, params, setParams } = useDashboardStats();
+  const { data: stats, isLoading, isError, params, queryParams, setParams } = useDashboardStats();
   const [isFilterDrawerOpen, setFilterDrawerOpen] = useState(false);
+  const [forecastScenario, setForecastScenario] = useState<ForecastScenario>(DEFAULT_FORECAST_SCENARIO);
 
   // Fetch facets for filter options
   const facetsQuery = useQuery({
@@ -91,6 +131,26 @@ function DashboardView() {
     staleTime: 10 * 60 * 1000,
   });
 
+  // Aged payables share the dashboard filters
+  const agingQuery = useQuery({
+    queryKey: ['payables-aging', queryParams],
+    queryFn: () => fetchAgingReport(queryParams),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const forecastQuery = useQuery({
+    queryKey: ['payables-forecast', queryParams, forecastScenario],
+    queryFn: () => fetchCashflowForecast({ ...queryParams, ...forecastScenario }),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Cadences span the whole history, so only the category and vendor filters apply
+  const recurringQuery = useQuery({
+    queryKey: ['recurring-insights', queryParams.category, queryParams.vendor],
+    queryFn: () => fetchRecurringInsights({ category: queryParams.category, vendor: queryParams.vendor }),
+    staleTime: 5 * 60 * 1000,
+  });
+
   // Check if filters are active
   const hasActiveFilters = useMemo(() => {
     return (
@@ -178,6 +238,40 @@ function DashboardView() {
           </div>
         </div>
 
+        {/* Aged Payables */}
+        <div className="animate-fade-in" style={{animationDelay: '0.2s'}}>
+          <PayablesAging
+            data={agingQuery.data}
+            params={queryParams}
+            isLoading={agingQuery.isLoading}
+            isError={agingQuery.isError}
+            isFiltered={hasActiveFilters}
+          />
+        </div>
+
+        {/* Cash-flow Forecast */}
+        <div className="animate-fade-in" style={{animationDelay: '0.3s'}}>
+          <CashflowForecastChart
+            data={forecastQuery.data}
+            params={queryParams}
+            scenario={forecastScenario}
+            onScenarioChange={setForecastScenario}
+            isLoading={forecastQuery.isLoading}
+            isError={forecastQuery.isError}
+            isFiltered={hasActiveFilters}
+          />
+        </div>
+
+        {/* Recurring Bills */}
+        <div className="animate-fade-in" style={{animationDelay: '0.4s'}}>
+          <RecurringAlerts
+            data={recurringQuery.data}
+            isLoading={recurringQuery.isLoading}
+            isError={recurringQuery.isError}
+            isFiltered={filters.categories.length > 0 || filters.vendors.length > 0}
+          />
+        </div>
+
         {/* Filter Drawer */}
         <InvoiceFilterDrawer
           open={isFilterDrawerOpen}
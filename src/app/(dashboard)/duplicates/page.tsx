@@ -0,0 +1,21 @@
+'use client';
+
+import { DuplicateReviewQueue } from '@/components/invoices/duplicate-review-queue';
+
+export default function DuplicatesPage() {
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          Possible duplicates
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Bills that look like they arrived twice, for example by email and by post. Merged duplicates are left out of stats and totals.
+        </p>
+      </div>
+
+      <DuplicateReviewQueue />
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MyExports } from '@/components/exports/my-exports';
+
+export default function ExportsPage() {
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          My exports
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Invoice exports you have started, with their progress. Finished files can be downloaded again until they expire.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Exports</CardTitle>
+          <CardDescription>
+            Exports keep running if you leave the page. Each file holds the invoices that matched your filters when the export started.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <MyExports />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+
+import { InvoiceDetail } from '@/components/invoices/invoice-detail';
+
+export default function InvoicePage() {
+  const { id } = useParams<{ id: string }>();
+
+  return <InvoiceDetail invoiceId={decodeURIComponent(id)} />;
+}
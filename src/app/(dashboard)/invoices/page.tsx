@@ -7,6 +7,7 @@ import {
   PaginationState,
 } from "@tanstack/react-table"
 import { useMutation, useQuery, useQueryClient, keepPreviousData } from "@tanstack/react-query"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
 
 import { DataTable } from "@/components/invoices/data-table"
 import { DataTableResponsive } from "@/components/invoices/data-table-responsive"
@@ -25,25 +26,74 @@ import {
   Filter,
   ExternalLink,
   Loader2,
-  Bookmark
+  Bookmark,
+  Plus
 } from "lucide-react"
 
-import { fetchInvoices, fetchInvoiceFacets, fetchInvoiceSavedViews, createInvoiceSavedView, deleteInvoiceSavedView } from "@/lib/api/invoices"
+import {
+  fetchInvoices,
+  fetchInvoiceFacets,
+  createInvoiceSavedView,
+  updateInvoiceSavedView,
+  duplicateInvoiceSavedView,
+  reorderInvoiceSavedViews,
+  deleteInvoiceSavedView,
+  createInvoice,
+  bulkUpdateInvoiceStatus,
+} from "@/lib/api/invoices"
 import { cn, formatCurrency } from "@/lib/utils"
 import { InvoiceFiltersProvider, useInvoiceFilters } from "@/hooks/use-invoices-filters"
+import { SAVED_VIEWS_QUERY_KEY, useSavedViews } from "@/hooks/use-saved-views"
 import { InvoiceFilterPopover } from "@/components/invoices/filter-popover"
 import { InvoiceFilterDrawer } from "@/components/invoices/filter-drawer"
 import { InvoiceFilterChips } from "@/components/invoices/filter-chips"
 import { ExportProgressButton } from "@/components/invoices/export-progress-button"
-import { SavedViewsModal } from "@/components/invoices/saved-views-modal"
-import { serializeInvoiceFilters } from "@/types/invoice-filters"
+import { SavedViewsModal, type SavedViewUpdate } from "@/components/invoices/saved-views-modal"
+import { NewInvoiceModal } from "@/components/invoices/new-invoice-modal"
+import {
+  applySearchQueryToFilters,
+  defaultInvoiceFilters,
+  invoiceFiltersToSearchQuery,
+  serializeInvoiceFilters,
+  type InvoiceFiltersState,
+} from "@/types/invoice-filters"
+import { isAgingBucket } from "@/lib/payables-aging"
+import { parseSearchQuery } from "@/lib/invoice-search-query"
+import type { InvoiceCreateInput } from "@/lib/schemas/invoice"
+import type { StatusChangeInput } from "@/lib/invoice-status-machine"
+import type { SavedViewVisibility } from "@/lib/saved-views"
 
 // Force this page to be client-only (no SSR/SSG)
 export const dynamic = 'force-dynamic'
 
 export default function InvoicesPage() {
   return (
-    <InvoiceFiltersProvider>
+    <React.Suspense fallback={null}>
+      <InvoicesFromQuery />
+    </React.Suspense>
+  )
+}
+
+function InvoicesFromQuery() {
+  // Vendor pages link here with ?vendor=<name>; the dashboard aging widget adds ?aging=<bucket>&category=<name>.
+  // The page keeps the active filters in ?q= as search syntax (vendor:"origin energy" amount>1200)
+  const searchParams = useSearchParams()
+  const vendors = searchParams.getAll('vendor')
+  const categories = searchParams.getAll('category')
+  const aging = searchParams.get('aging')
+  const query = searchParams.get('q')
+
+  const linkedFilters: Partial<InvoiceFiltersState> = {
+    ...(vendors.length ? { vendors } : {}),
+    ...(categories.length ? { categories } : {}),
+    ...(isAgingBucket(aging) ? { aging } : {}),
+  }
+  const initialFilters = query
+    ? applySearchQueryToFilters({ ...defaultInvoiceFilters, ...linkedFilters }, parseSearchQuery(query))
+    : linkedFilters
+
+  return (
+    <InvoiceFiltersProvider initialFilters={Object.keys(initialFilters).length ? initialFilters : undefined}>
       <InvoicesView />
     </InvoiceFiltersProvider>
   )
@@ -56,6 +106,7 @@ export function InvoicesView() {
   const [pagination, setPagination] = React.useState<PaginationState>({ pageIndex: 0, pageSize: 20 })
   const [isFilterDrawerOpen, setFilterDrawerOpen] = React.useState(false)
   const [isSavedViewsOpen, setSavedViewsOpen] = React.useState(false)
+  const [isNewInvoiceOpen, setNewInvoiceOpen] = React.useState(false)
   const [feedback, setFeedback] = React.useState<{ type: 'info' | 'success' | 'error'; message: string } | null>(null)
   const [filterAnnouncement, setFilterAnnouncement] = React.useState<string>('')
 
@@ -76,10 +127,31 @@ export function InvoicesView() {
       dateTo: filters.dateRange?.end,
       amountMin: filters.amountRange?.min,
       amountMax: filters.amountRange?.max,
+      dueFrom: filters.dueRange?.start,
+      dueTo: filters.dueRange?.end,
+      aging: filters.aging,
       savedViewId: filters.savedViewId,
     }
   }, [filters, pagination, sorting])
 
+  // Keep the filters in the URL so the list can be bookmarked and shared
+  const router = useRouter()
+  const pathname = usePathname()
+  const urlQuery = React.useMemo(() => invoiceFiltersToSearchQuery(filters), [filters])
+  React.useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    if ((params.get('q') ?? '') === urlQuery && !params.has('vendor') && !params.has('category') && !params.has('aging')) {
+      return
+    }
+    params.delete('vendor')
+    params.delete('category')
+    params.delete('aging')
+    if (urlQuery) params.set('q', urlQuery)
+    else params.delete('q')
+    const search = params.toString()
+    router.replace(search ? `${pathname}?${search}` : pathname, { scroll: false })
+  }, [urlQuery, pathname, router])
+
   const { data, isLoading, error, refetch } = useQuery({
     queryKey: ['invoices', apiParams] as const,
     queryFn: () => fetchInvoices(apiParams),
@@ -94,11 +166,8 @@ export function InvoicesView() {
     staleTime: 10 * 60 * 1000,
   })
 
-  const savedViewsQuery = useQuery({
-    queryKey: ['invoice-saved-views'],
-    queryFn: fetchInvoiceSavedViews,
-    staleTime: 5 * 60 * 1000,
-  })
+  // Loads the user's views and applies their default when the page opens without filters
+  const savedViewsQuery = useSavedViews()
 
   const savedViews = savedViewsQuery.data?.views ?? []
 
@@ -109,49 +178,95 @@ export function InvoicesView() {
   const dateToKey = filters.dateRange?.end ?? ''
   const amountMinKey = filters.amountRange?.min ?? ''
   const amountMaxKey = filters.amountRange?.max ?? ''
+  const dueFromKey = filters.dueRange?.start ?? ''
+  const dueToKey = filters.dueRange?.end ?? ''
+
 
+  const invalidateSavedViews = React.useCallback(
+    () => queryClient.invalidateQueries({ queryKey: SAVED_VIEWS_QUERY_KEY }),
+    [queryClient],
+  )
 
-  const createSavedViewMutation = useMutation({
-    mutationFn: ({ name, isDefault, filters: payload }: { name: string; isDefault?: boolean; filters: ReturnType<typeof serializeInvoiceFilters> }) =>
-      createInvoiceSavedView({ name, isDefault, filters: payload }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['invoice-saved-views'] })
+  const handleCreateSavedView = React.useCallback(
+    async ({ name, isDefault, visibility }: { name: string; isDefault?: boolean; visibility?: SavedViewVisibility }) => {
+      await createInvoiceSavedView({ name, isDefault, visibility, filters: serializeInvoiceFilters(filters) })
+      await invalidateSavedViews()
     },
-  })
+    [filters, invalidateSavedViews],
+  )
 
-  const deleteSavedViewMutation = useMutation({
-    mutationFn: (id: string) => deleteInvoiceSavedView(id),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['invoice-saved-views'] })
+  const handleUpdateSavedView = React.useCallback(
+    async (id: string, { updateFilters, ...changes }: SavedViewUpdate) => {
+      await updateInvoiceSavedView(id, {
+        ...changes,
+        ...(updateFilters ? { filters: serializeInvoiceFilters(filters) } : {}),
+      })
+      await invalidateSavedViews()
     },
-  })
+    [filters, invalidateSavedViews],
+  )
 
-  const handleCreateSavedView = React.useCallback(
-    async ({ name, isDefault }: { name: string; isDefault?: boolean }) => {
-      try {
-        await createSavedViewMutation.mutateAsync({
-          name,
-          isDefault,
-          filters: serializeInvoiceFilters(filters),
-        })
-      } catch (exportError) {
-        console.error('Failed to create saved view', exportError)
-        throw exportError
-      }
+  const handleDuplicateSavedView = React.useCallback(
+    async (id: string) => {
+      await duplicateInvoiceSavedView(id)
+      await invalidateSavedViews()
     },
-    [createSavedViewMutation, filters],
+    [invalidateSavedViews],
   )
 
+  const reorderSavedViewsMutation = useMutation({
+    mutationFn: (ids: string[]) => reorderInvoiceSavedViews(ids),
+    // Show the new order straight away; the refetch settles it
+    onMutate: (ids) => {
+      queryClient.setQueryData(SAVED_VIEWS_QUERY_KEY, (old: typeof savedViewsQuery.data) => {
+        if (!old) return old
+        // The user's own views take each other's places; shared views stay put
+        const byId = new Map(old.views.map((view) => [view.id, view]))
+        const ordered = ids.filter((id) => byId.has(id))
+        const owned = new Set(ordered)
+        let next = 0
+        return { ...old, views: old.views.map((view) => (owned.has(view.id) ? byId.get(ordered[next++])! : view)) }
+      })
+    },
+    onSettled: () => invalidateSavedViews(),
+  })
+
   const handleDeleteSavedView = React.useCallback(
     async (id: string) => {
-      try {
-        await deleteSavedViewMutation.mutateAsync(id)
-      } catch (deleteError) {
-        console.error('Failed to delete saved view', deleteError)
-        throw deleteError
+      await deleteInvoiceSavedView(id)
+      await invalidateSavedViews()
+    },
+    [invalidateSavedViews],
+  )
+
+  const handleCreateInvoice = React.useCallback(
+    async (payload: InvoiceCreateInput, options: { confirmDuplicate: boolean }) => {
+      const result = await createInvoice(payload, options)
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: ['invoices'] })
+        queryClient.invalidateQueries({ queryKey: ['invoice-facets'] })
+        setFeedback({ type: 'success', message: `Invoice ${payload.invoice_number} created` })
       }
+      return result
     },
-    [deleteSavedViewMutation],
+    [queryClient],
+  )
+
+  const handleBulkStatusUpdate = React.useCallback(
+    async (ids: string[], status: string, details: StatusChangeInput) => {
+      const result = await bulkUpdateInvoiceStatus(ids, status, details)
+      if (result.summary.updated > 0 || (result.summary.approvalsRecorded ?? 0) > 0) {
+        queryClient.invalidateQueries({ queryKey: ['invoices'] })
+        queryClient.invalidateQueries({ queryKey: ['kanban-invoices'] })
+        queryClient.invalidateQueries({ queryKey: ['kanban-all-invoices'] })
+        queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] })
+        queryClient.invalidateQueries({ queryKey: ['payables-aging'] })
+        queryClient.invalidateQueries({ queryKey: ['payables-forecast'] })
+        queryClient.invalidateQueries({ queryKey: ['invoice-facets'] })
+      }
+      return result
+    },
+    [queryClient],
   )
 
   const invoices = React.useMemo(() => {
@@ -190,6 +305,7 @@ export function InvoicesView() {
   const showingMessage = invoices.length
     ? `Showing ${pageStart.toLocaleString('en-AU')}–${pageEnd.toLocaleString('en-AU')} of ${totalCount.toLocaleString('en-AU')} invoices`
     : 'No invoices match the current filters'
+  const rankedLimit = data?.pagination?.rankedLimit ?? null
 
   React.useEffect(() => {
     setColumnFilters((prev) => {
@@ -226,6 +342,9 @@ export function InvoicesView() {
     dateToKey,
     amountMinKey,
     amountMaxKey,
+    dueFromKey,
+    dueToKey,
+    filters.aging,
     filters.savedViewId,
   ])
 
@@ -331,10 +450,20 @@ export function InvoicesView() {
         views={savedViews}
         isLoading={savedViewsQuery.isLoading}
         onCreate={handleCreateSavedView}
+        onUpdate={handleUpdateSavedView}
+        onDuplicate={handleDuplicateSavedView}
+        onReorder={(ids) => reorderSavedViewsMutation.mutateAsync(ids)}
         onDelete={handleDeleteSavedView}
         onRefresh={() => savedViewsQuery.refetch()}
       />
 
+      <NewInvoiceModal
+        open={isNewInvoiceOpen}
+        onOpenChange={setNewInvoiceOpen}
+        categories={facetsQuery.data?.facets.categories.map((category) => category.value)}
+        onCreate={handleCreateInvoice}
+      />
+
       <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
         <div>
           <div className="flex items-center gap-2">
@@ -346,6 +475,10 @@ export function InvoicesView() {
           </p>
         </div>
         <div className="flex flex-wrap items-center gap-4">
+          <Button size="sm" onClick={() => setNewInvoiceOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New invoice
+          </Button>
           <Button
             variant="outline"
             size="sm"
@@ -589,6 +722,11 @@ export function InvoicesView() {
             <CardDescription className="space-y-1">
               <span>Use the toolbar filters and saved views to hone in on the records you need.</span>
               <span className="block text-xs text-slate-500">{showingMessage}</span>
+              {rankedLimit !== null && (
+                <span className="block text-xs text-amber-700">
+                  Only the {rankedLimit.toLocaleString('en-AU')} most recent matches are ranked by relevance. Refine the search, or sort by a column to page through all {totalCount.toLocaleString('en-AU')}.
+                </span>
+              )}
             </CardDescription>
           </CardHeader>
           <CardContent className="p-0 md:p-6">
@@ -609,6 +747,7 @@ export function InvoicesView() {
                 manualSorting
                 manualFiltering
                 facets={facetsQuery.data?.facets}
+                onBulkStatusUpdate={handleBulkStatusUpdate}
               />
             </div>
           </CardContent>
@@ -6,7 +6,7 @@ import { cn } from '@/lib/utils';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { KanbanBoard, BoardStatus } from '@/components/kanban/kanban-board';
 import { PerfectJiraKanban } from '@/components/kanban/perfect-jira-kanban';
-import { updateInvoiceStatus } from '@/lib/api/invoices';
+import { updateInvoiceStatus, bulkUpdateInvoiceStatus, fetchInvoiceTransitions } from '@/lib/api/invoices';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
@@ -14,9 +14,17 @@ import { LayoutGrid, Filter, RefreshCw, DollarSign } from 'lucide-react';
 import { Invoice } from '@/lib/types';
 import { fetchInvoices } from '@/lib/api/invoices';
 import { InvoiceFiltersProvider, useInvoiceFilters } from '@/hooks/use-invoices-filters';
+import { useSavedViews } from '@/hooks/use-saved-views';
 import { InvoiceFilterDrawer } from '@/components/invoices/filter-drawer';
 import { InvoiceFilterChips } from '@/components/invoices/filter-chips';
 import { ExportProgressButton } from '@/components/invoices/export-progress-button';
+import { BulkStatusBar } from '@/components/invoices/bulk-status-bar';
+import { PaymentDetailsDialog } from '@/components/invoices/payment-details-dialog';
+import type { StatusChangeInput } from '@/lib/invoice-status-machine';
+
+function isBoardDocument(invoice: { documentType?: string | null }) {
+  return (invoice.documentType ?? 'invoice') === 'invoice';
+}
 
 export default function KanbanPage() {
   return (
@@ -29,7 +37,16 @@ export default function KanbanPage() {
 function KanbanView() {
   const { filters, toggleStatus } = useInvoiceFilters();
   const [isFilterDrawerOpen, setFilterDrawerOpen] = React.useState(false);
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(() => new Set());
+  const [blockedStatuses, setBlockedStatuses] = React.useState<Partial<Record<BoardStatus, string>>>({});
+  const [pendingPaidMove, setPendingPaidMove] = React.useState<string[] | null>(null);
+  const [moveFeedback, setMoveFeedback] = React.useState<string | null>(null);
+  // Dragged invoices that can be marked paid without asking for payment details
+  const paymentOnFileRef = React.useRef<Set<string>>(new Set());
+  const dragRequestRef = React.useRef(0);
   const queryClient = useQueryClient();
+  // Applies the user's default saved view when the board opens
+  const { data: savedViewsData } = useSavedViews();
 
   // Click handler for status cards
   const handleStatusCardClick = React.useCallback((status: BoardStatus) => {
@@ -64,6 +81,9 @@ function KanbanView() {
     dateTo: filters.dateRange?.end,
     amountMin: filters.amountRange?.min,
     amountMax: filters.amountRange?.max,
+    dueFrom: filters.dueRange?.start,
+    dueTo: filters.dueRange?.end,
+    aging: filters.aging,
     savedViewId: filters.savedViewId,
   }), [filters]);
 
@@ -87,7 +107,8 @@ function KanbanView() {
       return [] as Invoice[];
     }
 
-    const processed = (data.data as any[]).map((inv, idx) => {
+    // Credit notes and adjustments are listed with their invoice, not on the board
+    const processed = (data.data as any[]).filter(isBoardDocument).map((inv, idx) => {
       const rawStatus = (inv.status ?? inv.paymentStatus ?? 'pending')
         .toString()
         .toLowerCase() as BoardStatus;
@@ -127,9 +148,12 @@ function KanbanView() {
     dateTo: filters.dateRange?.end,
     amountMin: filters.amountRange?.min,
     amountMax: filters.amountRange?.max,
+    dueFrom: filters.dueRange?.start,
+    dueTo: filters.dueRange?.end,
+    aging: filters.aging,
     savedViewId: filters.savedViewId,
     // Explicitly exclude status filter to get all statuses
-  }), [filters.search, filters.categories, filters.vendors, filters.dateRange, filters.amountRange, filters.savedViewId]);
+  }), [filters.search, filters.categories, filters.vendors, filters.dateRange, filters.amountRange, filters.dueRange, filters.aging, filters.savedViewId]);
 
   const { data: allInvoicesData } = useQuery({
     queryKey: ['kanban-all-invoices', allInvoicesParams],
@@ -153,7 +177,7 @@ function KanbanView() {
     }
 
     // Count invoices by status from all data
-    const counts = (allInvoicesData.data as any[]).reduce((acc, inv) => {
+    const counts = (allInvoicesData.data as any[]).filter(isBoardDocument).reduce((acc, inv) => {
       const status = (inv.status ?? inv.paymentStatus ?? 'pending').toString().toLowerCase();
       if (status === 'pending') acc.pending++;
       else if (status === 'in_review') acc.in_review++;
@@ -186,9 +210,26 @@ function KanbanView() {
     };
   }, [data?.pagination?.total, data?.pagination?.totalAmount, totalsByStatus, invoices]);
 
-  const handleInvoiceUpdate = async (invoiceId: string, newStatus: BoardStatus) => {
-    // Optimistically update the React Query cache for this page's dataset
+  const handleInvoiceUpdate = async (invoiceId: string, newStatus: BoardStatus, details: StatusChangeInput = {}) => {
+    const isTarget = (inv: any) => inv.id === invoiceId || inv.invoiceNumber === invoiceId;
     const queryKey = ['kanban-invoices', apiParams] as const;
+    const previous = (queryClient.getQueryData(queryKey) as any)?.data?.find(isTarget);
+    const revert = () => {
+      if (!previous) return;
+      queryClient.setQueryData(queryKey, (old: any) => {
+        if (!old?.data) return old;
+        return {
+          ...old,
+          data: old.data.map((inv: any) =>
+            isTarget(inv) ? { ...inv, status: previous.status, paymentStatus: previous.paymentStatus } : inv
+          ),
+        };
+      });
+    };
+
+    setMoveFeedback(null);
+
+    // Optimistically update the React Query cache for this page's dataset
     queryClient.setQueryData(queryKey, (old: any) => {
       if (!old?.data) return old;
       const next = {
@@ -202,37 +243,108 @@ function KanbanView() {
 
     // Actually update the database
     try {
-      const result = await updateInvoiceStatus(invoiceId, newStatus);
-      if (!result.success) {
-        // Revert optimistic update on failure
+      const result = await updateInvoiceStatus(invoiceId, newStatus, details);
+      if (result.success && result.code === 'APPROVAL_RECORDED') {
+        // The approval counted but the policy needs more approvers; show where the card really is
+        const actualStatus = result.invoice?.status;
         queryClient.setQueryData(queryKey, (old: any) => {
-          if (!old?.data) return old;
-          const reverted = {
+          if (!old?.data || !actualStatus) return old;
+          return {
             ...old,
-            data: old.data.map((inv: any) =>
-              (inv.id === invoiceId || inv.invoiceNumber === invoiceId) ? { ...inv, status: inv.status, paymentStatus: inv.paymentStatus } : inv
-            ),
+            data: old.data.map((inv: any) => isTarget(inv) ? { ...inv, status: actualStatus, paymentStatus: actualStatus } : inv),
           };
-          return reverted;
         });
+        setMoveFeedback(`${invoiceId}: ${result.message}`);
+      } else if (!result.success) {
+        // Revert optimistic update when the workflow rejects the move
+        revert();
+        setMoveFeedback(`${invoiceId}: ${result.error ?? 'Status update failed'}`);
         console.error('Failed to update invoice status:', result.error);
       }
     } catch (error) {
-      // Revert optimistic update on error
-      queryClient.setQueryData(queryKey, (old: any) => {
-        if (!old?.data) return old;
-        const reverted = {
-          ...old,
-          data: old.data.map((inv: any) =>
-            (inv.id === invoiceId || inv.invoiceNumber === invoiceId) ? { ...inv, status: inv.status, paymentStatus: inv.paymentStatus } : inv
-          ),
-        };
-        return reverted;
-      });
+      revert();
       console.error('Error updating invoice status:', error);
     }
   };
 
+  const handleToggleSelect = React.useCallback((invoiceId: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(invoiceId)) next.delete(invoiceId);
+      else next.add(invoiceId);
+      return next;
+    });
+  }, []);
+
+  const handleBulkStatusUpdate = React.useCallback(async (ids: string[], status: string, details: StatusChangeInput = {}) => {
+    const result = await bulkUpdateInvoiceStatus(ids, status, details);
+    if (result.summary.updated > 0 || (result.summary.approvalsRecorded ?? 0) > 0) {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['kanban-invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['kanban-all-invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['payables-aging'] });
+      queryClient.invalidateQueries({ queryKey: ['payables-forecast'] });
+    }
+    // Keep failed invoices selected so they can be retried
+    const succeeded = new Set(result.results.filter((item) => item.success).map((item) => item.id));
+    setSelectedIds((current) => new Set(Array.from(current).filter((id) => !succeeded.has(id))));
+    return result;
+  }, [queryClient]);
+
+  // Ask the API which columns the dragged invoices may move to, so guard-blocked columns are disabled mid-drag
+  const handleDraggingChange = React.useCallback(async (ids: string[] | null) => {
+    const requestId = ++dragRequestRef.current;
+    if (!ids) {
+      setBlockedStatuses({});
+      return;
+    }
+
+    paymentOnFileRef.current = new Set();
+    const result = await fetchInvoiceTransitions(ids);
+    if (requestId !== dragRequestRef.current || result.error) return;
+
+    const blocked: Partial<Record<BoardStatus, string>> = {};
+    const paymentOnFile = new Set<string>();
+    for (const invoice of result.invoices) {
+      for (const transition of invoice.transitions) {
+        if (transition.blockedBy.length > 0 && !blocked[transition.status]) {
+          blocked[transition.status] = transition.blockedBy.map((guard) => guard.message).join('; ');
+        }
+        if (transition.status === 'paid' && transition.allowed && transition.requires.length === 0) {
+          paymentOnFile.add(invoice.id);
+        }
+      }
+    }
+    paymentOnFileRef.current = paymentOnFile;
+    setBlockedStatuses(blocked);
+  }, []);
+
+  const moveInvoices = async (ids: string[], status: BoardStatus, details: StatusChangeInput = {}) => {
+    if (ids.length === 1) {
+      await handleInvoiceUpdate(ids[0], status, details);
+      return;
+    }
+    setMoveFeedback(null);
+    const result = await handleBulkStatusUpdate(ids, status, details);
+    if (result.error || result.summary.failed > 0) {
+      setMoveFeedback(result.error ?? `${result.summary.failed} of ${ids.length} invoices could not be moved`);
+    }
+  };
+
+  // Moving to paid needs a payment date and reference unless the invoices already have them
+  const handleBoardMove = async (ids: string[], status: BoardStatus) => {
+    if (status === 'paid' && ids.some((id) => !paymentOnFileRef.current.has(id))) {
+      setPendingPaidMove(ids);
+      return;
+    }
+    await moveInvoices(ids, status);
+  };
+
+  const handlePaymentDetailsConfirm = async (details: Required<StatusChangeInput>) => {
+    if (pendingPaidMove) await moveInvoices(pendingPaidMove, 'paid', details);
+  };
+
   const handleInvoiceUpdateError = (error: string) => {
     console.error('Failed to update invoice:', error);
   };
@@ -272,7 +384,7 @@ function KanbanView() {
         onOpenChange={setFilterDrawerOpen}
       />
 
-      <InvoiceFilterChips />
+      <InvoiceFilterChips savedViews={savedViewsData?.views} />
 
       {/* Quick Stats (actual totals from database) */}
       <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
@@ -417,13 +529,41 @@ function KanbanView() {
         </CardContent>
       </Card>
 
+      <BulkStatusBar
+        selectedCount={selectedIds.size}
+        onApply={(status, details) => handleBulkStatusUpdate(Array.from(selectedIds), status, details)}
+        onClear={() => setSelectedIds(new Set())}
+      />
+
+      {moveFeedback && (
+        <div role="status" className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700 shadow-sm">
+          {moveFeedback}
+        </div>
+      )}
+
+      <PaymentDetailsDialog
+        open={pendingPaidMove !== null}
+        onOpenChange={(open) => {
+          if (!open) setPendingPaidMove(null);
+        }}
+        invoiceCount={pendingPaidMove?.length ?? 0}
+        onConfirm={handlePaymentDetailsConfirm}
+      />
+
       {/* Kanban Board (Jira-like behavior) */}
       <div className="bg-white/50 dark:bg-slate-900/40 backdrop-blur-sm rounded-xl p-6 border border-slate-200/40 dark:border-slate-700/40">
         <PerfectJiraKanban
           invoices={invoices as any}
           onInvoiceUpdate={async (id, status) => {
-            await handleInvoiceUpdate(id, status);
+            await handleBoardMove([id], status);
+          }}
+          selectedIds={selectedIds}
+          onToggleSelect={handleToggleSelect}
+          onSelectionMove={async (ids, status) => {
+            await handleBoardMove(ids, status);
           }}
+          onDraggingChange={handleDraggingChange}
+          blockedStatuses={blockedStatuses}
         />
         <div className="text-xs text-slate-600 dark:text-slate-400 mt-3">Showing up to 5 matching cards. Adjust filters to refine.</div>
       </div>
@@ -0,0 +1,43 @@
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ReportSchedules } from '@/components/reports/report-schedules';
+
+export default function ReportsPage() {
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          Scheduled reports
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Email a saved view to your team every day, week or month, as a CSV or Excel attachment with a summary.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Schedules</CardTitle>
+          <CardDescription>
+            Each report shows the view as you see it when it is sent. Failed deliveries are retried twice, then can be retried from their history.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Suspense fallback={<p className="text-sm text-slate-500">Loading schedules…</p>}>
+            <SchedulesFromQuery />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// ?viewId= opens the editor for a new schedule of that view
+function SchedulesFromQuery() {
+  const searchParams = useSearchParams();
+  return <ReportSchedules initialViewId={searchParams.get('viewId')} />;
+}
@@ -0,0 +1,11 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+
+import { VendorProfile } from '@/components/vendors/vendor-profile';
+
+export default function VendorPage() {
+  const { id } = useParams<{ id: string }>();
+
+  return <VendorProfile vendorId={id} />;
+}
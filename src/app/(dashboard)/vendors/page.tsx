@@ -0,0 +1,21 @@
+'use client';
+
+import { VendorDirectory } from '@/components/vendors/vendor-directory';
+
+export default function VendorsPage() {
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          Vendors
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Canonical suppliers and the names they appear under on invoices. Select two or more vendors to merge them.
+        </p>
+      </div>
+
+      <VendorDirectory />
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { approvalPolicyParamsSchema, approvalPolicyUpdateSchema } from '@/lib/schemas/api'
+import { writeInvoiceAudit } from '@/lib/server/invoice-audit'
+import { deleteApprovalPolicy, updateApprovalPolicy } from '@/lib/server/invoice-approvals'
+
+// Policy changes are limited to admins
+async function authoriseAdmin(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return {
+      response: NextResponse.json(
+        { error: authResult.error, code: 'UNAUTHORIZED' },
+        { status: 401 }
+      ),
+    }
+  }
+  if (authResult.user!.role.toLowerCase() !== 'admin') {
+    return {
+      response: NextResponse.json(
+        { error: 'Admin access required', code: 'FORBIDDEN' },
+        { status: 403 }
+      ),
+    }
+  }
+  return { user: authResult.user! }
+}
+
+// PATCH /api/approval-policies/[id] - Update an approval policy
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authoriseAdmin(request)
+  if (!auth.user) return auth.response
+
+  try {
+    const paramsResult = approvalPolicyParamsSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid approval policy ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = approvalPolicyUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid approval policy',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await updateApprovalPolicy(paramsResult.data.id, parsed.data)
+    if (result.outcome === 'not_found') {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Approval policy not found' },
+        { status: 404 }
+      )
+    }
+
+    const auditLog = await writeInvoiceAudit(request, auth.user, {
+      entityType: 'approval_policy',
+      entityId: result.policy.id,
+      action: 'APPROVAL_POLICY_UPDATED',
+      changes: { ...parsed.data },
+    })
+
+    return NextResponse.json({ success: true, policy: result.policy, auditLog })
+  } catch (error) {
+    console.error('Update approval policy error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/approval-policies/[id] - Remove an approval policy
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authoriseAdmin(request)
+  if (!auth.user) return auth.response
+
+  try {
+    const paramsResult = approvalPolicyParamsSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid approval policy ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await deleteApprovalPolicy(paramsResult.data.id)
+    if (!deleted) {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Approval policy not found' },
+        { status: 404 }
+      )
+    }
+
+    const auditLog = await writeInvoiceAudit(request, auth.user, {
+      entityType: 'approval_policy',
+      entityId: paramsResult.data.id,
+      action: 'APPROVAL_POLICY_DELETED',
+      changes: {},
+    })
+
+    return NextResponse.json({ success: true, auditLog })
+  } catch (error) {
+    console.error('Delete approval policy error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
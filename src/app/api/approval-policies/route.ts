@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { approvalPolicySchema } from '@/lib/schemas/api'
+import { writeInvoiceAudit } from '@/lib/server/invoice-audit'
+import { createApprovalPolicy, listApprovalPolicies } from '@/lib/server/invoice-approvals'
+import { DEFAULT_APPROVAL_POLICIES } from '@/lib/approval-policy'
+
+// GET /api/approval-policies - Configured approval policies (or the defaults when none are stored)
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const policies = await listApprovalPolicies()
+    return NextResponse.json({
+      policies: policies.length > 0 ? policies : DEFAULT_APPROVAL_POLICIES,
+      usingDefaults: policies.length === 0,
+    })
+  } catch (error) {
+    console.error('Approval policies list error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/approval-policies - Create an approval policy (admins only)
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+  if (user.role.toLowerCase() !== 'admin') {
+    return NextResponse.json(
+      { error: 'Admin access required', code: 'FORBIDDEN' },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = approvalPolicySchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid approval policy',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const policy = await createApprovalPolicy(parsed.data)
+
+    const auditLog = await writeInvoiceAudit(request, user, {
+      entityType: 'approval_policy',
+      entityId: policy.id,
+      action: 'APPROVAL_POLICY_CREATED',
+      changes: { ...parsed.data },
+    })
+
+    return NextResponse.json({ success: true, policy, auditLog }, { status: 201 })
+  } catch (error) {
+    console.error('Create approval policy error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
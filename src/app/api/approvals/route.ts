@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { listAwaitingApproval } from '@/lib/server/invoice-approvals'
+
+// GET /api/approvals - Invoices awaiting the current user's approval
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+
+  try {
+    const items = await listAwaitingApproval({ id: user.id, email: user.email, role: user.role })
+
+    return NextResponse.json({
+      items: items.map(({ invoice, progress, approvals }) => ({
+        invoice: {
+          id: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          vendorName: invoice.vendorName,
+          vendorId: invoice.vendorId,
+          category: invoice.category,
+          amount: invoice.amount,
+          status: invoice.status,
+          issueDate: invoice.issueDate,
+          dueDate: invoice.dueDate,
+        },
+        policy: { id: progress.policy.id, name: progress.policy.name },
+        progress: { required: progress.required, received: progress.received, remaining: progress.remaining },
+        approvals,
+      })),
+      count: items.length,
+    })
+  } catch (error) {
+    console.error('Awaiting approvals error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
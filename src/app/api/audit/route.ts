@@ -1,11 +1,91 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { verifyAPIAuth } from '@/lib/server/auth';
+import { canReadAuditLog, invoiceAuditIds, listAuditEntries } from '@/lib/server/invoice-audit';
+import { findInvoice } from '@/lib/server/invoice-repository';
+import { auditLogQuerySchema } from '@/lib/schemas/api';
+import type { AuditLogPage } from '@/lib/types';
 
-// Stub route to prevent build errors from phantom references
-async function getAuditHandler(request: NextRequest) {
-  return NextResponse.json({
-    message: "Audit route disabled - using Supabase directly",
-    timestamp: new Date().toISOString(),
-  });
+// Date-only bounds cover the whole day
+function endOfDay(value: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value;
 }
 
-export const GET = getAuditHandler;
\ No newline at end of file
+// GET /api/audit - Audit log, newest first (admins and auditors only)
+// Filters: entityType, entityId, userId, action (repeatable), dateFrom, dateTo; paged with page and limit
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request);
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  if (!canReadAuditLog(authResult.user!)) {
+    return NextResponse.json(
+      { error: 'Admin or auditor access required', code: 'FORBIDDEN' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const parsed = auditLogQuerySchema.safeParse({
+      entityType: searchParams.get('entityType') ?? undefined,
+      entityId: searchParams.get('entityId') ?? undefined,
+      userId: searchParams.get('userId') ?? undefined,
+      action: searchParams.getAll('action'),
+      dateFrom: searchParams.get('dateFrom') ?? undefined,
+      dateTo: searchParams.get('dateTo') ?? undefined,
+      page: searchParams.get('page') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid audit log query',
+          errors: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const query = parsed.data;
+
+    // An invoice's history is found by id or, for older entries, by invoice number
+    let entityIds = query.entityId ? [query.entityId] : undefined;
+    if (query.entityId && (query.entityType ?? 'invoice') === 'invoice') {
+      const found = await findInvoice(query.entityId);
+      if (found) entityIds = invoiceAuditIds(found.invoice);
+    }
+
+    const { entries, total } = await listAuditEntries({
+      entityType: query.entityType,
+      entityIds,
+      userId: query.userId,
+      actions: query.action,
+      dateFrom: query.dateFrom,
+      dateTo: query.dateTo ? endOfDay(query.dateTo) : undefined,
+      page: query.page,
+      limit: query.limit,
+    });
+
+    const response: AuditLogPage = {
+      entries,
+      pagination: {
+        total,
+        pageCount: Math.ceil(total / query.limit),
+        pageSize: query.limit,
+        pageIndex: query.page,
+      },
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Audit log error:', error);
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -32,7 +32,10 @@ export async function POST(request: NextRequest) {
           password,
           email_confirm: true,
           user_metadata: {
-            name: name || email.split('@')[0],
+            name: name || email.split('@')[0]
+          },
+          // Roles live in app_metadata, which users cannot edit themselves
+          app_metadata: {
             role: 'user'
           }
         })
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/server/supabase-admin';
 import { getSupabaseServerComponentClient } from '@/lib/supabase-server';
 import { executeStatusUpdate, executeNoteAddition } from '@/lib/ai/function-handlers';
+import { findInvoice, type FoundInvoice } from '@/lib/server/invoice-repository';
+import { writeInvoiceAudit, type InvoiceAuditEntry } from '@/lib/server/invoice-audit';
+import { roleFromUser } from '@/lib/server/auth';
 
 /**
  * POST /api/chat/actions
@@ -18,15 +21,17 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session) {
+    // Fetched from Supabase Auth, not the cookie, since the role authorises status changes
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
       );
     }
     
-    const userId = session.user.id;
+    const userId = user.id;
+    const userRole = roleFromUser(user);
     const body = await request.json();
     const { conversationId, messageId, actionType, params } = body;
     
@@ -55,28 +60,22 @@ export async function POST(request: NextRequest) {
 
     // Verify invoice ownership - CRITICAL SECURITY CHECK
     // Use user-scoped client to ensure RLS is applied
-    const { data: invoice, error: invoiceError } = await supabase
-      .from('Invoice')
-      .select('id, invoice_number, status')
-      .eq('id', params.invoiceId)
-      .single();
-
-    if (invoiceError) {
+    let invoice: FoundInvoice | null;
+    try {
+      invoice = await findInvoice(params.invoiceId, supabase);
+    } catch (invoiceError: any) {
       // Log unauthorized access attempt
       console.warn('Invoice access denied:', {
         userId,
         invoiceId: params.invoiceId,
         actionType,
-        error: invoiceError.code,
+        error: invoiceError?.code,
       });
 
-      // Distinguish between not found and access denied
-      const status = invoiceError.code === 'PGRST116' ? 404 : 403;
-      const message = invoiceError.code === 'PGRST116'
-        ? 'Invoice not found'
-        : 'Access denied - you do not have permission to modify this invoice';
-
-      return NextResponse.json({ error: message }, { status });
+      return NextResponse.json(
+        { error: 'Access denied - you do not have permission to modify this invoice' },
+        { status: 403 }
+      );
     }
 
     if (!invoice) {
@@ -91,27 +90,63 @@ export async function POST(request: NextRequest) {
     let invoiceIds: string[] = [];
     let oldValues: any = null;
     let newValues: any = null;
+    let auditEntry: InvoiceAuditEntry | null = null;
+    const chatContext = { conversation_id: conversationId, message_id: messageId };
     
     if (actionType === 'status_update') {
-      result = await executeStatusUpdate({
+      const statusResult = await executeStatusUpdate({
         invoiceId: params.invoiceId,
         newStatus: params.newStatus,
         userId,
+        userEmail: user.email,
+        userRole,
         reason: params.reason,
+        paymentDate: params.paymentDate,
+        paymentReference: params.paymentReference,
       }, supabase);
+      result = statusResult;
 
       invoiceIds = [params.invoiceId];
       oldValues = { status: params.oldStatus };
       newValues = { status: params.newStatus };
+
+      if (statusResult.change) {
+        auditEntry = {
+          entityId: invoice.invoice.id,
+          action: statusResult.change.approvalRecorded ? 'APPROVAL_RECORDED' : 'STATUS_CHANGE',
+          source: 'chat',
+          changes: {
+            old_status: statusResult.change.previousStatus,
+            new_status: statusResult.change.status,
+            ...(statusResult.change.status === 'paid' && {
+              payment_date: params.paymentDate,
+              payment_reference: params.paymentReference,
+            }),
+            ...chatContext,
+          },
+        };
+      }
     } else if (actionType === 'note_added') {
       result = await executeNoteAddition({
         invoiceId: params.invoiceId,
         note: params.note,
         userId,
+        userEmail: user.email,
+        userRole,
       }, supabase);
       
       invoiceIds = [params.invoiceId];
       newValues = { note: params.note };
+
+      if (result.success) {
+        auditEntry = {
+          entityId: invoice.invoice.id,
+          action: 'NOTE_ADDED',
+          source: 'chat',
+          fields: [{ field: 'note', before: null, after: params.note }],
+          changes: chatContext,
+        };
+      }
     } else {
       return NextResponse.json(
         { error: 'Invalid action type' },
@@ -140,29 +175,9 @@ export async function POST(request: NextRequest) {
       // Don't fail the request if logging fails
     }
     
-    // If action requires audit log entry (for invoices table)
-    if (result.success && actionType === 'status_update') {
-      // Create audit log entry
-      const { error: auditError } = await supabaseAdmin
-        .from('audit_logs')
-        .insert({
-          invoice_id: params.invoiceId,
-          old_status: params.oldStatus,
-          new_status: params.newStatus,
-          user_id: userId,
-          user_email: session.user.email,
-          action_type: 'status_change',
-          metadata: {
-            source: 'chat_assistant',
-            conversation_id: conversationId,
-            message_id: messageId,
-          },
-        });
-      
-      if (auditError) {
-        console.error('Audit log error:', auditError);
-        // Don't fail the request if audit logging fails
-      }
+    // Changes made through the assistant land in the audit log like any other (failures are logged, not fatal)
+    if (auditEntry) {
+      await writeInvoiceAudit(request, { id: userId, email: user.email ?? '' }, auditEntry);
     }
     
     return NextResponse.json({
@@ -3,6 +3,7 @@ import { supabaseAdmin } from '@/lib/server/supabase-admin';
 import { getSupabaseServerComponentClient } from '@/lib/supabase-server';
 import { sendMessage, isClaudeConfigured } from '@/lib/ai/claude-client';
 import { executeFunctionCall } from '@/lib/ai/function-handlers';
+import { roleFromUser } from '@/lib/server/auth';
 import { parseQuery, shouldUseStructuredParsing, describeQuery } from '@/lib/ai/structured-query-parser';
 
 // Rate limiting: Track message counts per user
@@ -42,16 +43,18 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session) {
+    // Fetched from Supabase Auth, not the cookie, since the role authorises status changes
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
       );
     }
     
-    const userId = session.user.id;
-    const userEmail = session.user.email;
+    const userId = user.id;
+    const userRole = roleFromUser(user);
+    const userEmail = user.email;
     
     // Check rate limit
     const rateLimit = checkRateLimit(userId);
@@ -178,7 +181,10 @@ export async function POST(request: NextRequest) {
           
           for (const call of functionCalls) {
             try {
-              const result = await executeFunctionCall(call.name, call.input, supabase);
+              const result = await executeFunctionCall(call.name, call.input, supabase, {
+                id: userId,
+                role: userRole,
+              });
               functionResults.push({ name: call.name, result });
               
               // Track invoice context
@@ -293,6 +299,15 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Markdown link from an invoice number to the invoice's page
+ */
+function invoiceLink(invoice: { id?: string; invoiceNumber: string }): string {
+  return invoice.id
+    ? `[**${invoice.invoiceNumber}**](/invoices/${encodeURIComponent(invoice.id)})`
+    : `**${invoice.invoiceNumber}**`;
+}
+
 /**
  * Format search results for display
  */
@@ -308,7 +323,7 @@ function formatSearchResults(results: any): string {
   response += 'Here are the details:\n\n';
   
   for (const inv of invoices.slice(0, 10)) {
-    response += `- **${inv.invoiceNumber}** from ${inv.vendor}\n`;
+    response += `- ${invoiceLink(inv)} from ${inv.vendor}\n`;
     response += `  Amount: $${inv.amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}, `;
     response += `Status: ${inv.status}, `;
     response += `Date: ${new Date(inv.issueDate).toLocaleDateString()}\n`;
@@ -357,6 +372,8 @@ function formatFunctionResults(results: any[]): string {
       output += formatTopVendors(result);
     } else if (name === 'getInvoiceDetails') {
       output += formatInvoiceDetails(result);
+    } else if (name === 'getRecurringInvoiceAlerts') {
+      output += formatRecurringAlerts(result);
     }
   }
   
@@ -381,6 +398,41 @@ function formatTopVendors(vendors: any[]): string {
   return response;
 }
 
+/**
+ * Format recurring invoice alerts for display
+ */
+function formatRecurringAlerts(insights: any): string {
+  if (!insights || insights.vendors.length === 0) {
+    return 'No vendors bill on a regular cadence yet.';
+  }
+
+  const money = (amount: number) =>
+    `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  let response = `### Recurring Bills:\n\n`;
+
+  if (insights.missing.length === 0) {
+    response += `All ${insights.vendors.length} recurring vendors have billed on time.\n`;
+  } else {
+    response += `**Expected but not received:**\n`;
+    for (const alert of insights.missing) {
+      response += `- **${alert.vendorName}** bills ${alert.cadence} (~${money(alert.typicalAmount)}); `;
+      response += `expected ${new Date(alert.expectedDate).toLocaleDateString()}, ${alert.daysLate} days late\n`;
+    }
+  }
+
+  if (insights.anomalies.length > 0) {
+    response += `\n**Unusual amounts:**\n`;
+    for (const anomaly of insights.anomalies) {
+      const percent = Math.round(Math.abs(anomaly.deviation) * 100);
+      response += `- **${anomaly.vendorName}** ${invoiceLink(anomaly)}: ${money(anomaly.amount)}, `;
+      response += `${percent}% ${anomaly.deviation > 0 ? 'above' : 'below'} the usual ${money(anomaly.typicalAmount)}\n`;
+    }
+  }
+
+  return response;
+}
+
 /**
  * Format invoice details for display
  */
@@ -403,5 +455,9 @@ function formatInvoiceDetails(invoice: any): string {
     response += `- **Description**: ${invoice.description}\n`;
   }
   
+  if (invoice.id) {
+    response += `\n[Open invoice](/invoices/${encodeURIComponent(invoice.id)})\n`;
+  }
+  
   return response;
 }
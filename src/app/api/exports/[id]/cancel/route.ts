@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { isSupabaseConfigured } from '@/lib/server/env'
+import { cancelExportJob } from '@/lib/server/export-jobs'
+
+type ExportRouteParams = { params: Promise<{ id: string }> }
+
+// POST /api/exports/[id]/cancel - Stop a queued or running export
+export async function POST(request: NextRequest, { params }: ExportRouteParams) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
+  }
+
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error, code: 'UNAUTHORIZED' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const result = await cancelExportJob(id, authResult.user!)
+    if (result.outcome === 'not_found') {
+      return NextResponse.json({ code: 'NOT_FOUND', message: 'Export not found' }, { status: 404 })
+    }
+    if (result.outcome === 'conflict') {
+      return NextResponse.json({ code: 'CONFLICT', message: result.message }, { status: 409 })
+    }
+
+    return NextResponse.json(result.job)
+  } catch (error) {
+    console.error('Unexpected error cancelling export', error)
+    return NextResponse.json({ code: 'SERVER_ERROR', message: 'Failed to cancel export' }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { isSupabaseConfigured } from '@/lib/server/env'
+import { openExportFile } from '@/lib/server/export-jobs'
+
+type ExportRouteParams = { params: Promise<{ id: string }> }
+
+// GET /api/exports/[id]/download - The finished export file
+export async function GET(request: NextRequest, { params }: ExportRouteParams) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
+  }
+
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error, code: 'UNAUTHORIZED' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const result = await openExportFile(id, authResult.user!)
+    if (result.outcome === 'not_found') {
+      return NextResponse.json({ code: 'NOT_FOUND', message: 'Export not found' }, { status: 404 })
+    }
+    if (result.outcome === 'expired') {
+      return NextResponse.json({ code: 'GONE', message: 'This export has expired. Export the invoices again.' }, { status: 410 })
+    }
+    if (result.outcome === 'not_ready') {
+      return NextResponse.json({ code: 'CONFLICT', message: `The export is ${result.status}` }, { status: 409 })
+    }
+
+    return new NextResponse(result.stream, {
+      status: 200,
+      headers: {
+        'Content-Type': result.contentType,
+        'Content-Length': String(result.size),
+        'Content-Disposition': `attachment; filename="${result.filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Unexpected error downloading export', error)
+    return NextResponse.json({ code: 'SERVER_ERROR', message: 'Failed to download export' }, { status: 500 })
+  }
+}
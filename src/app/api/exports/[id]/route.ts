@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { isSupabaseConfigured } from '@/lib/server/env'
+import { getExportJob } from '@/lib/server/export-jobs'
+
+type ExportRouteParams = { params: Promise<{ id: string }> }
+
+// GET /api/exports/[id] - An export with its progress
+export async function GET(request: NextRequest, { params }: ExportRouteParams) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
+  }
+
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error, code: 'UNAUTHORIZED' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const job = await getExportJob(id, authResult.user!)
+    if (!job) {
+      return NextResponse.json({ code: 'NOT_FOUND', message: 'Export not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(job)
+  } catch (error) {
+    console.error('Unexpected error loading export', error)
+    return NextResponse.json({ code: 'SERVER_ERROR', message: 'Failed to load export' }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+import { after, NextRequest, NextResponse } from 'next/server'
+
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { isSupabaseConfigured } from '@/lib/server/env'
+import { invoiceExportSchema } from '@/lib/schemas/api'
+import { createExportJob, listExportJobs, runExportJob } from '@/lib/server/export-jobs'
+
+function unauthorized(error: string) {
+  return NextResponse.json(
+    { error, code: 'UNAUTHORIZED' },
+    { status: 401 }
+  )
+}
+
+// GET /api/exports - The caller's exports, newest first
+export async function GET(request: NextRequest) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ exports: [] })
+  }
+
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) return unauthorized(authResult.error)
+
+  try {
+    return NextResponse.json({ exports: await listExportJobs(authResult.user!) })
+  } catch (error) {
+    console.error('Unexpected error loading exports', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Failed to load exports' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/exports - Start a background export of the filtered invoices
+export async function POST(request: NextRequest) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
+  }
+
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) return unauthorized(authResult.error)
+
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = invoiceExportSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid export request',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await createExportJob(parsed.data, authResult.user!)
+    if (result.outcome === 'empty') {
+      return NextResponse.json({
+        code: 'NO_DATA',
+        message: 'No invoices found matching the specified filters'
+      }, { status: 400 })
+    }
+
+    // The export keeps running after the response; the browser polls the job for progress
+    after(async () => {
+      try {
+        await runExportJob(result.job.id)
+      } catch (error) {
+        console.error('Unexpected error running invoice export', error)
+      }
+    })
+
+    return NextResponse.json(result.job, { status: 202 })
+  } catch (error) {
+    console.error('Unexpected error starting export', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Failed to start export' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAPIAuth } from '@/lib/server/auth';
+import { learnVendorCadences } from '@/lib/server/billing-cadences';
+import { normaliseInvoiceFilters } from '@/lib/server/invoice-query';
+import { filterInvoiceRecords, scanInvoicesOrLocal } from '@/lib/server/invoice-repository';
+import { canonicalVendor, parsePayablesFilters } from '@/lib/server/payables-filters';
+import { buildCashflowForecast, DEFAULT_FORECAST_SCENARIO, type ForecastScenario } from '@/lib/cashflow-forecast';
+import { generateForecastCsv, type ForecastCsvGrouping } from '@/lib/csv-export';
+
+const CSV_GROUPINGS: ForecastCsvGrouping[] = ['week', 'invoice'];
+
+const SCENARIO_PARAMS = Object.keys(DEFAULT_FORECAST_SCENARIO) as Array<keyof ForecastScenario>;
+
+function parseScenario(searchParams: URLSearchParams): ForecastScenario {
+  const scenario = { ...DEFAULT_FORECAST_SCENARIO };
+  for (const key of SCENARIO_PARAMS) {
+    const value = searchParams.get(key);
+    if (value === 'true' || value === 'false') scenario[key] = value === 'true';
+  }
+  return scenario;
+}
+
+// GET /api/forecast - Payables due per week for the next 12 weeks, from due dates, payment terms and recurring vendors
+// Accepts the dashboard filters plus scenario toggles (payOverdueNow, deferInReview, includeExpected);
+// ?format=csv&groupBy=week|invoice downloads the forecast instead
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request);
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const url = new URL(request.url);
+    const groupByParam = url.searchParams.get('groupBy') ?? 'week';
+    const groupBy = CSV_GROUPINGS.find((grouping) => grouping === groupByParam);
+    if (!groupBy) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: `groupBy must be one of ${CSV_GROUPINGS.join(', ')}`,
+          errors: [{ path: ['groupBy'], message: 'Invalid grouping' }],
+        },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const scenario = parseScenario(url.searchParams);
+    const { filters, excludesOutstanding, vendorIndex } = await parsePayablesFilters(url.searchParams);
+
+    // Cadences are learned from the vendor's whole history, not just the filtered period or statuses
+    const history = await scanInvoicesOrLocal(
+      normaliseInvoiceFilters({ categories: filters.categories, vendors: filters.vendors }),
+      now
+    );
+    const outstanding = excludesOutstanding
+      ? []
+      : filterInvoiceRecords(history, filters).filter((invoice) => !invoice.duplicateOfId && invoice.status !== 'paid');
+
+    const forecast = buildCashflowForecast(
+      outstanding.map((invoice) => ({
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        ...canonicalVendor(invoice, vendorIndex),
+        category: invoice.category,
+        status: invoice.status,
+        amountDue: invoice.amountDue,
+        issueDate: invoice.issueDate,
+        dueDate: invoice.dueDate,
+        paymentTerms: invoice.paymentTerms,
+      })),
+      learnVendorCadences(history, vendorIndex),
+      { now, scenario }
+    );
+
+    if (url.searchParams.get('format') === 'csv') {
+      const filename = `payables-forecast-${groupBy}-${now.toISOString().split('T')[0]}.csv`;
+      return new NextResponse(generateForecastCsv(forecast, groupBy), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'no-cache',
+        },
+      });
+    }
+
+    return NextResponse.json({
+      ...forecast,
+      metadata: {
+        generatedAt: now.toISOString(),
+        dateRange: { from: filters.dateFrom ?? null, to: filters.dateTo ?? null },
+      },
+    });
+  } catch (error) {
+    console.error('Forecast error:', error);
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,228 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { invoiceApprovalSchema, invoiceIdSchema } from '@/lib/schemas/api'
+import { findInvoice } from '@/lib/server/invoice-repository'
+import { getApprovalState } from '@/lib/server/invoice-approvals'
+import { changeInvoiceStatus, rejectInvoice } from '@/lib/server/invoice-status'
+import { writeInvoiceAudit } from '@/lib/server/invoice-audit'
+import { canApprove } from '@/lib/approval-policy'
+
+// GET /api/invoices/[id]/approvals - Approval policy, progress and history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+
+  try {
+    const paramsResult = invoiceIdSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid invoice ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const found = await findInvoice(paramsResult.data.id)
+    if (!found) {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    const invoice = found.invoice
+    const state = await getApprovalState(invoice)
+    const eligibility = canApprove(
+      { id: user.id, role: user.role },
+      { amount: invoice.amount, uploadedByUserId: invoice.uploadedByUserId },
+      state.progress
+    )
+    const awaiting = invoice.status !== 'approved' && invoice.status !== 'paid' && state.progress.remaining > 0
+
+    return NextResponse.json({
+      invoice: {
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        amount: invoice.amount,
+        status: invoice.status,
+        uploadedByUserId: invoice.uploadedByUserId,
+      },
+      policy: state.policy,
+      progress: {
+        required: state.progress.required,
+        received: state.progress.received,
+        remaining: state.progress.remaining,
+      },
+      approvals: state.history,
+      canApprove: awaiting && eligibility.allowed,
+      reason: awaiting ? eligibility.message : undefined,
+    })
+  } catch (error) {
+    console.error('Approval history error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/invoices/[id]/approvals - Approve or reject an invoice
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+  const actor = { id: user.id, email: user.email, role: user.role }
+
+  try {
+    const paramsResult = invoiceIdSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid invoice ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = invoiceApprovalSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid approval',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const { id } = paramsResult.data
+
+    if (parsed.data.decision === 'reject') {
+      const result = await rejectInvoice(id, actor, parsed.data.comment ?? null)
+      if (result.outcome === 'not_found') {
+        return NextResponse.json(
+          { code: 'NOT_FOUND', message: 'Invoice not found' },
+          { status: 404 }
+        )
+      }
+      if (result.outcome === 'forbidden') {
+        return NextResponse.json(
+          { code: 'FORBIDDEN', message: result.message },
+          { status: 403 }
+        )
+      }
+      if (result.outcome === 'invalid_transition') {
+        return NextResponse.json(
+          { code: 'INVALID_TRANSITION', message: result.message },
+          { status: 400 }
+        )
+      }
+
+      const auditLog = await writeInvoiceAudit(request, user, {
+        entityId: result.invoice.id,
+        action: 'INVOICE_REJECTED',
+        changes: {
+          old_status: result.previousStatus,
+          new_status: result.invoice.status,
+          comment: result.approval.comment,
+        },
+      })
+
+      return NextResponse.json({
+        success: true,
+        code: 'REJECTED',
+        invoice: { id: result.invoice.id, invoiceNumber: result.invoice.invoiceNumber, status: result.invoice.status },
+        approval: result.approval,
+        auditLog,
+      })
+    }
+
+    const change = await changeInvoiceStatus(id, 'approved', actor)
+    if (change.outcome === 'not_found') {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+    if (change.outcome === 'invalid_transition') {
+      return NextResponse.json(
+        {
+          code: 'INVALID_TRANSITION',
+          message: change.message,
+          allowedTransitions: change.allowedTransitions,
+          guards: change.guards
+        },
+        { status: 400 }
+      )
+    }
+    if (change.outcome === 'conflict') {
+      return NextResponse.json(
+        { code: 'CONFLICT', message: change.message },
+        { status: 409 }
+      )
+    }
+    if (change.outcome === 'unchanged') {
+      return NextResponse.json(
+        { code: 'INVALID_TRANSITION', message: 'Invoice is already approved' },
+        { status: 400 }
+      )
+    }
+
+    const auditLog = await writeInvoiceAudit(request, user, {
+      entityId: change.invoice.id,
+      action: change.outcome === 'approval_recorded' ? 'APPROVAL_RECORDED' : 'STATUS_CHANGE',
+      changes: {
+        old_status: change.previousStatus,
+        new_status: change.invoice.status,
+        ...(change.outcome === 'approval_recorded' && {
+          policy: change.progress.policy.name,
+          approvals_received: change.progress.received,
+          approvals_required: change.progress.required,
+        }),
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      code: change.outcome === 'approval_recorded' ? 'APPROVAL_RECORDED' : 'APPROVED',
+      message: change.outcome === 'approval_recorded'
+        ? `Approval recorded; ${change.progress.remaining} more approval${change.progress.remaining === 1 ? '' : 's'} needed`
+        : 'Invoice approved',
+      invoice: { id: change.invoice.id, invoiceNumber: change.invoice.invoiceNumber, status: change.invoice.status },
+      approval: change.approval,
+      auditLog,
+    })
+  } catch (error) {
+    console.error('Invoice approval error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { invoiceCommentParamsSchema, invoiceCommentUpdateSchema } from '@/lib/schemas/api'
+import { findInvoice } from '@/lib/server/invoice-repository'
+import {
+  canModifyComment,
+  deleteInvoiceComment,
+  getInvoiceComment,
+  listCommentEdits,
+  updateInvoiceComment,
+  type CommentChangeResult,
+} from '@/lib/server/invoice-comments'
+
+type CommentRouteParams = { params: Promise<{ id: string; commentId: string }> }
+
+function unauthorized(error: string) {
+  return NextResponse.json(
+    { error, code: 'UNAUTHORIZED' },
+    { status: 401 }
+  )
+}
+
+function changeFailure(result: Exclude<CommentChangeResult, { outcome: 'updated' }>) {
+  if (result.outcome === 'forbidden') {
+    return NextResponse.json(
+      { code: 'FORBIDDEN', message: result.message },
+      { status: 403 }
+    )
+  }
+  return NextResponse.json(
+    { code: 'NOT_FOUND', message: 'Comment not found' },
+    { status: 404 }
+  )
+}
+
+async function resolveParams(params: CommentRouteParams['params']) {
+  const parsed = invoiceCommentParamsSchema.safeParse(await params)
+  if (!parsed.success) {
+    return {
+      error: NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid invoice or comment ID',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+  }
+
+  const found = await findInvoice(parsed.data.id)
+  if (!found) {
+    return {
+      error: NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+  }
+
+  return { invoiceId: found.invoice.id, commentId: parsed.data.commentId }
+}
+
+// GET /api/invoices/[id]/comments/[commentId] - A comment with its edit history
+export async function GET(request: NextRequest, { params }: CommentRouteParams) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) return unauthorized(authResult.error)
+
+  const user = authResult.user!
+
+  try {
+    const resolved = await resolveParams(params)
+    if ('error' in resolved) return resolved.error
+
+    const comment = await getInvoiceComment(resolved.commentId)
+    if (!comment || comment.invoiceId !== resolved.invoiceId) {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Comment not found' },
+        { status: 404 }
+      )
+    }
+
+    const edits = await listCommentEdits(comment)
+
+    return NextResponse.json({
+      comment: { ...comment, canEdit: !comment.deletedAt && canModifyComment(comment, user) },
+      edits,
+    })
+  } catch (error) {
+    console.error('Invoice comment error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/invoices/[id]/comments/[commentId] - Edit a comment
+export async function PATCH(request: NextRequest, { params }: CommentRouteParams) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) return unauthorized(authResult.error)
+
+  const user = authResult.user!
+
+  try {
+    const resolved = await resolveParams(params)
+    if ('error' in resolved) return resolved.error
+
+    const body = await request.json().catch(() => null)
+    const parsed = invoiceCommentUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid comment',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await updateInvoiceComment(resolved.invoiceId, resolved.commentId, parsed.data.body, user)
+    if (result.outcome !== 'updated') return changeFailure(result)
+
+    return NextResponse.json({
+      success: true,
+      comment: { ...result.comment, canEdit: true },
+    })
+  } catch (error) {
+    console.error('Edit invoice comment error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/invoices/[id]/comments/[commentId] - Delete a comment (kept in history)
+export async function DELETE(request: NextRequest, { params }: CommentRouteParams) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) return unauthorized(authResult.error)
+
+  const user = authResult.user!
+
+  try {
+    const resolved = await resolveParams(params)
+    if ('error' in resolved) return resolved.error
+
+    const result = await deleteInvoiceComment(resolved.invoiceId, resolved.commentId, user)
+    if (result.outcome !== 'updated') return changeFailure(result)
+
+    return NextResponse.json({ success: true, comment: result.comment })
+  } catch (error) {
+    console.error('Delete invoice comment error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { invoiceCommentSchema, invoiceIdSchema } from '@/lib/schemas/api'
+import { findInvoice } from '@/lib/server/invoice-repository'
+import {
+  addInvoiceComment,
+  buildCommentThreads,
+  canModifyComment,
+  listInvoiceComments,
+} from '@/lib/server/invoice-comments'
+
+// GET /api/invoices/[id]/comments - Comment threads for an invoice
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+
+  try {
+    const paramsResult = invoiceIdSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid invoice ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const found = await findInvoice(paramsResult.data.id)
+    if (!found) {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    const comments = await listInvoiceComments(found.invoice.id)
+    const threads = buildCommentThreads(comments, user)
+
+    return NextResponse.json({
+      invoice: {
+        id: found.invoice.id,
+        invoiceNumber: found.invoice.invoiceNumber,
+      },
+      threads,
+      count: comments.filter((comment) => !comment.deletedAt).length,
+    })
+  } catch (error) {
+    console.error('Invoice comments error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/invoices/[id]/comments - Add a comment or reply
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+
+  try {
+    const paramsResult = invoiceIdSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid invoice ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = invoiceCommentSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid comment',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const found = await findInvoice(paramsResult.data.id)
+    if (!found) {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await addInvoiceComment(
+      { invoiceId: found.invoice.id, body: parsed.data.body, parentId: parsed.data.parentId },
+      user
+    )
+
+    if (result.outcome === 'parent_not_found') {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Comment to reply to was not found on this invoice' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        comment: { ...result.comment, canEdit: canModifyComment(result.comment, user) },
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Add invoice comment error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
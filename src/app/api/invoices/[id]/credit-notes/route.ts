@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { creditNoteSchema, invoiceIdSchema } from '@/lib/schemas/api'
+import { findInvoice } from '@/lib/server/invoice-repository'
+import { createCreditNote, listCreditNotes } from '@/lib/server/invoice-credit-notes'
+import { roundCents } from '@/lib/server/invoice-payments'
+import { writeInvoiceAudit } from '@/lib/server/invoice-audit'
+
+// GET /api/invoices/[id]/credit-notes - Credit notes and adjustments for an invoice
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const paramsResult = invoiceIdSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid invoice ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const found = await findInvoice(paramsResult.data.id)
+    if (!found) {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    const creditNotes = await listCreditNotes(found.invoice.id)
+    const adjustmentTotal = roundCents(creditNotes.reduce((sum, note) => sum + note.amount, 0))
+
+    return NextResponse.json({
+      invoice: {
+        id: found.invoice.id,
+        invoiceNumber: found.invoice.invoiceNumber,
+        amount: found.invoice.amount,
+        amountDue: found.invoice.amountDue,
+        status: found.invoice.status,
+      },
+      creditNotes,
+      totals: {
+        adjustments: adjustmentTotal,
+        netAmount: roundCents(found.invoice.amount + adjustmentTotal),
+        count: creditNotes.length,
+      },
+    })
+  } catch (error) {
+    console.error('Credit note list error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/invoices/[id]/credit-notes - Raise a credit note or adjustment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+
+  try {
+    const paramsResult = invoiceIdSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid invoice ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = creditNoteSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid credit note',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await createCreditNote(paramsResult.data.id, parsed.data, {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+    })
+
+    if (result.outcome === 'not_found') {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    if (result.outcome === 'not_creditable') {
+      return NextResponse.json(
+        { code: 'NOT_CREDITABLE', message: result.message },
+        { status: 400 }
+      )
+    }
+
+    if (result.outcome === 'exceeds_balance') {
+      return NextResponse.json(
+        {
+          code: 'EXCEEDS_BALANCE',
+          message: result.message,
+          amountDue: result.invoice.amountDue
+        },
+        { status: 400 }
+      )
+    }
+
+    if (result.outcome === 'conflict') {
+      return NextResponse.json(
+        { code: 'CONFLICT', message: result.message },
+        { status: 409 }
+      )
+    }
+
+    if (result.outcome === 'invalid_transition') {
+      return NextResponse.json(
+        {
+          code: 'INVALID_TRANSITION',
+          message: result.message,
+          guards: result.guards
+        },
+        { status: 400 }
+      )
+    }
+
+    const { creditNote, invoice } = result
+
+    await writeInvoiceAudit(request, user, {
+      entityId: creditNote.id,
+      action: 'CREATE',
+      changes: {
+        document_type: creditNote.documentType,
+        original_invoice_id: invoice.id,
+        total: creditNote.amount,
+        invoice_date: creditNote.issueDate,
+        description: creditNote.description,
+      },
+    })
+
+    const auditLog = await writeInvoiceAudit(request, user, {
+      entityId: invoice.id,
+      action: 'CREDIT_APPLIED',
+      changes: {
+        credit_note_id: creditNote.id,
+        credit_note_number: creditNote.invoiceNumber,
+        document_type: creditNote.documentType,
+        amount: creditNote.amount,
+        old_amount_due: result.previousAmountDue,
+        new_amount_due: invoice.amountDue,
+        ...(result.previousStatus !== invoice.status && {
+          old_status: result.previousStatus,
+          new_status: invoice.status,
+        }),
+      },
+    })
+
+    return NextResponse.json(
+      {
+        success: true,
+        creditNote,
+        invoice: {
+          id: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          amount: invoice.amount,
+          amountDue: invoice.amountDue,
+          status: invoice.status,
+        },
+        auditLog
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Create credit note error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { invoiceIdSchema } from '@/lib/schemas/api'
+import { getInvoiceDetail } from '@/lib/server/invoice-detail'
+
+// GET /api/invoices/[id]/details - Invoice with its line items and related invoices (credits, duplicates)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const paramsResult = invoiceIdSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid invoice ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const detail = await getInvoiceDetail(paramsResult.data.id)
+    if (!detail) {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(detail)
+  } catch (error) {
+    console.error('Invoice detail error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { invoiceIdSchema } from '@/lib/schemas/api'
+import { findInvoice } from '@/lib/server/invoice-repository'
+import {
+  openInvoiceDocument,
+  peekDocument,
+  readDocument,
+} from '@/lib/server/invoice-documents'
+import { countPdfPages, sniffDocumentType } from '@/lib/document-types'
+
+export const runtime = 'nodejs'
+
+/** Largest document buffered to count pages for `?meta=1` */
+const MAX_META_BYTES = 25 * 1024 * 1024
+
+// GET /api/invoices/[id]/document - Stream the invoice's stored document
+// ?meta=1 returns its type and page count instead; ?download=1 forces a download
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const paramsResult = invoiceIdSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid invoice ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const found = await findInvoice(paramsResult.data.id)
+    if (!found) {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only the document recorded on the invoice is ever served
+    const opened = await openInvoiceDocument(found.invoice.invoiceUrl, found.invoice.invoiceNumber)
+    if (opened.outcome === 'not_found') {
+      return NextResponse.json(
+        { code: 'NO_DOCUMENT', message: 'No document is stored for this invoice' },
+        { status: 404 }
+      )
+    }
+    if (opened.outcome === 'forbidden_host') {
+      return NextResponse.json(
+        { code: 'DOCUMENT_HOST_NOT_ALLOWED', message: `Documents from ${opened.host} cannot be previewed` },
+        { status: 403 }
+      )
+    }
+    if (opened.outcome === 'unavailable') {
+      return NextResponse.json(
+        { code: 'DOCUMENT_UNAVAILABLE', message: opened.message },
+        { status: 502 }
+      )
+    }
+
+    const { head, stream } = await peekDocument(opened.stream)
+    const sniffed = sniffDocumentType(head)
+    const searchParams = request.nextUrl.searchParams
+
+    if (searchParams.get('meta') === '1') {
+      const bytes = sniffed.kind === 'pdf' ? await readDocument(stream, MAX_META_BYTES) : null
+      if (sniffed.kind !== 'pdf') await stream.cancel()
+
+      return NextResponse.json({
+        contentType: sniffed.contentType,
+        kind: sniffed.kind,
+        size: opened.size ?? bytes?.length ?? null,
+        pages: bytes ? countPdfPages(bytes) : null,
+        filename: opened.filename,
+      })
+    }
+
+    const inline = sniffed.kind !== 'other' && searchParams.get('download') !== '1'
+    const headers = new Headers({
+      'Content-Type': sniffed.contentType,
+      'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename="${opened.filename}"`,
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'private, max-age=300',
+    })
+    if (opened.size !== null) headers.set('Content-Length', String(opened.size))
+
+    return new Response(stream, { status: 200, headers })
+  } catch (error) {
+    console.error('Invoice document error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { invoiceFieldRevertSchema, invoiceHistoryParamsSchema } from '@/lib/schemas/api'
+import { writeInvoiceAudit } from '@/lib/server/invoice-audit'
+import { revertInvoiceField } from '@/lib/server/invoice-history'
+
+// POST /api/invoices/[id]/history/[entryId]/revert - Put one field back to its value before a recorded change
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; entryId: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+
+  try {
+    const paramsResult = invoiceHistoryParamsSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid invoice or history entry ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const parsed = invoiceFieldRevertSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid revert request',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const { id, entryId } = paramsResult.data
+    const result = await revertInvoiceField(id, entryId, parsed.data.field)
+
+    if (result.outcome === 'not_found') {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+    if (result.outcome === 'entry_not_found') {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'History entry not found for this invoice' },
+        { status: 404 }
+      )
+    }
+    if (result.outcome === 'not_revertible') {
+      return NextResponse.json(
+        { code: 'NOT_REVERTIBLE', message: result.message },
+        { status: 400 }
+      )
+    }
+    if (result.outcome === 'conflict') {
+      return NextResponse.json(
+        { code: 'CONFLICT', message: result.message, current: result.current },
+        { status: 409 }
+      )
+    }
+
+    const auditLog = await writeInvoiceAudit(request, user, {
+      entityId: result.invoice.id,
+      action: 'FIELD_REVERTED',
+      fields: result.fields,
+      changes: { reverted_entry_id: result.revertedEntryId },
+    })
+
+    return NextResponse.json({ success: true, invoice: result.invoice, auditLog })
+  } catch (error) {
+    console.error('Invoice field revert error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
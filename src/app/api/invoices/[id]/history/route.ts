@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { invoiceIdSchema } from '@/lib/schemas/api'
+import { paginationQuerySchema } from '@/lib/schemas/pagination'
+import { findInvoice } from '@/lib/server/invoice-repository'
+import { listInvoiceHistory } from '@/lib/server/invoice-history'
+
+// GET /api/invoices/[id]/history - Field-level change history, newest first; paged with page and limit
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const paramsResult = invoiceIdSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid invoice ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const found = await findInvoice(paramsResult.data.id)
+    if (!found) {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = request.nextUrl
+    const { page, limit } = paginationQuerySchema.parse({
+      page: searchParams.get('page') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+    })
+
+    const { events, total } = await listInvoiceHistory(found.invoice, { page, limit })
+
+    return NextResponse.json({
+      invoice: { id: found.invoice.id, invoiceNumber: found.invoice.invoiceNumber },
+      events,
+      pagination: {
+        total,
+        pageCount: Math.ceil(total / limit),
+        pageSize: limit,
+        pageIndex: page
+      }
+    })
+  } catch (error) {
+    console.error('Invoice history error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
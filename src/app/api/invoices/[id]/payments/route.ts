@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { invoiceIdSchema, invoicePaymentSchema } from '@/lib/schemas/api'
+import { findInvoice } from '@/lib/server/invoice-repository'
+import { listInvoicePayments, recordInvoicePayment, roundCents } from '@/lib/server/invoice-payments'
+import { writeInvoiceAudit } from '@/lib/server/invoice-audit'
+
+// GET /api/invoices/[id]/payments - Payment history and outstanding balance
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const paramsResult = invoiceIdSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid invoice ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const found = await findInvoice(paramsResult.data.id)
+    if (!found) {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    const payments = await listInvoicePayments(found.invoice.id)
+
+    return NextResponse.json({
+      invoice: {
+        id: found.invoice.id,
+        invoiceNumber: found.invoice.invoiceNumber,
+        amount: found.invoice.amount,
+        amountDue: found.invoice.amountDue,
+        status: found.invoice.status,
+      },
+      payments,
+      totals: {
+        paid: roundCents(payments.reduce((sum, payment) => sum + payment.amount, 0)),
+        outstanding: found.invoice.amountDue,
+        count: payments.length,
+      },
+    })
+  } catch (error) {
+    console.error('Payment history error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/invoices/[id]/payments - Record a (partial) payment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+
+  try {
+    const paramsResult = invoiceIdSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid invoice ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = invoicePaymentSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid payment',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await recordInvoicePayment(paramsResult.data.id, parsed.data, {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+    })
+
+    if (result.outcome === 'not_found') {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Invoice not found' },
+        { status: 404 }
+      )
+    }
+
+    if (result.outcome === 'duplicate') {
+      return NextResponse.json(
+        {
+          code: 'DUPLICATE_INVOICE',
+          message: result.message,
+          duplicateOfId: result.invoice.duplicateOfId
+        },
+        { status: 409 }
+      )
+    }
+
+    if (result.outcome === 'overpayment') {
+      return NextResponse.json(
+        {
+          code: 'OVERPAYMENT',
+          message: result.message,
+          amountDue: result.invoice.amountDue
+        },
+        { status: 400 }
+      )
+    }
+
+    if (result.outcome === 'conflict') {
+      return NextResponse.json(
+        { code: 'CONFLICT', message: result.message },
+        { status: 409 }
+      )
+    }
+
+    if (result.outcome === 'invalid_transition') {
+      return NextResponse.json(
+        {
+          code: 'INVALID_TRANSITION',
+          message: result.message,
+          guards: result.guards
+        },
+        { status: 400 }
+      )
+    }
+
+    const auditLog = await writeInvoiceAudit(request, user, {
+      entityId: result.invoice.id,
+      action: 'PAYMENT_RECORDED',
+      changes: {
+        payment_id: result.payment.id,
+        amount: result.payment.amount,
+        payment_date: result.payment.paidAt,
+        payment_reference: result.payment.reference,
+        old_amount_due: result.previousAmountDue,
+        new_amount_due: result.invoice.amountDue,
+        ...(result.previousStatus !== result.invoice.status && {
+          old_status: result.previousStatus,
+          new_status: result.invoice.status,
+        }),
+      },
+    })
+
+    return NextResponse.json(
+      {
+        success: true,
+        payment: result.payment,
+        invoice: {
+          id: result.invoice.id,
+          invoiceNumber: result.invoice.invoiceNumber,
+          amount: result.invoice.amount,
+          amountDue: result.invoice.amountDue,
+          status: result.invoice.status,
+        },
+        auditLog
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Record payment error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabaseAdmin } from '@/lib/server/supabase-admin'
+import { deleteInvoice, findInvoice, type InvoiceRecord } from '@/lib/server/invoice-repository'
+import { normalizeInvoiceStatus, type InvoiceStatus } from '@/lib/server/invoice-columns'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { changeInvoiceStatus } from '@/lib/server/invoice-status'
+import { writeInvoiceAudit } from '@/lib/server/invoice-audit'
+import { editInvoiceFields, type InvoiceFieldUpdates } from '@/lib/server/invoice-history'
+import { invoiceEditSchema } from '@/lib/schemas/api'
+import { EDITABLE_INVOICE_FIELDS } from '@/lib/invoice-history'
 
 // GET /api/invoices/[id]
 export async function GET(
@@ -8,26 +15,16 @@ export async function GET(
 ) {
   try {
     const { id } = await params
-    const { data, error } = await supabaseAdmin
-      .from('invoices')
-      .select('*')
-      .eq('id', id)
-      .single()
+    const found = await findInvoice(id)
 
-    if (error) {
-      return NextResponse.json(
-        { code: 'SERVER_ERROR', message: 'Failed to get invoice' },
-        { status: 500 }
-      )
-    }
-    if (!data) {
+    if (!found) {
       return NextResponse.json(
         { code: 'NOT_FOUND', message: 'Invoice not found' },
         { status: 404 }
       )
     }
 
-    return NextResponse.json(data)
+    return NextResponse.json(found.invoice)
   } catch (error) {
     return NextResponse.json(
       { code: 'SERVER_ERROR', message: 'Failed to get invoice' },
@@ -36,49 +33,130 @@ export async function GET(
   }
 }
 
-// PATCH /api/invoices/[id]
+// PATCH /api/invoices/[id] - Edit an invoice's fields and/or move it to a new status
+// Every change is audited with the before and after value of each field
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+
   try {
     const { id } = await params
-    const body = await request.json()
-    const allowed = ['paymentStatus', 'category', 'description']
-    const updates: any = {}
-    if (body.paymentStatus) updates.payment_status = String(body.paymentStatus).toLowerCase()
-    if (body.category) updates.category = body.category
-    if (body.description) updates.description = body.description
-
-    if (Object.keys(updates).length === 0) {
+    const parsed = invoiceEditSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
       return NextResponse.json(
-        { code: 'INVALID_BODY', message: 'No valid fields to update' },
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid invoice update',
+          errors: parsed.error.issues
+        },
         { status: 400 }
       )
     }
 
-    const { data, error } = await supabaseAdmin
-      .from('invoices')
-      .update(updates)
-      .eq('id', id)
-      .select('*')
-      .single()
+    const body = parsed.data
+    let newStatus: InvoiceStatus | undefined
+    if (body.paymentStatus) {
+      newStatus = normalizeInvoiceStatus(body.paymentStatus)
+      if (!newStatus) {
+        return NextResponse.json(
+          { code: 'VALIDATION_ERROR', message: `Unknown status: ${body.paymentStatus}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const updates = Object.fromEntries(
+      EDITABLE_INVOICE_FIELDS.filter((field) => body[field] !== undefined).map((field) => [field, body[field]])
+    ) as InvoiceFieldUpdates
 
-    if (error) {
+    if (!newStatus && Object.keys(updates).length === 0) {
       return NextResponse.json(
-        { code: 'SERVER_ERROR', message: 'Failed to update invoice' },
-        { status: 500 }
+        { code: 'INVALID_BODY', message: 'No valid fields to update' },
+        { status: 400 }
       )
     }
-    if (!data) {
-      return NextResponse.json(
-        { code: 'NOT_FOUND', message: 'Invoice not found' },
-        { status: 404 }
+
+    // Status changes go through the same workflow and guards as the status endpoint
+    let invoice: InvoiceRecord | undefined
+    if (newStatus) {
+      const change = await changeInvoiceStatus(
+        id,
+        newStatus,
+        { id: user.id, email: user.email, role: user.role },
+        { paymentDate: body.paymentDate, paymentReference: body.paymentReference }
       )
+      if (change.outcome === 'not_found') {
+        return NextResponse.json(
+          { code: 'NOT_FOUND', message: 'Invoice not found' },
+          { status: 404 }
+        )
+      }
+      if (change.outcome === 'invalid_transition') {
+        return NextResponse.json(
+          {
+            code: 'INVALID_TRANSITION',
+            message: change.message,
+            allowedTransitions: change.allowedTransitions,
+            guards: change.guards
+          },
+          { status: 400 }
+        )
+      }
+      if (change.outcome === 'conflict') {
+        return NextResponse.json(
+          { code: 'CONFLICT', message: change.message },
+          { status: 409 }
+        )
+      }
+      if (change.outcome === 'updated' || change.outcome === 'approval_recorded') {
+        await writeInvoiceAudit(request, user, {
+          entityId: change.invoice.id,
+          action: change.outcome === 'approval_recorded' ? 'APPROVAL_RECORDED' : 'STATUS_CHANGE',
+          changes: {
+            old_status: change.previousStatus,
+            new_status: change.invoice.status,
+            ...(change.invoice.status === 'paid' && {
+              payment_date: change.invoice.paidDate,
+              payment_reference: change.invoice.paymentReference,
+            }),
+          },
+        })
+      }
+      invoice = change.invoice
+    }
+
+    if (Object.keys(updates).length > 0) {
+      const edit = await editInvoiceFields(id, updates)
+      if (edit.outcome === 'not_found') {
+        return NextResponse.json(
+          { code: 'NOT_FOUND', message: 'Invoice not found' },
+          { status: 404 }
+        )
+      }
+      if (edit.outcome === 'updated') {
+        await writeInvoiceAudit(request, user, {
+          entityId: edit.invoice.id,
+          action: 'INVOICE_UPDATED',
+          fields: edit.fields,
+          changes: {},
+        })
+      }
+      invoice = edit.invoice
     }
 
-    return NextResponse.json({ success: true, invoice: data })
+    return NextResponse.json({ success: true, invoice })
   } catch (error) {
+    console.error('Invoice update error:', error)
     return NextResponse.json(
       { code: 'SERVER_ERROR', message: 'Failed to update invoice' },
       { status: 500 }
@@ -87,35 +165,45 @@ export async function PATCH(
 }
 
 // DELETE /api/invoices/[id]
+// The audit entry keeps a snapshot of the invoice as it was before deletion
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+
   try {
     const { id } = await params
-    const { error, count } = await supabaseAdmin
-      .from('invoices')
-      .delete({ count: 'exact' })
-      .eq('id', id)
+    const found = await findInvoice(id)
+    const deleted = found ? await deleteInvoice(found.invoice.id) : false
 
-    if (error) {
-      return NextResponse.json(
-        { code: 'SERVER_ERROR', message: 'Failed to delete invoice' },
-        { status: 500 }
-      )
-    }
-    if (!count) {
+    if (!found || !deleted) {
       return NextResponse.json(
         { code: 'NOT_FOUND', message: 'Invoice not found' },
         { status: 404 }
       )
     }
+
+    await writeInvoiceAudit(request, user, {
+      entityId: found.invoice.id,
+      action: 'INVOICE_DELETED',
+      changes: { before: found.invoice },
+    })
+
     return NextResponse.json({ success: true })
   } catch (error) {
+    console.error('Invoice delete error:', error)
     return NextResponse.json(
       { code: 'SERVER_ERROR', message: 'Failed to delete invoice' },
       { status: 500 }
     )
   }
 }
-
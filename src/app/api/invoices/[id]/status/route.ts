@@ -1,22 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
-import { supabaseAdmin } from '@/lib/server/supabase-admin'
 import { getRequiredEnv } from '@/lib/env'
 import { verifyAPIAuth } from '@/lib/server/auth'
 import { invoiceStatusUpdateSchema, invoiceIdSchema } from '@/lib/schemas/api'
+import { findInvoice } from '@/lib/server/invoice-repository'
+import { changeInvoiceStatus } from '@/lib/server/invoice-status'
+import { isInvoiceStatus } from '@/lib/invoice-status-machine'
+import { invoiceAuditIds, listAuditEntries, writeInvoiceAudit } from '@/lib/server/invoice-audit'
+import type { AuditLog, StatusHistoryResponse } from '@/lib/types'
 
 const supabaseUrl = getRequiredEnv('NEXT_PUBLIC_SUPABASE_URL')
 const supabaseKey = getRequiredEnv('NEXT_PUBLIC_SUPABASE_ANON_KEY')
 
-// Valid status transitions to prevent invalid changes
-// Allow more flexible transitions for development/testing
-const VALID_STATUS_TRANSITIONS: Record<string, string[]> = {
-  pending: ['in_review', 'overdue', 'approved', 'paid'],
-  in_review: ['approved', 'pending', 'overdue', 'paid'],
-  approved: ['paid', 'in_review', 'pending', 'overdue'],
-  paid: ['in_review', 'approved', 'pending', 'overdue'],
-  overdue: ['in_review', 'approved', 'paid', 'pending'],
-}
+// Audit actions that can move an invoice between statuses
+const STATUS_HISTORY_ACTIONS = ['STATUS_CHANGE', 'APPROVAL_RECORDED', 'INVOICE_REJECTED', 'PAYMENT_RECORDED'] as const
 
 // PATCH /api/invoices/[id]/status
 export async function PATCH(
@@ -63,11 +60,10 @@ export async function PATCH(
       )
     }
 
-    const { status: newStatus } = bodyResult.data
+    const { status: newStatus, paymentDate, paymentReference } = bodyResult.data
 
     // Validate status value
-    const validStatuses = ['pending', 'in_review', 'approved', 'paid', 'overdue']
-    if (!validStatuses.includes(newStatus)) {
+    if (!isInvoiceStatus(newStatus)) {
       return NextResponse.json(
         { code: 'INVALID_STATUS', message: 'Invalid status value' },
         { status: 400 }
@@ -114,130 +110,100 @@ export async function PATCH(
       email: authenticatedUser.email
     }
 
-    // Get current invoice to check existing status
-    // Detect if the parameter is an invoice number (contains INV-, or is numeric but not a typical ID)
-    const isInvoiceNumber = id && (
-      id.startsWith('INV-') ||
-      /^\d{4,}$/.test(id)  // Numbers with 4+ digits are likely invoice numbers
-    );
-    const columnToFetch = isInvoiceNumber ? 'invoice_number' : 'id';
-    const valueToFetch = id;
-
-    const { data: currentInvoice, error: fetchError } = await supabaseAdmin
-      .from('Invoice')
-      .select('invoice_number, status')
-      .eq(columnToFetch, valueToFetch)
-      .single()
+    // Check the workflow and its guards, then update (accepts id or invoice number)
+    const change = await changeInvoiceStatus(
+      id,
+      newStatus,
+      { id: authenticatedUser.id, email: authenticatedUser.email, role: authenticatedUser.role },
+      { paymentDate, paymentReference }
+    )
 
-    if (fetchError || !currentInvoice) {
-      console.error('Invoice lookup failed:', {
-        columnToFetch,
-        valueToFetch,
-        fetchError,
-        currentInvoice
-      })
+    if (change.outcome === 'not_found') {
+      console.error('Invoice lookup failed:', { id })
       return NextResponse.json(
-        {
-          code: 'NOT_FOUND',
-          message: 'Invoice not found',
-          debug: { columnToFetch, valueToFetch, fetchError }
-        },
+        { code: 'NOT_FOUND', message: 'Invoice not found' },
         { status: 404 }
       )
     }
 
-    // Get current status
-    const currentStatus = currentInvoice.status || 'pending'
-
-    // Validate status transition
-    if (currentStatus !== newStatus && VALID_STATUS_TRANSITIONS[currentStatus] &&
-        !VALID_STATUS_TRANSITIONS[currentStatus].includes(newStatus)) {
+    if (change.outcome === 'invalid_transition') {
       return NextResponse.json(
         {
           code: 'INVALID_TRANSITION',
-          message: `Cannot change status from ${currentStatus} to ${newStatus}`,
-          allowedTransitions: VALID_STATUS_TRANSITIONS[currentStatus]
+          message: change.message,
+          allowedTransitions: change.allowedTransitions,
+          guards: change.guards
         },
         { status: 400 }
       )
     }
 
-    // Skip update if status is the same
-    if (currentStatus === newStatus) {
+    if (change.outcome === 'conflict') {
+      return NextResponse.json(
+        { code: 'CONFLICT', message: change.message },
+        { status: 409 }
+      )
+    }
+
+    const updatedInvoice = {
+      invoice_number: change.invoice.invoiceNumber,
+      status: change.invoice.status,
+    }
+
+    // Skip audit if status is the same
+    if (change.outcome === 'unchanged') {
       return NextResponse.json({
         success: true,
-        invoice: currentInvoice,
+        invoice: updatedInvoice,
         message: 'Status unchanged'
       })
     }
 
-    // Start transaction-like operations
-    // 1. Update invoice status
-    const { data: updatedInvoice, error: updateError } = await supabaseAdmin
-      .from('Invoice')
-      .update({
-        status: newStatus,
-        updated_at: new Date().toISOString()
+    // More approvals are needed before the invoice is approved
+    if (change.outcome === 'approval_recorded') {
+      const auditLog = await writeInvoiceAudit(request, user, {
+        entityId: change.invoice.id,
+        action: 'APPROVAL_RECORDED',
+        changes: {
+          old_status: change.previousStatus,
+          new_status: change.invoice.status,
+          policy: change.progress.policy.name,
+          approvals_received: change.progress.received,
+          approvals_required: change.progress.required,
+        },
       })
-      .eq(columnToFetch, valueToFetch)
-      .select('invoice_number, status')
-      .single()
 
-    if (updateError || !updatedInvoice) {
-      console.error('Invoice update failed:', {
-        updateError,
-        updatedInvoice,
-        columnToFetch,
-        valueToFetch,
-        newStatus
+      return NextResponse.json({
+        success: true,
+        code: 'APPROVAL_RECORDED',
+        message: `Approval recorded; ${change.progress.remaining} more approval${change.progress.remaining === 1 ? '' : 's'} needed`,
+        invoice: updatedInvoice,
+        approval: change.approval,
+        progress: change.progress,
+        auditLog
       })
-      return NextResponse.json(
-        {
-          code: 'UPDATE_FAILED',
-          message: 'Failed to update invoice status',
-          debug: { updateError, columnToFetch, valueToFetch, newStatus }
-        },
-        { status: 500 }
-      )
     }
 
-    // 2. Create audit log entry
-    const auditLogData = {
-      entityType: 'invoice',
-      entityId: updatedInvoice.invoice_number || id,
+    // Create audit log entry (failures are logged, not fatal)
+    const auditLog = await writeInvoiceAudit(request, user, {
+      entityId: change.invoice.id,
       action: 'STATUS_CHANGE',
-      userId: user.id,
       changes: {
-        old_status: currentStatus,
+        old_status: change.previousStatus,
         new_status: newStatus,
-        user_email: user.email,
-        timestamp: new Date().toISOString()
+        ...(newStatus === 'paid' && {
+          payment_date: change.invoice.paidDate,
+          payment_reference: change.invoice.paymentReference,
+        }),
+        ...(change.approval && { final_approval_by: change.approval.approverUserId }),
       },
-      ipAddress: request.headers.get('x-forwarded-for') ||
-                 request.headers.get('x-real-ip') ||
-                 'unknown',
-      userAgent: request.headers.get('user-agent') || 'unknown'
-    }
-
-    console.log('Creating audit log:', auditLogData)
-    const { error: auditError } = await supabaseAdmin
-      .from('AuditLog')
-      .insert(auditLogData)
-
-    if (auditError) {
-      console.error('Failed to create audit log:', {
-        auditError,
-        auditLogData,
-        table: 'AuditLog'
-      })
-      // Don't fail the request if audit log fails, but log the error
-    }
+    })
 
     // Return success response
     return NextResponse.json({
       success: true,
       invoice: updatedInvoice,
-      auditLog: auditError ? null : auditLogData
+      auditLog
     })
 
   } catch (error) {
@@ -258,40 +224,34 @@ export async function GET(
     const { id } = await params
 
     // Get current invoice status
-    const { data: invoice, error: invoiceError } = await supabaseAdmin
-      .from('invoices')
-      .select('id, status, payment_status')
-      .eq('id', id)
-      .single()
+    const found = await findInvoice(id)
 
-    if (invoiceError || !invoice) {
+    if (!found) {
       return NextResponse.json(
         { code: 'NOT_FOUND', message: 'Invoice not found' },
         { status: 404 }
       )
     }
 
-    // Get audit history
-    const { data: auditLogs, error: auditError } = await supabaseAdmin
-      .from('audit_logs')
-      .select('*')
-      .eq('invoice_id', id)
-      .eq('action_type', 'status_change')
-      .order('created_at', { ascending: false })
-
-    if (auditError) {
-      console.error('Failed to fetch audit logs:', auditError)
-      // Return invoice status even if audit logs fail
-      return NextResponse.json({
-        currentStatus: invoice.status || invoice.payment_status,
-        history: []
+    // Status history from the audit log; a missing audit table still returns the current status
+    let history: AuditLog[] = []
+    try {
+      const { entries } = await listAuditEntries({
+        entityType: 'invoice',
+        entityIds: invoiceAuditIds(found.invoice),
+        actions: [...STATUS_HISTORY_ACTIONS],
+        limit: 100,
       })
+      history = entries.filter((entry) => entry.changes.new_status !== undefined)
+    } catch (auditError) {
+      console.error('Failed to fetch audit logs:', auditError)
     }
 
-    return NextResponse.json({
-      currentStatus: invoice.status || invoice.payment_status,
-      history: auditLogs || []
-    })
+    const response: StatusHistoryResponse = {
+      currentStatus: found.invoice.status,
+      history
+    }
+    return NextResponse.json(response)
 
   } catch (error) {
     console.error('Status history error:', error)
@@ -75,4 +75,22 @@ describe('GET /api/invoices - Status Counts', () => {
     expect(data.statusCounts.overdue).toBe(0);
     expect(data.pagination.total).toBe(0);
   });
-});
\ No newline at end of file
+
+  it('should page with a cursor without repeating rows', async () => {
+    const firstResponse = await fetch(`${baseUrl}/api/invoices?limit=10&sortBy=amount&sortOrder=desc`);
+    const first = await firstResponse.json();
+
+    // The local fixtures and any seeded database hold more than one page of invoices
+    expect(first.data).toHaveLength(10);
+    expect(typeof first.pagination.nextCursor).toBe('string');
+
+    const secondResponse = await fetch(
+      `${baseUrl}/api/invoices?limit=10&sortBy=amount&sortOrder=desc&cursor=${encodeURIComponent(first.pagination.nextCursor)}`
+    );
+    const second = await secondResponse.json();
+
+    const firstIds = new Set(first.data.map((invoice: { id: string }) => invoice.id));
+    expect(second.data.some((invoice: { id: string }) => firstIds.has(invoice.id))).toBe(false);
+    expect(second.statusCounts).toEqual(first.statusCounts);
+  });
+});
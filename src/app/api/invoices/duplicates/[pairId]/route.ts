@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { duplicatePairParamsSchema, duplicateResolutionSchema } from '@/lib/schemas/api'
+import { writeInvoiceAudit } from '@/lib/server/invoice-audit'
+import { resolveDuplicatePair } from '@/lib/server/invoice-duplicates'
+
+const AUDIT_ACTIONS = {
+  merge: 'DUPLICATE_MERGED',
+  link: 'DUPLICATE_LINKED',
+  dismiss: 'DUPLICATE_DISMISSED',
+} as const
+
+// POST /api/invoices/duplicates/[pairId] - Merge, link or dismiss a possible duplicate
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ pairId: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+
+  try {
+    const paramsResult = duplicatePairParamsSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid duplicate pair ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = duplicateResolutionSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid resolution',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const { action, keepId } = parsed.data
+    const result = await resolveDuplicatePair(paramsResult.data.pairId, action, user, { keepId })
+
+    if (result.outcome === 'not_found') {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Duplicate pair not found' },
+        { status: 404 }
+      )
+    }
+    if (result.outcome === 'already_resolved') {
+      return NextResponse.json(
+        { code: 'ALREADY_RESOLVED', message: `This pair was already ${result.pair.status}`, pair: result.pair },
+        { status: 409 }
+      )
+    }
+    if (result.outcome === 'invalid_keep') {
+      return NextResponse.json(
+        { code: 'VALIDATION_ERROR', message: result.message },
+        { status: 400 }
+      )
+    }
+
+    const auditLog = await writeInvoiceAudit(request, user, {
+      entityId: result.other.id,
+      action: AUDIT_ACTIONS[action],
+      changes: {
+        pair_id: result.pair.id,
+        invoice_id: result.other.id,
+        kept_invoice_id: result.kept.id,
+        kept_invoice_number: result.kept.invoiceNumber,
+        score: result.pair.score,
+        signals: result.pair.signals,
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      pair: result.pair,
+      kept: result.kept,
+      other: result.other,
+      auditLog,
+    })
+  } catch (error) {
+    console.error('Resolve duplicate error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { DUPLICATE_PAIR_STATUSES, duplicateScanSchema } from '@/lib/schemas/api'
+import { normaliseInvoiceFilters } from '@/lib/server/invoice-query'
+import {
+  listDuplicatePairs,
+  scanForDuplicates,
+  type DuplicatePairStatus,
+} from '@/lib/server/invoice-duplicates'
+
+// GET /api/invoices/duplicates - Possible duplicates queue (?status=pending|merged|linked|dismissed)
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const status = request.nextUrl.searchParams.get('status') ?? 'pending'
+  if (!(DUPLICATE_PAIR_STATUSES as readonly string[]).includes(status)) {
+    return NextResponse.json(
+      {
+        code: 'VALIDATION_ERROR',
+        message: `Status must be one of: ${DUPLICATE_PAIR_STATUSES.join(', ')}`
+      },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const pairs = await listDuplicatePairs(status as DuplicatePairStatus)
+    return NextResponse.json({ status, pairs, count: pairs.length })
+  } catch (error) {
+    console.error('Duplicate queue error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/invoices/duplicates - Rescan invoices and queue new likely duplicates
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = duplicateScanSchema.safeParse(body ?? {})
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid scan range',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await scanForDuplicates(
+      normaliseInvoiceFilters({ dateFrom: parsed.data.dateFrom, dateTo: parsed.data.dateTo })
+    )
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Duplicate scan error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
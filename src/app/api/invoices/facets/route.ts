@@ -2,17 +2,39 @@ import { NextResponse } from 'next/server'
 
 import { supabaseAdmin } from '@/lib/server/supabase-admin'
 import { isSupabaseConfigured } from '@/lib/server/env'
+import { normaliseInvoiceFilters } from '@/lib/server/invoice-query'
+import { scanInvoices, type InvoiceRecord } from '@/lib/server/invoice-repository'
+import { loadVendorIndexOrEmpty } from '@/lib/server/vendors'
+import { groupByVendor, type VendorIndex } from '@/lib/vendor-matching'
+
+type VendorFacet = { value: string; vendorId?: string | null; aliases?: string[]; email?: string; count: number }
 
 interface FacetPayload {
   facets: {
     statuses: Array<{ value: string; count: number }>;
     categories: Array<{ value: string; count: number }>;
-    vendors: Array<{ value: string; email?: string; count: number }>;
+    vendors: VendorFacet[];
     amountRange: { min: number; max: number };
     dateRange: { min: string | null; max: string | null };
   };
 }
 
+/**
+ * Collapse per-name vendor counts onto canonical vendors. `aliases` lists
+ * the raw spellings that were folded in.
+ */
+function groupVendorFacets(vendors: VendorFacet[], index: VendorIndex): VendorFacet[] {
+  return groupByVendor(vendors, (facet) => facet.value, index)
+    .map((group) => ({
+      value: group.vendor,
+      vendorId: group.vendorId,
+      aliases: group.rows.map((facet) => facet.value).filter((name) => name !== group.vendor),
+      email: group.rows.find((facet) => facet.email)?.email,
+      count: group.rows.reduce((sum, facet) => sum + facet.count, 0),
+    }))
+    .sort((a, b) => b.count - a.count)
+}
+
 export async function GET() {
   try {
     if (!isSupabaseConfigured()) {
@@ -33,15 +55,18 @@ export async function GET() {
 
     if (!viewQuery.error && viewQuery.data && viewQuery.data.length > 0) {
       const facets = viewQuery.data[0].facets as FacetPayload['facets']
-      return NextResponse.json({ facets })
+      const vendorIndex = await loadVendorIndexOrEmpty()
+      return NextResponse.json({
+        facets: { ...facets, vendors: groupVendorFacets(facets.vendors ?? [], vendorIndex) },
+      })
     }
 
-    // Fallback: derive facets directly from base table
-    const fallback = await supabaseAdmin.from('Invoice').select(
-      'payment_status, category, supplier_name, supplier_email, total, created_at'
-    )
-
-    if (fallback.error) {
+    // Fallback: derive facets directly from the invoice records
+    let invoices: InvoiceRecord[]
+    try {
+      invoices = await scanInvoices(normaliseInvoiceFilters())
+    } catch (error) {
+      console.warn('Failed to derive invoice facets', error)
       return NextResponse.json<FacetPayload>({
         facets: {
           statuses: [],
@@ -53,7 +78,6 @@ export async function GET() {
       })
     }
 
-    const rows = fallback.data ?? []
     const statusMap = new Map<string, number>()
     const categoryMap = new Map<string, number>()
     const vendorMap = new Map<string, { email?: string; count: number }>()
@@ -62,31 +86,27 @@ export async function GET() {
     let minDate: string | null = null
     let maxDate: string | null = null
 
-    for (const row of rows) {
-      const status = (row.payment_status ?? 'pending').toLowerCase()
-      statusMap.set(status, (statusMap.get(status) ?? 0) + 1)
+    for (const invoice of invoices) {
+      statusMap.set(invoice.status, (statusMap.get(invoice.status) ?? 0) + 1)
 
-      const category = row.category ?? 'Uncategorized'
+      const category = invoice.category || 'Uncategorized'
       categoryMap.set(category, (categoryMap.get(category) ?? 0) + 1)
 
-      const vendor = row.supplier_name ?? 'Unknown Vendor'
+      const vendor = invoice.vendorName || 'Unknown Vendor'
       if (!vendorMap.has(vendor)) {
-        vendorMap.set(vendor, { email: row.supplier_email ?? undefined, count: 1 })
+        vendorMap.set(vendor, { email: invoice.vendorEmail || undefined, count: 1 })
       } else {
         const entry = vendorMap.get(vendor)!
         entry.count += 1
-        if (!entry.email && row.supplier_email) {
-          entry.email = row.supplier_email
+        if (!entry.email && invoice.vendorEmail) {
+          entry.email = invoice.vendorEmail
         }
       }
 
-      const amount = Number(row.total ?? 0)
-      if (!Number.isNaN(amount)) {
-        minAmount = Math.min(minAmount, amount)
-        maxAmount = Math.max(maxAmount, amount)
-      }
+      minAmount = Math.min(minAmount, invoice.amount)
+      maxAmount = Math.max(maxAmount, invoice.amount)
 
-      const createdAt = row.created_at ? new Date(row.created_at).toISOString() : null
+      const createdAt = invoice.createdAt ? new Date(invoice.createdAt).toISOString() : null
       if (createdAt) {
         if (!minDate || createdAt < minDate) minDate = createdAt
         if (!maxDate || createdAt > maxDate) maxDate = createdAt
@@ -101,7 +121,10 @@ export async function GET() {
     const facets: FacetPayload['facets'] = {
       statuses: Array.from(statusMap.entries()).map(([value, count]) => ({ value, count })),
       categories: Array.from(categoryMap.entries()).map(([value, count]) => ({ value, count })),
-      vendors: Array.from(vendorMap.entries()).map(([value, { email, count }]) => ({ value, email, count })),
+      vendors: groupVendorFacets(
+        Array.from(vendorMap.entries()).map(([value, { email, count }]) => ({ value, email, count })),
+        await loadVendorIndexOrEmpty()
+      ),
       amountRange: { min: minAmount, max: maxAmount },
       dateRange: { min: minDate, max: maxDate },
     }
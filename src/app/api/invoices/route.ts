@@ -1,8 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseAdmin } from '@/lib/server/supabase-admin';
 import { isSupabaseConfigured } from '@/lib/server/env';
+import { verifyAPIAuth } from '@/lib/server/auth';
+import { invoiceColumn, normalizeInvoiceStatus, type InvoiceField } from '@/lib/server/invoice-columns';
+import {
+  applySearchSyntax,
+  decodeInvoiceCursor,
+  emptyStatusCounts,
+  encodeInvoiceCursor,
+  INVOICE_LIST_MIN_DATE,
+  mergeSavedViewFilters,
+  RELEVANCE_SORT,
+  type InvoicePageQuery,
+  type NormalisedFilters,
+} from '@/lib/server/invoice-query';
+import {
+  createInvoice,
+  filterInvoiceRecords,
+  findDuplicateInvoices,
+  listInvoices,
+  localInvoiceRecords,
+  matchInvoiceRecords,
+  sortInvoiceRecords,
+  withSearchMatch,
+  type InvoiceListResult,
+  type InvoiceRecord,
+} from '@/lib/server/invoice-repository';
+import { writeInvoiceAudit } from '@/lib/server/invoice-audit';
+import { getSavedView } from '@/lib/server/saved-views';
+import { detectDuplicatesFor } from '@/lib/server/invoice-duplicates';
+import { applyVendorDefaults, expandVendorFilters, matchOrCreateVendor } from '@/lib/server/vendors';
+import { invoiceCreateSchema, type InvoiceCreate } from '@/lib/schemas/invoice';
+import { agingDueWindow, isAgingBucket } from '@/lib/payables-aging';
+import { sortByRank } from '@/lib/invoice-search';
 import type { InvoiceFiltersState } from '@/types/invoice-filters';
-import { mockInvoiceData } from '@/lib/sample-data';
 
 // Get invoices with server-side filtering, sorting, and pagination (Supabase)
 export async function GET(request: NextRequest) {
@@ -15,41 +45,42 @@ export async function GET(request: NextRequest) {
     // Pagination parameters
     const page = parseInt(searchParams.get('page') || '0', 10);
     const limit = parseInt(searchParams.get('limit') || '20', 10);
-    const offset = page * limit;
     
     // Sorting parameters (map UI fields to DB columns)
-    const sortByRaw = searchParams.get('sortBy') || 'createdAt';
+    const sortByParam = searchParams.get('sortBy');
+    const sortByRaw = sortByParam || 'createdAt';
     const sortOrder = (searchParams.get('sortOrder') || 'desc') as 'asc' | 'desc';
-    const sortMap: Record<string, string> = {
-      createdAt: 'created_at',
-      receivedDate: 'created_at',
-      dueDate: 'due_date',
-      issueDate: 'invoice_date',
-      vendorName: 'supplier_name',
-      invoiceNumber: 'invoice_number',
-      amount: 'total',
-      status: 'due_date',
+    const sortMap: Record<string, InvoiceField> = {
+      createdAt: 'createdAt',
+      receivedDate: 'createdAt',
+      dueDate: 'dueDate',
+      issueDate: 'issueDate',
+      vendorName: 'vendorName',
+      invoiceNumber: 'invoiceNumber',
+      amount: 'amount',
+      status: 'dueDate',
       category: 'category',
     };
-    const sortBy = sortMap[sortByRaw] || 'created_at';
+    const columnSort = invoiceColumn(sortMap[sortByRaw] || 'createdAt');
     
     const searchParam = searchParams.get('search') || '';
     const statusFilters = searchParams.getAll('status');
     const categoryFilters = searchParams.getAll('category');
     const vendorFilters = searchParams.getAll('vendor');
     const savedViewId = searchParams.get('savedViewId');
+    const cursorParam = searchParams.get('cursor');
     const dateFromParam = searchParams.get('dateFrom');
     const dateToParam = searchParams.get('dateTo');
     const amountMinParam = parseNullableNumber(searchParams.get('amountMin'));
     const amountMaxParam = parseNullableNumber(searchParams.get('amountMax'));
+    const dueFromParam = searchParams.get('dueFrom');
+    const dueToParam = searchParams.get('dueTo');
+    // Aging widget drill-in: outstanding invoices in one aging bucket
+    const agingParam = searchParams.get('aging');
 
     // If Supabase is not configured, return safe empty payload
     const useSupabase = isSupabaseConfigured();
 
-    // Resolve table with fallback
-    const primaryTable = process.env.SUPABASE_INVOICES_TABLE || 'invoices';
-    const fallbackTable = primaryTable === 'invoices' ? 'Invoice' : 'invoices';
-
     let resolvedFilters: NormalisedFilters = {
       search: searchParam,
       statuses: normaliseStatusArray(statusFilters),
@@ -59,17 +90,28 @@ export async function GET(request: NextRequest) {
       dateTo: dateToParam || undefined,
       amountMin: amountMinParam ?? undefined,
       amountMax: amountMaxParam ?? undefined,
+      dueFrom: dueFromParam || undefined,
+      dueTo: dueToParam || undefined,
+      aging: isAgingBucket(agingParam) ? agingDueWindow(agingParam, now) : undefined,
     };
 
     if (savedViewId) {
-      const savedView = await loadSavedView(savedViewId);
+      const savedView = await loadSavedView(request, savedViewId);
       if (savedView) {
-        resolvedFilters = mergeSavedViewFilters(resolvedFilters, savedView);
+        resolvedFilters = mergeSavedViewFilters(resolvedFilters, savedView, now);
       }
     }
 
+    // Structured terms in the search (vendor:"origin energy" amount>1200) become filters
+    resolvedFilters = applySearchSyntax(resolvedFilters, now);
+
+    // Searches are ordered by relevance unless a column sort was picked
+    const sortBy = resolvedFilters.search.trim() && (!sortByParam || sortByParam === RELEVANCE_SORT)
+      ? RELEVANCE_SORT
+      : columnSort;
+
     // Apply default minimum date (>= May 1, 2025) when not explicitly provided
-    const minClampDate = '2025-05-01T00:00:00.000Z';
+    const minClampDate = INVOICE_LIST_MIN_DATE;
     if (!resolvedFilters.dateFrom) {
       resolvedFilters.dateFrom = minClampDate;
     }
@@ -77,7 +119,7 @@ export async function GET(request: NextRequest) {
     if (!useSupabase) {
       // For local fixtures, honour explicit date filters but do not clamp to May 2025.
       // (We still set a default dateFrom above if none was provided.)
-      const response = buildLocalInvoiceResponse(resolvedFilters, page, limit, sortBy, sortOrder, now);
+      const response = buildLocalInvoiceResponse(resolvedFilters, page, limit, sortBy, sortOrder, cursorParam, now);
       return NextResponse.json(response);
     }
 
@@ -86,116 +128,43 @@ export async function GET(request: NextRequest) {
       resolvedFilters.dateFrom = minClampDate;
     }
 
-    // New resilient fetching strategy: select('*') and filter/sort/paginate in-memory
-    const pick = (record: any, keys: string[], fallback?: any) => {
-      for (const k of keys) {
-        if (record[k] !== undefined && record[k] !== null) return record[k]
-      }
-      return fallback
+    // Vendor filters name canonical vendors; match every spelling they were seen under
+    resolvedFilters = await expandVendorFilters(resolvedFilters);
+
+    const pageQuery: InvoicePageQuery = {
+      filters: resolvedFilters,
+      sortBy,
+      sortOrder,
+      page,
+      limit,
+      cursor: cursorParam,
+      nowIso,
     }
 
-    const fetchAll = async (table: string) => {
-      return supabaseAdmin
-        .from(table)
-        .select('*')
-        .limit(5000)
-    }
-
-    let primaryRes = await fetchAll(primaryTable)
-    let supaError = primaryRes.error
-    let supaData: any[] = (primaryRes.data as any[]) || []
-    if (supaError) {
-      const fbRes = await fetchAll(fallbackTable)
-      supaError = fbRes.error
-      supaData = (fbRes.data as any[]) || []
-    }
-
-    if (supaError) {
+    let result: InvoiceListResult
+    try {
+      result = await listInvoices(pageQuery)
+    } catch (supaError) {
       console.warn('Supabase error in /api/invoices, falling back to mock data:', supaError)
-      const response = buildLocalInvoiceResponse(resolvedFilters, page, limit, sortBy, sortOrder, now)
+      const response = buildLocalInvoiceResponse(resolvedFilters, page, limit, sortBy, sortOrder, cursorParam, now)
       return NextResponse.json(response)
     }
 
-    // Map to internal shape
-    const normalizeStatus = (value: any): 'pending' | 'in_review' | 'approved' | 'paid' | 'overdue' | undefined => {
-      if (!value) return undefined
-      const raw = String(value).trim().toLowerCase()
-      if (raw === 'in review' || raw === 'in-review') return 'in_review'
-      if (raw === 'pending' || raw === 'open') return 'pending'
-      if (raw === 'approved') return 'approved'
-      if (raw === 'paid' || raw === 'complete' || raw === 'completed') return 'paid'
-      if (raw === 'overdue' || raw === 'late') return 'overdue'
-      return undefined
-    }
-
-    const mapped = supaData.map((row: any) => {
-      const amount = Number(pick(row, ['total', 'amount', 'total_amount', 'grand_total'], 0)) || 0
-      const amountDueRaw = pick(row, ['amount_due', 'due_amount', 'outstanding', 'balance_due'], null)
-      const amountDue = amountDueRaw == null ? amount : Number(amountDueRaw)
-
-      const dueDate = pick(row, ['due_date', 'dueDate', 'payment_due', 'payment_due_date'], null)
-      const receivedDate = pick(row, ['invoice_date', 'invoiceDate', 'received_date', 'receivedDate', 'created_at', 'createdAt'], null)
-      const issueDate = pick(row, ['invoice_date', 'invoiceDate'], null)
-      const effectiveIssueDate = issueDate || receivedDate
-      // Prefer DB-provided status when present; fall back to derived
-      const dbStatusRaw = row.status ?? row.payment_status ?? row.paymentStatus
-      const normalizedDbStatus = normalizeStatus(dbStatusRaw)
-      const status = normalizedDbStatus ?? deriveInvoiceStatus(amountDue, dueDate, effectiveIssueDate, now)
-
-      return {
-        id: row.id ?? pick(row, ['invoice_id', 'uuid'], ''),
-        invoiceNumber: pick(row, ['invoice_number', 'invoiceNumber', 'number'], ''),
-        vendorName: pick(row, ['supplier_name', 'vendor', 'vendor_name', 'supplier'], ''),
-        vendorEmail: pick(row, ['supplier_email', 'vendor_email', 'email'], '') || '',
-        amount,
-        amountDue,
-        issueDate,
-        dueDate,
-        status,
-        description: pick(row, ['line_1_desc', 'description', 'memo', 'details'], '') || '',
-        category: pick(row, ['category', 'category_name', 'type'], 'Uncategorized'),
-        paymentTerms: pick(row, ['payment_terms', 'terms'], 'Net 30'),
-        invoiceUrl: pick(row, ['file_url', 'source_url', 'url', 'link'], '') || '',
-        receivedDate,
-        paidDate: pick(row, ['paid_at', 'paidDate'], null),
-      }
-    })
-
-    // Apply filters and sort/paginate in-memory
-    const filtered = filterLocalInvoices(mapped as any, resolvedFilters, now)
-    const sorted = sortLocalInvoices(filtered as any, sortBy, sortOrder)
-    const start = page * limit
-    const end = start + limit
-    const paginated = sorted.slice(start, end)
-
-    const total = filtered.length
-    const pageCount = Math.ceil(total / limit) || 0
-    const totalAmount = filtered.reduce((sum, inv) => sum + (inv.total || inv.amount || 0), 0)
-
-    // Calculate status counts from all filtered invoices (not just current page)
-    const statusCounts = filtered.reduce(
-      (acc, inv) => {
-        const status = inv.status
-        if (status === 'pending') acc.pending++
-        else if (status === 'in_review') acc.in_review++
-        else if (status === 'approved') acc.approved++
-        else if (status === 'paid') acc.paid++
-        else if (status === 'overdue') acc.overdue++
-        return acc
-      },
-      { pending: 0, in_review: 0, approved: 0, paid: 0, overdue: 0 }
-    )
+    // A relevance-sorted search only pages through the rows it ranked
+    const pageableTotal = Math.min(result.total, result.rankedLimit ?? result.total)
 
     return NextResponse.json({
-      data: paginated,
+      data: result.invoices,
       pagination: {
-        total,
-        pageCount,
+        total: result.total,
+        pageCount: Math.ceil(pageableTotal / limit) || 0,
         pageSize: limit,
         pageIndex: page,
-        totalAmount,
+        totalAmount: result.totalAmount,
+        nextCursor: result.nextCursor,
+        rankedLimit: result.rankedLimit,
       },
-      statusCounts,
+      statusCounts: result.statusCounts,
     })
   } catch (error) {
     console.error('Failed to load invoices:', error);
@@ -206,17 +175,6 @@ export async function GET(request: NextRequest) {
   }
 }
 
-type NormalisedFilters = {
-  search: string
-  statuses: string[]
-  categories: string[]
-  vendors: string[]
-  dateFrom?: string
-  dateTo?: string
-  amountMin?: number
-  amountMax?: number
-}
-
 function parseNullableNumber(value: string | null): number | null {
   if (value === null || value.trim() === '') {
     return null
@@ -233,127 +191,20 @@ function normaliseStatusArray(values: string[]): string[] {
   return Array.from(new Set(values.map((value) => value.trim().toLowerCase()).filter(Boolean)))
 }
 
-async function loadSavedView(id: string): Promise<InvoiceFiltersState | undefined> {
+// Saved views resolve for the signed-in user only; views they cannot see are ignored
+async function loadSavedView(request: NextRequest, id: string): Promise<InvoiceFiltersState | undefined> {
   try {
-    const { data, error } = await supabaseAdmin
-      .from('invoice_saved_views')
-      .select('filters')
-      .eq('id', id)
-      .maybeSingle()
-
-    if (error) {
-      console.warn('Failed to load saved view', error)
-      return undefined
+    const authResult = await verifyAPIAuth(request);
+    if (!authResult.user) {
+      return undefined;
     }
 
-    if (!data?.filters) {
-      return undefined
-    }
-
-    return data.filters as InvoiceFiltersState
+    const savedView = await getSavedView(id, authResult.user);
+    return savedView?.filters ?? undefined;
   } catch (error) {
-    console.warn('Unexpected error retrieving saved view', error)
-    return undefined
-  }
-}
-
-function mergeSavedViewFilters(current: NormalisedFilters, savedView: InvoiceFiltersState): NormalisedFilters {
-  return {
-    search: current.search || savedView.search || '',
-    statuses: current.statuses.length ? current.statuses : normaliseStatusArray(savedView.statuses ?? []),
-    categories: current.categories.length ? current.categories : normaliseStringArray(savedView.categories ?? []),
-    vendors: current.vendors.length ? current.vendors : normaliseStringArray(savedView.vendors ?? []),
-    dateFrom: current.dateFrom ?? savedView.dateRange?.start ?? undefined,
-    dateTo: current.dateTo ?? savedView.dateRange?.end ?? undefined,
-    amountMin: current.amountMin ?? savedView.amountRange?.min ?? undefined,
-    amountMax: current.amountMax ?? savedView.amountRange?.max ?? undefined,
-  }
-}
-
-function applyFilters(query: any, filters: NormalisedFilters, nowIso: string) {
-  let next = query
-
-  if (filters.search) {
-    const escaped = filters.search.replace(/[\\%_]/g, (match) => `\\${match}`)
-    next = next.or(
-      `invoice_number.ilike.%${escaped}%,supplier_name.ilike.%${escaped}%,supplier_email.ilike.%${escaped}%,description.ilike.%${escaped}%`
-    )
-  }
-
-  if (filters.dateFrom) {
-    next = next.gte('invoice_date', filters.dateFrom)
-  }
-
-  if (filters.dateTo) {
-    next = next.lte('invoice_date', filters.dateTo)
-  }
-
-  if (filters.categories.length) {
-    next = next.in('category', filters.categories)
-  }
-
-  if (filters.vendors.length) {
-    next = next.in('supplier_name', filters.vendors)
-  }
-
-  if (typeof filters.amountMin === 'number') {
-    next = next.gte('total', filters.amountMin)
-  }
-
-  if (typeof filters.amountMax === 'number') {
-    next = next.lte('total', filters.amountMax)
-  }
-
-  if (filters.statuses.length > 0 && filters.statuses.length < 3) {
-    const conditions = buildStatusConditions(filters.statuses, nowIso)
-    if (conditions.length) {
-      next = next.or(conditions.join(','))
-    }
-  }
-
-  return next
-}
-
-function buildStatusConditions(statuses: string[], nowIso: string): string[] {
-  const result: string[] = []
-  const hasPending = statuses.includes('pending')
-  const hasPaid = statuses.includes('paid')
-  const hasOverdue = statuses.includes('overdue')
-
-  if (hasPaid) {
-    result.push('amount_due.eq.0')
-  }
-
-  if (hasOverdue) {
-    result.push(`and(amount_due.gt.0,due_date.not.is.null,due_date.lt.${nowIso})`)
-  }
-
-  if (hasPending) {
-    result.push(`and(or(amount_due.is.null,amount_due.gt.0),or(due_date.is.null,due_date.gte.${nowIso}))`)
+    console.warn('Unexpected error retrieving saved view', error);
+    return undefined;
   }
-
-  return result
-}
-
-function deriveInvoiceStatus(amountDue: unknown, dueDate: unknown, issueDate: unknown, now: Date): 'pending' | 'paid' | 'overdue' {
-  const cutoffDate = new Date('2025-05-01T00:00:00.000Z')
-  const issue = issueDate ? new Date(issueDate) : null
-
-  // If invoice issued before May 1st 2025, default to paid
-  if (issue && issue.getTime() < cutoffDate.getTime()) {
-    return 'paid'
-  }
-
-  // For invoices from May 1st onwards, check due date vs current date
-  const numericalAmount = typeof amountDue === 'number' ? amountDue : amountDue == null ? null : Number(amountDue)
-  if (numericalAmount === 0) return 'paid'
-
-  const dueDateValue = dueDate ? new Date(dueDate) : null
-  if (numericalAmount != null && numericalAmount > 0 && dueDateValue && dueDateValue.getTime() < now.getTime()) {
-    return 'overdue'
-  }
-
-  return 'pending'
 }
 
 function buildLocalInvoiceResponse(
@@ -362,49 +213,31 @@ function buildLocalInvoiceResponse(
   limit: number,
   sortBy: string,
   sortOrder: 'asc' | 'desc',
+  cursor: string | null,
   now: Date,
 ) {
-  const filtered = filterLocalInvoices(mockInvoiceData, filters, now)
-  const sorted = sortLocalInvoices(filtered, sortBy, sortOrder)
-  const start = page * limit
+  const filtered = filterInvoiceRecords(localInvoiceRecords(now), filters)
+  const matches = matchInvoiceRecords(filtered, filters)
+  const ranked = sortBy === RELEVANCE_SORT
+  const sorted = ranked
+    ? sortByRank(filtered, (invoice) => matches.get(invoice.id)?.rank)
+    : sortInvoiceRecords(filtered, sortBy, sortOrder)
+  // As in the database, a cursor continues after the row it names and `page` is ignored
+  const after = cursor && !ranked ? decodeInvoiceCursor(cursor) : null
+  const start = after ? sorted.findIndex((invoice) => invoice.id === after.id) + 1 : page * limit
   const end = start + limit
-  const paginated = sorted.slice(start, end)
-
-  const data = paginated.map((invoice) => ({
-    id: invoice.id,
-    invoiceNumber: invoice.invoiceNumber,
-    vendorName: invoice.vendorName,
-    vendorEmail: invoice.vendorEmail ?? '',
-    amount: invoice.amount ?? 0,
-    amountDue: invoice.amountDue ?? invoice.amount ?? 0,
-    issueDate: invoice.issueDate ?? null,
-    dueDate: invoice.dueDate ?? null,
-    status: deriveInvoiceStatus(invoice.amountDue ?? invoice.amount ?? 0, invoice.dueDate, invoice.issueDate ?? invoice.receivedDate, now),
-    description: invoice.description ?? '',
-    category: invoice.category ?? 'Uncategorized',
-    paymentTerms: invoice.paymentTerms ?? 'Net 30',
-    invoiceUrl: invoice.invoiceUrl ?? '',
-    receivedDate: invoice.receivedDate ?? invoice.issueDate ?? now.toISOString(),
-    paidDate: invoice.paidDate ?? null,
-  }))
+  const data = sorted.slice(start, end).map((invoice) => withSearchMatch(invoice, matches))
+  const lastInvoice = sorted[end - 1]
 
   const total = filtered.length
   const pageCount = Math.ceil(total / limit) || 0
-  const totalAmount = filtered.reduce((sum, inv) => sum + (inv.amount || 0), 0)
+  const totalAmount = filtered.reduce((sum, inv) => sum + (inv.duplicateOfId ? 0 : inv.amount), 0)
 
   // Calculate status counts from all filtered invoices (not just current page)
-  const statusCounts = filtered.reduce(
-    (acc, inv) => {
-      const status = deriveInvoiceStatus(inv.amountDue ?? inv.amount ?? 0, inv.dueDate, inv.issueDate ?? inv.receivedDate, now)
-      if (status === 'pending') acc.pending++
-      else if (status === 'in_review') acc.in_review++
-      else if (status === 'approved') acc.approved++
-      else if (status === 'paid') acc.paid++
-      else if (status === 'overdue') acc.overdue++
-      return acc
-    },
-    { pending: 0, in_review: 0, approved: 0, paid: 0, overdue: 0 }
-  )
+  const statusCounts = filtered.reduce((acc, inv) => {
+    if (inv.documentType === 'invoice') acc[inv.status]++
+    return acc
+  }, emptyStatusCounts())
 
   return {
     data,
@@ -414,146 +247,130 @@ function buildLocalInvoiceResponse(
       pageSize: limit,
       pageIndex: page,
       totalAmount,
+      nextCursor: !ranked && end < sorted.length && lastInvoice ? encodeInvoiceCursor(lastInvoice, 'id') : null,
     },
     statusCounts,
   }
 }
 
-function filterLocalInvoices(invoices: typeof mockInvoiceData, filters: NormalisedFilters, now: Date) {
-  return invoices.filter((invoice) => {
-    if (filters.search) {
-      const haystack = [
-        invoice.invoiceNumber,
-        invoice.vendorName,
-        invoice.description,
-        invoice.category,
-      ]
-        .filter(Boolean)
-        .join(' ') 
-        .toLowerCase()
-
-      if (!haystack.includes(filters.search.toLowerCase())) {
-        return false
-      }
-    }
+// Map a validated create payload onto the repository record shape
+function toInvoiceRecord(payload: InvoiceCreate): Partial<InvoiceRecord> {
+  const status = normalizeInvoiceStatus(payload.payment_status) ?? 'pending';
+  const amountDue = payload.amount_due ?? payload.total;
 
-    if (filters.statuses.length) {
-      // Use the invoice's already-assigned status to match statusCounts logic
-      // For Supabase data, invoice.status was assigned during mapping (line 143)
-      // For mock data, status will be derived by buildLocalInvoiceResponse (line 380)
-      const status = invoice.status
-        ? (typeof invoice.status === 'string' ? invoice.status.toLowerCase() : invoice.status)
-        : deriveInvoiceStatus(invoice.amountDue ?? invoice.amount ?? 0, invoice.dueDate, invoice.issueDate ?? invoice.receivedDate, now)
-      if (!filters.statuses.includes(status)) {
-        return false
-      }
-    }
-
-    if (filters.categories.length) {
-      const category = (invoice.category ?? '').toLowerCase()
-      if (!filters.categories.some((value) => category === value.toLowerCase())) {
-        return false
-      }
-    }
-
-    if (filters.vendors.length) {
-      const vendor = (invoice.vendorName ?? '').toLowerCase()
-      if (!filters.vendors.some((value) => vendor === value.toLowerCase())) {
-        return false
-      }
-    }
+  return {
+    invoiceNumber: payload.invoice_number.trim(),
+    vendorName: payload.supplier_name.trim(),
+    vendorEmail: payload.supplier_email ?? payload.from_email,
+    vendorAbn: payload.supplier_abn?.replace(/\s/g, ''),
+    amount: payload.total,
+    subtotal: payload.subtotal,
+    gst: payload.gst_total,
+    amountDue,
+    issueDate: payload.invoice_date ?? payload.received_date,
+    dueDate: payload.due_date,
+    status,
+    description: payload.description,
+    category: payload.category,
+    invoiceUrl: payload.file_url ?? payload.onedrive_link ?? payload.xero_link,
+    notes: payload.notes ?? payload.payment_notes,
+    source: 'manual',
+    fileChecksum: payload.file_checksum,
+  };
+}
 
-    if (filters.dateFrom || filters.dateTo) {
-      const created = invoice.issueDate ?? invoice.receivedDate
-      if (!created) return false
-      const createdDate = new Date(created)
+// Create an invoice by hand (e.g. paper bills that skip the n8n pipeline)
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request);
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
 
-      if (filters.dateFrom && createdDate < new Date(filters.dateFrom)) {
-        return false
-      }
+  const user = authResult.user!;
 
-      if (filters.dateTo && createdDate > new Date(filters.dateTo)) {
-        return false
-      }
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { code: 'INVALID_BODY', message: 'Invoice payload is required' },
+        { status: 400 }
+      );
     }
 
-    if (typeof filters.amountMin === 'number' && (invoice.amount ?? 0) < filters.amountMin) {
-      return false
+    const parsed = invoiceCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid invoice',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      );
     }
 
-    if (typeof filters.amountMax === 'number' && (invoice.amount ?? 0) > filters.amountMax) {
-      return false
+    let record: Partial<InvoiceRecord> = { ...toInvoiceRecord(parsed.data), uploadedByUserId: user.id };
+
+    // Link the supplier to its vendor and take the vendor's defaults
+    const vendorMatch = await matchOrCreateVendor({
+      name: record.vendorName!,
+      email: record.vendorEmail,
+      abn: record.vendorAbn,
+    }).catch((error) => {
+      console.error('Vendor matching failed:', error);
+      return null;
+    });
+    if (vendorMatch) {
+      record = applyVendorDefaults(record, vendorMatch.vendor);
     }
 
-    return true
-  })
-}
-
-function sortLocalInvoices(
-  invoices: typeof mockInvoiceData,
-  sortBy: string,
-  sortOrder: 'asc' | 'desc',
-) {
-  const factor = sortOrder === 'asc' ? 1 : -1
-  const key = sortBy
-
-  const sorted = [...invoices].sort((a, b) => {
-    switch (key) {
-      case 'created_at':
-        return factor * compareDate(a.receivedDate ?? a.issueDate, b.receivedDate ?? b.issueDate)
-      case 'invoice_number':
-        return factor * compareString(a.invoiceNumber, b.invoiceNumber)
-      case 'supplier_name':
-        return factor * compareString(a.vendorName, b.vendorName)
-      case 'total':
-        return factor * compareNumber(a.amount ?? 0, b.amount ?? 0)
-      case 'due_date':
-        return factor * compareDate(a.dueDate, b.dueDate)
-      case 'invoice_date':
-        return factor * compareDate(a.issueDate, b.issueDate)
-      case 'category':
-        return factor * compareString(a.category, b.category)
-      default:
-        return 0
+    // Likely duplicates are reported back so the user can confirm before saving
+    const duplicates = await findDuplicateInvoices({
+      vendorName: record.vendorName!,
+      invoiceNumber: record.invoiceNumber!,
+      fileChecksum: record.fileChecksum,
+    });
+
+    if (duplicates.length > 0 && body.confirmDuplicate !== true) {
+      return NextResponse.json(
+        {
+          code: 'DUPLICATE_INVOICE',
+          message: `Possible duplicate of ${duplicates.length} existing invoice${duplicates.length === 1 ? '' : 's'}`,
+          duplicates,
+        },
+        { status: 409 }
+      );
     }
-  })
-
-  return sorted
-}
-
-function compareString(a?: string | null, b?: string | null) {
-  return (a ?? '').localeCompare(b ?? '')
-}
 
-function compareNumber(a: number, b: number) {
-  return a - b
-}
-
-function compareDate(a?: string | null, b?: string | null) {
-  const dateA = a ? new Date(a).getTime() : 0
-  const dateB = b ? new Date(b).getTime() : 0
-  return dateA - dateB
-}
+    const created = await createInvoice(record);
+
+    // Fuzzier matches (e.g. the postal copy of an emailed bill) go to the review queue
+    const queuedDuplicates = await detectDuplicatesFor(created.invoice).catch((error) => {
+      console.error('Duplicate detection failed:', error);
+      return [];
+    });
+
+    const auditLog = await writeInvoiceAudit(request, user, {
+      entityId: created.invoice.id,
+      action: 'CREATE',
+      changes: {
+        invoice_id: created.invoice.id,
+        values: created.row,
+        confirmed_duplicates: duplicates.map((duplicate) => duplicate.invoice.id),
+      },
+    });
 
-// Create new invoice (for testing)
-export async function POST(request: NextRequest) {
-  try {
-    const invoice = await request.json();
-    
-    // Add timestamp and generate ID
-    const newInvoice = {
-      ...invoice,
-      id: `inv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      createdAt: new Date().toISOString(),
-    };
-    
-    // For now, echo back. Implement Supabase insert if needed.
-    return NextResponse.json(newInvoice, { status: 201 });
-    
+    return NextResponse.json(
+      { success: true, invoice: created.invoice, duplicates, queuedDuplicates, auditLog },
+      { status: 201 }
+    );
   } catch (error) {
     console.error('Failed to create invoice:', error);
     return NextResponse.json(
-      { error: 'Failed to create invoice' },
+      { code: 'SERVER_ERROR', message: 'Failed to create invoice' },
       { status: 500 }
     );
   }
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { isSupabaseConfigured } from '@/lib/server/env'
+import { savedViewDuplicateSchema } from '@/lib/schemas/api'
+import { duplicateSavedView } from '@/lib/server/saved-views'
+
+// POST /api/invoices/saved-views/[id]/duplicate - Copy a view into a private view of the caller's
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
+  }
+
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const parsed = savedViewDuplicateSchema.safeParse(body ?? {})
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid saved view name',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await duplicateSavedView(id, authResult.user!, parsed.data.name)
+    if (result.outcome === 'not_found') {
+      return NextResponse.json({ code: 'NOT_FOUND', message: 'Saved view not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(result.view, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error duplicating saved view', error)
+    return NextResponse.json({ code: 'SERVER_ERROR', message: 'Failed to duplicate saved view' }, { status: 500 })
+  }
+}
@@ -1,81 +1,79 @@
 import { NextRequest, NextResponse } from 'next/server'
 
+import { verifyAPIAuth } from '@/lib/server/auth'
 import { isSupabaseConfigured } from '@/lib/server/env'
-import { supabaseAdmin } from '@/lib/server/supabase-admin'
+import { savedViewUpdateSchema } from '@/lib/schemas/api'
+import { deleteSavedView, updateSavedView, type SavedViewChangeResult } from '@/lib/server/saved-views'
 import type { InvoiceFiltersState } from '@/types/invoice-filters'
-import { serializeInvoiceFilters } from '@/types/invoice-filters'
 
-const FALLBACK_USER_ID = '00000000-0000-0000-0000-000000000000'
+type SavedViewRouteParams = { params: Promise<{ id: string }> }
 
-export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+function unauthorized(error: string) {
+  return NextResponse.json(
+    { error, code: 'UNAUTHORIZED' },
+    { status: 401 }
+  )
+}
+
+function changeFailure(result: Exclude<SavedViewChangeResult, { outcome: 'updated' }>) {
+  if (result.outcome === 'forbidden') {
+    return NextResponse.json({ code: 'FORBIDDEN', message: result.message }, { status: 403 })
+  }
+  return NextResponse.json({ code: 'NOT_FOUND', message: 'Saved view not found' }, { status: 404 })
+}
+
+// PATCH /api/invoices/saved-views/[id] - Rename, change filters, sharing or default
+export async function PATCH(request: NextRequest, { params }: SavedViewRouteParams) {
   if (!isSupabaseConfigured()) {
     return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
   }
 
-  const userId = resolveUserId(request)
-  const { id } = await params
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) return unauthorized(authResult.error)
 
   try {
-    const body = await request.json()
-    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() }
-
-    if (typeof body?.name === 'string' && body.name.trim()) {
-      updates.name = body.name.trim()
-    }
-
-    if (body?.filters && typeof body.filters === 'object') {
-      updates.filters = serializeInvoiceFilters(body.filters as InvoiceFiltersState)
-    }
-
-    if (typeof body?.isDefault === 'boolean' && body.isDefault) {
-      await supabaseAdmin
-        .from('invoice_saved_views')
-        .update({ is_default: false })
-        .eq('user_id', userId)
-      updates.is_default = true
-    } else if (typeof body?.isDefault === 'boolean') {
-      updates.is_default = body.isDefault
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const parsed = savedViewUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid saved view',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
     }
 
-    const { data, error } = await supabaseAdmin
-      .from('invoice_saved_views')
-      .update(updates)
-      .eq('id', id)
-      .eq('user_id', userId)
-      .select('*')
-      .single()
+    const { filters, ...changes } = parsed.data
+    const result = await updateSavedView(
+      id,
+      { ...changes, filters: filters as unknown as InvoiceFiltersState | undefined },
+      authResult.user!
+    )
+    if (result.outcome !== 'updated') return changeFailure(result)
 
-    if (error) {
-      console.error('Failed to update saved view', error)
-      return NextResponse.json({ code: 'UPDATE_FAILED', message: 'Unable to update saved view' }, { status: 500 })
-    }
-
-    return NextResponse.json(mapSavedViewRow(data))
+    return NextResponse.json(result.view)
   } catch (error) {
     console.error('Unexpected error updating saved view', error)
     return NextResponse.json({ code: 'SERVER_ERROR', message: 'Failed to update saved view' }, { status: 500 })
   }
 }
 
-export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+// DELETE /api/invoices/saved-views/[id] - Delete a view (owner, or an admin for shared views)
+export async function DELETE(request: NextRequest, { params }: SavedViewRouteParams) {
   if (!isSupabaseConfigured()) {
     return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
   }
 
-  const userId = resolveUserId(request)
-  const { id } = await params
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) return unauthorized(authResult.error)
 
   try {
-    const { error } = await supabaseAdmin
-      .from('invoice_saved_views')
-      .delete()
-      .eq('id', id)
-      .eq('user_id', userId)
-
-    if (error) {
-      console.error('Failed to delete saved view', error)
-      return NextResponse.json({ code: 'DELETE_FAILED', message: 'Unable to delete saved view' }, { status: 500 })
-    }
+    const { id } = await params
+    const result = await deleteSavedView(id, authResult.user!)
+    if (result.outcome !== 'deleted') return changeFailure(result)
 
     return NextResponse.json({ success: true })
   } catch (error) {
@@ -83,23 +81,3 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
     return NextResponse.json({ code: 'SERVER_ERROR', message: 'Failed to delete saved view' }, { status: 500 })
   }
 }
-
-function resolveUserId(request: NextRequest): string {
-  return (
-    request.headers.get('x-rpd-user-id') ||
-    request.headers.get('x-user-id') ||
-    process.env.SUPABASE_DEFAULT_USER_ID ||
-    FALLBACK_USER_ID
-  )
-}
-
-function mapSavedViewRow(row: any) {
-  return {
-    id: row.id,
-    name: row.name,
-    filters: row.filters as InvoiceFiltersState,
-    isDefault: Boolean(row.is_default),
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-  }
-}
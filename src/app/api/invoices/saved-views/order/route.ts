@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { isSupabaseConfigured } from '@/lib/server/env'
+import { savedViewOrderSchema } from '@/lib/schemas/api'
+import { reorderSavedViews } from '@/lib/server/saved-views'
+
+// PUT /api/invoices/saved-views/order - Arrange the caller's own views
+export async function PUT(request: NextRequest) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
+  }
+
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = savedViewOrderSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid view order',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    await reorderSavedViews(parsed.data.ids, authResult.user!)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unexpected error reordering saved views', error)
+    return NextResponse.json({ code: 'SERVER_ERROR', message: 'Failed to reorder saved views' }, { status: 500 })
+  }
+}
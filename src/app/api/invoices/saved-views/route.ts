@@ -1,108 +1,72 @@
 import { NextRequest, NextResponse } from 'next/server'
 
+import { verifyAPIAuth } from '@/lib/server/auth'
 import { isSupabaseConfigured } from '@/lib/server/env'
-import { supabaseAdmin } from '@/lib/server/supabase-admin'
+import { savedViewCreateSchema } from '@/lib/schemas/api'
+import { createSavedView, listSavedViews } from '@/lib/server/saved-views'
 import type { InvoiceFiltersState } from '@/types/invoice-filters'
-import { serializeInvoiceFilters } from '@/types/invoice-filters'
 
-const FALLBACK_USER_ID = '00000000-0000-0000-0000-000000000000'
+function unauthorized(error: string) {
+  return NextResponse.json(
+    { error, code: 'UNAUTHORIZED' },
+    { status: 401 }
+  )
+}
 
+// GET /api/invoices/saved-views - The caller's views and those shared with them
 export async function GET(request: NextRequest) {
   if (!isSupabaseConfigured()) {
-    return NextResponse.json({ views: [] })
+    return NextResponse.json({ views: [], defaultViewId: null })
   }
 
-  const userId = resolveUserId(request)
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) return unauthorized(authResult.error)
 
   try {
-    const { data, error } = await supabaseAdmin
-      .from('invoice_saved_views')
-      .select('*')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-
-    if (error) {
-      console.warn('Failed to load saved views', error)
-      return NextResponse.json({ views: [] })
-    }
-
-    const views = (data ?? []).map(mapSavedViewRow)
-    return NextResponse.json({ views })
+    return NextResponse.json(await listSavedViews(authResult.user!))
   } catch (error) {
     console.error('Unexpected error loading saved views', error)
-    return NextResponse.json({ views: [] }, { status: 500 })
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Failed to load saved views' },
+      { status: 500 }
+    )
   }
 }
 
+// POST /api/invoices/saved-views - Save the current filters as a view
 export async function POST(request: NextRequest) {
   if (!isSupabaseConfigured()) {
     return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
   }
 
-  const userId = resolveUserId(request)
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) return unauthorized(authResult.error)
 
   try {
-    const body = await request.json()
-    const name: string | undefined = body?.name
-    const filters: InvoiceFiltersState | undefined = body?.filters
-    const isDefault: boolean = Boolean(body?.isDefault)
-
-    if (!name || typeof name !== 'string') {
-      return NextResponse.json({ code: 'INVALID_BODY', message: 'name is required' }, { status: 400 })
-    }
-
-    if (!filters || typeof filters !== 'object') {
-      return NextResponse.json({ code: 'INVALID_BODY', message: 'filters payload is required' }, { status: 400 })
-    }
-
-    if (isDefault) {
-      await supabaseAdmin
-        .from('invoice_saved_views')
-        .update({ is_default: false })
-        .eq('user_id', userId)
+    const body = await request.json().catch(() => null)
+    const parsed = savedViewCreateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid saved view',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
     }
 
-    const payload = {
-      user_id: userId,
-      name: name.trim(),
-      filters: serializeInvoiceFilters(filters),
-      is_default: isDefault,
+    const result = await createSavedView(
+      { ...parsed.data, filters: parsed.data.filters as unknown as InvoiceFiltersState },
+      authResult.user!
+    )
+    if (result.outcome === 'forbidden') {
+      return NextResponse.json({ code: 'FORBIDDEN', message: result.message }, { status: 403 })
     }
 
-    const { data, error } = await supabaseAdmin
-      .from('invoice_saved_views')
-      .insert(payload)
-      .select('*')
-      .single()
-
-    if (error) {
-      console.error('Failed to create saved view', error)
-      return NextResponse.json({ code: 'CREATE_FAILED', message: 'Unable to create saved view' }, { status: 500 })
-    }
-
-    return NextResponse.json(mapSavedViewRow(data), { status: 201 })
+    return NextResponse.json(result.view, { status: 201 })
   } catch (error) {
     console.error('Unexpected error creating saved view', error)
     return NextResponse.json({ code: 'SERVER_ERROR', message: 'Failed to create saved view' }, { status: 500 })
   }
 }
-
-function resolveUserId(request: NextRequest): string {
-  return (
-    request.headers.get('x-rpd-user-id') ||
-    request.headers.get('x-user-id') ||
-    process.env.SUPABASE_DEFAULT_USER_ID ||
-    FALLBACK_USER_ID
-  )
-}
-
-function mapSavedViewRow(row: any) {
-  return {
-    id: row.id,
-    name: row.name,
-    filters: row.filters as InvoiceFiltersState,
-    isDefault: Boolean(row.is_default),
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-  }
-}
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { invoiceBulkStatusUpdateSchema } from '@/lib/schemas/api'
+import { changeInvoiceStatus, type StatusChangeResult } from '@/lib/server/invoice-status'
+import type { StatusGuardResult } from '@/lib/invoice-status-machine'
+import { writeInvoiceAuditEntries, type InvoiceAuditEntry } from '@/lib/server/invoice-audit'
+
+// Invoices processed concurrently; keeps a large payment run from flooding the database
+const BULK_CONCURRENCY = 10
+
+interface BulkStatusItemResult {
+  id: string
+  invoiceId?: string
+  invoiceNumber?: string
+  success: boolean
+  previousStatus?: string
+  status?: string
+  code?: 'UPDATED' | 'UNCHANGED' | 'APPROVAL_RECORDED' | 'NOT_FOUND' | 'INVALID_TRANSITION' | 'CONFLICT' | 'UPDATE_FAILED'
+  message?: string
+  allowedTransitions?: string[]
+  guards?: StatusGuardResult[]
+}
+
+function toItemResult(id: string, change: StatusChangeResult): BulkStatusItemResult {
+  switch (change.outcome) {
+    case 'not_found':
+      return { id, success: false, code: 'NOT_FOUND', message: 'Invoice not found' }
+    case 'invalid_transition':
+      return {
+        id,
+        invoiceId: change.invoice.id,
+        invoiceNumber: change.invoice.invoiceNumber,
+        success: false,
+        previousStatus: change.previousStatus,
+        status: change.previousStatus,
+        code: 'INVALID_TRANSITION',
+        message: change.message,
+        allowedTransitions: change.allowedTransitions,
+        guards: change.guards,
+      }
+    case 'conflict':
+      return { id, success: false, code: 'CONFLICT', message: change.message }
+    case 'approval_recorded':
+      return {
+        id,
+        invoiceId: change.invoice.id,
+        invoiceNumber: change.invoice.invoiceNumber,
+        success: true,
+        previousStatus: change.previousStatus,
+        status: change.invoice.status,
+        code: 'APPROVAL_RECORDED',
+        message: `Approval recorded; ${change.progress.remaining} more needed`,
+      }
+    default:
+      return {
+        id,
+        invoiceId: change.invoice.id,
+        invoiceNumber: change.invoice.invoiceNumber,
+        success: true,
+        previousStatus: change.previousStatus,
+        status: change.invoice.status,
+        code: change.outcome === 'updated' ? 'UPDATED' : 'UNCHANGED',
+      }
+  }
+}
+
+// PATCH /api/invoices/status - Update the status of many invoices at once
+export async function PATCH(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = invoiceBulkStatusUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request body',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const { status: newStatus, paymentDate, paymentReference } = parsed.data
+    const actor = { id: user.id, email: user.email, role: user.role }
+    const ids = Array.from(new Set(parsed.data.ids.map((id) => id.trim()).filter(Boolean)))
+    const batchId = randomUUID()
+
+    const results: BulkStatusItemResult[] = []
+    for (let offset = 0; offset < ids.length; offset += BULK_CONCURRENCY) {
+      const chunk = ids.slice(offset, offset + BULK_CONCURRENCY)
+      const chunkResults = await Promise.all(
+        chunk.map(async (id) => {
+          try {
+            return toItemResult(id, await changeInvoiceStatus(id, newStatus, actor, { paymentDate, paymentReference }))
+          } catch (error) {
+            console.error('Bulk status update failed for invoice:', { id, error })
+            return { id, success: false, code: 'UPDATE_FAILED', message: 'Failed to update invoice status' } as BulkStatusItemResult
+          }
+        })
+      )
+      results.push(...chunkResults)
+    }
+
+    const updated = results.filter((result) => result.code === 'UPDATED')
+    const approvalsRecorded = results.filter((result) => result.code === 'APPROVAL_RECORDED')
+
+    // One audit row per changed invoice, keyed by its UUID rather than the id or number sent, plus a batch summary sharing the batch id
+    const auditEntries: InvoiceAuditEntry[] = [
+      ...updated.map((result) => ({
+        entityId: result.invoiceId!,
+        action: 'STATUS_CHANGE',
+        changes: {
+          old_status: result.previousStatus,
+          new_status: newStatus,
+          batch_id: batchId,
+          ...(newStatus === 'paid' && { payment_date: paymentDate, payment_reference: paymentReference }),
+        },
+      })),
+      ...approvalsRecorded.map((result) => ({
+        entityId: result.invoiceId!,
+        action: 'APPROVAL_RECORDED',
+        changes: { old_status: result.previousStatus, new_status: result.status, batch_id: batchId },
+      })),
+    ]
+
+    if (auditEntries.length > 0) {
+      auditEntries.push({
+        entityType: 'invoice_batch',
+        entityId: batchId,
+        action: 'BULK_STATUS_CHANGE',
+        changes: {
+          batch_id: batchId,
+          new_status: newStatus,
+          requested: ids.length,
+          updated: updated.map((result) => result.invoiceNumber || result.id),
+          failed: results.filter((result) => !result.success).map((result) => result.id),
+        },
+      })
+    }
+
+    const auditLog = await writeInvoiceAuditEntries(request, user, auditEntries)
+
+    return NextResponse.json({
+      success: results.every((result) => result.success),
+      batchId,
+      status: newStatus,
+      results,
+      summary: {
+        requested: ids.length,
+        updated: updated.length,
+        unchanged: results.filter((result) => result.code === 'UNCHANGED').length,
+        approvalsRecorded: approvalsRecorded.length,
+        failed: results.filter((result) => !result.success).length,
+      },
+      audited: auditLog !== null,
+    })
+  } catch (error) {
+    console.error('Bulk status update error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { getInvoiceTransitions, type InvoiceTransitions } from '@/lib/server/invoice-status'
+
+// Matches the bulk status endpoint limit so a whole selection can be checked at once
+const MAX_IDS = 500
+const LOOKUP_CONCURRENCY = 10
+
+// GET /api/invoices/transitions?ids=a,b - Next statuses for several invoices (kanban multi-drag)
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+  const actor = { id: user.id, role: user.role }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const ids = Array.from(
+      new Set(
+        searchParams
+          .getAll('ids')
+          .flatMap((value) => value.split(','))
+          .map((id) => id.trim())
+          .filter(Boolean)
+      )
+    )
+
+    if (ids.length === 0 || ids.length > MAX_IDS) {
+      return NextResponse.json(
+        { code: 'VALIDATION_ERROR', message: `Provide between 1 and ${MAX_IDS} invoice ids` },
+        { status: 400 }
+      )
+    }
+
+    const invoices: InvoiceTransitions[] = []
+    const notFound: string[] = []
+    for (let offset = 0; offset < ids.length; offset += LOOKUP_CONCURRENCY) {
+      const chunk = ids.slice(offset, offset + LOOKUP_CONCURRENCY)
+      const results = await Promise.all(chunk.map((id) => getInvoiceTransitions(id, actor)))
+      results.forEach((result, index) => {
+        if (result) invoices.push(result)
+        else notFound.push(chunk[index])
+      })
+    }
+
+    return NextResponse.json({ invoices, notFound })
+  } catch (error) {
+    console.error('Status transitions error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
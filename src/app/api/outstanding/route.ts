@@ -1,20 +1,81 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { verifyAPIAuth } from '@/lib/server/auth';
+import { scanInvoicesOrLocal } from '@/lib/server/invoice-repository';
+import { canonicalVendor, parsePayablesFilters } from '@/lib/server/payables-filters';
+import { generateAgingCsv, type AgingCsvGrouping } from '@/lib/csv-export';
+import { buildAgingReport } from '@/lib/payables-aging';
 
-// Temporary stub to fix Prisma build error
-async function getOutstandingHandler(request: NextRequest) {
-  return NextResponse.json({
-    outstanding: [],
-    summary: {
-      totalOutstanding: 0,
-      totalCount: 0,
-      overdueCount: 0,
-      largestInvoice: 0,
-    },
-    metadata: {
-      generatedAt: new Date().toISOString(),
-      dateRange: { from: null, to: null }
+const CSV_GROUPINGS: AgingCsvGrouping[] = ['invoice', 'vendor', 'category'];
+
+// GET /api/outstanding - Aged payables: outstanding invoices by days past due, per vendor and category
+// Accepts the dashboard filters (dateFrom, dateTo, status, category, vendor, amountMin, amountMax);
+// ?format=csv&groupBy=invoice|vendor|category downloads the report instead
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request);
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const url = new URL(request.url);
+    const groupByParam = url.searchParams.get('groupBy') ?? 'invoice';
+    const groupBy = CSV_GROUPINGS.find((grouping) => grouping === groupByParam);
+    if (!groupBy) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: `groupBy must be one of ${CSV_GROUPINGS.join(', ')}`,
+          errors: [{ path: ['groupBy'], message: 'Invalid grouping' }],
+        },
+        { status: 400 }
+      );
     }
-  });
-}
 
-export const GET = getOutstandingHandler;
\ No newline at end of file
+    const now = new Date();
+    const { filters, excludesOutstanding, vendorIndex } = await parsePayablesFilters(url.searchParams);
+    const invoices = excludesOutstanding ? [] : await scanInvoicesOrLocal(filters, now);
+
+    const report = buildAgingReport(
+      invoices
+        .filter((invoice) => !invoice.duplicateOfId && invoice.status !== 'paid')
+        .map((invoice) => ({
+          id: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          ...canonicalVendor(invoice, vendorIndex),
+          category: invoice.category,
+          dueDate: invoice.dueDate,
+          amountDue: invoice.amountDue,
+        })),
+      now
+    );
+
+    if (url.searchParams.get('format') === 'csv') {
+      const filename = `aged-payables-${groupBy}-${now.toISOString().split('T')[0]}.csv`;
+      return new NextResponse(generateAgingCsv(report, groupBy), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'no-cache',
+        },
+      });
+    }
+
+    return NextResponse.json({
+      ...report,
+      metadata: {
+        generatedAt: now.toISOString(),
+        dateRange: { from: filters.dateFrom ?? null, to: filters.dateTo ?? null },
+      },
+    });
+  } catch (error) {
+    console.error('Outstanding report error:', error);
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
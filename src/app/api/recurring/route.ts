@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAPIAuth } from '@/lib/server/auth';
+import { getRecurringInsights } from '@/lib/server/billing-cadences';
+import { normaliseInvoiceFilters } from '@/lib/server/invoice-query';
+import { scanInvoicesOrLocal } from '@/lib/server/invoice-repository';
+import { parsePayablesFilters } from '@/lib/server/payables-filters';
+
+// GET /api/recurring - Recurring vendors' billing cadence, bills expected but not received,
+// and recent bills far from the vendor's usual amount. Accepts the dashboard category and vendor filters.
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request);
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const url = new URL(request.url);
+    const now = new Date();
+    const { filters, vendorIndex } = await parsePayablesFilters(url.searchParams);
+
+    // Cadences are learned from the vendor's whole history, not just the filtered period or statuses
+    const history = await scanInvoicesOrLocal(
+      normaliseInvoiceFilters({ categories: filters.categories, vendors: filters.vendors }),
+      now
+    );
+
+    return NextResponse.json({
+      ...getRecurringInsights(history, vendorIndex, now),
+      metadata: { generatedAt: now.toISOString() },
+    });
+  } catch (error) {
+    console.error('Recurring invoices error:', error);
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { isSupabaseConfigured } from '@/lib/server/env'
+import { reportBaseUrl, runDueReports } from '@/lib/server/report-schedules'
+
+// GET /api/reports/run - Send due reports and retries (Vercel cron, every 15 minutes)
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Invalid cron secret', code: 'UNAUTHORIZED' }, { status: 401 })
+  }
+
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
+  }
+
+  try {
+    return NextResponse.json(await runDueReports({ baseUrl: reportBaseUrl(request.url) }))
+  } catch (error) {
+    console.error('Unexpected error running scheduled reports', error)
+    return NextResponse.json({ code: 'SERVER_ERROR', message: 'Failed to run scheduled reports' }, { status: 500 })
+  }
+}
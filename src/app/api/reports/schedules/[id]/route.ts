@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { isSupabaseConfigured } from '@/lib/server/env'
+import { reportScheduleUpdateSchema } from '@/lib/schemas/api'
+import {
+  deleteReportSchedule,
+  getReportSchedule,
+  listReportDeliveries,
+  updateReportSchedule,
+} from '@/lib/server/report-schedules'
+
+type ReportScheduleRouteParams = { params: Promise<{ id: string }> }
+
+function unauthorized(error: string) {
+  return NextResponse.json(
+    { error, code: 'UNAUTHORIZED' },
+    { status: 401 }
+  )
+}
+
+function notFound() {
+  return NextResponse.json({ code: 'NOT_FOUND', message: 'Report schedule not found' }, { status: 404 })
+}
+
+// GET /api/reports/schedules/[id] - A schedule with its recent delivery history
+export async function GET(request: NextRequest, { params }: ReportScheduleRouteParams) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
+  }
+
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) return unauthorized(authResult.error)
+
+  try {
+    const { id } = await params
+    const schedule = await getReportSchedule(id, authResult.user!)
+    if (!schedule) return notFound()
+
+    const deliveries = await listReportDeliveries(id, authResult.user!)
+    return NextResponse.json({ schedule, deliveries: deliveries ?? [] })
+  } catch (error) {
+    console.error('Unexpected error loading report schedule', error)
+    return NextResponse.json({ code: 'SERVER_ERROR', message: 'Failed to load report schedule' }, { status: 500 })
+  }
+}
+
+// PATCH /api/reports/schedules/[id] - Change timing, format or recipients; pause or resume
+export async function PATCH(request: NextRequest, { params }: ReportScheduleRouteParams) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
+  }
+
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) return unauthorized(authResult.error)
+
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const parsed = reportScheduleUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid report schedule',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await updateReportSchedule(id, parsed.data, authResult.user!)
+    if (result.outcome !== 'updated') return notFound()
+
+    return NextResponse.json(result.schedule)
+  } catch (error) {
+    console.error('Unexpected error updating report schedule', error)
+    return NextResponse.json({ code: 'SERVER_ERROR', message: 'Failed to update report schedule' }, { status: 500 })
+  }
+}
+
+// DELETE /api/reports/schedules/[id] - Stop and remove a schedule and its history
+export async function DELETE(request: NextRequest, { params }: ReportScheduleRouteParams) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
+  }
+
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) return unauthorized(authResult.error)
+
+  try {
+    const { id } = await params
+    const result = await deleteReportSchedule(id, authResult.user!)
+    if (result.outcome !== 'deleted') return notFound()
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unexpected error deleting report schedule', error)
+    return NextResponse.json({ code: 'SERVER_ERROR', message: 'Failed to delete report schedule' }, { status: 500 })
+  }
+}
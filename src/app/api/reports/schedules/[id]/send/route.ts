@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { isSupabaseConfigured } from '@/lib/server/env'
+import { reportBaseUrl, sendReportNow } from '@/lib/server/report-schedules'
+
+type ReportScheduleRouteParams = { params: Promise<{ id: string }> }
+
+// POST /api/reports/schedules/[id]/send - Send the report now, outside its schedule
+export async function POST(request: NextRequest, { params }: ReportScheduleRouteParams) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
+  }
+
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json({ error: authResult.error, code: 'UNAUTHORIZED' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const result = await sendReportNow(id, authResult.user!, { baseUrl: reportBaseUrl(request.url) })
+    if (result.outcome === 'not_found') {
+      return NextResponse.json({ code: 'NOT_FOUND', message: 'Report schedule not found' }, { status: 404 })
+    }
+    if (result.outcome === 'conflict') {
+      return NextResponse.json({ code: 'CONFLICT', message: result.message }, { status: 409 })
+    }
+
+    return NextResponse.json(result.delivery)
+  } catch (error) {
+    console.error('Unexpected error sending report', error)
+    return NextResponse.json({ code: 'SERVER_ERROR', message: 'Failed to send report' }, { status: 500 })
+  }
+}
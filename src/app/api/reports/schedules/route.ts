@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { isSupabaseConfigured } from '@/lib/server/env'
+import { reportScheduleCreateSchema } from '@/lib/schemas/api'
+import { createReportSchedule, listReportSchedules } from '@/lib/server/report-schedules'
+
+function unauthorized(error: string) {
+  return NextResponse.json(
+    { error, code: 'UNAUTHORIZED' },
+    { status: 401 }
+  )
+}
+
+// GET /api/reports/schedules - The caller's report schedules (everyone's for admins)
+export async function GET(request: NextRequest) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ schedules: [] })
+  }
+
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) return unauthorized(authResult.error)
+
+  try {
+    return NextResponse.json({ schedules: await listReportSchedules(authResult.user!) })
+  } catch (error) {
+    console.error('Unexpected error loading report schedules', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Failed to load report schedules' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/reports/schedules - Schedule deliveries of a saved view
+export async function POST(request: NextRequest) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
+  }
+
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) return unauthorized(authResult.error)
+
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = reportScheduleCreateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid report schedule',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const schedule = await createReportSchedule(parsed.data, authResult.user!)
+    if (!schedule) {
+      return NextResponse.json({ code: 'NOT_FOUND', message: 'Saved view not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(schedule, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error creating report schedule', error)
+    return NextResponse.json({ code: 'SERVER_ERROR', message: 'Failed to create report schedule' }, { status: 500 })
+  }
+}
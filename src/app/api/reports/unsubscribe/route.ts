@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { isSupabaseConfigured } from '@/lib/server/env'
+import { reportUnsubscribeSchema } from '@/lib/schemas/api'
+import { unsubscribeReportRecipient } from '@/lib/server/report-schedules'
+
+// POST /api/reports/unsubscribe - Take a recipient off a schedule using the signed link from the email.
+// Mail clients send one-click unsubscribes (RFC 8058) here with the parameters in the query string.
+export async function POST(request: NextRequest) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ code: 'SUPABASE_DISABLED', message: 'Supabase not configured' }, { status: 503 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const body = request.headers.get('content-type')?.includes('application/json')
+      ? await request.json().catch(() => ({}))
+      : {}
+    const parsed = reportUnsubscribeSchema.safeParse({ ...Object.fromEntries(searchParams), ...body })
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid unsubscribe link',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const { schedule, email, token } = parsed.data
+    const result = await unsubscribeReportRecipient(schedule, email, token)
+    if (result.outcome === 'invalid') {
+      return NextResponse.json({ code: 'FORBIDDEN', message: 'This unsubscribe link is not valid' }, { status: 403 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unexpected error unsubscribing from report', error)
+    return NextResponse.json({ code: 'SERVER_ERROR', message: 'Failed to unsubscribe' }, { status: 500 })
+  }
+}
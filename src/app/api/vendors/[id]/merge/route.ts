@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { vendorMergeSchema, vendorParamsSchema } from '@/lib/schemas/api'
+import { writeInvoiceAudit } from '@/lib/server/invoice-audit'
+import { mergeVendors } from '@/lib/server/vendors'
+
+// POST /api/vendors/[id]/merge - Merge other vendors, their aliases and invoices into this vendor (admins only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+  if (user.role.toLowerCase() !== 'admin') {
+    return NextResponse.json(
+      { error: 'Admin access required', code: 'FORBIDDEN' },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const paramsResult = vendorParamsSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid vendor ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = vendorMergeSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid merge request',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await mergeVendors(paramsResult.data.id, parsed.data.sourceIds)
+    if (result.outcome === 'not_found') {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Vendor not found', missing: result.missing },
+        { status: 404 }
+      )
+    }
+    if (result.outcome === 'invalid') {
+      return NextResponse.json(
+        { code: 'VALIDATION_ERROR', message: result.message },
+        { status: 400 }
+      )
+    }
+
+    const auditLog = await writeInvoiceAudit(request, user, {
+      entityType: 'vendor',
+      entityId: result.vendor.id,
+      action: 'VENDOR_MERGED',
+      changes: {
+        merged_vendor_ids: result.merged.map((vendor) => vendor.id),
+        merged_vendor_names: result.merged.map((vendor) => vendor.name),
+        invoices_moved: result.invoicesMoved,
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      vendor: result.vendor,
+      merged: result.merged,
+      invoicesMoved: result.invoicesMoved,
+      auditLog,
+    })
+  } catch (error) {
+    console.error('Merge vendors error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { vendorParamsSchema, vendorUpdateSchema } from '@/lib/schemas/api'
+import { writeInvoiceAudit } from '@/lib/server/invoice-audit'
+import { getVendor, updateVendor } from '@/lib/server/vendors'
+
+// GET /api/vendors/[id] - A vendor with its aliases; merged vendors resolve to the vendor kept
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const paramsResult = vendorParamsSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid vendor ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const vendor = await getVendor(paramsResult.data.id)
+    if (!vendor) {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Vendor not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ vendor })
+  } catch (error) {
+    console.error('Vendor fetch error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/vendors/[id] - Update a vendor's name, ABN, contact details or defaults
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+
+  try {
+    const paramsResult = vendorParamsSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid vendor ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = vendorUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid vendor details',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await updateVendor(paramsResult.data.id, parsed.data)
+    if (result.outcome === 'not_found') {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Vendor not found' },
+        { status: 404 }
+      )
+    }
+    if (result.outcome === 'conflict') {
+      return NextResponse.json(
+        { code: 'VENDOR_EXISTS', message: result.message, vendor: result.vendor },
+        { status: 409 }
+      )
+    }
+
+    const auditLog = await writeInvoiceAudit(request, user, {
+      entityType: 'vendor',
+      entityId: result.vendor.id,
+      action: 'VENDOR_UPDATED',
+      changes: parsed.data,
+    })
+
+    return NextResponse.json({ success: true, vendor: result.vendor, auditLog })
+  } catch (error) {
+    console.error('Update vendor error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { vendorParamsSchema, vendorSummaryQuerySchema } from '@/lib/schemas/api'
+import { getVendor, listVendorInvoices } from '@/lib/server/vendors'
+import { summariseVendorInvoices } from '@/lib/vendor-insights'
+
+const DEFAULT_PERIOD_DAYS = 90
+const RECENT_INVOICES = 10
+
+// GET /api/vendors/[id]/summary - Spend, payment behaviour and recent invoices for a vendor (?dateFrom&dateTo)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const paramsResult = vendorParamsSchema.safeParse(await params)
+    if (!paramsResult.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid vendor ID',
+          errors: paramsResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const { searchParams } = request.nextUrl
+    const query = vendorSummaryQuerySchema.safeParse({
+      dateFrom: searchParams.get('dateFrom') ?? undefined,
+      dateTo: searchParams.get('dateTo') ?? undefined,
+    })
+    if (!query.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid date range',
+          errors: query.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const vendor = await getVendor(paramsResult.data.id)
+    if (!vendor) {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: 'Vendor not found' },
+        { status: 404 }
+      )
+    }
+
+    const now = new Date()
+    const period = {
+      from: query.data.dateFrom ?? new Date(now.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+      to: query.data.dateTo ?? now.toISOString().slice(0, 10),
+    }
+
+    const invoices = await listVendorInvoices(vendor, undefined, now)
+    const summary = summariseVendorInvoices(invoices, period, now)
+
+    return NextResponse.json({
+      vendor,
+      summary,
+      recentInvoices: invoices.slice(0, RECENT_INVOICES),
+    })
+  } catch (error) {
+    console.error('Vendor summary error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { vendorDetailsSchema } from '@/lib/schemas/api'
+import { writeInvoiceAudit } from '@/lib/server/invoice-audit'
+import { createVendor, listVendors } from '@/lib/server/vendors'
+
+// GET /api/vendors - Active vendors with their aliases
+export async function GET(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const vendors = await listVendors()
+    return NextResponse.json({ vendors, count: vendors.length })
+  } catch (error) {
+    console.error('Vendors list error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/vendors - Create a vendor
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  const user = authResult.user!
+
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = vendorDetailsSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid vendor details',
+          errors: parsed.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await createVendor(parsed.data)
+    if (result.outcome === 'conflict') {
+      return NextResponse.json(
+        { code: 'VENDOR_EXISTS', message: result.message, vendor: result.vendor },
+        { status: 409 }
+      )
+    }
+
+    const auditLog = await writeInvoiceAudit(request, user, {
+      entityType: 'vendor',
+      entityId: result.vendor.id,
+      action: 'VENDOR_CREATED',
+      changes: { name: result.vendor.name, abn: result.vendor.abn },
+    })
+
+    return NextResponse.json({ success: true, vendor: result.vendor, auditLog }, { status: 201 })
+  } catch (error) {
+    console.error('Create vendor error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
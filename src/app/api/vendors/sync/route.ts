@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAPIAuth } from '@/lib/server/auth'
+import { syncInvoiceVendors } from '@/lib/server/vendors'
+
+// POST /api/vendors/sync - Link invoices without a vendor, creating vendors for new suppliers
+export async function POST(request: NextRequest) {
+  const authResult = await verifyAPIAuth(request)
+  if (authResult.error) {
+    return NextResponse.json(
+      { error: authResult.error, code: 'UNAUTHORIZED' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const result = await syncInvoiceVendors()
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Vendor sync error:', error)
+    return NextResponse.json(
+      { code: 'SERVER_ERROR', message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { Suspense, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { unsubscribeFromReport } from '@/lib/api/reports'
+
+export default function ReportUnsubscribePage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-950 text-slate-100">
+      <Suspense fallback={null}>
+        <UnsubscribeShell />
+      </Suspense>
+    </div>
+  )
+}
+
+// Unsubscribing takes a click rather than happening on load, so mail scanners that open links do not unsubscribe anyone
+function UnsubscribeShell() {
+  const searchParams = useSearchParams()
+  const schedule = searchParams.get('schedule') ?? ''
+  const email = searchParams.get('email') ?? ''
+  const token = searchParams.get('token') ?? ''
+  const [state, setState] = useState<'idle' | 'working' | 'done'>('idle')
+  const [error, setError] = useState<string | null>(null)
+
+  const unsubscribe = async () => {
+    setState('working')
+    setError(null)
+    try {
+      await unsubscribeFromReport({ schedule, email, token })
+      setState('done')
+    } catch (unsubscribeError) {
+      setError(unsubscribeError instanceof Error ? unsubscribeError.message : 'Failed to unsubscribe')
+      setState('idle')
+    }
+  }
+
+  return (
+    <div className="w-full max-w-md space-y-4 rounded-xl border border-slate-800 bg-slate-900 p-8">
+      <h1 className="text-xl font-semibold">Unsubscribe from report</h1>
+      {!schedule || !email || !token ? (
+        <p className="text-sm text-slate-400">This unsubscribe link is incomplete. Use the link from the report email.</p>
+      ) : state === 'done' ? (
+        <p className="text-sm text-slate-300">
+          {email} will no longer receive this report.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-slate-300">
+            Stop sending this scheduled report to <span className="font-medium">{email}</span>?
+          </p>
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          <Button onClick={unsubscribe} disabled={state === 'working'} className="w-full">
+            {state === 'working' ? 'Unsubscribing…' : 'Unsubscribe'}
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import * as React from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Pencil, Plus, Trash2 } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { deleteApprovalPolicy, fetchApprovalPolicies } from '@/lib/api/approvals'
+import type { ApprovalPolicy } from '@/lib/approval-policy'
+import { formatCurrency } from '@/lib/utils'
+import { ApprovalPolicyDialog } from './approval-policy-dialog'
+
+function describeBand(policy: ApprovalPolicy): string {
+  if (policy.maxAmount === null) return `${formatCurrency(policy.minAmount)} and over`
+  if (policy.minAmount === 0) return `Under ${formatCurrency(policy.maxAmount)}`
+  return `${formatCurrency(policy.minAmount)} – ${formatCurrency(policy.maxAmount)}`
+}
+
+export function ApprovalPolicies() {
+  const queryClient = useQueryClient()
+  const [editing, setEditing] = React.useState<ApprovalPolicy | null>(null)
+  const [isEditorOpen, setIsEditorOpen] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const { data, isLoading, error: loadError } = useQuery({
+    queryKey: ['approval-policies'],
+    queryFn: fetchApprovalPolicies,
+  })
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['approval-policies'] })
+    queryClient.invalidateQueries({ queryKey: ['approvals'] })
+  }
+
+  const openEditor = (policy: ApprovalPolicy | null) => {
+    setEditing(policy)
+    setIsEditorOpen(true)
+  }
+
+  const remove = async (policy: ApprovalPolicy) => {
+    setError(null)
+    const result = await deleteApprovalPolicy(policy.id)
+    if (!result.success) {
+      setError(result.error || 'Failed to delete policy')
+      return
+    }
+    refresh()
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading policies…</p>
+  }
+  if (loadError || !data) {
+    return (
+      <p role="alert" className="text-sm text-rose-600">
+        {loadError instanceof Error ? loadError.message : 'Could not load approval policies'}
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-slate-500">
+          {data.usingDefaults
+            ? 'No policies are configured, so the defaults below apply. Add a policy to replace them.'
+            : 'The highest priority matching policy applies; vendor and category policies win ties.'}
+        </p>
+        <Button size="sm" onClick={() => openEditor(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add policy
+        </Button>
+      </div>
+
+      {error && <p role="alert" className="text-sm text-rose-600">{error}</p>}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Policy</TableHead>
+            <TableHead>Amount</TableHead>
+            <TableHead>Applies to</TableHead>
+            <TableHead className="text-right">Approvals</TableHead>
+            <TableHead>Approvers</TableHead>
+            {!data.usingDefaults && <TableHead className="text-right">Actions</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.policies.map((policy) => (
+            <TableRow key={policy.id}>
+              <TableCell className="font-medium">
+                {policy.name}
+                {!policy.active && <Badge variant="outline" className="ml-2 text-xs font-normal">Inactive</Badge>}
+              </TableCell>
+              <TableCell>{describeBand(policy)}</TableCell>
+              <TableCell className="text-sm text-slate-600">
+                {[
+                  policy.categories.length > 0 && policy.categories.join(', '),
+                  policy.vendorIds.length > 0 && `${policy.vendorIds.length} vendor${policy.vendorIds.length === 1 ? '' : 's'}`,
+                ].filter(Boolean).join(' · ') || 'All invoices'}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{policy.requiredApprovals}</TableCell>
+              <TableCell className="text-sm text-slate-600">{policy.approverRoles.join(', ')}</TableCell>
+              {!data.usingDefaults && (
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => openEditor(policy)} aria-label={`Edit ${policy.name}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => remove(policy)} aria-label={`Delete ${policy.name}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <ApprovalPolicyDialog
+        policy={editing}
+        isOpen={isEditorOpen}
+        onClose={() => setIsEditorOpen(false)}
+        onSaved={refresh}
+      />
+    </div>
+  )
+}
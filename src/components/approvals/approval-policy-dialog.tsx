@@ -0,0 +1,244 @@
+"use client"
+
+import * as React from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Loader2, ShieldCheck } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { createApprovalPolicy, updateApprovalPolicy } from '@/lib/api/approvals'
+import { fetchVendors } from '@/lib/api/vendors'
+import type { ApprovalPolicy } from '@/lib/approval-policy'
+
+interface ApprovalPolicyDialogProps {
+  /** The policy to edit, or null to create a new one */
+  policy: ApprovalPolicy | null
+  isOpen: boolean
+  onClose: () => void
+  onSaved?: (policy: ApprovalPolicy) => void
+}
+
+interface FormState {
+  name: string
+  minAmount: string
+  maxAmount: string
+  categories: string
+  vendorIds: string[]
+  requiredApprovals: string
+  approverRoles: string
+  priority: string
+  active: boolean
+}
+
+function toFormState(policy: ApprovalPolicy | null): FormState {
+  return {
+    name: policy?.name ?? '',
+    minAmount: String(policy?.minAmount ?? 0),
+    maxAmount: policy?.maxAmount === null || policy?.maxAmount === undefined ? '' : String(policy.maxAmount),
+    categories: policy?.categories.join(', ') ?? '',
+    vendorIds: policy?.vendorIds ?? [],
+    requiredApprovals: String(policy?.requiredApprovals ?? 1),
+    approverRoles: (policy?.approverRoles ?? ['approver', 'admin']).join(', '),
+    priority: String(policy?.priority ?? 0),
+    active: policy?.active ?? true,
+  }
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map((item) => item.trim()).filter(Boolean)
+}
+
+export function ApprovalPolicyDialog({ policy, isOpen, onClose, onSaved }: ApprovalPolicyDialogProps) {
+  const [form, setForm] = React.useState<FormState>(() => toFormState(policy))
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const { data: vendors } = useQuery({
+    queryKey: ['vendors'],
+    queryFn: fetchVendors,
+    enabled: isOpen,
+  })
+
+  React.useEffect(() => {
+    if (!isOpen) return
+    setForm(toFormState(policy))
+    setError(null)
+  }, [isOpen, policy])
+
+  const setField = <K extends keyof FormState>(key: K, value: FormState[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }))
+
+  const toggleVendor = (id: string) =>
+    setField('vendorIds', form.vendorIds.includes(id) ? form.vendorIds.filter((value) => value !== id) : [...form.vendorIds, id])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!form.name.trim()) return
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const details = {
+        name: form.name.trim(),
+        minAmount: Number(form.minAmount) || 0,
+        maxAmount: form.maxAmount.trim() ? Number(form.maxAmount) : null,
+        categories: splitList(form.categories),
+        vendorIds: form.vendorIds,
+        requiredApprovals: Number(form.requiredApprovals) || 1,
+        approverRoles: splitList(form.approverRoles),
+        priority: Number(form.priority) || 0,
+        active: form.active,
+      }
+      const result = policy ? await updateApprovalPolicy(policy.id, details) : await createApprovalPolicy(details)
+      if (!result.success || !result.policy) {
+        setError(result.error || 'Failed to save policy')
+        return
+      }
+      onSaved?.(result.policy)
+      onClose()
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-purple-600" />
+            {policy ? `Edit ${policy.name}` : 'New approval policy'}
+          </DialogTitle>
+          <DialogDescription>
+            Applies to invoices from the minimum amount up to (not including) the maximum. Leave categories and vendors empty to match every invoice in the band.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid gap-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="policy-name">Name</Label>
+            <Input
+              id="policy-name"
+              value={form.name}
+              placeholder="e.g. Capital works over $20k"
+              required
+              onChange={(event) => setField('name', event.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="policy-min">Minimum amount</Label>
+              <Input
+                id="policy-min"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.minAmount}
+                onChange={(event) => setField('minAmount', event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-max">Maximum amount</Label>
+              <Input
+                id="policy-max"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.maxAmount}
+                placeholder="No limit"
+                onChange={(event) => setField('maxAmount', event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-required">Approvals required</Label>
+              <Input
+                id="policy-required"
+                type="number"
+                min={1}
+                max={5}
+                value={form.requiredApprovals}
+                onChange={(event) => setField('requiredApprovals', event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-priority">Priority</Label>
+              <Input
+                id="policy-priority"
+                type="number"
+                value={form.priority}
+                onChange={(event) => setField('priority', event.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="policy-categories">Categories</Label>
+            <Input
+              id="policy-categories"
+              value={form.categories}
+              placeholder="Comma separated, e.g. Utilities, Legal"
+              onChange={(event) => setField('categories', event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="policy-roles">Approver roles</Label>
+            <Input
+              id="policy-roles"
+              value={form.approverRoles}
+              placeholder="Comma separated, e.g. approver, admin"
+              onChange={(event) => setField('approverRoles', event.target.value)}
+            />
+          </div>
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium">Vendors</legend>
+            <div className="max-h-40 space-y-1 overflow-y-auto rounded-md border p-2">
+              {(vendors?.vendors ?? []).length === 0 ? (
+                <p className="text-xs text-slate-500">No vendors yet.</p>
+              ) : (
+                vendors!.vendors.map((vendor) => (
+                  <label key={vendor.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={form.vendorIds.includes(vendor.id)}
+                      onChange={() => toggleVendor(vendor.id)}
+                    />
+                    {vendor.name}
+                  </label>
+                ))
+              )}
+            </div>
+          </fieldset>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={form.active} onChange={(event) => setField('active', event.target.checked)} />
+            Active
+          </label>
+
+          {error && <p role="alert" className="text-sm text-rose-600">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !form.name.trim()}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save policy
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
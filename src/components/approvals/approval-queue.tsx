@@ -0,0 +1,145 @@
+"use client"
+
+import * as React from 'react'
+import Link from 'next/link'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { CheckCircle, Loader2 } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { approveInvoice, fetchAwaitingApprovals, type AwaitingApprovalItem } from '@/lib/api/approvals'
+import { cn, formatCurrency, formatDate } from '@/lib/utils'
+import { APPROVAL_QUERY_KEYS, InvoiceApprovalsDialog } from './invoice-approvals-panel'
+
+export function ApprovalQueue() {
+  const queryClient = useQueryClient()
+  const [reviewing, setReviewing] = React.useState<AwaitingApprovalItem['invoice'] | null>(null)
+  const [approvingId, setApprovingId] = React.useState<string | null>(null)
+  const [message, setMessage] = React.useState<{ tone: 'info' | 'error'; text: string } | null>(null)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['approvals'],
+    queryFn: fetchAwaitingApprovals,
+  })
+
+  const approve = async (invoice: AwaitingApprovalItem['invoice']) => {
+    setApprovingId(invoice.id)
+    setMessage(null)
+    const result = await approveInvoice(invoice.id)
+    setApprovingId(null)
+
+    if (!result.success) {
+      setMessage({ tone: 'error', text: `${invoice.invoiceNumber}: ${result.error || 'Could not approve the invoice'}` })
+      return
+    }
+    setMessage({ tone: 'info', text: `${invoice.invoiceNumber}: ${result.message || 'Invoice approved'}` })
+    APPROVAL_QUERY_KEYS.forEach((queryKey) => queryClient.invalidateQueries({ queryKey: [...queryKey] }))
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading approvals…</p>
+  }
+  if (error) {
+    return (
+      <p role="alert" className="text-sm text-rose-600">
+        {error instanceof Error ? error.message : 'Could not load approvals'}
+      </p>
+    )
+  }
+
+  const items = data?.items ?? []
+
+  return (
+    <div className="space-y-4">
+      {message && (
+        <p role={message.tone === 'error' ? 'alert' : 'status'} className={cn('text-sm', message.tone === 'error' ? 'text-rose-600' : 'text-emerald-700')}>
+          {message.text}
+        </p>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-sm text-slate-500">Nothing is waiting for your approval.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Invoice</TableHead>
+              <TableHead>Vendor</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Due</TableHead>
+              <TableHead>Approvals</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map(({ invoice, policy, progress, approvals }) => (
+              <TableRow key={invoice.id}>
+                <TableCell className="font-medium">
+                  <Link href={`/invoices/${encodeURIComponent(invoice.id)}`} className="hover:underline">
+                    {invoice.invoiceNumber || '—'}
+                  </Link>
+                </TableCell>
+                <TableCell>
+                  {invoice.vendorId ? (
+                    <Link href={`/vendors/${invoice.vendorId}`} className="hover:underline">{invoice.vendorName}</Link>
+                  ) : (
+                    invoice.vendorName
+                  )}
+                  {invoice.category && <p className="text-xs text-slate-500">{invoice.category}</p>}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">{formatCurrency(invoice.amount)}</TableCell>
+                <TableCell>{invoice.dueDate ? formatDate(invoice.dueDate) : '—'}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="tabular-nums">
+                      {progress.received}/{progress.required}
+                    </Badge>
+                    <span className="text-xs text-slate-500">{policy.name}</span>
+                  </div>
+                  {approvals.length > 0 && (
+                    <p className="mt-1 text-xs text-slate-500">
+                      Approved by {approvals.map((approval) => approval.approverEmail || approval.approverUserId).join(', ')}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setReviewing(invoice)}>
+                      Review
+                    </Button>
+                    <Button size="sm" onClick={() => approve(invoice)} disabled={approvingId !== null}>
+                      {approvingId === invoice.id ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <CheckCircle className="mr-2 h-4 w-4" />
+                      )}
+                      Approve
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {reviewing && (
+        <InvoiceApprovalsDialog
+          invoice={reviewing}
+          open={reviewing !== null}
+          onOpenChange={(open) => {
+            if (!open) setReviewing(null)
+          }}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+"use client"
+
+import * as React from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { CheckCircle, ClipboardCheck, Loader2, XCircle } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Progress } from '@/components/ui/progress'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  approveInvoice,
+  fetchInvoiceApprovals,
+  rejectInvoice,
+  type ApprovalMutationResult,
+  type InvoiceApproval,
+} from '@/lib/api/approvals'
+import { cn } from '@/lib/utils'
+
+function formatTimestamp(value: string | null) {
+  if (!value) return 'Unknown time'
+  return new Date(value).toLocaleString('en-AU', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+/** Query keys refreshed after an approval decision */
+export const APPROVAL_QUERY_KEYS = [
+  ['approvals'],
+  ['invoice-approvals'],
+  ['invoices'],
+  ['kanban-invoices'],
+  ['kanban-all-invoices'],
+  ['dashboard-stats'],
+  ['payables-aging'],
+  ['payables-forecast'],
+] as const
+
+export function ApprovalEntry({ approval }: { approval: InvoiceApproval }) {
+  const approved = approval.decision === 'approved'
+  return (
+    <li className={cn('flex gap-2 text-sm', approval.supersededAt && 'opacity-60')}>
+      {approved ? (
+        <CheckCircle className="mt-0.5 h-4 w-4 shrink-0 text-emerald-600" />
+      ) : (
+        <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-rose-600" />
+      )}
+      <div className="min-w-0">
+        <p className="text-slate-900 dark:text-slate-100">
+          {approved ? 'Approved' : 'Rejected'} by {approval.approverEmail || approval.approverUserId}
+          {approval.supersededAt && (
+            <Badge variant="outline" className="ml-2 text-xs font-normal">No longer counts</Badge>
+          )}
+        </p>
+        <p className="text-xs text-slate-500">
+          {formatTimestamp(approval.createdAt)}
+          {approval.policyName ? ` · ${approval.policyName}` : ''}
+        </p>
+        {approval.comment && <p className="mt-1 text-slate-700 dark:text-slate-300">{approval.comment}</p>}
+      </div>
+    </li>
+  )
+}
+
+interface InvoiceApprovalsPanelProps {
+  /** Invoice id or invoice number */
+  invoiceId: string
+  onDecided?: (result: ApprovalMutationResult) => void
+}
+
+export function InvoiceApprovalsPanel({ invoiceId, onDecided }: InvoiceApprovalsPanelProps) {
+  const queryClient = useQueryClient()
+  const [isRejecting, setIsRejecting] = React.useState(false)
+  const [reason, setReason] = React.useState('')
+  const [pending, setPending] = React.useState<'approve' | 'reject' | null>(null)
+  const [message, setMessage] = React.useState<{ tone: 'info' | 'error'; text: string } | null>(null)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['invoice-approvals', invoiceId],
+    queryFn: () => fetchInvoiceApprovals(invoiceId),
+  })
+
+  const decide = async (decision: 'approve' | 'reject') => {
+    setPending(decision)
+    setMessage(null)
+    const result = decision === 'approve'
+      ? await approveInvoice(invoiceId)
+      : await rejectInvoice(invoiceId, reason.trim())
+    setPending(null)
+
+    if (!result.success) {
+      setMessage({ tone: 'error', text: result.error || 'Could not save the decision' })
+      return
+    }
+
+    setIsRejecting(false)
+    setReason('')
+    setMessage({ tone: 'info', text: result.message || (decision === 'approve' ? 'Invoice approved' : 'Invoice rejected') })
+    APPROVAL_QUERY_KEYS.forEach((queryKey) => queryClient.invalidateQueries({ queryKey: [...queryKey] }))
+    onDecided?.(result)
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading approvals…</p>
+  }
+  if (error || !data) {
+    return (
+      <p role="alert" className="text-sm text-rose-600">
+        {error instanceof Error ? error.message : 'Could not load approvals'}
+      </p>
+    )
+  }
+
+  const { policy, progress, approvals } = data
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-slate-700 dark:text-slate-300">{policy.name}</span>
+          <span className="tabular-nums text-slate-500">
+            {progress.received} of {progress.required} approval{progress.required === 1 ? '' : 's'}
+          </span>
+        </div>
+        <Progress value={(Math.min(progress.received, progress.required) / progress.required) * 100} />
+      </div>
+
+      {approvals.length === 0 ? (
+        <p className="text-sm text-slate-500">No approval decisions yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {approvals.map((approval) => <ApprovalEntry key={approval.id} approval={approval} />)}
+        </ul>
+      )}
+
+      {message && (
+        <p role={message.tone === 'error' ? 'alert' : 'status'} className={cn('text-sm', message.tone === 'error' ? 'text-rose-600' : 'text-emerald-700')}>
+          {message.text}
+        </p>
+      )}
+
+      {data.canApprove ? (
+        isRejecting ? (
+          <div className="space-y-2">
+            <Textarea
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              placeholder="Why is this invoice being rejected?"
+              aria-label="Rejection reason"
+              rows={3}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setIsRejecting(false)} disabled={pending !== null}>
+                Cancel
+              </Button>
+              <Button variant="destructive" size="sm" onClick={() => decide('reject')} disabled={!reason.trim() || pending !== null}>
+                {pending === 'reject' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Reject invoice
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsRejecting(true)} disabled={pending !== null}>
+              <XCircle className="mr-2 h-4 w-4" />
+              Reject
+            </Button>
+            <Button size="sm" onClick={() => decide('approve')} disabled={pending !== null}>
+              {pending === 'approve' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+              Approve
+            </Button>
+          </div>
+        )
+      ) : (
+        data.reason && <p className="text-xs text-slate-500">{data.reason}</p>
+      )}
+    </div>
+  )
+}
+
+interface InvoiceApprovalsDialogProps {
+  invoice: { id?: string; invoiceNumber: string }
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function InvoiceApprovalsDialog({ invoice, open, onOpenChange }: InvoiceApprovalsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5 text-purple-600" />
+            Approvals
+          </DialogTitle>
+          <DialogDescription>Invoice {invoice.invoiceNumber}</DialogDescription>
+        </DialogHeader>
+        {open && <InvoiceApprovalsPanel invoiceId={invoice.id || invoice.invoiceNumber} />}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,159 @@
+"use client"
+
+import { Download } from 'lucide-react'
+import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { cashflowForecastCsvUrl, type ForecastParams } from '@/lib/api/forecast'
+import type { CashflowForecast, ForecastScenario } from '@/lib/cashflow-forecast'
+import type { ForecastCsvGrouping } from '@/lib/csv-export'
+import { formatCurrency } from '@/lib/utils'
+
+const SCENARIO_TOGGLES: Array<{ key: keyof ForecastScenario; label: string }> = [
+  { key: 'payOverdueNow', label: 'Pay all overdue now' },
+  { key: 'deferInReview', label: 'Defer in review' },
+  { key: 'includeExpected', label: 'Include expected recurring bills' },
+]
+
+const EXPORTS: Array<{ groupBy: ForecastCsvGrouping; label: string }> = [
+  { groupBy: 'week', label: 'By week' },
+  { groupBy: 'invoice', label: 'By payment' },
+]
+
+function weekLabel(weekStart: string): string {
+  return new Date(`${weekStart}T00:00:00Z`).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', timeZone: 'UTC' })
+}
+
+export function CashflowForecastChart({
+  data,
+  params,
+  scenario,
+  onScenarioChange,
+  isLoading,
+  isError,
+  isFiltered,
+}: {
+  data?: CashflowForecast
+  /** Dashboard filters the forecast was run with, reused for exports */
+  params: ForecastParams
+  scenario: ForecastScenario
+  onScenarioChange: (scenario: ForecastScenario) => void
+  isLoading?: boolean
+  isError?: boolean
+  isFiltered?: boolean
+}) {
+  const weeks = (data?.weeks ?? []).map((week) => ({
+    name: weekLabel(week.weekStart),
+    outstanding: Math.round(week.outstanding),
+    expected: Math.round(week.expected),
+    count: week.count,
+  }))
+
+  const notes = [
+    data?.overdue.count ? `${formatCurrency(data.overdue.amount)} overdue not scheduled (${data.overdue.count})` : null,
+    data?.deferred.count ? `${formatCurrency(data.deferred.amount)} in review deferred (${data.deferred.count})` : null,
+    data?.beyondHorizon.count ? `${formatCurrency(data.beyondHorizon.amount)} due after 12 weeks` : null,
+    data?.unscheduled.count ? `${data.unscheduled.count} without a due date` : null,
+  ].filter(Boolean)
+
+  return (
+    <Card className="glass-card glass-card-hover border-2 shadow-lg hover:shadow-xl transition-all duration-300">
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl font-bold text-gray-900 flex items-center space-x-3">
+            <div className="w-4 h-4 bg-sky-600 rounded-full"></div>
+            <span className="text-gray-900">Cash-flow Forecast</span>
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {isFiltered && (
+              <Badge variant="secondary" className="text-xs">
+                Filtered
+              </Badge>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={!data}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export CSV
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {EXPORTS.map((option) => (
+                  <DropdownMenuItem key={option.groupBy} asChild>
+                    <a href={cashflowForecastCsvUrl({ ...params, ...scenario }, option.groupBy)} download>
+                      {option.label}
+                    </a>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+          {data
+            ? `${formatCurrency(data.totals.total)} due over the next 12 weeks, ${formatCurrency(data.totals.expected)} of it from recurring vendors yet to bill`
+            : 'Payables falling due each week for the next 12 weeks'}
+        </p>
+        <div className="flex flex-wrap gap-x-4 gap-y-2 pt-2">
+          {SCENARIO_TOGGLES.map((toggle) => (
+            <label key={toggle.key} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={scenario[toggle.key]}
+                onChange={(event) => onScenarioChange({ ...scenario, [toggle.key]: event.target.checked })}
+              />
+              {toggle.label}
+            </label>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="h-72 rounded bg-slate-100 dark:bg-slate-800 animate-pulse" />
+        ) : isError ? (
+          <p role="alert" className="text-sm text-rose-600">Could not load the forecast.</p>
+        ) : (
+          <>
+            <div style={{ height: 300 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={weeks} margin={{ top: 20, right: 30, left: 20, bottom: 10 }}>
+                  <XAxis dataKey="name" tick={{ fontSize: 12, fill: '#374151' }} />
+                  <YAxis
+                    tick={{ fontSize: 12, fill: '#374151' }}
+                    tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                    width={60}
+                  />
+                  <Tooltip
+                    formatter={(v: any, name: any) => [`$${Number(v).toLocaleString()}`, name]}
+                    labelFormatter={(label) => `Week of ${label}`}
+                    contentStyle={{
+                      backgroundColor: 'rgba(255, 255, 255, 0.95)',
+                      border: '1px solid #e2e8f0',
+                      borderRadius: '8px',
+                      boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                      fontSize: '14px'
+                    }}
+                  />
+                  <Legend />
+                  <Bar dataKey="outstanding" name="Outstanding" stackId="due" fill="oklch(0.6 0.2 270)" maxBarSize={60} />
+                  <Bar dataKey="expected" name="Expected" stackId="due" fill="oklch(0.8 0.1 270)" radius={[4, 4, 0, 0]} maxBarSize={60} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            {notes.length > 0 && (
+              <p className="text-xs text-slate-500">{notes.join(' · ')}</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
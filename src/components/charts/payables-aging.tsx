@@ -0,0 +1,231 @@
+"use client"
+
+import * as React from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Download } from 'lucide-react'
+import { BarChart, Bar, Cell, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { agingReportCsvUrl, type AgingReportParams } from '@/lib/api/outstanding'
+import type { AgingCsvGrouping } from '@/lib/csv-export'
+import { AGING_BUCKETS, type AgingBucketKey, type AgingReport } from '@/lib/payables-aging'
+import { cn, formatCurrency } from '@/lib/utils'
+
+const BUCKET_COLORS: Record<AgingBucketKey, string> = {
+  current: 'oklch(0.6 0.2 140)', // green
+  '1-30': 'oklch(0.75 0.15 90)', // yellow
+  '31-60': 'oklch(0.7 0.2 60)', // amber
+  '61-90': 'oklch(0.65 0.2 35)', // orange
+  '90+': 'oklch(0.6 0.2 0)', // red
+}
+
+const EXPORTS: Array<{ groupBy: AgingCsvGrouping; label: string }> = [
+  { groupBy: 'invoice', label: 'By invoice' },
+  { groupBy: 'vendor', label: 'By vendor' },
+  { groupBy: 'category', label: 'By category' },
+]
+
+const TOP_ROWS = 6
+
+/** Invoices table link listing the outstanding invoices in one bucket */
+function drillHref(bucket: AgingBucketKey, scope: { vendor?: string[]; category?: string[] }): string {
+  const search = new URLSearchParams({ aging: bucket })
+  scope.vendor?.forEach((vendor) => search.append('vendor', vendor))
+  scope.category?.forEach((category) => search.append('category', category))
+  return `/invoices?${search.toString()}`
+}
+
+export function PayablesAging({
+  data,
+  params,
+  isLoading,
+  isError,
+  isFiltered,
+}: {
+  data?: AgingReport
+  /** Dashboard filters the report was run with, reused for drill-in links and exports */
+  params: AgingReportParams
+  isLoading?: boolean
+  isError?: boolean
+  isFiltered?: boolean
+}) {
+  const router = useRouter()
+  const [groupBy, setGroupBy] = React.useState<'vendor' | 'category'>('vendor')
+
+  const buckets = (data?.buckets ?? []).map((bucket) => ({
+    key: bucket.key,
+    name: bucket.label,
+    count: bucket.count,
+    amount: Math.round(bucket.amount),
+  }))
+  const rows = (groupBy === 'vendor' ? data?.byVendor : data?.byCategory)?.slice(0, TOP_ROWS) ?? []
+
+  const rowScope = (name: string) =>
+    groupBy === 'vendor'
+      ? { vendor: [name], category: params.category }
+      : { vendor: params.vendor, category: [name] }
+
+  return (
+    <Card className="glass-card glass-card-hover border-2 shadow-lg hover:shadow-xl transition-all duration-300">
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl font-bold text-gray-900 flex items-center space-x-3">
+            <div className="w-4 h-4 bg-rose-600 rounded-full"></div>
+            <span className="text-gray-900">Aged Payables</span>
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {isFiltered && (
+              <Badge variant="secondary" className="text-xs">
+                Filtered
+              </Badge>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={!data?.summary.totalCount}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export CSV
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {EXPORTS.map((option) => (
+                  <DropdownMenuItem key={option.groupBy} asChild>
+                    <a href={agingReportCsvUrl(params, option.groupBy)} download>
+                      {option.label}
+                    </a>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+          {data
+            ? `${formatCurrency(data.summary.totalOutstanding)} outstanding across ${data.summary.totalCount} invoices, ${formatCurrency(data.summary.overdueAmount)} past due. Click a bucket to see its invoices.`
+            : 'Outstanding invoices by days past due'}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="h-72 rounded bg-slate-100 dark:bg-slate-800 animate-pulse" />
+        ) : isError ? (
+          <p role="alert" className="text-sm text-rose-600">Could not load aged payables.</p>
+        ) : (
+          <>
+            <div style={{ height: 240 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={buckets} margin={{ top: 20, right: 30, left: 20, bottom: 10 }}>
+                  <XAxis dataKey="name" tick={{ fontSize: 12, fill: '#374151' }} />
+                  <YAxis
+                    tick={{ fontSize: 12, fill: '#374151' }}
+                    tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                    width={60}
+                  />
+                  <Tooltip
+                    formatter={(v: any, _name: any, item: any) => [`$${Number(v).toLocaleString()} (${item?.payload?.count ?? 0} invoices)`, 'Outstanding']}
+                    contentStyle={{
+                      backgroundColor: 'rgba(255, 255, 255, 0.95)',
+                      border: '1px solid #e2e8f0',
+                      borderRadius: '8px',
+                      boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+                      fontSize: '14px'
+                    }}
+                  />
+                  <Bar
+                    dataKey="amount"
+                    radius={[4, 4, 0, 0]}
+                    maxBarSize={80}
+                    cursor="pointer"
+                    onClick={(entry: any) => {
+                      if (entry?.key) router.push(drillHref(entry.key, { vendor: params.vendor, category: params.category }))
+                    }}
+                  >
+                    {buckets.map((bucket) => (
+                      <Cell key={bucket.key} fill={BUCKET_COLORS[bucket.key]} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex gap-1" role="group" aria-label="Break down by">
+                {(['vendor', 'category'] as const).map((option) => (
+                  <Button
+                    key={option}
+                    variant={groupBy === option ? 'secondary' : 'ghost'}
+                    size="sm"
+                    aria-pressed={groupBy === option}
+                    onClick={() => setGroupBy(option)}
+                  >
+                    {option === 'vendor' ? 'By vendor' : 'By category'}
+                  </Button>
+                ))}
+              </div>
+
+              {rows.length === 0 ? (
+                <p className="text-sm text-slate-500">Nothing outstanding.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{groupBy === 'vendor' ? 'Vendor' : 'Category'}</TableHead>
+                      {AGING_BUCKETS.map((bucket) => (
+                        <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => (
+                      <TableRow key={row.vendorId ?? row.name}>
+                        <TableCell className="font-medium">
+                          {row.vendorId ? (
+                            <Link href={`/vendors/${row.vendorId}`} className="hover:underline">{row.name}</Link>
+                          ) : (
+                            row.name
+                          )}
+                        </TableCell>
+                        {AGING_BUCKETS.map((bucket) => (
+                          <TableCell key={bucket.key} className="text-right tabular-nums">
+                            {row.buckets[bucket.key] ? (
+                              <Link
+                                href={drillHref(bucket.key, rowScope(row.name))}
+                                className={cn('hover:underline', bucket.key !== 'current' && 'text-rose-700 dark:text-rose-400')}
+                              >
+                                {formatCurrency(row.buckets[bucket.key])}
+                              </Link>
+                            ) : (
+                              <span className="text-slate-400">—</span>
+                            )}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-medium tabular-nums">{formatCurrency(row.total)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
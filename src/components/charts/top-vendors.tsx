@@ -1,5 +1,6 @@
 "use client"
 
+import { useRouter } from 'next/navigation'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts'
@@ -9,12 +10,14 @@ export function TopVendors({
   isLoading,
   isFiltered,
 }: {
-  data: Array<{ vendor: string; count: number; amount: number }>
+  data: Array<{ vendor: string; vendorId?: string | null; count: number; amount: number }>
   isLoading?: boolean
   isFiltered?: boolean
 }) {
+  const router = useRouter()
   const vendors = (data || []).slice(0, 8).map(v => ({
     name: v.vendor,
+    vendorId: v.vendorId ?? null,
     amount: Math.round(v.amount || 0),
   }))
 
@@ -33,7 +36,7 @@ export function TopVendors({
           )}
         </div>
         <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-          {isFiltered ? 'Showing filtered subset of data' : 'Hover over vendor names to see full details'}
+          {isFiltered ? 'Showing filtered subset of data' : 'Click a vendor to see its spend and payment history'}
         </p>
       </CardHeader>
       <CardContent style={{ height: 350 }}>
@@ -78,6 +81,10 @@ export function TopVendors({
                 fill="oklch(0.65 0.12 80)"
                 radius={[4, 4, 0, 0]}
                 maxBarSize={80}
+                cursor="pointer"
+                onClick={(entry: any) => {
+                  if (entry?.vendorId) router.push(`/vendors/${entry.vendorId}`)
+                }}
               />
             </BarChart>
           </ResponsiveContainer>
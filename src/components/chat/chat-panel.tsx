@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import { MessageBubble } from './message-bubble';
 import { QuickActions } from './quick-actions';
 import { ActionConfirmation } from './action-confirmation';
@@ -19,6 +20,7 @@ interface ChatPanelProps {
 }
 
 export function ChatPanel({ conversationId, onClose, onExpand, className = '' }: ChatPanelProps) {
+  const router = useRouter();
   const [message, setMessage] = useState('');
   const [localConversationId, setLocalConversationId] = useState(conversationId);
   const [showConfirmation, setShowConfirmation] = useState(false);
@@ -281,10 +283,7 @@ export function ChatPanel({ conversationId, onClose, onExpand, className = '' }:
               <MessageBubble
                 key={msg.id}
                 message={msg}
-                onInvoiceClick={(id) => {
-                  // TODO: Open invoice details
-                  toast.info(`Invoice: ${id}`);
-                }}
+                onInvoiceClick={(id) => router.push(`/invoices/${encodeURIComponent(id)}`)}
               />
             ))}
             <div ref={messagesEndRef} />
@@ -1,6 +1,7 @@
 'use client';
 
 import React from 'react';
+import Link from 'next/link';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { ChatMessage } from '@/hooks/use-chat';
@@ -34,15 +35,23 @@ export function MessageBubble({ message, onInvoiceClick }: MessageBubbleProps) {
               <ReactMarkdown
                 remarkPlugins={[remarkGfm]}
                 components={{
-                  // Customize link rendering
-                  a: ({ node, ...props }) => (
-                    <a
-                      {...props}
-                      className="text-blue-600 dark:text-blue-400 hover:underline"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                    />
-                  ),
+                  // Customize link rendering; app links (e.g. /invoices/[id]) stay in the tab
+                  a: ({ node, href, ...props }) =>
+                    href?.startsWith('/') ? (
+                      <Link
+                        {...props}
+                        href={href}
+                        className="text-blue-600 dark:text-blue-400 hover:underline"
+                      />
+                    ) : (
+                      <a
+                        {...props}
+                        href={href}
+                        className="text-blue-600 dark:text-blue-400 hover:underline"
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      />
+                    ),
                   // Customize code rendering
                   code: ({ node, className, children, ...props }) => {
                     const isInline = !className;
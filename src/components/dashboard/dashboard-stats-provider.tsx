@@ -17,6 +17,8 @@ interface DashboardStatsContextValue {
   error: unknown;
   refetch: () => void;
   params: DashboardStatsParams;
+  /** Params merged with the active invoice filters, as sent to /api/stats */
+  queryParams: DashboardStatsParams;
   setParams: (updater: DashboardStatsParams | ((prev: DashboardStatsParams) => DashboardStatsParams)) => void;
 }
 
@@ -79,11 +81,12 @@ export function DashboardStatsProvider({ children }: { children: React.ReactNode
       error: statsQuery.error,
       refetch: statsQuery.refetch,
       params,
+      queryParams,
       setParams: (updater) => {
         setParamsState((prev) => (typeof updater === 'function' ? updater(prev) : updater));
       },
     }),
-    [params, statsQuery.data, statsQuery.error, statsQuery.isLoading, statsQuery.refetch]
+    [params, queryParams, statsQuery.data, statsQuery.error, statsQuery.isLoading, statsQuery.refetch]
   );
 
   return <DashboardStatsContext.Provider value={value}>{children}</DashboardStatsContext.Provider>;
@@ -0,0 +1,136 @@
+"use client"
+
+import Link from 'next/link'
+import { AlertTriangle, CalendarClock } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { RecurringInsights } from '@/lib/billing-cadence'
+import { formatCurrency } from '@/lib/utils'
+
+// Longest list shown per section; the chat assistant can report the rest
+const MAX_ROWS = 6
+
+function shortDate(value: string | null): string {
+  if (!value) return 'undated'
+  return new Date(`${value.slice(0, 10)}T00:00:00Z`).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', timeZone: 'UTC' })
+}
+
+function vendorHref(vendorName: string, vendorId: string | null): string {
+  return vendorId ? `/vendors/${vendorId}` : `/invoices?vendor=${encodeURIComponent(vendorName)}`
+}
+
+function formatDeviation(deviation: number): string {
+  const percent = Math.round(Math.abs(deviation) * 100)
+  return deviation > 0 ? `${percent}% above usual` : `${percent}% below usual`
+}
+
+export function RecurringAlerts({
+  data,
+  isLoading,
+  isError,
+  isFiltered,
+}: {
+  data?: RecurringInsights
+  isLoading?: boolean
+  isError?: boolean
+  isFiltered?: boolean
+}) {
+  const missing = data?.missing ?? []
+  const anomalies = data?.anomalies ?? []
+
+  return (
+    <Card className="glass-card glass-card-hover border-2 shadow-lg hover:shadow-xl transition-all duration-300">
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl font-bold text-gray-900 flex items-center space-x-3">
+            <div className="w-4 h-4 bg-amber-500 rounded-full"></div>
+            <span className="text-gray-900">Recurring Bills</span>
+          </CardTitle>
+          {isFiltered && (
+            <Badge variant="secondary" className="text-xs">
+              Filtered
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+          {data
+            ? `${data.vendors.length} vendors bill on a regular cadence`
+            : 'Bills expected from recurring vendors and unusual amounts'}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-40 rounded bg-slate-100 dark:bg-slate-800 animate-pulse" />
+        ) : isError ? (
+          <p role="alert" className="text-sm text-rose-600">Could not load recurring bills.</p>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            <section>
+              <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-900 mb-2">
+                <CalendarClock className="h-4 w-4 text-amber-600" />
+                Expected but not received
+              </h3>
+              {missing.length === 0 ? (
+                <p className="text-sm text-slate-500">Every recurring vendor has billed on time.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {missing.slice(0, MAX_ROWS).map((alert) => (
+                    <li key={alert.vendorId ?? alert.vendorName} className="flex items-start justify-between gap-3 text-sm">
+                      <div>
+                        <Link href={vendorHref(alert.vendorName, alert.vendorId)} className="font-medium hover:underline">
+                          {alert.vendorName}
+                        </Link>
+                        <p className="text-xs text-slate-500">
+                          Bills {alert.cadence}; expected {shortDate(alert.expectedDate)}
+                          {alert.missedCount > 1 ? `, ${alert.missedCount} bills missed` : ''}
+                        </p>
+                      </div>
+                      <div className="text-right whitespace-nowrap">
+                        <p>~{formatCurrency(alert.typicalAmount)}</p>
+                        <p className="text-xs text-amber-700">{alert.daysLate} days late</p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+            <section>
+              <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-900 mb-2">
+                <AlertTriangle className="h-4 w-4 text-rose-600" />
+                Unusual amounts
+              </h3>
+              {anomalies.length === 0 ? (
+                <p className="text-sm text-slate-500">No recent bills stand out from their vendor&apos;s usual amount.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {anomalies.slice(0, MAX_ROWS).map((anomaly) => (
+                    <li key={anomaly.id} className="flex items-start justify-between gap-3 text-sm">
+                      <div>
+                        <Link href={vendorHref(anomaly.vendorName, anomaly.vendorId)} className="font-medium hover:underline">
+                          {anomaly.vendorName}
+                        </Link>
+                        <p className="text-xs text-slate-500">
+                          <Link href={`/invoices/${encodeURIComponent(anomaly.id)}`} className="hover:underline">
+                            {anomaly.invoiceNumber || 'No number'}
+                          </Link>
+                          {' · '}{shortDate(anomaly.issueDate)} · usually {formatCurrency(anomaly.typicalAmount)}
+                        </p>
+                      </div>
+                      <div className="text-right whitespace-nowrap">
+                        <p>{formatCurrency(anomaly.amount)}</p>
+                        <p className={anomaly.deviation > 0 ? 'text-xs text-rose-700' : 'text-xs text-sky-700'}>
+                          {formatDeviation(anomaly.deviation)}
+                        </p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,188 @@
+"use client"
+
+import * as React from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { formatInTimeZone } from 'date-fns-tz'
+import { Download, X } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { cancelExportJob, exportDownloadUrl, fetchExportJobs, type ExportJob } from '@/lib/api/exports'
+import {
+  exportJobProgress,
+  INVOICE_EXPORT_FORMAT_LABELS,
+  INVOICE_EXPORT_RETENTION_DAYS,
+  isExportJobActive,
+  type InvoiceExportJobStatus,
+} from '@/lib/invoice-export'
+import { REPORT_TIMEZONE } from '@/lib/report-schedule'
+
+export const EXPORT_JOBS_QUERY_KEY = ['export-jobs'] as const
+
+export function exportJobQueryKey(id: string) {
+  return ['export-jobs', id] as const
+}
+
+const STATUS_LABELS: Record<InvoiceExportJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  completed: 'Ready',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function sydneyTime(value: string | null, pattern = 'd MMM, h:mm a') {
+  return value ? formatInTimeZone(new Date(value), REPORT_TIMEZONE, pattern) : '—'
+}
+
+function ExportStatus({ job }: { job: ExportJob }) {
+  if (isExportJobActive(job.status)) {
+    const progress = exportJobProgress(job)
+    return (
+      <div className="flex min-w-[140px] flex-col gap-1">
+        <Progress value={progress ?? 0} className="h-1.5" aria-label="Export progress" />
+        <span className="text-xs text-slate-500">
+          {STATUS_LABELS[job.status]}
+          {job.rowsTotal ? ` · ${job.rowsWritten.toLocaleString()} of ${job.rowsTotal.toLocaleString()} rows` : ''}
+        </span>
+      </div>
+    )
+  }
+
+  return (
+    <span title={job.error ?? undefined}>
+      <Badge variant={job.status === 'failed' ? 'destructive' : job.status === 'completed' ? 'default' : 'outline'} className="text-xs font-normal">
+        {STATUS_LABELS[job.status]}
+      </Badge>
+      {job.status === 'failed' && job.error && <span className="ml-2 text-xs text-rose-600">{job.error}</span>}
+    </span>
+  )
+}
+
+/** The signed-in user's exports, with downloads for files still within retention. */
+export function MyExports() {
+  const queryClient = useQueryClient()
+  const [busy, setBusy] = React.useState<string | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const { data: jobs, isLoading, error: loadError } = useQuery({
+    queryKey: EXPORT_JOBS_QUERY_KEY,
+    queryFn: fetchExportJobs,
+    refetchInterval: (query) => (query.state.data?.some((job) => isExportJobActive(job.status)) ? 2000 : false),
+  })
+
+  const cancel = async (job: ExportJob) => {
+    setBusy(job.id)
+    setError(null)
+    try {
+      await cancelExportJob(job.id)
+    } catch (cancelError) {
+      setError(cancelError instanceof Error ? cancelError.message : 'Something went wrong')
+    } finally {
+      setBusy(null)
+      queryClient.invalidateQueries({ queryKey: EXPORT_JOBS_QUERY_KEY })
+    }
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading exports…</p>
+  }
+  if (loadError || !jobs) {
+    return (
+      <p role="alert" className="text-sm text-rose-600">
+        {loadError instanceof Error ? loadError.message : 'Could not load exports'}
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-500">
+        {jobs.length === 0
+          ? 'No exports yet. Export invoices from the invoices list and they will appear here.'
+          : `Times are Sydney time. Files can be downloaded for ${INVOICE_EXPORT_RETENTION_DAYS} days.`}
+      </p>
+
+      {error && <p role="alert" className="text-sm text-rose-600">{error}</p>}
+
+      {jobs.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Started</TableHead>
+              <TableHead>Format</TableHead>
+              <TableHead>Rows</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Available until</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.map((job) => (
+              <TableRow key={job.id}>
+                <TableCell className="text-sm">{sydneyTime(job.createdAt)}</TableCell>
+                <TableCell className="text-sm">
+                  {INVOICE_EXPORT_FORMAT_LABELS[job.format]}
+                  <span className="ml-1 text-xs text-slate-500">{job.columns.length} columns</span>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {job.status === 'completed'
+                    ? job.rowsWritten.toLocaleString()
+                    : job.rowsTotal?.toLocaleString() ?? '—'}
+                  {job.byteSize !== null && job.status === 'completed' && (
+                    <span className="ml-1 text-xs text-slate-500">{formatBytes(job.byteSize)}</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">
+                  <ExportStatus job={job} />
+                </TableCell>
+                <TableCell className="text-sm">
+                  {job.status === 'completed' ? sydneyTime(job.expiresAt) : '—'}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-1">
+                    {job.status === 'completed' && (
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={exportDownloadUrl(job.id)} download={job.filename ?? undefined} aria-label={`Download ${job.filename ?? 'export'}`} title="Download">
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    )}
+                    {isExportJobActive(job.status) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => cancel(job)}
+                        disabled={busy === job.id}
+                        aria-label="Cancel export"
+                        title="Cancel"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { BulkStatusBar } from '../bulk-status-bar'
+import type { BulkStatusUpdateResult } from '@/lib/api/invoices'
+
+const partialResult: BulkStatusUpdateResult = {
+  success: false,
+  batchId: 'batch-1',
+  status: 'paid',
+  results: [
+    { id: 'INV-001', invoiceNumber: 'INV-001', success: true, code: 'UPDATED', previousStatus: 'approved', status: 'paid' },
+    { id: 'INV-002', invoiceNumber: 'INV-002', success: true, code: 'UNCHANGED', previousStatus: 'paid', status: 'paid' },
+    { id: 'INV-003', success: false, code: 'NOT_FOUND', message: 'Invoice not found' },
+  ],
+  summary: { requested: 3, updated: 1, unchanged: 1, failed: 1 },
+}
+
+describe('BulkStatusBar', () => {
+  it('should render nothing when no invoices are selected', () => {
+    const { container } = render(
+      <BulkStatusBar selectedCount={0} onApply={jest.fn()} onClear={jest.fn()} />
+    )
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('should show the number of selected invoices', () => {
+    render(<BulkStatusBar selectedCount={3} onApply={jest.fn()} onClear={jest.fn()} />)
+
+    expect(screen.getByText('3 invoices selected')).toBeInTheDocument()
+  })
+
+  it('should apply the target status and summarise per-invoice results', async () => {
+    const onApply = jest.fn().mockResolvedValue(partialResult)
+    render(<BulkStatusBar selectedCount={3} onApply={onApply} onClear={jest.fn()} />)
+
+    fireEvent.change(screen.getByLabelText('Payment reference'), { target: { value: 'EFT-1234' } })
+    fireEvent.click(screen.getByRole('button', { name: /update status/i }))
+
+    await waitFor(() => {
+      expect(screen.getByText(/1 updated, 1 already paid, 1 failed/)).toBeInTheDocument()
+    })
+    expect(onApply).toHaveBeenCalledWith('paid', {
+      paymentDate: expect.any(String),
+      paymentReference: 'EFT-1234',
+    })
+    expect(screen.getByText('INV-003: Invoice not found')).toBeInTheDocument()
+  })
+
+  it('should require a payment reference before marking invoices as paid', () => {
+    render(<BulkStatusBar selectedCount={2} onApply={jest.fn()} onClear={jest.fn()} />)
+
+    expect(screen.getByRole('button', { name: /update status/i })).toBeDisabled()
+  })
+
+  it('should clear the selection', () => {
+    const onClear = jest.fn()
+    render(<BulkStatusBar selectedCount={2} onApply={jest.fn()} onClear={onClear} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /clear selection/i }))
+
+    expect(onClear).toHaveBeenCalled()
+  })
+})
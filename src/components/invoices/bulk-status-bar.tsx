@@ -0,0 +1,151 @@
+"use client"
+
+import * as React from 'react'
+import { Loader2, X } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { BulkStatusUpdateResult } from '@/lib/api/invoices'
+import type { StatusChangeInput } from '@/lib/invoice-status-machine'
+import { cn } from '@/lib/utils'
+
+const STATUS_OPTIONS = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'in_review', label: 'In Review' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'paid', label: 'Paid' },
+  { value: 'overdue', label: 'Overdue' },
+]
+
+interface BulkStatusBarProps {
+  selectedCount: number
+  onApply: (status: string, details: StatusChangeInput) => Promise<BulkStatusUpdateResult>
+  onClear: () => void
+  className?: string
+}
+
+/**
+ * Action bar shown while invoices are selected in the table or kanban.
+ * Applies one status to the whole selection and lists per-invoice failures.
+ * Marking as paid asks for the payment date and reference the workflow needs.
+ */
+export function BulkStatusBar({ selectedCount, onApply, onClear, className }: BulkStatusBarProps) {
+  const [status, setStatus] = React.useState<string>('paid')
+  const [paymentDate, setPaymentDate] = React.useState(() => new Date().toISOString().split('T')[0])
+  const [paymentReference, setPaymentReference] = React.useState('')
+  const [isApplying, setIsApplying] = React.useState(false)
+  const [result, setResult] = React.useState<BulkStatusUpdateResult | null>(null)
+
+  if (selectedCount === 0 && !result) return null
+
+  const failures = result?.results.filter((item) => !item.success) ?? []
+  const needsPayment = status === 'paid'
+  const canApply = !needsPayment || (paymentDate.length > 0 && paymentReference.trim().length > 0)
+
+  const handleApply = async () => {
+    setIsApplying(true)
+    try {
+      const details: StatusChangeInput = needsPayment
+        ? { paymentDate, paymentReference: paymentReference.trim() }
+        : {}
+      setResult(await onApply(status, details))
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  return (
+    <div
+      role="region"
+      aria-label="Bulk status update"
+      className={cn('space-y-2 rounded-lg border border-blue-200 bg-blue-50/70 px-3 py-2 text-sm', className)}
+    >
+      {selectedCount > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="font-medium text-slate-700">
+            {selectedCount} invoice{selectedCount === 1 ? '' : 's'} selected
+          </span>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="h-8 w-40" aria-label="Target status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {needsPayment && (
+            <>
+              <Input
+                type="date"
+                className="h-8 w-40"
+                aria-label="Payment date"
+                value={paymentDate}
+                onChange={(event) => setPaymentDate(event.target.value)}
+              />
+              <Input
+                className="h-8 w-48"
+                aria-label="Payment reference"
+                placeholder="Payment reference"
+                value={paymentReference}
+                onChange={(event) => setPaymentReference(event.target.value)}
+                maxLength={100}
+              />
+            </>
+          )}
+          <Button size="sm" onClick={handleApply} disabled={isApplying || !canApply}>
+            {isApplying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Update status
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onClear} disabled={isApplying}>
+            Clear selection
+          </Button>
+        </div>
+      )}
+
+      {result && (
+        <div role="status" className="flex items-start justify-between gap-3">
+          <div className={cn(result.error || failures.length ? 'text-rose-700' : 'text-emerald-700')}>
+            {result.error ? (
+              <p>{result.error}</p>
+            ) : (
+              <p>
+                {result.summary.updated} updated
+                {result.summary.unchanged > 0 && `, ${result.summary.unchanged} already ${result.status}`}
+                {failures.length > 0 && `, ${failures.length} failed`}
+              </p>
+            )}
+            {failures.length > 0 && (
+              <ul className="mt-1 list-disc pl-4">
+                {failures.map((item) => (
+                  <li key={item.id}>
+                    {item.invoiceNumber || item.id}: {item.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => setResult(null)}
+            aria-label="Dismiss result"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 "use client"
 
 import { ColumnDef } from "@tanstack/react-table"
+import Link from "next/link"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import {
@@ -11,10 +12,17 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
-import { ArrowUpDown, MoreHorizontal, ExternalLink, CheckCircle, Clock, AlertTriangle, ChevronDown } from "lucide-react"
+import { ArrowUpDown, MoreHorizontal, CheckCircle, Clock, AlertTriangle, ChevronDown, ClipboardCheck, DollarSign, FileMinus2, FileText, History, MessageSquare } from "lucide-react"
 import { Invoice } from "@/lib/types"
 import { formatCurrency } from "@/lib/utils"
 import { updateInvoiceStatus } from "@/lib/api/invoices"
+import { PaymentUpdateModal } from "./payment-update-modal"
+import { CreditNoteModal } from "./credit-note-modal"
+import { InvoiceCommentsDialog } from "./invoice-comments-panel"
+import { InvoiceHistoryDialog } from "./invoice-history-panel"
+import { InvoiceDocumentViewer } from "./document-viewer"
+import { HighlightedText, SearchSnippet } from "./search-highlight"
+import { InvoiceApprovalsDialog } from "@/components/approvals/invoice-approvals-panel"
 import { useQueryClient, useMutation } from "@tanstack/react-query"
 import { useState } from "react"
 import { toast } from "sonner"
@@ -57,27 +65,7 @@ export const invoiceColumns: ColumnDef<Invoice>[] = [
         </Button>
       )
     },
-    cell: ({ row }) => {
-      const invoice = row.original
-      return (
-        <div className="flex items-center space-x-2">
-          <span className="font-semibold text-slate-900 dark:text-slate-100">
-            {invoice.invoiceNumber}
-          </span>
-          {invoice.invoiceUrl && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => window.open(invoice.invoiceUrl, '_blank')}
-              className="h-6 w-6 p-0"
-              aria-label={`Open invoice ${invoice.invoiceNumber} in new tab`}
-            >
-              <ExternalLink className="h-3 w-3" />
-            </Button>
-          )}
-        </div>
-      )
-    },
+    cell: ({ row }) => <InvoiceNumberCell invoice={row.original} />,
   },
   {
     accessorKey: "vendorName",
@@ -97,9 +85,18 @@ export const invoiceColumns: ColumnDef<Invoice>[] = [
       const vendor = row.getValue("vendorName") as string
       return (
         <div className="max-w-[200px]">
-          <div className="truncate font-semibold text-slate-900 dark:text-slate-100">
-            {vendor}
-          </div>
+          {row.original.vendorId ? (
+            <Link
+              href={`/vendors/${row.original.vendorId}`}
+              className="block truncate font-semibold text-slate-900 hover:underline dark:text-slate-100"
+            >
+              <HighlightedText text={vendor} terms={row.original.searchMatch?.terms} />
+            </Link>
+          ) : (
+            <div className="truncate font-semibold text-slate-900 dark:text-slate-100">
+              <HighlightedText text={vendor} terms={row.original.searchMatch?.terms} />
+            </div>
+          )}
           <div className="truncate text-xs text-slate-600 dark:text-slate-300">
             {row.original.vendorEmail}
           </div>
@@ -206,7 +203,7 @@ export const invoiceColumns: ColumnDef<Invoice>[] = [
     },
     cell: ({ row }) => {
       const description = (row.getValue("description") as string) ?? (row.getValue("line_1_desc") as string) ?? ""
-      return <DescriptionCell description={description} />
+      return <DescriptionCell description={description} snippet={row.original.searchMatch?.snippet} />
     },
   },
   {
@@ -270,23 +267,124 @@ export const invoiceColumns: ColumnDef<Invoice>[] = [
   {
     id: "actions",
     header: "Actions",
-    cell: ({ row }) => {
-      const invoice = row.original
+    cell: ({ row }) => <InvoiceActionsCell invoice={row.original} />,
+    enableSorting: false,
+    enableHiding: false,
+  },
+]
 
-      return (
-        <div className="pr-2">
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button variant="ghost" className="h-8 w-8 p-0" aria-label={`Open actions menu for invoice ${invoice.invoiceNumber}`}>
-                <span className="sr-only">Open menu</span>
-                <MoreHorizontal className="h-4 w-4" />
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end">
-              <DropdownMenuLabel>Actions</DropdownMenuLabel>
-              <DropdownMenuSeparator />
+// Invoice number with a button that previews the stored document
+function InvoiceNumberCell({ invoice }: { invoice: Invoice }) {
+  const [isDocumentOpen, setIsDocumentOpen] = useState(false)
 
-              {/* Status Updates */}
+  return (
+    <div className="flex items-center space-x-2">
+      <Link
+        href={`/invoices/${encodeURIComponent(invoice.id)}`}
+        className="font-semibold text-slate-900 hover:underline dark:text-slate-100"
+      >
+        <HighlightedText text={invoice.invoiceNumber} terms={invoice.searchMatch?.terms} />
+      </Link>
+      {invoice.documentType && invoice.documentType !== 'invoice' && (
+        <Badge variant="outline" className="text-xs">
+          {invoice.documentType === 'credit_note' ? 'Credit note' : 'Adjustment'}
+        </Badge>
+      )}
+      {invoice.duplicateOfId && (
+        <Badge variant="outline" className="text-xs text-amber-700" title="Merged duplicate; not counted in totals">
+          Duplicate
+        </Badge>
+      )}
+      {invoice.invoiceUrl && (
+        <>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsDocumentOpen(true)}
+            className="h-6 w-6 p-0"
+            aria-label={`Preview invoice ${invoice.invoiceNumber} document`}
+          >
+            <FileText className="h-3 w-3" />
+          </Button>
+          <InvoiceDocumentViewer invoice={invoice} open={isDocumentOpen} onOpenChange={setIsDocumentOpen} />
+        </>
+      )}
+    </div>
+  )
+}
+
+// Actions Cell Component
+interface InvoiceActionsCellProps {
+  invoice: Invoice
+}
+
+function InvoiceActionsCell({ invoice }: InvoiceActionsCellProps) {
+  const [isPaymentOpen, setIsPaymentOpen] = useState(false)
+  const [isCreditNoteOpen, setIsCreditNoteOpen] = useState(false)
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [isDocumentOpen, setIsDocumentOpen] = useState(false)
+  const [isApprovalsOpen, setIsApprovalsOpen] = useState(false)
+  const isInvoice = !invoice.documentType || invoice.documentType === 'invoice'
+  const queryClient = useQueryClient()
+
+  const refreshInvoiceQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['invoices'] })
+    queryClient.invalidateQueries({ queryKey: ['kanban-invoices'] })
+    queryClient.invalidateQueries({ queryKey: ['kanban-all-invoices'] })
+    queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] })
+    queryClient.invalidateQueries({ queryKey: ['payables-aging'] })
+    queryClient.invalidateQueries({ queryKey: ['payables-forecast'] })
+    queryClient.invalidateQueries({ queryKey: ['recurring-insights'] })
+    queryClient.invalidateQueries({ queryKey: ['invoice-facets'] })
+  }
+
+  return (
+    <div className="pr-2">
+      <PaymentUpdateModal
+        invoice={invoice}
+        isOpen={isPaymentOpen}
+        onClose={() => setIsPaymentOpen(false)}
+        onRecorded={(result) => {
+          refreshInvoiceQueries()
+          toast.success(
+            result.invoice?.status === 'paid'
+              ? `Invoice ${invoice.invoiceNumber} paid in full`
+              : `Payment recorded for invoice ${invoice.invoiceNumber}`
+          )
+        }}
+      />
+      <CreditNoteModal
+        invoice={invoice}
+        isOpen={isCreditNoteOpen}
+        onClose={() => setIsCreditNoteOpen(false)}
+        onCreated={(result) => {
+          refreshInvoiceQueries()
+          toast.success(
+            `${result.creditNote?.invoiceNumber ?? 'Credit note'} applied to invoice ${invoice.invoiceNumber}`
+          )
+        }}
+      />
+      <InvoiceCommentsDialog invoice={invoice} open={isCommentsOpen} onOpenChange={setIsCommentsOpen} />
+      <InvoiceHistoryDialog invoice={invoice} open={isHistoryOpen} onOpenChange={setIsHistoryOpen} />
+      <InvoiceDocumentViewer invoice={invoice} open={isDocumentOpen} onOpenChange={setIsDocumentOpen} />
+      {isInvoice && (
+        <InvoiceApprovalsDialog invoice={invoice} open={isApprovalsOpen} onOpenChange={setIsApprovalsOpen} />
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" className="h-8 w-8 p-0" aria-label={`Open actions menu for invoice ${invoice.invoiceNumber}`}>
+            <span className="sr-only">Open menu</span>
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Actions</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+
+          {/* Status Updates; credit notes and adjustments follow their invoice */}
+          {isInvoice && (
+            <>
               <DropdownMenuLabel className="text-xs text-muted-foreground">Update Status</DropdownMenuLabel>
               {invoice.status !== 'pending' && (
                 <DropdownMenuItem
@@ -324,7 +422,9 @@ export const invoiceColumns: ColumnDef<Invoice>[] = [
                 <DropdownMenuItem
                   onClick={async () => {
                     const result = await updateInvoiceStatus(invoice.id, 'approved')
-                    if (result.success) {
+                    if (result.success && result.code === 'APPROVAL_RECORDED') {
+                      toast.success(`Invoice ${invoice.invoiceNumber}: ${result.message}`)
+                    } else if (result.success) {
                       toast.success(`Invoice ${invoice.invoiceNumber} status updated to Approved`)
                     } else {
                       toast.error(result.error || 'Failed to update status')
@@ -336,22 +436,29 @@ export const invoiceColumns: ColumnDef<Invoice>[] = [
                   Mark as Approved
                 </DropdownMenuItem>
               )}
+              <DropdownMenuItem
+                onClick={() => setIsApprovalsOpen(true)}
+                className="cursor-pointer"
+              >
+                <ClipboardCheck className="mr-2 h-4 w-4 text-purple-500" />
+                Approvals…
+              </DropdownMenuItem>
               {invoice.status !== 'paid' && (
                 <DropdownMenuItem
-                  onClick={async () => {
-                    const result = await updateInvoiceStatus(invoice.id, 'paid')
-                    if (result.success) {
-                      toast.success(`Invoice ${invoice.invoiceNumber} status updated to Paid`)
-                    } else {
-                      toast.error(result.error || 'Failed to update status')
-                    }
-                  }}
+                  onClick={() => setIsPaymentOpen(true)}
                   className="cursor-pointer"
                 >
-                  <CheckCircle className="mr-2 h-4 w-4 text-green-500" />
-                  Mark as Paid
+                  <DollarSign className="mr-2 h-4 w-4 text-green-500" />
+                  Record Payment…
                 </DropdownMenuItem>
               )}
+              <DropdownMenuItem
+                onClick={() => setIsCreditNoteOpen(true)}
+                className="cursor-pointer"
+              >
+                <FileMinus2 className="mr-2 h-4 w-4 text-slate-500" />
+                Add Credit Note…
+              </DropdownMenuItem>
               {invoice.status !== 'overdue' && (
                 <DropdownMenuItem
                   onClick={async () => {
@@ -370,49 +477,72 @@ export const invoiceColumns: ColumnDef<Invoice>[] = [
               )}
 
               <DropdownMenuSeparator />
+            </>
+          )}
 
-              {/* File Actions */}
-              {invoice.invoiceUrl && (
-                <DropdownMenuItem
-                  onClick={() => window.open(invoice.invoiceUrl, '_blank')}
-                  className="cursor-pointer"
-                >
-                  <ExternalLink className="mr-2 h-4 w-4" />
-                  View Invoice
-                </DropdownMenuItem>
-              )}
+          <DropdownMenuItem
+            onClick={() => setIsCommentsOpen(true)}
+            className="cursor-pointer"
+          >
+            <MessageSquare className="mr-2 h-4 w-4" />
+            Comments…
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setIsHistoryOpen(true)}
+            className="cursor-pointer"
+          >
+            <History className="mr-2 h-4 w-4" />
+            History…
+          </DropdownMenuItem>
 
-              <DropdownMenuSeparator />
+          {/* File Actions */}
+          {invoice.invoiceUrl && (
+            <DropdownMenuItem
+              onClick={() => setIsDocumentOpen(true)}
+              className="cursor-pointer"
+            >
+              <FileText className="mr-2 h-4 w-4" />
+              View Invoice
+            </DropdownMenuItem>
+          )}
 
-              {/* Copy Actions */}
-              <DropdownMenuItem
-                onClick={() => navigator.clipboard.writeText(invoice.invoiceNumber)}
-                className="cursor-pointer"
-              >
-                Copy Invoice #
-              </DropdownMenuItem>
-              <DropdownMenuItem
-                onClick={() => navigator.clipboard.writeText(invoice.vendorEmail)}
-                className="cursor-pointer"
-              >
-                Copy Vendor Email
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
-        </div>
-      )
-    },
-    enableSorting: false,
-    enableHiding: false,
-  },
-]
+          <DropdownMenuSeparator />
+
+          {/* Copy Actions */}
+          <DropdownMenuItem
+            onClick={() => navigator.clipboard.writeText(invoice.invoiceNumber)}
+            className="cursor-pointer"
+          >
+            Copy Invoice #
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => navigator.clipboard.writeText(invoice.vendorEmail)}
+            className="cursor-pointer"
+          >
+            Copy Vendor Email
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
 
 // Description Cell Component
 interface DescriptionCellProps {
   description: string
+  /** Matching passage when the list was searched; shown in place of the first line */
+  snippet?: string | null
 }
 
-function DescriptionCell({ description }: DescriptionCellProps) {
+function DescriptionCell({ description, snippet }: DescriptionCellProps) {
+  if (snippet) {
+    return (
+      <div className="max-w-[200px]" title={description || undefined}>
+        <SearchSnippet snippet={snippet} className="line-clamp-2 text-sm" />
+      </div>
+    )
+  }
+
   if (!description) {
     return <div className="text-sm text-slate-500 dark:text-slate-400">—</div>
   }
@@ -480,6 +610,8 @@ function StatusUpdateDropdown({ invoice }: StatusUpdateDropdownProps) {
       queryClient.invalidateQueries({ queryKey: ['kanban-invoices'] })
       queryClient.invalidateQueries({ queryKey: ['kanban-all-invoices'] })
       queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] })
+      queryClient.invalidateQueries({ queryKey: ['payables-aging'] })
+      queryClient.invalidateQueries({ queryKey: ['payables-forecast'] })
       queryClient.invalidateQueries({ queryKey: ['invoice-facets'] })
 
       toast.success(`Invoice ${invoice.invoiceNumber} status updated to paid`)
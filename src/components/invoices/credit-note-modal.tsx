@@ -0,0 +1,282 @@
+"use client"
+
+import * as React from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { AlertTriangle, FileMinus2, Loader2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  createInvoiceCreditNote,
+  fetchInvoiceCreditNotes,
+  type CreateCreditNoteResult,
+} from '@/lib/api/invoices'
+import type { CreditNoteInput } from '@/lib/schemas/api'
+import type { Invoice } from '@/lib/types'
+import { formatCurrency } from '@/lib/utils'
+
+interface CreditNoteModalProps {
+  invoice: Pick<Invoice, 'id' | 'invoiceNumber' | 'vendorName' | 'amount' | 'amountDue'> | null
+  isOpen: boolean
+  onClose: () => void
+  /** Called after the credit note is saved, with the updated invoice balance */
+  onCreated?: (result: CreateCreditNoteResult) => void
+}
+
+type DocumentType = CreditNoteInput['documentType']
+
+const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  credit_note: 'Credit note',
+  adjustment: 'Adjustment',
+}
+
+const today = () => new Date().toISOString().split('T')[0]
+
+export function CreditNoteModal({ invoice, isOpen, onClose, onCreated }: CreditNoteModalProps) {
+  const queryClient = useQueryClient()
+  const [documentType, setDocumentType] = React.useState<DocumentType>('credit_note')
+  const [documentNumber, setDocumentNumber] = React.useState('')
+  const [amount, setAmount] = React.useState('')
+  const [issueDate, setIssueDate] = React.useState(today)
+  const [reason, setReason] = React.useState('')
+  const [invoiceUrl, setInvoiceUrl] = React.useState('')
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const invoiceKey = invoice ? invoice.id || invoice.invoiceNumber : ''
+
+  const { data: history, isLoading: isHistoryLoading } = useQuery({
+    queryKey: ['invoice-credit-notes', invoiceKey],
+    queryFn: () => fetchInvoiceCreditNotes(invoiceKey),
+    enabled: isOpen && !!invoiceKey,
+  })
+
+  React.useEffect(() => {
+    if (!isOpen) return
+    setDocumentType('credit_note')
+    setDocumentNumber('')
+    setAmount('')
+    setIssueDate(today())
+    setReason('')
+    setInvoiceUrl('')
+    setError(null)
+  }, [isOpen, invoiceKey])
+
+  if (!invoice) return null
+
+  const amountDue = history?.invoice.amountDue ?? invoice.amountDue ?? invoice.amount
+  const parsedAmount = Number(amount)
+  // Credit notes always reduce the balance; adjustments are entered with their sign
+  const delta = documentType === 'credit_note' ? -Math.abs(parsedAmount) : parsedAmount
+  const isAmountValid = amount.trim() !== '' && Number.isFinite(parsedAmount) && parsedAmount !== 0
+    && (documentType === 'adjustment' || parsedAmount > 0)
+  const newBalance = isAmountValid ? Math.round((amountDue + delta) * 100) / 100 : amountDue
+  const exceedsBalance = isAmountValid && newBalance < 0
+  const canSubmit = isAmountValid && !exceedsBalance && !!documentNumber.trim() && !!issueDate && !!reason.trim()
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!canSubmit) return
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const result = await createInvoiceCreditNote(invoiceKey, {
+        documentType,
+        documentNumber: documentNumber.trim(),
+        amount: Math.round(parsedAmount * 100) / 100,
+        issueDate,
+        reason: reason.trim(),
+        invoiceUrl: invoiceUrl.trim() || undefined,
+      })
+
+      if (!result.success) {
+        setError(result.error || 'Failed to save credit note')
+        return
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['invoice-credit-notes', invoiceKey] })
+      onCreated?.(result)
+      onClose()
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileMinus2 className="h-5 w-5 text-blue-600" />
+            Credit note or adjustment
+          </DialogTitle>
+          <DialogDescription>
+            Applies to invoice {invoice.invoiceNumber} from {invoice.vendorName}. Outstanding: {formatCurrency(amountDue)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="credit-document-type">Type</Label>
+              <Select value={documentType} onValueChange={(value) => setDocumentType(value as DocumentType)}>
+                <SelectTrigger id="credit-document-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DOCUMENT_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="credit-document-number">Document number *</Label>
+              <Input
+                id="credit-document-number"
+                placeholder="e.g., CN-1042"
+                value={documentNumber}
+                onChange={(e) => setDocumentNumber(e.target.value)}
+                maxLength={100}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="credit-amount">
+                {documentType === 'credit_note' ? 'Credit amount *' : 'Adjustment (+/-) *'}
+              </Label>
+              <Input
+                id="credit-amount"
+                type="number"
+                inputMode="decimal"
+                step="0.01"
+                min={documentType === 'credit_note' ? '0.01' : undefined}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="credit-issue-date">Issue date *</Label>
+              <Input
+                id="credit-issue-date"
+                type="date"
+                value={issueDate}
+                onChange={(e) => setIssueDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="credit-reason">Reason *</Label>
+            <Textarea
+              id="credit-reason"
+              placeholder="e.g., Returned goods, pricing correction"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="credit-url">Document URL</Label>
+            <Input
+              id="credit-url"
+              type="url"
+              placeholder="https://"
+              value={invoiceUrl}
+              onChange={(e) => setInvoiceUrl(e.target.value)}
+            />
+          </div>
+
+          {isAmountValid && (
+            <div
+              className={`flex items-start gap-2 rounded-lg border p-3 text-sm ${
+                exceedsBalance
+                  ? 'border-rose-200 bg-rose-50 text-rose-700'
+                  : 'border-slate-200 bg-slate-50 text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300'
+              }`}
+            >
+              {exceedsBalance && <AlertTriangle className="mt-0.5 h-4 w-4" />}
+              <span>
+                {exceedsBalance
+                  ? `The credit is larger than the ${formatCurrency(amountDue)} outstanding.`
+                  : newBalance === 0
+                    ? 'This clears the balance and marks the invoice as paid.'
+                    : `New outstanding balance: ${formatCurrency(newBalance)}`}
+              </span>
+            </div>
+          )}
+
+          {error && (
+            <div role="alert" className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-slate-700 dark:text-slate-300">Applied so far</p>
+            {isHistoryLoading ? (
+              <p className="text-sm text-slate-500">Loading…</p>
+            ) : history?.creditNotes.length ? (
+              <ul className="divide-y divide-slate-200 rounded-lg border border-slate-200 dark:divide-slate-700 dark:border-slate-700">
+                {history.creditNotes.map((note) => (
+                  <li key={note.id} className="flex items-start justify-between gap-3 px-3 py-2 text-sm">
+                    <div>
+                      <p className="font-medium">
+                        {note.invoiceNumber}
+                        <span className="ml-2 text-xs text-slate-500">{DOCUMENT_TYPE_LABELS[note.documentType]}</span>
+                      </p>
+                      {note.description && <p className="text-xs text-slate-500">{note.description}</p>}
+                    </div>
+                    <div className="text-right">
+                      <p className="font-medium">{formatCurrency(note.amount)}</p>
+                      {note.issueDate && (
+                        <p className="text-xs text-slate-500">{new Date(note.issueDate).toLocaleDateString('en-AU')}</p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-slate-500">No credit notes or adjustments yet.</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit || isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save {DOCUMENT_TYPE_LABELS[documentType].toLowerCase()}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
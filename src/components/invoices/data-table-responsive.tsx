@@ -5,7 +5,8 @@ import { DataTable } from './data-table'
 import { InvoiceCardList } from './invoice-card-list'
 import type { ColumnDef, SortingState, ColumnFiltersState, PaginationState } from '@tanstack/react-table'
 import type { Invoice } from '@/lib/types'
-import type { InvoiceFacetsResponse } from '@/lib/api/invoices'
+import type { BulkStatusUpdateResult, InvoiceFacetsResponse } from '@/lib/api/invoices'
+import type { StatusChangeInput } from '@/lib/invoice-status-machine'
 
 interface DataTableResponsiveProps {
   columns: ColumnDef<Invoice, any>[]
@@ -23,6 +24,7 @@ interface DataTableResponsiveProps {
   manualSorting?: boolean
   manualFiltering?: boolean
   facets?: InvoiceFacetsResponse['facets']
+  onBulkStatusUpdate?: (ids: string[], status: string, details: StatusChangeInput) => Promise<BulkStatusUpdateResult>
 }
 
 /**
@@ -3,10 +3,9 @@
 import { Cross2Icon } from "@radix-ui/react-icons"
 import { Table } from "@tanstack/react-table"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
 import { DataTableViewOptions } from "@/components/invoices/data-table-view-options"
 import { DataTableFacetedFilter } from "@/components/invoices/data-table-faceted-filter"
-import { Search } from "lucide-react"
+import { SearchQueryInput } from "@/components/invoices/search-query-input"
 import type { InvoiceFacetsResponse } from "@/lib/api/invoices"
 import { useInvoiceFilters } from "@/hooks/use-invoices-filters"
 
@@ -19,25 +18,13 @@ export function DataTableToolbar<TData>({
   table,
   facets,
 }: DataTableToolbarProps<TData>) {
-  const { filters, setSearch, reset } = useInvoiceFilters()
+  const { filters, reset } = useInvoiceFilters()
   const isFiltered = table.getState().columnFilters.length > 0 || Boolean(filters.search)
 
   return (
     <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
       <div className="flex flex-1 flex-wrap items-center gap-3">
-        <div className="relative w-full max-w-sm">
-          <Search className="absolute left-2 top-2.5 h-4 w-4 text-slate-400" />
-          <Input
-            id="search-invoices"
-            placeholder="Search invoices..."
-            value={filters.search}
-            onChange={(event) => {
-              setSearch(event.target.value)
-            }}
-            className="pl-8"
-            aria-label="Search invoices by vendor name, invoice number, or description"
-          />
-        </div>
+        <SearchQueryInput facets={facets} />
 
         <div className="flex flex-wrap gap-2">
           {table.getColumn("status") && (
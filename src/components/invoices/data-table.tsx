@@ -13,6 +13,7 @@ import {
   getFilteredRowModel,
   getPaginationRowModel,
   getSortedRowModel,
+  RowSelectionState,
   useReactTable,
 } from "@tanstack/react-table"
 import {
@@ -25,8 +26,10 @@ import {
 } from "@/components/ui/table"
 import { DataTablePagination } from "@/components/invoices/data-table-pagination"
 import { DataTableToolbar } from "@/components/invoices/data-table-toolbar"
+import { BulkStatusBar } from "@/components/invoices/bulk-status-bar"
 
-import type { InvoiceFacetsResponse } from '@/lib/api/invoices'
+import type { BulkStatusUpdateResult, InvoiceFacetsResponse } from '@/lib/api/invoices'
+import type { StatusChangeInput } from '@/lib/invoice-status-machine'
 
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[]
@@ -44,6 +47,7 @@ interface DataTableProps<TData, TValue> {
   manualSorting?: boolean
   manualFiltering?: boolean
   facets?: InvoiceFacetsResponse['facets']
+  onBulkStatusUpdate?: (ids: string[], status: string, details: StatusChangeInput) => Promise<BulkStatusUpdateResult>
 }
 
 export function DataTable<TData, TValue>({
@@ -62,8 +66,10 @@ export function DataTable<TData, TValue>({
   manualSorting = false,
   manualFiltering = false,
   facets,
+  onBulkStatusUpdate,
 }: DataTableProps<TData, TValue>) {
-  const [rowSelection, setRowSelection] = React.useState({})
+  // Keyed by invoice id so the selection survives server-side paging
+  const [rowSelection, setRowSelection] = React.useState<RowSelectionState>({})
   const [columnVisibility, setColumnVisibility] = React.useState<VisibilityState>({})
 
   const table = useReactTable({
@@ -81,6 +87,7 @@ export function DataTable<TData, TValue>({
       },
     },
     enableRowSelection: true,
+    getRowId: (row, index) => String((row as { id?: string }).id ?? index),
     onRowSelectionChange: setRowSelection,
     onSortingChange,
     onColumnFiltersChange,
@@ -97,9 +104,34 @@ export function DataTable<TData, TValue>({
     manualFiltering,
   })
 
+  const selectedIds = React.useMemo(
+    () => Object.keys(rowSelection).filter((id) => rowSelection[id]),
+    [rowSelection],
+  )
+
+  const handleBulkStatusUpdate = React.useCallback(
+    async (status: string, details: StatusChangeInput) => {
+      const result = await onBulkStatusUpdate!(selectedIds, status, details)
+      // Keep failed invoices selected so they can be retried or inspected
+      const succeeded = new Set(result.results.filter((item) => item.success).map((item) => item.id))
+      setRowSelection((current) =>
+        Object.fromEntries(Object.entries(current).filter(([id]) => !succeeded.has(id))),
+      )
+      return result
+    },
+    [onBulkStatusUpdate, selectedIds],
+  )
+
   return (
     <div className="space-y-4">
       <DataTableToolbar table={table} facets={facets} />
+      {onBulkStatusUpdate && (
+        <BulkStatusBar
+          selectedCount={selectedIds.length}
+          onApply={handleBulkStatusUpdate}
+          onClear={() => setRowSelection({})}
+        />
+      )}
       <div className="overflow-hidden rounded-xl border border-slate-200/80 bg-white shadow-sm">
         <Table className="rpd-table">
           <TableHeader>
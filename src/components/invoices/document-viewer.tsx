@@ -0,0 +1,154 @@
+"use client"
+
+import * as React from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { ChevronLeft, ChevronRight, Download, ExternalLink, FileText, Loader2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { fetchInvoiceDocumentMeta, invoiceDocumentUrl } from '@/lib/api/invoices'
+
+interface InvoiceDocumentViewerProps {
+  invoice: { id: string; invoiceNumber: string; invoiceUrl?: string }
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function formatSize(bytes: number | null) {
+  if (!bytes) return null
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function DocumentPreview({ invoiceId, invoiceNumber }: { invoiceId: string; invoiceNumber: string }) {
+  const [page, setPage] = React.useState(1)
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['invoice-document', invoiceId],
+    queryFn: () => fetchInvoiceDocumentMeta(invoiceId),
+    retry: false,
+  })
+
+  const documentUrl = invoiceDocumentUrl(invoiceId)
+  const downloadUrl = invoiceDocumentUrl(invoiceId, { download: true })
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-1 items-center justify-center text-sm text-slate-500">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading document…
+      </div>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <p role="alert" className="px-4 text-sm text-rose-600">
+        {error instanceof Error ? error.message : 'Could not load document'}
+      </p>
+    )
+  }
+
+  const pages = data.pages
+  const size = formatSize(data.size)
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col gap-3 px-4 pb-4">
+      <div className="flex items-center justify-between gap-2 text-xs text-slate-500">
+        <span className="truncate" title={data.filename}>
+          {data.filename}{size ? ` · ${size}` : ''}
+        </span>
+        <Button variant="outline" size="sm" asChild>
+          <a href={downloadUrl}>
+            <Download className="mr-1 h-3 w-3" /> Download
+          </a>
+        </Button>
+      </div>
+
+      {data.kind === 'pdf' ? (
+        <>
+          {/* Keyed by page: browsers only honour #page when the frame loads */}
+          <iframe
+            key={page}
+            src={`${documentUrl}#page=${page}`}
+            title={`Invoice ${invoiceNumber}, page ${page}`}
+            className="min-h-0 flex-1 rounded-md border border-slate-200 dark:border-slate-700"
+          />
+          <div className="flex items-center justify-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((value) => Math.max(1, value - 1))}
+              disabled={page <= 1}
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm tabular-nums text-slate-600 dark:text-slate-300" aria-live="polite">
+              Page {page}{pages ? ` of ${pages}` : ''}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((value) => (pages ? Math.min(pages, value + 1) : value + 1))}
+              disabled={pages !== null && page >= pages}
+              aria-label="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </>
+      ) : data.kind === 'image' ? (
+        <div className="min-h-0 flex-1 overflow-auto rounded-md border border-slate-200 bg-slate-50 dark:border-slate-700 dark:bg-slate-900">
+          <img src={documentUrl} alt={`Invoice ${invoiceNumber}`} className="mx-auto max-w-full" />
+        </div>
+      ) : (
+        <div className="flex flex-1 flex-col items-center justify-center gap-2 text-sm text-slate-500">
+          <FileText className="h-8 w-8" />
+          <p>This file type cannot be previewed.</p>
+          <Button variant="outline" size="sm" asChild>
+            <a href={downloadUrl}>
+              <Download className="mr-1 h-3 w-3" /> Download file
+            </a>
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function InvoiceDocumentViewer({ invoice, open, onOpenChange }: InvoiceDocumentViewerProps) {
+  const invoiceId = invoice.id || invoice.invoiceNumber
+  const originalUrl = invoice.invoiceUrl?.startsWith('https://') ? invoice.invoiceUrl : null
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full gap-0 sm:max-w-2xl">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5 text-blue-600" />
+            Invoice {invoice.invoiceNumber}
+          </SheetTitle>
+          <SheetDescription className="flex items-center gap-3">
+            <span>Document preview</span>
+            {originalUrl && (
+              <a
+                href={originalUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+              >
+                <ExternalLink className="h-3 w-3" /> Open original
+              </a>
+            )}
+          </SheetDescription>
+        </SheetHeader>
+        {open && <DocumentPreview invoiceId={invoiceId} invoiceNumber={invoice.invoiceNumber} />}
+      </SheetContent>
+    </Sheet>
+  )
+}
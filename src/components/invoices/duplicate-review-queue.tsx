@@ -0,0 +1,244 @@
+"use client"
+
+import * as React from 'react'
+import Link from 'next/link'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Copy, GitMerge, Link2, Loader2, RefreshCw, X } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  fetchDuplicateQueue,
+  resolveDuplicatePair,
+  scanForDuplicateInvoices,
+  type DuplicateInvoiceSummary,
+  type DuplicatePairStatus,
+  type InvoiceDuplicatePair,
+} from '@/lib/api/invoices'
+import { cn, formatCurrency, formatDate } from '@/lib/utils'
+
+const SIGNAL_LABELS: Record<InvoiceDuplicatePair['signals'][number], string> = {
+  file_checksum: 'Same file',
+  supplier: 'Same supplier',
+  invoice_number: 'Same invoice #',
+  amount: 'Same amount',
+  date: 'Close dates',
+}
+
+const STATUS_TABS: Array<{ value: DuplicatePairStatus; label: string }> = [
+  { value: 'pending', label: 'To review' },
+  { value: 'merged', label: 'Merged' },
+  { value: 'linked', label: 'Linked' },
+  { value: 'dismissed', label: 'Dismissed' },
+]
+
+function InvoiceSummary({
+  invoice,
+  label,
+  selected,
+  onSelect,
+}: {
+  invoice: DuplicateInvoiceSummary
+  label: string
+  selected?: boolean
+  onSelect?: () => void
+}) {
+  return (
+    <div
+      className={cn(
+        'rounded-md border p-3 text-sm',
+        selected ? 'border-blue-500 bg-blue-50/50 dark:bg-blue-950/20' : 'border-slate-200 dark:border-slate-700'
+      )}
+    >
+      <div className="mb-1 flex items-center justify-between gap-2">
+        <span className="text-xs uppercase tracking-wide text-slate-500">{label}</span>
+        {onSelect && (
+          <label className="flex items-center gap-1 text-xs text-slate-600 dark:text-slate-300">
+            <input type="radio" checked={selected} onChange={onSelect} />
+            Keep
+          </label>
+        )}
+      </div>
+      <Link
+        href={`/invoices/${encodeURIComponent(invoice.id)}`}
+        className="block font-semibold text-slate-900 hover:underline dark:text-slate-100"
+      >
+        {invoice.invoiceNumber || '—'}
+      </Link>
+      <p className="text-slate-700 dark:text-slate-300">{invoice.vendorName || 'Unknown vendor'}</p>
+      <p className="tabular-nums">{formatCurrency(invoice.amount)}</p>
+      <p className="text-xs text-slate-500">
+        {invoice.issueDate ? formatDate(invoice.issueDate) : 'No issue date'}
+        {invoice.source ? ` · ${invoice.source}` : ''}
+        {` · ${invoice.status}`}
+      </p>
+    </div>
+  )
+}
+
+function DuplicatePairCard({ pair, onResolved }: { pair: InvoiceDuplicatePair; onResolved: () => void }) {
+  const [keepId, setKeepId] = React.useState(pair.invoiceId)
+  const [pending, setPending] = React.useState<'merge' | 'link' | 'dismiss' | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const isPending = pair.status === 'pending'
+
+  const resolve = async (action: 'merge' | 'link' | 'dismiss') => {
+    setPending(action)
+    setError(null)
+    try {
+      const result = await resolveDuplicatePair(pair.id, action === 'merge' ? { action, keepId } : { action })
+      if (!result.success) {
+        setError(result.error || 'Failed to resolve pair')
+        return
+      }
+      onResolved()
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <Card data-testid="duplicate-pair">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex flex-wrap items-center gap-2 text-base">
+          <Copy className="h-4 w-4 text-amber-600" />
+          {Math.round(pair.score * 100)}% match
+          {pair.signals.map((signal) => (
+            <Badge key={signal} variant="outline" className="text-xs font-normal">
+              {SIGNAL_LABELS[signal] ?? signal}
+            </Badge>
+          ))}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <InvoiceSummary
+            invoice={pair.invoice}
+            label="Received first"
+            selected={isPending && keepId === pair.invoiceId}
+            onSelect={isPending ? () => setKeepId(pair.invoiceId) : undefined}
+          />
+          <InvoiceSummary
+            invoice={pair.duplicate}
+            label="Received later"
+            selected={isPending && keepId === pair.duplicateId}
+            onSelect={isPending ? () => setKeepId(pair.duplicateId) : undefined}
+          />
+        </div>
+
+        {error && <p role="alert" className="text-sm text-rose-600">{error}</p>}
+
+        {isPending ? (
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="ghost" size="sm" disabled={!!pending} onClick={() => resolve('dismiss')}>
+              {pending === 'dismiss' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <X className="mr-2 h-4 w-4" />}
+              Not a duplicate
+            </Button>
+            <Button variant="outline" size="sm" disabled={!!pending} onClick={() => resolve('link')}>
+              {pending === 'link' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+              Link as related
+            </Button>
+            <Button size="sm" disabled={!!pending} onClick={() => resolve('merge')}>
+              {pending === 'merge' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <GitMerge className="mr-2 h-4 w-4" />}
+              Merge into selected
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-slate-500">
+            {pair.status.charAt(0).toUpperCase() + pair.status.slice(1)}
+            {pair.resolvedByEmail ? ` by ${pair.resolvedByEmail}` : ''}
+            {pair.resolvedAt ? ` on ${formatDate(pair.resolvedAt)}` : ''}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function DuplicateReviewQueue() {
+  const queryClient = useQueryClient()
+  const [status, setStatus] = React.useState<DuplicatePairStatus>('pending')
+  const [isScanning, setIsScanning] = React.useState(false)
+  const [message, setMessage] = React.useState<{ tone: 'info' | 'error'; text: string } | null>(null)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['invoice-duplicates', status],
+    queryFn: () => fetchDuplicateQueue(status),
+  })
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['invoice-duplicates'] })
+    queryClient.invalidateQueries({ queryKey: ['invoices'] })
+    queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] })
+    queryClient.invalidateQueries({ queryKey: ['payables-aging'] })
+    queryClient.invalidateQueries({ queryKey: ['payables-forecast'] })
+    queryClient.invalidateQueries({ queryKey: ['recurring-insights'] })
+  }
+
+  const handleScan = async () => {
+    setIsScanning(true)
+    setMessage(null)
+    try {
+      const result = await scanForDuplicateInvoices()
+      if (!result.success) {
+        setMessage({ tone: 'error', text: result.error || 'Scan failed' })
+        return
+      }
+      setMessage({
+        tone: 'info',
+        text: `Checked ${result.scanned ?? 0} invoices; ${result.queued ?? 0} new possible duplicate${result.queued === 1 ? '' : 's'}`,
+      })
+      refresh()
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-1" role="tablist" aria-label="Duplicate pair status">
+          {STATUS_TABS.map((tab) => (
+            <Button
+              key={tab.value}
+              role="tab"
+              aria-selected={status === tab.value}
+              variant={status === tab.value ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setStatus(tab.value)}
+            >
+              {tab.label}
+            </Button>
+          ))}
+        </div>
+        <Button variant="outline" size="sm" onClick={handleScan} disabled={isScanning}>
+          {isScanning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+          Scan for duplicates
+        </Button>
+      </div>
+
+      {message && (
+        <p role={message.tone === 'error' ? 'alert' : 'status'} className={cn('text-sm', message.tone === 'error' ? 'text-rose-600' : 'text-slate-600')}>
+          {message.text}
+        </p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-slate-500">Loading possible duplicates…</p>
+      ) : error ? (
+        <p role="alert" className="text-sm text-rose-600">Could not load the duplicates queue</p>
+      ) : data?.pairs.length ? (
+        <div className="space-y-3">
+          {data.pairs.map((pair) => (
+            <DuplicatePairCard key={pair.id} pair={pair} onResolved={refresh} />
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">
+          {status === 'pending' ? 'No possible duplicates to review.' : 'Nothing here yet.'}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import * as React from 'react'
+import { ArrowDown, ArrowUp, Settings2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  DEFAULT_INVOICE_EXPORT_COLUMNS,
+  INVOICE_EXPORT_COLUMNS,
+  INVOICE_EXPORT_FORMAT_LABELS,
+  INVOICE_EXPORT_FORMATS,
+  type InvoiceExportColumnId,
+  type InvoiceExportFormat,
+} from '@/lib/invoice-export'
+
+export interface ExportOptionsState {
+  format: InvoiceExportFormat
+  /** Every column in display order; only the selected ones are exported */
+  order: InvoiceExportColumnId[]
+  selected: InvoiceExportColumnId[]
+}
+
+/** The old fixed CSV export's columns first, in its order, then the rest. */
+export function defaultExportOptions(): ExportOptionsState {
+  const rest = INVOICE_EXPORT_COLUMNS.map((column) => column.id).filter((id) => !DEFAULT_INVOICE_EXPORT_COLUMNS.includes(id))
+  return { format: 'csv', order: [...DEFAULT_INVOICE_EXPORT_COLUMNS, ...rest], selected: [...DEFAULT_INVOICE_EXPORT_COLUMNS] }
+}
+
+export function exportColumns(options: ExportOptionsState): InvoiceExportColumnId[] {
+  return options.order.filter((id) => options.selected.includes(id))
+}
+
+const COLUMN_HEADERS = new Map(INVOICE_EXPORT_COLUMNS.map((column) => [column.id, column.header]))
+
+interface ExportOptionsProps {
+  value: ExportOptionsState
+  onChange: (value: ExportOptionsState) => void
+  disabled?: boolean
+}
+
+/** Format and column picker for invoice exports. */
+export function ExportOptions({ value, onChange, disabled }: ExportOptionsProps) {
+  const toggle = (id: InvoiceExportColumnId) =>
+    onChange({
+      ...value,
+      selected: value.selected.includes(id) ? value.selected.filter((selected) => selected !== id) : [...value.selected, id],
+    })
+
+  const move = (index: number, offset: -1 | 1) => {
+    const order = [...value.order]
+    const [column] = order.splice(index, 1)
+    order.splice(index + offset, 0, column)
+    onChange({ ...value, order })
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" disabled={disabled} aria-label="Export options" title="Export options">
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="export-format">Format</Label>
+          <Select value={value.format} onValueChange={(format) => onChange({ ...value, format: format as InvoiceExportFormat })}>
+            <SelectTrigger id="export-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INVOICE_EXPORT_FORMATS.map((format) => (
+                <SelectItem key={format} value={format}>{INVOICE_EXPORT_FORMAT_LABELS[format]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <Label>Columns</Label>
+            <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onChange({ ...defaultExportOptions(), format: value.format })}>
+              Reset
+            </Button>
+          </div>
+          <ul className="max-h-64 space-y-0.5 overflow-y-auto rounded-md border p-1">
+            {value.order.map((id, index) => {
+              const header = COLUMN_HEADERS.get(id) ?? id
+              return (
+                <li key={id} className="flex items-center gap-2 rounded px-1 text-sm hover:bg-slate-50 dark:hover:bg-slate-800">
+                  <input
+                    id={`export-column-${id}`}
+                    type="checkbox"
+                    checked={value.selected.includes(id)}
+                    onChange={() => toggle(id)}
+                    className="h-4 w-4 rounded border border-slate-300 dark:border-slate-600"
+                  />
+                  <label htmlFor={`export-column-${id}`} className="flex-1 cursor-pointer truncate py-1">{header}</label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${header} up`}
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => move(index, 1)}
+                    disabled={index === value.order.length - 1}
+                    aria-label={`Move ${header} down`}
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                </li>
+              )
+            })}
+          </ul>
+          <p className="text-xs text-slate-500">Amounts are exported as numbers, with a formatted copy alongside.</p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -1,101 +1,219 @@
 "use client"
 
 import * as React from 'react'
-import { Loader2, Download } from 'lucide-react'
-import { useMutation } from '@tanstack/react-query'
+import Link from 'next/link'
+import { Loader2, Download, X } from 'lucide-react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 
 import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
 import { useInvoiceFilters } from '@/hooks/use-invoices-filters'
+import {
+  cancelExportJob,
+  createExportJob,
+  exportDownloadUrl,
+  fetchExportJob,
+  type ExportJob,
+} from '@/lib/api/exports'
+import { exportJobProgress, isExportJobActive } from '@/lib/invoice-export'
 import { serializeInvoiceFilters } from '@/types/invoice-filters'
+import { EXPORT_JOBS_QUERY_KEY, exportJobQueryKey } from '@/components/exports/my-exports'
+import { defaultExportOptions, exportColumns, ExportOptions, type ExportOptionsState } from './export-options'
 
-type ExportButtonState = 'idle' | 'exporting' | 'failed'
+type ExportButtonState = 'idle' | 'queued' | 'exporting' | 'ready' | 'cancelled' | 'failed'
 
 interface ExportProgressButtonProps {
   className?: string
   onStatusChange?: (payload: { state: ExportButtonState; message?: string; error?: string }) => void
 }
 
+const POLL_INTERVAL_MS = 1000
+
+function clickDownload(href: string, filename?: string) {
+  const link = document.createElement('a')
+  link.href = href
+  if (filename) link.download = filename
+  link.style.display = 'none'
+
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+}
+
+function rowsLabel(job: ExportJob) {
+  const written = job.rowsWritten.toLocaleString()
+  return job.rowsTotal ? `${written} of ${job.rowsTotal.toLocaleString()} rows` : `${written} rows`
+}
+
 export function ExportProgressButton({ className, onStatusChange }: ExportProgressButtonProps) {
   const { filters } = useInvoiceFilters()
+  const queryClient = useQueryClient()
   const [state, setState] = React.useState<ExportButtonState>('idle')
   const [errorMessage, setErrorMessage] = React.useState<string | null>(null)
+  const [options, setOptions] = React.useState<ExportOptionsState>(defaultExportOptions)
+  const [jobId, setJobId] = React.useState<string | null>(null)
+  const formatLabel = options.format.toUpperCase()
+
+  // Without Supabase there are no background jobs, so the export streams straight to the browser
+  const downloadDirect = async (payload: string) => {
+    const response = await fetch('/api/invoices/export', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: payload,
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new Error(error.message || `Export failed: ${response.status} ${response.statusText}`)
+    }
+
+    const blob = await response.blob()
+    const contentDisposition = response.headers.get('Content-Disposition')
+    const filename = contentDisposition?.match(/filename="(.+)"/)?.[1] || `invoices-export.${options.format}`
+
+    const url = URL.createObjectURL(blob)
+    clickDownload(url, filename)
+    URL.revokeObjectURL(url)
+    return filename
+  }
 
   const exportMutation = useMutation({
-    mutationFn: async () => {
-      setState('exporting')
-      onStatusChange?.({ state: 'exporting', message: 'Generating CSV export...' })
-
-      const snapshot = serializeInvoiceFilters(filters)
-      const response = await fetch('/api/invoices/export', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ filters: snapshot }),
-      })
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({}))
-        throw new Error(error.message || `Export failed: ${response.status} ${response.statusText}`)
-      }
-
-      // Get the CSV blob and filename
-      const blob = await response.blob()
-      const contentDisposition = response.headers.get('Content-Disposition')
-      const filename = contentDisposition?.match(/filename="(.+)"/)?.[1] || 'invoices-export.csv'
-
-      // Create download link
-      const url = URL.createObjectURL(blob)
-      const link = document.createElement('a')
-      link.href = url
-      link.download = filename
-      link.style.display = 'none'
+    mutationFn: async (): Promise<{ job: ExportJob } | { filename: string }> => {
+      setState('queued')
+      onStatusChange?.({ state: 'queued', message: `Starting ${formatLabel} export...` })
 
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
-      URL.revokeObjectURL(url)
+      const payload = { filters: serializeInvoiceFilters(filters), columns: exportColumns(options), format: options.format }
+      const job = await createExportJob(payload)
+      if (job) return { job }
 
-      return { filename }
+      setState('exporting')
+      return { filename: await downloadDirect(JSON.stringify(payload)) }
     },
     onSuccess: (result) => {
-      setState('idle')
       setErrorMessage(null)
-      onStatusChange?.({ state: 'idle', message: `CSV downloaded: ${result.filename}` })
+      if ('job' in result) {
+        queryClient.setQueryData(exportJobQueryKey(result.job.id), result.job)
+        queryClient.invalidateQueries({ queryKey: EXPORT_JOBS_QUERY_KEY })
+        setJobId(result.job.id)
+        return
+      }
+      setState('ready')
+      onStatusChange?.({ state: 'ready', message: `${formatLabel} downloaded: ${result.filename}` })
     },
     onError: (error: unknown) => {
       setState('failed')
-      const message = error instanceof Error ? error.message : 'Unable to export CSV'
+      const message = error instanceof Error ? error.message : `Unable to export ${formatLabel}`
       setErrorMessage(message)
       onStatusChange?.({ state: 'failed', error: message })
     },
   })
 
+  const { data: job } = useQuery({
+    queryKey: exportJobQueryKey(jobId ?? ''),
+    queryFn: () => fetchExportJob(jobId!),
+    enabled: Boolean(jobId),
+    refetchInterval: (query) => (query.state.data && isExportJobActive(query.state.data.status) ? POLL_INTERVAL_MS : false),
+  })
+
+  // Follow the job: each status change is reported once, and a finished file downloads itself
+  const reported = React.useRef<string | null>(null)
+  React.useEffect(() => {
+    if (!job || job.id !== jobId) return
+    const key = `${job.id}:${job.status}`
+    if (job.status === 'running') setState('exporting')
+    if (reported.current === key) return
+    reported.current = key
+
+    switch (job.status) {
+      case 'running':
+        onStatusChange?.({ state: 'exporting', message: `Generating ${formatLabel} export...` })
+        break
+      case 'completed':
+        setState('ready')
+        clickDownload(exportDownloadUrl(job.id))
+        onStatusChange?.({ state: 'ready', message: `${formatLabel} ready: ${job.filename ?? 'export'} (${job.rowsWritten.toLocaleString()} rows)` })
+        queryClient.invalidateQueries({ queryKey: EXPORT_JOBS_QUERY_KEY })
+        break
+      case 'cancelled':
+        setState('cancelled')
+        onStatusChange?.({ state: 'cancelled', message: 'Export cancelled' })
+        queryClient.invalidateQueries({ queryKey: EXPORT_JOBS_QUERY_KEY })
+        break
+      case 'failed':
+      case 'expired': {
+        const message = job.error || `Unable to export ${formatLabel}`
+        setState('failed')
+        setErrorMessage(message)
+        onStatusChange?.({ state: 'failed', error: message })
+        queryClient.invalidateQueries({ queryKey: EXPORT_JOBS_QUERY_KEY })
+        break
+      }
+    }
+  }, [job, jobId, formatLabel, onStatusChange, queryClient])
+
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelExportJob(jobId!),
+    onSuccess: (cancelled) => queryClient.setQueryData(exportJobQueryKey(cancelled.id), cancelled),
+    onError: (error: unknown) => setErrorMessage(error instanceof Error ? error.message : 'Unable to cancel the export'),
+  })
+
   const handleClick = () => {
     setErrorMessage(null)
+    setJobId(null)
     exportMutation.mutate()
   }
 
-  const label = getButtonLabel(state)
-  const isDisabled = state === 'exporting' || exportMutation.isLoading
+  const isRunning = state === 'queued' || state === 'exporting'
+  const label = getButtonLabel(state, formatLabel)
+  const isDisabled = isRunning || exportMutation.isPending || exportColumns(options).length === 0
+  const progress = job && isRunning ? exportJobProgress(job) : null
 
   return (
     <div className="flex flex-col gap-1">
-      <Button
-        type="button"
-        variant="outline"
-        size="sm"
-        onClick={handleClick}
-        disabled={isDisabled}
-        className={className}
-      >
-        {state === 'exporting' ? (
-          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-        ) : (
-          <Download className="mr-2 h-4 w-4" />
+      <div className="flex gap-1">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleClick}
+          disabled={isDisabled}
+          className={className}
+        >
+          {isRunning ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          {label}
+        </Button>
+        <ExportOptions value={options} onChange={setOptions} disabled={isRunning} />
+        {job && isRunning && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => cancelMutation.mutate()}
+            disabled={cancelMutation.isPending}
+            aria-label="Cancel export"
+            title="Cancel export"
+          >
+            <X className="h-4 w-4" />
+          </Button>
         )}
-        {label}
-      </Button>
+      </div>
+      {job && isRunning && (
+        <div className="flex items-center gap-2 text-xs text-slate-500" role="status">
+          <Progress value={progress ?? 0} className="h-1.5 w-24" aria-label="Export progress" />
+          <span>{rowsLabel(job)}</span>
+        </div>
+      )}
+      {jobId && !isRunning && (
+        <Link href="/exports" className="text-xs text-slate-500 underline-offset-2 hover:underline">
+          My exports
+        </Link>
+      )}
       {errorMessage && (
         <span className="text-xs text-rose-600" role="alert">
           {errorMessage}
@@ -105,13 +223,15 @@ export function ExportProgressButton({ className, onStatusChange }: ExportProgre
   )
 }
 
-function getButtonLabel(state: ExportButtonState) {
+function getButtonLabel(state: ExportButtonState, formatLabel: string) {
   switch (state) {
+    case 'queued':
+      return 'Starting export...'
     case 'exporting':
-      return 'Generating CSV...'
+      return `Generating ${formatLabel}...`
     case 'failed':
       return 'Retry export'
     default:
-      return 'Export CSV'
+      return `Export ${formatLabel}`
   }
 }
@@ -4,6 +4,7 @@ import { X } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import type { InvoiceSavedView } from '@/lib/api/invoices'
+import { agingBucketLabel } from '@/lib/payables-aging'
 import { formatCurrency, formatDate } from '@/lib/utils'
 import { useInvoiceFilters } from '@/hooks/use-invoices-filters'
 
@@ -27,6 +28,7 @@ export function InvoiceFilterChips({ savedViews, className }: InvoiceFilterChips
     toggleVendor,
     setSearch,
     setDateRange,
+    setDueRange,
     setAmountRange,
     reset,
   } = useInvoiceFilters()
@@ -86,6 +88,16 @@ export function InvoiceFilterChips({ savedViews, className }: InvoiceFilterChips
     })
   }
 
+  if (filters.dueRange?.start || filters.dueRange?.end) {
+    const startLabel = filters.dueRange?.start ? formatDate(filters.dueRange.start) : 'Any'
+    const endLabel = filters.dueRange?.end ? formatDate(filters.dueRange.end) : 'Any'
+    chips.push({
+      id: 'due-range',
+      label: `Due: ${startLabel} → ${endLabel}`,
+      onRemove: () => setDueRange({}),
+    })
+  }
+
   if (filters.amountRange?.min != null || filters.amountRange?.max != null) {
     const minLabel =
       filters.amountRange?.min != null ? formatCurrency(filters.amountRange.min) : 'Any'
@@ -98,6 +110,14 @@ export function InvoiceFilterChips({ savedViews, className }: InvoiceFilterChips
     })
   }
 
+  if (filters.aging) {
+    chips.push({
+      id: 'aging',
+      label: `Outstanding: ${agingBucketLabel(filters.aging)}${filters.aging === 'current' ? '' : ' past due'}`,
+      onRemove: () => setFilters((prev) => ({ ...prev, aging: undefined, savedViewId: undefined })),
+    })
+  }
+
   if (chips.length === 0) {
     return null
   }
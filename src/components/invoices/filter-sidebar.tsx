@@ -1,6 +1,8 @@
 "use client"
 
 import * as React from 'react'
+import Link from 'next/link'
+import { ArrowUpRight } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -271,17 +273,28 @@ export function InvoiceFilterForm({ facets, isLoading, onClose }: InvoiceFilterF
               <p className="text-xs text-slate-500">No vendor facets available</p>
             ) : (
               vendors.map((vendor) => (
-                <Button
-                  key={vendor.value}
-                  type="button"
-                  variant={isActive(vendor.value, filters.vendors) ? 'default' : 'outline'}
-                  size="sm"
-                  className="rounded-full"
-                  aria-pressed={isActive(vendor.value, filters.vendors)}
-                  onClick={() => toggleVendor(vendor.value)}
-                >
-                  {vendor.value}
-                </Button>
+                <div key={vendor.value} className="flex items-center">
+                  <Button
+                    type="button"
+                    variant={isActive(vendor.value, filters.vendors) ? 'default' : 'outline'}
+                    size="sm"
+                    className="rounded-full"
+                    aria-pressed={isActive(vendor.value, filters.vendors)}
+                    onClick={() => toggleVendor(vendor.value)}
+                    title={vendor.aliases?.length ? `Also recorded as: ${vendor.aliases.join(', ')}` : undefined}
+                  >
+                    {vendor.value}
+                  </Button>
+                  {vendor.vendorId && (
+                    <Link
+                      href={`/vendors/${vendor.vendorId}`}
+                      aria-label={`Open ${vendor.value}`}
+                      className="ml-0.5 rounded-full p-1 text-slate-400 hover:text-slate-700"
+                    >
+                      <ArrowUpRight className="h-3.5 w-3.5" />
+                    </Link>
+                  )}
+                </div>
               ))
             )}
           </div>
@@ -1,12 +1,14 @@
 'use client'
 
 import { useState } from 'react'
+import Link from 'next/link'
 import { ChevronDown, ChevronUp } from 'lucide-react'
 import { Card, CardContent, CardHeader } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { formatCurrency } from '@/lib/utils'
 import type { Invoice } from '@/lib/types'
+import { HighlightedText, SearchSnippet } from './search-highlight'
 
 interface InvoiceCardProps {
   invoice: Invoice
@@ -49,9 +51,9 @@ export function InvoiceCard({ invoice }: InvoiceCardProps) {
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
           <div className="flex flex-col gap-1">
-            <span className="font-semibold text-base">
-              {invoice.invoiceNumber}
-            </span>
+            <Link href={`/invoices/${encodeURIComponent(invoice.id)}`} className="font-semibold text-base hover:underline">
+              <HighlightedText text={invoice.invoiceNumber} terms={invoice.searchMatch?.terms} />
+            </Link>
             <span className="text-sm text-muted-foreground">
               {invoice.category}
             </span>
@@ -75,7 +77,7 @@ export function InvoiceCard({ invoice }: InvoiceCardProps) {
           <div className="flex justify-between items-center">
             <span className="text-muted-foreground">Vendor:</span>
             <span className="truncate ml-2 max-w-[60%] text-right">
-              {invoice.vendorName}
+              <HighlightedText text={invoice.vendorName} terms={invoice.searchMatch?.terms} />
             </span>
           </div>
 
@@ -85,6 +87,10 @@ export function InvoiceCard({ invoice }: InvoiceCardProps) {
           </div>
         </div>
 
+        {invoice.searchMatch?.snippet && (
+          <SearchSnippet snippet={invoice.searchMatch.snippet} className="rounded-md bg-muted/50 px-2 py-1.5" />
+        )}
+
         {/* Expandable Details */}
         {expanded && (
           <div className="pt-3 border-t space-y-2 text-sm">
@@ -0,0 +1,339 @@
+"use client"
+
+import * as React from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Bot, History, Loader2, MessageSquare, Pencil, Reply, Trash2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  addInvoiceComment,
+  deleteInvoiceComment,
+  fetchInvoiceCommentHistory,
+  fetchInvoiceComments,
+  updateInvoiceComment,
+  type CommentMutationResult,
+  type InvoiceCommentEntry,
+} from '@/lib/api/invoices'
+import { splitMentions } from '@/lib/comment-mentions'
+
+interface InvoiceCommentsPanelProps {
+  /** Invoice id or invoice number */
+  invoiceId: string
+}
+
+function formatTimestamp(value: string | null) {
+  if (!value) return ''
+  return new Date(value).toLocaleString('en-AU', {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function CommentBody({ body }: { body: string }) {
+  return (
+    <p className="whitespace-pre-wrap break-words text-sm text-slate-800 dark:text-slate-200">
+      {splitMentions(body).map((segment, index) =>
+        segment.mention ? (
+          <span key={index} className="rounded bg-blue-50 px-0.5 font-medium text-blue-700 dark:bg-blue-950/40 dark:text-blue-300">
+            {segment.text}
+          </span>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </p>
+  )
+}
+
+interface CommentComposerProps {
+  initialValue?: string
+  placeholder: string
+  submitLabel: string
+  onSubmit: (body: string) => Promise<CommentMutationResult>
+  onCancel?: () => void
+  autoFocus?: boolean
+}
+
+function CommentComposer({ initialValue = '', placeholder, submitLabel, onSubmit, onCancel, autoFocus }: CommentComposerProps) {
+  const [body, setBody] = React.useState(initialValue)
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!body.trim()) return
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const result = await onSubmit(body.trim())
+      if (!result.success) {
+        setError(result.error || 'Failed to save comment')
+        return
+      }
+      setBody('')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={2}
+        maxLength={5000}
+        autoFocus={autoFocus}
+        aria-label={placeholder}
+      />
+      {error && (
+        <p role="alert" className="text-xs text-rose-600">{error}</p>
+      )}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={!body.trim() || isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+function CommentHistory({ invoiceId, commentId }: { invoiceId: string; commentId: string }) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['invoice-comment-history', invoiceId, commentId],
+    queryFn: () => fetchInvoiceCommentHistory(invoiceId, commentId),
+  })
+
+  if (isLoading) return <p className="text-xs text-slate-500">Loading history…</p>
+  if (error) return <p className="text-xs text-rose-600">Could not load history</p>
+  if (!data?.edits.length) return <p className="text-xs text-slate-500">No earlier versions.</p>
+
+  return (
+    <ul className="space-y-1 border-l-2 border-slate-200 pl-3 dark:border-slate-700">
+      {data.edits.map((edit) => (
+        <li key={edit.id} className="text-xs text-slate-500">
+          <span className="font-medium">{formatTimestamp(edit.editedAt)}:</span>{' '}
+          <span className="whitespace-pre-wrap">{edit.previousBody}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+interface CommentItemProps {
+  invoiceId: string
+  comment: InvoiceCommentEntry
+  onReply?: () => void
+  onChanged: () => void
+}
+
+function CommentItem({ invoiceId, comment, onReply, onChanged }: CommentItemProps) {
+  const [isEditing, setIsEditing] = React.useState(false)
+  const [showHistory, setShowHistory] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const author = comment.source === 'legacy' ? 'Imported note' : comment.authorEmail || 'Unknown user'
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this comment?')) return
+    const result = await deleteInvoiceComment(invoiceId, comment.id)
+    if (!result.success) {
+      setError(result.error || 'Failed to delete comment')
+      return
+    }
+    onChanged()
+  }
+
+  return (
+    <div className="space-y-1" data-testid="invoice-comment">
+      <div className="flex items-center gap-2 text-xs text-slate-500">
+        <span className="font-medium text-slate-700 dark:text-slate-300">{author}</span>
+        {comment.source === 'chat' && (
+          <span className="inline-flex items-center gap-1" title="Added through the chat assistant">
+            <Bot className="h-3 w-3" /> via assistant
+          </span>
+        )}
+        <span>{formatTimestamp(comment.createdAt)}</span>
+        {comment.editedAt && !comment.deletedAt && (
+          <button
+            type="button"
+            className="inline-flex items-center gap-1 underline-offset-2 hover:underline"
+            onClick={() => setShowHistory((value) => !value)}
+          >
+            <History className="h-3 w-3" /> edited
+          </button>
+        )}
+      </div>
+
+      {comment.deletedAt ? (
+        <p className="text-sm italic text-slate-400">Comment deleted</p>
+      ) : isEditing ? (
+        <CommentComposer
+          initialValue={comment.body}
+          placeholder="Edit comment"
+          submitLabel="Save"
+          autoFocus
+          onCancel={() => setIsEditing(false)}
+          onSubmit={async (body) => {
+            const result = await updateInvoiceComment(invoiceId, comment.id, body)
+            if (result.success) {
+              setIsEditing(false)
+              onChanged()
+            }
+            return result
+          }}
+        />
+      ) : (
+        <CommentBody body={comment.body} />
+      )}
+
+      {showHistory && <CommentHistory invoiceId={invoiceId} commentId={comment.id} />}
+      {error && <p role="alert" className="text-xs text-rose-600">{error}</p>}
+
+      {!comment.deletedAt && !isEditing && (
+        <div className="flex gap-1">
+          {onReply && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onReply}>
+              <Reply className="mr-1 h-3 w-3" /> Reply
+            </Button>
+          )}
+          {comment.canEdit && (
+            <>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setIsEditing(true)}>
+                <Pencil className="mr-1 h-3 w-3" /> Edit
+              </Button>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-rose-600" onClick={handleDelete}>
+                <Trash2 className="mr-1 h-3 w-3" /> Delete
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function InvoiceCommentsPanel({ invoiceId }: InvoiceCommentsPanelProps) {
+  const queryClient = useQueryClient()
+  const [replyingTo, setReplyingTo] = React.useState<string | null>(null)
+  const queryKey = ['invoice-comments', invoiceId]
+
+  const { data, isLoading, error } = useQuery({
+    queryKey,
+    queryFn: () => fetchInvoiceComments(invoiceId),
+    enabled: !!invoiceId,
+  })
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey })
+    queryClient.invalidateQueries({ queryKey: ['invoice-comment-history', invoiceId] })
+  }
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <p className="text-sm text-slate-500">Loading comments…</p>
+      ) : error ? (
+        <p role="alert" className="text-sm text-rose-600">Could not load comments</p>
+      ) : data?.threads.length ? (
+        <ul className="space-y-4">
+          {data.threads.map((thread) => (
+            <li key={thread.id} className="space-y-3 rounded-lg border border-slate-200 p-3 dark:border-slate-700">
+              <CommentItem
+                invoiceId={invoiceId}
+                comment={thread}
+                onReply={() => setReplyingTo(thread.id)}
+                onChanged={refresh}
+              />
+              {thread.replies.length > 0 && (
+                <ul className="space-y-3 border-l-2 border-slate-100 pl-4 dark:border-slate-800">
+                  {thread.replies.map((reply) => (
+                    <li key={reply.id}>
+                      <CommentItem
+                        invoiceId={invoiceId}
+                        comment={reply}
+                        onReply={() => setReplyingTo(thread.id)}
+                        onChanged={refresh}
+                      />
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {replyingTo === thread.id && (
+                <div className="pl-4">
+                  <CommentComposer
+                    placeholder="Write a reply"
+                    submitLabel="Reply"
+                    autoFocus
+                    onCancel={() => setReplyingTo(null)}
+                    onSubmit={async (body) => {
+                      const result = await addInvoiceComment(invoiceId, { body, parentId: thread.id })
+                      if (result.success) {
+                        setReplyingTo(null)
+                        refresh()
+                      }
+                      return result
+                    }}
+                  />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-500">No comments yet.</p>
+      )}
+
+      <CommentComposer
+        placeholder="Add a comment — use @name to mention a teammate"
+        submitLabel="Comment"
+        onSubmit={async (body) => {
+          const result = await addInvoiceComment(invoiceId, { body })
+          if (result.success) refresh()
+          return result
+        }}
+      />
+    </div>
+  )
+}
+
+interface InvoiceCommentsDialogProps {
+  invoice: { id: string; invoiceNumber: string }
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function InvoiceCommentsDialog({ invoice, open, onOpenChange }: InvoiceCommentsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5 text-blue-600" />
+            Comments
+          </DialogTitle>
+          <DialogDescription>Invoice {invoice.invoiceNumber}</DialogDescription>
+        </DialogHeader>
+        {open && <InvoiceCommentsPanel invoiceId={invoice.id || invoice.invoiceNumber} />}
+      </DialogContent>
+    </Dialog>
+  )
+}
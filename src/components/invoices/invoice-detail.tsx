@@ -0,0 +1,550 @@
+"use client"
+
+import * as React from 'react'
+import Link from 'next/link'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  ArrowLeft,
+  ChevronDown,
+  ClipboardCheck,
+  DollarSign,
+  FileMinus2,
+  FileText,
+  History,
+  Link2,
+  MessageSquare,
+  Receipt,
+} from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { InvoiceApprovalsPanel } from '@/components/approvals/invoice-approvals-panel'
+import {
+  fetchInvoiceDetail,
+  fetchInvoicePayments,
+  fetchInvoiceTransitions,
+  updateInvoiceStatus,
+  type InvoiceDetailRecord,
+  type InvoiceDetailResponse,
+  type RelatedInvoice,
+} from '@/lib/api/invoices'
+import { describeBlockedTransition, type InvoiceStatus } from '@/lib/invoice-status-machine'
+import { cn, formatCurrency, formatDate } from '@/lib/utils'
+import { CreditNoteModal } from './credit-note-modal'
+import { DocumentPreview } from './document-viewer'
+import { InvoiceCommentsPanel } from './invoice-comments-panel'
+import { INVOICE_HISTORY_QUERY_KEYS, InvoiceHistoryPanel } from './invoice-history-panel'
+import { PaymentUpdateModal } from './payment-update-modal'
+
+const STATUS_STYLES: Record<InvoiceStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-950/20 dark:text-blue-300 dark:border-blue-800/30' },
+  in_review: { label: 'In Review', className: 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950/20 dark:text-amber-300 dark:border-amber-800/30' },
+  approved: { label: 'Approved', className: 'bg-purple-50 text-purple-700 border-purple-200 dark:bg-purple-950/20 dark:text-purple-300 dark:border-purple-800/30' },
+  paid: { label: 'Paid', className: 'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-950/20 dark:text-emerald-300 dark:border-emerald-800/30' },
+  overdue: { label: 'Overdue', className: 'bg-red-50 text-red-700 border-red-200 dark:bg-red-950/20 dark:text-red-300 dark:border-red-800/30' },
+}
+
+const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  credit_note: 'Credit note',
+  adjustment: 'Adjustment',
+}
+
+const DUPLICATE_STATUS_LABELS: Record<string, string> = {
+  pending: 'Possible duplicate',
+  merged: 'Merged',
+  linked: 'Linked',
+  dismissed: 'Not a duplicate',
+}
+
+// Everything on the page a status change, payment or credit note can affect
+const DETAIL_QUERY_KEYS = [
+  ...INVOICE_HISTORY_QUERY_KEYS,
+  ['invoice-transitions'],
+  ['invoice-payments'],
+  ['invoice-credit-notes'],
+  ['invoice-approvals'],
+] as const
+
+function StatusBadge({ status }: { status: InvoiceStatus }) {
+  const style = STATUS_STYLES[status] ?? STATUS_STYLES.pending
+  return (
+    <Badge variant="secondary" className={style.className}>
+      {style.label}
+    </Badge>
+  )
+}
+
+function daysPastDue(dueDate: string | null): number {
+  if (!dueDate) return 0
+  const today = new Date().toISOString().slice(0, 10)
+  return Math.floor((Date.parse(today) - Date.parse(dueDate.slice(0, 10))) / (24 * 60 * 60 * 1000))
+}
+
+function MetricCard({ label, value, hint, tone }: { label: string; value: string; hint?: string; tone?: 'warning' }) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <p className="text-sm text-slate-500">{label}</p>
+        <p className={cn('mt-1 text-2xl font-bold tabular-nums text-slate-900 dark:text-slate-100', tone === 'warning' && 'text-red-600 dark:text-red-400')}>
+          {value}
+        </p>
+        {hint && <p className="mt-1 text-xs text-slate-500">{hint}</p>}
+      </CardContent>
+    </Card>
+  )
+}
+
+function DetailField({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-0.5">
+      <dt className="text-xs text-slate-500">{label}</dt>
+      <dd className="break-words text-sm text-slate-900 dark:text-slate-100">{children || '—'}</dd>
+    </div>
+  )
+}
+
+function InvoiceFields({ invoice }: { invoice: InvoiceDetailRecord }) {
+  return (
+    <dl className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      <DetailField label="Vendor email">{invoice.vendorEmail}</DetailField>
+      <DetailField label="ABN">{invoice.vendorAbn}</DetailField>
+      <DetailField label="Category">{invoice.category}</DetailField>
+      <DetailField label="Payment terms">{invoice.paymentTerms}</DetailField>
+      <DetailField label="Received">{invoice.receivedDate && formatDate(invoice.receivedDate)}</DetailField>
+      <DetailField label="Source">{invoice.source}</DetailField>
+      <DetailField label="Paid on">{invoice.paidDate && formatDate(invoice.paidDate)}</DetailField>
+      <DetailField label="Payment reference">{invoice.paymentReference}</DetailField>
+      <div className="sm:col-span-2 lg:col-span-3">
+        <DetailField label="Description">{invoice.description}</DetailField>
+      </div>
+    </dl>
+  )
+}
+
+function LineItems({ detail }: { detail: InvoiceDetailResponse }) {
+  const { lineItems, invoice } = detail
+  if (lineItems.length === 0) {
+    return <p className="text-sm text-slate-500">No line items were captured for this invoice.</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Description</TableHead>
+          <TableHead className="text-right">Qty</TableHead>
+          <TableHead className="text-right">Unit price</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {lineItems.map((item, index) => (
+          <TableRow key={index}>
+            <TableCell className="whitespace-normal">{item.description || '—'}</TableCell>
+            <TableCell className="text-right tabular-nums">{item.quantity ?? '—'}</TableCell>
+            <TableCell className="text-right tabular-nums">{item.unitPrice === null ? '—' : formatCurrency(item.unitPrice)}</TableCell>
+            <TableCell className="text-right tabular-nums">{item.amount === null ? '—' : formatCurrency(item.amount)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        {invoice.subtotal !== null && (
+          <TableRow>
+            <TableCell colSpan={3} className="text-right">Subtotal</TableCell>
+            <TableCell className="text-right tabular-nums">{formatCurrency(invoice.subtotal)}</TableCell>
+          </TableRow>
+        )}
+        {invoice.gst !== null && (
+          <TableRow>
+            <TableCell colSpan={3} className="text-right">GST</TableCell>
+            <TableCell className="text-right tabular-nums">{formatCurrency(invoice.gst)}</TableCell>
+          </TableRow>
+        )}
+        <TableRow>
+          <TableCell colSpan={3} className="text-right font-semibold">Total</TableCell>
+          <TableCell className="text-right font-semibold tabular-nums">{formatCurrency(invoice.amount)}</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  )
+}
+
+function InvoicePayments({ invoiceId }: { invoiceId: string }) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['invoice-payments', invoiceId],
+    queryFn: () => fetchInvoicePayments(invoiceId),
+  })
+
+  if (isLoading) return <p className="text-sm text-slate-500">Loading payments…</p>
+  if (error || !data) return <p role="alert" className="text-sm text-rose-600">Could not load payments</p>
+  if (data.payments.length === 0) return <p className="text-sm text-slate-500">No payments recorded.</p>
+
+  return (
+    <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+      {data.payments.map((payment) => (
+        <li key={payment.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+          <div className="min-w-0">
+            <p className="font-medium text-slate-900 dark:text-slate-100">{formatDate(payment.paidAt)}</p>
+            <p className="truncate text-xs text-slate-500">
+              {[payment.reference, payment.method?.replace(/_/g, ' '), payment.recordedByEmail].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="tabular-nums">{formatCurrency(payment.amount)}</p>
+            <p className="text-xs text-slate-500">{formatCurrency(payment.amountDueAfter)} left</p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function RelatedInvoiceRow({ invoice, label }: { invoice: RelatedInvoice; label: string }) {
+  return (
+    <li className="flex items-center justify-between gap-3 py-2 text-sm">
+      <div className="min-w-0">
+        <Link href={`/invoices/${encodeURIComponent(invoice.id)}`} className="font-medium text-blue-600 hover:underline">
+          {invoice.invoiceNumber || invoice.id}
+        </Link>
+        <p className="truncate text-xs text-slate-500">
+          {label}{invoice.issueDate ? ` · ${formatDate(invoice.issueDate)}` : ''}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="tabular-nums">{formatCurrency(invoice.amount)}</span>
+        <StatusBadge status={invoice.status} />
+      </div>
+    </li>
+  )
+}
+
+function RelatedInvoices({ related }: { related: InvoiceDetailResponse['related'] }) {
+  const rows = [
+    ...(related.original ? [{ invoice: related.original, label: 'Original invoice' }] : []),
+    ...(related.duplicateOf ? [{ invoice: related.duplicateOf, label: 'Merged into' }] : []),
+    ...related.creditNotes.map((invoice) => ({ invoice, label: DOCUMENT_TYPE_LABELS[invoice.documentType] ?? 'Credit' })),
+    ...related.duplicates
+      .filter((pair) => pair.invoice.id !== related.duplicateOf?.id)
+      .map((pair) => ({
+        invoice: pair.invoice,
+        label: `${DUPLICATE_STATUS_LABELS[pair.status] ?? pair.status} (${Math.round(pair.score * 100)}% match)`,
+      })),
+  ]
+
+  if (rows.length === 0) return <p className="text-sm text-slate-500">No related invoices.</p>
+
+  return (
+    <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+      {rows.map((row) => <RelatedInvoiceRow key={`${row.label}-${row.invoice.id}`} invoice={row.invoice} label={row.label} />)}
+    </ul>
+  )
+}
+
+interface StatusMenuProps {
+  invoice: InvoiceDetailRecord
+  onChanged: () => void
+  onRecordPayment: () => void
+}
+
+function StatusMenu({ invoice, onChanged, onRecordPayment }: StatusMenuProps) {
+  const [isUpdating, setIsUpdating] = React.useState(false)
+  const { data } = useQuery({
+    queryKey: ['invoice-transitions', invoice.id],
+    queryFn: () => fetchInvoiceTransitions([invoice.id]),
+  })
+  const transitions = data?.invoices[0]?.transitions ?? []
+
+  const changeStatus = async (status: InvoiceStatus) => {
+    setIsUpdating(true)
+    try {
+      const result = await updateInvoiceStatus(invoice.id, status)
+      if (!result.success) {
+        toast.error(result.error || 'Failed to update status')
+        return
+      }
+      toast.success(
+        result.code === 'APPROVAL_RECORDED'
+          ? `Invoice ${invoice.invoiceNumber}: ${result.message}`
+          : `Invoice ${invoice.invoiceNumber} status updated to ${STATUS_STYLES[status].label}`
+      )
+      onChanged()
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={isUpdating}>
+          Change status
+          <ChevronDown className="ml-2 h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Move to</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {transitions.length === 0 && (
+          <DropdownMenuItem disabled>No status changes available</DropdownMenuItem>
+        )}
+        {transitions.map((transition) => (
+          <DropdownMenuItem
+            key={transition.status}
+            disabled={!transition.allowed}
+            title={transition.allowed ? undefined : describeBlockedTransition(invoice.status, transition)}
+            // Payment details are collected by the payment dialog
+            onClick={() => (transition.requires.length > 0 ? onRecordPayment() : changeStatus(transition.status))}
+            className="cursor-pointer"
+          >
+            {STATUS_STYLES[transition.status].label}
+            {transition.requires.length > 0 && '…'}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+export function InvoiceDetail({ invoiceId }: { invoiceId: string }) {
+  const queryClient = useQueryClient()
+  const [isPaymentOpen, setIsPaymentOpen] = React.useState(false)
+  const [isCreditNoteOpen, setIsCreditNoteOpen] = React.useState(false)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['invoice-detail', invoiceId],
+    queryFn: () => fetchInvoiceDetail(invoiceId),
+  })
+
+  const refresh = () => {
+    DETAIL_QUERY_KEYS.forEach((queryKey) => queryClient.invalidateQueries({ queryKey: [...queryKey] }))
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading invoice…</p>
+  }
+  if (error || !data) {
+    return (
+      <div className="space-y-2">
+        <p role="alert" className="text-sm text-rose-600">
+          {error instanceof Error ? error.message : 'Could not load this invoice'}
+        </p>
+        <Link href="/invoices" className="text-sm text-blue-600 hover:underline">Back to invoices</Link>
+      </div>
+    )
+  }
+
+  const { invoice } = data
+  const isInvoice = invoice.documentType === 'invoice'
+  const overdueDays = invoice.status === 'paid' ? 0 : daysPastDue(invoice.dueDate)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Link href="/invoices" className="inline-flex items-center text-sm text-slate-500 hover:text-slate-700">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Invoices
+          </Link>
+          <h1 className="flex flex-wrap items-center gap-3 text-3xl font-bold tracking-tight text-foreground">
+            <Receipt className="h-7 w-7 text-slate-400" />
+            {invoice.invoiceNumber || 'Invoice'}
+            <StatusBadge status={invoice.status} />
+            {!isInvoice && <Badge variant="outline">{DOCUMENT_TYPE_LABELS[invoice.documentType]}</Badge>}
+            {invoice.duplicateOfId && (
+              <Badge variant="outline" className="text-amber-700" title="Merged duplicate; not counted in totals">
+                Duplicate
+              </Badge>
+            )}
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {invoice.vendorId ? (
+              <Link href={`/vendors/${invoice.vendorId}`} className="hover:underline">{invoice.vendorName}</Link>
+            ) : (
+              invoice.vendorName || 'Unknown vendor'
+            )}
+          </p>
+        </div>
+        {isInvoice && (
+          <div className="flex flex-wrap items-center gap-2">
+            <StatusMenu invoice={invoice} onChanged={refresh} onRecordPayment={() => setIsPaymentOpen(true)} />
+            {invoice.status !== 'paid' && (
+              <Button size="sm" onClick={() => setIsPaymentOpen(true)}>
+                <DollarSign className="mr-2 h-4 w-4" />
+                Record payment
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => setIsCreditNoteOpen(true)}>
+              <FileMinus2 className="mr-2 h-4 w-4" />
+              Add credit note
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <MetricCard label="Amount" value={formatCurrency(invoice.amount)} hint={invoice.gst !== null ? `incl. ${formatCurrency(invoice.gst)} GST` : undefined} />
+        <MetricCard label="Amount due" value={formatCurrency(invoice.amountDue)} />
+        <MetricCard
+          label="Due date"
+          value={invoice.dueDate ? formatDate(invoice.dueDate) : '—'}
+          hint={overdueDays > 0 ? `${overdueDays} day${overdueDays === 1 ? '' : 's'} overdue` : undefined}
+          tone={overdueDays > 0 ? 'warning' : undefined}
+        />
+        <MetricCard label="Issue date" value={invoice.issueDate ? formatDate(invoice.issueDate) : '—'} />
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <div className="space-y-4 lg:col-span-2">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Details</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <InvoiceFields invoice={invoice} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Line items</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LineItems detail={data} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <FileText className="h-4 w-4 text-slate-400" />
+                Document
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-2">
+              {invoice.invoiceUrl ? (
+                <div className="flex h-[720px] flex-col">
+                  <DocumentPreview invoiceId={invoice.id} invoiceNumber={invoice.invoiceNumber} />
+                </div>
+              ) : (
+                <p className="px-4 text-sm text-slate-500">No document is attached to this invoice.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <History className="h-4 w-4 text-slate-400" />
+                History
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <InvoiceHistoryPanel invoiceId={invoice.id} />
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-4">
+          {isInvoice && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <ClipboardCheck className="h-4 w-4 text-slate-400" />
+                  Approvals
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <InvoiceApprovalsPanel invoiceId={invoice.id} onDecided={refresh} />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <DollarSign className="h-4 w-4 text-slate-400" />
+                Payments
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <InvoicePayments invoiceId={invoice.id} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Link2 className="h-4 w-4 text-slate-400" />
+                Related invoices
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RelatedInvoices related={data.related} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <MessageSquare className="h-4 w-4 text-slate-400" />
+                Notes
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {invoice.notes && (
+                <p className="whitespace-pre-wrap break-words rounded-md bg-slate-50 p-3 text-sm text-slate-700 dark:bg-slate-900 dark:text-slate-300">
+                  {invoice.notes}
+                </p>
+              )}
+              <InvoiceCommentsPanel invoiceId={invoice.id} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <PaymentUpdateModal
+        invoice={invoice}
+        isOpen={isPaymentOpen}
+        onClose={() => setIsPaymentOpen(false)}
+        onRecorded={(result) => {
+          refresh()
+          toast.success(
+            result.invoice?.status === 'paid'
+              ? `Invoice ${invoice.invoiceNumber} paid in full`
+              : `Payment recorded for invoice ${invoice.invoiceNumber}`
+          )
+        }}
+      />
+      <CreditNoteModal
+        invoice={invoice}
+        isOpen={isCreditNoteOpen}
+        onClose={() => setIsCreditNoteOpen(false)}
+        onCreated={(result) => {
+          refresh()
+          toast.success(
+            `${result.creditNote?.invoiceNumber ?? 'Credit note'} applied to invoice ${invoice.invoiceNumber}`
+          )
+        }}
+      />
+    </div>
+  )
+}
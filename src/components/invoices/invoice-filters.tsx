@@ -188,7 +188,7 @@ export function InvoiceFilters({ invoices, onFilterChange }: InvoiceFiltersProps
           <Label htmlFor="search">Search Invoices</Label>
           <Input
             id="search"
-            placeholder="Search by vendor, invoice number, or subject..."
+            placeholder="Search invoice numbers, vendors, line items or document text..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="w-full"
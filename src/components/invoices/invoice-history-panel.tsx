@@ -0,0 +1,205 @@
+"use client"
+
+import * as React from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { ArrowRight, History, Loader2, Undo2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { fetchInvoiceHistory, revertInvoiceField } from '@/lib/api/invoices'
+import {
+  actionLabel,
+  canRevertField,
+  fieldLabel,
+  formatFieldValue,
+  type HistoryEvent,
+} from '@/lib/invoice-history'
+
+// Queries showing invoice fields that a revert can change
+export const INVOICE_HISTORY_QUERY_KEYS = [
+  ['invoice-history'],
+  ['invoice-detail'],
+  ['invoices'],
+  ['kanban-invoices'],
+  ['kanban-all-invoices'],
+  ['dashboard-stats'],
+  ['payables-aging'],
+  ['payables-forecast'],
+  ['recurring-insights'],
+  ['invoice-facets'],
+] as const
+
+const SOURCE_LABELS: Record<string, string> = {
+  ui: 'App',
+  chat: 'Chat',
+  api: 'API',
+  ingestion: 'Ingestion',
+}
+
+function formatTimestamp(value: string | null) {
+  if (!value) return ''
+  return new Date(value).toLocaleString('en-AU', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+interface HistoryEventItemProps {
+  invoiceId: string
+  event: HistoryEvent
+  onReverted: () => void
+}
+
+function HistoryEventItem({ invoiceId, event, onReverted }: HistoryEventItemProps) {
+  const [revertingField, setRevertingField] = React.useState<string | null>(null)
+
+  const handleRevert = async (field: string) => {
+    setRevertingField(field)
+    try {
+      const result = await revertInvoiceField(invoiceId, event.id, field)
+      if (!result.success) {
+        toast.error(result.error || 'Failed to revert change')
+        return
+      }
+      toast.success(`${fieldLabel(field)} reverted`)
+      onReverted()
+    } finally {
+      setRevertingField(null)
+    }
+  }
+
+  return (
+    <li className="relative space-y-2 border-l-2 border-slate-200 pb-4 pl-4 last:pb-0 dark:border-slate-700">
+      <span className="absolute -left-[5px] top-1.5 h-2 w-2 rounded-full bg-slate-400" aria-hidden />
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+        <span className="text-sm font-medium text-slate-900 dark:text-slate-100">{actionLabel(event.action)}</span>
+        {event.source && <Badge variant="outline">{SOURCE_LABELS[event.source]}</Badge>}
+        <span>{event.actor ?? event.userId ?? 'Unknown user'}</span>
+        <span>·</span>
+        <time dateTime={event.at ?? undefined}>{formatTimestamp(event.at)}</time>
+      </div>
+      {event.fields.length > 0 && (
+        <ul className="space-y-1.5">
+          {event.fields.map((change) => (
+            <li key={change.field} className="flex items-start gap-2 text-sm">
+              <span className="w-28 shrink-0 text-slate-500">{fieldLabel(change.field)}</span>
+              <span className="min-w-0 flex-1 break-words">
+                <del className="rounded bg-rose-50 px-1 text-rose-700 dark:bg-rose-950/40 dark:text-rose-300">
+                  {formatFieldValue(change.before)}
+                </del>
+                <ArrowRight className="mx-1 inline h-3 w-3 text-slate-400" aria-label="changed to" />
+                <ins className="rounded bg-emerald-50 px-1 no-underline text-emerald-700 dark:bg-emerald-950/40 dark:text-emerald-300">
+                  {formatFieldValue(change.after)}
+                </ins>
+              </span>
+              {canRevertField(event, change.field) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 shrink-0 px-2 text-xs"
+                  disabled={revertingField !== null}
+                  onClick={() => handleRevert(change.field)}
+                  aria-label={`Revert ${fieldLabel(change.field)} to ${formatFieldValue(change.before)}`}
+                >
+                  {revertingField === change.field ? (
+                    <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                  ) : (
+                    <Undo2 className="mr-1 h-3 w-3" />
+                  )}
+                  Revert
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
+
+interface InvoiceHistoryPanelProps {
+  /** Invoice id or invoice number */
+  invoiceId: string
+}
+
+export function InvoiceHistoryPanel({ invoiceId }: InvoiceHistoryPanelProps) {
+  const queryClient = useQueryClient()
+  const [page, setPage] = React.useState(0)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['invoice-history', invoiceId, page],
+    queryFn: () => fetchInvoiceHistory(invoiceId, page),
+    enabled: !!invoiceId,
+  })
+
+  const refresh = () => {
+    INVOICE_HISTORY_QUERY_KEYS.forEach((queryKey) => queryClient.invalidateQueries({ queryKey: [...queryKey] }))
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading history…</p>
+  }
+  if (error) {
+    return <p role="alert" className="text-sm text-rose-600">Could not load history</p>
+  }
+  if (!data?.events.length) {
+    return <p className="text-sm text-slate-500">No changes recorded yet.</p>
+  }
+
+  const { pageIndex, pageCount } = data.pagination
+
+  return (
+    <div className="space-y-4">
+      <ol className="ml-1">
+        {data.events.map((event) => (
+          <HistoryEventItem key={event.id} invoiceId={invoiceId} event={event} onReverted={refresh} />
+        ))}
+      </ol>
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between text-xs text-slate-500">
+          <Button variant="outline" size="sm" disabled={pageIndex === 0} onClick={() => setPage(pageIndex - 1)}>
+            Newer
+          </Button>
+          <span>Page {pageIndex + 1} of {pageCount}</span>
+          <Button variant="outline" size="sm" disabled={pageIndex + 1 >= pageCount} onClick={() => setPage(pageIndex + 1)}>
+            Older
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface InvoiceHistoryDialogProps {
+  invoice: { id: string; invoiceNumber: string }
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function InvoiceHistoryDialog({ invoice, open, onOpenChange }: InvoiceHistoryDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-slate-600" />
+            History
+          </DialogTitle>
+          <DialogDescription>Invoice {invoice.invoiceNumber}</DialogDescription>
+        </DialogHeader>
+        {open && <InvoiceHistoryPanel invoiceId={invoice.id || invoice.invoiceNumber} />}
+      </DialogContent>
+    </Dialog>
+  )
+}
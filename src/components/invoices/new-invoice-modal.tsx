@@ -0,0 +1,327 @@
+"use client"
+
+import * as React from 'react'
+import { AlertTriangle, FilePlus2, Loader2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import type { CreateInvoiceResult, DuplicateInvoice } from '@/lib/api/invoices'
+import type { InvoiceCreateInput } from '@/lib/schemas/invoice'
+import { formatCurrency } from '@/lib/utils'
+
+interface NewInvoiceModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  categories?: string[]
+  onCreate: (payload: InvoiceCreateInput, options: { confirmDuplicate: boolean }) => Promise<CreateInvoiceResult>
+}
+
+type FormState = {
+  invoiceNumber: string
+  supplierName: string
+  supplierEmail: string
+  supplierAbn: string
+  total: string
+  gstTotal: string
+  invoiceDate: string
+  dueDate: string
+  category: string
+  status: 'pending' | 'in_review'
+  description: string
+  notes: string
+}
+
+const emptyForm = (): FormState => ({
+  invoiceNumber: '',
+  supplierName: '',
+  supplierEmail: '',
+  supplierAbn: '',
+  total: '',
+  gstTotal: '',
+  invoiceDate: new Date().toISOString().split('T')[0],
+  dueDate: '',
+  category: '',
+  status: 'pending',
+  description: '',
+  notes: '',
+})
+
+const DUPLICATE_REASON_LABELS: Record<DuplicateInvoice['reasons'][number], string> = {
+  invoice_number: 'same supplier and invoice number',
+  file_checksum: 'same source file',
+}
+
+function toPayload(form: FormState): InvoiceCreateInput {
+  const optional = (value: string) => (value.trim() ? value.trim() : undefined)
+  const gst = optional(form.gstTotal)
+
+  return {
+    invoice_number: form.invoiceNumber.trim(),
+    supplier_name: form.supplierName.trim(),
+    total: Number(form.total),
+    gst_total: gst ? Number(gst) : undefined,
+    supplier_email: optional(form.supplierEmail),
+    supplier_abn: optional(form.supplierAbn),
+    invoice_date: optional(form.invoiceDate),
+    due_date: optional(form.dueDate),
+    category: optional(form.category),
+    payment_status: form.status,
+    description: optional(form.description),
+    notes: optional(form.notes),
+  }
+}
+
+export function NewInvoiceModal({ open, onOpenChange, categories = [], onCreate }: NewInvoiceModalProps) {
+  const [form, setForm] = React.useState<FormState>(emptyForm)
+  const [duplicates, setDuplicates] = React.useState<DuplicateInvoice[]>([])
+  const [error, setError] = React.useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!open) {
+      setForm(emptyForm())
+      setDuplicates([])
+      setError(null)
+      setIsSubmitting(false)
+    }
+  }, [open])
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) => {
+    setForm((current) => ({ ...current, [key]: value }))
+    // Editing the identifying fields invalidates the duplicate warning
+    if (key === 'invoiceNumber' || key === 'supplierName') {
+      setDuplicates([])
+    }
+  }
+
+  const totalValue = Number(form.total)
+  const canSubmit =
+    form.invoiceNumber.trim().length > 0 &&
+    form.supplierName.trim().length > 0 &&
+    form.total.trim().length > 0 &&
+    Number.isFinite(totalValue) &&
+    totalValue >= 0
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!canSubmit) return
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const result = await onCreate(toPayload(form), { confirmDuplicate: duplicates.length > 0 })
+
+      if (result.success) {
+        onOpenChange(false)
+        return
+      }
+
+      if (result.code === 'DUPLICATE_INVOICE' && result.duplicates?.length) {
+        setDuplicates(result.duplicates)
+        return
+      }
+
+      setError(result.error ?? 'Unable to create invoice')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FilePlus2 className="h-5 w-5 text-blue-600" />
+            <span>New invoice</span>
+          </DialogTitle>
+          <DialogDescription>
+            Enter a paper or emailed bill that did not come through the automated pipeline.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid gap-4 py-2">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="new-invoice-number">Invoice number *</Label>
+              <Input
+                id="new-invoice-number"
+                value={form.invoiceNumber}
+                onChange={(e) => update('invoiceNumber', e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-invoice-supplier">Supplier *</Label>
+              <Input
+                id="new-invoice-supplier"
+                value={form.supplierName}
+                onChange={(e) => update('supplierName', e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-invoice-email">Supplier email</Label>
+              <Input
+                id="new-invoice-email"
+                type="email"
+                value={form.supplierEmail}
+                onChange={(e) => update('supplierEmail', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-invoice-abn">ABN</Label>
+              <Input
+                id="new-invoice-abn"
+                inputMode="numeric"
+                placeholder="11 digits"
+                value={form.supplierAbn}
+                onChange={(e) => update('supplierAbn', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-invoice-total">Total (inc. GST) *</Label>
+              <Input
+                id="new-invoice-total"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.total}
+                onChange={(e) => update('total', e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-invoice-gst">GST</Label>
+              <Input
+                id="new-invoice-gst"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.gstTotal}
+                onChange={(e) => update('gstTotal', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-invoice-date">Invoice date</Label>
+              <Input
+                id="new-invoice-date"
+                type="date"
+                value={form.invoiceDate}
+                onChange={(e) => update('invoiceDate', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-invoice-due">Due date</Label>
+              <Input
+                id="new-invoice-due"
+                type="date"
+                value={form.dueDate}
+                onChange={(e) => update('dueDate', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-invoice-category">Category</Label>
+              <Input
+                id="new-invoice-category"
+                list="new-invoice-categories"
+                value={form.category}
+                onChange={(e) => update('category', e.target.value)}
+              />
+              <datalist id="new-invoice-categories">
+                {categories.map((category) => (
+                  <option key={category} value={category} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-invoice-status">Status</Label>
+              <Select value={form.status} onValueChange={(value) => update('status', value as FormState['status'])}>
+                <SelectTrigger id="new-invoice-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="in_review">In Review</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="new-invoice-description">Description</Label>
+            <Input
+              id="new-invoice-description"
+              value={form.description}
+              onChange={(e) => update('description', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="new-invoice-notes">Notes</Label>
+            <Textarea
+              id="new-invoice-notes"
+              rows={2}
+              value={form.notes}
+              onChange={(e) => update('notes', e.target.value)}
+            />
+          </div>
+
+          {duplicates.length > 0 && (
+            <div
+              role="alert"
+              className="flex items-start space-x-2 rounded-lg border border-amber-200 bg-amber-50 p-3 dark:border-amber-800 dark:bg-amber-950/20"
+            >
+              <AlertTriangle className="mt-0.5 h-5 w-5 text-amber-600" />
+              <div className="space-y-1 text-sm text-amber-800 dark:text-amber-200">
+                <p className="font-medium">This looks like an invoice that already exists:</p>
+                <ul className="list-disc pl-4">
+                  {duplicates.map(({ invoice, reasons }) => (
+                    <li key={invoice.id}>
+                      {invoice.invoiceNumber} · {invoice.vendorName} · {formatCurrency(invoice.amount)} —{' '}
+                      {reasons.map((reason) => DUPLICATE_REASON_LABELS[reason]).join(', ')}
+                    </li>
+                  ))}
+                </ul>
+                <p>Submit again to create it anyway.</p>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <p role="alert" className="text-sm text-rose-600">
+              {error}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit || isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {duplicates.length > 0 ? 'Create anyway' : 'Create invoice'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,110 @@
+"use client"
+
+import * as React from 'react'
+import { CheckCircle, Loader2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type { StatusChangeInput } from '@/lib/invoice-status-machine'
+
+interface PaymentDetailsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Number of invoices being marked as paid */
+  invoiceCount: number
+  onConfirm: (details: Required<StatusChangeInput>) => Promise<void> | void
+}
+
+const today = () => new Date().toISOString().split('T')[0]
+
+/**
+ * Collects the payment date and reference the status workflow requires
+ * before invoices can move to paid (e.g. after a drop on the Paid column).
+ */
+export function PaymentDetailsDialog({ open, onOpenChange, invoiceCount, onConfirm }: PaymentDetailsDialogProps) {
+  const [paymentDate, setPaymentDate] = React.useState(today)
+  const [paymentReference, setPaymentReference] = React.useState('')
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+
+  React.useEffect(() => {
+    if (open) {
+      setPaymentDate(today())
+      setPaymentReference('')
+    }
+  }, [open])
+
+  const canSubmit = paymentDate.length > 0 && paymentReference.trim().length > 0
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!canSubmit) return
+    setIsSubmitting(true)
+    try {
+      await onConfirm({ paymentDate, paymentReference: paymentReference.trim() })
+      onOpenChange(false)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <CheckCircle className="h-5 w-5 text-emerald-600" />
+              Mark as paid
+            </DialogTitle>
+            <DialogDescription>
+              Record the payment for {invoiceCount === 1 ? 'this invoice' : `${invoiceCount} invoices`}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-3">
+            <div className="grid gap-1.5">
+              <Label htmlFor="payment-date">Payment date</Label>
+              <Input
+                id="payment-date"
+                type="date"
+                value={paymentDate}
+                onChange={(event) => setPaymentDate(event.target.value)}
+                required
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="payment-reference">Payment reference</Label>
+              <Input
+                id="payment-reference"
+                value={paymentReference}
+                onChange={(event) => setPaymentReference(event.target.value)}
+                placeholder="e.g. bank transfer or remittance number"
+                maxLength={100}
+                required
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit || isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Mark as paid
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
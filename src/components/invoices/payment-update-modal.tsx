@@ -1,6 +1,7 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   Dialog,
   DialogContent,
@@ -20,83 +21,126 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { Invoice, PaymentStatus } from '@/lib/types';
-import { formatDateForSydney } from '@/lib/data';
+import { Invoice } from '@/lib/types';
+import {
+  fetchInvoicePayments,
+  recordInvoicePayment,
+  type RecordPaymentResult,
+} from '@/lib/api/invoices';
+import type { InvoicePaymentInput } from '@/lib/schemas/api';
+import { formatCurrency } from '@/lib/utils';
 import {
   CheckCircle,
   DollarSign,
   Calendar,
   User,
-  FileText,
-  AlertTriangle
+  History,
+  AlertTriangle,
+  Loader2,
 } from 'lucide-react';
 
 interface PaymentUpdateModalProps {
-  invoice: Invoice | null;
+  invoice: (Pick<Invoice, 'id' | 'invoiceNumber' | 'vendorName' | 'amount' | 'amountDue'> & { dueDate?: Date | string | null }) | null;
   isOpen: boolean;
   onClose: () => void;
-  onUpdate: (invoiceId: string, updates: Partial<Invoice>) => void;
+  /** Called after a payment is stored, with the updated amount due and status */
+  onRecorded?: (result: RecordPaymentResult) => void;
 }
 
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  bank_transfer: 'Bank Transfer',
+  credit_card: 'Credit Card',
+  debit_card: 'Debit Card',
+  cash: 'Cash',
+  cheque: 'Cheque',
+  paypal: 'PayPal',
+  other: 'Other',
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
 export function PaymentUpdateModal({
   invoice,
   isOpen,
   onClose,
-  onUpdate
+  onRecorded
 }: PaymentUpdateModalProps) {
-  const [paymentStatus, setPaymentStatus] = useState<PaymentStatus>('pending');
-  const [paymentDate, setPaymentDate] = useState(new Date().toISOString().split('T')[0]);
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState(today);
   const [paymentMethod, setPaymentMethod] = useState('');
   const [transactionId, setTransactionId] = useState('');
   const [notes, setNotes] = useState('');
   const [confirmedBy, setConfirmedBy] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  if (!invoice) return null;
+  const invoiceKey = invoice ? invoice.id || invoice.invoiceNumber : '';
 
-  const handleSubmit = () => {
-    const updates: Partial<Invoice> = {
-      paymentStatus,
-      processedAt: new Date().toISOString(),
-    };
+  const { data: history, isLoading: isHistoryLoading } = useQuery({
+    queryKey: ['invoice-payments', invoiceKey],
+    queryFn: () => fetchInvoicePayments(invoiceKey),
+    enabled: isOpen && !!invoiceKey,
+  });
 
-    // Store payment details in a structured way
-    const paymentDetails = {
-      status: paymentStatus,
-      date: paymentDate,
-      method: paymentMethod,
-      transactionId,
-      notes,
-      confirmedBy,
-      updatedAt: formatDateForSydney(new Date())
-    };
+  const amountDue = history?.invoice.amountDue ?? invoice?.amountDue ?? invoice?.amount ?? 0;
 
-    // In production, this would save to database
-    console.log('Payment Update:', paymentDetails);
-    
-    onUpdate(invoice.id, updates);
-    
-    // Show success message
-    alert(`Invoice ${invoice.invoiceNumber} marked as ${paymentStatus}`);
-    
-    // Reset form
+  // Default to paying off the balance each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setAmount(amountDue > 0 ? amountDue.toFixed(2) : '');
+    setPaymentDate(today());
     setPaymentMethod('');
     setTransactionId('');
     setNotes('');
-    setConfirmedBy('');
-    
-    onClose();
+    setError(null);
+  }, [isOpen, invoiceKey, amountDue]);
+
+  if (!invoice) return null;
+
+  const parsedAmount = Number(amount);
+  const isAmountValid = Number.isFinite(parsedAmount) && parsedAmount > 0 && parsedAmount <= amountDue + 0.005;
+  const remaining = isAmountValid ? Math.max(0, Math.round((amountDue - parsedAmount) * 100) / 100) : amountDue;
+  const canSubmit = isAmountValid && !!paymentDate && !!transactionId.trim() && !!confirmedBy.trim();
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const result = await recordInvoicePayment(invoiceKey, {
+        amount: Math.round(parsedAmount * 100) / 100,
+        paymentDate,
+        method: (paymentMethod || undefined) as InvoicePaymentInput['method'],
+        reference: transactionId.trim(),
+        notes: notes.trim() || undefined,
+        confirmedBy: confirmedBy.trim(),
+      });
+
+      if (!result.success) {
+        setError(result.error || 'Failed to record payment');
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['invoice-payments', invoiceKey] });
+      onRecorded?.(result);
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center space-x-2">
             <DollarSign className="h-5 w-5 text-blue-600" />
-            <span>Update Payment Status</span>
+            <span>Record Payment</span>
           </DialogTitle>
           <DialogDescription>
-            Update payment information for invoice {invoice.invoiceNumber}
+            Record a full or partial payment for invoice {invoice.invoiceNumber}
           </DialogDescription>
         </DialogHeader>
 
@@ -109,13 +153,15 @@ export function PaymentUpdateModal({
             </div>
             <div className="flex justify-between items-center">
               <span className="text-sm text-slate-600 dark:text-slate-400">Vendor</span>
-              <span className="font-medium">{invoice.vendor}</span>
+              <span className="font-medium">{invoice.vendorName}</span>
             </div>
             <div className="flex justify-between items-center">
               <span className="text-sm text-slate-600 dark:text-slate-400">Amount</span>
-              <span className="font-bold text-lg text-emerald-600">
-                ${invoice.amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}
-              </span>
+              <span className="font-medium">{formatCurrency(invoice.amount)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-slate-600 dark:text-slate-400">Outstanding</span>
+              <span className="font-bold text-lg text-emerald-600">{formatCurrency(amountDue)}</span>
             </div>
             {invoice.dueDate && (
               <div className="flex justify-between items-center">
@@ -127,157 +173,196 @@ export function PaymentUpdateModal({
             )}
           </div>
 
-          {/* Payment Status */}
-          <div className="space-y-2">
-            <Label htmlFor="status">Payment Status *</Label>
-            <Select value={paymentStatus} onValueChange={(value) => setPaymentStatus(value as PaymentStatus)}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select payment status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="pending">
-                  <div className="flex items-center">
-                    <div className="w-2 h-2 bg-amber-500 rounded-full mr-2" />
-                    Pending
-                  </div>
-                </SelectItem>
-                <SelectItem value="in_review">
-                  <div className="flex items-center">
-                    <div className="w-2 h-2 bg-blue-500 rounded-full mr-2" />
-                    In Review
-                  </div>
-                </SelectItem>
-                <SelectItem value="approved">
-                  <div className="flex items-center">
-                    <div className="w-2 h-2 bg-purple-500 rounded-full mr-2" />
-                    Approved
-                  </div>
-                </SelectItem>
-                <SelectItem value="paid">
-                  <div className="flex items-center">
-                    <div className="w-2 h-2 bg-emerald-500 rounded-full mr-2" />
-                    Paid
-                  </div>
-                </SelectItem>
-                <SelectItem value="overdue">
-                  <div className="flex items-center">
-                    <div className="w-2 h-2 bg-red-500 rounded-full mr-2" />
-                    Overdue
-                  </div>
-                </SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          {/* Payment Date */}
-          <div className="space-y-2">
-            <Label htmlFor="paymentDate">Payment Date *</Label>
-            <div className="relative">
-              <Calendar className="absolute left-2 top-2.5 h-4 w-4 text-slate-500" />
-              <Input
-                id="paymentDate"
-                type="date"
-                value={paymentDate}
-                onChange={(e) => setPaymentDate(e.target.value)}
-                className="pl-8"
-                required
-              />
+          {amountDue <= 0 ? (
+            <div className="flex items-start space-x-2 p-3 bg-emerald-50 dark:bg-emerald-950/20 rounded-lg border border-emerald-200 dark:border-emerald-800">
+              <CheckCircle className="h-5 w-5 text-emerald-600 mt-0.5" />
+              <div className="text-sm text-emerald-700 dark:text-emerald-300">
+                This invoice has been paid in full.
+              </div>
             </div>
-          </div>
+          ) : (
+            <>
+              {/* Payment Amount */}
+              <div className="space-y-2">
+                <Label htmlFor="amount">Amount Paid *</Label>
+                <div className="relative">
+                  <DollarSign className="absolute left-2 top-2.5 h-4 w-4 text-slate-500" />
+                  <Input
+                    id="amount"
+                    type="number"
+                    inputMode="decimal"
+                    min="0.01"
+                    step="0.01"
+                    max={amountDue}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    className="pl-8"
+                    required
+                  />
+                </div>
+                {amount && !isAmountValid && (
+                  <p className="text-xs text-rose-600">
+                    Enter an amount between $0.01 and {formatCurrency(amountDue)}
+                  </p>
+                )}
+              </div>
 
-          {/* Payment Method */}
-          <div className="space-y-2">
-            <Label htmlFor="method">Payment Method</Label>
-            <Select value={paymentMethod} onValueChange={setPaymentMethod}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select payment method" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
-                <SelectItem value="credit_card">Credit Card</SelectItem>
-                <SelectItem value="debit_card">Debit Card</SelectItem>
-                <SelectItem value="cash">Cash</SelectItem>
-                <SelectItem value="cheque">Cheque</SelectItem>
-                <SelectItem value="paypal">PayPal</SelectItem>
-                <SelectItem value="other">Other</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+              {/* Payment Date */}
+              <div className="space-y-2">
+                <Label htmlFor="paymentDate">Payment Date *</Label>
+                <div className="relative">
+                  <Calendar className="absolute left-2 top-2.5 h-4 w-4 text-slate-500" />
+                  <Input
+                    id="paymentDate"
+                    type="date"
+                    value={paymentDate}
+                    onChange={(e) => setPaymentDate(e.target.value)}
+                    className="pl-8"
+                    required
+                  />
+                </div>
+              </div>
 
-          {/* Transaction ID */}
-          <div className="space-y-2">
-            <Label htmlFor="transactionId">Transaction/Reference ID</Label>
-            <Input
-              id="transactionId"
-              placeholder="e.g., TXN-123456 or Check #789"
-              value={transactionId}
-              onChange={(e) => setTransactionId(e.target.value)}
-            />
-          </div>
+              {/* Payment Method */}
+              <div className="space-y-2">
+                <Label htmlFor="method">Payment Method</Label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger id="method">
+                    <SelectValue placeholder="Select payment method" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
 
-          {/* Confirmed By */}
-          <div className="space-y-2">
-            <Label htmlFor="confirmedBy">Confirmed By (Team Member) *</Label>
-            <div className="relative">
-              <User className="absolute left-2 top-2.5 h-4 w-4 text-slate-500" />
-              <Input
-                id="confirmedBy"
-                placeholder="Enter your name"
-                value={confirmedBy}
-                onChange={(e) => setConfirmedBy(e.target.value)}
-                className="pl-8"
-                required
-              />
-            </div>
-          </div>
+              {/* Transaction ID */}
+              <div className="space-y-2">
+                <Label htmlFor="transactionId">Transaction/Reference ID *</Label>
+                <Input
+                  id="transactionId"
+                  placeholder="e.g., TXN-123456 or Check #789"
+                  value={transactionId}
+                  onChange={(e) => setTransactionId(e.target.value)}
+                  maxLength={100}
+                  required
+                />
+              </div>
 
-          {/* Notes */}
-          <div className="space-y-2">
-            <Label htmlFor="notes">Notes (Optional)</Label>
-            <Textarea
-              id="notes"
-              placeholder="Add any additional notes about this payment..."
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              rows={3}
-            />
-          </div>
+              {/* Confirmed By */}
+              <div className="space-y-2">
+                <Label htmlFor="confirmedBy">Confirmed By (Team Member) *</Label>
+                <div className="relative">
+                  <User className="absolute left-2 top-2.5 h-4 w-4 text-slate-500" />
+                  <Input
+                    id="confirmedBy"
+                    placeholder="Enter your name"
+                    value={confirmedBy}
+                    onChange={(e) => setConfirmedBy(e.target.value)}
+                    className="pl-8"
+                    maxLength={100}
+                    required
+                  />
+                </div>
+              </div>
 
-          {/* Warning for Overdue */}
-          {paymentStatus === 'overdue' && (
-            <div className="flex items-start space-x-2 p-3 bg-red-50 dark:bg-red-950/20 rounded-lg border border-red-200 dark:border-red-800">
-              <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5" />
-              <div className="text-sm text-red-700 dark:text-red-300">
-                Marking as overdue will trigger alerts. Please ensure follow-up actions are taken.
+              {/* Notes */}
+              <div className="space-y-2">
+                <Label htmlFor="notes">Notes (Optional)</Label>
+                <Textarea
+                  id="notes"
+                  placeholder="Add any additional notes about this payment..."
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={3}
+                />
               </div>
-            </div>
+
+              {/* Outcome Preview */}
+              {isAmountValid && (
+                remaining === 0 ? (
+                  <div className="flex items-start space-x-2 p-3 bg-emerald-50 dark:bg-emerald-950/20 rounded-lg border border-emerald-200 dark:border-emerald-800">
+                    <CheckCircle className="h-5 w-5 text-emerald-600 mt-0.5" />
+                    <div className="text-sm text-emerald-700 dark:text-emerald-300">
+                      This payment settles the invoice and marks it as paid.
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start space-x-2 p-3 bg-amber-50 dark:bg-amber-950/20 rounded-lg border border-amber-200 dark:border-amber-800">
+                    <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5" />
+                    <div className="text-sm text-amber-700 dark:text-amber-300">
+                      Partial payment: {formatCurrency(remaining)} will remain outstanding.
+                    </div>
+                  </div>
+                )
+              )}
+            </>
           )}
 
-          {/* Success Message for Paid */}
-          {paymentStatus === 'paid' && (
-            <div className="flex items-start space-x-2 p-3 bg-emerald-50 dark:bg-emerald-950/20 rounded-lg border border-emerald-200 dark:border-emerald-800">
-              <CheckCircle className="h-5 w-5 text-emerald-600 mt-0.5" />
-              <div className="text-sm text-emerald-700 dark:text-emerald-300">
-                Payment confirmation will be recorded in the system.
-              </div>
+          {error && (
+            <div role="alert" className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+              {error}
             </div>
           )}
+
+          {/* Payment History */}
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+              <History className="h-4 w-4" />
+              <span>Payment History</span>
+            </div>
+            {isHistoryLoading ? (
+              <p className="text-sm text-slate-500">Loading payments…</p>
+            ) : history?.payments.length ? (
+              <ul className="divide-y divide-slate-200 dark:divide-slate-700 rounded-lg border border-slate-200 dark:border-slate-700">
+                {history.payments.map((payment) => (
+                  <li key={payment.id} className="flex items-start justify-between gap-3 px-3 py-2 text-sm">
+                    <div>
+                      <p className="font-medium">{formatCurrency(payment.amount)}</p>
+                      <p className="text-xs text-slate-500">
+                        {new Date(payment.paidAt).toLocaleDateString('en-AU')}
+                        {payment.method && ` · ${PAYMENT_METHOD_LABELS[payment.method] ?? payment.method}`}
+                        {payment.reference && ` · ${payment.reference}`}
+                      </p>
+                      {payment.notes && <p className="text-xs text-slate-500">{payment.notes}</p>}
+                    </div>
+                    <div className="text-right text-xs text-slate-500">
+                      <p>{formatCurrency(payment.amountDueAfter)} left</p>
+                      {(payment.confirmedBy || payment.recordedByEmail) && (
+                        <p>{payment.confirmedBy || payment.recordedByEmail}</p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-slate-500">No payments recorded yet.</p>
+            )}
+          </div>
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={onClose}>
-            Cancel
-          </Button>
-          <Button 
-            onClick={handleSubmit}
-            disabled={!confirmedBy || !paymentDate}
-            className="bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800"
-          >
-            <CheckCircle className="h-4 w-4 mr-2" />
-            Confirm Update
+            {amountDue <= 0 ? 'Close' : 'Cancel'}
           </Button>
+          {amountDue > 0 && (
+            <Button
+              onClick={handleSubmit}
+              disabled={!canSubmit || isSubmitting}
+              className="bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800"
+            >
+              {isSubmitting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <CheckCircle className="h-4 w-4 mr-2" />
+              )}
+              Record Payment
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
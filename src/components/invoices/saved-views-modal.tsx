@@ -1,8 +1,21 @@
 "use client"
 
 import * as React from 'react'
-import { Plus, Trash2 } from 'lucide-react'
+import Link from 'next/link'
+import {
+  ArrowDown,
+  ArrowUp,
+  CalendarClock,
+  Copy,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Save,
+  Star,
+  Trash2,
+} from 'lucide-react'
 
+import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import {
   Dialog,
@@ -12,60 +25,125 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Separator } from '@/components/ui/separator'
 import type { InvoiceSavedView } from '@/lib/api/invoices'
+import { moveSavedView, type SavedViewPermission, type SavedViewVisibility } from '@/lib/saved-views'
 import { useInvoiceFilters } from '@/hooks/use-invoices-filters'
 
+export type SavedViewUpdate = Partial<{
+  name: string
+  isDefault: boolean
+  visibility: SavedViewVisibility
+  permission: SavedViewPermission
+  updateFilters: boolean
+}>
+
 interface SavedViewsModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   views: InvoiceSavedView[]
   isLoading?: boolean
-  onCreate: (payload: { name: string; isDefault?: boolean }) => Promise<void>
+  onCreate: (payload: { name: string; isDefault?: boolean; visibility?: SavedViewVisibility }) => Promise<void>
+  onUpdate: (id: string, changes: SavedViewUpdate) => Promise<void>
+  onDuplicate: (id: string) => Promise<void>
+  onReorder: (ids: string[]) => Promise<void>
   onDelete: (id: string) => Promise<void>
   onRefresh?: () => void
 }
 
+const VISIBILITY_LABELS: Record<SavedViewVisibility, string> = {
+  private: 'Only me',
+  team: 'Shared with team',
+  org: 'Pinned for everyone',
+}
+
+// Views can only move among the current user's views in the same section (pinned or not)
+function canSwap(a: InvoiceSavedView | undefined, b: InvoiceSavedView | undefined): boolean {
+  return Boolean(a && b && a.isOwner && b.isOwner && (a.visibility === 'org') === (b.visibility === 'org'))
+}
+
 export function SavedViewsModal({
   open,
   onOpenChange,
   views,
   isLoading,
   onCreate,
+  onUpdate,
+  onDuplicate,
+  onReorder,
   onDelete,
   onRefresh,
 }: SavedViewsModalProps) {
   const { applySavedView, filters } = useInvoiceFilters()
   const [name, setName] = React.useState('')
   const [isDefault, setIsDefault] = React.useState(false)
+  const [visibility, setVisibility] = React.useState<SavedViewVisibility>('private')
   const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const [renaming, setRenaming] = React.useState<{ id: string; name: string } | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
   const activeViewId = filters.savedViewId
 
   React.useEffect(() => {
     if (!open) {
       setName('')
       setIsDefault(false)
+      setVisibility('private')
       setIsSubmitting(false)
+      setRenaming(null)
+      setError(null)
     }
   }, [open])
 
+  // Run a change and surface its error in the dialog (e.g. pinning without admin rights)
+  const run = async (action: () => Promise<void>) => {
+    setError(null)
+    try {
+      await action()
+      onRefresh?.()
+    } catch (actionError) {
+      console.error('Saved view change failed', actionError)
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong')
+    }
+  }
+
   const handleCreate = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault()
     if (!name.trim()) return
 
     setIsSubmitting(true)
-    try {
-      await onCreate({ name: name.trim(), isDefault })
+    await run(async () => {
+      await onCreate({ name: name.trim(), isDefault, visibility })
       setName('')
       setIsDefault(false)
-      onRefresh?.()
-    } catch (error) {
-      console.error('Failed to create saved view', error)
-    } finally {
-      setIsSubmitting(false)
-    }
+      setVisibility('private')
+    })
+    setIsSubmitting(false)
+  }
+
+  const handleRename = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!renaming?.name.trim()) return
+    const { id, name: nextName } = renaming
+    setRenaming(null)
+    await run(() => onUpdate(id, { name: nextName.trim() }))
+  }
+
+  const handleMove = (index: number, step: -1 | 1) => {
+    const ids = moveSavedView(views.map((view) => view.id), index, index + step)
+    const ownIds = new Set(views.filter((view) => view.isOwner).map((view) => view.id))
+    void run(() => onReorder(ids.filter((id) => ownIds.has(id))))
   }
 
   const handleApply = (view: InvoiceSavedView) => {
@@ -79,13 +157,13 @@ export function SavedViewsModal({
         <DialogHeader>
           <DialogTitle>Saved views</DialogTitle>
           <DialogDescription>
-            Save frequent filter combinations to switch contexts quickly.
+            Save frequent filter combinations to switch contexts quickly, and share them with your team.
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4">
           <div className="flex items-center justify-between">
-            <p className="text-sm font-medium text-slate-700 dark:text-slate-200">Your views</p>
+            <p className="text-sm font-medium text-slate-700 dark:text-slate-200">Views</p>
             {onRefresh && (
               <Button type="button" size="sm" variant="ghost" onClick={onRefresh} disabled={isLoading}>
                 Refresh
@@ -93,47 +171,166 @@ export function SavedViewsModal({
             )}
           </div>
 
-          <div className="space-y-2">
+          {error && (
+            <p role="alert" className="text-sm text-rose-600">
+              {error}
+            </p>
+          )}
+
+          <div className="max-h-80 space-y-2 overflow-y-auto">
             {isLoading ? (
               <p className="text-sm text-slate-500">Loading saved views…</p>
             ) : views.length === 0 ? (
               <p className="text-sm text-slate-500">No saved views yet. Create one below to get started.</p>
             ) : (
-              views.map((view) => (
+              views.map((view, index) => (
                 <div
                   key={view.id}
-                  className="flex items-center justify-between rounded-md border border-slate-200/60 bg-slate-50 px-3 py-2 dark:border-slate-800/60 dark:bg-slate-900/40"
+                  className="flex items-center gap-2 rounded-md border border-slate-200/60 bg-slate-50 px-3 py-2 dark:border-slate-800/60 dark:bg-slate-900/40"
                 >
-                  <button
-                    type="button"
-                    className="flex flex-1 flex-col items-start text-left"
-                    onClick={() => handleApply(view)}
-                  >
-                    <span className="text-sm font-medium text-slate-800 dark:text-slate-100">
-                      {view.name}
-                      {view.isDefault && <span className="ml-2 text-xs text-primary">Default</span>}
-                    </span>
-                    <span className="text-xs text-slate-500">
-                      Updated {new Date(view.updatedAt).toLocaleString()}
-                      {view.id === activeViewId && <span className="ml-2 text-xs text-primary">Active</span>}
-                    </span>
-                  </button>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={async () => {
-                      try {
-                        await onDelete(view.id)
-                        onRefresh?.()
-                      } catch (error) {
-                        console.error('Failed to delete saved view', error)
-                      }
-                    }}
-                    className="text-slate-500 hover:text-red-600"
-                    aria-label={`Delete ${view.name}`}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  {renaming?.id === view.id ? (
+                    <form className="flex flex-1 items-center gap-2" onSubmit={handleRename}>
+                      <Input
+                        aria-label={`New name for ${view.name}`}
+                        value={renaming.name}
+                        onChange={(event) => setRenaming({ id: view.id, name: event.target.value })}
+                        onKeyDown={(event) => {
+                          if (event.key === 'Escape') {
+                            event.stopPropagation()
+                            setRenaming(null)
+                          }
+                        }}
+                        className="h-8"
+                        autoFocus
+                      />
+                      <Button type="submit" size="sm" disabled={!renaming.name.trim()}>
+                        Rename
+                      </Button>
+                    </form>
+                  ) : (
+                    <button
+                      type="button"
+                      className="flex min-w-0 flex-1 flex-col items-start text-left"
+                      onClick={() => handleApply(view)}
+                    >
+                      <span className="flex flex-wrap items-center gap-1.5 text-sm font-medium text-slate-800 dark:text-slate-100">
+                        {view.name}
+                        {view.isDefault && <span className="text-xs text-primary">Default</span>}
+                        {view.visibility !== 'private' && (
+                          <Badge variant="outline" className="px-1.5 py-0 text-[10px] font-normal">
+                            {view.visibility === 'org' ? 'Pinned' : 'Shared'}
+                            {!view.canEdit && ' · read-only'}
+                          </Badge>
+                        )}
+                      </span>
+                      <span className="text-xs text-slate-500">
+                        {!view.isOwner && view.ownerEmail ? `By ${view.ownerEmail} · ` : ''}
+                        Updated {new Date(view.updatedAt).toLocaleString()}
+                        {view.id === activeViewId && <span className="ml-2 text-xs text-primary">Active</span>}
+                      </span>
+                    </button>
+                  )}
+
+                  {view.isOwner && (
+                    <div className="flex flex-col">
+                      <button
+                        type="button"
+                        className="text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                        onClick={() => handleMove(index, -1)}
+                        disabled={!canSwap(view, views[index - 1])}
+                        aria-label={`Move ${view.name} up`}
+                      >
+                        <ArrowUp className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        className="text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                        onClick={() => handleMove(index, 1)}
+                        disabled={!canSwap(view, views[index + 1])}
+                        aria-label={`Move ${view.name} down`}
+                      >
+                        <ArrowDown className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  )}
+
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 text-slate-500" aria-label={`Actions for ${view.name}`}>
+                        <MoreHorizontal className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="w-56">
+                      {view.canEdit && (
+                        <>
+                          <DropdownMenuItem onSelect={() => setRenaming({ id: view.id, name: view.name })}>
+                            <Pencil className="mr-2 h-4 w-4" />
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => void run(() => onUpdate(view.id, { updateFilters: true }))}>
+                            <Save className="mr-2 h-4 w-4" />
+                            Save current filters
+                          </DropdownMenuItem>
+                        </>
+                      )}
+                      <DropdownMenuItem onSelect={() => void run(() => onDuplicate(view.id))}>
+                        <Copy className="mr-2 h-4 w-4" />
+                        Duplicate
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link href={`/reports?viewId=${encodeURIComponent(view.id)}`}>
+                          <CalendarClock className="mr-2 h-4 w-4" />
+                          Schedule email report
+                        </Link>
+                      </DropdownMenuItem>
+                      {view.canManage && (
+                        <>
+                          <DropdownMenuItem
+                            onSelect={() => void run(() => onUpdate(view.id, { isDefault: !view.isDefault }))}
+                          >
+                            <Star className="mr-2 h-4 w-4" />
+                            {view.isDefault ? 'Stop loading by default' : 'Load by default'}
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuLabel className="text-xs font-normal text-slate-500">Sharing</DropdownMenuLabel>
+                          <DropdownMenuRadioGroup
+                            value={view.visibility}
+                            onValueChange={(value) =>
+                              void run(() => onUpdate(view.id, { visibility: value as SavedViewVisibility }))
+                            }
+                          >
+                            {(Object.keys(VISIBILITY_LABELS) as SavedViewVisibility[]).map((option) => (
+                              <DropdownMenuRadioItem key={option} value={option}>
+                                {VISIBILITY_LABELS[option]}
+                              </DropdownMenuRadioItem>
+                            ))}
+                          </DropdownMenuRadioGroup>
+                          {view.visibility !== 'private' && (
+                            <>
+                              <DropdownMenuLabel className="text-xs font-normal text-slate-500">Others can</DropdownMenuLabel>
+                              <DropdownMenuRadioGroup
+                                value={view.permission}
+                                onValueChange={(value) =>
+                                  void run(() => onUpdate(view.id, { permission: value as SavedViewPermission }))
+                                }
+                              >
+                                <DropdownMenuRadioItem value="read">Use it (read-only)</DropdownMenuRadioItem>
+                                <DropdownMenuRadioItem value="edit">Use and edit it</DropdownMenuRadioItem>
+                              </DropdownMenuRadioGroup>
+                            </>
+                          )}
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            className="text-red-600 focus:text-red-600"
+                            onSelect={() => void run(() => onDelete(view.id))}
+                          >
+                            <Trash2 className="mr-2 h-4 w-4" />
+                            Delete
+                          </DropdownMenuItem>
+                        </>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </div>
               ))
             )}
@@ -152,14 +349,26 @@ export function SavedViewsModal({
                 autoFocus
               />
             </div>
-            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
-              <input
-                type="checkbox"
-                checked={isDefault}
-                onChange={(event) => setIsDefault(event.target.checked)}
-              />
-              Set as default view
-            </label>
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={isDefault}
+                  onChange={(event) => setIsDefault(event.target.checked)}
+                />
+                Load by default
+              </label>
+              <select
+                aria-label="Who can see this view"
+                className="rounded-md border bg-background px-2 py-1 text-sm"
+                value={visibility}
+                onChange={(event) => setVisibility(event.target.value as SavedViewVisibility)}
+              >
+                {(Object.keys(VISIBILITY_LABELS) as SavedViewVisibility[]).map((option) => (
+                  <option key={option} value={option}>{VISIBILITY_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
             <DialogFooter>
               <Button type="submit" disabled={isSubmitting || !name.trim()}>
                 <Plus className="mr-2 h-4 w-4" />
@@ -0,0 +1,47 @@
+import { cn } from '@/lib/utils'
+import { highlightSegments, parseSnippet, type HighlightSegment } from '@/lib/invoice-search'
+
+const MARK_CLASS = 'rounded-sm bg-amber-100 px-0.5 text-inherit dark:bg-amber-500/30'
+
+function Segments({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className={MARK_CLASS}>
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </>
+  )
+}
+
+interface HighlightedTextProps {
+  text: string
+  /** Search terms; the text renders as-is without any */
+  terms?: string[]
+}
+
+/** Text with the words matching a search highlighted. */
+export function HighlightedText({ text, terms }: HighlightedTextProps) {
+  if (!terms?.length) return <>{text}</>
+  return <Segments segments={highlightSegments(text, terms)} />
+}
+
+interface SearchSnippetProps {
+  /** Snippet from the search API, with matches wrapped in <mark> */
+  snippet: string
+  className?: string
+}
+
+/** Matching passage from a search result. The markup is parsed, never rendered as HTML. */
+export function SearchSnippet({ snippet, className }: SearchSnippetProps) {
+  return (
+    <p className={cn('text-xs text-slate-600 dark:text-slate-300', className)} data-testid="search-snippet">
+      <Segments segments={parseSnippet(snippet)} />
+    </p>
+  )
+}
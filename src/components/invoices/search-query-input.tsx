@@ -0,0 +1,156 @@
+"use client"
+
+import * as React from "react"
+import { Search } from "lucide-react"
+
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import type { InvoiceFacetsResponse } from "@/lib/api/invoices"
+import {
+  searchQuerySuggestions,
+  type SearchQueryError,
+  type SearchSuggestion,
+} from "@/lib/invoice-search-query"
+import { useInvoiceFilters } from "@/hooks/use-invoices-filters"
+
+interface SearchQueryInputProps {
+  facets?: InvoiceFacetsResponse['facets']
+  className?: string
+}
+
+const LISTBOX_ID = "search-invoices-suggestions"
+
+/**
+ * Invoice search box that understands the search syntax
+ * (`vendor:"origin energy" amount>1200`). It completes field names and facet
+ * values as you type; Enter turns the fields into filter chips and keeps the
+ * free text as the search.
+ */
+export function SearchQueryInput({ facets, className }: SearchQueryInputProps) {
+  const { filters, setSearch, applySearchQuery } = useInvoiceFilters()
+  const [open, setOpen] = React.useState(false)
+  const [activeIndex, setActiveIndex] = React.useState(-1)
+  const [errors, setErrors] = React.useState<SearchQueryError[]>([])
+
+  const source = React.useMemo(
+    () => ({
+      vendors: facets?.vendors.map((vendor) => vendor.value) ?? [],
+      categories: facets?.categories.map((category) => category.value) ?? [],
+    }),
+    [facets],
+  )
+
+  const suggestions = React.useMemo(
+    () => (open ? searchQuerySuggestions(filters.search, source) : []),
+    [open, filters.search, source],
+  )
+
+  const choose = (suggestion: SearchSuggestion) => {
+    setSearch(suggestion.value)
+    setActiveIndex(-1)
+  }
+
+  const commit = () => {
+    const parsed = applySearchQuery(filters.search)
+    setErrors(parsed.errors)
+    setOpen(false)
+    setActiveIndex(-1)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        if (!suggestions.length) return
+        event.preventDefault()
+        setOpen(true)
+        const step = event.key === "ArrowDown" ? 1 : -1
+        setActiveIndex((index) => (index + step + suggestions.length) % suggestions.length)
+        return
+      }
+      case "Tab":
+        if (!suggestions.length || event.shiftKey) return
+        event.preventDefault()
+        choose(suggestions[Math.max(activeIndex, 0)])
+        return
+      case "Enter":
+        event.preventDefault()
+        if (activeIndex >= 0 && suggestions[activeIndex]) choose(suggestions[activeIndex])
+        else commit()
+        return
+      case "Escape":
+        setOpen(false)
+        setActiveIndex(-1)
+        return
+    }
+  }
+
+  const showList = open && suggestions.length > 0
+
+  return (
+    <div className={cn("relative w-full max-w-md", className)}>
+      <Search className="absolute left-2 top-2.5 h-4 w-4 text-slate-400" />
+      <Input
+        id="search-invoices"
+        role="combobox"
+        autoComplete="off"
+        placeholder='Search, or filter e.g. vendor:"origin energy" amount>1200'
+        value={filters.search}
+        onChange={(event) => {
+          setSearch(event.target.value)
+          setErrors([])
+          setOpen(true)
+          setActiveIndex(-1)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        className="pl-8"
+        aria-label="Search invoices; use field:value to filter, Enter to apply"
+        aria-expanded={showList}
+        aria-controls={LISTBOX_ID}
+        aria-autocomplete="list"
+        aria-activedescendant={showList && activeIndex >= 0 ? `${LISTBOX_ID}-${activeIndex}` : undefined}
+        aria-invalid={errors.length > 0 || undefined}
+      />
+      {showList && (
+        <ul
+          id={LISTBOX_ID}
+          role="listbox"
+          className="absolute z-50 mt-1 max-h-72 w-full overflow-y-auto rounded-md border bg-popover p-1 text-sm shadow-md"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.value}
+              id={`${LISTBOX_ID}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={cn(
+                "flex cursor-pointer items-baseline justify-between gap-3 rounded-sm px-2 py-1.5",
+                index === activeIndex && "bg-accent text-accent-foreground",
+              )}
+              // Keep focus in the input so the list does not close before the click lands
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => choose(suggestion)}
+              onMouseEnter={() => setActiveIndex(index)}
+            >
+              <span className="truncate font-medium">{suggestion.label}</span>
+              {suggestion.description && (
+                <span className="truncate text-xs text-muted-foreground">{suggestion.description}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {errors.length > 0 && (
+        <ul role="alert" className="mt-1 space-y-0.5 text-xs text-rose-600">
+          {errors.map((error) => (
+            <li key={error.term}>
+              <code>{error.term}</code>: {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useCallback, useEffect } from 'react';
+import Link from 'next/link';
 import {
   DndContext,
   closestCenter,
@@ -20,6 +21,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
+  Ban,
   Clock,
   DollarSign,
   Building,
@@ -27,9 +29,13 @@ import {
   AlertTriangle,
   CheckCircle,
   ExternalLink,
+  MessageSquare,
   MoreHorizontal,
 } from 'lucide-react';
 import { formatDateForSydney, isDueSoon, isOverdue } from '@/lib/data';
+import { isInvoiceStatus, nextStatuses } from '@/lib/invoice-status-machine';
+import { InvoiceCommentsDialog } from '@/components/invoices/invoice-comments-panel';
+import { InvoiceDocumentViewer } from '@/components/invoices/document-viewer';
 
 export type BoardStatus = 'pending' | 'in_review' | 'approved' | 'paid' | 'overdue';
 
@@ -52,13 +58,18 @@ interface MockInvoice {
 interface PerfectJiraCardProps {
   invoice: MockInvoice;
   isBeingDragged: boolean;
+  isSelected?: boolean;
+  onToggleSelect?: (invoiceId: string) => void;
 }
 
-function PerfectJiraCard({ invoice, isBeingDragged }: PerfectJiraCardProps) {
-  const cardId = `card:${String(invoice.id || invoice.invoiceNumber || 'unknown')}`;
+function PerfectJiraCard({ invoice, isBeingDragged, isSelected = false, onToggleSelect }: PerfectJiraCardProps) {
+  const invoiceKey = String(invoice.id || invoice.invoiceNumber || 'unknown');
+  const cardId = `card:${invoiceKey}`;
   const { attributes, listeners, setNodeRef } = useDraggable({
     id: cardId,
   });
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+  const [isDocumentOpen, setIsDocumentOpen] = useState(false);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-AU', {
@@ -82,122 +93,166 @@ function PerfectJiraCard({ invoice, isBeingDragged }: PerfectJiraCardProps) {
   };
 
   return (
-    <div
-      ref={setNodeRef}
-      {...listeners}
-      {...attributes}
-      data-card-id={invoice.id}
-      className={`mb-3 relative cursor-grab active:cursor-grabbing transition-all duration-150 ease-out ${
-        isBeingDragged
-          ? 'opacity-40'
-          : 'hover:shadow-lg hover:-translate-y-0.5'
-      }`}
-      style={{
-        transform: 'translateZ(0)', // Hardware acceleration
-      }}
-    >
+    <>
+      <div
+        ref={setNodeRef}
+        {...listeners}
+        {...attributes}
+        data-card-id={invoice.id}
+        className={`mb-3 relative cursor-grab active:cursor-grabbing transition-all duration-150 ease-out ${
+          isBeingDragged
+            ? 'opacity-40'
+            : 'hover:shadow-lg hover:-translate-y-0.5'
+        }`}
+        style={{
+          transform: 'translateZ(0)', // Hardware acceleration
+        }}
+      >
 
-      {/* Always visible card content */}
-      <Card className="bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 shadow-sm">
-        <CardContent className="p-4">
-          <div className="space-y-3">
-            {/* Header */}
-            <div className="flex items-start justify-between">
-              <div className="flex-1">
-                <h4 className="text-sm font-semibold text-slate-900 dark:text-slate-100 truncate">
-                  {invoice.invoiceNumber}
-                </h4>
-                <p
-                  className="text-xs text-slate-600 dark:text-slate-400 mt-1 line-clamp-2"
-                  title={invoice.description || invoice.subject}
-                >
-                  {invoice.description || invoice.subject}
-                </p>
+        {/* Always visible card content */}
+        <Card
+          className={`bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 shadow-sm ${
+            isSelected ? 'ring-2 ring-blue-500' : ''
+          }`}
+        >
+          <CardContent className="p-4">
+            <div className="space-y-3">
+              {/* Header */}
+              <div className="flex items-start justify-between">
+                {onToggleSelect && (
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    onChange={() => onToggleSelect(invoiceKey)}
+                    onPointerDown={(e) => e.stopPropagation()}
+                    className="mt-0.5 mr-2 h-4 w-4 rounded border border-slate-300 dark:border-slate-600"
+                    aria-label={`Select invoice ${invoice.invoiceNumber}`}
+                  />
+                )}
+                <div className="flex-1 min-w-0">
+                  <h4 className="text-sm font-semibold text-slate-900 dark:text-slate-100 truncate">
+                    <Link
+                      href={`/invoices/${encodeURIComponent(invoice.id)}`}
+                      onPointerDown={(e) => e.stopPropagation()}
+                      className="hover:underline"
+                    >
+                      {invoice.invoiceNumber}
+                    </Link>
+                  </h4>
+                  <p
+                    className="text-xs text-slate-600 dark:text-slate-400 mt-1 line-clamp-2"
+                    title={invoice.description || invoice.subject}
+                  >
+                    {invoice.description || invoice.subject}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+                  <MoreHorizontal className="h-3 w-3" />
+                </Button>
               </div>
-              <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
-                <MoreHorizontal className="h-3 w-3" />
-              </Button>
-            </div>
 
-            {/* Vendor */}
-            <div className="flex items-center space-x-2">
-              <Building className="h-3 w-3 text-slate-500" />
-              <span className="text-xs text-slate-600 dark:text-slate-400 truncate">
-                {invoice.vendorName || invoice.vendor}
-              </span>
-            </div>
-
-            {/* Amount and Due Date */}
-            <div className="flex items-center justify-between">
+              {/* Vendor */}
               <div className="flex items-center space-x-2">
-                <DollarSign className="h-3 w-3 text-slate-500" />
-                <span className="text-sm font-semibold text-slate-900 dark:text-slate-100">
-                  {formatCurrency(invoice.amount)}
+                <Building className="h-3 w-3 text-slate-500" />
+                <span className="text-xs text-slate-600 dark:text-slate-400 truncate">
+                  {invoice.vendorName || invoice.vendor}
                 </span>
               </div>
 
-              {invoice.dueDate && (
-                <div className={`flex items-center space-x-1 ${
-                  isOverdue(typeof invoice.dueDate === 'string' ? invoice.dueDate : invoice.dueDate.toISOString())
-                    ? 'text-red-600 dark:text-red-400'
-                    : isDueSoon(typeof invoice.dueDate === 'string' ? invoice.dueDate : invoice.dueDate.toISOString())
-                    ? 'text-amber-600 dark:text-amber-400'
-                    : 'text-slate-500'
-                }`}>
-                  <Calendar className="h-3 w-3" />
-                  <span className="text-xs">{formatDate(invoice.dueDate)}</span>
+              {/* Amount and Due Date */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <DollarSign className="h-3 w-3 text-slate-500" />
+                  <span className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+                    {formatCurrency(invoice.amount)}
+                  </span>
                 </div>
-              )}
-            </div>
 
-            {/* Supplier and Invoice Link */}
-            <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-2">
-                <Building className="h-3 w-3 text-slate-500" />
-                <span className="text-xs text-slate-600 dark:text-slate-400 truncate">
-                  {invoice.vendorName || invoice.vendor || 'Unknown Supplier'}
-                </span>
+                {invoice.dueDate && (
+                  <div className={`flex items-center space-x-1 ${
+                    isOverdue(typeof invoice.dueDate === 'string' ? invoice.dueDate : invoice.dueDate.toISOString())
+                      ? 'text-red-600 dark:text-red-400'
+                      : isDueSoon(typeof invoice.dueDate === 'string' ? invoice.dueDate : invoice.dueDate.toISOString())
+                      ? 'text-amber-600 dark:text-amber-400'
+                      : 'text-slate-500'
+                  }`}>
+                    <Calendar className="h-3 w-3" />
+                    <span className="text-xs">{formatDate(invoice.dueDate)}</span>
+                  </div>
+                )}
               </div>
 
-              <div className="flex items-center space-x-1">
-                {(invoice.invoiceUrl || invoice.oneDriveLink) && (
+              {/* Supplier and Invoice Link */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Building className="h-3 w-3 text-slate-500" />
+                  <span className="text-xs text-slate-600 dark:text-slate-400 truncate">
+                    {invoice.vendorName || invoice.vendor || 'Unknown Supplier'}
+                  </span>
+                </div>
+
+                <div className="flex items-center space-x-1">
                   <Button
                     variant="ghost"
                     size="sm"
                     className="h-6 w-6 p-0 hover:bg-slate-100 dark:hover:bg-slate-700"
+                    onPointerDown={(e) => e.stopPropagation()}
                     onClick={(e) => {
                       e.stopPropagation();
-                      const url = invoice.invoiceUrl || invoice.oneDriveLink;
-                      if (url) {
-                        window.open(url, '_blank', 'noopener,noreferrer');
-                      }
+                      setIsCommentsOpen(true);
                     }}
-                    title="View Invoice"
+                    title="Comments"
+                    aria-label={`Comments on invoice ${invoice.invoiceNumber}`}
                   >
-                    <ExternalLink className="h-3 w-3" />
+                    <MessageSquare className="h-3 w-3" />
                   </Button>
-                )}
+                  {(invoice.invoiceUrl || invoice.oneDriveLink) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 hover:bg-slate-100 dark:hover:bg-slate-700"
+                      onPointerDown={(e) => e.stopPropagation()}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        // The preview proxy serves the stored document; older cards only have a OneDrive link
+                        if (invoice.invoiceUrl) {
+                          setIsDocumentOpen(true);
+                        } else if (invoice.oneDriveLink) {
+                          window.open(invoice.oneDriveLink, '_blank', 'noopener,noreferrer');
+                        }
+                      }}
+                      title="View Invoice"
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
               </div>
-            </div>
 
-            {/* Due Status Indicators */}
-            {invoice.dueDate && isOverdue(typeof invoice.dueDate === 'string' ? invoice.dueDate : invoice.dueDate.toISOString()) && (
-              <div className="flex items-center space-x-1 text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950/20 rounded-md px-2 py-1">
-                <AlertTriangle className="h-3 w-3" />
-                <span className="text-xs font-medium">Overdue</span>
-              </div>
-            )}
+              {/* Due Status Indicators */}
+              {invoice.dueDate && isOverdue(typeof invoice.dueDate === 'string' ? invoice.dueDate : invoice.dueDate.toISOString()) && (
+                <div className="flex items-center space-x-1 text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950/20 rounded-md px-2 py-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  <span className="text-xs font-medium">Overdue</span>
+                </div>
+              )}
 
-            {invoice.dueDate && isDueSoon(typeof invoice.dueDate === 'string' ? invoice.dueDate : invoice.dueDate.toISOString()) && !isOverdue(typeof invoice.dueDate === 'string' ? invoice.dueDate : invoice.dueDate.toISOString()) && (
-              <div className="flex items-center space-x-1 text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/20 rounded-md px-2 py-1">
-                <Clock className="h-3 w-3" />
-                <span className="text-xs font-medium">Due Soon</span>
-              </div>
-            )}
-          </div>
-        </CardContent>
-      </Card>
-    </div>
+              {invoice.dueDate && isDueSoon(typeof invoice.dueDate === 'string' ? invoice.dueDate : invoice.dueDate.toISOString()) && !isOverdue(typeof invoice.dueDate === 'string' ? invoice.dueDate : invoice.dueDate.toISOString()) && (
+                <div className="flex items-center space-x-1 text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/20 rounded-md px-2 py-1">
+                  <Clock className="h-3 w-3" />
+                  <span className="text-xs font-medium">Due Soon</span>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+      {/* Outside the draggable so pointer events in the dialog do not start a drag */}
+      <InvoiceCommentsDialog invoice={invoice} open={isCommentsOpen} onOpenChange={setIsCommentsOpen} />
+      {invoice.invoiceUrl && (
+        <InvoiceDocumentViewer invoice={invoice} open={isDocumentOpen} onOpenChange={setIsDocumentOpen} />
+      )}
+    </>
   );
 }
 
@@ -207,10 +262,14 @@ interface PerfectJiraColumnProps {
   invoices: MockInvoice[];
   isHighlighted: boolean;
   draggedInvoiceId: string | null;
+  selectedIds?: ReadonlySet<string>;
+  onToggleSelect?: (invoiceId: string) => void;
+  /** Why the dragged invoice(s) cannot be dropped here; disables the column */
+  dropDisabledReason?: string | null;
 }
 
-function PerfectJiraColumn({ id, title, invoices, isHighlighted, draggedInvoiceId }: PerfectJiraColumnProps) {
-  const { setNodeRef } = useDroppable({ id });
+function PerfectJiraColumn({ id, title, invoices, isHighlighted, draggedInvoiceId, selectedIds, onToggleSelect, dropDisabledReason }: PerfectJiraColumnProps) {
+  const { setNodeRef } = useDroppable({ id, disabled: !!dropDisabledReason });
 
   const getColumnColor = (status: BoardStatus) => {
     switch (status) {
@@ -250,6 +309,8 @@ function PerfectJiraColumn({ id, title, invoices, isHighlighted, draggedInvoiceI
     <div
       ref={setNodeRef}
       data-column-id={id}
+      aria-disabled={dropDisabledReason ? true : undefined}
+      title={dropDisabledReason ?? undefined}
       className={`
         rounded-xl border-2 border-dashed p-4 min-h-96 relative
         transition-all duration-200 ease-out transform-gpu
@@ -258,6 +319,7 @@ function PerfectJiraColumn({ id, title, invoices, isHighlighted, draggedInvoiceI
           ? 'border-blue-500 bg-blue-50/70 dark:bg-blue-950/30 shadow-lg ring-2 ring-blue-400/40'
           : ''
         }
+        ${dropDisabledReason ? 'opacity-50 cursor-not-allowed' : ''}
       `}
     >
       {/* Column Header */}
@@ -283,6 +345,8 @@ function PerfectJiraColumn({ id, title, invoices, isHighlighted, draggedInvoiceI
             key={`${String(invoice.id || invoice.invoiceNumber || 'unknown')}-${id}-${idx}`}
             invoice={invoice}
             isBeingDragged={draggedInvoiceId === String(invoice.id || invoice.invoiceNumber || 'unknown')}
+            isSelected={selectedIds?.has(String(invoice.id || invoice.invoiceNumber || 'unknown')) ?? false}
+            onToggleSelect={onToggleSelect}
           />
         ))}
       </div>
@@ -295,6 +359,16 @@ function PerfectJiraColumn({ id, title, invoices, isHighlighted, draggedInvoiceI
         </div>
       )}
 
+      {/* Blocked Drop Target */}
+      {dropDisabledReason && (
+        <div className="absolute inset-x-0 top-14 flex justify-center pointer-events-none">
+          <div className="flex max-w-[90%] items-center gap-1 rounded-full bg-slate-800 px-3 py-1 text-xs font-medium text-white shadow-lg">
+            <Ban className="h-3 w-3 shrink-0" />
+            <span className="truncate">{dropDisabledReason}</span>
+          </div>
+        </div>
+      )}
+
       {/* Drop Indicator */}
       {isHighlighted && (
         <div className="absolute inset-0 rounded-xl border-2 border-blue-500 bg-blue-500/20 dark:bg-blue-500/30 pointer-events-none">
@@ -312,9 +386,26 @@ function PerfectJiraColumn({ id, title, invoices, isHighlighted, draggedInvoiceI
 interface PerfectJiraKanbanProps {
   invoices: MockInvoice[];
   onInvoiceUpdate: (invoiceId: string, newStatus: BoardStatus) => void | Promise<void>;
+  /** Enables card checkboxes when provided */
+  selectedIds?: ReadonlySet<string>;
+  onToggleSelect?: (invoiceId: string) => void;
+  /** Called instead of onInvoiceUpdate when a selected card is dragged while others are selected */
+  onSelectionMove?: (invoiceIds: string[], newStatus: BoardStatus) => void | Promise<void>;
+  /** Called with the invoices being dragged when a drag starts, and null when it ends */
+  onDraggingChange?: (invoiceIds: string[] | null) => void;
+  /** Statuses blocked by workflow guards for the dragged invoices, with the reason */
+  blockedStatuses?: Partial<Record<BoardStatus, string>>;
 }
 
-export function PerfectJiraKanban({ invoices, onInvoiceUpdate }: PerfectJiraKanbanProps) {
+export function PerfectJiraKanban({
+  invoices,
+  onInvoiceUpdate,
+  selectedIds,
+  onToggleSelect,
+  onSelectionMove,
+  onDraggingChange,
+  blockedStatuses,
+}: PerfectJiraKanbanProps) {
   const [draggedInvoiceId, setDraggedInvoiceId] = useState<string | null>(null);
   const [highlightedColumnId, setHighlightedColumnId] = useState<BoardStatus | null>(null);
   
@@ -348,10 +439,44 @@ export function PerfectJiraKanban({ invoices, onInvoiceUpdate }: PerfectJiraKanb
     })
   );
 
+  const getInvoiceStatus = (invoice: MockInvoice): BoardStatus =>
+    (typeof invoice.status === 'string' ? invoice.status.toLowerCase() : invoice.status) as BoardStatus ||
+    (typeof invoice.paymentStatus === 'string' ? invoice.paymentStatus.toLowerCase() : invoice.paymentStatus) as BoardStatus ||
+    'pending';
+
+  const isSelectionDrag = (invoiceId: string | null) =>
+    !!invoiceId && !!onSelectionMove && !!selectedIds && selectedIds.size > 1 && selectedIds.has(invoiceId);
+
+  const draggingIds = draggedInvoiceId
+    ? isSelectionDrag(draggedInvoiceId) ? Array.from(selectedIds!) : [draggedInvoiceId]
+    : [];
+
+  // Targets the workflow graph rules out for any dragged invoice; guard results come from blockedStatuses
+  const getDropDisabledReason = (target: BoardStatus): string | null => {
+    if (draggingIds.length === 0) return null;
+    for (const invoiceId of draggingIds) {
+      const invoice = invoices.find(inv => String(inv.id || inv.invoiceNumber || 'unknown') === invoiceId);
+      if (!invoice) continue;
+      const current = getInvoiceStatus(invoice);
+      if (current === target || !isInvoiceStatus(current)) continue;
+      if (!nextStatuses(current).includes(target)) {
+        return `Cannot move ${current.replace('_', ' ')} invoices here`;
+      }
+    }
+    return blockedStatuses?.[target] ?? null;
+  };
+
   const handleDragStart = (event: DragStartEvent) => {
     const raw = String(event.active.id || '');
     const normalized = raw.startsWith('card:') ? raw.replace('card:', '') : raw;
     setDraggedInvoiceId(normalized);
+    onDraggingChange?.(isSelectionDrag(normalized) ? Array.from(selectedIds!) : [normalized]);
+  };
+
+  const handleDragCancel = () => {
+    setDraggedInvoiceId(null);
+    setHighlightedColumnId(null);
+    onDraggingChange?.(null);
   };
 
   const handleDragOver = (event: DragOverEvent) => {
@@ -364,21 +489,31 @@ export function PerfectJiraKanban({ invoices, onInvoiceUpdate }: PerfectJiraKanb
     const raw = String(active.id || '');
     const invoiceId = raw.startsWith('card:') ? raw.replace('card:', '') : raw;
 
+    const targetColumnId = over ? (over.id as BoardStatus) : null;
+    const blockedReason = targetColumnId ? getDropDisabledReason(targetColumnId) : null;
+
     // reset drag UI state
     setDraggedInvoiceId(null);
     setHighlightedColumnId(null);
+    onDraggingChange?.(null);
 
+    if (!targetColumnId || blockedReason) return;
 
-    if (!over) return;
-    const targetColumnId = over.id as BoardStatus;
+    // Dragging one card of a multi-selection moves the whole selection
+    if (isSelectionDrag(invoiceId)) {
+      try {
+        await onSelectionMove!(Array.from(selectedIds!), targetColumnId);
+      } catch (error) {
+        console.error('Failed to update selected invoices:', error);
+      }
+      return;
+    }
 
     // Find current status
     const invoice = invoices.find(inv => String(inv.id || inv.invoiceNumber || 'unknown') === invoiceId);
     if (!invoice) return;
 
-    const currentStatus = (typeof invoice.status === 'string' ? invoice.status.toLowerCase() : invoice.status) as BoardStatus ||
-                         (typeof invoice.paymentStatus === 'string' ? invoice.paymentStatus.toLowerCase() : invoice.paymentStatus) as BoardStatus ||
-                         'pending';
+    const currentStatus = getInvoiceStatus(invoice);
 
     // Only update if status changed
     if (currentStatus !== targetColumnId) {
@@ -408,6 +543,7 @@ export function PerfectJiraKanban({ invoices, onInvoiceUpdate }: PerfectJiraKanb
       onDragStart={handleDragStart}
       onDragOver={handleDragOver}
       onDragEnd={handleDragEnd}
+      onDragCancel={handleDragCancel}
     >
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
         {columns.map((column) => (
@@ -418,6 +554,9 @@ export function PerfectJiraKanban({ invoices, onInvoiceUpdate }: PerfectJiraKanb
             invoices={groupedInvoices[column.id] || []}
             isHighlighted={highlightedColumnId === column.id}
             draggedInvoiceId={draggedInvoiceId}
+            selectedIds={selectedIds}
+            onToggleSelect={onToggleSelect}
+            dropDisabledReason={getDropDisabledReason(column.id)}
           />
         ))}
       </div>
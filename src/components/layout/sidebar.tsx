@@ -5,9 +5,17 @@ import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
 import { RPDLogo } from '@/components/ui/rpd-logo';
 import { useInvoiceCount } from '@/hooks/useInvoiceCount';
+import { useQuery } from '@tanstack/react-query';
+import { fetchDuplicateQueue } from '@/lib/api/invoices';
+import { fetchAwaitingApprovals } from '@/lib/api/approvals';
 import {
   LayoutDashboard,
   FileText,
+  Copy,
+  Building2,
+  ClipboardCheck,
+  CalendarClock,
+  FileDown,
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -15,7 +23,7 @@ interface SidebarProps {
   onNavigate?: () => void;
 }
 
-const getNavigation = (invoiceCount?: number) => [
+const getNavigation = (invoiceCount?: number, duplicateCount?: number, approvalCount?: number) => [
   {
     name: 'Dashboard',
     href: '/overview',
@@ -28,12 +36,54 @@ const getNavigation = (invoiceCount?: number) => [
     icon: FileText,
     badge: invoiceCount && invoiceCount > 0 ? invoiceCount.toString() : null,
   },
+  {
+    name: 'Awaiting my approval',
+    href: '/approvals',
+    icon: ClipboardCheck,
+    badge: approvalCount && approvalCount > 0 ? approvalCount.toString() : null,
+  },
+  {
+    name: 'Possible duplicates',
+    href: '/duplicates',
+    icon: Copy,
+    badge: duplicateCount && duplicateCount > 0 ? duplicateCount.toString() : null,
+  },
+  {
+    name: 'Vendors',
+    href: '/vendors',
+    icon: Building2,
+    badge: null,
+  },
+  {
+    name: 'Scheduled reports',
+    href: '/reports',
+    icon: CalendarClock,
+    badge: null,
+  },
+  {
+    name: 'My exports',
+    href: '/exports',
+    icon: FileDown,
+    badge: null,
+  },
 ];
 
 export function Sidebar({ className, onNavigate }: SidebarProps) {
   const pathname = usePathname();
   const { data: invoiceCount } = useInvoiceCount();
-  const navigation = getNavigation(invoiceCount);
+  const { data: duplicates } = useQuery({
+    queryKey: ['invoice-duplicates', 'pending'],
+    queryFn: () => fetchDuplicateQueue('pending'),
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+  const { data: approvals } = useQuery({
+    queryKey: ['approvals'],
+    queryFn: fetchAwaitingApprovals,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+  const navigation = getNavigation(invoiceCount, duplicates?.count, approvals?.count);
 
   return (
     <div className={cn('pb-12 min-h-screen w-full bg-card border-r border/50', className)}>
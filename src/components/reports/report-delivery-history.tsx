@@ -0,0 +1,103 @@
+"use client"
+
+import * as React from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { formatInTimeZone } from 'date-fns-tz'
+import { Loader2, RotateCw } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { fetchReportSchedule, retryReportDelivery, type ReportDelivery } from '@/lib/api/reports'
+import { REPORT_MAX_ATTEMPTS, REPORT_TIMEZONE } from '@/lib/report-schedule'
+
+export const reportScheduleQueryKey = (id: string) => ['report-schedule', id] as const
+
+const STATUS_STYLES: Record<ReportDelivery['status'], string> = {
+  sending: 'bg-slate-100 text-slate-700',
+  sent: 'bg-emerald-100 text-emerald-700',
+  failed: 'bg-rose-100 text-rose-700',
+}
+
+function formatSydney(value: string | null): string {
+  return value ? formatInTimeZone(new Date(value), REPORT_TIMEZONE, 'd MMM yyyy, h:mm a') : '—'
+}
+
+function describeAttempts(delivery: ReportDelivery): string {
+  const reached = `${delivery.sentTo.length} of ${delivery.recipients.length} recipient${delivery.recipients.length === 1 ? '' : 's'}`
+  const attempts = `${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`
+  if (delivery.status !== 'failed') return `${reached} · ${attempts}`
+  if (delivery.nextAttemptAt) return `${reached} · ${attempts} · retrying ${formatSydney(delivery.nextAttemptAt)}`
+  return `${reached} · ${attempts}${delivery.attempts >= REPORT_MAX_ATTEMPTS ? ' · no more automatic retries' : ''}`
+}
+
+/** Recent deliveries of one schedule, with a retry for failed ones. */
+export function ReportDeliveryHistory({ scheduleId }: { scheduleId: string }) {
+  const queryClient = useQueryClient()
+  const [retrying, setRetrying] = React.useState<string | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const { data, isLoading, error: loadError } = useQuery({
+    queryKey: reportScheduleQueryKey(scheduleId),
+    queryFn: () => fetchReportSchedule(scheduleId),
+  })
+
+  const retry = async (delivery: ReportDelivery) => {
+    setRetrying(delivery.id)
+    setError(null)
+    try {
+      await retryReportDelivery(delivery.id)
+    } catch (retryError) {
+      setError(retryError instanceof Error ? retryError.message : 'Failed to retry delivery')
+    } finally {
+      setRetrying(null)
+      queryClient.invalidateQueries({ queryKey: reportScheduleQueryKey(scheduleId) })
+      queryClient.invalidateQueries({ queryKey: ['report-schedules'] })
+    }
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading deliveries…</p>
+  }
+  if (loadError || !data) {
+    return (
+      <p role="alert" className="text-sm text-rose-600">
+        {loadError instanceof Error ? loadError.message : 'Could not load deliveries'}
+      </p>
+    )
+  }
+  if (data.deliveries.length === 0) {
+    return <p className="text-sm text-slate-500">Nothing has been sent yet.</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {error && <p role="alert" className="text-sm text-rose-600">{error}</p>}
+      <ul className="divide-y rounded-md border">
+        {data.deliveries.map((delivery) => (
+          <li key={delivery.id} className="flex flex-wrap items-start justify-between gap-2 p-3 text-sm">
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <Badge className={STATUS_STYLES[delivery.status]}>{delivery.status}</Badge>
+                <span className="font-medium">{formatSydney(delivery.sentAt ?? delivery.createdAt)}</span>
+                {delivery.trigger === 'manual' && <span className="text-xs text-slate-500">Sent by hand</span>}
+                {delivery.rowCount !== null && (
+                  <span className="text-xs text-slate-500">{delivery.rowCount} invoice{delivery.rowCount === 1 ? '' : 's'}</span>
+                )}
+              </div>
+              <p className="text-xs text-slate-500">{describeAttempts(delivery)}</p>
+              {delivery.error && <p className="whitespace-pre-line text-xs text-rose-600">{delivery.error}</p>}
+            </div>
+            {delivery.status === 'failed' && (
+              <Button variant="outline" size="sm" onClick={() => retry(delivery)} disabled={retrying === delivery.id}>
+                {retrying === delivery.id
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <RotateCw className="mr-2 h-4 w-4" />}
+                Retry
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
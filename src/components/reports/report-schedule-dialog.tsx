@@ -0,0 +1,278 @@
+"use client"
+
+import * as React from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { formatInTimeZone } from 'date-fns-tz'
+import { CalendarClock, Loader2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { SAVED_VIEWS_QUERY_KEY } from '@/hooks/use-saved-views'
+import { fetchInvoiceSavedViews } from '@/lib/api/invoices'
+import { createReportSchedule, updateReportSchedule, type ReportSchedule } from '@/lib/api/reports'
+import {
+  describeReportSchedule,
+  nextReportRun,
+  parseRecipients,
+  REPORT_MAX_RECIPIENTS,
+  REPORT_TIMEZONE,
+  WEEKDAYS,
+  type ReportFormat,
+  type ReportFrequency,
+  type ReportScheduleTiming,
+} from '@/lib/report-schedule'
+
+interface ReportScheduleDialogProps {
+  /** The schedule to edit, or null to create one */
+  schedule: ReportSchedule | null
+  /** Saved view to preselect when creating */
+  initialViewId?: string | null
+  isOpen: boolean
+  onClose: () => void
+  onSaved?: (schedule: ReportSchedule) => void
+}
+
+interface FormState {
+  savedViewId: string
+  frequency: ReportFrequency
+  time: string
+  dayOfWeek: string
+  dayOfMonth: string
+  format: ReportFormat
+  recipients: string
+}
+
+const FREQUENCY_LABELS: Record<ReportFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+}
+
+function toFormState(schedule: ReportSchedule | null, initialViewId?: string | null): FormState {
+  return {
+    savedViewId: schedule?.savedViewId ?? initialViewId ?? '',
+    frequency: schedule?.frequency ?? 'weekly',
+    time: `${String(schedule?.hour ?? 8).padStart(2, '0')}:${String(schedule?.minute ?? 0).padStart(2, '0')}`,
+    dayOfWeek: String(schedule?.dayOfWeek ?? 1),
+    dayOfMonth: String(schedule?.dayOfMonth ?? 1),
+    format: schedule?.format ?? 'xlsx',
+    recipients: schedule?.recipients.join(', ') ?? '',
+  }
+}
+
+function toTiming(form: FormState): Required<ReportScheduleTiming> {
+  const [hour, minute] = form.time.split(':').map(Number)
+  return {
+    frequency: form.frequency,
+    hour: hour || 0,
+    minute: minute || 0,
+    dayOfWeek: form.frequency === 'weekly' ? Number(form.dayOfWeek) : null,
+    dayOfMonth: form.frequency === 'monthly' ? Math.min(31, Math.max(1, Math.round(Number(form.dayOfMonth)) || 1)) : null,
+  }
+}
+
+export function ReportScheduleDialog({ schedule, initialViewId, isOpen, onClose, onSaved }: ReportScheduleDialogProps) {
+  const [form, setForm] = React.useState<FormState>(() => toFormState(schedule, initialViewId))
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const { data: savedViews } = useQuery({
+    queryKey: SAVED_VIEWS_QUERY_KEY,
+    queryFn: fetchInvoiceSavedViews,
+    enabled: isOpen,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  React.useEffect(() => {
+    if (!isOpen) return
+    setForm(toFormState(schedule, initialViewId))
+    setError(null)
+  }, [isOpen, schedule, initialViewId])
+
+  const setField = <K extends keyof FormState>(key: K, value: FormState[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }))
+
+  const timing = toTiming(form)
+  const { recipients, invalid } = parseRecipients(form.recipients)
+  const nextRun = formatInTimeZone(nextReportRun(timing, new Date()), REPORT_TIMEZONE, 'EEE d MMM yyyy, h:mm a')
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (invalid.length) {
+      setError(`Not a valid email: ${invalid.join(', ')}`)
+      return
+    }
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const details = { ...timing, format: form.format, recipients }
+      const saved = schedule
+        ? await updateReportSchedule(schedule.id, details)
+        : await createReportSchedule({ ...details, savedViewId: form.savedViewId })
+      onSaved?.(saved)
+      onClose()
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save schedule')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const canSubmit = Boolean(form.savedViewId) && recipients.length > 0 && recipients.length <= REPORT_MAX_RECIPIENTS
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-purple-600" />
+            {schedule ? `Edit ${schedule.viewName ?? 'schedule'}` : 'Schedule a report'}
+          </DialogTitle>
+          <DialogDescription>
+            Emails the invoices in a saved view as an attachment, with a summary, at a set time in Sydney time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid gap-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="report-view">Saved view</Label>
+            <Select
+              value={form.savedViewId}
+              onValueChange={(value) => setField('savedViewId', value)}
+              disabled={Boolean(schedule)}
+            >
+              <SelectTrigger id="report-view">
+                <SelectValue placeholder="Choose a saved view" />
+              </SelectTrigger>
+              <SelectContent>
+                {(savedViews?.views ?? []).map((view) => (
+                  <SelectItem key={view.id} value={view.id}>{view.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="report-frequency">Frequency</Label>
+              <Select value={form.frequency} onValueChange={(value) => setField('frequency', value as ReportFrequency)}>
+                <SelectTrigger id="report-frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.frequency === 'weekly' && (
+              <div className="space-y-2">
+                <Label htmlFor="report-weekday">Day</Label>
+                <Select value={form.dayOfWeek} onValueChange={(value) => setField('dayOfWeek', value)}>
+                  <SelectTrigger id="report-weekday">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {form.frequency === 'monthly' && (
+              <div className="space-y-2">
+                <Label htmlFor="report-monthday">Day of month</Label>
+                <Input
+                  id="report-monthday"
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={form.dayOfMonth}
+                  onChange={(event) => setField('dayOfMonth', event.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="report-time">Time (Sydney)</Label>
+              <Input
+                id="report-time"
+                type="time"
+                step={900}
+                value={form.time}
+                required
+                onChange={(event) => setField('time', event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="report-format">Attachment</Label>
+              <Select value={form.format} onValueChange={(value) => setField('format', value as ReportFormat)}>
+                <SelectTrigger id="report-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                  <SelectItem value="csv">CSV</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-recipients">Recipients</Label>
+            <Textarea
+              id="report-recipients"
+              rows={3}
+              value={form.recipients}
+              placeholder="Email addresses, separated by commas"
+              onChange={(event) => setField('recipients', event.target.value)}
+            />
+            <p className="text-xs text-slate-500">
+              Up to {REPORT_MAX_RECIPIENTS}. Each recipient can unsubscribe from the link in the email.
+            </p>
+          </div>
+
+          <p className="text-sm text-slate-600">
+            {describeReportSchedule(timing)}. Next report: <span className="font-medium">{nextRun}</span>.
+            {' '}Reports run within 15 minutes of the set time.
+          </p>
+
+          {error && <p role="alert" className="text-sm text-rose-600">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !canSubmit}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {schedule ? 'Save schedule' : 'Create schedule'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,240 @@
+"use client"
+
+import * as React from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { formatInTimeZone } from 'date-fns-tz'
+import { ChevronDown, ChevronRight, Pause, Pencil, Play, Plus, Send, Trash2 } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  deleteReportSchedule,
+  fetchReportSchedules,
+  sendReportNow,
+  updateReportSchedule,
+  type ReportSchedule,
+} from '@/lib/api/reports'
+import { describeReportSchedule, REPORT_TIMEZONE } from '@/lib/report-schedule'
+import { ReportDeliveryHistory, reportScheduleQueryKey } from './report-delivery-history'
+import { ReportScheduleDialog } from './report-schedule-dialog'
+
+const REPORT_SCHEDULES_QUERY_KEY = ['report-schedules'] as const
+
+interface ReportSchedulesProps {
+  /** Open the editor for a new schedule of this saved view (e.g. from the saved views dialog) */
+  initialViewId?: string | null
+}
+
+export function ReportSchedules({ initialViewId }: ReportSchedulesProps) {
+  const queryClient = useQueryClient()
+  const [editing, setEditing] = React.useState<ReportSchedule | null>(null)
+  const [isEditorOpen, setIsEditorOpen] = React.useState(Boolean(initialViewId))
+  const [expanded, setExpanded] = React.useState<string | null>(null)
+  const [busy, setBusy] = React.useState<string | null>(null)
+  const [notice, setNotice] = React.useState<string | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const { data: schedules, isLoading, error: loadError } = useQuery({
+    queryKey: REPORT_SCHEDULES_QUERY_KEY,
+    queryFn: fetchReportSchedules,
+  })
+
+  const refresh = (schedule?: ReportSchedule) => {
+    queryClient.invalidateQueries({ queryKey: REPORT_SCHEDULES_QUERY_KEY })
+    if (schedule) queryClient.invalidateQueries({ queryKey: reportScheduleQueryKey(schedule.id) })
+  }
+
+  const run = async (schedule: ReportSchedule, action: () => Promise<string | void>) => {
+    setBusy(schedule.id)
+    setError(null)
+    setNotice(null)
+    try {
+      const message = await action()
+      if (message) setNotice(message)
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong')
+    } finally {
+      setBusy(null)
+      refresh(schedule)
+    }
+  }
+
+  const togglePaused = (schedule: ReportSchedule) =>
+    run(schedule, async () => {
+      await updateReportSchedule(schedule.id, { status: schedule.status === 'paused' ? 'active' : 'paused' })
+    })
+
+  const sendNow = (schedule: ReportSchedule) =>
+    run(schedule, async () => {
+      const delivery = await sendReportNow(schedule.id)
+      setExpanded(schedule.id)
+      return delivery.status === 'sent'
+        ? `Sent ${schedule.viewName ?? 'the report'} to ${delivery.sentTo.length} recipient${delivery.sentTo.length === 1 ? '' : 's'}`
+        : undefined
+    })
+
+  const remove = (schedule: ReportSchedule) => {
+    if (!window.confirm(`Stop sending ${schedule.viewName ?? 'this report'} and delete its history?`)) return
+    run(schedule, () => deleteReportSchedule(schedule.id))
+  }
+
+  const openEditor = (schedule: ReportSchedule | null) => {
+    setEditing(schedule)
+    setIsEditorOpen(true)
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading schedules…</p>
+  }
+  if (loadError || !schedules) {
+    return (
+      <p role="alert" className="text-sm text-rose-600">
+        {loadError instanceof Error ? loadError.message : 'Could not load report schedules'}
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-slate-500">
+          {schedules.length === 0
+            ? 'No reports are scheduled yet. Schedule one from any saved view.'
+            : 'Times are Sydney time. Paused schedules keep their recipients and history.'}
+        </p>
+        <Button size="sm" onClick={() => openEditor(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Schedule report
+        </Button>
+      </div>
+
+      {notice && <p role="status" className="text-sm text-emerald-700">{notice}</p>}
+      {error && <p role="alert" className="text-sm text-rose-600">{error}</p>}
+
+      {schedules.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>Saved view</TableHead>
+              <TableHead>Schedule</TableHead>
+              <TableHead>Recipients</TableHead>
+              <TableHead>Next report</TableHead>
+              <TableHead>Last delivery</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schedules.map((schedule) => {
+              const isExpanded = expanded === schedule.id
+              const name = schedule.viewName ?? 'Saved view'
+              return (
+                <React.Fragment key={schedule.id}>
+                  <TableRow>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpanded(isExpanded ? null : schedule.id)}
+                        aria-label={`${isExpanded ? 'Hide' : 'Show'} deliveries of ${name}`}
+                        aria-expanded={isExpanded}
+                      >
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {name}
+                      {schedule.status === 'paused' && <Badge variant="outline" className="ml-2 text-xs font-normal">Paused</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {describeReportSchedule(schedule)}
+                      <span className="ml-1 text-xs uppercase text-slate-500">{schedule.format}</span>
+                    </TableCell>
+                    <TableCell className="max-w-[220px] truncate text-sm text-slate-600" title={schedule.recipients.join(', ')}>
+                      {schedule.recipients.join(', ') || 'Nobody (paused)'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {schedule.status === 'active' && schedule.nextRunAt
+                        ? formatInTimeZone(new Date(schedule.nextRunAt), REPORT_TIMEZONE, 'EEE d MMM, h:mm a')
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {schedule.lastRunAt ? (
+                        <span className={schedule.lastDeliveryStatus === 'failed' ? 'text-rose-600' : 'text-slate-600'}>
+                          {schedule.lastDeliveryStatus === 'failed' ? 'Failed' : 'Sent'}{' '}
+                          {formatInTimeZone(new Date(schedule.lastRunAt), REPORT_TIMEZONE, 'd MMM, h:mm a')}
+                        </span>
+                      ) : (
+                        <span className="text-slate-500">Not yet</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => sendNow(schedule)}
+                          disabled={busy === schedule.id || schedule.recipients.length === 0}
+                          aria-label={`Send ${name} now`}
+                          title="Send now"
+                        >
+                          <Send className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => togglePaused(schedule)}
+                          disabled={busy === schedule.id}
+                          aria-label={`${schedule.status === 'paused' ? 'Resume' : 'Pause'} ${name}`}
+                          title={schedule.status === 'paused' ? 'Resume' : 'Pause'}
+                        >
+                          {schedule.status === 'paused' ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openEditor(schedule)} aria-label={`Edit ${name}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => remove(schedule)}
+                          disabled={busy === schedule.id}
+                          aria-label={`Delete ${name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                  {isExpanded && (
+                    <TableRow>
+                      <TableCell />
+                      <TableCell colSpan={6}>
+                        <ReportDeliveryHistory scheduleId={schedule.id} />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </React.Fragment>
+              )
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <ReportScheduleDialog
+        schedule={editing}
+        initialViewId={editing ? null : initialViewId}
+        isOpen={isEditorOpen}
+        onClose={() => setIsEditorOpen(false)}
+        onSaved={refresh}
+      />
+    </div>
+  )
+}
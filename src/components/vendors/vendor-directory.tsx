@@ -0,0 +1,235 @@
+"use client"
+
+import * as React from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { GitMerge, Loader2, Pencil, Plus, RefreshCw } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { fetchVendors, mergeVendors, syncInvoiceVendors, type Vendor } from '@/lib/api/vendors'
+import { normaliseVendorName } from '@/lib/vendor-matching'
+import { cn } from '@/lib/utils'
+import { VendorEditDialog } from './vendor-edit-dialog'
+
+export function VendorDirectory() {
+  const queryClient = useQueryClient()
+  const [search, setSearch] = React.useState('')
+  const [selected, setSelected] = React.useState<string[]>([])
+  const [mergeTargetId, setMergeTargetId] = React.useState<string | null>(null)
+  const [editing, setEditing] = React.useState<Vendor | null>(null)
+  const [isEditorOpen, setIsEditorOpen] = React.useState(false)
+  const [pending, setPending] = React.useState<'merge' | 'sync' | null>(null)
+  const [message, setMessage] = React.useState<{ tone: 'info' | 'error'; text: string } | null>(null)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['vendors'],
+    queryFn: fetchVendors,
+  })
+
+  const vendors = React.useMemo(() => {
+    const all = data?.vendors ?? []
+    const term = normaliseVendorName(search)
+    if (!term) return all
+    return all.filter((vendor) =>
+      [vendor.name, ...vendor.aliases].some((name) => normaliseVendorName(name).includes(term))
+      || vendor.abn?.includes(search.replace(/\D/g, '') || '-')
+    )
+  }, [data, search])
+
+  const selectedVendors = (data?.vendors ?? []).filter((vendor) => selected.includes(vendor.id))
+  const targetId = mergeTargetId && selected.includes(mergeTargetId) ? mergeTargetId : selected[0]
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['vendors'] })
+    queryClient.invalidateQueries({ queryKey: ['invoice-facets'] })
+    queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] })
+    queryClient.invalidateQueries({ queryKey: ['payables-aging'] })
+    queryClient.invalidateQueries({ queryKey: ['payables-forecast'] })
+    queryClient.invalidateQueries({ queryKey: ['recurring-insights'] })
+  }
+
+  const toggle = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((value) => value !== id) : [...prev, id]))
+  }
+
+  const handleMerge = async () => {
+    if (!targetId || selected.length < 2) return
+    setPending('merge')
+    setMessage(null)
+    try {
+      const result = await mergeVendors(targetId, selected.filter((id) => id !== targetId))
+      if (!result.success) {
+        setMessage({ tone: 'error', text: result.error || 'Merge failed' })
+        return
+      }
+      setMessage({
+        tone: 'info',
+        text: `Merged ${result.merged?.length ?? 0} vendor${result.merged?.length === 1 ? '' : 's'} into ${result.vendor?.name}; ${result.invoicesMoved ?? 0} invoices moved`,
+      })
+      setSelected([])
+      setMergeTargetId(null)
+      refresh()
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const handleSync = async () => {
+    setPending('sync')
+    setMessage(null)
+    try {
+      const result = await syncInvoiceVendors()
+      if (!result.success) {
+        setMessage({ tone: 'error', text: result.error || 'Sync failed' })
+        return
+      }
+      setMessage({
+        tone: 'info',
+        text: `Linked ${result.linked ?? 0} of ${result.scanned ?? 0} unlinked invoices; ${result.vendorsCreated ?? 0} new vendors`,
+      })
+      refresh()
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const openEditor = (vendor: Vendor | null) => {
+    setEditing(vendor)
+    setIsEditorOpen(true)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Input
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          placeholder="Search vendors, aliases or ABN"
+          className="max-w-xs"
+        />
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleSync} disabled={!!pending}>
+            {pending === 'sync' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Link unmatched invoices
+          </Button>
+          <Button size="sm" onClick={() => openEditor(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New vendor
+          </Button>
+        </div>
+      </div>
+
+      {selected.length >= 2 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border border-blue-200 bg-blue-50/50 p-3 text-sm dark:border-blue-900 dark:bg-blue-950/20">
+          <span>Merge {selected.length} vendors into</span>
+          <select
+            aria-label="Vendor to keep"
+            className="rounded-md border bg-background px-2 py-1"
+            value={targetId}
+            onChange={(event) => setMergeTargetId(event.target.value)}
+          >
+            {selectedVendors.map((vendor) => (
+              <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+            ))}
+          </select>
+          <Button size="sm" onClick={handleMerge} disabled={!!pending}>
+            {pending === 'merge' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <GitMerge className="mr-2 h-4 w-4" />}
+            Merge
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setSelected([])} disabled={!!pending}>
+            Clear
+          </Button>
+        </div>
+      )}
+
+      {message && (
+        <p role={message.tone === 'error' ? 'alert' : 'status'} className={cn('text-sm', message.tone === 'error' ? 'text-rose-600' : 'text-slate-600')}>
+          {message.text}
+        </p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-slate-500">Loading vendors…</p>
+      ) : error ? (
+        <p role="alert" className="text-sm text-rose-600">Could not load vendors</p>
+      ) : vendors.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          {search ? 'No vendors match your search.' : 'No vendors yet. Link unmatched invoices to create them from existing suppliers.'}
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10"><span className="sr-only">Select</span></TableHead>
+              <TableHead>Vendor</TableHead>
+              <TableHead>ABN</TableHead>
+              <TableHead>Contact</TableHead>
+              <TableHead>Defaults</TableHead>
+              <TableHead className="w-10"><span className="sr-only">Edit</span></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {vendors.map((vendor) => {
+              const aliases = vendor.aliases.filter((alias) => alias !== vendor.name)
+              return (
+                <TableRow key={vendor.id} data-state={selected.includes(vendor.id) ? 'selected' : undefined}>
+                  <TableCell>
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${vendor.name}`}
+                      checked={selected.includes(vendor.id)}
+                      onChange={() => toggle(vendor.id)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <p className="font-medium text-slate-900 dark:text-slate-100">{vendor.name}</p>
+                    {aliases.length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {aliases.map((alias) => (
+                          <Badge key={alias} variant="outline" className="text-xs font-normal">{alias}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="tabular-nums">{vendor.abn || '—'}</TableCell>
+                  <TableCell className="text-sm">
+                    {vendor.email || vendor.phone ? (
+                      <>
+                        {vendor.email && <p>{vendor.email}</p>}
+                        {vendor.phone && <p className="text-slate-500">{vendor.phone}</p>}
+                      </>
+                    ) : '—'}
+                  </TableCell>
+                  <TableCell className="text-sm text-slate-600">
+                    {[vendor.defaultCategory, vendor.defaultPaymentTerms].filter(Boolean).join(' · ') || '—'}
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" aria-label={`Edit ${vendor.name}`} onClick={() => openEditor(vendor)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <VendorEditDialog
+        vendor={editing}
+        isOpen={isEditorOpen}
+        onClose={() => setIsEditorOpen(false)}
+        onSaved={refresh}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+"use client"
+
+import * as React from 'react'
+import { Building2, Loader2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { createVendor, updateVendor, type Vendor } from '@/lib/api/vendors'
+
+interface VendorEditDialogProps {
+  /** The vendor to edit, or null to create a new one */
+  vendor: Vendor | null
+  isOpen: boolean
+  onClose: () => void
+  onSaved?: (vendor: Vendor) => void
+}
+
+const FIELDS = [
+  { key: 'name', label: 'Name', placeholder: 'ACME Pty Ltd' },
+  { key: 'abn', label: 'ABN', placeholder: '11 digits' },
+  { key: 'email', label: 'Email', placeholder: 'accounts@example.com' },
+  { key: 'phone', label: 'Phone', placeholder: '' },
+  { key: 'defaultCategory', label: 'Default category', placeholder: 'e.g. Utilities' },
+  { key: 'defaultPaymentTerms', label: 'Default payment terms', placeholder: 'e.g. Net 30' },
+] as const
+
+type FieldKey = typeof FIELDS[number]['key'] | 'address'
+type FormState = Record<FieldKey, string>
+
+function toFormState(vendor: Vendor | null): FormState {
+  return {
+    name: vendor?.name ?? '',
+    abn: vendor?.abn ?? '',
+    email: vendor?.email ?? '',
+    phone: vendor?.phone ?? '',
+    address: vendor?.address ?? '',
+    defaultCategory: vendor?.defaultCategory ?? '',
+    defaultPaymentTerms: vendor?.defaultPaymentTerms ?? '',
+  }
+}
+
+export function VendorEditDialog({ vendor, isOpen, onClose, onSaved }: VendorEditDialogProps) {
+  const [form, setForm] = React.useState<FormState>(() => toFormState(vendor))
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (!isOpen) return
+    setForm(toFormState(vendor))
+    setError(null)
+  }, [isOpen, vendor])
+
+  const setField = (key: FieldKey, value: string) => setForm((prev) => ({ ...prev, [key]: value }))
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!form.name.trim()) return
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const details = {
+        ...form,
+        abn: form.abn.trim() || null,
+        email: form.email.trim() || null,
+      }
+      const result = vendor ? await updateVendor(vendor.id, details) : await createVendor(details)
+      if (!result.success || !result.vendor) {
+        setError(result.error || 'Failed to save vendor')
+        return
+      }
+      onSaved?.(result.vendor)
+      onClose()
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5 text-blue-600" />
+            {vendor ? `Edit ${vendor.name}` : 'New vendor'}
+          </DialogTitle>
+          <DialogDescription>
+            Default category and payment terms are applied to new invoices from this vendor that do not set them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            {FIELDS.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`vendor-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`vendor-${field.key}`}
+                  value={form[field.key]}
+                  placeholder={field.placeholder}
+                  required={field.key === 'name'}
+                  onChange={(event) => setField(field.key, event.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vendor-address">Address</Label>
+            <Textarea
+              id="vendor-address"
+              rows={2}
+              value={form.address}
+              onChange={(event) => setField('address', event.target.value)}
+            />
+          </div>
+
+          {vendor && vendor.aliases.length > 0 && (
+            <p className="text-xs text-slate-500">
+              Also recorded on invoices as: {vendor.aliases.filter((alias) => alias !== vendor.name).join(', ') || '—'}
+            </p>
+          )}
+
+          {error && <p role="alert" className="text-sm text-rose-600">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !form.name.trim()}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save vendor
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,292 @@
+"use client"
+
+import * as React from 'react'
+import Link from 'next/link'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { ArrowLeft, Building2, Pencil } from 'lucide-react'
+import { Area, AreaChart, ResponsiveContainer, Tooltip } from 'recharts'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { fetchVendorSummary, type VendorSummaryResponse } from '@/lib/api/vendors'
+import { cn, formatCurrency, formatDate } from '@/lib/utils'
+import { VendorEditDialog } from './vendor-edit-dialog'
+
+const PERIODS = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '12 months' },
+] as const
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  in_review: 'In review',
+  approved: 'Approved',
+  paid: 'Paid',
+  overdue: 'Overdue',
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-blue-500',
+  in_review: 'bg-amber-500',
+  approved: 'bg-purple-500',
+  paid: 'bg-emerald-500',
+  overdue: 'bg-red-500',
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+function MetricCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <p className="text-sm text-slate-500">{label}</p>
+        <p className="mt-1 text-2xl font-bold tabular-nums text-slate-900 dark:text-slate-100">{value}</p>
+        {hint && <p className="mt-1 text-xs text-slate-500">{hint}</p>}
+      </CardContent>
+    </Card>
+  )
+}
+
+function SpendSparkline({ monthly }: { monthly: VendorSummaryResponse['summary']['monthly'] }) {
+  return (
+    <div className="h-24" aria-label="Monthly spend, last 12 months">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={monthly} margin={{ top: 4, right: 0, left: 0, bottom: 0 }}>
+          <Tooltip
+            formatter={(value: any) => [formatCurrency(Number(value)), 'Spend']}
+            labelFormatter={(_, payload) => payload?.[0]?.payload?.month ?? ''}
+            contentStyle={{ fontSize: '12px', borderRadius: '6px' }}
+          />
+          <Area
+            type="monotone"
+            dataKey="amount"
+            stroke="oklch(0.65 0.12 80)"
+            fill="oklch(0.65 0.12 80)"
+            fillOpacity={0.2}
+            strokeWidth={2}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
+
+function ShareList({ rows }: { rows: Array<{ label: string; count: number; amount: number; color?: string }> }) {
+  const total = rows.reduce((sum, row) => sum + Math.max(0, row.amount), 0)
+  if (rows.length === 0) return <p className="text-sm text-slate-500">No invoices yet.</p>
+
+  return (
+    <ul className="space-y-3">
+      {rows.map((row) => {
+        const share = total > 0 ? Math.max(0, row.amount) / total : 0
+        return (
+          <li key={row.label} className="space-y-1 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-slate-700 dark:text-slate-300">
+                {row.label} <span className="text-xs text-slate-500">({row.count})</span>
+              </span>
+              <span className="tabular-nums">{formatCurrency(row.amount)}</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-slate-100 dark:bg-slate-800">
+              <div
+                className={cn('h-1.5 rounded-full', row.color ?? 'bg-amber-500')}
+                style={{ width: `${Math.round(share * 100)}%` }}
+              />
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export function VendorProfile({ vendorId }: { vendorId: string }) {
+  const queryClient = useQueryClient()
+  const [periodDays, setPeriodDays] = React.useState<number>(90)
+  const [isEditorOpen, setIsEditorOpen] = React.useState(false)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['vendor-summary', vendorId, periodDays],
+    queryFn: () => fetchVendorSummary(vendorId, { dateFrom: daysAgo(periodDays) }),
+  })
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading vendor…</p>
+  }
+  if (error || !data) {
+    return (
+      <div className="space-y-2">
+        <p role="alert" className="text-sm text-rose-600">
+          {error instanceof Error ? error.message : 'Could not load this vendor'}
+        </p>
+        <Link href="/vendors" className="text-sm text-blue-600 hover:underline">Back to vendors</Link>
+      </div>
+    )
+  }
+
+  const { vendor, summary, recentInvoices } = data
+  const aliases = vendor.aliases.filter((alias) => alias !== vendor.name)
+  const periodLabel = PERIODS.find((period) => period.days === periodDays)?.label ?? `${periodDays} days`
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Link href="/vendors" className="inline-flex items-center text-sm text-slate-500 hover:text-slate-700">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Vendors
+          </Link>
+          <h1 className="flex items-center gap-2 text-3xl font-bold tracking-tight text-foreground">
+            <Building2 className="h-7 w-7 text-slate-400" />
+            {vendor.name}
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {[vendor.abn && `ABN ${vendor.abn}`, vendor.email, vendor.phone].filter(Boolean).join(' · ') || 'No contact details'}
+          </p>
+          {aliases.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1 pt-1">
+              <span className="text-xs text-slate-500">Also recorded as</span>
+              {aliases.map((alias) => (
+                <Badge key={alias} variant="outline" className="text-xs font-normal">{alias}</Badge>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex gap-1" role="tablist" aria-label="Spend period">
+            {PERIODS.map((period) => (
+              <Button
+                key={period.days}
+                role="tab"
+                aria-selected={periodDays === period.days}
+                variant={periodDays === period.days ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setPeriodDays(period.days)}
+              >
+                {period.label}
+              </Button>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setIsEditorOpen(true)}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Edit
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <MetricCard
+          label="Lifetime spend"
+          value={formatCurrency(summary.lifetime.amount)}
+          hint={`${summary.lifetime.count} invoice${summary.lifetime.count === 1 ? '' : 's'}${summary.firstInvoiceDate ? ` since ${formatDate(summary.firstInvoiceDate)}` : ''}`}
+        />
+        <MetricCard
+          label={`Spend, last ${periodLabel}`}
+          value={formatCurrency(summary.period.amount)}
+          hint={`${summary.period.count} invoice${summary.period.count === 1 ? '' : 's'}`}
+        />
+        <MetricCard
+          label="Average days to pay"
+          value={summary.averageDaysToPay === null ? '—' : `${summary.averageDaysToPay}`}
+          hint="From issue date to payment"
+        />
+        <MetricCard
+          label="Paid on time"
+          value={summary.onTimeRate === null ? '—' : `${Math.round(summary.onTimeRate * 100)}%`}
+          hint="Paid invoices with a due date"
+        />
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Monthly spend, last 12 months</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <SpendSparkline monthly={summary.monthly} />
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Invoices by status</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ShareList
+              rows={summary.byStatus.map((row) => ({
+                label: STATUS_LABELS[row.status] ?? row.status,
+                count: row.count,
+                amount: row.amount,
+                color: STATUS_COLORS[row.status],
+              }))}
+            />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Category mix</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ShareList rows={summary.categories.map((row) => ({ label: row.category, count: row.count, amount: row.amount }))} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between pb-2">
+          <CardTitle className="text-base">Recent invoices</CardTitle>
+          <Link
+            href={`/invoices?vendor=${encodeURIComponent(vendor.name)}`}
+            className="text-sm text-blue-600 hover:underline"
+          >
+            View all
+          </Link>
+        </CardHeader>
+        <CardContent>
+          {recentInvoices.length === 0 ? (
+            <p className="text-sm text-slate-500">No invoices yet.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+              {recentInvoices.map((invoice) => (
+                <li key={invoice.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium text-slate-900 dark:text-slate-100">
+                      <Link href={`/invoices/${encodeURIComponent(invoice.id)}`} className="hover:underline">
+                        {invoice.invoiceNumber || '—'}
+                      </Link>
+                      {invoice.documentType !== 'invoice' && (
+                        <Badge variant="outline" className="ml-2 text-xs font-normal">Credit</Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {invoice.issueDate ? formatDate(invoice.issueDate) : 'No issue date'}
+                      {invoice.vendorName !== vendor.name ? ` · as ${invoice.vendorName}` : ''}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="tabular-nums">{formatCurrency(invoice.amount)}</p>
+                    <p className="text-xs text-slate-500">{STATUS_LABELS[invoice.status] ?? invoice.status}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <VendorEditDialog
+        vendor={vendor}
+        isOpen={isEditorOpen}
+        onClose={() => setIsEditorOpen(false)}
+        onSaved={() => {
+          queryClient.invalidateQueries({ queryKey: ['vendor-summary', vendorId] })
+          queryClient.invalidateQueries({ queryKey: ['vendors'] })
+        }}
+      />
+    </div>
+  )
+}
@@ -2,7 +2,9 @@
 
 import { createContext, useCallback, useContext, useMemo, useState } from 'react';
 
+import { parseSearchQuery, type ParsedSearchQuery } from '@/lib/invoice-search-query';
 import {
+  applySearchQueryToFilters,
   defaultInvoiceFilters,
   InvoiceFiltersState,
   InvoiceSavedViewPayload,
@@ -20,14 +22,24 @@ interface InvoiceFiltersContextValue {
   toggleVendor: (vendor: string) => void;
   setSearch: (value: string) => void;
   setDateRange: (range: { start?: string; end?: string }) => void;
+  setDueRange: (range: { start?: string; end?: string }) => void;
   setAmountRange: (range?: { min?: number; max?: number }) => void;
   applySavedView: (view: InvoiceSavedViewPayload) => void;
+  /** Turn the fields in a search query into filters and keep its free text as the search */
+  applySearchQuery: (query: string) => ParsedSearchQuery;
 }
 
 const InvoiceFiltersContext = createContext<InvoiceFiltersContextValue | undefined>(undefined);
 
-export function InvoiceFiltersProvider({ children }: { children: React.ReactNode }) {
-  const [filters, setFiltersState] = useState<InvoiceFiltersState>(defaultInvoiceFilters);
+export function InvoiceFiltersProvider({
+  children,
+  initialFilters,
+}: {
+  children: React.ReactNode;
+  /** Filters to start from instead of the defaults, e.g. from a link's query string */
+  initialFilters?: Partial<InvoiceFiltersState>;
+}) {
+  const [filters, setFiltersState] = useState<InvoiceFiltersState>(() => ({ ...defaultInvoiceFilters, ...initialFilters }));
 
   const updateFilters = useCallback(
     (updater: InvoiceFiltersState | ((prev: InvoiceFiltersState) => InvoiceFiltersState)) => {
@@ -101,6 +113,13 @@ export function InvoiceFiltersProvider({ children }: { children: React.ReactNode
           return { ...prev, dateRange: nextRange, savedViewId: undefined };
         });
       },
+      setDueRange: (range) => {
+        setFiltersState((prev) => ({
+          ...prev,
+          dueRange: range.start || range.end ? { start: range.start, end: range.end } : undefined,
+          savedViewId: undefined,
+        }));
+      },
       setAmountRange: (range) => {
         setFiltersState((prev) => ({
           ...prev,
@@ -120,6 +139,11 @@ export function InvoiceFiltersProvider({ children }: { children: React.ReactNode
           savedViewId: view.id,
         });
       },
+      applySearchQuery: (query) => {
+        const parsed = parseSearchQuery(query);
+        setFiltersState((prev) => applySearchQueryToFilters(prev, parsed));
+        return parsed;
+      },
     }),
     [filters, updateFilters]
   );
@@ -0,0 +1,39 @@
+'use client';
+
+import * as React from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchInvoiceSavedViews } from '@/lib/api/invoices';
+import { defaultInvoiceFilters, invoiceFiltersToSearchQuery } from '@/types/invoice-filters';
+import { useInvoiceFilters } from './use-invoices-filters';
+
+export const SAVED_VIEWS_QUERY_KEY = ['invoice-saved-views'] as const;
+
+const DEFAULT_FILTERS_QUERY = invoiceFiltersToSearchQuery(defaultInvoiceFilters);
+
+/**
+ * Saved views for the current user. The first time they load, the user's
+ * default view is applied, unless the page already opened with filters
+ * (e.g. from a shared link) or the user has changed them.
+ */
+export function useSavedViews() {
+  const { filters, applySavedView } = useInvoiceFilters();
+  const query = useQuery({
+    queryKey: SAVED_VIEWS_QUERY_KEY,
+    queryFn: fetchInvoiceSavedViews,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const defaultChecked = React.useRef(false);
+  const untouched = !filters.savedViewId && invoiceFiltersToSearchQuery(filters) === DEFAULT_FILTERS_QUERY;
+
+  React.useEffect(() => {
+    if (defaultChecked.current || !query.data) return;
+    defaultChecked.current = true;
+
+    const view = query.data.views.find((candidate) => candidate.id === query.data.defaultViewId);
+    if (view && untouched) applySavedView(view);
+  }, [query.data, untouched, applySavedView]);
+
+  return query;
+}
@@ -0,0 +1,77 @@
+import {
+  approvalProgress,
+  canApprove,
+  DEFAULT_APPROVAL_POLICIES,
+  selectApprovalPolicy,
+  type ApprovalPolicy,
+} from '../approval-policy'
+
+function policy(overrides: Partial<ApprovalPolicy>): ApprovalPolicy {
+  return {
+    id: 'policy',
+    name: 'Policy',
+    minAmount: 0,
+    maxAmount: null,
+    categories: [],
+    vendorIds: [],
+    requiredApprovals: 1,
+    approverRoles: ['approver', 'admin'],
+    priority: 0,
+    active: true,
+    ...overrides,
+  }
+}
+
+const approver = { id: 'approver-1', role: 'approver' }
+
+describe('approval policies', () => {
+  it('should need one approver under $5k and two from $5k up by default', () => {
+    expect(selectApprovalPolicy({ amount: 4999.99 }, []).requiredApprovals).toBe(1)
+    expect(selectApprovalPolicy({ amount: 5000 }, []).requiredApprovals).toBe(2)
+    expect(selectApprovalPolicy({ amount: -7500 }, []).requiredApprovals).toBe(2)
+  })
+
+  it('should prefer vendor policies over category policies over amount bands', () => {
+    const policies = [
+      ...DEFAULT_APPROVAL_POLICIES,
+      policy({ id: 'legal', categories: ['Legal'], requiredApprovals: 3 }),
+      policy({ id: 'acme', vendorIds: ['vendor-acme'], requiredApprovals: 2 }),
+    ]
+
+    expect(selectApprovalPolicy({ amount: 100, category: 'legal' }, policies).id).toBe('legal')
+    expect(selectApprovalPolicy({ amount: 100, category: 'Legal', vendorId: 'vendor-acme' }, policies).id).toBe('acme')
+    expect(selectApprovalPolicy({ amount: 100, category: 'Fuel' }, policies).id).toBe('default-under-5k')
+  })
+
+  it('should let priority override specificity and skip inactive policies', () => {
+    const policies = [
+      policy({ id: 'vendor', vendorIds: ['vendor-acme'] }),
+      policy({ id: 'board', minAmount: 50000, priority: 10, requiredApprovals: 3 }),
+      policy({ id: 'retired', priority: 99, active: false }),
+    ]
+
+    expect(selectApprovalPolicy({ amount: 60000, vendorId: 'vendor-acme' }, policies).id).toBe('board')
+    expect(selectApprovalPolicy({ amount: 100, vendorId: 'vendor-acme' }, policies).id).toBe('vendor')
+  })
+
+  it('should count each approver once and ignore rejections', () => {
+    const progress = approvalProgress(policy({ requiredApprovals: 2 }), [
+      { approverUserId: 'a', decision: 'approved' },
+      { approverUserId: 'a', decision: 'approved' },
+      { approverUserId: 'b', decision: 'rejected' },
+    ])
+
+    expect(progress).toMatchObject({ required: 2, received: 1, remaining: 1, approverIds: ['a'] })
+  })
+
+  it('should not let the uploader or a non-approver approve', () => {
+    const progress = approvalProgress(policy({}), [])
+
+    expect(canApprove(approver, { amount: 100, uploadedByUserId: 'someone-else' }, progress).allowed).toBe(true)
+    expect(canApprove(approver, { amount: 100, uploadedByUserId: approver.id }, progress)).toEqual({
+      allowed: false,
+      message: 'Invoices must be approved by someone other than the uploader',
+    })
+    expect(canApprove({ id: 'clerk', role: 'user' }, { amount: 100 }, progress).allowed).toBe(false)
+  })
+})
@@ -0,0 +1,78 @@
+import {
+  amountAnomalies,
+  buildRecurringInsights,
+  cadenceLabel,
+  learnCadence,
+  missingInvoiceAlerts,
+  type AnomalyInvoice,
+} from '../billing-cadence'
+
+const now = new Date('2025-10-01T09:00:00Z')
+
+function bill(id: string, issueDate: string, amount = 500, vendorName = 'Strata Co'): AnomalyInvoice {
+  return {
+    id,
+    invoiceNumber: `INV-${id}`,
+    vendorName,
+    vendorId: vendorName === 'Strata Co' ? 'vendor-strata' : null,
+    category: 'Strata',
+    amount,
+    issueDate,
+    dueDate: null,
+  }
+}
+
+const monthly = [
+  bill('1', '2025-05-01', 500),
+  bill('2', '2025-06-01', 510),
+  bill('3', '2025-07-01', 495),
+  bill('4', '2025-08-01', 505),
+]
+
+describe('recurring invoice detection', () => {
+  it('should describe common billing cadences', () => {
+    expect(cadenceLabel(7)).toBe('weekly')
+    expect(cadenceLabel(14)).toBe('fortnightly')
+    expect(cadenceLabel(31)).toBe('monthly')
+    expect(cadenceLabel(91)).toBe('quarterly')
+    expect(cadenceLabel(45)).toBe('every 45 days')
+  })
+
+  it('should alert when a recurring bill is overdue to arrive', () => {
+    const cadence = learnCadence(monthly)!
+
+    // Next bills were due on 2025-09-01 and 2025-10-02; only the first is past the grace period
+    const [alert] = missingInvoiceAlerts([cadence], now)
+    expect(alert).toMatchObject({ expectedDate: '2025-09-01', daysLate: 30, missedCount: 1 })
+    expect(alert.cadence.key).toBe('vendor-strata')
+
+    // A few days late is still within the grace period
+    expect(missingInvoiceAlerts([cadence], new Date('2025-09-04T00:00:00Z'))).toHaveLength(0)
+  })
+
+  it('should flag bills far from the vendor\'s usual amount', () => {
+    const invoices = [...monthly, bill('5', '2025-09-01', 1250), bill('6', '2025-09-02', 80, 'One-off Plumbing')]
+    const cadence = learnCadence(invoices.filter((invoice) => invoice.vendorName === 'Strata Co'))!
+
+    const anomalies = amountAnomalies(invoices, [cadence])
+    expect(anomalies).toHaveLength(1)
+    expect(anomalies[0]).toMatchObject({ id: '5', amount: 1250, typicalAmount: 502.5, deviation: 1.49 })
+
+    // Older bills are outside the window
+    expect(amountAnomalies(invoices, [cadence], '2025-09-15')).toHaveLength(0)
+  })
+
+  it('should ignore normal variation in the amount', () => {
+    const invoices = [...monthly, bill('5', '2025-09-01', 560)]
+    expect(amountAnomalies(invoices, [learnCadence(invoices)!])).toHaveLength(0)
+  })
+
+  it('should summarise recurring vendors, missing bills and anomalies', () => {
+    const insights = buildRecurringInsights([...monthly, bill('5', '2025-09-01', 40)], now)
+
+    expect(insights.vendors).toHaveLength(1)
+    expect(insights.vendors[0]).toMatchObject({ cadence: 'monthly', nextExpectedDate: '2025-10-02' })
+    expect(insights.missing).toHaveLength(0)
+    expect(insights.anomalies.map((anomaly) => anomaly.id)).toEqual(['5'])
+  })
+})
@@ -0,0 +1,120 @@
+import { learnCadence, type CadenceInvoice } from '../billing-cadence'
+import {
+  buildCashflowForecast,
+  parsePaymentTerms,
+  resolveDueDay,
+  startOfWeek,
+  type ForecastInvoice,
+} from '../cashflow-forecast'
+
+// A Wednesday; the first forecast week starts on Monday 2025-09-29
+const now = new Date('2025-10-01T09:00:00Z')
+
+function invoice(overrides: Partial<ForecastInvoice>): ForecastInvoice {
+  return {
+    id: 'inv',
+    invoiceNumber: 'INV-1',
+    vendorName: 'Acme',
+    vendorId: null,
+    category: 'Fuel',
+    status: 'pending',
+    amountDue: 100,
+    issueDate: null,
+    dueDate: null,
+    paymentTerms: null,
+    ...overrides,
+  }
+}
+
+function bill(issueDate: string, amount = 500): CadenceInvoice {
+  return { vendorName: 'Strata Co', vendorId: 'vendor-strata', category: 'Strata', amount, issueDate, dueDate: null }
+}
+
+describe('billing cadence', () => {
+  it('should learn a monthly cadence with its typical amount and due lag', () => {
+    const cadence = learnCadence([
+      { ...bill('2025-06-01', 480), dueDate: '2025-06-15' },
+      { ...bill('2025-07-01', 500), dueDate: '2025-07-15' },
+      bill('2025-08-02', 510),
+      bill('2025-09-01', 505),
+    ])
+
+    expect(cadence).toMatchObject({
+      key: 'vendor-strata',
+      intervalDays: 30,
+      typicalAmount: 502.5,
+      dueLagDays: 14,
+      invoiceCount: 4,
+      lastIssueDate: '2025-09-01',
+    })
+  })
+
+  it('should not treat sparse or irregular billing as recurring', () => {
+    expect(learnCadence([bill('2025-07-01'), bill('2025-08-01')])).toBeNull()
+    expect(learnCadence([bill('2025-01-01'), bill('2025-01-20'), bill('2025-05-01'), bill('2025-05-09')])).toBeNull()
+  })
+})
+
+describe('cash-flow forecast', () => {
+  it('should read common payment terms', () => {
+    expect(parsePaymentTerms('Net 30')).toEqual({ days: 30, endOfMonth: false })
+    expect(parsePaymentTerms('NET7')).toEqual({ days: 7, endOfMonth: false })
+    expect(parsePaymentTerms('COD')).toEqual({ days: 0, endOfMonth: false })
+    expect(parsePaymentTerms('20 EOM')).toEqual({ days: 20, endOfMonth: true })
+    expect(parsePaymentTerms('')).toBeNull()
+  })
+
+  it('should fall back from due date to terms to the 30-day default', () => {
+    const day = (iso: string) => Math.floor(Date.parse(`${iso}T00:00:00Z`) / 86400000)
+    expect(resolveDueDay({ dueDate: '2025-10-10', issueDate: '2025-09-01', paymentTerms: 'Net 7' })).toEqual({ day: day('2025-10-10'), basis: 'due_date' })
+    expect(resolveDueDay({ dueDate: null, issueDate: '2025-09-01', paymentTerms: 'Net 7' })).toEqual({ day: day('2025-09-08'), basis: 'payment_terms' })
+    expect(resolveDueDay({ dueDate: null, issueDate: '2025-09-10', paymentTerms: '20 EOM' })).toEqual({ day: day('2025-10-20'), basis: 'payment_terms' })
+    expect(resolveDueDay({ dueDate: null, issueDate: '2025-09-01', paymentTerms: null })).toEqual({ day: day('2025-10-01'), basis: 'default_terms' })
+    expect(resolveDueDay({ dueDate: null, issueDate: null, paymentTerms: 'Net 7' })).toBeNull()
+  })
+
+  it('should start weeks on Monday', () => {
+    const day = Math.floor(Date.parse('2025-10-05T00:00:00Z') / 86400000)
+    expect(new Date(startOfWeek(day) * 86400000).toISOString().slice(0, 10)).toBe('2025-09-29')
+  })
+
+  it('should place invoices in the week they fall due and apply scenarios', () => {
+    const invoices = [
+      invoice({ id: 'due-this-week', dueDate: '2025-10-03', amountDue: 100 }),
+      invoice({ id: 'due-next-week', dueDate: '2025-10-07', amountDue: 200, status: 'in_review' }),
+      invoice({ id: 'overdue', dueDate: '2025-09-15', amountDue: 300, status: 'overdue' }),
+      invoice({ id: 'far', dueDate: '2026-03-01', amountDue: 400 }),
+      invoice({ id: 'undated', amountDue: 50 }),
+    ]
+
+    const base = buildCashflowForecast(invoices, [], { now })
+    expect(base.weeks).toHaveLength(12)
+    expect(base.weeks[0]).toMatchObject({ weekStart: '2025-09-29', weekEnd: '2025-10-05', outstanding: 100 })
+    expect(base.weeks[1]).toMatchObject({ outstanding: 200, cumulative: 300 })
+    expect(base.overdue).toEqual({ amount: 300, count: 1 })
+    expect(base.beyondHorizon).toEqual({ amount: 400, count: 1 })
+    expect(base.unscheduled).toEqual({ amount: 50, count: 1 })
+
+    const scenario = buildCashflowForecast(invoices, [], { now, scenario: { payOverdueNow: true, deferInReview: true } })
+    expect(scenario.weeks[0].outstanding).toBe(400)
+    expect(scenario.weeks[1].outstanding).toBe(0)
+    expect(scenario.overdue.count).toBe(0)
+    expect(scenario.deferred).toEqual({ amount: 200, count: 1 })
+    expect(scenario.items.find((item) => item.id === 'overdue')).toMatchObject({ basis: 'overdue', payDate: '2025-10-01' })
+  })
+
+  it('should add the bills recurring vendors have yet to send', () => {
+    const cadence = learnCadence([
+      { ...bill('2025-07-01'), dueDate: '2025-07-15' },
+      { ...bill('2025-08-01'), dueDate: '2025-08-15' },
+      { ...bill('2025-09-01'), dueDate: '2025-09-15' },
+    ])!
+
+    const forecast = buildCashflowForecast([], [cadence], { now })
+    const expected = forecast.items.filter((item) => item.kind === 'expected')
+    expect(expected.map((item) => item.payDate)).toEqual(['2025-10-16', '2025-11-16', '2025-12-17'])
+    expect(forecast.totals).toEqual({ outstanding: 0, expected: 1500, total: 1500 })
+
+    expect(buildCashflowForecast([], [cadence], { now, scenario: { includeExpected: false } }).totals.expected).toBe(0)
+  })
+})
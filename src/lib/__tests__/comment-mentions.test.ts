@@ -0,0 +1,25 @@
+import { extractMentions, splitMentions } from '../comment-mentions'
+
+describe('comment mentions', () => {
+  it('should extract names and email handles, lowercased and unique', () => {
+    const body = '@Sam can you check this? cc @ops@example.com and @sam again.'
+
+    expect(extractMentions(body)).toEqual(['sam', 'ops@example.com'])
+  })
+
+  it('should ignore email addresses that are not mentions', () => {
+    expect(extractMentions('Sent to accounts@example.com yesterday')).toEqual([])
+  })
+
+  it('should not include trailing punctuation in the handle', () => {
+    expect(extractMentions('Thanks @sam.lee.')).toEqual(['sam.lee'])
+  })
+
+  it('should split a body into text and mention segments', () => {
+    expect(splitMentions('Ask @sam, then pay')).toEqual([
+      { text: 'Ask ', mention: false },
+      { text: '@sam', mention: true },
+      { text: ', then pay', mention: false },
+    ])
+  })
+})
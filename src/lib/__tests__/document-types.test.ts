@@ -0,0 +1,62 @@
+import {
+  countPdfPages,
+  documentFilename,
+  isAllowedDocumentSource,
+  sniffDocumentType,
+  storageBucketOf,
+} from '../document-types'
+
+const bytes = (text: string) => new TextEncoder().encode(text)
+
+describe('document types', () => {
+  describe('sniffDocumentType', () => {
+    it('should recognise PDFs, including ones with leading junk', () => {
+      expect(sniffDocumentType(bytes('%PDF-1.7\n...')).kind).toBe('pdf')
+      expect(sniffDocumentType(bytes('\r\n\x00%PDF-1.4')).contentType).toBe('application/pdf')
+    })
+
+    it('should recognise common image formats', () => {
+      expect(sniffDocumentType(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0])).contentType).toBe('image/png')
+      expect(sniffDocumentType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0])).contentType).toBe('image/jpeg')
+      expect(sniffDocumentType(bytes('RIFF\x10\x00\x00\x00WEBPVP8 ')).contentType).toBe('image/webp')
+    })
+
+    it('should treat anything else as an opaque download', () => {
+      expect(sniffDocumentType(bytes('<html><script>alert(1)</script>'))).toEqual({
+        contentType: 'application/octet-stream',
+        kind: 'other',
+      })
+    })
+  })
+
+  describe('countPdfPages', () => {
+    it('should count page objects but not the page tree', () => {
+      const pdf = '%PDF-1.4 1 0 obj << /Type /Pages /Kids [2 0 R 3 0 R] /Count 2 >> 2 0 obj << /Type /Page >> 3 0 obj << /Type/Page >>'
+      expect(countPdfPages(bytes(pdf))).toBe(2)
+    })
+
+    it('should return null when no pages are found', () => {
+      expect(countPdfPages(bytes('%PDF-1.7 compressed'))).toBe(null)
+    })
+  })
+
+  it('should derive a safe file name from the stored URL', () => {
+    expect(documentFilename('https://example.com/files/INV%20001.pdf?token=abc', 'invoice')).toBe('INV 001.pdf')
+    expect(documentFilename('https://1drv.ms/b/s!AbCdEf', 'INV-001')).toBe('INV-001')
+  })
+
+  describe('isAllowedDocumentSource', () => {
+    it('should only accept storage sources in the invoice documents bucket', () => {
+      expect(storageBucketOf('storage://invoice-documents/2024/INV-001.pdf')).toBe('invoice-documents')
+      expect(isAllowedDocumentSource('storage://invoice-documents/2024/INV-001.pdf')).toBe(true)
+      expect(isAllowedDocumentSource('storage://invoice-exports/other-user.csv')).toBe(false)
+      expect(isAllowedDocumentSource('STORAGE://avatars/me.png')).toBe(false)
+    })
+
+    it('should leave other sources to the proxy', () => {
+      expect(storageBucketOf('https://1drv.ms/b/s!AbCdEf')).toBe(null)
+      expect(isAllowedDocumentSource('https://1drv.ms/b/s!AbCdEf')).toBe(true)
+      expect(isAllowedDocumentSource('local://INV-001.pdf')).toBe(true)
+    })
+  })
+})
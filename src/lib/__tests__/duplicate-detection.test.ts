@@ -0,0 +1,53 @@
+import {
+  findDuplicatePairs,
+  normaliseInvoiceNumber,
+  scoreDuplicatePair,
+  type DuplicateSubject,
+} from '../duplicate-detection'
+
+const invoice = (overrides: Partial<DuplicateSubject>): DuplicateSubject => ({
+  id: 'a',
+  vendorName: 'Acme Pty Ltd',
+  invoiceNumber: 'INV-0012',
+  amount: 440,
+  issueDate: '2025-06-01',
+  createdAt: '2025-06-02T00:00:00.000Z',
+  fileChecksum: null,
+  ...overrides,
+})
+
+describe('duplicate detection', () => {
+  it('should normalise invoice numbers', () => {
+    expect(normaliseInvoiceNumber('inv 00012')).toBe('INV12')
+    expect(normaliseInvoiceNumber('INV-12')).toBe('INV12')
+  })
+
+  it('should score the same bill received twice as a duplicate', () => {
+    const result = scoreDuplicatePair(invoice({}), invoice({ id: 'b', vendorName: 'ACME', invoiceNumber: 'INV12', issueDate: '2025-06-02' }))
+    expect(result.signals).toEqual(['supplier', 'invoice_number', 'amount', 'date'])
+    expect(result.score).toBeGreaterThan(0.95)
+  })
+
+  it('should always flag a matching file checksum', () => {
+    const result = scoreDuplicatePair(
+      invoice({ fileChecksum: 'abc' }),
+      invoice({ id: 'b', vendorName: 'Other', invoiceNumber: 'X1', amount: 1, issueDate: '2025-09-01', fileChecksum: 'abc' })
+    )
+    expect(result).toEqual({ score: 1, signals: ['file_checksum'] })
+  })
+
+  it('should not flag monthly bills from the same supplier', () => {
+    const result = scoreDuplicatePair(invoice({}), invoice({ id: 'b', invoiceNumber: 'INV-0013', issueDate: '2025-07-01' }))
+    expect(result.score).toBeLessThan(0.6)
+  })
+
+  it('should pair each duplicate once with the earlier invoice as the original', () => {
+    const pairs = findDuplicatePairs([
+      invoice({ id: 'late', createdAt: '2025-06-10T00:00:00.000Z' }),
+      invoice({ id: 'early', createdAt: '2025-06-01T00:00:00.000Z' }),
+      invoice({ id: 'other', vendorName: 'Globex', invoiceNumber: '999', amount: 12 }),
+    ])
+    expect(pairs).toHaveLength(1)
+    expect(pairs[0]).toMatchObject({ invoiceId: 'early', duplicateId: 'late' })
+  })
+})
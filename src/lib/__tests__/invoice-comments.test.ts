@@ -0,0 +1,47 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { listCommentEdits } from '../server/invoice-comments'
+
+// server-only throws outside the react-server condition; the admin client is passed in instead
+jest.mock('server-only', () => ({}))
+jest.mock('../server/supabase-admin', () => ({ getSupabaseAdmin: jest.fn() }))
+
+// Answers every query with `rows`, recording the tables read
+function fakeClient(rows: Record<string, unknown>[]) {
+  const tables: string[] = []
+  const query = {
+    select: () => query,
+    eq: () => query,
+    order: () => Promise.resolve({ data: rows, error: null }),
+  }
+  const client = {
+    from: (table: string) => {
+      tables.push(table)
+      return query
+    },
+  }
+  return { client: client as unknown as SupabaseClient, tables }
+}
+
+const editRow = {
+  id: 'edit-1',
+  comment_id: 'comment-1',
+  previous_body: 'Paid twice?',
+  edited_by: 'user-1',
+  edited_at: '2025-11-10T00:00:00Z',
+}
+
+describe('invoice comments', () => {
+  it('should list the earlier bodies of a comment', async () => {
+    const { client } = fakeClient([editRow])
+    const edits = await listCommentEdits({ id: 'comment-1', deletedAt: null }, client)
+    expect(edits.map((edit) => edit.previousBody)).toEqual(['Paid twice?'])
+  })
+
+  it('should not return the history of a deleted comment', async () => {
+    const { client, tables } = fakeClient([editRow])
+    const edits = await listCommentEdits({ id: 'comment-1', deletedAt: '2025-11-11T00:00:00Z' }, client)
+    expect(edits).toEqual([])
+    expect(tables).toEqual([])
+  })
+})
@@ -0,0 +1,105 @@
+import ExcelJS from 'exceljs'
+
+import {
+  exportJobProgress,
+  invoiceExportFields,
+  invoiceExportFilename,
+  isExportJobActive,
+  type ExportInvoice,
+  type InvoiceExportColumnId,
+  type InvoiceExportFormat,
+} from '../invoice-export'
+import { createInvoiceExportEncoder } from '../server/invoice-export-encoder'
+
+// server-only throws outside the react-server condition
+jest.mock('server-only', () => ({}))
+
+const decoder = new TextDecoder()
+
+function invoice(overrides: Partial<ExportInvoice>): ExportInvoice {
+  return {
+    id: 'inv-1',
+    invoiceNumber: 'INV-1',
+    vendorName: 'Origin Energy',
+    status: 'in_review',
+    category: 'Utilities',
+    issueDate: '2025-10-01T00:00:00Z',
+    dueDate: '2025-10-31T00:00:00Z',
+    amount: 1234.5,
+    amountDue: 1234.5,
+    ...overrides,
+  }
+}
+
+async function encode(
+  format: InvoiceExportFormat,
+  pages: ExportInvoice[][],
+  columns: InvoiceExportColumnId[] = ['vendorName', 'amount', 'dueDate'],
+): Promise<Uint8Array> {
+  const encoder = createInvoiceExportEncoder(format, columns)
+  const chunks = [await encoder.start()]
+  for (const page of pages) chunks.push(await encoder.write(page))
+  chunks.push(await encoder.finish())
+  return Buffer.concat(chunks)
+}
+
+describe('invoice export', () => {
+  it('should write picked columns in order, with amounts as numbers and formatted', () => {
+    expect(invoiceExportFields(['status', 'amountDue', 'status']).map((field) => field.header)).toEqual([
+      'Status',
+      'Amount Due',
+      'Amount Due (formatted)',
+    ])
+  })
+
+  it('should write a CSV page by page', async () => {
+    const csv = await encode('csv', [[invoice({})], [], [invoice({ vendorName: 'Smith, Jones', amount: -20, dueDate: null })]])
+    expect(decoder.decode(csv)).toBe(
+      'Vendor Name,Amount,Amount (formatted),Due Date\n' +
+        'Origin Energy,1234.5,"$1,234.50",2025-10-31\n' +
+        '"Smith, Jones",-20,-$20.00,'
+    )
+  })
+
+  it('should write one JSON object per line', async () => {
+    const lines = decoder.decode(await encode('jsonl', [[invoice({}), invoice({ vendorName: 'AGL' })]])).split('\n')
+    expect(lines).toHaveLength(3)
+    expect(JSON.parse(lines[0])).toEqual({
+      vendorName: 'Origin Energy',
+      amount: 1234.5,
+      amountFormatted: '$1,234.50',
+      dueDate: '2025-10-31',
+    })
+    expect(lines[2]).toBe('')
+  })
+
+  it('should label statuses and write numeric XLSX cells', async () => {
+    const workbook = new ExcelJS.Workbook()
+    const xlsx = await encode('xlsx', [[invoice({})], [], [invoice({ vendorName: 'AGL' })]], ['status', 'amount'])
+    await workbook.xlsx.load(new Uint8Array(xlsx).buffer)
+    const sheet = workbook.getWorksheet('Invoices')!
+    expect((sheet.getRow(1).values as ExcelJS.CellValue[]).slice(1)).toEqual(['Status', 'Amount', 'Amount (formatted)'])
+    expect((sheet.getRow(2).values as ExcelJS.CellValue[]).slice(1)).toEqual(['In review', 1234.5, '$1,234.50'])
+    expect(sheet.getCell('B2').numFmt).toBe('#,##0.00')
+    expect(sheet.rowCount).toBe(3)
+  })
+
+  it('should name the file after the Sydney date', () => {
+    expect(invoiceExportFilename('jsonl', new Date('2025-11-09T21:00:00Z'))).toBe('invoices-export-2025-11-10.jsonl')
+  })
+
+  it('should report background export progress in whole percent', () => {
+    expect(exportJobProgress({ status: 'queued', rowsWritten: 0, rowsTotal: null })).toBe(0)
+    expect(exportJobProgress({ status: 'running', rowsWritten: 500, rowsTotal: 3000 })).toBe(16)
+    expect(exportJobProgress({ status: 'running', rowsWritten: 3100, rowsTotal: 3000 })).toBe(99)
+    expect(exportJobProgress({ status: 'running', rowsWritten: 10, rowsTotal: null })).toBeNull()
+    expect(exportJobProgress({ status: 'completed', rowsWritten: 2990, rowsTotal: 3000 })).toBe(100)
+  })
+
+  it('should treat only queued and running exports as active', () => {
+    expect(isExportJobActive('queued')).toBe(true)
+    expect(isExportJobActive('running')).toBe(true)
+    expect(isExportJobActive('completed')).toBe(false)
+    expect(isExportJobActive('cancelled')).toBe(false)
+  })
+})
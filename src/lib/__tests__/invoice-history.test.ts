@@ -0,0 +1,109 @@
+import {
+  EDITABLE_INVOICE_FIELDS,
+  canRevertField,
+  diffFields,
+  formatFieldValue,
+  toHistoryEvent,
+} from '../invoice-history'
+import type { AuditLog } from '../types'
+
+function entry(action: string, changes: Record<string, any>): AuditLog {
+  return {
+    id: 'entry-1',
+    entityType: 'invoice',
+    entityId: 'inv-1',
+    action,
+    userId: 'user-1',
+    userEmail: 'ap@example.com',
+    changes,
+    ipAddress: null,
+    userAgent: null,
+    createdAt: '2025-10-01T09:00:00Z',
+  }
+}
+
+describe('diffFields', () => {
+  const invoice = {
+    category: 'Utilities',
+    description: 'Electricity',
+    notes: null,
+    dueDate: '2025-10-15T00:00:00.000Z',
+    paymentTerms: 'Net 30',
+  }
+
+  it('records only fields that change value', () => {
+    const fields = diffFields(invoice, { category: 'Strata', description: 'Electricity' }, EDITABLE_INVOICE_FIELDS)
+    expect(fields).toEqual([{ field: 'category', before: 'Utilities', after: 'Strata' }])
+  })
+
+  it('ignores fields that were not submitted', () => {
+    expect(diffFields(invoice, {}, EDITABLE_INVOICE_FIELDS)).toHaveLength(0)
+  })
+
+  it('treats a midnight timestamp as its date and empty text as no value', () => {
+    expect(diffFields(invoice, { dueDate: '2025-10-15', notes: '' }, EDITABLE_INVOICE_FIELDS)).toHaveLength(0)
+
+    const fields = diffFields(invoice, { dueDate: '2025-10-31' }, EDITABLE_INVOICE_FIELDS)
+    expect(fields).toEqual([{ field: 'dueDate', before: '2025-10-15', after: '2025-10-31' }])
+  })
+})
+
+describe('toHistoryEvent', () => {
+  it('reads field changes, source and request id', () => {
+    const event = toHistoryEvent(entry('INVOICE_UPDATED', {
+      fields: [{ field: 'notes', before: null, after: 'Check with landlord' }],
+      source: 'ui',
+      request_id: 'req-1',
+    }))
+
+    expect(event).toMatchObject({
+      action: 'INVOICE_UPDATED',
+      actor: 'ap@example.com',
+      source: 'ui',
+      requestId: 'req-1',
+      fields: [{ field: 'notes', before: null, after: 'Check with landlord' }],
+    })
+  })
+
+  it('reads old/new pairs from older entries', () => {
+    const event = toHistoryEvent(entry('STATUS_CHANGE', {
+      old_status: 'pending',
+      new_status: 'approved',
+      source: 'chat_assistant',
+    }))
+
+    expect(event.source).toBe('chat')
+    expect(event.requestId).toBeNull()
+    expect(event.fields).toEqual([{ field: 'status', before: 'pending', after: 'approved' }])
+  })
+
+  it('drops unknown sources', () => {
+    expect(toHistoryEvent(entry('CREATE', { source: 'cron' })).source).toBeNull()
+  })
+})
+
+describe('canRevertField', () => {
+  const event = toHistoryEvent(entry('INVOICE_UPDATED', {
+    fields: [
+      { field: 'category', before: 'Utilities', after: 'Strata' },
+      { field: 'status', before: 'pending', after: 'approved' },
+    ],
+  }))
+
+  it('allows editable fields changed by the event', () => {
+    expect(canRevertField(event, 'category')).toBe(true)
+  })
+
+  it('refuses workflow fields and fields the event did not change', () => {
+    expect(canRevertField(event, 'status')).toBe(false)
+    expect(canRevertField(event, 'description')).toBe(false)
+  })
+})
+
+describe('formatFieldValue', () => {
+  it('shows missing values as a dash and dates without time', () => {
+    expect(formatFieldValue(null)).toBe('—')
+    expect(formatFieldValue('2025-10-15T00:00:00.000Z')).toBe('2025-10-15')
+    expect(formatFieldValue('Net 30')).toBe('Net 30')
+  })
+})
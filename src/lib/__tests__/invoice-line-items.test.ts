@@ -0,0 +1,33 @@
+import { lineItemsFromRow } from '../invoice-line-items'
+
+describe('lineItemsFromRow', () => {
+  it('reads the captured line items', () => {
+    const items = lineItemsFromRow({
+      line_items: [
+        { description: 'Cleaning', quantity: 2, unit_price: 150, tax_rate: 0.1, line_total: 330 },
+        { description: 'Call-out fee', unit_price: '$85.00' },
+      ],
+    })
+
+    expect(items).toEqual([
+      { description: 'Cleaning', quantity: 2, unitPrice: 150, taxRate: 0.1, amount: 330 },
+      { description: 'Call-out fee', quantity: null, unitPrice: 85, taxRate: null, amount: null },
+    ])
+  })
+
+  it('works out a missing line total from quantity and unit price', () => {
+    const [item] = lineItemsFromRow({ line_items: JSON.stringify([{ description: 'Paper', quantity: 3, unit_price: 12.5 }]) })
+    expect(item.amount).toBe(37.5)
+  })
+
+  it('falls back to the flattened first line of legacy rows', () => {
+    expect(lineItemsFromRow({ line_1_desc: 'Electricity', line_1_qty: '1', line_1_unit_price: '212.40' })).toEqual([
+      { description: 'Electricity', quantity: 1, unitPrice: 212.4, taxRate: null, amount: 212.4 },
+    ])
+  })
+
+  it('skips empty entries and unreadable values', () => {
+    expect(lineItemsFromRow({ line_items: [{}, null, 'x'] })).toHaveLength(0)
+    expect(lineItemsFromRow({ line_items: 'not json' })).toHaveLength(0)
+  })
+})
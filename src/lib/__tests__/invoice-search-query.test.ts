@@ -0,0 +1,79 @@
+import {
+  addDays,
+  formatSearchQuery,
+  parseSearchQuery,
+  searchQuerySuggestions,
+} from '../invoice-search-query'
+
+const source = {
+  vendors: ['Origin Energy', 'Officeworks', 'Telstra'],
+  categories: ['Utilities', 'Office Supplies'],
+}
+
+describe('invoice search query', () => {
+  it('should parse fields, comparisons and free text', () => {
+    const parsed = parseSearchQuery('vendor:"origin energy" amount>1200 due<2025-11-01 status:overdue collingwood')
+    expect(parsed).toMatchObject({
+      text: 'collingwood',
+      vendors: ['origin energy'],
+      statuses: ['overdue'],
+      amountMin: 1200.01,
+      dueTo: '2025-10-31',
+      errors: [],
+    })
+    expect(parsed.amountMax).toBe(undefined)
+  })
+
+  it('should treat months and years as ranges of days', () => {
+    expect(parseSearchQuery('date:2025-02')).toMatchObject({ dateFrom: '2025-02-01', dateTo: '2025-02-28' })
+    expect(parseSearchQuery('due>2025-12')).toMatchObject({ dueFrom: '2026-01-01' })
+    expect(parseSearchQuery('issued<=2024')).toMatchObject({ dateTo: '2024-12-31' })
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01')
+  })
+
+  it('should narrow ranges and collect repeated list fields', () => {
+    const parsed = parseSearchQuery('amount>=100 amount>=250 amount<=900 amount<1000 cat:Utilities category:Utilities is:review is:paid')
+    expect(parsed).toMatchObject({ amountMin: 250, amountMax: 900, categories: ['Utilities'], statuses: ['in_review', 'paid'] })
+  })
+
+  it('should report unusable terms and keep unknown fields as text', () => {
+    const parsed = parseSearchQuery('amount>lots status:lost due:2025-13-01 vendor>acme ref:INV-1 vendor:')
+    expect(parsed.text).toBe('ref:INV-1')
+    expect(parsed.errors.map((error) => error.term)).toEqual(['amount>lots', 'status:lost', 'due:2025-13-01', 'vendor>acme'])
+    expect(parsed.vendors).toEqual([])
+  })
+
+  it('should round-trip filters through the syntax', () => {
+    const filters = {
+      vendors: ['Origin Energy'],
+      categories: ['Utilities'],
+      statuses: ['overdue' as const],
+      amountMin: 1200.01,
+      dateFrom: '2025-05-01',
+      dueFrom: '2025-11-01',
+      dueTo: '2025-11-01',
+      aging: '31-60' as const,
+      text: 'collingwood',
+    }
+    const query = formatSearchQuery(filters)
+    expect(query).toBe(
+      'vendor:"Origin Energy" category:Utilities status:overdue amount>=1200.01 date>=2025-05-01 due:2025-11-01 aging:31-60 collingwood',
+    )
+    expect(parseSearchQuery(query)).toMatchObject({ ...filters, errors: [] })
+  })
+
+  it('should suggest field names for a bare word', () => {
+    expect(searchQuerySuggestions('power bill ven', source).map((s) => s.value)).toEqual(['power bill vendor:'])
+    expect(searchQuerySuggestions('', source).length).toBe(7)
+    expect(searchQuerySuggestions('amount>12', source)).toEqual([])
+  })
+
+  it('should suggest facet values for the field being typed', () => {
+    expect(searchQuerySuggestions('status:over', source).map((s) => s.value)).toEqual(['status:overdue '])
+    expect(searchQuerySuggestions('amount>10 vendor:"off', source).map((s) => s.value)).toEqual([
+      'amount>10 vendor:Officeworks ',
+    ])
+    expect(searchQuerySuggestions('supplier:orig', source).map((s) => s.value)).toEqual(['vendor:"Origin Energy" '])
+    expect(searchQuerySuggestions('category:', source)).toHaveLength(2)
+  })
+})
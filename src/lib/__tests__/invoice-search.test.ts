@@ -0,0 +1,90 @@
+import {
+  buildSnippet,
+  highlightSegments,
+  matchInvoiceSearch,
+  parseSnippet,
+  searchTerms,
+  sortByRank,
+  toPrefixTsQuery,
+  type SearchDocument,
+} from '../invoice-search'
+
+const electricity: SearchDocument = {
+  invoiceNumber: 'INV-20931',
+  vendorName: 'Origin Energy',
+  description: 'Electricity supply for the Collingwood warehouse, October billing period',
+  category: 'Utilities',
+  lineItems: ['Peak usage', 'Supply charge'],
+}
+
+const stationery: SearchDocument = {
+  invoiceNumber: 'OW-118',
+  vendorName: 'Officeworks',
+  description: 'Printer paper and toner for the warehouse office',
+  category: 'Office Supplies',
+}
+
+describe('invoice search', () => {
+  it('should split a search into unique lower-cased terms', () => {
+    expect(searchTerms('  Origin  ENERGY, origin ')).toEqual(['origin', 'energy'])
+    expect(searchTerms('INV-20931')).toEqual(['inv', '20931'])
+    expect(searchTerms('!!')).toEqual([])
+  })
+
+  it('should build a prefix tsquery that needs every term', () => {
+    expect(toPrefixTsQuery('orig ener')).toBe('orig:* & ener:*')
+    expect(toPrefixTsQuery("o'reilly & (x)")).toBe('o:* & reilly:* & x:*')
+    expect(toPrefixTsQuery('  ')).toBe(null)
+  })
+
+  it('should require every term to match across the fields', () => {
+    expect(matchInvoiceSearch(electricity, 'warehouse electricity')).not.toBe(null)
+    expect(matchInvoiceSearch(electricity, 'warehouse toner')).toBe(null)
+    expect(matchInvoiceSearch(stationery, 'warehouse toner')).not.toBe(null)
+  })
+
+  it('should tolerate typos in longer words but not short ones', () => {
+    expect(matchInvoiceSearch(electricity, 'electrcity')).not.toBe(null)
+    expect(matchInvoiceSearch(electricity, 'colingwood warehose')).not.toBe(null)
+    expect(matchInvoiceSearch(stationery, 'pen')).toBe(null)
+  })
+
+  it('should rank invoice number and vendor matches above description matches', () => {
+    const byVendor = matchInvoiceSearch(electricity, 'origin')
+    const byDescription = matchInvoiceSearch(stationery, 'printer')
+    const byLineItem = matchInvoiceSearch(electricity, 'peak')
+    expect(byVendor!.rank).toBeGreaterThan(byDescription!.rank)
+    expect(byDescription!.rank).toBeGreaterThan(byLineItem!.rank)
+  })
+
+  it('should match a typo-tolerant vendor even when the terms do not', () => {
+    expect(matchInvoiceSearch(electricity, 'orgn')).toBe(null)
+    expect(matchInvoiceSearch(electricity, 'orgn', true)).toMatchObject({ snippet: null, terms: ['orgn'] })
+  })
+
+  it('should build a snippet around the first match', () => {
+    expect(matchInvoiceSearch(electricity, 'october')!.snippet).toBe(
+      '… supply for the Collingwood warehouse, <mark>October</mark> billing period',
+    )
+    expect(matchInvoiceSearch(electricity, 'peak')!.snippet).toBe('<mark>Peak</mark> usage · Supply charge')
+    expect(matchInvoiceSearch(electricity, 'INV-20931')!.snippet).toBe(null)
+    expect(buildSnippet('nothing relevant', ['toner'])).toBe(null)
+  })
+
+  it('should split text and snippets into highlighted runs', () => {
+    expect(highlightSegments('Origin Energy Pty Ltd', ['orig'])).toEqual([
+      { text: 'Origin', match: true },
+      { text: ' Energy Pty Ltd', match: false },
+    ])
+    expect(parseSnippet('… the <mark>warehouse</mark> office')).toEqual([
+      { text: '… the ', match: false },
+      { text: 'warehouse', match: true },
+      { text: ' office', match: false },
+    ])
+  })
+
+  it('should order by rank and keep unranked items last', () => {
+    const ranks: Record<string, number> = { a: 0.2, c: 0.9 }
+    expect(sortByRank(['a', 'b', 'c'], (id) => ranks[id])).toEqual(['c', 'a', 'b'])
+  })
+})
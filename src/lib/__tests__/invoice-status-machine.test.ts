@@ -0,0 +1,192 @@
+import {
+  evaluateTransition,
+  evaluateTransitions,
+  nextStatuses,
+  type StatusTransitionContext,
+} from '../invoice-status-machine'
+import { approvalProgress, DEFAULT_APPROVAL_POLICIES, selectApprovalPolicy } from '../approval-policy'
+
+const now = new Date('2025-09-01T00:00:00.000Z')
+const approver = { id: 'user-1', role: 'approver' }
+const clerk = { id: 'user-2', role: 'user' }
+
+function context(overrides: Partial<StatusTransitionContext> = {}): StatusTransitionContext {
+  return {
+    invoice: { status: 'pending', paidDate: null, paymentReference: null, issueDate: '2025-08-01' },
+    actor: approver,
+    now,
+    ...overrides,
+  }
+}
+
+describe('invoice status machine', () => {
+  describe('workflow graph', () => {
+    it('should only allow reopening paid invoices into pending or review', () => {
+      expect(nextStatuses('paid')).toEqual(['pending', 'in_review'])
+    })
+
+    it('should reject transitions that are not in the workflow', () => {
+      const result = evaluateTransition('approved', context({ invoice: { status: 'paid' } }))
+
+      expect(result.allowed).toBe(false)
+      expect(result.blockedBy).toEqual([])
+    })
+  })
+
+  describe('paymentDetails guard', () => {
+    const approved = { status: 'approved' as const, paidDate: null, paymentReference: null }
+
+    it('should report missing payment details as required input', () => {
+      const result = evaluateTransition('paid', context({ invoice: approved }))
+
+      expect(result.allowed).toBe(true)
+      expect(result.requires).toEqual(['paymentDate', 'paymentReference'])
+    })
+
+    it('should block marking paid without details when input is required', () => {
+      const result = evaluateTransition('paid', context({ invoice: approved }), { requireInput: true })
+
+      expect(result.allowed).toBe(false)
+      expect(result.blockedBy[0].guard).toBe('paymentDetails')
+    })
+
+    it('should allow marking paid with a payment date and reference', () => {
+      const result = evaluateTransition(
+        'paid',
+        context({ invoice: approved, input: { paymentDate: '2025-08-30', paymentReference: 'EFT-1234' } }),
+        { requireInput: true }
+      )
+
+      expect(result.allowed).toBe(true)
+    })
+  })
+
+  describe('approvalComplete guard', () => {
+    const payment = { paymentDate: '2025-08-30', paymentReference: 'EFT-1234' }
+    const overFiveK = selectApprovalPolicy({ amount: 6000 }, [])
+
+    it('should not let a $6k pending invoice be paid without its approvals', () => {
+      const result = evaluateTransition('paid', context({
+        input: payment,
+        approval: { progress: approvalProgress(overFiveK, []) },
+      }), { requireInput: true })
+
+      expect(result.allowed).toBe(false)
+      expect(result.blockedBy[0].guard).toBe('approvalComplete')
+      expect(result.blockedBy[0].message).toContain('2 more approvals')
+    })
+
+    it('should not let a $6k invoice with one of two approvals be paid', () => {
+      const result = evaluateTransition('paid', context({
+        invoice: { status: 'in_review' },
+        input: payment,
+        approval: { progress: approvalProgress(overFiveK, [{ approverUserId: 'user-3', decision: 'approved' }]) },
+      }), { requireInput: true })
+
+      expect(result.blockedBy.map((failure) => failure.guard)).toEqual(['approvalComplete'])
+    })
+
+    it('should block paying when the approval progress is unknown', () => {
+      const result = evaluateTransition('paid', context({ input: payment }), { requireInput: true })
+
+      expect(result.allowed).toBe(false)
+      expect(result.blockedBy[0].guard).toBe('approvalComplete')
+    })
+
+    it('should let an overdue invoice with all its approvals be paid', () => {
+      const result = evaluateTransition('paid', context({
+        invoice: { status: 'overdue' },
+        input: payment,
+        approval: {
+          progress: approvalProgress(overFiveK, [
+            { approverUserId: 'user-3', decision: 'approved' },
+            { approverUserId: 'user-4', decision: 'approved' },
+          ]),
+        },
+      }), { requireInput: true })
+
+      expect(result.allowed).toBe(true)
+    })
+  })
+
+  describe('approverRole guard', () => {
+    it('should block approval by users without the approver role', () => {
+      const result = evaluateTransition('approved', context({ actor: clerk }))
+
+      expect(result.allowed).toBe(false)
+      expect(result.blockedBy[0].guard).toBe('approverRole')
+    })
+
+    it('should accept approver roles case-insensitively', () => {
+      const result = evaluateTransition('approved', context({ actor: { id: 'admin-1', role: 'ADMIN' } }))
+
+      expect(result.allowed).toBe(true)
+    })
+  })
+
+  describe('approvalPolicy guard', () => {
+    const twoApprovers = DEFAULT_APPROVAL_POLICIES[1]
+
+    it('should block the uploader from approving their own invoice', () => {
+      const result = evaluateTransition('approved', context({
+        approval: { progress: approvalProgress(twoApprovers, []), uploadedByUserId: approver.id },
+      }))
+
+      expect(result.allowed).toBe(false)
+      expect(result.blockedBy[0].guard).toBe('approvalPolicy')
+    })
+
+    it('should block a second approval from the same approver', () => {
+      const result = evaluateTransition('approved', context({
+        approval: {
+          progress: approvalProgress(twoApprovers, [{ approverUserId: approver.id, decision: 'approved' }]),
+          uploadedByUserId: 'someone-else',
+        },
+      }))
+
+      expect(result.allowed).toBe(false)
+      expect(result.blockedBy[0].message).toContain('already approved')
+    })
+
+    it('should use the approver roles of the policy', () => {
+      const financeOnly = { ...twoApprovers, approverRoles: ['finance'] }
+      const result = evaluateTransition('approved', context({
+        approval: { progress: approvalProgress(financeOnly, []) },
+      }))
+
+      expect(result.blockedBy[0].guard).toBe('approverRole')
+    })
+  })
+
+  describe('paidReopenWindow guard', () => {
+    it('should allow reopening an invoice paid within 90 days', () => {
+      const result = evaluateTransition(
+        'in_review',
+        context({ invoice: { status: 'paid', paidDate: '2025-07-15' } })
+      )
+
+      expect(result.allowed).toBe(true)
+    })
+
+    it('should block reopening an invoice paid more than 90 days ago', () => {
+      const result = evaluateTransition(
+        'pending',
+        context({ invoice: { status: 'paid', paidDate: '2025-05-01' } })
+      )
+
+      expect(result.allowed).toBe(false)
+      expect(result.blockedBy[0].guard).toBe('paidReopenWindow')
+    })
+  })
+
+  it('should evaluate every other status in board order', () => {
+    const statuses = evaluateTransitions(context({ actor: clerk })).map((result) => [result.status, result.allowed])
+
+    expect(statuses).toEqual([
+      ['in_review', true],
+      ['approved', false],
+      ['paid', false],
+      ['overdue', true],
+    ])
+  })
+})
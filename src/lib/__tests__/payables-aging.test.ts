@@ -0,0 +1,85 @@
+import {
+  agingBucketFor,
+  agingDueWindow,
+  buildAgingReport,
+  daysPastDue,
+  inAgingWindow,
+  type AgingSubject,
+} from '../payables-aging'
+
+const now = new Date('2025-09-30T10:00:00Z')
+
+function invoice(overrides: Partial<AgingSubject>): AgingSubject {
+  return {
+    id: 'inv',
+    invoiceNumber: 'INV-1',
+    vendorName: 'Acme',
+    vendorId: null,
+    category: 'Fuel',
+    dueDate: null,
+    amountDue: 100,
+    ...overrides,
+  }
+}
+
+describe('payables aging', () => {
+  it('should count whole days past due and treat undated or future invoices as current', () => {
+    expect(daysPastDue('2025-09-30', now)).toBe(0)
+    expect(daysPastDue('2025-09-29T23:00:00Z', now)).toBe(1)
+    expect(daysPastDue('2025-10-15', now)).toBe(0)
+    expect(daysPastDue(null, now)).toBe(0)
+    expect(daysPastDue('2025-07-01', now)).toBe(91)
+  })
+
+  it('should place bucket boundaries inclusively', () => {
+    expect(agingBucketFor(0)).toBe('current')
+    expect(agingBucketFor(1)).toBe('1-30')
+    expect(agingBucketFor(30)).toBe('1-30')
+    expect(agingBucketFor(31)).toBe('31-60')
+    expect(agingBucketFor(90)).toBe('61-90')
+    expect(agingBucketFor(91)).toBe('90+')
+  })
+
+  it('should give due-date windows that agree with the buckets', () => {
+    const dueDates = [null, '2025-10-15', '2025-09-30', '2025-09-29', '2025-08-31', '2025-08-30', '2025-07-02', '2025-07-01', '2024-01-01']
+    for (const dueDate of dueDates) {
+      const bucket = agingBucketFor(daysPastDue(dueDate, now))
+      expect(inAgingWindow(dueDate, agingDueWindow(bucket, now))).toBe(true)
+      for (const other of (['current', '1-30', '31-60', '61-90', '90+'] as const).filter((key) => key !== bucket)) {
+        expect(inAgingWindow(dueDate, agingDueWindow(other, now))).toBe(false)
+      }
+    }
+
+    expect(agingDueWindow('1-30', now)).toEqual({
+      bucket: '1-30',
+      dueOnOrAfter: '2025-08-31',
+      dueBefore: '2025-09-30',
+      includeUndated: false,
+    })
+  })
+
+  it('should total buckets per vendor and category and skip settled invoices', () => {
+    const report = buildAgingReport([
+      invoice({ id: 'a', vendorId: 'vendor-acme', dueDate: '2025-10-10', amountDue: 200 }),
+      invoice({ id: 'b', vendorId: 'vendor-acme', vendorName: 'ACME Pty Ltd', dueDate: '2025-09-15', amountDue: 50.5 }),
+      invoice({ id: 'c', vendorName: 'Globex', category: '', dueDate: '2025-05-01', amountDue: 1000 }),
+      invoice({ id: 'd', vendorName: 'Globex', dueDate: '2025-05-01', amountDue: 0 }),
+      invoice({ id: 'e', vendorName: 'Globex', dueDate: '2025-05-01', amountDue: -40 }),
+    ], now)
+
+    expect(report.summary).toEqual({
+      totalOutstanding: 1250.5,
+      totalCount: 3,
+      overdueAmount: 1050.5,
+      overdueCount: 2,
+      largestInvoice: 1000,
+    })
+    expect(report.buckets.map((bucket) => bucket.amount)).toEqual([200, 50.5, 0, 0, 1000])
+    expect(report.byVendor.map((row) => [row.name, row.vendorId, row.total, row.count])).toEqual([
+      ['Globex', null, 1000, 1],
+      ['Acme', 'vendor-acme', 250.5, 2],
+    ])
+    expect(report.byCategory.map((row) => row.name)).toEqual(['Uncategorized', 'Fuel'])
+    expect(report.invoices.map((entry) => entry.id)).toEqual(['c', 'b', 'a'])
+  })
+})
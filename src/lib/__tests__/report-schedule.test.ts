@@ -0,0 +1,58 @@
+import { describeReportSchedule, nextReportRun, nextRetryAt, normaliseRecipient, parseRecipients } from '../report-schedule'
+
+describe('nextReportRun', () => {
+  it('should run daily schedules later the same day, or tomorrow once the time has passed', () => {
+    const timing = { frequency: 'daily' as const, hour: 9, minute: 0 }
+    // 07:00 Sydney (AEDT, UTC+11)
+    expect(nextReportRun(timing, new Date('2025-11-09T20:00:00Z')).toISOString()).toBe('2025-11-09T22:00:00.000Z')
+    expect(nextReportRun(timing, new Date('2025-11-09T22:00:00Z')).toISOString()).toBe('2025-11-10T22:00:00.000Z')
+  })
+
+  it('should run weekly schedules on the chosen weekday in Sydney time', () => {
+    const timing = { frequency: 'weekly' as const, hour: 8, minute: 0, dayOfWeek: 1 }
+    // Friday 7 November in Sydney; Monday 10 November 08:00 AEDT is Sunday 21:00 UTC
+    expect(nextReportRun(timing, new Date('2025-11-07T00:00:00Z')).toISOString()).toBe('2025-11-09T21:00:00.000Z')
+  })
+
+  it('should run monthly schedules on the last day of shorter months', () => {
+    const timing = { frequency: 'monthly' as const, hour: 9, minute: 0, dayOfMonth: 31 }
+    expect(nextReportRun(timing, new Date('2026-02-01T00:00:00Z')).toISOString()).toBe('2026-02-27T22:00:00.000Z')
+  })
+
+  it('should keep the local time across daylight saving changes', () => {
+    const timing = { frequency: 'daily' as const, hour: 2, minute: 30 }
+    // Clocks go forward at 2 am on 5 October 2025, so 2:30 runs at 3:30 AEDT
+    expect(nextReportRun(timing, new Date('2025-10-04T12:00:00Z')).toISOString()).toBe('2025-10-04T16:30:00.000Z')
+    // Clocks go back at 3 am on 5 April 2026; 2:30 happens twice and runs once, in standard time
+    expect(nextReportRun(timing, new Date('2026-04-04T12:00:00Z')).toISOString()).toBe('2026-04-04T16:30:00.000Z')
+  })
+})
+
+describe('report schedule helpers', () => {
+  it('should describe schedules in words', () => {
+    expect(describeReportSchedule({ frequency: 'daily', hour: 17, minute: 5 })).toBe('Daily at 5:05 pm')
+    expect(describeReportSchedule({ frequency: 'weekly', hour: 8, minute: 0, dayOfWeek: 1 })).toBe('Every Monday at 8:00 am')
+    expect(describeReportSchedule({ frequency: 'monthly', hour: 0, minute: 30, dayOfMonth: 31 })).toBe(
+      'Monthly on the 31st (or last day) at 12:30 am'
+    )
+  })
+
+  it('should back off between retries and stop after the last attempt', () => {
+    const failedAt = new Date('2025-11-10T00:00:00Z')
+    expect(nextRetryAt(failedAt, 1)?.toISOString()).toBe('2025-11-10T00:15:00.000Z')
+    expect(nextRetryAt(failedAt, 2)?.toISOString()).toBe('2025-11-10T01:00:00.000Z')
+    expect(nextRetryAt(failedAt, 3)).toBeNull()
+  })
+
+  it('should split, dedupe and validate recipients', () => {
+    expect(parseRecipients('Ann@Example.com, bob@example.com;ann@example.com\nnot-an-email')).toEqual({
+      recipients: ['ann@example.com', 'bob@example.com'],
+      invalid: ['not-an-email'],
+    })
+  })
+
+  it('should normalise recipients the same way for retries and unsubscribe', () => {
+    expect(normaliseRecipient(' Ann@Example.COM ')).toBe('ann@example.com')
+    expect(normaliseRecipient('ann@example.com')).toBe(normaliseRecipient('ANN@example.com'))
+  })
+})
@@ -0,0 +1,88 @@
+import {
+  canEditSavedView,
+  canManageSavedView,
+  canShareSavedView,
+  canViewSavedView,
+  duplicateSavedViewName,
+  moveSavedView,
+  resolveDefaultSavedView,
+  sortSavedViews,
+  type SavedViewOrdering,
+} from '../saved-views'
+
+const me = { id: 'user-1', role: 'user' }
+const admin = { id: 'admin-1', role: 'ADMIN' }
+
+function view(overrides: Partial<SavedViewOrdering>): SavedViewOrdering {
+  return {
+    id: 'view',
+    name: 'View',
+    ownerId: 'user-1',
+    visibility: 'private',
+    permission: 'read',
+    isDefault: false,
+    position: 0,
+    ...overrides,
+  }
+}
+
+describe('saved view sharing', () => {
+  it('should keep private views to their owner', () => {
+    const teammate = view({ ownerId: 'user-2' })
+    expect(canViewSavedView(teammate, me)).toBe(false)
+    expect(canViewSavedView({ ...teammate, visibility: 'team' }, me)).toBe(true)
+    expect(canManageSavedView(teammate, admin)).toBe(false)
+  })
+
+  it('should only let others edit views shared as editable', () => {
+    const shared = view({ ownerId: 'user-2', visibility: 'team' })
+    expect(canEditSavedView(shared, me)).toBe(false)
+    expect(canEditSavedView({ ...shared, permission: 'edit' }, me)).toBe(true)
+    expect(canManageSavedView({ ...shared, permission: 'edit' }, me)).toBe(false)
+    expect(canEditSavedView(shared, admin)).toBe(true)
+    expect(canManageSavedView(shared, admin)).toBe(true)
+  })
+
+  it('should reserve org-wide pinning for admins', () => {
+    expect(canShareSavedView('org', me)).toBe(false)
+    expect(canShareSavedView('team', me)).toBe(true)
+    expect(canShareSavedView('org', admin)).toBe(true)
+  })
+})
+
+describe('saved view ordering', () => {
+  it('should list pinned views, then own views by position, then shared views by name', () => {
+    const views = [
+      view({ id: 'shared-b', name: 'Bravo', ownerId: 'user-2', visibility: 'team', position: 0 }),
+      view({ id: 'mine-2', name: 'Zulu', position: 1 }),
+      view({ id: 'pinned', name: 'Month end', ownerId: 'admin-1', visibility: 'org' }),
+      view({ id: 'shared-a', name: 'alpha', ownerId: 'user-3', visibility: 'team', position: 4 }),
+      view({ id: 'mine-1', name: 'Yankee', position: 0, visibility: 'team' }),
+    ]
+    expect(sortSavedViews(views, me).map((entry) => entry.id)).toEqual([
+      'pinned',
+      'mine-1',
+      'mine-2',
+      'shared-a',
+      'shared-b',
+    ])
+  })
+
+  it('should prefer the user\'s own default over an org default', () => {
+    const orgDefault = view({ id: 'org', ownerId: 'admin-1', visibility: 'org', isDefault: true })
+    const teammateDefault = view({ id: 'team', ownerId: 'user-2', visibility: 'team', isDefault: true })
+    expect(resolveDefaultSavedView([teammateDefault, orgDefault], me)?.id).toBe('org')
+    expect(resolveDefaultSavedView([orgDefault, view({ id: 'mine', isDefault: true })], me)?.id).toBe('mine')
+    expect(resolveDefaultSavedView([teammateDefault], me)).toBe(undefined)
+  })
+
+  it('should name duplicates after the original', () => {
+    expect(duplicateSavedViewName('Overdue', ['Overdue'])).toBe('Overdue (copy)')
+    expect(duplicateSavedViewName('Overdue (copy)', ['overdue (COPY)'])).toBe('Overdue (copy 2)')
+  })
+
+  it('should move a view within the list', () => {
+    expect(moveSavedView(['a', 'b', 'c'], 2, 0)).toEqual(['c', 'a', 'b'])
+    expect(moveSavedView(['a', 'b'], 1, 2)).toEqual(['a', 'b'])
+  })
+})
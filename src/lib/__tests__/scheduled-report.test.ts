@@ -0,0 +1,71 @@
+import { renderReportEmail, summariseReport, type ReportInvoice } from '../scheduled-report'
+import { renderReportAttachment } from '../server/report-attachment'
+
+// server-only throws outside the react-server condition
+jest.mock('server-only', () => ({}))
+
+function invoice(overrides: Partial<ReportInvoice>): ReportInvoice {
+  return {
+    invoiceNumber: 'INV-1',
+    vendorName: 'Origin Energy',
+    category: 'Utilities',
+    status: 'pending',
+    issueDate: '2025-10-01T00:00:00Z',
+    dueDate: '2025-10-31T00:00:00Z',
+    amount: 100,
+    amountDue: 100,
+    ...overrides,
+  }
+}
+
+const invoices = [
+  invoice({ invoiceNumber: 'INV-1', status: 'overdue', amount: 250, amountDue: 200 }),
+  invoice({ invoiceNumber: 'INV-2', status: 'paid', amount: 100, amountDue: 0 }),
+  invoice({ invoiceNumber: 'INV-3', status: 'pending', amount: 50, amountDue: 50 }),
+  invoice({ invoiceNumber: 'INV-3 copy', status: 'pending', amount: 50, amountDue: 50, duplicateOfId: 'inv-3' }),
+]
+
+const generatedAt = new Date('2025-11-09T21:00:00Z')
+
+describe('scheduled report', () => {
+  it('should total invoices, leaving out confirmed duplicates', () => {
+    expect(summariseReport(invoices)).toEqual({
+      count: 4,
+      total: 400,
+      outstanding: 250,
+      overdueCount: 1,
+      overdueAmount: 200,
+      byStatus: [
+        { status: 'pending', count: 1, amount: 50 },
+        { status: 'paid', count: 1, amount: 100 },
+        { status: 'overdue', count: 1, amount: 250 },
+      ],
+    })
+  })
+
+  it('should attach a CSV with raw amounts, named after the view and the Sydney date', async () => {
+    const attachment = await renderReportAttachment('Overdue: Utilities', invoices.slice(0, 1), 'csv', generatedAt)
+    expect(attachment.filename).toBe('overdue-utilities-2025-11-10.csv')
+    expect(new TextDecoder().decode(attachment.content)).toBe(
+      'Invoice Number,Vendor Name,Category,Status,Issue Date,Due Date,Amount,Amount Due\n' +
+        'INV-1,Origin Energy,Utilities,Overdue,2025-10-01,2025-10-31,250,200'
+    )
+  })
+
+  it('should write the summary into the email with the unsubscribe link', () => {
+    const email = renderReportEmail({
+      viewName: 'Weekly <payables>',
+      schedule: 'Every Monday at 8:00 am',
+      format: 'xlsx',
+      summary: summariseReport(invoices),
+      generatedAt,
+      unsubscribeUrl: 'https://example.com/reports/unsubscribe?token=abc',
+    })
+    expect(email.subject).toBe('Weekly <payables>: 4 invoices (10 Nov 2025)')
+    expect(email.text).toContain('Outstanding: $250.00')
+    expect(email.text).toContain('You receive this report every Monday at 8:00 am (Sydney time).')
+    expect(email.text).toContain('The full list is attached as an Excel workbook.')
+    expect(email.html).toContain('<h2 style="margin:0 0 4px">Weekly &lt;payables&gt;</h2>')
+    expect(email.html).toContain('href="https://example.com/reports/unsubscribe?token=abc"')
+  })
+})
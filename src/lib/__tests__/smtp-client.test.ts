@@ -0,0 +1,122 @@
+import net from 'node:net'
+
+import { sendSmtpMail } from '../smtp-client'
+
+interface Catcher {
+  port: number
+  commands: string[]
+  messages: string[]
+  close: () => Promise<void>
+}
+
+// A local SMTP catcher without STARTTLS: accepts everything except recipients at reject.test
+function startCatcher(): Promise<Catcher> {
+  const commands: string[] = []
+  const messages: string[] = []
+  const server = net.createServer((socket) => {
+    let buffer = ''
+    let data: string[] | null = null
+    socket.write('220 catcher ESMTP\r\n')
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8')
+      let index: number
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+        if (data) {
+          if (line === '.') {
+            messages.push(data.join('\r\n'))
+            data = null
+            socket.write('250 2.0.0 queued\r\n')
+          } else {
+            data.push(line.startsWith('..') ? line.slice(1) : line)
+          }
+          continue
+        }
+        commands.push(line)
+        const verb = line.split(/[ :]/)[0].toUpperCase()
+        if (verb === 'EHLO') socket.write('250-catcher\r\n250-AUTH PLAIN LOGIN\r\n250 8BITMIME\r\n')
+        else if (verb === 'AUTH') socket.write('235 2.7.0 accepted\r\n')
+        else if (verb === 'STARTTLS') socket.write('502 5.5.1 STARTTLS not available\r\n')
+        else if (verb === 'RCPT' && line.includes('@reject.test')) socket.write('550 5.1.1 no such user\r\n')
+        else if (verb === 'DATA') {
+          data = []
+          socket.write('354 go ahead\r\n')
+        } else if (verb === 'QUIT') {
+          socket.end('221 bye\r\n')
+        } else socket.write('250 ok\r\n')
+      }
+    })
+  })
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as net.AddressInfo).port,
+        commands,
+        messages,
+        close: () => new Promise((done) => server.close(() => done())),
+      })
+    })
+  })
+}
+
+describe('sendSmtpMail', () => {
+  it('should deliver to a local catcher and report rejected recipients', async () => {
+    const catcher = await startCatcher()
+    try {
+      const result = await sendSmtpMail(
+        {
+          from: 'reports@example.com',
+          to: ['ann@example.com', 'bob@reject.test'],
+          subject: 'Weekly report',
+          text: 'Line one\n.hidden dot line',
+          attachments: [{ filename: 'overdue.csv', contentType: 'text/csv', content: new TextEncoder().encode('a,b') }],
+        },
+        { host: '127.0.0.1', port: catcher.port, timeoutMs: 5000 }
+      )
+
+      expect(result.accepted).toEqual(['ann@example.com'])
+      expect(result.rejected).toEqual(['bob@reject.test'])
+      expect(result.response).toContain('queued')
+      expect(catcher.commands.some((command) => command.startsWith('MAIL FROM:<reports@example.com>'))).toBe(true)
+      expect(catcher.messages).toHaveLength(1)
+      expect(catcher.messages[0]).toContain('Subject: Weekly report')
+      expect(catcher.messages[0]).toContain(`Message-ID: ${result.messageId}`)
+      expect(catcher.messages[0]).toContain('filename=overdue.csv')
+    } finally {
+      await catcher.close()
+    }
+  })
+
+  it('should refuse to send credentials when the server offers no STARTTLS', async () => {
+    const catcher = await startCatcher()
+    try {
+      await expect(
+        sendSmtpMail(
+          { from: 'reports@example.com', to: ['ann@example.com'], subject: 'x', text: 'x' },
+          { host: '127.0.0.1', port: catcher.port, user: 'user', password: 'secret', timeoutMs: 5000 }
+        )
+      ).rejects.toThrow()
+      expect(catcher.commands.some((command) => command.startsWith('AUTH'))).toBe(false)
+      expect(catcher.messages).toHaveLength(0)
+    } finally {
+      await catcher.close()
+    }
+  })
+
+  it('should fail when every recipient is rejected', async () => {
+    const catcher = await startCatcher()
+    try {
+      await expect(
+        sendSmtpMail(
+          { from: 'reports@example.com', to: ['bob@reject.test'], subject: 'x', text: 'x' },
+          { host: '127.0.0.1', port: catcher.port, timeoutMs: 5000 }
+        )
+      ).rejects.toThrow()
+      expect(catcher.messages).toHaveLength(0)
+    } finally {
+      await catcher.close()
+    }
+  })
+})
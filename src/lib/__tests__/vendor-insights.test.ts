@@ -0,0 +1,76 @@
+import { summariseVendorInvoices, type VendorInvoiceSubject } from '../vendor-insights'
+
+function invoice(overrides: Partial<VendorInvoiceSubject>): VendorInvoiceSubject {
+  return {
+    amount: 100,
+    status: 'pending',
+    category: 'Materials',
+    documentType: 'invoice',
+    issueDate: '2025-09-01',
+    receivedDate: null,
+    dueDate: null,
+    paidDate: null,
+    createdAt: '2025-09-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+const now = new Date('2025-10-15T00:00:00Z')
+const period = { from: '2025-09-01', to: '2025-10-15' }
+
+describe('vendor insights', () => {
+  it('should total lifetime and period spend with credit notes netted off', () => {
+    const summary = summariseVendorInvoices([
+      invoice({ amount: 500, issueDate: '2025-03-10' }),
+      invoice({ amount: 200, issueDate: '2025-09-20' }),
+      invoice({ amount: -50, issueDate: '2025-09-25', documentType: 'credit_note' }),
+    ], period, now)
+
+    expect(summary.lifetime).toEqual({ count: 2, amount: 650 })
+    expect(summary.period).toMatchObject({ count: 1, amount: 150 })
+    expect(summary.byStatus).toEqual([{ status: 'pending', count: 2, amount: 700 }])
+    expect(summary.firstInvoiceDate).toBe('2025-03-10')
+    expect(summary.lastInvoiceDate).toBe('2025-09-20')
+  })
+
+  it('should measure days to pay and the on-time rate over paid invoices', () => {
+    const summary = summariseVendorInvoices([
+      invoice({ status: 'paid', issueDate: '2025-09-01', dueDate: '2025-09-15', paidDate: '2025-09-11' }),
+      invoice({ status: 'paid', issueDate: '2025-09-01', dueDate: '2025-09-15', paidDate: '2025-09-21' }),
+      invoice({ status: 'overdue', issueDate: '2025-08-01', dueDate: '2025-08-15' }),
+    ], period, now)
+
+    expect(summary.averageDaysToPay).toBe(15)
+    expect(summary.onTimeRate).toBe(0.5)
+  })
+
+  it('should report no payment behaviour when nothing is paid', () => {
+    const summary = summariseVendorInvoices([invoice({})], period, now)
+    expect(summary.averageDaysToPay).toBeNull()
+    expect(summary.onTimeRate).toBeNull()
+  })
+
+  it('should fill twelve months of spend for the sparkline', () => {
+    const summary = summariseVendorInvoices([
+      invoice({ amount: 120, issueDate: '2025-10-02' }),
+      invoice({ amount: 80, issueDate: null, createdAt: '2025-10-05T10:00:00Z' }),
+      invoice({ amount: 999, issueDate: '2023-01-01' }),
+    ], period, now)
+
+    expect(summary.monthly).toHaveLength(12)
+    expect(summary.monthly[0]).toEqual({ month: '2024-11', amount: 0 })
+    expect(summary.monthly[11]).toEqual({ month: '2025-10', amount: 200 })
+  })
+
+  it('should break spend down by category', () => {
+    const summary = summariseVendorInvoices([
+      invoice({ amount: 300, category: 'Fuel' }),
+      invoice({ amount: 100, category: '' }),
+    ], period, now)
+
+    expect(summary.categories).toEqual([
+      { category: 'Fuel', count: 1, amount: 300 },
+      { category: 'Uncategorized', count: 1, amount: 100 },
+    ])
+  })
+})
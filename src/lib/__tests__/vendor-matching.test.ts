@@ -0,0 +1,79 @@
+import {
+  buildVendorIndex,
+  canonicalVendorName,
+  expandVendorNames,
+  findSimilarVendors,
+  groupByVendor,
+  matchVendor,
+  normaliseAbn,
+  normaliseVendorName,
+  similarVendorNames,
+  trigramSimilarity,
+  type VendorIdentity,
+} from '../vendor-matching'
+
+const vendors: VendorIdentity[] = [
+  { id: 'acme', name: 'ACME Pty Ltd', abn: '51 824 753 556', email: 'accounts@acme.com.au', aliases: ['Acme Building Supplies'] },
+  { id: 'globex', name: 'Globex Corporation', abn: null, email: null, aliases: [] },
+]
+
+describe('vendor matching', () => {
+  it('should normalise company suffixes and punctuation', () => {
+    expect(normaliseVendorName('The ACME Pty. Ltd.')).toBe('acme')
+    expect(normaliseVendorName('Acme P/L')).toBe('acme')
+    expect(normaliseVendorName('Smith & Sons')).toBe('smith and sons')
+  })
+
+  it('should only accept 11-digit ABNs', () => {
+    expect(normaliseAbn('51 824 753 556')).toBe('51824753556')
+    expect(normaliseAbn('1234')).toBe(null)
+  })
+
+  it('should match on ABN before name, and name before email', () => {
+    const index = buildVendorIndex(vendors)
+    expect(matchVendor({ name: 'Someone Else', abn: '51824753556' }, index)?.matchedBy).toBe('abn')
+    expect(matchVendor({ name: 'acme p/l' }, index)).toMatchObject({ vendor: { id: 'acme' }, matchedBy: 'name' })
+    expect(matchVendor({ name: 'acme building supplies' }, index)?.vendor.id).toBe('acme')
+    expect(matchVendor({ name: 'Unknown', email: 'Accounts@ACME.com.au' }, index)?.matchedBy).toBe('email')
+    expect(matchVendor({ name: 'Initech' }, index)).toBe(null)
+  })
+
+  it('should group spelling variants under the canonical vendor', () => {
+    const index = buildVendorIndex(vendors)
+    expect(canonicalVendorName('Acme P/L', index)).toBe('ACME Pty Ltd')
+
+    const groups = groupByVendor(['ACME Pty Ltd', 'Acme P/L', 'Initech', 'INITECH'], (name) => name, index)
+    expect(groups.map((group) => [group.vendor, group.rows.length])).toEqual([
+      ['ACME Pty Ltd', 2],
+      ['Initech', 2],
+    ])
+  })
+
+  it('should expand a vendor filter to every known spelling', () => {
+    const index = buildVendorIndex(vendors)
+    expect(expandVendorNames(['ACME Pty Ltd', 'Initech'], index)).toEqual([
+      'ACME Pty Ltd',
+      'Initech',
+      'Acme Building Supplies',
+    ])
+  })
+
+  it('should compute trigram similarity like pg_trgm', () => {
+    expect(trigramSimilarity('origin', 'origin')).toBe(1)
+    expect(trigramSimilarity('telstar', 'telstra')).toBeGreaterThan(0.4)
+    expect(trigramSimilarity('acme', 'globex')).toBe(0)
+  })
+
+  it('should match supplier names through typos', () => {
+    const names = ['Origin Energy Pty Ltd', 'Telstra Corporation', 'Officeworks']
+    expect(similarVendorNames('orgin', names)).toEqual(['Origin Energy Pty Ltd'])
+    expect(similarVendorNames('telstar', names)).toEqual(['Telstra Corporation'])
+    expect(similarVendorNames('of', names)).toEqual([])
+  })
+
+  it('should find vendors by a misspelt name or alias', () => {
+    const index = buildVendorIndex(vendors)
+    expect(findSimilarVendors('globx', index).map((vendor) => vendor.id)).toEqual(['globex'])
+    expect(findSimilarVendors('acme bulding', index).map((vendor) => vendor.id)).toEqual(['acme'])
+  })
+})
@@ -0,0 +1,54 @@
+import ExcelJS from 'exceljs'
+
+import { buildXlsx, createXlsxWriter } from '../server/xlsx'
+
+// server-only throws outside the react-server condition
+jest.mock('server-only', () => ({}))
+
+async function readWorkbook(data: Uint8Array): Promise<ExcelJS.Worksheet> {
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(new Uint8Array(data).buffer)
+  return workbook.worksheets[0]
+}
+
+// Row values are 1-indexed, with nothing at 0
+function rowValues(sheet: ExcelJS.Worksheet, row: number): ExcelJS.CellValue[] {
+  return (sheet.getRow(row).values as ExcelJS.CellValue[]).slice(1)
+}
+
+describe('xlsx', () => {
+  it('should write a bold, frozen header row and the rows as strings and numbers', async () => {
+    const sheet = await readWorkbook(
+      await buildXlsx({
+        name: 'Overdue: March',
+        columns: [{ header: 'Vendor', width: 24 }, { header: 'Amount', numberFormat: '#,##0.00' }],
+        rows: [['Smith & Co <AU>', 1234.5], [null, 10], ['Tab\tand bell\u0007', Number.NaN]],
+      })
+    )
+
+    expect(sheet.name).toBe('Overdue  March')
+    expect(rowValues(sheet, 1)).toEqual(['Vendor', 'Amount'])
+    expect(sheet.getCell('A1').font.bold).toBe(true)
+    expect(sheet.views[0].state).toBe('frozen')
+    expect(sheet.getColumn(1).width).toBe(24)
+    expect(sheet.getColumn(2).width).toBe(10)
+    expect(sheet.getCell('A2').value).toBe('Smith & Co <AU>')
+    expect(sheet.getCell('B2').value).toBe(1234.5)
+    expect(sheet.getCell('B2').numFmt).toBe('#,##0.00')
+    expect(sheet.getCell('A3').value).toBe(null)
+    expect(sheet.getCell('B3').value).toBe(10)
+    expect(sheet.getCell('A4').value).toBe('Tab\tand bell')
+    expect(sheet.getCell('B4').value).toBe(null)
+  })
+
+  it('should write the same sheet in chunks as in one go', async () => {
+    const layout = { name: 'Invoices', columns: [{ header: 'Vendor' }, { header: 'Amount', numberFormat: '#,##0.00' }] }
+    const writer = createXlsxWriter(layout)
+    const chunks = [await writer.write([['AGL', 1]]), await writer.write([]), await writer.write([['Origin', 2]]), await writer.finish()]
+    const sheet = await readWorkbook(Buffer.concat(chunks))
+
+    expect(sheet.rowCount).toBe(3)
+    expect(rowValues(sheet, 2)).toEqual(['AGL', 1])
+    expect(rowValues(sheet, 3)).toEqual(['Origin', 2])
+  })
+})
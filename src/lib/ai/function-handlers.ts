@@ -5,8 +5,27 @@
  * SECURITY: All functions use a user-scoped Supabase client to ensure RLS is enforced
  */
 
-import { supabaseAdmin } from '@/lib/server/supabase-admin';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { invoiceColumn } from '@/lib/server/invoice-columns';
+import { normaliseInvoiceFilters } from '@/lib/server/invoice-query';
+import {
+  findInvoice,
+  listInvoices,
+  scanInvoices,
+  type InvoiceRecord,
+} from '@/lib/server/invoice-repository';
+import { changeInvoiceStatus, type StatusActor } from '@/lib/server/invoice-status';
+import { getApprovalState } from '@/lib/server/invoice-approvals';
+import { addInvoiceComment, listInvoiceComments } from '@/lib/server/invoice-comments';
+import { loadVendorIndexOrEmpty } from '@/lib/server/vendors';
+import { getRecurringInsights } from '@/lib/server/billing-cadences';
+import { expandVendorNames, groupByVendor } from '@/lib/vendor-matching';
+import type { RecurringInsights } from '@/lib/billing-cadence';
+import {
+  describeBlockedTransition,
+  evaluateTransition,
+  isInvoiceStatus,
+} from '@/lib/invoice-status-machine';
 
 export interface InvoiceSearchParams {
   status?: string[];
@@ -32,6 +51,33 @@ export interface InvoiceDetails {
   [key: string]: any;
 }
 
+/**
+ * Map a repository invoice record onto the shape returned to Claude
+ */
+function toInvoiceDetails(invoice: InvoiceRecord): InvoiceDetails {
+  return {
+    id: invoice.id,
+    invoiceNumber: invoice.invoiceNumber || 'N/A',
+    vendor: invoice.vendorName || 'Unknown',
+    vendorABN: invoice.vendorAbn,
+    amount: invoice.amount,
+    subtotal: invoice.subtotal ?? 0,
+    gst: invoice.gst ?? 0,
+    amountDue: invoice.amountDue,
+    status: invoice.status,
+    issueDate: (invoice.issueDate || invoice.createdAt) ?? '',
+    dueDate: invoice.dueDate ?? undefined,
+    description: invoice.description,
+    category: invoice.category,
+    fileUrl: invoice.invoiceUrl,
+    source: invoice.source,
+    notes: invoice.notes,
+    paymentTerms: invoice.paymentTerms,
+    createdAt: invoice.createdAt,
+    updatedAt: invoice.updatedAt,
+  };
+}
+
 /**
  * Search invoices based on filters
  * SECURITY: Uses user-scoped client to enforce RLS
@@ -47,75 +93,35 @@ export async function searchInvoices(
   try {
     const limit = params.limit || 20;
 
-    // Build query - Uses user-scoped client (RLS enforced)
-    let query = supabase
-      .from('Invoice')
-      .select('*', { count: 'exact' });
+    // Uses user-scoped client (RLS enforced)
+    const result = await listInvoices(
+      {
+        filters: normaliseInvoiceFilters({
+          search: params.search,
+          statuses: params.status,
+          vendors: params.vendor,
+          dateFrom: params.dateFrom,
+          dateTo: params.dateTo,
+          amountMin: params.amountMin,
+          amountMax: params.amountMax,
+        }),
+        sortBy: invoiceColumn('createdAt'),
+        sortOrder: 'desc',
+        page: 0,
+        limit,
+        nowIso: new Date().toISOString(),
+      },
+      supabase
+    );
 
-    // Apply filters
-    if (params.status && params.status.length > 0) {
-      query = query.in('status', params.status);
-    }
+    const invoices = result.invoices.map(toInvoiceDetails);
 
-    if (params.vendor && params.vendor.length > 0) {
-      query = query.in('supplier_name', params.vendor);
-    }
-    
-    if (params.dateFrom) {
-      query = query.gte('invoice_date', params.dateFrom);
-    }
-    
-    if (params.dateTo) {
-      query = query.lte('invoice_date', params.dateTo);
-    }
-    
-    if (params.amountMin !== undefined) {
-      query = query.gte('total', params.amountMin);
-    }
-    
-    if (params.amountMax !== undefined) {
-      query = query.lte('total', params.amountMax);
-    }
-    
-    if (params.search) {
-      query = query.or(
-        `invoice_number.ilike.%${params.search}%,` +
-        `supplier_name.ilike.%${params.search}%,` +
-        `description.ilike.%${params.search}%`
-      );
-    }
-    
-    // Execute query
-    const { data, error, count } = await query
-      .order('created_at', { ascending: false })
-      .limit(limit);
-    
-    if (error) {
-      console.error('Search invoices error:', error);
-      throw new Error('Failed to search invoices');
-    }
-    
-    // Map to standard format
-    const invoices: InvoiceDetails[] = (data || []).map(inv => ({
-      id: inv.id,
-      invoiceNumber: inv.invoice_number || 'N/A',
-      vendor: inv.supplier_name || 'Unknown',
-      amount: parseFloat(inv.total || 0),
-      status: inv.status || 'pending',
-      issueDate: inv.invoice_date || inv.created_at,
-      dueDate: inv.due_date,
-      description: inv.description || inv.line_1_desc,
-      category: inv.category,
-      fileUrl: inv.file_url,
-      source: inv.source,
-    }));
-    
     // Calculate summary
     const totalAmount = invoices.reduce((sum, inv) => sum + inv.amount, 0);
-    
+
     return {
       invoices,
-      total: count || 0,
+      total: result.total,
       summary: {
         totalAmount,
         count: invoices.length,
@@ -123,7 +129,7 @@ export async function searchInvoices(
     };
   } catch (error) {
     console.error('searchInvoices error:', error);
-    throw error;
+    throw new Error('Failed to search invoices');
   }
 }
 
@@ -136,40 +142,22 @@ export async function getInvoiceDetails(
   supabase: SupabaseClient
 ): Promise<InvoiceDetails | null> {
   try {
-    const { data, error} = await supabase
-      .from('Invoice')
-      .select('*')
-      .eq('id', invoiceId)
-      .single();
-    
-    if (error) {
-      console.error('Get invoice details error:', error);
-      return null;
-    }
-    
-    if (!data) {
-      return null;
-    }
-    
+    const found = await findInvoice(invoiceId, supabase);
+    if (!found) return null;
+
+    // Recent comments give the assistant the same context as the comments panel
+    const comments = await listInvoiceComments(found.invoice.id, supabase).catch(() => []);
     return {
-      id: data.id,
-      invoiceNumber: data.invoice_number || 'N/A',
-      vendor: data.supplier_name || 'Unknown',
-      vendorABN: data.supplier_abn,
-      amount: parseFloat(data.total || 0),
-      subtotal: parseFloat(data.subtotal || 0),
-      gst: parseFloat(data.gst_total || 0),
-      status: data.status || 'pending',
-      issueDate: data.invoice_date || data.created_at,
-      dueDate: data.due_date,
-      description: data.description || data.line_1_desc,
-      category: data.category,
-      fileUrl: data.file_url,
-      source: data.source,
-      notes: data.notes,
-      paymentTerms: data.payment_terms,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
+      ...toInvoiceDetails(found.invoice),
+      comments: comments
+        .filter((comment) => !comment.deletedAt)
+        .slice(-10)
+        .map((comment) => ({
+          author: comment.authorEmail || comment.authorId,
+          body: comment.body,
+          createdAt: comment.createdAt,
+          isReply: Boolean(comment.parentId),
+        })),
     };
   } catch (error) {
     console.error('getInvoiceDetails error:', error);
@@ -195,49 +183,32 @@ export async function getSummaryStats(
   averageAmount: number;
 }> {
   try {
-    // Build query - Uses user-scoped client (RLS enforced)
-    let query = supabase
-      .from('Invoice')
-      .select('status, total');
-
-    // Apply filters
-    if (params.status && params.status.length > 0) {
-      query = query.in('status', params.status);
-    }
-    
-    if (params.dateFrom) {
-      query = query.gte('invoice_date', params.dateFrom);
-    }
-    
-    if (params.dateTo) {
-      query = query.lte('invoice_date', params.dateTo);
-    }
-    
-    const { data, error } = await query;
-    
-    if (error) {
-      console.error('Get summary stats error:', error);
-      throw new Error('Failed to get summary statistics');
-    }
-    
+    // Uses user-scoped client (RLS enforced)
+    const invoices = await scanInvoices(
+      normaliseInvoiceFilters({
+        statuses: params.status,
+        dateFrom: params.dateFrom,
+        dateTo: params.dateTo,
+      }),
+      supabase
+    );
+
     // Calculate statistics
-    const invoices = data || [];
     const totalInvoices = invoices.length;
-    const totalAmount = invoices.reduce((sum, inv) => sum + parseFloat(inv.total || 0), 0);
+    const totalAmount = invoices.reduce((sum, inv) => sum + inv.amount, 0);
     const averageAmount = totalInvoices > 0 ? totalAmount / totalInvoices : 0;
-    
+
     // Group by status
     const byStatus: Record<string, { count: number; amount: number }> = {};
 
     for (const inv of invoices) {
-      const status = inv.status || 'pending';
-      if (!byStatus[status]) {
-        byStatus[status] = { count: 0, amount: 0 };
+      if (!byStatus[inv.status]) {
+        byStatus[inv.status] = { count: 0, amount: 0 };
       }
-      byStatus[status].count++;
-      byStatus[status].amount += parseFloat(inv.total || 0);
+      byStatus[inv.status].count++;
+      byStatus[inv.status].amount += inv.amount;
     }
-    
+
     return {
       totalInvoices,
       totalAmount,
@@ -246,7 +217,7 @@ export async function getSummaryStats(
     };
   } catch (error) {
     console.error('getSummaryStats error:', error);
-    throw error;
+    throw new Error('Failed to get summary statistics');
   }
 }
 
@@ -260,38 +231,21 @@ export async function getTopVendors(
     sortBy?: 'amount' | 'count';
   },
   supabase: SupabaseClient
-): Promise<Array<{ vendor: string; count: number; amount: number }>> {
+): Promise<Array<{ vendor: string; vendorId: string | null; count: number; amount: number }>> {
   try {
     const limit = params.limit || 10;
     const sortBy = params.sortBy || 'amount';
 
-    const { data, error } = await supabase
-      .from('Invoice')
-      .select('supplier_name, total');
-    
-    if (error) {
-      console.error('Get top vendors error:', error);
-      throw new Error('Failed to get top vendors');
-    }
-    
-    // Group by vendor
-    const vendorMap: Record<string, { count: number; amount: number }> = {};
-    
-    for (const inv of data || []) {
-      const vendor = inv.supplier_name || 'Unknown';
-      if (!vendorMap[vendor]) {
-        vendorMap[vendor] = { count: 0, amount: 0 };
-      }
-      vendorMap[vendor].count++;
-      vendorMap[vendor].amount += parseFloat(inv.total || 0);
-    }
-    
-    // Convert to array and sort
-    const vendors = Object.entries(vendorMap)
-      .map(([vendor, stats]) => ({
-        vendor,
-        count: stats.count,
-        amount: stats.amount,
+    const invoices = await scanInvoices(normaliseInvoiceFilters(), supabase);
+    const vendorIndex = await loadVendorIndexOrEmpty(supabase);
+
+    // Group by canonical vendor so spellings of the same supplier count once
+    const vendors = groupByVendor(invoices, (inv) => inv.vendorName || 'Unknown', vendorIndex)
+      .map((group) => ({
+        vendor: group.vendor,
+        vendorId: group.vendorId,
+        count: group.rows.length,
+        amount: group.rows.reduce((sum, inv) => sum + inv.amount, 0),
       }))
       .sort((a, b) => {
         if (sortBy === 'amount') {
@@ -304,7 +258,31 @@ export async function getTopVendors(
     return vendors;
   } catch (error) {
     console.error('getTopVendors error:', error);
-    throw error;
+    throw new Error('Failed to get top vendors');
+  }
+}
+
+/**
+ * Get recurring vendors, bills expected but not received and unusual amounts
+ * SECURITY: Uses user-scoped client to enforce RLS
+ */
+export async function getRecurringInvoiceAlerts(
+  params: {
+    vendor?: string;
+  },
+  supabase: SupabaseClient
+): Promise<RecurringInsights> {
+  try {
+    const vendorIndex = await loadVendorIndexOrEmpty(supabase);
+    const vendors = params.vendor ? expandVendorNames([params.vendor], vendorIndex) : [];
+
+    // Cadences are learned from the vendor's whole history
+    const invoices = await scanInvoices(normaliseInvoiceFilters({ vendors }), supabase);
+
+    return getRecurringInsights(invoices, vendorIndex);
+  } catch (error) {
+    console.error('getRecurringInvoiceAlerts error:', error);
+    throw new Error('Failed to get recurring invoice alerts');
   }
 }
 
@@ -318,8 +296,11 @@ export async function prepareStatusUpdate(
     invoiceId: string;
     newStatus: string;
     reason?: string;
+    paymentDate?: string;
+    paymentReference?: string;
   },
-  supabase: SupabaseClient
+  supabase: SupabaseClient,
+  actor?: StatusActor
 ): Promise<{
   invoice: InvoiceDetails;
   oldStatus: string;
@@ -329,9 +310,9 @@ export async function prepareStatusUpdate(
 }> {
   try {
     // Get current invoice
-    const invoice = await getInvoiceDetails(params.invoiceId, supabase);
+    const found = await findInvoice(params.invoiceId, supabase);
     
-    if (!invoice) {
+    if (!found) {
       return {
         invoice: null as any,
         oldStatus: '',
@@ -341,11 +322,10 @@ export async function prepareStatusUpdate(
       };
     }
     
-    const oldStatus = invoice.status;
+    const invoice = toInvoiceDetails(found.invoice);
+    const oldStatus = found.invoice.status;
     
-    // Validate status transition
-    const validStatuses = ['pending', 'in_review', 'approved', 'paid', 'overdue'];
-    if (!validStatuses.includes(params.newStatus)) {
+    if (!isInvoiceStatus(params.newStatus)) {
       return {
         invoice,
         oldStatus,
@@ -354,6 +334,38 @@ export async function prepareStatusUpdate(
         message: 'Invalid status value',
       };
     }
+
+    // Check the same workflow and guards the status API enforces
+    if (params.newStatus !== oldStatus) {
+      const approval = params.newStatus === 'paid'
+        ? await getApprovalState(found.invoice, supabase)
+        : undefined;
+      const evaluation = evaluateTransition(
+        params.newStatus,
+        {
+          invoice: {
+            status: oldStatus,
+            paidDate: found.invoice.paidDate,
+            paymentReference: found.invoice.paymentReference,
+            issueDate: found.invoice.issueDate,
+          },
+          actor,
+          input: { paymentDate: params.paymentDate, paymentReference: params.paymentReference },
+          approval: approval && { progress: approval.progress, uploadedByUserId: found.invoice.uploadedByUserId },
+        },
+        { requireInput: true }
+      );
+
+      if (!evaluation.allowed) {
+        return {
+          invoice,
+          oldStatus,
+          newStatus: params.newStatus,
+          valid: false,
+          message: describeBlockedTransition(oldStatus, evaluation),
+        };
+      }
+    }
     
     return {
       invoice,
@@ -377,32 +389,63 @@ export async function executeStatusUpdate(
     invoiceId: string;
     newStatus: string;
     userId: string;
+    userEmail?: string;
+    userRole: string;
     reason?: string;
+    paymentDate?: string;
+    paymentReference?: string;
   },
   supabase: SupabaseClient
-): Promise<{ success: boolean; message: string }> {
+): Promise<{
+  success: boolean;
+  message: string;
+  /** Set when the invoice changed: the status before and after, and whether only an approval was recorded */
+  change?: { previousStatus: string; status: string; approvalRecorded: boolean };
+}> {
   try {
-    const { data, error } = await supabase
-      .from('Invoice')
-      .update({
-        status: params.newStatus,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', params.invoiceId)
-      .select()
-      .single();
-    
-    if (error) {
-      console.error('Execute status update error:', error);
+    if (!isInvoiceStatus(params.newStatus)) {
       return {
         success: false,
-        message: 'Failed to update invoice status',
+        message: 'Invalid status value',
       };
     }
-    
+
+    const change = await changeInvoiceStatus(
+      params.invoiceId,
+      params.newStatus,
+      { id: params.userId, email: params.userEmail, role: params.userRole },
+      { paymentDate: params.paymentDate, paymentReference: params.paymentReference },
+      supabase
+    );
+
+    if (change.outcome === 'not_found') {
+      return {
+        success: false,
+        message: 'Invoice not found',
+      };
+    }
+
+    if (change.outcome === 'invalid_transition' || change.outcome === 'conflict') {
+      return {
+        success: false,
+        message: change.message,
+      };
+    }
+
+    if (change.outcome === 'approval_recorded') {
+      return {
+        success: true,
+        message: `Approval recorded; ${change.progress.remaining} more approval${change.progress.remaining === 1 ? '' : 's'} needed before the invoice is approved`,
+        change: { previousStatus: change.previousStatus, status: change.invoice.status, approvalRecorded: true },
+      };
+    }
+
     return {
       success: true,
       message: `Successfully updated invoice status to ${params.newStatus}`,
+      ...(change.outcome === 'updated' && {
+        change: { previousStatus: change.previousStatus, status: change.invoice.status, approvalRecorded: false },
+      }),
     };
   } catch (error) {
     console.error('executeStatusUpdate error:', error);
@@ -449,6 +492,15 @@ export async function prepareNoteAddition(
         message: 'Note cannot be empty',
       };
     }
+
+    if (params.note.trim().length > 5000) {
+      return {
+        invoice,
+        note: params.note,
+        valid: false,
+        message: 'Note cannot be longer than 5000 characters',
+      };
+    }
     
     return {
       invoice,
@@ -471,44 +523,28 @@ export async function executeNoteAddition(
     invoiceId: string;
     note: string;
     userId: string;
+    userEmail?: string;
+    userRole?: string;
   },
   supabase: SupabaseClient
 ): Promise<{ success: boolean; message: string }> {
   try {
-    // Get current invoice to append note
-    const invoice = await getInvoiceDetails(params.invoiceId, supabase);
+    const found = await findInvoice(params.invoiceId, supabase);
 
-    if (!invoice) {
+    if (!found) {
       return {
         success: false,
         message: 'Invoice not found',
       };
     }
 
-    // Append new note to existing notes
-    const currentNotes = invoice.notes || '';
-    const timestamp = new Date().toISOString();
-    const newNote = `[${timestamp}] ${params.note}`;
-    const updatedNotes = currentNotes
-      ? `${currentNotes}\n${newNote}`
-      : newNote;
-
-    const { error } = await supabase
-      .from('Invoice')
-      .update({
-        notes: updatedNotes,
-        updated_at: timestamp,
-      })
-      .eq('id', params.invoiceId);
-    
-    if (error) {
-      console.error('Execute note addition error:', error);
-      return {
-        success: false,
-        message: 'Failed to add note to invoice',
-      };
-    }
-    
+    // Notes go into the invoice's comment thread alongside comments added in the app
+    await addInvoiceComment(
+      { invoiceId: found.invoice.id, body: params.note, source: 'chat' },
+      { id: params.userId, email: params.userEmail, role: params.userRole || 'user' },
+      supabase
+    );
+
     return {
       success: true,
       message: 'Successfully added note to invoice',
@@ -529,7 +565,8 @@ export async function executeNoteAddition(
 export async function executeFunctionCall(
   functionName: string,
   params: any,
-  supabase: SupabaseClient
+  supabase: SupabaseClient,
+  actor?: StatusActor
 ): Promise<any> {
   switch (functionName) {
     case 'searchInvoices':
@@ -544,8 +581,11 @@ export async function executeFunctionCall(
     case 'getTopVendors':
       return getTopVendors(params, supabase);
 
+    case 'getRecurringInvoiceAlerts':
+      return getRecurringInvoiceAlerts(params, supabase);
+
     case 'updateInvoiceStatus':
-      return prepareStatusUpdate(params, supabase);
+      return prepareStatusUpdate(params, supabase, actor);
 
     case 'addInvoiceNote':
       return prepareNoteAddition(params, supabase);
@@ -13,6 +13,7 @@ You can help users with:
 3. **Status Updates**: Suggest status changes (pending → in_review → approved → paid)
 4. **Invoice Details**: Explain invoice information in plain language
 5. **Recommendations**: Suggest actions based on invoice data (e.g., overdue payments)
+6. **Recurring Bills**: Report how often vendors usually bill, bills that are expected but have not arrived, and bills far from a vendor's usual amount
 
 ## Critical Safety Rules
 
@@ -28,6 +29,7 @@ You can help users with:
 3. **Be Helpful**: Offer related suggestions after answering questions
 4. **Be Transparent**: Explain what functions you're calling and why
 5. **Be Safe**: Always confirm before making changes
+6. **Link Invoices**: When you mention a specific invoice, link its number to its page, e.g. [INV-1042](/invoices/<id>)
 
 ## Example Interactions
 
@@ -111,7 +113,7 @@ export const FUNCTION_DEFINITIONS = [
   },
   {
     name: 'getInvoiceDetails',
-    description: 'Get detailed information about a specific invoice by ID',
+    description: 'Get detailed information about a specific invoice by ID, including its 10 most recent comments',
     input_schema: {
       type: 'object',
       properties: {
@@ -166,6 +168,19 @@ export const FUNCTION_DEFINITIONS = [
       }
     }
   },
+  {
+    name: 'getRecurringInvoiceAlerts',
+    description: 'Get recurring vendors with their usual billing cadence and amount, bills expected but not yet received, and recent invoices whose amount is far from the vendor\'s usual amount',
+    input_schema: {
+      type: 'object',
+      properties: {
+        vendor: {
+          type: 'string',
+          description: 'Only report on this vendor (optional)'
+        }
+      }
+    }
+  },
   {
     name: 'updateInvoiceStatus',
     description: 'Update the payment status of an invoice. REQUIRES USER CONFIRMATION before execution.',
@@ -184,6 +199,14 @@ export const FUNCTION_DEFINITIONS = [
         reason: {
           type: 'string',
           description: 'Optional reason for the status change'
+        },
+        paymentDate: {
+          type: 'string',
+          description: 'Payment date (YYYY-MM-DD). Required when marking an invoice as paid'
+        },
+        paymentReference: {
+          type: 'string',
+          description: 'Bank transfer or remittance reference. Required when marking an invoice as paid'
         }
       },
       required: ['invoiceId', 'newStatus']
@@ -191,7 +214,7 @@ export const FUNCTION_DEFINITIONS = [
   },
   {
     name: 'addInvoiceNote',
-    description: 'Add a note or comment to an invoice. REQUIRES USER CONFIRMATION before execution.',
+    description: 'Add a comment to the invoice\'s comment thread (visible in the app\'s comments panel). Use @name to mention a teammate. REQUIRES USER CONFIRMATION before execution.',
     input_schema: {
       type: 'object',
       properties: {
@@ -0,0 +1,187 @@
+import { trackAPIPerformance } from '@/lib/observability'
+import type { ApprovalPolicy } from '@/lib/approval-policy'
+import type { ApprovalPolicyInput, ApprovalPolicyUpdateInput } from '@/lib/schemas/api'
+
+const API_BASE = ''
+
+export interface InvoiceApproval {
+  id: string
+  invoiceId: string
+  policyId: string | null
+  policyName: string | null
+  requiredApprovals: number
+  decision: 'approved' | 'rejected'
+  comment: string | null
+  approverUserId: string
+  approverEmail: string | null
+  supersededAt: string | null
+  createdAt: string | null
+}
+
+export interface ApprovalCounts {
+  required: number
+  received: number
+  remaining: number
+}
+
+export interface AwaitingApprovalItem {
+  invoice: {
+    id: string
+    invoiceNumber: string
+    vendorName: string
+    vendorId: string | null
+    category: string
+    amount: number
+    status: string
+    issueDate: string | null
+    dueDate: string | null
+  }
+  policy: { id: string; name: string }
+  progress: ApprovalCounts
+  approvals: InvoiceApproval[]
+}
+
+export interface AwaitingApprovalResponse {
+  items: AwaitingApprovalItem[]
+  count: number
+}
+
+export interface InvoiceApprovalsResponse {
+  invoice: { id: string; invoiceNumber: string; amount: number; status: string; uploadedByUserId: string | null }
+  policy: ApprovalPolicy
+  progress: ApprovalCounts
+  approvals: InvoiceApproval[]
+  canApprove: boolean
+  reason?: string
+}
+
+export interface ApprovalPoliciesResponse {
+  policies: ApprovalPolicy[]
+  usingDefaults: boolean
+}
+
+export interface ApprovalMutationResult {
+  success: boolean
+  code?: string
+  message?: string
+  invoice?: { id: string; invoiceNumber: string; status: string }
+  approval?: InvoiceApproval
+  policy?: ApprovalPolicy
+  error?: string
+}
+
+async function getApprovalsJSON<T>(url: string, metric: string): Promise<T> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(url)
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance(metric, Date.now() - startTime)
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `HTTP ${response.status}`)
+    }
+
+    return data
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Approvals API] Error', { url, error })
+    }
+    throw error
+  }
+}
+
+async function sendApprovalRequest(
+  url: string,
+  metric: string,
+  method: 'POST' | 'PATCH' | 'DELETE',
+  body?: unknown
+): Promise<ApprovalMutationResult> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance(metric, Date.now() - startTime)
+
+    if (!response.ok) {
+      return {
+        success: false,
+        code: data.code,
+        error: data.message || data.error || `HTTP ${response.status}`,
+      }
+    }
+
+    return data
+  } catch (error) {
+    trackAPIPerformance(metric, Date.now() - startTime)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+// Invoices the signed-in user can approve now
+export function fetchAwaitingApprovals(): Promise<AwaitingApprovalResponse> {
+  return getApprovalsJSON(`${API_BASE}/api/approvals`, '/api/approvals')
+}
+
+// Policy, progress and every approval decision for one invoice
+export function fetchInvoiceApprovals(invoiceId: string): Promise<InvoiceApprovalsResponse> {
+  return getApprovalsJSON(
+    `${API_BASE}/api/invoices/${encodeURIComponent(invoiceId)}/approvals`,
+    '/api/invoices/[id]/approvals'
+  )
+}
+
+export function approveInvoice(invoiceId: string): Promise<ApprovalMutationResult> {
+  return sendApprovalRequest(
+    `${API_BASE}/api/invoices/${encodeURIComponent(invoiceId)}/approvals`,
+    '/api/invoices/[id]/approvals',
+    'POST',
+    { decision: 'approve' }
+  )
+}
+
+// Rejections send the invoice back to pending and clear earlier approvals
+export function rejectInvoice(invoiceId: string, comment: string): Promise<ApprovalMutationResult> {
+  return sendApprovalRequest(
+    `${API_BASE}/api/invoices/${encodeURIComponent(invoiceId)}/approvals`,
+    '/api/invoices/[id]/approvals',
+    'POST',
+    { decision: 'reject', comment }
+  )
+}
+
+export function fetchApprovalPolicies(): Promise<ApprovalPoliciesResponse> {
+  return getApprovalsJSON(`${API_BASE}/api/approval-policies`, '/api/approval-policies')
+}
+
+export function createApprovalPolicy(policy: ApprovalPolicyInput): Promise<ApprovalMutationResult> {
+  return sendApprovalRequest(`${API_BASE}/api/approval-policies`, '/api/approval-policies', 'POST', policy)
+}
+
+export function updateApprovalPolicy(id: string, changes: ApprovalPolicyUpdateInput): Promise<ApprovalMutationResult> {
+  return sendApprovalRequest(
+    `${API_BASE}/api/approval-policies/${encodeURIComponent(id)}`,
+    '/api/approval-policies/[id]',
+    'PATCH',
+    changes
+  )
+}
+
+export function deleteApprovalPolicy(id: string): Promise<ApprovalMutationResult> {
+  return sendApprovalRequest(
+    `${API_BASE}/api/approval-policies/${encodeURIComponent(id)}`,
+    '/api/approval-policies/[id]',
+    'DELETE'
+  )
+}
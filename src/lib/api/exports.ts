@@ -0,0 +1,90 @@
+import { trackAPIPerformance } from '@/lib/observability'
+import type { InvoiceExportColumnId, InvoiceExportFormat, InvoiceExportJobStatus } from '@/lib/invoice-export'
+import type { InvoiceExportInput } from '@/lib/schemas/api'
+import type { InvoiceFiltersState } from '@/types/invoice-filters'
+
+const API_BASE = ''
+
+export interface ExportJob {
+  id: string
+  ownerId: string
+  ownerEmail: string | null
+  status: InvoiceExportJobStatus
+  format: InvoiceExportFormat
+  columns: InvoiceExportColumnId[]
+  filters: InvoiceFiltersState
+  rowsTotal: number | null
+  rowsWritten: number
+  filename: string | null
+  contentType: string | null
+  byteSize: number | null
+  error: string | null
+  createdAt: string | null
+  startedAt: string | null
+  finishedAt: string | null
+  expiresAt: string | null
+}
+
+class ExportsRequestError extends Error {
+  constructor(message: string, readonly status: number, readonly code?: string) {
+    super(message)
+    this.name = 'ExportsRequestError'
+  }
+}
+
+async function exportsRequest<T>(url: string, metric: string, init?: RequestInit): Promise<T> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(url, {
+      cache: 'no-store',
+      ...init,
+      headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+    })
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance(metric, Date.now() - startTime)
+
+    if (!response.ok) {
+      throw new ExportsRequestError(data.message || data.error || `HTTP ${response.status}`, response.status, data.code)
+    }
+
+    return data
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Exports API] Error', { url, error })
+    }
+    throw error
+  }
+}
+
+export async function fetchExportJobs(): Promise<ExportJob[]> {
+  const data = await exportsRequest<{ exports: ExportJob[] }>(`${API_BASE}/api/exports`, '/api/exports')
+  return data.exports
+}
+
+export function fetchExportJob(id: string): Promise<ExportJob> {
+  return exportsRequest(`${API_BASE}/api/exports/${encodeURIComponent(id)}`, '/api/exports/[id]')
+}
+
+// Null when background exports are unavailable (no Supabase); the caller downloads directly instead
+export async function createExportJob(payload: InvoiceExportInput): Promise<ExportJob | null> {
+  try {
+    return await exportsRequest<ExportJob>(`${API_BASE}/api/exports`, '/api/exports', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    })
+  } catch (error) {
+    if (error instanceof ExportsRequestError && error.code === 'SUPABASE_DISABLED') return null
+    throw error
+  }
+}
+
+export function cancelExportJob(id: string): Promise<ExportJob> {
+  return exportsRequest(`${API_BASE}/api/exports/${encodeURIComponent(id)}/cancel`, '/api/exports/[id]/cancel', {
+    method: 'POST',
+  })
+}
+
+export function exportDownloadUrl(id: string): string {
+  return `${API_BASE}/api/exports/${encodeURIComponent(id)}/download`
+}
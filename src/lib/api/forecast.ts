@@ -0,0 +1,56 @@
+import { trackAPIPerformance } from '@/lib/observability'
+import type { CashflowForecast, ForecastScenario } from '@/lib/cashflow-forecast'
+import type { ForecastCsvGrouping } from '@/lib/csv-export'
+import type { StatsParams } from '@/lib/api/stats'
+
+const API_BASE = ''
+
+export type ForecastParams = Omit<StatsParams, 'triggerError'> & Partial<ForecastScenario>
+
+export interface ForecastResponse extends CashflowForecast {
+  metadata: {
+    generatedAt: string
+    dateRange: { from: string | null; to: string | null }
+  }
+}
+
+function forecastUrl(params: ForecastParams, extra: Record<string, string> = {}): string {
+  const search = new URLSearchParams(extra)
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return
+    if (Array.isArray(value)) {
+      value.forEach((item) => search.append(key, String(item)))
+      return
+    }
+    search.set(key, String(value))
+  })
+  const query = search.toString()
+  return `${API_BASE}/api/forecast${query ? `?${query}` : ''}`
+}
+
+// Payables per week for the next 12 weeks under the chosen scenario
+export async function fetchCashflowForecast(params: ForecastParams = {}): Promise<ForecastResponse> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(forecastUrl(params), { cache: 'no-store' })
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/forecast', Date.now() - startTime)
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `HTTP ${response.status}`)
+    }
+
+    return data
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Forecast API] Error', { error })
+    }
+    throw error
+  }
+}
+
+// Link that downloads the forecast as CSV
+export function cashflowForecastCsvUrl(params: ForecastParams, groupBy: ForecastCsvGrouping): string {
+  return forecastUrl(params, { format: 'csv', groupBy })
+}
@@ -1,6 +1,20 @@
 // Client-side API for invoice operations
 import { trackAPIPerformance } from '@/lib/observability'
 import type { InvoiceFiltersState } from '@/types/invoice-filters'
+import type { InvoiceCreateInput } from '@/lib/schemas/invoice'
+import type { CreditNoteInput, DuplicateResolutionInput, InvoiceCommentInput, InvoicePaymentInput } from '@/lib/schemas/api'
+import type { DocumentKind } from '@/lib/document-types'
+import type { AuditLog, InvoiceDocumentType } from '@/lib/types'
+import type { InvoiceLineItem } from '@/lib/invoice-line-items'
+import type { HistoryEvent } from '@/lib/invoice-history'
+import type { SavedViewPermission, SavedViewVisibility } from '@/lib/saved-views'
+import type { PaginationResponse } from '@/lib/schemas/pagination'
+import type {
+  InvoiceStatus,
+  StatusChangeInput,
+  StatusGuardResult,
+  StatusTransitionEvaluation,
+} from '@/lib/invoice-status-machine'
 
 export interface Invoice {
   id: string
@@ -32,7 +46,13 @@ export interface InvoicesParams {
   dateTo?: string
   amountMin?: number
   amountMax?: number
+  /** Inclusive due date bounds (YYYY-MM-DD) */
+  dueFrom?: string
+  dueTo?: string
+  /** Aging bucket key; only outstanding invoices in that bucket */
+  aging?: string
   savedViewId?: string
+  cursor?: string
 }
 
 export interface InvoicesResponse {
@@ -42,9 +62,15 @@ export interface InvoicesResponse {
     pageCount: number
     pageSize: number
     pageIndex: number
+    totalAmount?: number
+    nextCursor?: string | null
+    /** Set when a relevance-sorted search ranked only the newest this many matches */
+    rankedLimit?: number | null
   }
   statusCounts: {
     pending: number
+    in_review?: number
+    approved?: number
     paid: number
     overdue: number
   }
@@ -54,7 +80,7 @@ export interface InvoiceFacetsResponse {
   facets: {
     statuses: Array<{ value: string; count: number }>
     categories: Array<{ value: string; count: number }>
-    vendors: Array<{ value: string; email?: string; count: number }>
+    vendors: Array<{ value: string; vendorId?: string | null; aliases?: string[]; email?: string; count: number }>
     amountRange: { min: number; max: number }
     dateRange: { min: string | null; max: string | null }
   }
@@ -65,12 +91,23 @@ export interface InvoiceSavedView {
   name: string
   filters: InvoiceFiltersState
   isDefault: boolean
+  ownerId: string
+  ownerEmail: string | null
+  visibility: SavedViewVisibility
+  permission: SavedViewPermission
+  position: number
+  /** What the current user may do with the view */
+  isOwner: boolean
+  canEdit: boolean
+  canManage: boolean
   createdAt: string
   updatedAt: string
 }
 
 export interface InvoiceSavedViewsResponse {
   views: InvoiceSavedView[]
+  /** The view to load when the invoices or kanban page opens */
+  defaultViewId: string | null
 }
 
 // Export types removed - using direct CSV download instead
@@ -203,6 +240,76 @@ export async function fetchInvoiceById(id: string): Promise<Invoice> {
   }
 }
 
+// Invoice as served by /api/invoices/[id]/details
+export interface InvoiceDetailRecord {
+  id: string
+  invoiceNumber: string
+  vendorName: string
+  vendorEmail: string
+  vendorAbn: string | null
+  vendorId: string | null
+  amount: number
+  subtotal: number | null
+  gst: number | null
+  amountDue: number
+  issueDate: string | null
+  dueDate: string | null
+  receivedDate: string | null
+  status: InvoiceStatus
+  description: string
+  category: string
+  paymentTerms: string
+  invoiceUrl: string
+  paidDate: string | null
+  paymentReference: string | null
+  notes: string | null
+  source: string | null
+  documentType: InvoiceDocumentType
+  originalInvoiceId: string | null
+  duplicateOfId: string | null
+  uploadedByUserId: string | null
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+export type RelatedInvoice = Pick<
+  InvoiceDetailRecord,
+  'id' | 'invoiceNumber' | 'vendorName' | 'documentType' | 'amount' | 'amountDue' | 'status' | 'issueDate'
+>
+
+export interface InvoiceDetailResponse {
+  invoice: InvoiceDetailRecord
+  lineItems: InvoiceLineItem[]
+  related: {
+    original: RelatedInvoice | null
+    creditNotes: RelatedInvoice[]
+    duplicateOf: RelatedInvoice | null
+    duplicates: Array<{ pairId: string; status: DuplicatePairStatus; score: number; invoice: RelatedInvoice }>
+  }
+}
+
+// Invoice (id or invoice number) with its line items and related invoices, for the detail page
+export async function fetchInvoiceDetail(id: string): Promise<InvoiceDetailResponse> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(`${API_BASE}/api/invoices/${encodeURIComponent(id)}/details`)
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/invoices/[id]/details', Date.now() - startTime)
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `HTTP ${response.status}`)
+    }
+
+    return data
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Invoice Detail API] Error', { id, error })
+    }
+    throw error
+  }
+}
+
 export async function fetchInvoiceSavedViews(): Promise<InvoiceSavedViewsResponse> {
   const response = await fetch(`${API_BASE}/api/invoices/saved-views`, {
     cache: 'no-store',
@@ -219,6 +326,8 @@ export async function createInvoiceSavedView(payload: {
   name: string
   filters: InvoiceFiltersState
   isDefault?: boolean
+  visibility?: SavedViewVisibility
+  permission?: SavedViewPermission
 }): Promise<InvoiceSavedView> {
   const response = await fetch(`${API_BASE}/api/invoices/saved-views`, {
     method: 'POST',
@@ -238,7 +347,13 @@ export async function createInvoiceSavedView(payload: {
 
 export async function updateInvoiceSavedView(
   id: string,
-  payload: Partial<{ name: string; filters: InvoiceFiltersState; isDefault: boolean }>,
+  payload: Partial<{
+    name: string
+    filters: InvoiceFiltersState
+    isDefault: boolean
+    visibility: SavedViewVisibility
+    permission: SavedViewPermission
+  }>,
 ): Promise<InvoiceSavedView> {
   const response = await fetch(`${API_BASE}/api/invoices/saved-views/${id}`, {
     method: 'PATCH',
@@ -267,18 +382,118 @@ export async function deleteInvoiceSavedView(id: string): Promise<void> {
   }
 }
 
+export async function duplicateInvoiceSavedView(id: string, name?: string): Promise<InvoiceSavedView> {
+  const response = await fetch(`${API_BASE}/api/invoices/saved-views/${id}/duplicate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(name ? { name } : {}),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.message ?? 'Failed to duplicate view')
+  }
+
+  return response.json()
+}
+
+/** Save the order of the current user's own views */
+export async function reorderInvoiceSavedViews(ids: string[]): Promise<void> {
+  const response = await fetch(`${API_BASE}/api/invoices/saved-views/order`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ids }),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.message ?? 'Failed to reorder views')
+  }
+}
+
+export interface DuplicateInvoice {
+  invoice: {
+    id: string
+    invoiceNumber: string
+    vendorName: string
+    amount: number
+    status: string
+    issueDate: string | null
+  }
+  reasons: Array<'invoice_number' | 'file_checksum'>
+}
+
+export interface CreateInvoiceResult {
+  success: boolean
+  invoice?: Invoice
+  duplicates?: DuplicateInvoice[]
+  code?: string
+  error?: string
+}
+
+// Create an invoice manually. A 409 means likely duplicates were found;
+// resend with confirmDuplicate to save it anyway.
+export async function createInvoice(
+  payload: InvoiceCreateInput,
+  options: { confirmDuplicate?: boolean } = {}
+): Promise<CreateInvoiceResult> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(`${API_BASE}/api/invoices`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...payload, confirmDuplicate: options.confirmDuplicate ?? false }),
+    })
+
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/invoices [POST]', Date.now() - startTime)
+
+    if (!response.ok) {
+      return {
+        success: false,
+        code: data.code,
+        duplicates: data.duplicates,
+        error: data.message || data.error || `HTTP ${response.status}`,
+      }
+    }
+
+    return data
+  } catch (error) {
+    trackAPIPerformance('/api/invoices [POST]', Date.now() - startTime)
+
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Create Invoice API] Error', error)
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
 // CSV export is now handled directly via fetch in the component
 // No longer need job-based export functions
 
 // Update invoice status with audit logging
 export async function updateInvoiceStatus(
   invoiceId: string,
-  status: string
+  status: string,
+  details: StatusChangeInput = {}
 ): Promise<{
   success: boolean
-  invoice?: Invoice
-  auditLog?: any
+  invoice?: { invoice_number?: string; status?: InvoiceStatus }
+  auditLog?: AuditLog | null
   message?: string
+  /** APPROVAL_RECORDED when the approval counted but more are needed */
+  code?: string
   error?: string
 }> {
   const startTime = Date.now()
@@ -292,7 +507,7 @@ export async function updateInvoiceStatus(
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ status }),
+      body: JSON.stringify({ status, ...details }),
     })
 
     const data = await response.json()
@@ -334,10 +549,652 @@ export async function updateInvoiceStatus(
   }
 }
 
+export interface BulkStatusUpdateItem {
+  id: string
+  invoiceId?: string
+  invoiceNumber?: string
+  success: boolean
+  previousStatus?: string
+  status?: string
+  code?: 'UPDATED' | 'UNCHANGED' | 'APPROVAL_RECORDED' | 'NOT_FOUND' | 'INVALID_TRANSITION' | 'CONFLICT' | 'UPDATE_FAILED'
+  message?: string
+  allowedTransitions?: string[]
+  guards?: StatusGuardResult[]
+}
+
+export interface BulkStatusUpdateResult {
+  success: boolean
+  batchId?: string
+  status?: string
+  results: BulkStatusUpdateItem[]
+  summary: { requested: number; updated: number; unchanged: number; approvalsRecorded?: number; failed: number }
+  error?: string
+}
+
+// Update many invoices (ids or invoice numbers) to one status; results are per invoice
+export async function bulkUpdateInvoiceStatus(
+  ids: string[],
+  status: string,
+  details: StatusChangeInput = {}
+): Promise<BulkStatusUpdateResult> {
+  const startTime = Date.now()
+  const emptySummary = { requested: ids.length, updated: 0, unchanged: 0, failed: ids.length }
+
+  try {
+    const response = await fetch(`${API_BASE}/api/invoices/status`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ids, status, ...details }),
+    })
+
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/invoices/status', Date.now() - startTime)
+
+    if (!response.ok) {
+      return {
+        success: false,
+        results: [],
+        summary: emptySummary,
+        error: data.message || data.error || `HTTP ${response.status}`,
+      }
+    }
+
+    return data
+  } catch (error) {
+    trackAPIPerformance('/api/invoices/status', Date.now() - startTime)
+
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Bulk Status Update API] Error', error)
+    }
+
+    return {
+      success: false,
+      results: [],
+      summary: emptySummary,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+export interface InvoiceTransitions {
+  id: string
+  invoiceId: string
+  invoiceNumber: string
+  currentStatus: InvoiceStatus
+  transitions: StatusTransitionEvaluation[]
+}
+
+// Next statuses the current user may move each invoice to (ids or invoice numbers)
+export async function fetchInvoiceTransitions(ids: string[]): Promise<{
+  invoices: InvoiceTransitions[]
+  notFound: string[]
+  error?: string
+}> {
+  const startTime = Date.now()
+
+  try {
+    const params = new URLSearchParams({ ids: ids.join(',') })
+    const response = await fetch(`${API_BASE}/api/invoices/transitions?${params.toString()}`)
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/invoices/transitions', Date.now() - startTime)
+
+    if (!response.ok) {
+      return { invoices: [], notFound: [], error: data.message || data.error || `HTTP ${response.status}` }
+    }
+
+    return data
+  } catch (error) {
+    trackAPIPerformance('/api/invoices/transitions', Date.now() - startTime)
+    return { invoices: [], notFound: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+export interface InvoicePayment {
+  id: string
+  invoiceId: string
+  amount: number
+  paidAt: string
+  method: string | null
+  reference: string
+  notes: string | null
+  confirmedBy: string | null
+  amountDueAfter: number
+  recordedByUserId: string
+  recordedByEmail: string | null
+  createdAt: string | null
+}
+
+export interface InvoicePaymentSummary {
+  id: string
+  invoiceNumber: string
+  amount: number
+  amountDue: number
+  status: string
+}
+
+export interface InvoicePaymentsResponse {
+  invoice: InvoicePaymentSummary
+  payments: InvoicePayment[]
+  totals: { paid: number; outstanding: number; count: number }
+}
+
+export interface RecordPaymentResult {
+  success: boolean
+  payment?: InvoicePayment
+  invoice?: InvoicePaymentSummary
+  error?: string
+  code?: string
+}
+
+// Payment history for an invoice (id or invoice number)
+export async function fetchInvoicePayments(invoiceId: string): Promise<InvoicePaymentsResponse> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(`${API_BASE}/api/invoices/${encodeURIComponent(invoiceId)}/payments`)
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/invoices/[id]/payments', Date.now() - startTime)
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `HTTP ${response.status}`)
+    }
+
+    return data
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Invoice Payments API] Error', { invoiceId, error })
+    }
+    throw error
+  }
+}
+
+// Record a full or partial payment; the server updates amount due and status
+export async function recordInvoicePayment(
+  invoiceId: string,
+  payment: InvoicePaymentInput
+): Promise<RecordPaymentResult> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(`${API_BASE}/api/invoices/${encodeURIComponent(invoiceId)}/payments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payment),
+    })
+
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/invoices/[id]/payments', Date.now() - startTime)
+
+    if (!response.ok) {
+      return {
+        success: false,
+        code: data.code,
+        error: data.message || data.error || `HTTP ${response.status}`,
+      }
+    }
+
+    return data
+  } catch (error) {
+    trackAPIPerformance('/api/invoices/[id]/payments', Date.now() - startTime)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+export interface InvoiceCreditNote {
+  id: string
+  invoiceNumber: string
+  documentType: 'credit_note' | 'adjustment'
+  originalInvoiceId: string
+  amount: number
+  issueDate: string | null
+  description: string
+  invoiceUrl: string
+  createdAt: string | null
+}
+
+export interface InvoiceCreditNotesResponse {
+  invoice: InvoicePaymentSummary
+  creditNotes: InvoiceCreditNote[]
+  totals: { adjustments: number; netAmount: number; count: number }
+}
+
+export interface CreateCreditNoteResult {
+  success: boolean
+  creditNote?: InvoiceCreditNote
+  invoice?: InvoicePaymentSummary
+  error?: string
+  code?: string
+}
+
+// Credit notes and adjustments raised against an invoice (id or invoice number)
+export async function fetchInvoiceCreditNotes(invoiceId: string): Promise<InvoiceCreditNotesResponse> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(`${API_BASE}/api/invoices/${encodeURIComponent(invoiceId)}/credit-notes`)
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/invoices/[id]/credit-notes', Date.now() - startTime)
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `HTTP ${response.status}`)
+    }
+
+    return data
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Invoice Credit Notes API] Error', { invoiceId, error })
+    }
+    throw error
+  }
+}
+
+// Raise a credit note or adjustment; the server applies it to the invoice's amount due
+export async function createInvoiceCreditNote(
+  invoiceId: string,
+  creditNote: CreditNoteInput
+): Promise<CreateCreditNoteResult> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(`${API_BASE}/api/invoices/${encodeURIComponent(invoiceId)}/credit-notes`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(creditNote),
+    })
+
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/invoices/[id]/credit-notes', Date.now() - startTime)
+
+    if (!response.ok) {
+      return {
+        success: false,
+        code: data.code,
+        error: data.message || data.error || `HTTP ${response.status}`,
+      }
+    }
+
+    return data
+  } catch (error) {
+    trackAPIPerformance('/api/invoices/[id]/credit-notes', Date.now() - startTime)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+export interface InvoiceHistoryResponse {
+  invoice: { id: string; invoiceNumber: string }
+  events: HistoryEvent[]
+  pagination: PaginationResponse
+}
+
+export interface RevertFieldResult {
+  success: boolean
+  auditLog?: AuditLog | null
+  error?: string
+  code?: string
+}
+
+// Field-level change history for an invoice (id or invoice number), newest first
+export async function fetchInvoiceHistory(invoiceId: string, page = 0): Promise<InvoiceHistoryResponse> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(`${API_BASE}/api/invoices/${encodeURIComponent(invoiceId)}/history?page=${page}`)
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/invoices/[id]/history', Date.now() - startTime)
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `HTTP ${response.status}`)
+    }
+
+    return data
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Invoice History API] Error', { invoiceId, error })
+    }
+    throw error
+  }
+}
+
+// Put one field back to its value before a recorded change
+export async function revertInvoiceField(
+  invoiceId: string,
+  entryId: string,
+  field: string
+): Promise<RevertFieldResult> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(
+      `${API_BASE}/api/invoices/${encodeURIComponent(invoiceId)}/history/${encodeURIComponent(entryId)}/revert`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ field }),
+      }
+    )
+
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/invoices/[id]/history/[entryId]/revert', Date.now() - startTime)
+
+    if (!response.ok) {
+      return {
+        success: false,
+        code: data.code,
+        error: data.message || data.error || `HTTP ${response.status}`,
+      }
+    }
+
+    return data
+  } catch (error) {
+    trackAPIPerformance('/api/invoices/[id]/history/[entryId]/revert', Date.now() - startTime)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+export interface InvoiceCommentEntry {
+  id: string
+  invoiceId: string
+  parentId: string | null
+  authorId: string
+  authorEmail: string | null
+  body: string
+  mentions: string[]
+  source: 'app' | 'chat' | 'legacy'
+  createdAt: string | null
+  updatedAt: string | null
+  editedAt: string | null
+  deletedAt: string | null
+  canEdit: boolean
+}
+
+export interface InvoiceCommentThread extends InvoiceCommentEntry {
+  replies: InvoiceCommentEntry[]
+}
+
+export interface InvoiceCommentsResponse {
+  invoice: { id: string; invoiceNumber: string }
+  threads: InvoiceCommentThread[]
+  count: number
+}
+
+export interface InvoiceCommentHistory {
+  comment: InvoiceCommentEntry
+  edits: Array<{ id: string; commentId: string; previousBody: string; editedBy: string; editedAt: string | null }>
+}
+
+export interface CommentMutationResult {
+  success: boolean
+  comment?: InvoiceCommentEntry
+  error?: string
+  code?: string
+}
+
+function commentsUrl(invoiceId: string, commentId?: string) {
+  const base = `${API_BASE}/api/invoices/${encodeURIComponent(invoiceId)}/comments`
+  return commentId ? `${base}/${encodeURIComponent(commentId)}` : base
+}
+
+async function sendCommentRequest(url: string, init: RequestInit): Promise<CommentMutationResult> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    })
+
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/invoices/[id]/comments', Date.now() - startTime)
+
+    if (!response.ok) {
+      return {
+        success: false,
+        code: data.code,
+        error: data.message || data.error || `HTTP ${response.status}`,
+      }
+    }
+
+    return data
+  } catch (error) {
+    trackAPIPerformance('/api/invoices/[id]/comments', Date.now() - startTime)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+// Comment threads for an invoice (id or invoice number)
+export async function fetchInvoiceComments(invoiceId: string): Promise<InvoiceCommentsResponse> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(commentsUrl(invoiceId))
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/invoices/[id]/comments', Date.now() - startTime)
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `HTTP ${response.status}`)
+    }
+
+    return data
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Invoice Comments API] Error', { invoiceId, error })
+    }
+    throw error
+  }
+}
+
+// A comment with its previous versions
+export async function fetchInvoiceCommentHistory(invoiceId: string, commentId: string): Promise<InvoiceCommentHistory> {
+  const response = await fetch(commentsUrl(invoiceId, commentId))
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `HTTP ${response.status}`)
+  }
+
+  return data
+}
+
+export function addInvoiceComment(
+  invoiceId: string,
+  comment: InvoiceCommentInput
+): Promise<CommentMutationResult> {
+  return sendCommentRequest(commentsUrl(invoiceId), {
+    method: 'POST',
+    body: JSON.stringify(comment),
+  })
+}
+
+export function updateInvoiceComment(
+  invoiceId: string,
+  commentId: string,
+  body: string
+): Promise<CommentMutationResult> {
+  return sendCommentRequest(commentsUrl(invoiceId, commentId), {
+    method: 'PATCH',
+    body: JSON.stringify({ body }),
+  })
+}
+
+export function deleteInvoiceComment(invoiceId: string, commentId: string): Promise<CommentMutationResult> {
+  return sendCommentRequest(commentsUrl(invoiceId, commentId), { method: 'DELETE' })
+}
+
+export interface InvoiceDocumentMeta {
+  contentType: string
+  kind: DocumentKind
+  size: number | null
+  pages: number | null
+  filename: string
+}
+
+// URL of the document proxy; the browser loads it directly (iframe, img, download)
+export function invoiceDocumentUrl(invoiceId: string, options: { download?: boolean } = {}): string {
+  const url = `${API_BASE}/api/invoices/${encodeURIComponent(invoiceId)}/document`
+  return options.download ? `${url}?download=1` : url
+}
+
+// Sniffed type and page count of an invoice's stored document
+export async function fetchInvoiceDocumentMeta(invoiceId: string): Promise<InvoiceDocumentMeta> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(`${invoiceDocumentUrl(invoiceId)}?meta=1`)
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/invoices/[id]/document', Date.now() - startTime)
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `HTTP ${response.status}`)
+    }
+
+    return data
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Invoice Document API] Error', { invoiceId, error })
+    }
+    throw error
+  }
+}
+
+export type DuplicatePairStatus = 'pending' | 'merged' | 'linked' | 'dismissed'
+
+export interface DuplicateInvoiceSummary {
+  id: string
+  invoiceNumber: string
+  vendorName: string
+  amount: number
+  issueDate: string | null
+  status: string
+  source: string | null
+  invoiceUrl: string
+  fileChecksum: string | null
+  duplicateOfId: string | null
+  createdAt: string | null
+}
+
+export interface InvoiceDuplicatePair {
+  id: string
+  invoiceId: string
+  duplicateId: string
+  score: number
+  signals: Array<'file_checksum' | 'supplier' | 'invoice_number' | 'amount' | 'date'>
+  status: DuplicatePairStatus
+  resolvedByEmail: string | null
+  resolvedAt: string | null
+  createdAt: string | null
+  invoice: DuplicateInvoiceSummary
+  duplicate: DuplicateInvoiceSummary
+}
+
+export interface DuplicateQueueResponse {
+  status: DuplicatePairStatus
+  pairs: InvoiceDuplicatePair[]
+  count: number
+}
+
+export interface DuplicateMutationResult {
+  success: boolean
+  scanned?: number
+  found?: number
+  queued?: number
+  error?: string
+  code?: string
+}
+
+async function sendDuplicateRequest(url: string, body: unknown): Promise<DuplicateMutationResult> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    })
+
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/invoices/duplicates', Date.now() - startTime)
+
+    if (!response.ok) {
+      return {
+        success: false,
+        code: data.code,
+        error: data.message || data.error || `HTTP ${response.status}`,
+      }
+    }
+
+    return data
+  } catch (error) {
+    trackAPIPerformance('/api/invoices/duplicates', Date.now() - startTime)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+// Possible duplicates queue, highest score first
+export async function fetchDuplicateQueue(status: DuplicatePairStatus = 'pending'): Promise<DuplicateQueueResponse> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(`${API_BASE}/api/invoices/duplicates?status=${status}`)
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/invoices/duplicates', Date.now() - startTime)
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `HTTP ${response.status}`)
+    }
+
+    return data
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Invoice Duplicates API] Error', { status, error })
+    }
+    throw error
+  }
+}
+
+// Rescan every invoice and queue newly found duplicates
+export function scanForDuplicateInvoices(range: { dateFrom?: string; dateTo?: string } = {}): Promise<DuplicateMutationResult> {
+  return sendDuplicateRequest(`${API_BASE}/api/invoices/duplicates`, range)
+}
+
+// Merge (keepId survives), link or dismiss a queued pair
+export function resolveDuplicatePair(
+  pairId: string,
+  resolution: DuplicateResolutionInput
+): Promise<DuplicateMutationResult> {
+  return sendDuplicateRequest(`${API_BASE}/api/invoices/duplicates/${encodeURIComponent(pairId)}`, resolution)
+}
+
 // Get status history for an invoice
 export async function getInvoiceStatusHistory(invoiceId: string): Promise<{
   currentStatus?: string
-  history?: any[]
+  history?: AuditLog[]
   error?: string
 }> {
   const startTime = Date.now()
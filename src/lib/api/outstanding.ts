@@ -0,0 +1,56 @@
+import { trackAPIPerformance } from '@/lib/observability'
+import type { AgingCsvGrouping } from '@/lib/csv-export'
+import type { AgingReport } from '@/lib/payables-aging'
+import type { StatsParams } from '@/lib/api/stats'
+
+const API_BASE = ''
+
+export type AgingReportParams = Omit<StatsParams, 'triggerError'>
+
+export interface AgingReportResponse extends AgingReport {
+  metadata: {
+    generatedAt: string
+    dateRange: { from: string | null; to: string | null }
+  }
+}
+
+function outstandingUrl(params: AgingReportParams, extra: Record<string, string> = {}): string {
+  const search = new URLSearchParams(extra)
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return
+    if (Array.isArray(value)) {
+      value.forEach((item) => search.append(key, String(item)))
+      return
+    }
+    search.set(key, String(value))
+  })
+  const query = search.toString()
+  return `${API_BASE}/api/outstanding${query ? `?${query}` : ''}`
+}
+
+// Aged payables for the dashboard filters
+export async function fetchAgingReport(params: AgingReportParams = {}): Promise<AgingReportResponse> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(outstandingUrl(params), { cache: 'no-store' })
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/outstanding', Date.now() - startTime)
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `HTTP ${response.status}`)
+    }
+
+    return data
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Outstanding API] Error', { error })
+    }
+    throw error
+  }
+}
+
+// Link that downloads the aged payables report as CSV
+export function agingReportCsvUrl(params: AgingReportParams, groupBy: AgingCsvGrouping): string {
+  return outstandingUrl(params, { format: 'csv', groupBy })
+}
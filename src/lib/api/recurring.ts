@@ -0,0 +1,41 @@
+import { trackAPIPerformance } from '@/lib/observability'
+import type { RecurringInsights } from '@/lib/billing-cadence'
+import type { StatsParams } from '@/lib/api/stats'
+
+const API_BASE = ''
+
+export type RecurringParams = Pick<StatsParams, 'category' | 'vendor'>
+
+export interface RecurringResponse extends RecurringInsights {
+  metadata: {
+    generatedAt: string
+  }
+}
+
+// Recurring vendors, bills they have yet to send and recent unusual amounts
+export async function fetchRecurringInsights(params: RecurringParams = {}): Promise<RecurringResponse> {
+  const startTime = Date.now()
+
+  try {
+    const search = new URLSearchParams()
+    Object.entries(params).forEach(([key, values]) => {
+      values?.forEach((item) => search.append(key, item))
+    })
+    const query = search.toString()
+
+    const response = await fetch(`${API_BASE}/api/recurring${query ? `?${query}` : ''}`, { cache: 'no-store' })
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/recurring', Date.now() - startTime)
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `HTTP ${response.status}`)
+    }
+
+    return data
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Recurring API] Error', { error })
+    }
+    throw error
+  }
+}
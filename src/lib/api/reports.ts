@@ -0,0 +1,120 @@
+import { trackAPIPerformance } from '@/lib/observability'
+import type { ReportFormat, ReportScheduleTiming } from '@/lib/report-schedule'
+import type { ReportScheduleCreateInput, ReportScheduleUpdateInput } from '@/lib/schemas/api'
+
+const API_BASE = ''
+
+export type ReportDeliveryStatus = 'sending' | 'sent' | 'failed'
+
+export interface ReportSchedule extends ReportScheduleTiming {
+  id: string
+  savedViewId: string
+  viewName: string | null
+  ownerId: string
+  ownerEmail: string | null
+  timezone: string
+  format: ReportFormat
+  recipients: string[]
+  status: 'active' | 'paused'
+  nextRunAt: string | null
+  lastRunAt: string | null
+  lastDeliveryStatus: ReportDeliveryStatus | null
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+export interface ReportDelivery {
+  id: string
+  scheduleId: string
+  status: ReportDeliveryStatus
+  trigger: 'schedule' | 'manual'
+  scheduledFor: string | null
+  attempts: number
+  nextAttemptAt: string | null
+  recipients: string[]
+  sentTo: string[]
+  rowCount: number | null
+  error: string | null
+  createdAt: string | null
+  sentAt: string | null
+}
+
+export interface ReportScheduleDetail {
+  schedule: ReportSchedule
+  deliveries: ReportDelivery[]
+}
+
+async function reportsRequest<T>(url: string, metric: string, init?: RequestInit): Promise<T> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(url, {
+      cache: 'no-store',
+      ...init,
+      headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+    })
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance(metric, Date.now() - startTime)
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `HTTP ${response.status}`)
+    }
+
+    return data
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Reports API] Error', { url, error })
+    }
+    throw error
+  }
+}
+
+export async function fetchReportSchedules(): Promise<ReportSchedule[]> {
+  const data = await reportsRequest<{ schedules: ReportSchedule[] }>(`${API_BASE}/api/reports/schedules`, '/api/reports/schedules')
+  return data.schedules
+}
+
+// A schedule with its recent delivery history
+export function fetchReportSchedule(id: string): Promise<ReportScheduleDetail> {
+  return reportsRequest(`${API_BASE}/api/reports/schedules/${encodeURIComponent(id)}`, '/api/reports/schedules/[id]')
+}
+
+export function createReportSchedule(payload: ReportScheduleCreateInput): Promise<ReportSchedule> {
+  return reportsRequest(`${API_BASE}/api/reports/schedules`, '/api/reports/schedules', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  })
+}
+
+// Also pauses and resumes: { status: 'paused' | 'active' }
+export function updateReportSchedule(id: string, payload: ReportScheduleUpdateInput): Promise<ReportSchedule> {
+  return reportsRequest(`${API_BASE}/api/reports/schedules/${encodeURIComponent(id)}`, '/api/reports/schedules/[id]', {
+    method: 'PATCH',
+    body: JSON.stringify(payload),
+  })
+}
+
+export async function deleteReportSchedule(id: string): Promise<void> {
+  await reportsRequest(`${API_BASE}/api/reports/schedules/${encodeURIComponent(id)}`, '/api/reports/schedules/[id]', {
+    method: 'DELETE',
+  })
+}
+
+export function sendReportNow(id: string): Promise<ReportDelivery> {
+  return reportsRequest(`${API_BASE}/api/reports/schedules/${encodeURIComponent(id)}/send`, '/api/reports/schedules/[id]/send', {
+    method: 'POST',
+  })
+}
+
+export function retryReportDelivery(id: string): Promise<ReportDelivery> {
+  return reportsRequest(`${API_BASE}/api/reports/deliveries/${encodeURIComponent(id)}/retry`, '/api/reports/deliveries/[id]/retry', {
+    method: 'POST',
+  })
+}
+
+export async function unsubscribeFromReport(params: { schedule: string; email: string; token: string }): Promise<void> {
+  await reportsRequest(`${API_BASE}/api/reports/unsubscribe`, '/api/reports/unsubscribe', {
+    method: 'POST',
+    body: JSON.stringify(params),
+  })
+}
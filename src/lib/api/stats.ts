@@ -11,6 +11,7 @@ export interface DashboardStats {
     pendingAmount: number
     overdueAmount: number
     paidAmount: number
+    creditNotes?: { count: number; amount: number }
     trends: {
       invoices: number
       amount: number
@@ -29,6 +30,7 @@ export interface DashboardStats {
     }>
     topVendors: Array<{
       vendor: string
+      vendorId?: string | null
       count: number
       amount: number
     }>
@@ -0,0 +1,169 @@
+import { trackAPIPerformance } from '@/lib/observability'
+import type { VendorDetailsInput, VendorUpdateInput } from '@/lib/schemas/api'
+
+const API_BASE = ''
+
+export interface Vendor {
+  id: string
+  name: string
+  abn: string | null
+  email: string | null
+  phone: string | null
+  address: string | null
+  defaultCategory: string | null
+  defaultPaymentTerms: string | null
+  mergedIntoId: string | null
+  aliases: string[]
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+export interface VendorsResponse {
+  vendors: Vendor[]
+  count: number
+}
+
+export interface VendorMutationResult {
+  success: boolean
+  vendor?: Vendor
+  merged?: Vendor[]
+  invoicesMoved?: number
+  scanned?: number
+  linked?: number
+  vendorsCreated?: number
+  error?: string
+  code?: string
+}
+
+async function sendVendorRequest(url: string, method: 'POST' | 'PATCH', body: unknown): Promise<VendorMutationResult> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    })
+
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/vendors', Date.now() - startTime)
+
+    if (!response.ok) {
+      return {
+        success: false,
+        code: data.code,
+        error: data.message || data.error || `HTTP ${response.status}`,
+      }
+    }
+
+    return data
+  } catch (error) {
+    trackAPIPerformance('/api/vendors', Date.now() - startTime)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    }
+  }
+}
+
+// Active vendors with their aliases, by name
+export async function fetchVendors(): Promise<VendorsResponse> {
+  const startTime = Date.now()
+
+  try {
+    const response = await fetch(`${API_BASE}/api/vendors`)
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/vendors', Date.now() - startTime)
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `HTTP ${response.status}`)
+    }
+
+    return data
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Vendors API] Error', { error })
+    }
+    throw error
+  }
+}
+
+export function createVendor(details: VendorDetailsInput): Promise<VendorMutationResult> {
+  return sendVendorRequest(`${API_BASE}/api/vendors`, 'POST', details)
+}
+
+export function updateVendor(id: string, details: VendorUpdateInput): Promise<VendorMutationResult> {
+  return sendVendorRequest(`${API_BASE}/api/vendors/${encodeURIComponent(id)}`, 'PATCH', details)
+}
+
+// Fold sourceIds (with their aliases and invoices) into the vendor `id`
+export function mergeVendors(id: string, sourceIds: string[]): Promise<VendorMutationResult> {
+  return sendVendorRequest(`${API_BASE}/api/vendors/${encodeURIComponent(id)}/merge`, 'POST', { sourceIds })
+}
+
+// Link invoices without a vendor, creating vendors for new suppliers
+export function syncInvoiceVendors(): Promise<VendorMutationResult> {
+  return sendVendorRequest(`${API_BASE}/api/vendors/sync`, 'POST', {})
+}
+
+export interface VendorSummary {
+  lifetime: { count: number; amount: number }
+  period: { count: number; amount: number; from: string; to: string }
+  byStatus: Array<{ status: string; count: number; amount: number }>
+  categories: Array<{ category: string; count: number; amount: number }>
+  monthly: Array<{ month: string; amount: number }>
+  averageDaysToPay: number | null
+  onTimeRate: number | null
+  firstInvoiceDate: string | null
+  lastInvoiceDate: string | null
+}
+
+export interface VendorInvoiceSummary {
+  id: string
+  invoiceNumber: string
+  vendorName: string
+  amount: number
+  amountDue: number
+  issueDate: string | null
+  dueDate: string | null
+  status: string
+  documentType: string
+  category: string
+}
+
+export interface VendorSummaryResponse {
+  vendor: Vendor
+  summary: VendorSummary
+  recentInvoices: VendorInvoiceSummary[]
+}
+
+// Spend and payment behaviour for one vendor; the period defaults to the last 90 days
+export async function fetchVendorSummary(
+  id: string,
+  range: { dateFrom?: string; dateTo?: string } = {}
+): Promise<VendorSummaryResponse> {
+  const startTime = Date.now()
+  const params = new URLSearchParams()
+  if (range.dateFrom) params.set('dateFrom', range.dateFrom)
+  if (range.dateTo) params.set('dateTo', range.dateTo)
+  const query = params.toString()
+
+  try {
+    const response = await fetch(`${API_BASE}/api/vendors/${encodeURIComponent(id)}/summary${query ? `?${query}` : ''}`)
+    const data = await response.json().catch(() => ({}))
+    trackAPIPerformance('/api/vendors/summary', Date.now() - startTime)
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `HTTP ${response.status}`)
+    }
+
+    return data
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Vendors API] Error', { id, error })
+    }
+    throw error
+  }
+}
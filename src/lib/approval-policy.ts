@@ -0,0 +1,176 @@
+/**
+ * Invoice approval policies. A policy matches invoices by amount band,
+ * category and vendor, and sets how many distinct approvers must sign off
+ * (and with which roles) before the invoice can move to `approved`. The
+ * uploader of an invoice can never approve it. Policies are stored in
+ * `approval_policies`; the defaults below apply when none are configured.
+ */
+
+export interface ApprovalPolicy {
+  id: string
+  name: string
+  /** Inclusive lower bound of the invoice amount */
+  minAmount: number
+  /** Exclusive upper bound, or null for no limit */
+  maxAmount: number | null
+  /** Categories the policy applies to (case-insensitive); empty for all */
+  categories: string[]
+  /** Vendor ids the policy applies to; empty for all */
+  vendorIds: string[]
+  requiredApprovals: number
+  /** Roles (case-insensitive) that may approve under this policy */
+  approverRoles: string[]
+  /** Higher priority wins when several policies match */
+  priority: number
+  active: boolean
+}
+
+export interface ApprovalSubject {
+  amount: number
+  category?: string | null
+  vendorId?: string | null
+  uploadedByUserId?: string | null
+}
+
+export interface ApprovalRecord {
+  approverUserId: string
+  decision: 'approved' | 'rejected'
+}
+
+export interface ApprovalProgress {
+  policy: ApprovalPolicy
+  required: number
+  received: number
+  remaining: number
+  approverIds: string[]
+}
+
+export interface ApprovalEligibility {
+  allowed: boolean
+  message?: string
+}
+
+export const DEFAULT_APPROVER_ROLES = ['approver', 'admin']
+
+// Finance policy: one approver under $5k, two from $5k up
+export const DEFAULT_APPROVAL_POLICIES: ApprovalPolicy[] = [
+  {
+    id: 'default-under-5k',
+    name: 'Under $5,000',
+    minAmount: 0,
+    maxAmount: 5000,
+    categories: [],
+    vendorIds: [],
+    requiredApprovals: 1,
+    approverRoles: DEFAULT_APPROVER_ROLES,
+    priority: 0,
+    active: true,
+  },
+  {
+    id: 'default-5k-and-over',
+    name: '$5,000 and over',
+    minAmount: 5000,
+    maxAmount: null,
+    categories: [],
+    vendorIds: [],
+    requiredApprovals: 2,
+    approverRoles: DEFAULT_APPROVER_ROLES,
+    priority: 0,
+    active: true,
+  },
+]
+
+export function policyMatches(policy: ApprovalPolicy, subject: ApprovalSubject): boolean {
+  if (!policy.active) return false
+  // Credit notes carry negative amounts; bands apply to the size of the invoice
+  const amount = Math.abs(subject.amount)
+  if (amount < policy.minAmount) return false
+  if (policy.maxAmount !== null && amount >= policy.maxAmount) return false
+
+  if (policy.categories.length > 0) {
+    const category = subject.category?.trim().toLowerCase()
+    if (!category || !policy.categories.some((value) => value.trim().toLowerCase() === category)) return false
+  }
+
+  if (policy.vendorIds.length > 0) {
+    if (!subject.vendorId || !policy.vendorIds.includes(subject.vendorId)) return false
+  }
+
+  return true
+}
+
+function specificity(policy: ApprovalPolicy): number {
+  return (policy.vendorIds.length > 0 ? 2 : 0) + (policy.categories.length > 0 ? 1 : 0)
+}
+
+/**
+ * The policy governing an invoice: the matching policy with the highest
+ * priority, then the most specific (vendor before category), then the
+ * strictest. Falls back to the default policies when nothing matches.
+ */
+export function selectApprovalPolicy(
+  subject: ApprovalSubject,
+  policies: ApprovalPolicy[],
+): ApprovalPolicy {
+  const pick = (candidates: ApprovalPolicy[]) =>
+    candidates
+      .filter((policy) => policyMatches(policy, subject))
+      .sort((a, b) =>
+        b.priority - a.priority
+        || specificity(b) - specificity(a)
+        || b.requiredApprovals - a.requiredApprovals
+      )[0]
+
+  return pick(policies) ?? pick(DEFAULT_APPROVAL_POLICIES) ?? DEFAULT_APPROVAL_POLICIES[DEFAULT_APPROVAL_POLICIES.length - 1]
+}
+
+/** Distinct approvers so far; each person counts once however often they approve. */
+export function approvalProgress(policy: ApprovalPolicy, approvals: ApprovalRecord[]): ApprovalProgress {
+  const approverIds = Array.from(new Set(
+    approvals.filter((approval) => approval.decision === 'approved').map((approval) => approval.approverUserId)
+  ))
+  const received = approverIds.length
+  return {
+    policy,
+    required: policy.requiredApprovals,
+    received,
+    remaining: Math.max(0, policy.requiredApprovals - received),
+    approverIds,
+  }
+}
+
+/**
+ * Why `actorId` cannot add an approval regardless of role: they uploaded the
+ * invoice or have already approved it. Null when neither applies.
+ */
+export function approverConflict(
+  actorId: string | undefined,
+  subject: Pick<ApprovalSubject, 'uploadedByUserId'>,
+  progress: ApprovalProgress,
+): string | null {
+  if (subject.uploadedByUserId && subject.uploadedByUserId === actorId) {
+    return 'Invoices must be approved by someone other than the uploader'
+  }
+  if (actorId && progress.approverIds.includes(actorId)) {
+    return `You have already approved this invoice; it needs ${progress.remaining} more approval${progress.remaining === 1 ? '' : 's'} from someone else`
+  }
+  return null
+}
+
+export function hasApproverRole(role: string | null | undefined, roles: readonly string[]): boolean {
+  const value = role?.toLowerCase()
+  return Boolean(value) && roles.some((allowed) => allowed.toLowerCase() === value)
+}
+
+/** Whether `actor` may add an approval to an invoice under its policy. */
+export function canApprove(
+  actor: { id: string; role?: string | null },
+  subject: ApprovalSubject,
+  progress: ApprovalProgress,
+): ApprovalEligibility {
+  if (!hasApproverRole(actor.role, progress.policy.approverRoles)) {
+    return { allowed: false, message: 'Only approvers can approve invoices' }
+  }
+  const conflict = approverConflict(actor.id, subject, progress)
+  return conflict ? { allowed: false, message: conflict } : { allowed: true }
+}
@@ -0,0 +1,320 @@
+/**
+ * Billing cadence learned from a vendor's invoice history: how often they
+ * bill, how much and how long after issue the bill falls due. Only original
+ * invoices with an issue date are considered; a vendor needs at least
+ * `MIN_INVOICES` of them at a roughly regular interval to count as recurring.
+ */
+
+export interface CadenceInvoice {
+  vendorName: string
+  vendorId?: string | null
+  category: string
+  amount: number
+  issueDate: string | null
+  dueDate: string | null
+}
+
+export interface BillingCadence {
+  /** Canonical vendor id, or `name:<lowercased name>` when the vendor is unknown */
+  key: string
+  vendorName: string
+  vendorId: string | null
+  category: string
+  /** Median days between consecutive invoices */
+  intervalDays: number
+  /** Median invoice amount */
+  typicalAmount: number
+  /** Median days from issue to due date */
+  dueLagDays: number
+  invoiceCount: number
+  lastIssueDate: string
+}
+
+export const MIN_INVOICES = 3
+
+// Weekly to quarterly billing; anything else is too sparse or too noisy to project
+const MIN_INTERVAL_DAYS = 6
+const MAX_INTERVAL_DAYS = 100
+
+// Share of intervals that may stray more than 25% from the median
+const INTERVAL_TOLERANCE = 0.25
+const MAX_IRREGULAR_SHARE = 0.34
+
+const DEFAULT_DUE_LAG_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function toDay(value: string | null | undefined): number | null {
+  if (!value) return null
+  const time = Date.parse(value.length === 10 ? `${value}T00:00:00Z` : value)
+  return Number.isNaN(time) ? null : Math.floor(time / DAY_MS)
+}
+
+export function dayToIso(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10)
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+export function cadenceKey(invoice: { vendorName: string; vendorId?: string | null }): string {
+  return invoice.vendorId ?? `name:${invoice.vendorName.trim().toLowerCase()}`
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>()
+  let best = ''
+  for (const value of values) {
+    const count = (counts.get(value) ?? 0) + 1
+    counts.set(value, count)
+    if (count > (counts.get(best) ?? 0)) best = value
+  }
+  return best
+}
+
+/** Learn the cadence of one vendor's invoices, or null when they do not bill regularly. */
+export function learnCadence(invoices: CadenceInvoice[]): BillingCadence | null {
+  const dated = invoices
+    .map((invoice) => ({ invoice, day: toDay(invoice.issueDate) }))
+    .filter((entry): entry is { invoice: CadenceInvoice; day: number } => entry.day !== null)
+    .sort((a, b) => a.day - b.day)
+
+  // Several bills on the same day are one billing event
+  const events = dated.filter((entry, index) => index === 0 || entry.day !== dated[index - 1].day)
+  if (events.length < MIN_INVOICES) return null
+
+  const intervals = events.slice(1).map((entry, index) => entry.day - events[index].day)
+  const intervalDays = median(intervals)
+  if (intervalDays < MIN_INTERVAL_DAYS || intervalDays > MAX_INTERVAL_DAYS) return null
+
+  const irregular = intervals.filter((interval) => Math.abs(interval - intervalDays) > intervalDays * INTERVAL_TOLERANCE)
+  if (irregular.length / intervals.length > MAX_IRREGULAR_SHARE) return null
+
+  const lags = dated
+    .map(({ invoice, day }) => {
+      const due = toDay(invoice.dueDate)
+      return due === null ? null : due - day
+    })
+    .filter((lag): lag is number => lag !== null && lag >= 0)
+
+  const last = events[events.length - 1].invoice
+  return {
+    key: cadenceKey(last),
+    vendorName: last.vendorName,
+    vendorId: last.vendorId ?? null,
+    category: mostCommon(dated.map(({ invoice }) => invoice.category || 'Uncategorized')),
+    intervalDays: Math.round(intervalDays),
+    typicalAmount: Math.round(median(dated.map(({ invoice }) => invoice.amount)) * 100) / 100,
+    dueLagDays: lags.length ? Math.round(median(lags)) : DEFAULT_DUE_LAG_DAYS,
+    invoiceCount: dated.length,
+    lastIssueDate: dayToIso(events[events.length - 1].day),
+  }
+}
+
+/** Learn every recurring vendor's cadence from a mixed invoice history. */
+export function learnCadences(invoices: CadenceInvoice[]): BillingCadence[] {
+  const byVendor = new Map<string, CadenceInvoice[]>()
+  for (const invoice of invoices) {
+    const key = cadenceKey(invoice)
+    byVendor.set(key, [...(byVendor.get(key) ?? []), invoice])
+  }
+
+  return Array.from(byVendor.values())
+    .map(learnCadence)
+    .filter((cadence): cadence is BillingCadence => cadence !== null)
+    .sort((a, b) => a.vendorName.localeCompare(b.vendorName))
+}
+
+/** Issue days (see `toDay`) of the invoices a cadence expects after its last one, up to `untilDay`. */
+export function expectedIssueDays(cadence: BillingCadence, untilDay: number): number[] {
+  const last = toDay(cadence.lastIssueDate)
+  if (last === null || cadence.intervalDays <= 0) return []
+  const days: number[] = []
+  for (let day = last + cadence.intervalDays; day <= untilDay; day += cadence.intervalDays) {
+    days.push(day)
+  }
+  return days
+}
+
+/** Plain-language billing frequency, e.g. "monthly" or "every 45 days". */
+export function cadenceLabel(intervalDays: number): string {
+  if (intervalDays >= 6 && intervalDays <= 8) return 'weekly'
+  if (intervalDays >= 12 && intervalDays <= 16) return 'fortnightly'
+  if (intervalDays >= 26 && intervalDays <= 35) return 'monthly'
+  if (intervalDays >= 55 && intervalDays <= 65) return 'every two months'
+  if (intervalDays >= 85 && intervalDays <= 100) return 'quarterly'
+  return `every ${intervalDays} days`
+}
+
+export interface MissingInvoiceAlert {
+  cadence: BillingCadence
+  /** Issue date of the first bill that has not arrived */
+  expectedDate: string
+  daysLate: number
+  /** Bills missed since the last one arrived */
+  missedCount: number
+}
+
+// Bills are allowed to run a little late before they count as missing
+const MIN_GRACE_DAYS = 5
+const GRACE_SHARE = 0.2
+
+/**
+ * Recurring vendors whose next bill is overdue to arrive: no invoice since
+ * the last one, and more than the grace period past the expected issue date.
+ */
+export function missingInvoiceAlerts(cadences: BillingCadence[], now: Date = new Date()): MissingInvoiceAlert[] {
+  const today = Math.floor(now.getTime() / DAY_MS)
+
+  return cadences
+    .map((cadence) => {
+      const grace = Math.max(MIN_GRACE_DAYS, Math.round(cadence.intervalDays * GRACE_SHARE))
+      const missed = expectedIssueDays(cadence, today - grace)
+      if (missed.length === 0) return null
+      return {
+        cadence,
+        expectedDate: dayToIso(missed[0]),
+        daysLate: today - missed[0],
+        missedCount: missed.length,
+      }
+    })
+    .filter((alert): alert is MissingInvoiceAlert => alert !== null)
+    .sort((a, b) => b.daysLate - a.daysLate)
+}
+
+export interface AnomalyInvoice extends CadenceInvoice {
+  id: string
+  invoiceNumber: string
+}
+
+export interface AmountAnomaly {
+  id: string
+  invoiceNumber: string
+  vendorName: string
+  vendorId: string | null
+  issueDate: string | null
+  amount: number
+  /** Median of the vendor's other invoices */
+  typicalAmount: number
+  /** Signed share above (or below) the typical amount; 0.8 is 80% more */
+  deviation: number
+}
+
+// A bill is unusual when it is this far from the median and outside the vendor's normal spread
+const DEVIATION_SHARE = 0.5
+const SPREAD_FACTOR = 3
+// Median absolute deviation scaled to a standard deviation for normally spread amounts
+const MAD_SCALE = 1.4826
+
+/**
+ * Invoices from recurring vendors whose amount is far from what the vendor
+ * usually bills. Each invoice is compared with the vendor's other invoices so
+ * one outlier does not hide itself; only invoices issued on or after `since`
+ * are reported.
+ */
+export function amountAnomalies(
+  invoices: AnomalyInvoice[],
+  cadences: BillingCadence[],
+  since?: string,
+): AmountAnomaly[] {
+  const recurring = new Set(cadences.map((cadence) => cadence.key))
+  const sinceDay = toDay(since) ?? Number.NEGATIVE_INFINITY
+
+  const byVendor = new Map<string, AnomalyInvoice[]>()
+  for (const invoice of invoices) {
+    const key = cadenceKey(invoice)
+    if (!recurring.has(key)) continue
+    byVendor.set(key, [...(byVendor.get(key) ?? []), invoice])
+  }
+
+  const anomalies: AmountAnomaly[] = []
+  for (const vendorInvoices of byVendor.values()) {
+    vendorInvoices.forEach((invoice, index) => {
+      const issued = toDay(invoice.issueDate)
+      if (issued === null || issued < sinceDay) return
+
+      const others = vendorInvoices.filter((_, other) => other !== index).map((other) => other.amount)
+      if (others.length < MIN_INVOICES - 1) return
+
+      const typical = median(others)
+      if (!(typical > 0)) return
+      const spread = MAD_SCALE * median(others.map((amount) => Math.abs(amount - typical)))
+      const difference = invoice.amount - typical
+      if (Math.abs(difference) <= Math.max(typical * DEVIATION_SHARE, spread * SPREAD_FACTOR)) return
+
+      anomalies.push({
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        vendorName: invoice.vendorName,
+        vendorId: invoice.vendorId ?? null,
+        issueDate: invoice.issueDate,
+        amount: invoice.amount,
+        typicalAmount: Math.round(typical * 100) / 100,
+        deviation: Math.round((difference / typical) * 100) / 100,
+      })
+    })
+  }
+
+  return anomalies.sort((a, b) => Math.abs(b.deviation) - Math.abs(a.deviation))
+}
+
+export interface RecurringVendor extends BillingCadence {
+  /** e.g. "monthly" */
+  cadence: string
+  /** The first bill after the last one received, which may already be overdue */
+  nextExpectedDate: string
+}
+
+export interface MissingInvoice {
+  vendorName: string
+  vendorId: string | null
+  category: string
+  cadence: string
+  typicalAmount: number
+  lastIssueDate: string
+  expectedDate: string
+  daysLate: number
+  missedCount: number
+}
+
+export interface RecurringInsights {
+  vendors: RecurringVendor[]
+  missing: MissingInvoice[]
+  anomalies: AmountAnomaly[]
+}
+
+// Unusual amounts are only worth raising for recent bills
+const ANOMALY_LOOKBACK_DAYS = 90
+
+/**
+ * What recurring vendors usually bill and when, which of them have not sent
+ * an expected bill, and recent bills far from their usual amount.
+ */
+export function buildRecurringInsights(invoices: AnomalyInvoice[], now: Date = new Date()): RecurringInsights {
+  const cadences = learnCadences(invoices)
+  const today = Math.floor(now.getTime() / DAY_MS)
+
+  return {
+    vendors: cadences.map((cadence) => ({
+      ...cadence,
+      cadence: cadenceLabel(cadence.intervalDays),
+      nextExpectedDate: dayToIso(toDay(cadence.lastIssueDate)! + cadence.intervalDays),
+    })),
+    missing: missingInvoiceAlerts(cadences, now).map(({ cadence, expectedDate, daysLate, missedCount }) => ({
+      vendorName: cadence.vendorName,
+      vendorId: cadence.vendorId,
+      category: cadence.category,
+      cadence: cadenceLabel(cadence.intervalDays),
+      typicalAmount: cadence.typicalAmount,
+      lastIssueDate: cadence.lastIssueDate,
+      expectedDate,
+      daysLate,
+      missedCount,
+    })),
+    anomalies: amountAnomalies(invoices, cadences, dayToIso(today - ANOMALY_LOOKBACK_DAYS)),
+  }
+}
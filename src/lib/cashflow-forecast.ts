@@ -0,0 +1,261 @@
+/**
+ * Weekly cash-flow forecast of payables. Outstanding invoices are placed in
+ * the week they fall due (from the due date, else the issue date plus the
+ * payment terms); recurring vendors add the invoices their billing cadence
+ * says are still to come. Weeks run Monday to Sunday (UTC), starting with the
+ * current week, to line up with weekly payment runs.
+ */
+
+import { dayToIso, expectedIssueDays, toDay, type BillingCadence } from './billing-cadence'
+
+export interface ForecastScenario {
+  /** Schedule every overdue invoice in this week's run instead of leaving it as a backlog */
+  payOverdueNow: boolean
+  /** Hold invoices still in review out of the forecast until they are approved */
+  deferInReview: boolean
+  /** Add the invoices recurring vendors are expected to send */
+  includeExpected: boolean
+}
+
+export const DEFAULT_FORECAST_SCENARIO: ForecastScenario = {
+  payOverdueNow: false,
+  deferInReview: false,
+  includeExpected: true,
+}
+
+export const FORECAST_WEEKS = 12
+
+export interface ForecastInvoice {
+  id: string
+  invoiceNumber: string
+  vendorName: string
+  vendorId?: string | null
+  category: string
+  status: string
+  amountDue: number
+  issueDate: string | null
+  dueDate: string | null
+  paymentTerms?: string | null
+}
+
+export type ForecastBasis = 'due_date' | 'payment_terms' | 'default_terms' | 'overdue' | 'recurring'
+
+export interface ForecastItem {
+  kind: 'outstanding' | 'expected'
+  /** Invoice id, or `expected:<vendor>:<date>` for projected invoices */
+  id: string
+  invoiceNumber: string | null
+  vendorName: string
+  vendorId: string | null
+  category: string
+  amount: number
+  /** ISO date the payment is planned for */
+  payDate: string
+  basis: ForecastBasis
+  weekIndex: number
+}
+
+export interface ForecastWeek {
+  index: number
+  weekStart: string
+  weekEnd: string
+  outstanding: number
+  expected: number
+  total: number
+  count: number
+  /** Running total from the first week */
+  cumulative: number
+}
+
+export interface ForecastTotals {
+  amount: number
+  count: number
+}
+
+export interface CashflowForecast {
+  scenario: ForecastScenario
+  weeks: ForecastWeek[]
+  /** Past-due invoices not scheduled (when `payOverdueNow` is off) */
+  overdue: ForecastTotals
+  /** In-review invoices held back (when `deferInReview` is on) */
+  deferred: ForecastTotals
+  /** Outstanding invoices falling due after the last forecast week */
+  beyondHorizon: ForecastTotals
+  /** Outstanding invoices with no due date, issue date or terms to place them */
+  unscheduled: ForecastTotals
+  totals: { outstanding: number; expected: number; total: number }
+  items: ForecastItem[]
+}
+
+const DEFAULT_TERMS_DAYS = 30
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/** Monday on or before the day (days since epoch; 1970-01-01 was a Thursday). */
+export function startOfWeek(day: number): number {
+  return day - ((day + 3) % 7)
+}
+
+/**
+ * Days from issue to due date for terms such as "Net 30", "NET7", "14 days",
+ * "COD" or "30 EOM" (30 days after the end of the issue month). Returns null
+ * when the terms cannot be read.
+ */
+export function parsePaymentTerms(terms: string | null | undefined): { days: number; endOfMonth: boolean } | null {
+  const value = terms?.trim().toLowerCase()
+  if (!value) return null
+  if (/\b(cod|immediate|on receipt|upon receipt)\b/.test(value)) return { days: 0, endOfMonth: false }
+  const match = value.match(/(\d{1,3})/)
+  if (!match) return null
+  return { days: Number(match[1]), endOfMonth: /\beom\b|end of (the )?month/.test(value) }
+}
+
+/** Day the invoice falls due, and how it was worked out. */
+export function resolveDueDay(invoice: Pick<ForecastInvoice, 'dueDate' | 'issueDate' | 'paymentTerms'>): { day: number; basis: ForecastBasis } | null {
+  const due = toDay(invoice.dueDate)
+  if (due !== null) return { day: due, basis: 'due_date' }
+
+  const issued = toDay(invoice.issueDate)
+  if (issued === null) return null
+
+  const terms = parsePaymentTerms(invoice.paymentTerms)
+  if (!terms) return { day: issued + DEFAULT_TERMS_DAYS, basis: 'default_terms' }
+  if (!terms.endOfMonth) return { day: issued + terms.days, basis: 'payment_terms' }
+
+  const issueDate = new Date(issued * 24 * 60 * 60 * 1000)
+  const monthEnd = toDay(new Date(Date.UTC(issueDate.getUTCFullYear(), issueDate.getUTCMonth() + 1, 0)).toISOString()) as number
+  return { day: monthEnd + terms.days, basis: 'payment_terms' }
+}
+
+function addTotals(totals: ForecastTotals, amount: number) {
+  totals.amount += amount
+  totals.count += 1
+}
+
+/**
+ * Forecast payables for the next `weeks` weeks. Callers pass only outstanding
+ * invoices (nothing left to pay means nothing to forecast) and the cadences
+ * of recurring vendors within the same filters.
+ */
+export function buildCashflowForecast(
+  invoices: ForecastInvoice[],
+  cadences: BillingCadence[],
+  options: { now?: Date; weeks?: number; scenario?: Partial<ForecastScenario> } = {},
+): CashflowForecast {
+  const now = options.now ?? new Date()
+  const weekCount = options.weeks ?? FORECAST_WEEKS
+  const scenario = { ...DEFAULT_FORECAST_SCENARIO, ...options.scenario }
+
+  const today = toDay(now.toISOString()) as number
+  const firstWeek = startOfWeek(today)
+  const horizonEnd = firstWeek + weekCount * 7 - 1
+
+  const overdue: ForecastTotals = { amount: 0, count: 0 }
+  const deferred: ForecastTotals = { amount: 0, count: 0 }
+  const beyondHorizon: ForecastTotals = { amount: 0, count: 0 }
+  const unscheduled: ForecastTotals = { amount: 0, count: 0 }
+  const items: ForecastItem[] = []
+
+  const schedule = (item: Omit<ForecastItem, 'weekIndex' | 'payDate'>, payDay: number) => {
+    items.push({ ...item, payDate: dayToIso(payDay), weekIndex: Math.floor((payDay - firstWeek) / 7) })
+  }
+
+  for (const invoice of invoices) {
+    if (!(invoice.amountDue > 0)) continue
+
+    if (scenario.deferInReview && invoice.status === 'in_review') {
+      addTotals(deferred, invoice.amountDue)
+      continue
+    }
+
+    const due = resolveDueDay(invoice)
+    if (!due) {
+      addTotals(unscheduled, invoice.amountDue)
+      continue
+    }
+
+    const item = {
+      kind: 'outstanding' as const,
+      id: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      vendorName: invoice.vendorName,
+      vendorId: invoice.vendorId ?? null,
+      category: invoice.category || 'Uncategorized',
+      amount: invoice.amountDue,
+    }
+
+    if (due.day < today) {
+      if (scenario.payOverdueNow) {
+        schedule({ ...item, basis: 'overdue' }, today)
+      } else {
+        addTotals(overdue, invoice.amountDue)
+      }
+    } else if (due.day > horizonEnd) {
+      addTotals(beyondHorizon, invoice.amountDue)
+    } else {
+      schedule({ ...item, basis: due.basis }, due.day)
+    }
+  }
+
+  if (scenario.includeExpected) {
+    for (const cadence of cadences) {
+      if (!(cadence.typicalAmount > 0)) continue
+      for (const issueDay of expectedIssueDays(cadence, horizonEnd)) {
+        const dueDay = issueDay + cadence.dueLagDays
+        // Bills that should already have been paid are missing, not upcoming
+        if (dueDay < today || dueDay > horizonEnd) continue
+        schedule({
+          kind: 'expected',
+          id: `expected:${cadence.key}:${dayToIso(issueDay)}`,
+          invoiceNumber: null,
+          vendorName: cadence.vendorName,
+          vendorId: cadence.vendorId,
+          category: cadence.category,
+          amount: cadence.typicalAmount,
+          basis: 'recurring',
+        }, dueDay)
+      }
+    }
+  }
+
+  items.sort((a, b) => a.payDate.localeCompare(b.payDate) || b.amount - a.amount)
+
+  let cumulative = 0
+  const weeks: ForecastWeek[] = Array.from({ length: weekCount }, (_, index) => {
+    const weekItems = items.filter((item) => item.weekIndex === index)
+    const outstanding = weekItems.filter((item) => item.kind === 'outstanding').reduce((sum, item) => sum + item.amount, 0)
+    const expected = weekItems.filter((item) => item.kind === 'expected').reduce((sum, item) => sum + item.amount, 0)
+    cumulative += outstanding + expected
+    return {
+      index,
+      weekStart: dayToIso(firstWeek + index * 7),
+      weekEnd: dayToIso(firstWeek + index * 7 + 6),
+      outstanding: round(outstanding),
+      expected: round(expected),
+      total: round(outstanding + expected),
+      count: weekItems.length,
+      cumulative: round(cumulative),
+    }
+  })
+
+  const outstandingTotal = weeks.reduce((sum, week) => sum + week.outstanding, 0)
+  const expectedTotal = weeks.reduce((sum, week) => sum + week.expected, 0)
+  const rounded = (totals: ForecastTotals): ForecastTotals => ({ amount: round(totals.amount), count: totals.count })
+
+  return {
+    scenario,
+    weeks,
+    overdue: rounded(overdue),
+    deferred: rounded(deferred),
+    beyondHorizon: rounded(beyondHorizon),
+    unscheduled: rounded(unscheduled),
+    totals: {
+      outstanding: round(outstandingTotal),
+      expected: round(expectedTotal),
+      total: round(outstandingTotal + expectedTotal),
+    },
+    items,
+  }
+}
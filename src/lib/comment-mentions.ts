@@ -0,0 +1,47 @@
+/**
+ * @mention parsing for invoice comments, shared by the API (which stores the
+ * mentioned handles) and the comments panel (which highlights them).
+ *
+ * A handle is either a plain name (`@sam`, `@sam.lee`) or an email address
+ * (`@sam@example.com`). Handles are compared lowercased.
+ */
+
+// Preceded by start of text or whitespace so "sam@example.com" is not a mention
+const MENTION_PATTERN = /(^|\s)@([a-z0-9][\w.+-]*(?:@[a-z0-9-]+(?:\.[a-z0-9-]+)+)?)/gi
+
+export interface CommentSegment {
+  text: string
+  mention: boolean
+}
+
+function trimHandle(handle: string): string {
+  // Sentence punctuation after a mention is not part of the handle
+  return handle.replace(/[.+-]+$/, '')
+}
+
+/** Unique, lowercased handles mentioned in a comment body, in order of appearance. */
+export function extractMentions(body: string): string[] {
+  const mentions: string[] = []
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const handle = trimHandle(match[2]).toLowerCase()
+    if (handle && !mentions.includes(handle)) mentions.push(handle)
+  }
+  return mentions
+}
+
+/** Split a comment body into plain text and @mention segments for rendering. */
+export function splitMentions(body: string): CommentSegment[] {
+  const segments: CommentSegment[] = []
+  let cursor = 0
+
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const handle = trimHandle(match[2])
+    const start = (match.index ?? 0) + match[1].length
+    if (start > cursor) segments.push({ text: body.slice(cursor, start), mention: false })
+    segments.push({ text: `@${handle}`, mention: true })
+    cursor = start + handle.length + 1
+  }
+
+  if (cursor < body.length) segments.push({ text: body.slice(cursor), mention: false })
+  return segments
+}
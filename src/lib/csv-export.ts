@@ -1,4 +1,5 @@
-import { Invoice } from '@/lib/types'
+import type { CashflowForecast, ForecastBasis } from '@/lib/cashflow-forecast'
+import { AGING_BUCKETS, agingBucketLabel, type AgingReport } from '@/lib/payables-aging'
 import { formatCurrency } from '@/lib/utils'
 
 export interface CsvExportOptions {
@@ -6,49 +7,118 @@ export interface CsvExportOptions {
   delimiter?: string
 }
 
-export function generateInvoicesCsv(
-  invoices: Invoice[],
+export type AgingCsvGrouping = 'invoice' | 'vendor' | 'category'
+
+/**
+ * Aged payables as CSV: one row per outstanding invoice, or one row per
+ * vendor or category with a column for each aging bucket.
+ */
+export function generateAgingCsv(
+  report: AgingReport,
+  groupBy: AgingCsvGrouping = 'invoice',
   options: CsvExportOptions = {}
 ): string {
   const { includeHeaders = true, delimiter = ',' } = options
 
-  const headers = [
-    'Invoice Number',
-    'Vendor Name',
-    'Vendor Email',
-    'Amount',
-    'Status',
-    'Category',
-    'Due Date',
-    'Received Date',
-    'Description',
-    'Invoice URL'
-  ]
-
-  const rows: string[] = []
+  const headers = groupBy === 'invoice'
+    ? ['Invoice Number', 'Vendor Name', 'Category', 'Due Date', 'Days Past Due', 'Aging Bucket', 'Amount Due']
+    : [groupBy === 'vendor' ? 'Vendor Name' : 'Category', ...AGING_BUCKETS.map(bucket => bucket.label), 'Total', 'Invoices']
+
+  const rows: string[][] = groupBy === 'invoice'
+    ? report.invoices.map(invoice => [
+        invoice.invoiceNumber || '',
+        invoice.vendorName || '',
+        invoice.category || '',
+        invoice.dueDate ? new Date(invoice.dueDate).toLocaleDateString('en-AU') : '',
+        String(invoice.daysPastDue),
+        agingBucketLabel(invoice.bucket),
+        formatCurrency(invoice.amountDue),
+      ])
+    : (groupBy === 'vendor' ? report.byVendor : report.byCategory).map(row => [
+        row.name,
+        ...AGING_BUCKETS.map(bucket => formatCurrency(row.buckets[bucket.key])),
+        formatCurrency(row.total),
+        String(row.count),
+      ])
 
   if (includeHeaders) {
-    rows.push(headers.map(header => escapeCSVValue(header, delimiter)).join(delimiter))
+    rows.unshift(headers)
   }
 
-  for (const invoice of invoices) {
-    const row = [
-      invoice.invoiceNumber || '',
-      invoice.vendorName || '',
-      invoice.vendorEmail || '',
-      formatCurrency(invoice.amount || 0),
-      invoice.status || '',
-      invoice.category || '',
-      invoice.dueDate ? new Date(invoice.dueDate).toLocaleDateString('en-AU') : '',
-      invoice.receivedDate ? new Date(invoice.receivedDate).toLocaleDateString('en-AU') : '',
-      invoice.description || '',
-      invoice.invoiceUrl || ''
-    ]
-
-    rows.push(row.map(value => escapeCSVValue(String(value), delimiter)).join(delimiter))
+  return rows.map(row => row.map(value => escapeCSVValue(value, delimiter)).join(delimiter)).join('\n')
+}
+
+export type ForecastCsvGrouping = 'week' | 'invoice'
+
+const FORECAST_BASIS_LABELS: Record<ForecastBasis, string> = {
+  due_date: 'Due date',
+  payment_terms: 'Payment terms',
+  default_terms: 'Default 30-day terms',
+  overdue: 'Overdue, paid now',
+  recurring: 'Recurring vendor',
+}
+
+/**
+ * Cash-flow forecast as CSV: one row per week, or one row per scheduled
+ * payment (outstanding and expected invoices).
+ */
+export function generateForecastCsv(
+  forecast: CashflowForecast,
+  groupBy: ForecastCsvGrouping = 'week',
+  options: CsvExportOptions = {}
+): string {
+  const { includeHeaders = true, delimiter = ',' } = options
+  const formatDay = (value: string) => new Date(`${value}T00:00:00Z`).toLocaleDateString('en-AU', { timeZone: 'UTC' })
+
+  const headers = groupBy === 'week'
+    ? ['Week Starting', 'Week Ending', 'Outstanding', 'Expected', 'Total', 'Payments', 'Cumulative']
+    : ['Pay Date', 'Week Starting', 'Type', 'Invoice Number', 'Vendor Name', 'Category', 'Basis', 'Amount']
+
+  const rows: string[][] = groupBy === 'week'
+    ? forecast.weeks.map(week => [
+        formatDay(week.weekStart),
+        formatDay(week.weekEnd),
+        formatCurrency(week.outstanding),
+        formatCurrency(week.expected),
+        formatCurrency(week.total),
+        String(week.count),
+        formatCurrency(week.cumulative),
+      ])
+    : forecast.items.map(item => [
+        formatDay(item.payDate),
+        formatDay(forecast.weeks[item.weekIndex]?.weekStart ?? item.payDate),
+        item.kind === 'expected' ? 'Expected' : 'Outstanding',
+        item.invoiceNumber || '',
+        item.vendorName || '',
+        item.category || '',
+        FORECAST_BASIS_LABELS[item.basis],
+        formatCurrency(item.amount),
+      ])
+
+  if (includeHeaders) {
+    rows.unshift(headers)
+  }
+
+  return rows.map(row => row.map(value => escapeCSVValue(value, delimiter)).join(delimiter)).join('\n')
+}
+
+/**
+ * Any table as CSV. Numbers are written unformatted so spreadsheets treat
+ * them as numbers; empty cells stay empty.
+ */
+export function generateTableCsv(
+  headers: string[],
+  rows: Array<Array<string | number | null | undefined>>,
+  options: CsvExportOptions = {}
+): string {
+  const { includeHeaders = true, delimiter = ',' } = options
+
+  const lines = rows.map(row => row.map(value => escapeCSVValue(value === null || value === undefined ? '' : String(value), delimiter)).join(delimiter))
+  if (includeHeaders) {
+    lines.unshift(headers.map(header => escapeCSVValue(header, delimiter)).join(delimiter))
   }
 
-  return rows.join('\n')
+  return lines.join('\n')
 }
 
 function escapeCSVValue(value: string, delimiter: string): string {
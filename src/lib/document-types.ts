@@ -0,0 +1,106 @@
+/**
+ * Content-type sniffing for invoice documents served through the preview
+ * proxy. Storage backends (OneDrive, Xero, buckets) often report a generic
+ * or wrong content type, so the first bytes decide how a document is shown.
+ */
+
+export type DocumentKind = 'pdf' | 'image' | 'other'
+
+export interface SniffedDocument {
+  contentType: string
+  kind: DocumentKind
+}
+
+/** Bytes read before deciding; PDFs may have junk before the header. */
+export const SNIFF_BYTES = 1024
+
+const SIGNATURES: Array<{ bytes: Array<number | null>; contentType: string; kind: DocumentKind }> = [
+  { bytes: [0x25, 0x50, 0x44, 0x46, 0x2d], contentType: 'application/pdf', kind: 'pdf' }, // %PDF-
+  { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], contentType: 'image/png', kind: 'image' },
+  { bytes: [0xff, 0xd8, 0xff], contentType: 'image/jpeg', kind: 'image' },
+  { bytes: [0x47, 0x49, 0x46, 0x38], contentType: 'image/gif', kind: 'image' }, // GIF8
+  { bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50], contentType: 'image/webp', kind: 'image' }, // RIFF....WEBP
+  { bytes: [0x49, 0x49, 0x2a, 0x00], contentType: 'image/tiff', kind: 'image' },
+  { bytes: [0x4d, 0x4d, 0x00, 0x2a], contentType: 'image/tiff', kind: 'image' },
+]
+
+const PDF: SniffedDocument = { contentType: 'application/pdf', kind: 'pdf' }
+const OTHER: SniffedDocument = { contentType: 'application/octet-stream', kind: 'other' }
+
+/**
+ * Work out what a document is from its first bytes. Declared content types
+ * and file extensions are deliberately ignored: anything not recognised is
+ * served as an opaque download, never as HTML or script.
+ */
+export function sniffDocumentType(head: Uint8Array): SniffedDocument {
+  for (const signature of SIGNATURES) {
+    if (head.length < signature.bytes.length) continue
+    if (signature.bytes.every((byte, index) => byte === null || head[index] === byte)) {
+      return { contentType: signature.contentType, kind: signature.kind }
+    }
+  }
+
+  // Some PDF generators write a few bytes of junk before the header
+  const prefix = String.fromCharCode(...Array.from(head.subarray(0, SNIFF_BYTES)))
+  if (prefix.includes('%PDF-')) return PDF
+
+  return OTHER
+}
+
+/**
+ * Approximate page count of a PDF by counting page objects. Good enough for
+ * viewer navigation; returns null when no pages are found (e.g. compressed
+ * object streams).
+ */
+export function countPdfPages(bytes: Uint8Array): number | null {
+  const text = new TextDecoder('latin1').decode(bytes)
+  const matches = text.match(/\/Type\s*\/Page(?![a-zA-Z])/g)
+  if (matches?.length) return matches.length
+
+  // Fall back to the page tree's /Count in PDFs that keep pages in object streams
+  const counts = Array.from(text.matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)/g), (match) => Number(match[1]))
+  return counts.length ? Math.max(...counts) : null
+}
+
+/** File name for Content-Disposition, taken from the stored URL or path. */
+export function documentFilename(source: string, fallback: string): string {
+  const last = source.split(/[?#]/)[0].split('/').pop() ?? ''
+  let decoded = last
+  try {
+    decoded = decodeURIComponent(last)
+  } catch {
+    // keep the raw segment
+  }
+  const cleaned = safeFilename(decoded)
+  return cleaned && cleaned.includes('.') ? cleaned : safeFilename(fallback)
+}
+
+function safeFilename(name: string): string {
+  return name.replace(/[^\w.\- ]+/g, '_').trim()
+}
+
+/** Supabase storage bucket holding invoice documents; `storage://` sources must name it. */
+export function invoiceDocumentsBucket(): string {
+  return process.env.INVOICE_DOCUMENTS_BUCKET || 'invoice-documents'
+}
+
+/** Bucket named by a `storage://<bucket>/<path>` source; null for other sources. */
+export function storageBucketOf(source: string): string | null {
+  const trimmed = source.trim()
+  if (!/^storage:/i.test(trimmed)) return null
+  try {
+    return new URL(trimmed).hostname
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * Whether a document source may be stored on an invoice: `storage://` sources
+ * are only accepted in the invoice documents bucket, since the preview proxy
+ * reads them with the service role.
+ */
+export function isAllowedDocumentSource(source: string): boolean {
+  const bucket = storageBucketOf(source)
+  return bucket === null || bucket === invoiceDocumentsBucket()
+}
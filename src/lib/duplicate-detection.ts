@@ -0,0 +1,164 @@
+/**
+ * Scoring for likely duplicate invoices, e.g. the same bill arriving once by
+ * email and once through the postal pipeline. Pure so it can run in the
+ * detection service and in tests; persistence and the review queue live in
+ * src/lib/server/invoice-duplicates.ts.
+ */
+
+import { normaliseVendorName } from './vendor-matching'
+
+export type DuplicateSignal = 'file_checksum' | 'supplier' | 'invoice_number' | 'amount' | 'date'
+
+export interface DuplicateSubject {
+  id: string
+  vendorName: string
+  invoiceNumber: string
+  amount: number
+  issueDate: string | null
+  createdAt?: string | null
+  fileChecksum?: string | null
+}
+
+export interface DuplicateScore {
+  /** 0..1; a matching file checksum always scores 1 */
+  score: number
+  signals: DuplicateSignal[]
+}
+
+export interface DuplicatePair extends DuplicateScore {
+  /** The earlier invoice, treated as the original */
+  invoiceId: string
+  /** The later invoice, treated as the possible duplicate */
+  duplicateId: string
+}
+
+/** Pairs scoring at or above this are queued for review */
+export const DUPLICATE_THRESHOLD = 0.6
+
+const WEIGHTS: Record<Exclude<DuplicateSignal, 'file_checksum'>, number> = {
+  supplier: 0.25,
+  invoice_number: 0.35,
+  amount: 0.25,
+  date: 0.15,
+}
+
+// Issue dates further apart than this contribute nothing
+const DATE_WINDOW_DAYS = 30
+
+// Buckets larger than this are skipped when pairing; they are generic keys
+// (e.g. a common amount) that would otherwise compare everything
+const MAX_BUCKET_SIZE = 200
+
+/** `INV-00012`, `inv 12` and `INV12` all normalise to `INV12` */
+export function normaliseInvoiceNumber(value: string): string {
+  return value
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '')
+    .replace(/^([A-Z]*)0+(?=\d)/, '$1')
+}
+
+function daysBetween(a: string, b: string): number | null {
+  const first = new Date(a).getTime()
+  const second = new Date(b).getTime()
+  if (Number.isNaN(first) || Number.isNaN(second)) return null
+  return Math.abs(first - second) / (1000 * 60 * 60 * 24)
+}
+
+export function scoreDuplicatePair(a: DuplicateSubject, b: DuplicateSubject): DuplicateScore {
+  const signals: DuplicateSignal[] = []
+  let score = 0
+
+  const vendorA = normaliseVendorName(a.vendorName)
+  if (vendorA && vendorA === normaliseVendorName(b.vendorName)) {
+    score += WEIGHTS.supplier
+    signals.push('supplier')
+  }
+
+  const numberA = normaliseInvoiceNumber(a.invoiceNumber)
+  if (numberA && numberA === normaliseInvoiceNumber(b.invoiceNumber)) {
+    score += WEIGHTS.invoice_number
+    signals.push('invoice_number')
+  }
+
+  const amountGap = Math.abs(a.amount - b.amount)
+  if (amountGap < 0.005) {
+    score += WEIGHTS.amount
+    signals.push('amount')
+  } else if (amountGap <= Math.max(Math.abs(a.amount), Math.abs(b.amount)) * 0.01) {
+    // Within 1%: rounding, surcharges or a re-issued bill
+    score += WEIGHTS.amount / 2
+  }
+
+  const days = a.issueDate && b.issueDate ? daysBetween(a.issueDate, b.issueDate) : null
+  if (days !== null && days < DATE_WINDOW_DAYS) {
+    score += WEIGHTS.date * (1 - days / DATE_WINDOW_DAYS)
+    if (days <= 3) signals.push('date')
+  }
+
+  if (a.fileChecksum && a.fileChecksum === b.fileChecksum) {
+    return { score: 1, signals: ['file_checksum', ...signals] }
+  }
+
+  return { score: Math.round(score * 100) / 100, signals }
+}
+
+function isEarlier(a: DuplicateSubject, b: DuplicateSubject): boolean {
+  const createdA = a.createdAt ?? ''
+  const createdB = b.createdAt ?? ''
+  if (createdA !== createdB) return createdA < createdB
+  return a.id < b.id
+}
+
+function pairKeys(invoice: DuplicateSubject): string[] {
+  const keys: string[] = []
+  if (invoice.fileChecksum) keys.push(`checksum:${invoice.fileChecksum}`)
+  const vendor = normaliseVendorName(invoice.vendorName)
+  if (vendor) keys.push(`vendor:${vendor}`)
+  const number = normaliseInvoiceNumber(invoice.invoiceNumber)
+  if (number) keys.push(`number:${number}`)
+  keys.push(`amount:${Math.round(invoice.amount)}`)
+  return keys
+}
+
+/**
+ * Score every plausible pair in `invoices` and return those at or above the
+ * threshold, highest score first. Invoices are only compared when they share
+ * a checksum, supplier, invoice number or whole-dollar amount, which keeps
+ * the work far below all-pairs on real data.
+ */
+export function findDuplicatePairs(
+  invoices: DuplicateSubject[],
+  threshold: number = DUPLICATE_THRESHOLD,
+): DuplicatePair[] {
+  const buckets = new Map<string, DuplicateSubject[]>()
+  for (const invoice of invoices) {
+    for (const key of pairKeys(invoice)) {
+      const bucket = buckets.get(key)
+      if (bucket) bucket.push(invoice)
+      else buckets.set(key, [invoice])
+    }
+  }
+
+  const pairs: DuplicatePair[] = []
+  const compared = new Set<string>()
+  for (const [key, bucket] of buckets) {
+    if (bucket.length < 2 || (bucket.length > MAX_BUCKET_SIZE && !key.startsWith('checksum:'))) continue
+
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [first, second] = isEarlier(bucket[i], bucket[j]) ? [bucket[i], bucket[j]] : [bucket[j], bucket[i]]
+        if (first.id === second.id) continue
+        const pairKey = `${first.id}|${second.id}`
+        if (compared.has(pairKey)) continue
+        compared.add(pairKey)
+
+        const result = scoreDuplicatePair(first, second)
+        if (result.score >= threshold) {
+          pairs.push({ invoiceId: first.id, duplicateId: second.id, ...result })
+        }
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.score - a.score)
+}
@@ -0,0 +1,217 @@
+import { formatInTimeZone } from 'date-fns-tz'
+
+import { REPORT_TIMEZONE } from './report-schedule'
+import { formatCurrency } from './utils'
+
+/**
+ * Invoice exports: the columns a user can pick, in the order they pick them,
+ * written as CSV, XLSX or JSON Lines. The encoders (server-only, in
+ * `lib/server/invoice-export-encoder`) work a page of invoices at a time so
+ * the export route can stream large result sets and background jobs can
+ * report progress. Amount columns are written twice, as a plain number
+ * spreadsheets can sum and as the formatted currency shown in the app.
+ */
+
+export const INVOICE_EXPORT_FORMATS = ['csv', 'xlsx', 'jsonl'] as const
+export type InvoiceExportFormat = (typeof INVOICE_EXPORT_FORMATS)[number]
+
+export const INVOICE_EXPORT_JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled', 'expired'] as const
+export type InvoiceExportJobStatus = (typeof INVOICE_EXPORT_JOB_STATUSES)[number]
+
+/** Finished exports can be downloaded again for this long. */
+export const INVOICE_EXPORT_RETENTION_DAYS = 7
+
+export const INVOICE_EXPORT_COLUMN_IDS = [
+  'invoiceNumber',
+  'documentType',
+  'vendorName',
+  'vendorEmail',
+  'vendorAbn',
+  'status',
+  'category',
+  'description',
+  'issueDate',
+  'dueDate',
+  'receivedDate',
+  'paidDate',
+  'amount',
+  'subtotal',
+  'gst',
+  'amountDue',
+  'paymentTerms',
+  'paymentReference',
+  'invoiceUrl',
+  'originalInvoiceId',
+  'id',
+] as const
+export type InvoiceExportColumnId = (typeof INVOICE_EXPORT_COLUMN_IDS)[number]
+
+/** The columns of the old fixed CSV export, used when none are picked. */
+export const DEFAULT_INVOICE_EXPORT_COLUMNS: InvoiceExportColumnId[] = [
+  'documentType',
+  'invoiceNumber',
+  'vendorName',
+  'vendorEmail',
+  'amount',
+  'amountDue',
+  'status',
+  'category',
+  'dueDate',
+  'receivedDate',
+  'description',
+  'invoiceUrl',
+]
+
+/** The invoice fields exports read; invoice records from the repository fit it. */
+export interface ExportInvoice {
+  id: string
+  invoiceNumber: string
+  documentType?: string | null
+  vendorName: string
+  vendorEmail?: string | null
+  vendorAbn?: string | null
+  status: string
+  category: string
+  description?: string | null
+  issueDate: string | null
+  dueDate: string | null
+  receivedDate?: string | null
+  paidDate?: string | null
+  amount: number
+  subtotal?: number | null
+  gst?: number | null
+  amountDue: number
+  paymentTerms?: string | null
+  paymentReference?: string | null
+  invoiceUrl?: string | null
+  originalInvoiceId?: string | null
+}
+
+type ExportValue = string | number | null
+
+interface ExportColumnSpec {
+  header: string
+  width: number
+  /** Amounts are written as a number plus a formatted copy */
+  amount?: boolean
+  value: (invoice: ExportInvoice) => ExportValue
+}
+
+export interface InvoiceExportColumn {
+  id: InvoiceExportColumnId
+  header: string
+}
+
+/** One written field: a picked column, or the formatted half of an amount column. */
+export interface InvoiceExportField {
+  /** Key in JSON Lines output */
+  key: string
+  header: string
+  width: number
+  numberFormat?: string
+  value: (invoice: ExportInvoice) => ExportValue
+}
+
+export const INVOICE_STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  in_review: 'In review',
+  approved: 'Approved',
+  paid: 'Paid',
+  overdue: 'Overdue',
+}
+
+const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  invoice: 'Invoice',
+  credit_note: 'Credit Note',
+  adjustment: 'Adjustment',
+}
+
+const AMOUNT_FORMAT = '#,##0.00'
+
+// Dates are exported as the calendar day, YYYY-MM-DD
+function day(value: string | null | undefined): string | null {
+  return value ? value.slice(0, 10) : null
+}
+
+function text(value: string | null | undefined): string | null {
+  return value || null
+}
+
+const COLUMN_SPECS: Record<InvoiceExportColumnId, ExportColumnSpec> = {
+  invoiceNumber: { header: 'Invoice Number', width: 18, value: (invoice) => text(invoice.invoiceNumber) },
+  documentType: {
+    header: 'Document Type',
+    width: 14,
+    value: (invoice) => DOCUMENT_TYPE_LABELS[invoice.documentType ?? 'invoice'] ?? 'Invoice',
+  },
+  vendorName: { header: 'Vendor Name', width: 32, value: (invoice) => text(invoice.vendorName) },
+  vendorEmail: { header: 'Vendor Email', width: 28, value: (invoice) => text(invoice.vendorEmail) },
+  vendorAbn: { header: 'Vendor ABN', width: 16, value: (invoice) => text(invoice.vendorAbn) },
+  status: { header: 'Status', width: 12, value: (invoice) => INVOICE_STATUS_LABELS[invoice.status] ?? invoice.status },
+  category: { header: 'Category', width: 18, value: (invoice) => text(invoice.category) },
+  description: { header: 'Description', width: 40, value: (invoice) => text(invoice.description) },
+  issueDate: { header: 'Issue Date', width: 12, value: (invoice) => day(invoice.issueDate) },
+  dueDate: { header: 'Due Date', width: 12, value: (invoice) => day(invoice.dueDate) },
+  receivedDate: { header: 'Received Date', width: 12, value: (invoice) => day(invoice.receivedDate) },
+  paidDate: { header: 'Paid Date', width: 12, value: (invoice) => day(invoice.paidDate) },
+  amount: { header: 'Amount', width: 14, amount: true, value: (invoice) => invoice.amount },
+  subtotal: { header: 'Subtotal', width: 14, amount: true, value: (invoice) => invoice.subtotal ?? null },
+  gst: { header: 'GST', width: 12, amount: true, value: (invoice) => invoice.gst ?? null },
+  amountDue: { header: 'Amount Due', width: 14, amount: true, value: (invoice) => invoice.amountDue },
+  paymentTerms: { header: 'Payment Terms', width: 14, value: (invoice) => text(invoice.paymentTerms) },
+  paymentReference: { header: 'Payment Reference', width: 20, value: (invoice) => text(invoice.paymentReference) },
+  invoiceUrl: { header: 'Invoice URL', width: 40, value: (invoice) => text(invoice.invoiceUrl) },
+  originalInvoiceId: { header: 'Original Invoice ID', width: 38, value: (invoice) => text(invoice.originalInvoiceId) },
+  id: { header: 'Invoice ID', width: 38, value: (invoice) => invoice.id },
+}
+
+/** Every exportable column, in the default picker order. */
+export const INVOICE_EXPORT_COLUMNS: InvoiceExportColumn[] = INVOICE_EXPORT_COLUMN_IDS.map((id) => ({
+  id,
+  header: COLUMN_SPECS[id].header,
+}))
+
+export const INVOICE_EXPORT_FORMAT_LABELS: Record<InvoiceExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (.xlsx)',
+  jsonl: 'JSON Lines',
+}
+
+/** The fields written for the picked columns, in order, without repeats. */
+export function invoiceExportFields(columns: InvoiceExportColumnId[]): InvoiceExportField[] {
+  return Array.from(new Set(columns)).flatMap((id): InvoiceExportField[] => {
+    const spec = COLUMN_SPECS[id]
+    if (!spec.amount) return [{ key: id, header: spec.header, width: spec.width, value: spec.value }]
+    return [
+      { key: id, header: spec.header, width: spec.width, numberFormat: AMOUNT_FORMAT, value: spec.value },
+      {
+        key: `${id}Formatted`,
+        header: `${spec.header} (formatted)`,
+        width: spec.width + 2,
+        value: (invoice: ExportInvoice) => {
+          const amount = spec.value(invoice)
+          return typeof amount === 'number' ? formatCurrency(amount) : null
+        },
+      },
+    ]
+  })
+}
+
+export function isExportJobActive(status: InvoiceExportJobStatus): boolean {
+  return status === 'queued' || status === 'running'
+}
+
+/**
+ * How far a background export has got, 0-100, or null while the total is
+ * unknown. The total is counted when the job starts, so invoices added since
+ * can take the count past it; running jobs stay below 100 until they finish.
+ */
+export function exportJobProgress(job: { status: InvoiceExportJobStatus; rowsWritten: number; rowsTotal: number | null }): number | null {
+  if (job.status === 'completed') return 100
+  if (!job.rowsTotal) return job.status === 'queued' ? 0 : null
+  return Math.min(99, Math.floor((job.rowsWritten / job.rowsTotal) * 100))
+}
+
+export function invoiceExportFilename(format: InvoiceExportFormat, generatedAt: Date): string {
+  return `invoices-export-${formatInTimeZone(generatedAt, REPORT_TIMEZONE, 'yyyy-MM-dd')}.${format}`
+}
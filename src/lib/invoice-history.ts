@@ -0,0 +1,160 @@
+/**
+ * Invoice change history read from the audit log.
+ *
+ * Each audit entry records who made a change, where from (`source`), the
+ * request it belongs to and, per field, the value before and after. Entries
+ * written before field-level history only carry `old_*`/`new_*` pairs (for
+ * example `old_status`/`new_status`); `toHistoryEvent` reads both shapes so
+ * the timeline covers the whole history.
+ */
+
+import type { AuditLog } from './types'
+
+export const AUDIT_SOURCES = ['ui', 'chat', 'api', 'ingestion'] as const
+
+export type AuditSource = (typeof AUDIT_SOURCES)[number]
+
+export interface FieldChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+/** Fields edited directly through `PATCH /api/invoices/[id]`; a change to one can be reverted on its own. */
+export const EDITABLE_INVOICE_FIELDS = ['category', 'description', 'notes', 'issueDate', 'dueDate', 'paymentTerms'] as const
+
+export type EditableInvoiceField = (typeof EDITABLE_INVOICE_FIELDS)[number]
+
+export interface HistoryEvent {
+  id: string
+  at: string | null
+  action: string
+  userId: string | null
+  actor: string | null
+  source: AuditSource | null
+  requestId: string | null
+  fields: FieldChange[]
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  amountDue: 'Amount due',
+  category: 'Category',
+  description: 'Description',
+  notes: 'Notes',
+  note: 'Note',
+  issueDate: 'Issue date',
+  dueDate: 'Due date',
+  paymentTerms: 'Payment terms',
+  paymentDate: 'Payment date',
+  paymentReference: 'Payment reference',
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  CREATE: 'Created',
+  INVOICE_UPDATED: 'Edited',
+  INVOICE_DELETED: 'Deleted',
+  FIELD_REVERTED: 'Reverted',
+  STATUS_CHANGE: 'Status changed',
+  APPROVAL_RECORDED: 'Approval recorded',
+  INVOICE_REJECTED: 'Rejected',
+  PAYMENT_RECORDED: 'Payment recorded',
+  CREDIT_APPLIED: 'Credit applied',
+  NOTE_ADDED: 'Note added',
+  DUPLICATE_MERGED: 'Merged as duplicate',
+  DUPLICATE_LINKED: 'Linked as duplicate',
+  DUPLICATE_DISMISSED: 'Duplicate dismissed',
+}
+
+export function isAuditSource(value: unknown): value is AuditSource {
+  return typeof value === 'string' && (AUDIT_SOURCES as readonly string[]).includes(value)
+}
+
+export function isEditableInvoiceField(field: string): field is EditableInvoiceField {
+  return (EDITABLE_INVOICE_FIELDS as readonly string[]).includes(field)
+}
+
+function humanise(value: string): string {
+  const words = value
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/_/g, ' ')
+    .toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+export function fieldLabel(field: string): string {
+  return FIELD_LABELS[field] ?? humanise(field)
+}
+
+export function actionLabel(action: string): string {
+  return ACTION_LABELS[action] ?? humanise(action)
+}
+
+function camelCase(value: string): string {
+  return value.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase())
+}
+
+// Empty strings and missing values are the same "no value", and a date
+// stored as midnight is the same as the plain date
+function normalise(value: unknown): unknown {
+  if (value === undefined || value === '') return null
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T00:00:00(\.0+)?(Z|[+-]00:?00)?$/.test(value)) {
+    return value.slice(0, 10)
+  }
+  return value
+}
+
+export function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalise(a)) === JSON.stringify(normalise(b))
+}
+
+/** The listed fields whose value differs between `before` and `after`. */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: readonly string[],
+): FieldChange[] {
+  return fields
+    .filter((field) => field in after && !sameValue(before[field], after[field]))
+    .map((field) => ({ field, before: normalise(before[field]), after: normalise(after[field]) }))
+}
+
+// Older entries record a change as old_<field>/new_<field> pairs
+function legacyFieldChanges(changes: Record<string, any>): FieldChange[] {
+  return Object.keys(changes)
+    .filter((key) => key.startsWith('new_') && `old_${key.slice(4)}` in changes)
+    .map((key) => {
+      const name = key.slice(4)
+      return { field: camelCase(name), before: normalise(changes[`old_${name}`]), after: normalise(changes[key]) }
+    })
+    .filter((change) => !sameValue(change.before, change.after))
+}
+
+export function toHistoryEvent(entry: AuditLog): HistoryEvent {
+  const changes = entry.changes ?? {}
+  const source = changes.source === 'chat_assistant' ? 'chat' : changes.source
+
+  return {
+    id: entry.id,
+    at: entry.createdAt,
+    action: entry.action,
+    userId: entry.userId,
+    actor: entry.userEmail,
+    source: isAuditSource(source) ? source : null,
+    requestId: typeof changes.request_id === 'string' ? changes.request_id : null,
+    fields: Array.isArray(changes.fields) ? changes.fields : legacyFieldChanges(changes),
+  }
+}
+
+/** Whether one field change in an event can be reverted on its own. */
+export function canRevertField(event: HistoryEvent, field: string): boolean {
+  return isEditableInvoiceField(field) && event.fields.some((change) => change.field === field)
+}
+
+/** Display form of a recorded value. */
+export function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'number') return value.toLocaleString('en-AU', { maximumFractionDigits: 2 })
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10)
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
@@ -0,0 +1,60 @@
+/**
+ * Invoice line items as captured at ingestion. The extraction pipelines store
+ * them as a `line_items` array (a JSON column, or JSON text in older imports)
+ * of `description`, `quantity`, `unit_price`, `tax_rate` and `line_total`;
+ * rows imported from the legacy sheets only carry the first line, flattened
+ * into `line_1_desc`, `line_1_qty` and `line_1_unit_price`.
+ */
+
+export interface InvoiceLineItem {
+  description: string
+  quantity: number | null
+  unitPrice: number | null
+  taxRate: number | null
+  /** Line total; quantity × unit price when the line did not record one */
+  amount: number | null
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null
+  const parsed = Number(typeof value === 'string' ? value.replace(/[$,\s]/g, '') : value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function toLineItem(raw: Record<string, any>): InvoiceLineItem | null {
+  const description = String(raw.description ?? raw.desc ?? '').trim()
+  const quantity = toNumberOrNull(raw.quantity ?? raw.qty)
+  const unitPrice = toNumberOrNull(raw.unit_price ?? raw.unitPrice)
+  const recorded = toNumberOrNull(raw.line_total ?? raw.lineTotal ?? raw.amount)
+  const amount = recorded ?? (quantity !== null && unitPrice !== null ? Math.round(quantity * unitPrice * 100) / 100 : null)
+
+  if (!description && amount === null && unitPrice === null) return null
+  return { description, quantity, unitPrice, taxRate: toNumberOrNull(raw.tax_rate ?? raw.taxRate), amount }
+}
+
+function parseArray(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value
+  if (typeof value !== 'string' || !value.trim().startsWith('[')) return []
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+/** Line items of a raw invoice row; empty when none were captured. */
+export function lineItemsFromRow(row: Record<string, any>): InvoiceLineItem[] {
+  const items = parseArray(row.line_items ?? row.lineItems)
+    .filter((item): item is Record<string, any> => typeof item === 'object' && item !== null)
+    .map(toLineItem)
+    .filter((item): item is InvoiceLineItem => item !== null)
+  if (items.length > 0) return items
+
+  const first = toLineItem({
+    description: row.line_1_desc,
+    quantity: row.line_1_qty,
+    unit_price: row.line_1_unit_price,
+  })
+  return first ? [first] : []
+}
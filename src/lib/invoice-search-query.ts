@@ -0,0 +1,296 @@
+/**
+ * Structured search syntax for the invoice search box:
+ *
+ *   vendor:"origin energy" amount>1200 due<2025-11-01 status:overdue
+ *
+ * `field:value` terms (quote values containing spaces) and comparisons on
+ * amounts and dates become filters; everything else stays free text for the
+ * full-text search. The API parses its `search` parameter with
+ * `parseSearchQuery`, the search box uses the same parser to turn a submitted
+ * query into filter chips, and `formatSearchQuery` writes filters back as
+ * syntax for the URL.
+ */
+
+import { AGING_BUCKETS, isAgingBucket, type AgingBucketKey } from './payables-aging'
+import { INVOICE_STATUSES, isInvoiceStatus, type InvoiceStatus } from './invoice-status-machine'
+
+export type SearchOperator = ':' | '=' | '>' | '>=' | '<' | '<='
+
+export type SearchFieldKind = 'text' | 'status' | 'amount' | 'date' | 'aging'
+
+export interface SearchQueryField {
+  name: 'vendor' | 'category' | 'status' | 'amount' | 'date' | 'due' | 'aging'
+  aliases: readonly string[]
+  kind: SearchFieldKind
+  description: string
+}
+
+export const SEARCH_QUERY_FIELDS: readonly SearchQueryField[] = [
+  { name: 'vendor', aliases: ['supplier'], kind: 'text', description: 'Supplier name' },
+  { name: 'category', aliases: ['cat'], kind: 'text', description: 'Category' },
+  { name: 'status', aliases: ['is'], kind: 'status', description: 'pending, in_review, approved, paid or overdue' },
+  { name: 'amount', aliases: ['total'], kind: 'amount', description: 'Invoice total, e.g. amount>1200' },
+  { name: 'date', aliases: ['issued'], kind: 'date', description: 'Invoice date, e.g. date>=2025-07-01 or date:2025-07' },
+  { name: 'due', aliases: [], kind: 'date', description: 'Due date, e.g. due<2025-11-01' },
+  { name: 'aging', aliases: [], kind: 'aging', description: 'Days past due: current, 1-30, 31-60, 61-90 or 90+' },
+]
+
+/** Filters a search query can set. Dates are inclusive `YYYY-MM-DD` bounds. */
+export interface SearchQueryFilters {
+  vendors: string[]
+  categories: string[]
+  statuses: InvoiceStatus[]
+  amountMin?: number
+  amountMax?: number
+  dateFrom?: string
+  dateTo?: string
+  dueFrom?: string
+  dueTo?: string
+  aging?: AgingBucketKey
+}
+
+export interface SearchQueryError {
+  term: string
+  message: string
+}
+
+export interface ParsedSearchQuery extends SearchQueryFilters {
+  /** Free text left for the full-text search */
+  text: string
+  /** Terms that named a field but could not be applied; they are left out of the filters and the text */
+  errors: SearchQueryError[]
+}
+
+export interface SearchSuggestion {
+  label: string
+  description?: string
+  /** The whole input with the suggestion applied */
+  value: string
+}
+
+export interface SearchSuggestionSource {
+  vendors: string[]
+  categories: string[]
+}
+
+const TERM_PATTERN = /([a-z_]+)(>=|<=|:|=|>|<)("[^"]*"?|\S*)|"[^"]*"?|\S+/gi
+
+const STATUS_SYNONYMS: Record<string, InvoiceStatus> = {
+  review: 'in_review',
+  open: 'pending',
+  late: 'overdue',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function findField(name: string): SearchQueryField | undefined {
+  const key = name.toLowerCase()
+  return SEARCH_QUERY_FIELDS.find((field) => field.name === key || field.aliases.includes(key))
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"/, '').replace(/"$/, '').trim()
+}
+
+/** `YYYY-MM-DD` shifted by whole days. */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+// A day, month or year as the inclusive range of days it covers
+function dateRange(value: string): { start: string; end: string } | null {
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/.exec(value)
+  if (!match) return null
+  const [, year, month, day] = match
+  const start = `${year}-${month ?? '01'}-${day ?? '01'}`
+  if (Number.isNaN(Date.parse(`${start}T00:00:00Z`)) || addDays(start, 0) !== start) return null
+
+  if (day) return { start, end: start }
+  if (month) {
+    const nextMonth = Number(month) === 12 ? `${Number(year) + 1}-01-01` : `${year}-${String(Number(month) + 1).padStart(2, '0')}-01`
+    return { start, end: addDays(nextMonth, -1) }
+  }
+  return { start, end: `${year}-12-31` }
+}
+
+function parseAmount(value: string): number | null {
+  const parsed = Number(value.replace(/[$,]/g, ''))
+  return value.trim() !== '' && Number.isFinite(parsed) ? parsed : null
+}
+
+function parseStatus(value: string): InvoiceStatus | null {
+  const key = value.toLowerCase().replace(/[\s-]+/g, '_')
+  const status = STATUS_SYNONYMS[key] ?? key
+  return isInvoiceStatus(status) ? status : null
+}
+
+const laterOf = (a: string | undefined, b: string) => (a && a > b ? a : b)
+const earlierOf = (a: string | undefined, b: string) => (a && a < b ? a : b)
+const round = (value: number) => Math.round(value * 100) / 100
+
+function applyDate(
+  result: ParsedSearchQuery,
+  keys: ['dateFrom', 'dateTo'] | ['dueFrom', 'dueTo'],
+  operator: SearchOperator,
+  range: { start: string; end: string },
+) {
+  const [fromKey, toKey] = keys
+  if (operator === ':' || operator === '=' || operator === '>=' || operator === '>') {
+    result[fromKey] = laterOf(result[fromKey], operator === '>' ? addDays(range.end, 1) : range.start)
+  }
+  if (operator === ':' || operator === '=' || operator === '<=' || operator === '<') {
+    result[toKey] = earlierOf(result[toKey], operator === '<' ? addDays(range.start, -1) : range.end)
+  }
+}
+
+// Comparisons are strict; amounts are in cents, so "> 1200" starts at 1200.01
+function applyAmount(result: ParsedSearchQuery, operator: SearchOperator, amount: number) {
+  if (operator === ':' || operator === '=' || operator === '>=' || operator === '>') {
+    const min = operator === '>' ? round(amount + 0.01) : amount
+    result.amountMin = Math.max(result.amountMin ?? min, min)
+  }
+  if (operator === ':' || operator === '=' || operator === '<=' || operator === '<') {
+    const max = operator === '<' ? round(amount - 0.01) : amount
+    result.amountMax = Math.min(result.amountMax ?? max, max)
+  }
+}
+
+function addUnique<T>(list: T[], value: T) {
+  if (!list.includes(value)) list.push(value)
+}
+
+/** Split a search into filters and free text. Never throws; unusable terms are reported in `errors`. */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const result: ParsedSearchQuery = { text: '', vendors: [], categories: [], statuses: [], errors: [] }
+  const text: string[] = []
+
+  for (const match of input.matchAll(TERM_PATTERN)) {
+    const [term, name, rawOperator, rawValue] = match
+    const field = name ? findField(name) : undefined
+    if (!field) {
+      text.push(term)
+      continue
+    }
+
+    const operator = rawOperator as SearchOperator
+    const value = unquote(rawValue ?? '')
+    // A field still being typed ("vendor:") is not an error yet
+    if (!value) continue
+
+    const fail = (message: string) => result.errors.push({ term, message })
+    const comparison = operator !== ':' && operator !== '='
+
+    switch (field.kind) {
+      case 'text':
+        if (comparison) fail(`${field.name} only supports ${field.name}:value`)
+        else addUnique(field.name === 'vendor' ? result.vendors : result.categories, value)
+        break
+      case 'status': {
+        const status = parseStatus(value)
+        if (comparison) fail('status only supports status:value')
+        else if (!status) fail(`Unknown status "${value}"`)
+        else addUnique(result.statuses, status)
+        break
+      }
+      case 'aging':
+        if (comparison) fail('aging only supports aging:bucket')
+        else if (!isAgingBucket(value)) fail(`Unknown aging bucket "${value}"`)
+        else result.aging = value
+        break
+      case 'amount': {
+        const amount = parseAmount(value)
+        if (amount === null) fail(`"${value}" is not an amount`)
+        else applyAmount(result, operator, amount)
+        break
+      }
+      case 'date': {
+        const range = dateRange(value)
+        if (!range) fail(`"${value}" is not a date (use YYYY-MM-DD, YYYY-MM or YYYY)`)
+        else applyDate(result, field.name === 'due' ? ['dueFrom', 'dueTo'] : ['dateFrom', 'dateTo'], operator, range)
+        break
+      }
+    }
+  }
+
+  result.text = text.join(' ')
+  return result
+}
+
+function formatValue(value: string): string {
+  return /[\s"]/.test(value) || value === '' ? `"${value.replace(/"/g, '')}"` : value
+}
+
+function formatRange(name: string, from: string | number | undefined, to: string | number | undefined): string[] {
+  if (from !== undefined && from === to) return [`${name}:${from}`]
+  return [
+    ...(from !== undefined ? [`${name}>=${from}`] : []),
+    ...(to !== undefined ? [`${name}<=${to}`] : []),
+  ]
+}
+
+/** Write filters (and free text) as search syntax; `parseSearchQuery` reads it back to the same filters. */
+export function formatSearchQuery(query: Partial<SearchQueryFilters> & { text?: string }): string {
+  return [
+    ...(query.vendors ?? []).map((vendor) => `vendor:${formatValue(vendor)}`),
+    ...(query.categories ?? []).map((category) => `category:${formatValue(category)}`),
+    ...(query.statuses ?? []).map((status) => `status:${status}`),
+    ...formatRange('amount', query.amountMin, query.amountMax),
+    ...formatRange('date', query.dateFrom?.slice(0, 10), query.dateTo?.slice(0, 10)),
+    ...formatRange('due', query.dueFrom?.slice(0, 10), query.dueTo?.slice(0, 10)),
+    ...(query.aging ? [`aging:${query.aging}`] : []),
+    ...(query.text?.trim() ? [query.text.trim()] : []),
+  ].join(' ')
+}
+
+// The term the cursor is in when typing at the end of the input, if any
+function currentTerm(input: string): { prefix: string; term: string } {
+  const quotes = (input.match(/"/g) ?? []).length
+  if (quotes % 2 === 0 && /\s$/.test(input)) return { prefix: input, term: '' }
+  let last: RegExpMatchArray | undefined
+  for (const match of input.matchAll(TERM_PATTERN)) last = match
+  if (!last || (last.index ?? 0) + last[0].length !== input.length) return { prefix: input, term: '' }
+  return { prefix: input.slice(0, last.index), term: last[0] }
+}
+
+/**
+ * Completions for the term being typed at the end of the input: field names
+ * for a bare word, and known values for `vendor:`, `category:`, `status:` and
+ * `aging:`.
+ */
+export function searchQuerySuggestions(
+  input: string,
+  source: SearchSuggestionSource,
+  limit = 8,
+): SearchSuggestion[] {
+  const { prefix, term } = currentTerm(input)
+  const fieldMatch = /^([a-z_]+)(:|=)("?)([^"]*)"?$/i.exec(term)
+  const field = fieldMatch ? findField(fieldMatch[1]) : undefined
+
+  if (field && fieldMatch) {
+    const partial = fieldMatch[4].toLowerCase()
+    const values =
+      field.kind === 'text'
+        ? field.name === 'vendor' ? source.vendors : source.categories
+        : field.kind === 'status'
+          ? [...INVOICE_STATUSES]
+          : field.kind === 'aging'
+            ? AGING_BUCKETS.map((bucket) => bucket.key)
+            : []
+    return Array.from(new Set(values))
+      .filter((value) => value.toLowerCase().includes(partial))
+      .slice(0, limit)
+      .map((value) => ({ label: value, description: field.name, value: `${prefix}${field.name}:${formatValue(value)} ` }))
+  }
+
+  if (/[:=<>"]/.test(term)) return []
+  const word = term.toLowerCase()
+  return SEARCH_QUERY_FIELDS.filter((candidate) =>
+    [candidate.name, ...candidate.aliases].some((name) => name.startsWith(word)),
+  )
+    .slice(0, limit)
+    .map((candidate) => ({
+      label: `${candidate.name}:`,
+      description: candidate.description,
+      value: `${prefix}${candidate.name}:`,
+    }))
+}
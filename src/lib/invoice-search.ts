@@ -0,0 +1,228 @@
+/**
+ * Full-text invoice search.
+ *
+ * In Postgres, search runs against the weighted `search_vector` column and
+ * the `invoice_search_matches` function (migrations/invoice-search.sql),
+ * which ranks rows with `ts_rank_cd` and returns `ts_headline` snippets.
+ * `matchInvoiceSearch` gives the local fixtures the same behaviour: every
+ * term has to match (as a word prefix, or within a typo for longer words),
+ * fields carry the same weights, and snippets use the same <mark> markup.
+ */
+
+export const HIGHLIGHT_START = '<mark>'
+export const HIGHLIGHT_END = '</mark>'
+
+export interface SearchMatch {
+  /** Relevance; higher ranks first */
+  rank: number
+  /** Best matching passage with matches wrapped in <mark>; null when only the number or vendor matched */
+  snippet: string | null
+  /** Search terms, for highlighting the fields shown outside the snippet */
+  terms: string[]
+}
+
+export interface SearchDocument {
+  invoiceNumber: string
+  vendorName: string
+  description?: string | null
+  category?: string | null
+  lineItems?: string[]
+  documentText?: string | null
+}
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+// Same as Postgres' default ts_rank weights for A, B, C and D
+const WEIGHTS = { A: 1, B: 0.4, C: 0.2, D: 0.1 } as const
+
+// A typo only counts when it is on a word long enough not to be ambiguous
+const PREFIX_SCORE = 0.8
+const TYPO_SCORE = 0.5
+
+const SNIPPET_WORDS = 18
+const SNIPPET_LEAD = 5
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+/** Lower-cased words of a search, without duplicates. */
+export function searchTerms(query: string): string[] {
+  return Array.from(new Set(query.toLowerCase().match(WORD_PATTERN) ?? []))
+}
+
+/**
+ * The search as a `to_tsquery` expression in which every term must match as
+ * a prefix ("orig ener" → "orig:* & ener:*"). Terms only contain letters and
+ * digits, so the result is always valid tsquery syntax. Null when the search
+ * has no words.
+ */
+export function toPrefixTsQuery(query: string): string | null {
+  const terms = searchTerms(query)
+  return terms.length ? terms.map((term) => `${term}:*`).join(' & ') : null
+}
+
+function allowedTypos(term: string): number {
+  if (term.length >= 8) return 2
+  if (term.length >= 4) return 1
+  return 0
+}
+
+// Levenshtein distance, giving up once it exceeds `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > max) return max + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/** How well a search term matches one word: 1 exact, less for a prefix or a typo, 0 otherwise. */
+export function termScore(term: string, word: string): number {
+  const candidate = word.toLowerCase()
+  if (candidate === term) return 1
+  if (candidate.startsWith(term)) return PREFIX_SCORE
+  const typos = allowedTypos(term)
+  if (typos === 0) return 0
+  // Compare against the word, and against its start so partially typed words still match
+  const distance = Math.min(
+    editDistance(term, candidate, typos),
+    editDistance(term, candidate.slice(0, term.length), typos),
+  )
+  return distance <= typos ? TYPO_SCORE : 0
+}
+
+function bestScore(term: string, text: string | null | undefined): number {
+  let best = 0
+  for (const word of text?.match(WORD_PATTERN) ?? []) {
+    best = Math.max(best, termScore(term, word))
+    if (best === 1) break
+  }
+  return best
+}
+
+function matches(terms: string[], word: string): boolean {
+  return terms.some((term) => termScore(term, word) > 0)
+}
+
+/** Split text into matched and unmatched runs for rendering highlights. */
+export function highlightSegments(text: string, terms: string[]): HighlightSegment[] {
+  if (!text || terms.length === 0) return text ? [{ text, match: false }] : []
+
+  const segments: HighlightSegment[] = []
+  const push = (value: string, match: boolean) => {
+    if (!value) return
+    const last = segments[segments.length - 1]
+    if (last && last.match === match) last.text += value
+    else segments.push({ text: value, match })
+  }
+
+  let offset = 0
+  for (const found of text.matchAll(WORD_PATTERN)) {
+    const index = found.index ?? 0
+    push(text.slice(offset, index), false)
+    push(found[0], matches(terms, found[0]))
+    offset = index + found[0].length
+  }
+  push(text.slice(offset), false)
+  return segments
+}
+
+/**
+ * A window of text around its first match with every match wrapped in
+ * <mark>, in the same form as the snippets built by Postgres. Null when
+ * nothing in the text matches.
+ */
+export function buildSnippet(text: string | null | undefined, terms: string[]): string | null {
+  const words = text?.split(/\s+/).filter(Boolean) ?? []
+  const first = words.findIndex((word) => (word.match(WORD_PATTERN) ?? []).some((part) => matches(terms, part)))
+  if (first === -1) return null
+
+  const start = Math.max(0, first - SNIPPET_LEAD)
+  const end = Math.min(words.length, start + SNIPPET_WORDS)
+  const body = words
+    .slice(start, end)
+    .map((word) =>
+      highlightSegments(word, terms)
+        .map((segment) => (segment.match ? `${HIGHLIGHT_START}${segment.text}${HIGHLIGHT_END}` : segment.text))
+        .join(''),
+    )
+    .join(' ')
+
+  return `${start > 0 ? '… ' : ''}${body}${end < words.length ? ' …' : ''}`
+}
+
+/** Split a snippet marked up with <mark> into highlighted and plain runs. */
+export function parseSnippet(snippet: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = []
+  for (const [index, part] of snippet.split(HIGHLIGHT_START).entries()) {
+    if (index === 0) {
+      if (part) segments.push({ text: part, match: false })
+      continue
+    }
+    const close = part.indexOf(HIGHLIGHT_END)
+    const marked = close === -1 ? part : part.slice(0, close)
+    const rest = close === -1 ? '' : part.slice(close + HIGHLIGHT_END.length)
+    if (marked) segments.push({ text: marked, match: true })
+    if (rest) segments.push({ text: rest, match: false })
+  }
+  return segments
+}
+
+/**
+ * Match an invoice against a search. Every term has to match one of the
+ * fields; the rank is the average of each term's best weighted score.
+ * `similarVendor` marks an invoice whose supplier the whole search matches
+ * through a typo (see `similarVendorNames`): it matches even when the
+ * individual terms do not. Null when the invoice does not match.
+ */
+export function matchInvoiceSearch(
+  document: SearchDocument,
+  query: string,
+  similarVendor = false,
+): SearchMatch | null {
+  const terms = searchTerms(query)
+  if (terms.length === 0) return null
+
+  const lineItems = document.lineItems?.join(' · ') ?? ''
+  const fields: Array<[string | null | undefined, number]> = [
+    [document.invoiceNumber, WEIGHTS.A],
+    [document.vendorName, WEIGHTS.A],
+    [document.description, WEIGHTS.B],
+    [document.category, WEIGHTS.B],
+    [lineItems, WEIGHTS.C],
+    [document.documentText, WEIGHTS.D],
+  ]
+
+  const scores = terms.map((term) => Math.max(...fields.map(([text, weight]) => bestScore(term, text) * weight)))
+  const allMatched = scores.every((score) => score > 0)
+  if (!allMatched && !similarVendor) return null
+
+  const rank = allMatched
+    ? scores.reduce((sum, score) => sum + score, 0) / terms.length
+    : WEIGHTS.A * TYPO_SCORE
+
+  return {
+    rank,
+    snippet: buildSnippet(document.description, terms) ?? buildSnippet(lineItems, terms) ?? buildSnippet(document.documentText, terms),
+    terms,
+  }
+}
+
+/** Order items by search rank, best first; items without a match keep their order at the end. */
+export function sortByRank<T>(items: T[], rankOf: (item: T) => number | undefined): T[] {
+  return items
+    .map((item, index) => ({ item, index, rank: rankOf(item) ?? -1 }))
+    .sort((a, b) => b.rank - a.rank || a.index - b.index)
+    .map(({ item }) => item)
+}
@@ -0,0 +1,236 @@
+/**
+ * Declarative invoice status workflow shared by the status API routes and the
+ * kanban board.
+ *
+ * `transitions` lists the statuses each status may move to and the guards
+ * that must pass. Guards are referenced by name so the workflow stays plain
+ * data; the guard implementations live in `STATUS_GUARDS` below. The board
+ * reads the graph directly for instant feedback while dragging and asks
+ * `/api/invoices/transitions` for the guard results, which need the actor and
+ * the stored invoice.
+ *
+ * Approval policies (`approval-policy.ts`) decide who may approve an
+ * invoice and how many approvals it needs; the server passes the invoice's
+ * approval progress in the context so the guards can apply them. Only an
+ * invoice its policy has fully approved can be paid, so without that
+ * progress in the context `paid` is blocked unless the invoice is approved.
+ */
+
+import { approverConflict, hasApproverRole, type ApprovalProgress } from './approval-policy'
+
+export const INVOICE_STATUSES = ['pending', 'in_review', 'approved', 'paid', 'overdue'] as const
+
+export type InvoiceStatus = (typeof INVOICE_STATUSES)[number]
+
+export type StatusGuardName = 'paymentDetails' | 'approverRole' | 'approvalPolicy' | 'approvalComplete' | 'paidReopenWindow'
+
+export interface StatusTransitionRule {
+  to: InvoiceStatus
+  guards?: readonly StatusGuardName[]
+}
+
+export interface StatusMachineConfig {
+  transitions: Record<InvoiceStatus, readonly StatusTransitionRule[]>
+  /** Roles (case-insensitive) allowed to approve invoices when no approval policy is known */
+  approverRoles: readonly string[]
+  /** Paid invoices older than this can no longer be reopened */
+  paidReopenWindowDays: number
+}
+
+export const INVOICE_STATUS_MACHINE: StatusMachineConfig = {
+  transitions: {
+    pending: [
+      { to: 'in_review' },
+      { to: 'approved', guards: ['approverRole', 'approvalPolicy'] },
+      { to: 'paid', guards: ['approvalComplete', 'paymentDetails'] },
+      { to: 'overdue' },
+    ],
+    in_review: [
+      { to: 'pending' },
+      { to: 'approved', guards: ['approverRole', 'approvalPolicy'] },
+      { to: 'paid', guards: ['approvalComplete', 'paymentDetails'] },
+      { to: 'overdue' },
+    ],
+    approved: [
+      { to: 'pending' },
+      { to: 'in_review' },
+      { to: 'paid', guards: ['approvalComplete', 'paymentDetails'] },
+      { to: 'overdue' },
+    ],
+    overdue: [
+      { to: 'pending' },
+      { to: 'in_review' },
+      { to: 'approved', guards: ['approverRole', 'approvalPolicy'] },
+      { to: 'paid', guards: ['approvalComplete', 'paymentDetails'] },
+    ],
+    // Reopening a paid invoice sends it back through review
+    paid: [
+      { to: 'pending', guards: ['paidReopenWindow'] },
+      { to: 'in_review', guards: ['paidReopenWindow'] },
+    ],
+  },
+  approverRoles: ['approver', 'admin'],
+  paidReopenWindowDays: 90,
+}
+
+/** Details a caller can send along with a status change */
+export interface StatusChangeInput {
+  paymentDate?: string | null
+  paymentReference?: string | null
+}
+
+/** Everything a guard may look at when deciding a transition */
+export interface StatusTransitionContext {
+  invoice: {
+    status: InvoiceStatus
+    paidDate?: string | null
+    paymentReference?: string | null
+    issueDate?: string | null
+  }
+  actor?: { id?: string; role?: string | null } | null
+  input?: StatusChangeInput
+  /** The invoice's approval policy and approvals so far, when loaded */
+  approval?: {
+    progress: ApprovalProgress
+    uploadedByUserId?: string | null
+  }
+  now?: Date
+}
+
+export interface StatusGuardResult {
+  guard: StatusGuardName
+  message: string
+  /** Input fields that would satisfy the guard if sent with the change */
+  requires?: (keyof StatusChangeInput)[]
+}
+
+type StatusGuard = (
+  context: StatusTransitionContext,
+  config: StatusMachineConfig,
+) => StatusGuardResult | null
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const STATUS_GUARDS: Record<StatusGuardName, StatusGuard> = {
+  paymentDetails: ({ invoice, input }) => {
+    const requires: (keyof StatusChangeInput)[] = []
+    if (!input?.paymentDate?.trim() && !invoice.paidDate) requires.push('paymentDate')
+    if (!input?.paymentReference?.trim() && !invoice.paymentReference) requires.push('paymentReference')
+    if (requires.length === 0) return null
+    return {
+      guard: 'paymentDetails',
+      message: 'A payment date and reference are required to mark an invoice as paid',
+      requires,
+    }
+  },
+  approverRole: ({ actor, approval }, config) => {
+    const roles = approval?.progress.policy.approverRoles ?? config.approverRoles
+    if (hasApproverRole(actor?.role, roles)) return null
+    return { guard: 'approverRole', message: 'Only approvers can approve invoices' }
+  },
+  approvalPolicy: ({ actor, approval }) => {
+    if (!approval) return null
+    const conflict = approverConflict(actor?.id, { uploadedByUserId: approval.uploadedByUserId }, approval.progress)
+    return conflict ? { guard: 'approvalPolicy', message: conflict } : null
+  },
+  approvalComplete: ({ invoice, approval }) => {
+    if (invoice.status === 'approved') return null
+    const remaining = approval?.progress.remaining
+    if (remaining === 0) return null
+    return {
+      guard: 'approvalComplete',
+      message: remaining
+        ? `Invoices must be approved before they are paid; this one needs ${remaining} more approval${remaining === 1 ? '' : 's'}`
+        : 'Invoices must be approved before they are paid',
+    }
+  },
+  paidReopenWindow: ({ invoice, now = new Date() }, config) => {
+    // Older imports have no paid date; fall back to the invoice date
+    const paidAt = invoice.paidDate ?? invoice.issueDate
+    const paidTime = paidAt ? new Date(paidAt).getTime() : NaN
+    if (Number.isNaN(paidTime)) return null
+    if (now.getTime() - paidTime <= config.paidReopenWindowDays * DAY_MS) return null
+    return {
+      guard: 'paidReopenWindow',
+      message: `Paid invoices older than ${config.paidReopenWindowDays} days cannot be reopened`,
+    }
+  },
+}
+
+export interface StatusTransitionEvaluation {
+  status: InvoiceStatus
+  /** False when the transition is not in the workflow or a guard blocks it */
+  allowed: boolean
+  /** Input fields the change must include (allowed stays true) */
+  requires: (keyof StatusChangeInput)[]
+  /** Guards that block the transition regardless of input */
+  blockedBy: StatusGuardResult[]
+}
+
+export function isInvoiceStatus(value: unknown): value is InvoiceStatus {
+  return typeof value === 'string' && (INVOICE_STATUSES as readonly string[]).includes(value)
+}
+
+/** Statuses reachable from `from` in the workflow graph, ignoring guards */
+export function nextStatuses(
+  from: InvoiceStatus,
+  config: StatusMachineConfig = INVOICE_STATUS_MACHINE,
+): InvoiceStatus[] {
+  return (config.transitions[from] ?? []).map((rule) => rule.to)
+}
+
+/**
+ * Evaluate a single transition. Guards that only need caller input are
+ * reported in `requires` unless `requireInput` is set, in which case the
+ * missing input blocks the transition (used when actually changing status).
+ */
+export function evaluateTransition(
+  to: InvoiceStatus,
+  context: StatusTransitionContext,
+  options: { requireInput?: boolean; config?: StatusMachineConfig } = {},
+): StatusTransitionEvaluation {
+  const config = options.config ?? INVOICE_STATUS_MACHINE
+  const rule = (config.transitions[context.invoice.status] ?? []).find((candidate) => candidate.to === to)
+
+  if (!rule) {
+    return {
+      status: to,
+      allowed: false,
+      requires: [],
+      blockedBy: [],
+    }
+  }
+
+  const requires: (keyof StatusChangeInput)[] = []
+  const blockedBy: StatusGuardResult[] = []
+
+  for (const name of rule.guards ?? []) {
+    const failure = STATUS_GUARDS[name](context, config)
+    if (!failure) continue
+    if (failure.requires?.length && !options.requireInput) {
+      requires.push(...failure.requires)
+    } else {
+      blockedBy.push(failure)
+    }
+  }
+
+  return { status: to, allowed: blockedBy.length === 0, requires, blockedBy }
+}
+
+/** Evaluate every status except the current one, in board order */
+export function evaluateTransitions(
+  context: StatusTransitionContext,
+  config: StatusMachineConfig = INVOICE_STATUS_MACHINE,
+): StatusTransitionEvaluation[] {
+  return INVOICE_STATUSES.filter((status) => status !== context.invoice.status).map((status) =>
+    evaluateTransition(status, context, { config }),
+  )
+}
+
+/** Human readable reason a transition is not allowed */
+export function describeBlockedTransition(from: InvoiceStatus, evaluation: StatusTransitionEvaluation): string {
+  if (evaluation.blockedBy.length > 0) {
+    return evaluation.blockedBy.map((failure) => failure.message).join('; ')
+  }
+  return `Cannot change status from ${from} to ${evaluation.status}`
+}
@@ -0,0 +1,21 @@
+/**
+ * Email messages as senders build them; each mail transport encodes them
+ * for the wire (the SMTP transport leaves MIME encoding to nodemailer).
+ */
+
+export interface MailAttachment {
+  filename: string
+  contentType: string
+  content: Uint8Array
+}
+
+export interface MailMessage {
+  from: string
+  to: string[]
+  subject: string
+  text: string
+  html?: string
+  attachments?: MailAttachment[]
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>
+}
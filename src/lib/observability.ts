@@ -16,6 +16,8 @@ export const budgets: BudgetConfig = {
   '/api/stats': 400,
   '/api/invoices': 600,
   '/api/outstanding': 500,
+  '/api/forecast': 500,
+  '/api/recurring': 500,
 }
 
 // In-memory storage for budget tracking (in production, use Redis/database)
@@ -146,7 +146,7 @@ const filtersBlockers: ProjectBlocker[] = [
     id: 'BL-202',
     description: 'CSV exports lack progress feedback and memory safeguards',
     severity: 'High',
-    status: 'Open',
+    status: 'Resolved',
     owner: 'Feature Builder Agent',
   },
 ]
@@ -156,7 +156,7 @@ const filtersMitigation: RiskMitigationPlan[] = [
     risk: 'Large invoice exports timing out during streaming',
     mitigation: 'Implement chunked streaming with progress UI and cancellation support',
     owner: 'Feature Builder Agent',
-    status: 'Planned',
+    status: 'Completed',
   },
   {
     risk: 'Filter UX inconsistency across breakpoints',
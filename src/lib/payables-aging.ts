@@ -0,0 +1,210 @@
+/**
+ * Accounts-payable aging: outstanding invoices bucketed by how many days
+ * they are past their due date. Invoices without a due date, or not yet due,
+ * are "current". Days are counted in whole UTC days so an invoice due today
+ * is current and one due yesterday is 1 day past due.
+ */
+
+export type AgingBucketKey = 'current' | '1-30' | '31-60' | '61-90' | '90+'
+
+export interface AgingBucket {
+  key: AgingBucketKey
+  label: string
+  /** Inclusive bounds in days past due; `maxDays` is null for the open-ended bucket */
+  minDays: number
+  maxDays: number | null
+}
+
+export const AGING_BUCKETS: readonly AgingBucket[] = [
+  { key: 'current', label: 'Current', minDays: 0, maxDays: 0 },
+  { key: '1-30', label: '1–30 days', minDays: 1, maxDays: 30 },
+  { key: '31-60', label: '31–60 days', minDays: 31, maxDays: 60 },
+  { key: '61-90', label: '61–90 days', minDays: 61, maxDays: 90 },
+  { key: '90+', label: '90+ days', minDays: 91, maxDays: null },
+]
+
+export type AgingAmounts = Record<AgingBucketKey, number>
+
+export interface AgingSubject {
+  id: string
+  invoiceNumber: string
+  vendorName: string
+  vendorId?: string | null
+  category: string
+  dueDate: string | null
+  amountDue: number
+}
+
+export interface AgedInvoice extends AgingSubject {
+  daysPastDue: number
+  bucket: AgingBucketKey
+}
+
+export interface AgingRow {
+  /** Vendor or category name */
+  name: string
+  vendorId?: string | null
+  buckets: AgingAmounts
+  total: number
+  count: number
+}
+
+export interface AgingReport {
+  buckets: Array<{ key: AgingBucketKey; label: string; amount: number; count: number }>
+  summary: {
+    totalOutstanding: number
+    totalCount: number
+    overdueAmount: number
+    overdueCount: number
+    largestInvoice: number
+  }
+  byVendor: AgingRow[]
+  byCategory: AgingRow[]
+  /** Most overdue first */
+  invoices: AgedInvoice[]
+}
+
+/**
+ * Due-date window for a bucket as ISO dates: on or after `dueOnOrAfter` and
+ * strictly before `dueBefore`. Invoices with no due date only fall in
+ * `current`, which `includeUndated` flags.
+ */
+export interface AgingDueWindow {
+  bucket: AgingBucketKey
+  dueOnOrAfter?: string
+  dueBefore?: string
+  includeUndated: boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function toDay(value: string): number | null {
+  const time = Date.parse(value.length === 10 ? `${value}T00:00:00Z` : value)
+  return Number.isNaN(time) ? null : Math.floor(time / DAY_MS)
+}
+
+function dayToIso(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10)
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export function emptyAgingAmounts(): AgingAmounts {
+  return { current: 0, '1-30': 0, '31-60': 0, '61-90': 0, '90+': 0 }
+}
+
+export function isAgingBucket(value: unknown): value is AgingBucketKey {
+  return AGING_BUCKETS.some((bucket) => bucket.key === value)
+}
+
+export function agingBucketLabel(key: AgingBucketKey): string {
+  return AGING_BUCKETS.find((bucket) => bucket.key === key)?.label ?? key
+}
+
+/** Whole days past due, or 0 when the invoice has no due date or is not yet due. */
+export function daysPastDue(dueDate: string | null, now: Date = new Date()): number {
+  const due = dueDate ? toDay(dueDate) : null
+  if (due === null) return 0
+  return Math.max(0, Math.floor(now.getTime() / DAY_MS) - due)
+}
+
+export function agingBucketFor(days: number): AgingBucketKey {
+  const bucket = AGING_BUCKETS.find(
+    (candidate) => days >= candidate.minDays && (candidate.maxDays === null || days <= candidate.maxDays),
+  )
+  return bucket?.key ?? 'current'
+}
+
+export function agingDueWindow(key: AgingBucketKey, now: Date = new Date()): AgingDueWindow {
+  const bucket = AGING_BUCKETS.find((candidate) => candidate.key === key) ?? AGING_BUCKETS[0]
+  const today = Math.floor(now.getTime() / DAY_MS)
+
+  return {
+    bucket: bucket.key,
+    dueOnOrAfter: bucket.maxDays === null ? undefined : dayToIso(today - bucket.maxDays),
+    dueBefore: bucket.key === 'current' ? undefined : dayToIso(today - bucket.minDays + 1),
+    includeUndated: bucket.key === 'current',
+  }
+}
+
+/** Whether a due date falls inside a bucket's window. */
+export function inAgingWindow(dueDate: string | null, window: AgingDueWindow): boolean {
+  const due = dueDate ? toDay(dueDate) : null
+  if (due === null) return window.includeUndated
+  if (window.dueOnOrAfter && due < (toDay(window.dueOnOrAfter) as number)) return false
+  if (window.dueBefore && due >= (toDay(window.dueBefore) as number)) return false
+  return true
+}
+
+function addRow(rows: Map<string, AgingRow>, key: string, row: Omit<AgingRow, 'buckets' | 'total' | 'count'>, invoice: AgedInvoice) {
+  const entry = rows.get(key) ?? { ...row, buckets: emptyAgingAmounts(), total: 0, count: 0 }
+  entry.buckets[invoice.bucket] += invoice.amountDue
+  entry.total += invoice.amountDue
+  entry.count += 1
+  rows.set(key, entry)
+}
+
+function finishRows(rows: Map<string, AgingRow>): AgingRow[] {
+  return Array.from(rows.values())
+    .map((row) => ({
+      ...row,
+      total: round(row.total),
+      buckets: Object.fromEntries(
+        Object.entries(row.buckets).map(([key, amount]) => [key, round(amount)]),
+      ) as AgingAmounts,
+    }))
+    .sort((a, b) => b.total - a.total || a.name.localeCompare(b.name))
+}
+
+/**
+ * Age a set of outstanding invoices. Callers decide what counts as
+ * outstanding; anything with nothing left to pay is skipped here.
+ */
+export function buildAgingReport(invoices: AgingSubject[], now: Date = new Date()): AgingReport {
+  const totals = emptyAgingAmounts()
+  const counts = emptyAgingAmounts()
+  const byVendor = new Map<string, AgingRow>()
+  const byCategory = new Map<string, AgingRow>()
+  const aged: AgedInvoice[] = []
+  let largestInvoice = 0
+
+  for (const invoice of invoices) {
+    if (!(invoice.amountDue > 0)) continue
+
+    const days = daysPastDue(invoice.dueDate, now)
+    const entry: AgedInvoice = { ...invoice, daysPastDue: days, bucket: agingBucketFor(days) }
+    aged.push(entry)
+
+    totals[entry.bucket] += entry.amountDue
+    counts[entry.bucket] += 1
+    largestInvoice = Math.max(largestInvoice, entry.amountDue)
+
+    const vendorKey = entry.vendorId ?? `name:${entry.vendorName.toLowerCase()}`
+    addRow(byVendor, vendorKey, { name: entry.vendorName, vendorId: entry.vendorId ?? null }, entry)
+    const category = entry.category || 'Uncategorized'
+    addRow(byCategory, category.toLowerCase(), { name: category }, entry)
+  }
+
+  const totalOutstanding = Object.values(totals).reduce((sum, amount) => sum + amount, 0)
+
+  return {
+    buckets: AGING_BUCKETS.map((bucket) => ({
+      key: bucket.key,
+      label: bucket.label,
+      amount: round(totals[bucket.key]),
+      count: counts[bucket.key],
+    })),
+    summary: {
+      totalOutstanding: round(totalOutstanding),
+      totalCount: aged.length,
+      overdueAmount: round(totalOutstanding - totals.current),
+      overdueCount: aged.length - counts.current,
+      largestInvoice: round(largestInvoice),
+    },
+    byVendor: finishRows(byVendor),
+    byCategory: finishRows(byCategory),
+    invoices: aged.sort((a, b) => b.daysPastDue - a.daysPastDue || b.amountDue - a.amountDue),
+  }
+}
@@ -0,0 +1,130 @@
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz'
+
+/**
+ * Schedules for report deliveries: daily, weekly or monthly at a time of day
+ * in Sydney time, so "8 am Monday" stays 8 am across daylight saving changes.
+ * Used by the delivery runner to work out when each schedule is next due,
+ * and by the UI to describe schedules.
+ */
+
+export const REPORT_TIMEZONE = 'Australia/Sydney'
+
+export const REPORT_FREQUENCIES = ['daily', 'weekly', 'monthly'] as const
+export type ReportFrequency = (typeof REPORT_FREQUENCIES)[number]
+
+export const REPORT_FORMATS = ['csv', 'xlsx'] as const
+export type ReportFormat = (typeof REPORT_FORMATS)[number]
+
+/** Failed deliveries are retried automatically until this many attempts */
+export const REPORT_MAX_ATTEMPTS = 3
+
+export const REPORT_MAX_RECIPIENTS = 20
+
+export interface ReportScheduleTiming {
+  frequency: ReportFrequency
+  /** Hour of the day, 0–23, Sydney time */
+  hour: number
+  minute: number
+  /** 0 (Sunday) – 6 (Saturday); weekly schedules */
+  dayOfWeek?: number | null
+  /** 1–31; monthly schedules run on the last day of shorter months */
+  dayOfMonth?: number | null
+}
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function shiftDay(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+function daysInMonth(day: string): number {
+  const [year, month] = day.split('-').map(Number)
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+function runsOn(timing: ReportScheduleTiming, day: string): boolean {
+  switch (timing.frequency) {
+    case 'daily':
+      return true
+    case 'weekly':
+      return new Date(`${day}T00:00:00Z`).getUTCDay() === (timing.dayOfWeek ?? 1)
+    case 'monthly': {
+      const dayOfMonth = Math.min(timing.dayOfMonth ?? 1, daysInMonth(day))
+      return Number(day.slice(8, 10)) === dayOfMonth
+    }
+  }
+}
+
+/**
+ * The first run strictly after `after`. A run time that falls in the hour
+ * skipped when daylight saving starts happens an hour later that day.
+ */
+export function nextReportRun(timing: ReportScheduleTiming, after: Date, timeZone: string = REPORT_TIMEZONE): Date {
+  const time = `${String(timing.hour).padStart(2, '0')}:${String(timing.minute).padStart(2, '0')}:00`
+  const today = formatInTimeZone(after, timeZone, 'yyyy-MM-dd')
+
+  // Monthly schedules are due within 31 days; the extra day covers the time zone offset
+  for (let offset = 0; offset <= 32; offset += 1) {
+    const day = shiftDay(today, offset)
+    if (!runsOn(timing, day)) continue
+    let run = fromZonedTime(`${day}T${time}`, timeZone)
+    // The time does not exist that day (clocks went forward past it)
+    if (formatInTimeZone(run, timeZone, 'HH:mm:ss') !== time) run = new Date(run.getTime() + 60 * 60 * 1000)
+    if (run.getTime() > after.getTime()) return run
+  }
+  throw new Error(`No run found for ${timing.frequency} schedule`)
+}
+
+function ordinal(day: number): string {
+  const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th'
+  return `${day}${suffix}`
+}
+
+function formatTime(hour: number, minute: number): string {
+  const period = hour < 12 ? 'am' : 'pm'
+  return `${hour % 12 || 12}:${String(minute).padStart(2, '0')} ${period}`
+}
+
+/** "Every Monday at 8:00 am", "Monthly on the 31st (or last day) at 9:30 am". */
+export function describeReportSchedule(timing: ReportScheduleTiming): string {
+  const at = formatTime(timing.hour, timing.minute)
+  switch (timing.frequency) {
+    case 'daily':
+      return `Daily at ${at}`
+    case 'weekly':
+      return `Every ${WEEKDAYS[timing.dayOfWeek ?? 1]} at ${at}`
+    case 'monthly': {
+      const day = timing.dayOfMonth ?? 1
+      return `Monthly on the ${ordinal(day)}${day > 28 ? ' (or last day)' : ''} at ${at}`
+    }
+  }
+}
+
+/** When to retry a failed attempt (1-based), or null once attempts run out: 15 minutes, then an hour. */
+export function nextRetryAt(failedAt: Date, attempt: number): Date | null {
+  if (attempt >= REPORT_MAX_ATTEMPTS) return null
+  return new Date(failedAt.getTime() + 15 * 4 ** (attempt - 1) * 60 * 1000)
+}
+
+/** Recipient addresses are compared trimmed and lowercased everywhere, unsubscribe links included. */
+export function normaliseRecipient(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+/** Split a recipient list typed as "a@x.com, b@y.com; c@z.com" into unique, lowercased addresses. */
+export function parseRecipients(input: string | string[]): { recipients: string[]; invalid: string[] } {
+  const values = (Array.isArray(input) ? input : input.split(/[\s,;]+/))
+    .map(normaliseRecipient)
+    .filter(Boolean)
+  const recipients: string[] = []
+  const invalid: string[] = []
+  for (const value of values) {
+    if (!EMAIL_PATTERN.test(value)) invalid.push(value)
+    else if (!recipients.includes(value)) recipients.push(value)
+  }
+  return { recipients, invalid }
+}
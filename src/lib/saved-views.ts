@@ -0,0 +1,102 @@
+/**
+ * Sharing rules for saved invoice views. A view belongs to the user who
+ * created it and is private, shared with the team, or pinned for everyone
+ * (org-wide, admins only). Shared views are read-only for others unless
+ * the owner makes them editable. Used by the saved-views API and the
+ * saved-views modal so both agree on who may do what.
+ */
+
+export const SAVED_VIEW_VISIBILITIES = ['private', 'team', 'org'] as const
+export type SavedViewVisibility = (typeof SAVED_VIEW_VISIBILITIES)[number]
+
+export const SAVED_VIEW_PERMISSIONS = ['read', 'edit'] as const
+export type SavedViewPermission = (typeof SAVED_VIEW_PERMISSIONS)[number]
+
+export interface SavedViewActor {
+  id: string
+  email?: string
+  role: string
+}
+
+export interface SavedViewAccess {
+  ownerId: string
+  visibility: SavedViewVisibility
+  permission: SavedViewPermission
+}
+
+export interface SavedViewOrdering extends SavedViewAccess {
+  id: string
+  name: string
+  isDefault: boolean
+  position: number
+}
+
+const isAdmin = (actor: SavedViewActor) => actor.role.toLowerCase() === 'admin'
+
+export function isSavedViewVisibility(value: unknown): value is SavedViewVisibility {
+  return typeof value === 'string' && (SAVED_VIEW_VISIBILITIES as readonly string[]).includes(value)
+}
+
+export function canViewSavedView(view: SavedViewAccess, actor: SavedViewActor): boolean {
+  return view.ownerId === actor.id || view.visibility !== 'private'
+}
+
+/** Change the name or filters. Owners always can; others only when the view is shared as editable. */
+export function canEditSavedView(view: SavedViewAccess, actor: SavedViewActor): boolean {
+  if (view.ownerId === actor.id || isAdmin(actor)) return true
+  return view.visibility !== 'private' && view.permission === 'edit'
+}
+
+/** Delete the view or change how it is shared: the owner, or an admin for shared views. */
+export function canManageSavedView(view: SavedViewAccess, actor: SavedViewActor): boolean {
+  return view.ownerId === actor.id || (isAdmin(actor) && view.visibility !== 'private')
+}
+
+/** Only admins pin views for the whole organisation. */
+export function canShareSavedView(visibility: SavedViewVisibility, actor: SavedViewActor): boolean {
+  return visibility !== 'org' || isAdmin(actor)
+}
+
+/**
+ * Display order: org-pinned views first, then the actor's own views in the
+ * order they arranged them, then views teammates shared, by name.
+ */
+export function sortSavedViews<T extends SavedViewOrdering>(views: T[], actor: SavedViewActor): T[] {
+  const group = (view: T) => (view.visibility === 'org' ? 0 : view.ownerId === actor.id ? 1 : 2)
+  return [...views].sort(
+    (a, b) =>
+      group(a) - group(b) ||
+      (group(a) === 2 ? 0 : a.position - b.position) ||
+      a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }),
+  )
+}
+
+/**
+ * The view to load when a page opens: the actor's own default, else an
+ * org-pinned default.
+ */
+export function resolveDefaultSavedView<T extends SavedViewOrdering>(views: T[], actor: SavedViewActor): T | undefined {
+  return (
+    views.find((view) => view.isDefault && view.ownerId === actor.id) ??
+    views.find((view) => view.isDefault && view.visibility === 'org')
+  )
+}
+
+/** "Overdue (copy)", then "Overdue (copy 2)" and so on, avoiding names already taken. */
+export function duplicateSavedViewName(name: string, existingNames: string[]): string {
+  const base = name.replace(/ \(copy(?: \d+)?\)$/, '')
+  const taken = new Set(existingNames.map((existing) => existing.toLowerCase()))
+  for (let copy = 1; ; copy += 1) {
+    const candidate = copy === 1 ? `${base} (copy)` : `${base} (copy ${copy})`
+    if (!taken.has(candidate.toLowerCase())) return candidate
+  }
+}
+
+/** Move the view at `from` to `to`, returning the new id order. */
+export function moveSavedView(ids: string[], from: number, to: number): string[] {
+  if (from < 0 || from >= ids.length || to < 0 || to >= ids.length || from === to) return ids
+  const next = [...ids]
+  const [moved] = next.splice(from, 1)
+  next.splice(to, 0, moved)
+  return next
+}
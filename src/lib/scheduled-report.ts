@@ -0,0 +1,173 @@
+import { formatInTimeZone } from 'date-fns-tz'
+
+import { INVOICE_STATUS_LABELS } from './invoice-export'
+import { REPORT_TIMEZONE, type ReportFormat } from './report-schedule'
+import { formatCurrency } from './utils'
+import type { XlsxCell, XlsxColumn } from './xlsx'
+
+/**
+ * Contents of a scheduled report delivery: the invoices in a saved view as a
+ * CSV or XLSX attachment, and a short email summarising them. Rendering is
+ * kept free of I/O so the runner only has to fetch invoices and send mail;
+ * the attachment itself is written server-side by `lib/server/report-attachment`.
+ */
+
+export interface ReportInvoice {
+  invoiceNumber: string
+  vendorName: string
+  category: string
+  status: string
+  issueDate: string | null
+  dueDate: string | null
+  amount: number
+  amountDue: number
+  duplicateOfId?: string | null
+}
+
+export interface ReportSummary {
+  count: number
+  total: number
+  outstanding: number
+  overdueCount: number
+  overdueAmount: number
+  byStatus: Array<{ status: string; count: number; amount: number }>
+}
+
+export interface ReportAttachment {
+  filename: string
+  contentType: string
+  content: Uint8Array
+}
+
+export interface ReportEmailInput {
+  viewName: string
+  schedule: string
+  format: ReportFormat
+  summary: ReportSummary
+  generatedAt: Date
+  /** Link to the saved view in the app */
+  viewUrl?: string
+  unsubscribeUrl?: string
+}
+
+export interface ReportEmail {
+  subject: string
+  text: string
+  html: string
+}
+
+/** Columns of the attached CSV or workbook, one row per invoice from buildReportRows. */
+export const REPORT_COLUMNS: XlsxColumn[] = [
+  { header: 'Invoice Number', width: 18 },
+  { header: 'Vendor Name', width: 32 },
+  { header: 'Category', width: 18 },
+  { header: 'Status', width: 12 },
+  { header: 'Issue Date', width: 12 },
+  { header: 'Due Date', width: 12 },
+  { header: 'Amount', width: 14, numberFormat: '#,##0.00' },
+  { header: 'Amount Due', width: 14, numberFormat: '#,##0.00' },
+]
+
+function statusLabel(status: string): string {
+  return INVOICE_STATUS_LABELS[status] ?? status
+}
+
+function reportDay(value: string | null): string {
+  return value ? value.slice(0, 10) : ''
+}
+
+/** One row per invoice; dates as YYYY-MM-DD and amounts as plain numbers. */
+export function buildReportRows(invoices: ReportInvoice[]): XlsxCell[][] {
+  return invoices.map((invoice) => [
+    invoice.invoiceNumber || '',
+    invoice.vendorName || '',
+    invoice.category || '',
+    statusLabel(invoice.status),
+    reportDay(invoice.issueDate),
+    reportDay(invoice.dueDate),
+    invoice.amount,
+    invoice.amountDue,
+  ])
+}
+
+/** Totals for the email body. Confirmed duplicates are listed but not counted. */
+export function summariseReport(invoices: ReportInvoice[]): ReportSummary {
+  const counted = invoices.filter((invoice) => !invoice.duplicateOfId)
+  const byStatus = new Map<string, { status: string; count: number; amount: number }>()
+  const summary: ReportSummary = { count: invoices.length, total: 0, outstanding: 0, overdueCount: 0, overdueAmount: 0, byStatus: [] }
+
+  for (const invoice of counted) {
+    summary.total += invoice.amount
+    if (invoice.status !== 'paid') summary.outstanding += invoice.amountDue
+    if (invoice.status === 'overdue') {
+      summary.overdueCount += 1
+      summary.overdueAmount += invoice.amountDue
+    }
+    const entry = byStatus.get(invoice.status) ?? { status: invoice.status, count: 0, amount: 0 }
+    entry.count += 1
+    entry.amount += invoice.amount
+    byStatus.set(invoice.status, entry)
+  }
+
+  const order = Object.keys(INVOICE_STATUS_LABELS)
+  summary.byStatus = Array.from(byStatus.values()).sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status))
+  return summary
+}
+
+/** Attachment file name without the extension: the view name and the Sydney date. */
+export function reportFileStem(viewName: string, generatedAt: Date): string {
+  const slug = viewName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'invoices'
+  return `${slug}-${formatInTimeZone(generatedAt, REPORT_TIMEZONE, 'yyyy-MM-dd')}`
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+export function renderReportEmail(input: ReportEmailInput): ReportEmail {
+  const { summary } = input
+  const generated = formatInTimeZone(input.generatedAt, REPORT_TIMEZONE, 'd MMM yyyy, h:mm a')
+  const attachment = input.format === 'xlsx' ? 'an Excel workbook' : 'a CSV file'
+  const invoiceCount = `${summary.count} invoice${summary.count === 1 ? '' : 's'}`
+
+  const figures: Array<[string, string]> = [
+    ['Invoices', String(summary.count)],
+    ['Total', formatCurrency(summary.total)],
+    ['Outstanding', formatCurrency(summary.outstanding)],
+    ['Overdue', `${summary.overdueCount} (${formatCurrency(summary.overdueAmount)})`],
+  ]
+  const statuses = summary.byStatus.map(
+    (entry) => [statusLabel(entry.status), `${entry.count} · ${formatCurrency(entry.amount)}`] as [string, string]
+  )
+
+  const text = [
+    `${input.viewName}: ${invoiceCount} as of ${generated} (Sydney time).`,
+    '',
+    ...figures.map(([label, value]) => `${label}: ${value}`),
+    ...(statuses.length ? ['', 'By status:', ...statuses.map(([label, value]) => `  ${label}: ${value}`)] : []),
+    '',
+    `The full list is attached as ${attachment}.`,
+    ...(input.viewUrl ? [`Open the view: ${input.viewUrl}`] : []),
+    '',
+    `You receive this report ${input.schedule.charAt(0).toLowerCase()}${input.schedule.slice(1)} (Sydney time).`,
+    ...(input.unsubscribeUrl ? [`Unsubscribe: ${input.unsubscribeUrl}`] : []),
+  ].join('\n')
+
+  const row = ([label, value]: [string, string]) =>
+    `<tr><td style="padding:4px 16px 4px 0;color:#555">${escapeHtml(label)}</td><td style="padding:4px 0;font-weight:600">${escapeHtml(value)}</td></tr>`
+
+  const html = [
+    '<div style="font-family:Arial,Helvetica,sans-serif;font-size:14px;color:#111">',
+    `<h2 style="margin:0 0 4px">${escapeHtml(input.viewName)}</h2>`,
+    `<p style="margin:0 0 16px;color:#555">${escapeHtml(invoiceCount)} as of ${escapeHtml(generated)} (Sydney time)</p>`,
+    `<table style="border-collapse:collapse">${figures.map(row).join('')}</table>`,
+    statuses.length ? `<h3 style="margin:16px 0 4px">By status</h3><table style="border-collapse:collapse">${statuses.map(row).join('')}</table>` : '',
+    `<p style="margin:16px 0">The full list is attached as ${attachment}.</p>`,
+    input.viewUrl ? `<p><a href="${escapeHtml(input.viewUrl)}">Open the view</a></p>` : '',
+    `<p style="margin-top:24px;font-size:12px;color:#777">You receive this report ${escapeHtml(input.schedule.charAt(0).toLowerCase() + input.schedule.slice(1))} (Sydney time).`,
+    input.unsubscribeUrl ? ` <a href="${escapeHtml(input.unsubscribeUrl)}" style="color:#777">Unsubscribe</a>` : '',
+    '</p></div>',
+  ].join('')
+
+  return { subject: `${input.viewName}: ${invoiceCount} (${formatInTimeZone(input.generatedAt, REPORT_TIMEZONE, 'd MMM yyyy')})`, text, html }
+}
@@ -1,4 +1,16 @@
 import { z } from 'zod';
+import { limitSchema, pageSchema } from './pagination';
+import { SAVED_VIEW_PERMISSIONS, SAVED_VIEW_VISIBILITIES } from '../saved-views';
+import { REPORT_FORMATS, REPORT_FREQUENCIES, REPORT_MAX_RECIPIENTS } from '../report-schedule';
+import { DEFAULT_INVOICE_EXPORT_COLUMNS, INVOICE_EXPORT_COLUMN_IDS, INVOICE_EXPORT_FORMATS } from '../invoice-export';
+import { isAgingBucket, type AgingBucketKey } from '../payables-aging';
+import { isAllowedDocumentSource } from '../document-types';
+
+// Payment details required by the status workflow when marking invoices as paid
+const statusChangeDetails = {
+  paymentDate: z.string().trim().regex(/^\d{4}-\d{2}-\d{2}/, 'Payment date must be an ISO date').optional(),
+  paymentReference: z.string().trim().min(1).max(100).optional(),
+};
 
 // Invoice status update schema
 export const invoiceStatusUpdateSchema = z.object({
@@ -6,6 +18,159 @@ export const invoiceStatusUpdateSchema = z.object({
     required_error: 'Status is required',
     invalid_type_error: 'Invalid status value'
   }),
+  ...statusChangeDetails,
+});
+
+// Bulk invoice status update schema (ids or invoice numbers)
+export const invoiceBulkStatusUpdateSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1, 'At least one invoice is required').max(500, 'At most 500 invoices per request'),
+  status: z.enum(['pending', 'in_review', 'approved', 'paid', 'overdue']),
+  ...statusChangeDetails,
+});
+
+// Payment recorded against an invoice in the payments ledger
+export const PAYMENT_METHODS = ['bank_transfer', 'credit_card', 'debit_card', 'cash', 'cheque', 'paypal', 'other'] as const;
+
+export const invoicePaymentSchema = z.object({
+  amount: z.number().positive('Amount must be greater than zero').max(1_000_000_000),
+  paymentDate: z.string().trim().regex(/^\d{4}-\d{2}-\d{2}/, 'Payment date must be an ISO date'),
+  method: z.enum(PAYMENT_METHODS).optional(),
+  reference: z.string().trim().min(1, 'Payment reference is required').max(100),
+  notes: z.string().trim().max(2000).optional(),
+  confirmedBy: z.string().trim().min(1, 'Confirmed by is required').max(100),
+});
+
+// Credit note or adjustment raised against an existing invoice
+export const CREDIT_DOCUMENT_TYPES = ['credit_note', 'adjustment'] as const;
+
+export const creditNoteSchema = z.object({
+  documentType: z.enum(CREDIT_DOCUMENT_TYPES).default('credit_note'),
+  documentNumber: z.string().trim().min(1, 'Credit note number is required').max(100),
+  // Credit notes are entered as a positive value; adjustments are signed
+  amount: z.number().max(1_000_000_000).min(-1_000_000_000).refine((value) => value !== 0, 'Amount cannot be zero'),
+  issueDate: z.string().trim().regex(/^\d{4}-\d{2}-\d{2}/, 'Issue date must be an ISO date'),
+  reason: z.string().trim().min(1, 'Reason is required').max(2000),
+  invoiceUrl: z.string().trim().url().refine(isAllowedDocumentSource, {
+    message: 'Stored documents must be in the invoice documents bucket',
+  }).optional(),
+}).refine((value) => value.documentType !== 'credit_note' || value.amount > 0, {
+  message: 'Credit note amount must be greater than zero',
+  path: ['amount'],
+});
+
+// Invoice comment; parentId makes it a reply
+export const invoiceCommentSchema = z.object({
+  body: z.string().trim().min(1, 'Comment cannot be empty').max(5000),
+  parentId: z.string().uuid().optional(),
+});
+
+export const invoiceCommentUpdateSchema = z.object({
+  body: z.string().trim().min(1, 'Comment cannot be empty').max(5000),
+});
+
+export const invoiceCommentParamsSchema = z.object({
+  id: z.string().min(1, 'Invoice ID is required'),
+  commentId: z.string().uuid('Invalid comment ID'),
+});
+
+export const DUPLICATE_PAIR_STATUSES = ['pending', 'merged', 'linked', 'dismissed'] as const;
+
+// Resolve a possible-duplicate pair; keepId picks the surviving invoice on merge
+export const duplicateResolutionSchema = z.object({
+  action: z.enum(['merge', 'link', 'dismiss']),
+  keepId: z.string().min(1).optional(),
+});
+
+export const duplicatePairParamsSchema = z.object({
+  pairId: z.string().uuid('Invalid duplicate pair ID'),
+});
+
+// Rescan for duplicates, optionally limited to invoices issued in a date range
+export const duplicateScanSchema = z.object({
+  dateFrom: z.string().datetime().optional().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  dateTo: z.string().datetime().optional().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+});
+
+// Vendor master data; empty strings clear optional details
+const optionalDetail = z.string().trim().max(500).nullable().optional();
+
+export const vendorDetailsSchema = z.object({
+  name: z.string().trim().min(1, 'Vendor name is required').max(200),
+  abn: z.string().trim()
+    .refine((value) => value === '' || value.replace(/\D/g, '').length === 11, 'ABN must have 11 digits')
+    .nullable()
+    .optional(),
+  email: z.string().trim().email('Invalid email address').or(z.literal('')).nullable().optional(),
+  phone: optionalDetail,
+  address: optionalDetail,
+  defaultCategory: optionalDetail,
+  defaultPaymentTerms: optionalDetail,
+});
+
+export const vendorUpdateSchema = vendorDetailsSchema.partial().refine(
+  (value) => Object.keys(value).length > 0,
+  'No changes provided'
+);
+
+export const vendorParamsSchema = z.object({
+  id: z.string().uuid('Invalid vendor ID'),
+});
+
+// Period for a vendor's spend summary; defaults to the last 90 days
+export const vendorSummaryQuerySchema = z.object({
+  dateFrom: z.string().datetime().optional().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  dateTo: z.string().datetime().optional().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+});
+
+// Merge other vendors (and their aliases and invoices) into the vendor in the URL
+export const vendorMergeSchema = z.object({
+  sourceIds: z.array(z.string().uuid('Invalid vendor ID')).min(1, 'Choose at least one vendor to merge').max(50),
+});
+
+// Approve or reject an invoice awaiting approval; rejections need a reason
+export const invoiceApprovalSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  comment: z.string().trim().max(2000).optional(),
+}).refine(
+  (value) => value.decision === 'approve' || Boolean(value.comment),
+  { message: 'A reason is required when rejecting', path: ['comment'] }
+);
+
+// Approval policy: amount band [minAmount, maxAmount), optional category and vendor scope
+const approvalPolicyFields = z.object({
+  name: z.string().trim().min(1, 'Policy name is required').max(200),
+  minAmount: z.number().min(0, 'Minimum amount cannot be negative'),
+  maxAmount: z.number().positive().nullable(),
+  categories: z.array(z.string().trim().min(1).max(100)).max(50),
+  vendorIds: z.array(z.string().uuid('Invalid vendor ID')).max(50),
+  requiredApprovals: z.number().int().min(1).max(5),
+  approverRoles: z.array(z.string().trim().min(1).max(50)).min(1, 'At least one approver role is required').max(10),
+  priority: z.number().int().min(-100).max(100),
+  active: z.boolean(),
+});
+
+export const approvalPolicySchema = approvalPolicyFields.extend({
+  maxAmount: approvalPolicyFields.shape.maxAmount.default(null),
+  categories: approvalPolicyFields.shape.categories.default([]),
+  vendorIds: approvalPolicyFields.shape.vendorIds.default([]),
+  approverRoles: approvalPolicyFields.shape.approverRoles.default(['approver', 'admin']),
+  priority: approvalPolicyFields.shape.priority.default(0),
+  active: approvalPolicyFields.shape.active.default(true),
+}).refine(
+  (value) => value.maxAmount === null || value.maxAmount > value.minAmount,
+  { message: 'Maximum amount must be above the minimum', path: ['maxAmount'] }
+);
+
+export const approvalPolicyUpdateSchema = approvalPolicyFields.partial().refine(
+  (value) => Object.keys(value).length > 0,
+  'No changes provided'
+).refine(
+  (value) => value.maxAmount === undefined || value.maxAmount === null || value.minAmount === undefined || value.maxAmount > value.minAmount,
+  { message: 'Maximum amount must be above the minimum', path: ['maxAmount'] }
+);
+
+export const approvalPolicyParamsSchema = z.object({
+  id: z.string().uuid('Invalid approval policy ID'),
 });
 
 // Invoice query parameters schema
@@ -35,6 +200,136 @@ export const invoiceQuerySchema = z.object({
   savedViewId: z.string().optional(),
 });
 
+// Direct edits to an invoice (PATCH /api/invoices/[id]); a status change goes through the workflow
+const isoDateOrNull = z.string().trim().regex(/^\d{4}-\d{2}-\d{2}/, 'Dates must be ISO dates').nullable();
+
+export const invoiceEditSchema = z.object({
+  paymentStatus: z.string().trim().min(1).optional(),
+  ...statusChangeDetails,
+  category: z.string().trim().max(100).optional(),
+  description: z.string().trim().max(2000).optional(),
+  notes: z.string().trim().max(5000).nullable().optional(),
+  issueDate: isoDateOrNull.optional(),
+  dueDate: isoDateOrNull.optional(),
+  paymentTerms: z.string().trim().max(50).optional(),
+});
+
+// Revert one field of a recorded change
+export const invoiceFieldRevertSchema = z.object({
+  field: z.string().trim().min(1, 'Field is required'),
+});
+
+export const invoiceHistoryParamsSchema = z.object({
+  id: z.string().min(1, 'Invoice ID is required'),
+  entryId: z.string().uuid('Invalid history entry ID'),
+});
+
+// Audit log query: filter by entity, user, action and date range; newest first
+export const auditLogQuerySchema = z.object({
+  entityType: z.string().trim().min(1).optional(),
+  entityId: z.string().trim().min(1).optional(),
+  userId: z.string().trim().min(1).optional(),
+  action: z.array(z.string().trim().min(1)).default([]),
+  dateFrom: z.string().datetime().optional().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  dateTo: z.string().datetime().optional().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  page: pageSchema,
+  limit: limitSchema,
+});
+
+// Saved invoice views; filters are the InvoiceFiltersState the view restores
+const savedViewFilters = z.record(z.string(), z.unknown());
+
+export const savedViewCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(80),
+  filters: savedViewFilters,
+  isDefault: z.boolean().default(false),
+  visibility: z.enum(SAVED_VIEW_VISIBILITIES).default('private'),
+  permission: z.enum(SAVED_VIEW_PERMISSIONS).default('read'),
+});
+
+export const savedViewUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(80).optional(),
+  filters: savedViewFilters.optional(),
+  isDefault: z.boolean().optional(),
+  visibility: z.enum(SAVED_VIEW_VISIBILITIES).optional(),
+  permission: z.enum(SAVED_VIEW_PERMISSIONS).optional(),
+}).refine(
+  (value) => Object.values(value).some((field) => field !== undefined),
+  'No changes provided'
+);
+
+export const savedViewDuplicateSchema = z.object({
+  name: z.string().trim().min(1).max(80).optional(),
+});
+
+// The caller's own views in display order
+export const savedViewOrderSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1, 'No views to order').max(200),
+});
+
+// Scheduled report deliveries; times are Sydney time
+const reportScheduleFields = z.object({
+  frequency: z.enum(REPORT_FREQUENCIES),
+  hour: z.number().int().min(0).max(23),
+  minute: z.number().int().min(0).max(59),
+  dayOfWeek: z.number().int().min(0).max(6).nullable(),
+  dayOfMonth: z.number().int().min(1).max(31).nullable(),
+  format: z.enum(REPORT_FORMATS),
+  recipients: z.array(z.string().trim().toLowerCase().email('Invalid recipient email'))
+    .min(1, 'At least one recipient is required')
+    .max(REPORT_MAX_RECIPIENTS, `At most ${REPORT_MAX_RECIPIENTS} recipients`),
+});
+
+export const reportScheduleCreateSchema = reportScheduleFields.extend({
+  savedViewId: z.string().min(1, 'Saved view is required'),
+  minute: reportScheduleFields.shape.minute.default(0),
+  dayOfWeek: reportScheduleFields.shape.dayOfWeek.default(null),
+  dayOfMonth: reportScheduleFields.shape.dayOfMonth.default(null),
+  format: reportScheduleFields.shape.format.default('csv'),
+}).refine(
+  (value) => value.frequency !== 'weekly' || value.dayOfWeek !== null,
+  { message: 'Pick a day of the week', path: ['dayOfWeek'] }
+).refine(
+  (value) => value.frequency !== 'monthly' || value.dayOfMonth !== null,
+  { message: 'Pick a day of the month', path: ['dayOfMonth'] }
+);
+
+export const reportScheduleUpdateSchema = reportScheduleFields.extend({
+  status: z.enum(['active', 'paused']),
+}).partial().refine(
+  (value) => Object.values(value).some((field) => field !== undefined),
+  'No changes provided'
+);
+
+export const reportUnsubscribeSchema = z.object({
+  schedule: z.string().min(1),
+  email: z.string().trim().toLowerCase().email(),
+  token: z.string().min(1),
+});
+
+// The invoices page filter state (InvoiceFiltersState), as sent with exports
+const filterDateRange = z.object({ start: z.string().optional(), end: z.string().optional() }).optional();
+
+export const invoiceFiltersStateSchema = z.object({
+  search: z.string().max(500).default(''),
+  statuses: z.array(z.enum(['pending', 'paid', 'overdue'])).default([]),
+  categories: z.array(z.string()).default([]),
+  vendors: z.array(z.string()).default([]),
+  amountRange: z.object({ min: z.number().optional(), max: z.number().optional() }).optional(),
+  dateRange: filterDateRange,
+  dueRange: filterDateRange,
+  aging: z.custom<AgingBucketKey>(isAgingBucket, 'Unknown aging bucket').optional(),
+  savedViewId: z.string().optional(),
+});
+
+export const invoiceExportSchema = z.object({
+  filters: invoiceFiltersStateSchema,
+  columns: z.array(z.enum(INVOICE_EXPORT_COLUMN_IDS))
+    .min(1, 'Pick at least one column')
+    .default(DEFAULT_INVOICE_EXPORT_COLUMNS),
+  format: z.enum(INVOICE_EXPORT_FORMATS).default('csv'),
+});
+
 // User creation schema
 export const userCreationSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -49,6 +344,23 @@ export const invoiceIdSchema = z.object({
 
 // Export types
 export type InvoiceStatusUpdate = z.infer<typeof invoiceStatusUpdateSchema>;
+export type InvoiceBulkStatusUpdate = z.infer<typeof invoiceBulkStatusUpdateSchema>;
+export type InvoicePaymentInput = z.infer<typeof invoicePaymentSchema>;
+export type CreditNoteInput = z.infer<typeof creditNoteSchema>;
+export type InvoiceCommentInput = z.infer<typeof invoiceCommentSchema>;
+export type DuplicateResolutionInput = z.infer<typeof duplicateResolutionSchema>;
+export type VendorDetailsInput = z.infer<typeof vendorDetailsSchema>;
+export type VendorUpdateInput = z.infer<typeof vendorUpdateSchema>;
+export type InvoiceApprovalInput = z.infer<typeof invoiceApprovalSchema>;
+export type ApprovalPolicyInput = z.infer<typeof approvalPolicySchema>;
+export type ApprovalPolicyUpdateInput = z.infer<typeof approvalPolicyUpdateSchema>;
 export type InvoiceQuery = z.infer<typeof invoiceQuerySchema>;
+export type AuditLogQueryInput = z.infer<typeof auditLogQuerySchema>;
+export type SavedViewCreateInput = z.infer<typeof savedViewCreateSchema>;
+export type SavedViewUpdateInput = z.infer<typeof savedViewUpdateSchema>;
+export type ReportScheduleCreateInput = z.infer<typeof reportScheduleCreateSchema>;
+export type ReportScheduleUpdateInput = z.infer<typeof reportScheduleUpdateSchema>;
+export type InvoiceExportInput = z.infer<typeof invoiceExportSchema>;
+export type InvoiceEditInput = z.infer<typeof invoiceEditSchema>;
 export type UserCreation = z.infer<typeof userCreationSchema>;
 export type InvoiceId = z.infer<typeof invoiceIdSchema>;
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { pageSchema, limitSchema, sortOrderSchema, sortBySchema } from './pagination';
+import { isAllowedDocumentSource } from '../document-types';
 
 // Invoice query schema with all supported filters
 export const invoicesQuerySchema = z.object({
@@ -24,6 +25,14 @@ export const invoicesQuerySchema = z.object({
   search: z.string().optional(),
 });
 
+// Accepts either a full ISO timestamp or a plain YYYY-MM-DD date (HTML date inputs)
+const dateOrDateTimeSchema = z.string().datetime().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date'));
+
+// Document links; storage:// sources must be in the invoice documents bucket
+const documentUrlSchema = z.string().trim().url().refine(isAllowedDocumentSource, {
+  message: 'Stored documents must be in the invoice documents bucket',
+});
+
 // Invoice creation schema - minimum required fields
 export const invoiceCreateSchema = z.object({
   invoice_number: z.string().min(1, 'Invoice number is required'),
@@ -35,16 +44,31 @@ export const invoiceCreateSchema = z.object({
   subject: z.string().optional(),
   from_email: z.string().email().optional(),
   from_name: z.string().optional(),
-  received_date: z.string().datetime().optional(),
+  received_date: dateOrDateTimeSchema.optional(),
   category: z.string().optional(),
-  due_date: z.string().datetime().optional(),
-  onedrive_link: z.string().url().optional(),
-  xero_link: z.string().url().optional(),
+  due_date: dateOrDateTimeSchema.optional(),
+
+  // Invoice details (manual entry)
+  invoice_date: dateOrDateTimeSchema.optional(),
+  supplier_email: z.string().email().optional(),
+  supplier_abn: z.string().regex(/^\d{2} ?\d{3} ?\d{3} ?\d{3}$/, 'ABN must be 11 digits').optional(),
+  subtotal: z.number().min(0).optional(),
+  gst_total: z.number().min(0).optional(),
+  amount_due: z.number().min(0).optional(),
+  description: z.string().optional(),
+  notes: z.string().optional(),
+  file_url: documentUrlSchema.optional(),
+  file_checksum: z.string().optional(),
+  onedrive_link: documentUrlSchema.optional(),
+  xero_link: documentUrlSchema.optional(),
   processing_status: z.string().default('pending'),
   
   // Payment tracking
-  payment_status: z.enum(['pending', 'processing', 'paid', 'overdue', 'cancelled', 'disputed']).default('pending'),
-  payment_date: z.string().datetime().optional(),
+  // New invoices start unapproved and unpaid; approving and paying go through the status workflow
+  payment_status: z.enum(['pending', 'in_review'], {
+    message: 'New invoices start as pending or in review; approve or pay them once created'
+  }).default('pending'),
+  payment_date: dateOrDateTimeSchema.optional(),
   payment_method: z.string().optional(),
   transaction_id: z.string().optional(),
   payment_notes: z.string().optional(),
@@ -61,4 +85,5 @@ export const invoiceUpdateSchema = invoiceCreateSchema.partial();
 
 export type InvoicesQuery = z.infer<typeof invoicesQuerySchema>;
 export type InvoiceCreate = z.infer<typeof invoiceCreateSchema>;
+export type InvoiceCreateInput = z.input<typeof invoiceCreateSchema>;
 export type InvoiceUpdate = z.infer<typeof invoiceUpdateSchema>;
\ No newline at end of file
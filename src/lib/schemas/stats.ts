@@ -36,6 +36,7 @@ export interface StatsBreakdowns {
   }>;
   topVendors: Array<{
     vendor: string;
+    vendorId?: string | null;
     count: number;
     amount: number;
   }>;
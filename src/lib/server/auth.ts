@@ -1,4 +1,5 @@
 import { createServerClient } from '@supabase/ssr';
+import { isAuthSessionMissingError, type User } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
 import { isSupabaseConfigured } from './env';
 
@@ -14,7 +15,20 @@ export interface AuthResult {
 }
 
 /**
- * Verify Supabase authentication for API routes
+ * Role used for authorisation (approvals, admin-only changes, the audit
+ * log). Read from `app_metadata`, which only the service role can write;
+ * `user_metadata` is editable by users themselves, so a role there is
+ * never trusted.
+ */
+export function roleFromUser(user: Pick<User, 'app_metadata'>): string {
+  const role = user.app_metadata?.role;
+  return typeof role === 'string' && role ? role : 'user';
+}
+
+/**
+ * Verify Supabase authentication for API routes. The user is fetched from
+ * Supabase Auth rather than read from the session cookie, so its role
+ * cannot be edited client-side.
  */
 export async function verifyAPIAuth(request: NextRequest): Promise<AuthResult> {
   if (!isSupabaseConfigured()) {
@@ -44,16 +58,16 @@ export async function verifyAPIAuth(request: NextRequest): Promise<AuthResult> {
       }
     );
 
-    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    const { data: { user: authUser }, error: userError } = await supabase.auth.getUser();
 
-    if (sessionError) {
+    if (userError && !isAuthSessionMissingError(userError)) {
       return {
         user: null,
-        error: `Session error: ${sessionError.message}`
+        error: `Session error: ${userError.message}`
       };
     }
 
-    if (!session?.user) {
+    if (!authUser) {
       return {
         user: null,
         error: 'No authenticated user'
@@ -61,9 +75,9 @@ export async function verifyAPIAuth(request: NextRequest): Promise<AuthResult> {
     }
 
     const user: AuthenticatedUser = {
-      id: session.user.id,
-      email: session.user.email || '',
-      role: session.user.user_metadata?.role || 'user'
+      id: authUser.id,
+      email: authUser.email || '',
+      role: roleFromUser(authUser)
     };
 
     return {
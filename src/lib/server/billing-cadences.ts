@@ -0,0 +1,41 @@
+import 'server-only'
+
+import {
+  buildRecurringInsights,
+  learnCadences,
+  type AnomalyInvoice,
+  type BillingCadence,
+  type RecurringInsights,
+} from '@/lib/billing-cadence'
+import type { VendorIndex } from '@/lib/vendor-matching'
+import type { InvoiceRecord } from './invoice-columns'
+import { canonicalVendor } from './payables-filters'
+
+/**
+ * Invoice history as cadence input. Credit notes, adjustments and confirmed
+ * duplicates are not bills, and every spelling of a vendor counts towards
+ * the same cadence.
+ */
+function cadenceInvoices(history: InvoiceRecord[], vendorIndex: VendorIndex): AnomalyInvoice[] {
+  return history
+    .filter((invoice) => invoice.documentType === 'invoice' && !invoice.duplicateOfId)
+    .map((invoice) => ({
+      id: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      ...canonicalVendor(invoice, vendorIndex),
+      category: invoice.category,
+      amount: invoice.amount,
+      issueDate: invoice.issueDate ?? invoice.receivedDate,
+      dueDate: invoice.dueDate,
+    }))
+}
+
+/** Recurring vendors' billing cadences from invoice history. */
+export function learnVendorCadences(history: InvoiceRecord[], vendorIndex: VendorIndex): BillingCadence[] {
+  return learnCadences(cadenceInvoices(history, vendorIndex))
+}
+
+/** Recurring vendors, missing bills and unusual amounts from invoice history. */
+export function getRecurringInsights(history: InvoiceRecord[], vendorIndex: VendorIndex, now: Date = new Date()): RecurringInsights {
+  return buildRecurringInsights(cadenceInvoices(history, vendorIndex), now)
+}
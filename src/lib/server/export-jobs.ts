@@ -0,0 +1,401 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { getSupabaseAdmin } from './supabase-admin'
+import { countInvoices } from './invoice-repository'
+import { exportInvoicePages, resolveExportFilters, type InvoiceExportRequest } from './invoice-export'
+import { createInvoiceExportEncoder } from './invoice-export-encoder'
+import type { SavedViewActor } from '../saved-views'
+import {
+  INVOICE_EXPORT_RETENTION_DAYS,
+  invoiceExportFilename,
+  isExportJobActive,
+  type InvoiceExportColumnId,
+  type InvoiceExportFormat,
+  type InvoiceExportJobStatus,
+} from '../invoice-export'
+import type { InvoiceFiltersState } from '@/types/invoice-filters'
+
+/**
+ * Background invoice exports (migrations/invoice-export-jobs.sql). Creating
+ * a job counts the matching invoices; the route then runs it after
+ * responding, and the browser polls the job for progress. A running job
+ * records the rows written after each page, and that update only matches
+ * while the job is still running, so cancelling it stops the run at the
+ * next page. The finished file goes to the private `invoice-exports` bucket
+ * and can be downloaded by its owner for INVOICE_EXPORT_RETENTION_DAYS.
+ *
+ * `runExportMaintenance` is called by the cron route: it starts queued jobs
+ * nothing picked up, fails jobs whose function died mid-run, and removes
+ * expired files.
+ */
+
+const JOBS_TABLE = 'invoice_export_jobs'
+const DAY_MS = 24 * 60 * 60 * 1000
+// Queued this long without starting: the run after the request never happened
+const UNSTARTED_AFTER_MS = 60 * 1000
+// No page written for this long: the function running the job was stopped
+const STALLED_AFTER_MS = 10 * 60 * 1000
+// Queued jobs started per maintenance run, to stay within the function's time limit
+const MAINTENANCE_RUN_LIMIT = 3
+
+export interface ExportJob {
+  id: string
+  ownerId: string
+  ownerEmail: string | null
+  status: InvoiceExportJobStatus
+  format: InvoiceExportFormat
+  columns: InvoiceExportColumnId[]
+  filters: InvoiceFiltersState
+  rowsTotal: number | null
+  rowsWritten: number
+  filename: string | null
+  contentType: string | null
+  byteSize: number | null
+  error: string | null
+  createdAt: string | null
+  startedAt: string | null
+  finishedAt: string | null
+  expiresAt: string | null
+}
+
+export type CreateExportJobResult =
+  | { outcome: 'created'; job: ExportJob }
+  | { outcome: 'empty' }
+
+export type CancelExportJobResult =
+  | { outcome: 'cancelled'; job: ExportJob }
+  | { outcome: 'not_found' }
+  | { outcome: 'conflict'; message: string }
+
+export type OpenExportFileResult =
+  | { outcome: 'ok'; stream: ReadableStream<Uint8Array>; size: number; filename: string; contentType: string }
+  | { outcome: 'not_found' }
+  | { outcome: 'not_ready'; status: InvoiceExportJobStatus }
+  | { outcome: 'expired' }
+
+export interface ExportJobRunOptions {
+  now?: Date
+  client?: SupabaseClient
+}
+
+export interface ExportMaintenanceSummary {
+  started: number
+  stalled: number
+  expired: number
+}
+
+export function exportBucket(): string {
+  return process.env.INVOICE_EXPORTS_BUCKET || 'invoice-exports'
+}
+
+function mapExportJobRow(row: Record<string, any>): ExportJob {
+  return {
+    id: String(row.id),
+    ownerId: String(row.user_id ?? ''),
+    ownerEmail: row.owner_email ?? null,
+    status: (row.status ?? 'queued') as InvoiceExportJobStatus,
+    format: (row.format ?? 'csv') as InvoiceExportFormat,
+    columns: Array.isArray(row.columns) ? (row.columns as InvoiceExportColumnId[]) : [],
+    filters: (row.filters ?? {}) as InvoiceFiltersState,
+    rowsTotal: row.rows_total ?? null,
+    rowsWritten: Number(row.rows_written ?? 0),
+    filename: row.filename ?? null,
+    contentType: row.content_type ?? null,
+    byteSize: row.byte_size === null || row.byte_size === undefined ? null : Number(row.byte_size),
+    error: row.error ?? null,
+    createdAt: row.created_at ?? null,
+    startedAt: row.started_at ?? null,
+    finishedAt: row.finished_at ?? null,
+    expiresAt: row.expires_at ?? null,
+  }
+}
+
+// Only the owner sees an export, admins included: the file holds what they could see
+async function loadOwnJobRow(id: string, actor: SavedViewActor, client: SupabaseClient) {
+  const { data, error } = await client.from(JOBS_TABLE).select('*').eq('id', id).eq('user_id', actor.id).maybeSingle()
+  if (error) throw error
+  return (data as Record<string, any> | null) ?? null
+}
+
+/** The actor's exports, newest first. */
+export async function listExportJobs(
+  actor: SavedViewActor,
+  limit = 50,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<ExportJob[]> {
+  const { data, error } = await client
+    .from(JOBS_TABLE)
+    .select('*')
+    .eq('user_id', actor.id)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data ?? []).map(mapExportJobRow)
+}
+
+export async function getExportJob(
+  id: string,
+  actor: SavedViewActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<ExportJob | null> {
+  const row = await loadOwnJobRow(id, actor, client)
+  return row ? mapExportJobRow(row) : null
+}
+
+/** Queue an export of the invoices matching the filters; nothing is queued when none match. */
+export async function createExportJob(
+  request: InvoiceExportRequest,
+  actor: SavedViewActor,
+  now: Date = new Date(),
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<CreateExportJobResult> {
+  const rowsTotal = await countInvoices(await resolveExportFilters(request.filters, now), client, now)
+  if (rowsTotal === 0) return { outcome: 'empty' }
+
+  const { data, error } = await client
+    .from(JOBS_TABLE)
+    .insert({
+      user_id: actor.id,
+      owner_email: actor.email ?? null,
+      status: 'queued',
+      format: request.format,
+      columns: request.columns,
+      filters: request.filters,
+      rows_total: rowsTotal,
+      rows_written: 0,
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return { outcome: 'created', job: mapExportJobRow(data) }
+}
+
+export async function cancelExportJob(
+  id: string,
+  actor: SavedViewActor,
+  now: Date = new Date(),
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<CancelExportJobResult> {
+  const job = await getExportJob(id, actor, client)
+  if (!job) return { outcome: 'not_found' }
+  if (!isExportJobActive(job.status)) return { outcome: 'conflict', message: `The export is already ${job.status}` }
+
+  const { data, error } = await client
+    .from(JOBS_TABLE)
+    .update({ status: 'cancelled', finished_at: now.toISOString(), updated_at: now.toISOString() })
+    .eq('id', id)
+    .in('status', ['queued', 'running'])
+    .select('*')
+    .maybeSingle()
+
+  if (error) throw error
+  // Finished between the read and the update
+  if (!data) return { outcome: 'conflict', message: 'The export has already finished' }
+  return { outcome: 'cancelled', job: mapExportJobRow(data) }
+}
+
+// Update a running job; null once it is no longer running (cancelled, or failed by maintenance)
+async function updateRunningJob(client: SupabaseClient, id: string, changes: Record<string, unknown>): Promise<Record<string, any> | null> {
+  const { data, error } = await client
+    .from(JOBS_TABLE)
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'running')
+    .select('*')
+    .maybeSingle()
+  if (error) throw error
+  return data ?? null
+}
+
+/**
+ * Run a queued export to the end: claim it, then write the invoices a page
+ * at a time straight into the file upload, recording progress after each
+ * page, so only the page being written is held in memory. Returns the
+ * finished job, or null when it was already claimed or was cancelled.
+ */
+export async function runExportJob(id: string, options: ExportJobRunOptions = {}): Promise<ExportJob | null> {
+  const client = options.client ?? getSupabaseAdmin()
+  const now = options.now ?? new Date()
+
+  const { data: claimed, error } = await client
+    .from(JOBS_TABLE)
+    .update({ status: 'running', started_at: now.toISOString(), updated_at: now.toISOString() })
+    .eq('id', id)
+    .eq('status', 'queued')
+    .select('*')
+    .maybeSingle()
+  if (error) throw error
+  if (!claimed) return null
+
+  const job = mapExportJobRow(claimed)
+  const bucket = exportBucket()
+  let storagePath: string | null = null
+
+  try {
+    const encoder = createInvoiceExportEncoder(job.format, job.columns, now)
+    const pages = exportInvoicePages(await resolveExportFilters(job.filters, now), now)
+    let rowsWritten = 0
+    let byteSize = 0
+    let cancelled = false
+    // Why the body stopped early; the upload itself only sees an aborted request
+    let bodyError: unknown = null
+
+    const send = (controller: ReadableStreamDefaultController<Uint8Array>, chunk: Uint8Array) => {
+      byteSize += chunk.byteLength
+      if (chunk.byteLength) controller.enqueue(chunk)
+    }
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        send(controller, await encoder.start())
+      },
+      async pull(controller) {
+        try {
+          const next = await pages.next()
+          if (next.done) {
+            send(controller, await encoder.finish())
+            controller.close()
+            return
+          }
+          send(controller, await encoder.write(next.value))
+          rowsWritten += next.value.length
+          if (!(await updateRunningJob(client, id, { rows_written: rowsWritten }))) {
+            cancelled = true
+            controller.error(new Error('The export was cancelled'))
+          }
+        } catch (pageError) {
+          bodyError = pageError
+          controller.error(pageError)
+        }
+      },
+    })
+
+    const filename = invoiceExportFilename(job.format, now)
+    storagePath = `${job.ownerId}/${job.id}/${filename}`
+    const { error: uploadError } = await client.storage
+      .from(bucket)
+      .upload(storagePath, body, { contentType: encoder.contentType, upsert: true, duplex: 'half' })
+    if (cancelled) {
+      await client.storage.from(bucket).remove([storagePath]).catch(() => undefined)
+      return null
+    }
+    if (bodyError) throw bodyError
+    if (uploadError) throw uploadError
+
+    const finishedAt = new Date()
+    const finished = await updateRunningJob(client, id, {
+      status: 'completed',
+      rows_written: rowsWritten,
+      filename,
+      content_type: encoder.contentType,
+      storage_path: storagePath,
+      byte_size: byteSize,
+      finished_at: finishedAt.toISOString(),
+      expires_at: new Date(finishedAt.getTime() + INVOICE_EXPORT_RETENTION_DAYS * DAY_MS).toISOString(),
+    })
+    if (!finished) {
+      // Cancelled while the file was uploading
+      await client.storage.from(bucket).remove([storagePath])
+      return null
+    }
+    return mapExportJobRow(finished)
+  } catch (error) {
+    console.error('Unexpected error running invoice export', error)
+    const failed = await updateRunningJob(client, id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      finished_at: new Date().toISOString(),
+    }).catch(() => null)
+    if (storagePath) await client.storage.from(bucket).remove([storagePath]).catch(() => undefined)
+    return failed ? mapExportJobRow(failed) : null
+  }
+}
+
+/** The finished file, for its owner, until it expires. */
+export async function openExportFile(
+  id: string,
+  actor: SavedViewActor,
+  now: Date = new Date(),
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<OpenExportFileResult> {
+  const row = await loadOwnJobRow(id, actor, client)
+  if (!row) return { outcome: 'not_found' }
+
+  const job = mapExportJobRow(row)
+  if (job.status === 'expired' || (job.expiresAt && new Date(job.expiresAt) <= now)) return { outcome: 'expired' }
+  if (job.status !== 'completed' || !row.storage_path) return { outcome: 'not_ready', status: job.status }
+
+  const { data, error } = await client.storage.from(exportBucket()).download(String(row.storage_path))
+  if (error || !data) {
+    console.error('Invoice export download error:', error)
+    return { outcome: 'not_found' }
+  }
+
+  return {
+    outcome: 'ok',
+    stream: data.stream() as ReadableStream<Uint8Array>,
+    size: data.size,
+    filename: job.filename ?? invoiceExportFilename(job.format, new Date(job.finishedAt ?? now)),
+    contentType: job.contentType ?? data.type,
+  }
+}
+
+/**
+ * Start queued jobs nothing picked up, fail running jobs that stopped
+ * writing pages, and remove files past their retention.
+ */
+export async function runExportMaintenance(options: ExportJobRunOptions = {}): Promise<ExportMaintenanceSummary> {
+  const client = options.client ?? getSupabaseAdmin()
+  const now = options.now ?? new Date()
+  const summary: ExportMaintenanceSummary = { started: 0, stalled: 0, expired: 0 }
+
+  const { data: stalled, error: stalledError } = await client
+    .from(JOBS_TABLE)
+    .update({
+      status: 'failed',
+      error: 'The export stopped before it finished. Start it again.',
+      finished_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq('status', 'running')
+    .lt('updated_at', new Date(now.getTime() - STALLED_AFTER_MS).toISOString())
+    .select('id')
+  if (stalledError) throw stalledError
+  summary.stalled = stalled?.length ?? 0
+
+  const { data: expired, error: expiredError } = await client
+    .from(JOBS_TABLE)
+    .select('id, storage_path')
+    .eq('status', 'completed')
+    .lte('expires_at', now.toISOString())
+  if (expiredError) throw expiredError
+  if (expired?.length) {
+    const paths = expired.map((row) => row.storage_path).filter((path): path is string => Boolean(path))
+    if (paths.length) {
+      const { error } = await client.storage.from(exportBucket()).remove(paths)
+      if (error) throw error
+    }
+    const { error } = await client
+      .from(JOBS_TABLE)
+      .update({ status: 'expired', storage_path: null, updated_at: now.toISOString() })
+      .in('id', expired.map((row) => row.id))
+    if (error) throw error
+    summary.expired = expired.length
+  }
+
+  const { data: queued, error: queuedError } = await client
+    .from(JOBS_TABLE)
+    .select('id')
+    .eq('status', 'queued')
+    .lt('created_at', new Date(now.getTime() - UNSTARTED_AFTER_MS).toISOString())
+    .order('created_at', { ascending: true })
+    .limit(MAINTENANCE_RUN_LIMIT)
+  if (queuedError) throw queuedError
+  for (const row of queued ?? []) {
+    if (await runExportJob(String(row.id), { client })) summary.started += 1
+  }
+
+  return summary
+}
@@ -0,0 +1,287 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { getSupabaseAdmin } from './supabase-admin'
+import { normaliseInvoiceFilters } from './invoice-query'
+import { scanInvoices, type InvoiceRecord } from './invoice-repository'
+import {
+  approvalProgress,
+  canApprove,
+  selectApprovalPolicy,
+  type ApprovalPolicy,
+  type ApprovalProgress,
+} from '../approval-policy'
+
+/**
+ * Approval policies and the per-invoice approval record. Status changes to
+ * `approved` go through `changeInvoiceStatus`, which uses the state loaded
+ * here to count sign-offs; this module only reads and writes the tables.
+ */
+
+const POLICIES_TABLE = 'approval_policies'
+const APPROVALS_TABLE = 'invoice_approvals'
+
+/** Statuses an invoice can be approved from */
+const AWAITING_STATUSES = ['pending', 'in_review', 'overdue']
+
+export interface InvoiceApproval {
+  id: string
+  invoiceId: string
+  policyId: string | null
+  policyName: string | null
+  requiredApprovals: number
+  decision: 'approved' | 'rejected'
+  comment: string | null
+  approverUserId: string
+  approverEmail: string | null
+  /** Set when the invoice was rejected or reopened; the approval no longer counts */
+  supersededAt: string | null
+  createdAt: string | null
+}
+
+export interface ApprovalActor {
+  id: string
+  email?: string
+  role: string
+}
+
+export interface ApprovalState {
+  policy: ApprovalPolicy
+  progress: ApprovalProgress
+  /** Every decision on the invoice, oldest first, including superseded ones */
+  history: InvoiceApproval[]
+}
+
+export type ApprovalPolicyDetails = Omit<ApprovalPolicy, 'id'>
+
+export type SaveApprovalPolicyResult =
+  | { outcome: 'saved'; policy: ApprovalPolicy }
+  | { outcome: 'not_found' }
+
+export interface AwaitingApprovalItem {
+  invoice: InvoiceRecord
+  progress: ApprovalProgress
+  approvals: InvoiceApproval[]
+}
+
+function mapPolicyRow(row: Record<string, any>): ApprovalPolicy {
+  return {
+    id: String(row.id),
+    name: String(row.name ?? ''),
+    minAmount: Number(row.min_amount ?? 0),
+    maxAmount: row.max_amount === null || row.max_amount === undefined ? null : Number(row.max_amount),
+    categories: Array.isArray(row.categories) ? row.categories.map(String) : [],
+    vendorIds: Array.isArray(row.vendor_ids) ? row.vendor_ids.map(String) : [],
+    requiredApprovals: Number(row.required_approvals ?? 1),
+    approverRoles: Array.isArray(row.approver_roles) ? row.approver_roles.map(String) : [],
+    priority: Number(row.priority ?? 0),
+    active: row.active !== false,
+  }
+}
+
+function toPolicyColumns(details: Partial<ApprovalPolicyDetails>): Record<string, unknown> {
+  const columns: Record<string, unknown> = {}
+  if (details.name !== undefined) columns.name = details.name.trim()
+  if (details.minAmount !== undefined) columns.min_amount = details.minAmount
+  if (details.maxAmount !== undefined) columns.max_amount = details.maxAmount
+  if (details.categories !== undefined) columns.categories = details.categories.map((value) => value.trim()).filter(Boolean)
+  if (details.vendorIds !== undefined) columns.vendor_ids = details.vendorIds
+  if (details.requiredApprovals !== undefined) columns.required_approvals = details.requiredApprovals
+  if (details.approverRoles !== undefined) columns.approver_roles = details.approverRoles.map((value) => value.trim().toLowerCase())
+  if (details.priority !== undefined) columns.priority = details.priority
+  if (details.active !== undefined) columns.active = details.active
+  return columns
+}
+
+function mapApprovalRow(row: Record<string, any>): InvoiceApproval {
+  return {
+    id: String(row.id),
+    invoiceId: String(row.invoice_id),
+    policyId: row.policy_id ?? null,
+    policyName: row.policy_name ?? null,
+    requiredApprovals: Number(row.required_approvals ?? 1),
+    decision: row.decision === 'rejected' ? 'rejected' : 'approved',
+    comment: row.comment ?? null,
+    approverUserId: String(row.approver_user_id ?? ''),
+    approverEmail: row.approver_email ?? null,
+    supersededAt: row.superseded_at ?? null,
+    createdAt: row.created_at ?? null,
+  }
+}
+
+/** Configured policies, highest priority first. */
+export async function listApprovalPolicies(client: SupabaseClient = getSupabaseAdmin()): Promise<ApprovalPolicy[]> {
+  const { data, error } = await client
+    .from(POLICIES_TABLE)
+    .select('*')
+    .order('priority', { ascending: false })
+    .order('min_amount')
+  if (error) throw error
+  return (data ?? []).map(mapPolicyRow)
+}
+
+/**
+ * Same as listApprovalPolicies, but an empty list when the table is missing,
+ * so the default policies apply.
+ */
+export async function loadApprovalPoliciesOrDefault(client: SupabaseClient = getSupabaseAdmin()): Promise<ApprovalPolicy[]> {
+  try {
+    return await listApprovalPolicies(client)
+  } catch (error) {
+    console.warn('Approval policies unavailable, using defaults:', error)
+    return []
+  }
+}
+
+export async function createApprovalPolicy(
+  details: ApprovalPolicyDetails,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<ApprovalPolicy> {
+  const { data, error } = await client.from(POLICIES_TABLE).insert(toPolicyColumns(details)).select('*').single()
+  if (error) throw error
+  return mapPolicyRow(data)
+}
+
+export async function updateApprovalPolicy(
+  id: string,
+  details: Partial<ApprovalPolicyDetails>,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<SaveApprovalPolicyResult> {
+  const { data, error } = await client
+    .from(POLICIES_TABLE)
+    .update({ ...toPolicyColumns(details), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('*')
+    .maybeSingle()
+  if (error) throw error
+  return data ? { outcome: 'saved', policy: mapPolicyRow(data) } : { outcome: 'not_found' }
+}
+
+/** Returns false when the policy does not exist. */
+export async function deleteApprovalPolicy(
+  id: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<boolean> {
+  const { data, error } = await client.from(POLICIES_TABLE).delete().eq('id', id).select('id')
+  if (error) throw error
+  return (data ?? []).length > 0
+}
+
+/** Every approval decision on an invoice, oldest first. */
+export async function listInvoiceApprovals(
+  invoiceId: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<InvoiceApproval[]> {
+  const { data, error } = await client
+    .from(APPROVALS_TABLE)
+    .select('*')
+    .eq('invoice_id', invoiceId)
+    .order('created_at', { ascending: true })
+  if (error) throw error
+  return (data ?? []).map(mapApprovalRow)
+}
+
+function approvalSubject(invoice: InvoiceRecord) {
+  return {
+    amount: invoice.amount,
+    category: invoice.category,
+    vendorId: invoice.vendorId,
+    uploadedByUserId: invoice.uploadedByUserId,
+  }
+}
+
+/** The policy governing an invoice and the approvals that count towards it. */
+export async function getApprovalState(
+  invoice: InvoiceRecord,
+  client: SupabaseClient = getSupabaseAdmin(),
+  policies?: ApprovalPolicy[],
+): Promise<ApprovalState> {
+  const [configured, history] = await Promise.all([
+    policies ?? loadApprovalPoliciesOrDefault(client),
+    listInvoiceApprovals(invoice.id, client),
+  ])
+  const policy = selectApprovalPolicy(approvalSubject(invoice), configured)
+  const active = history.filter((approval) => !approval.supersededAt)
+  return { policy, progress: approvalProgress(policy, active), history }
+}
+
+/** Append a decision to the invoice's approval record. Does not touch the invoice. */
+export async function insertApproval(
+  invoice: Pick<InvoiceRecord, 'id'>,
+  actor: ApprovalActor,
+  policy: ApprovalPolicy,
+  decision: InvoiceApproval['decision'],
+  comment: string | null = null,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<InvoiceApproval> {
+  const { data, error } = await client
+    .from(APPROVALS_TABLE)
+    .insert({
+      invoice_id: invoice.id,
+      policy_id: policy.id,
+      policy_name: policy.name,
+      required_approvals: policy.requiredApprovals,
+      decision,
+      comment,
+      approver_user_id: actor.id,
+      approver_email: actor.email ?? null,
+    })
+    .select('*')
+    .single()
+  if (error) throw error
+  return mapApprovalRow(data)
+}
+
+/**
+ * Stop the invoice's current approvals from counting, e.g. after it is
+ * rejected or reopened. The rows stay as history.
+ */
+export async function supersedeApprovals(
+  invoiceId: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<void> {
+  const { error } = await client
+    .from(APPROVALS_TABLE)
+    .update({ superseded_at: new Date().toISOString() })
+    .eq('invoice_id', invoiceId)
+    .is('superseded_at', null)
+  if (error) throw error
+}
+
+/**
+ * Invoices the actor can approve now: open invoices (not duplicates) whose
+ * policy still needs approvals, that the actor did not upload or already
+ * approve, and whose policy accepts the actor's role. Oldest due first.
+ */
+export async function listAwaitingApproval(
+  actor: ApprovalActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+  now: Date = new Date(),
+): Promise<AwaitingApprovalItem[]> {
+  const [invoices, policies, activeApprovals] = await Promise.all([
+    scanInvoices(normaliseInvoiceFilters({ statuses: AWAITING_STATUSES }), client, now),
+    loadApprovalPoliciesOrDefault(client),
+    client.from(APPROVALS_TABLE).select('*').is('superseded_at', null).order('created_at', { ascending: true }),
+  ])
+  if (activeApprovals.error) throw activeApprovals.error
+
+  const byInvoice = new Map<string, InvoiceApproval[]>()
+  for (const approval of (activeApprovals.data ?? []).map(mapApprovalRow)) {
+    const list = byInvoice.get(approval.invoiceId) ?? []
+    list.push(approval)
+    byInvoice.set(approval.invoiceId, list)
+  }
+
+  const items: AwaitingApprovalItem[] = []
+  for (const invoice of invoices) {
+    if (invoice.duplicateOfId) continue
+    const subject = approvalSubject(invoice)
+    const approvals = byInvoice.get(invoice.id) ?? []
+    const progress = approvalProgress(selectApprovalPolicy(subject, policies), approvals)
+    if (progress.remaining === 0) continue
+    if (!canApprove(actor, subject, progress).allowed) continue
+    items.push({ invoice, progress, approvals: approvals.filter((approval) => approval.decision === 'approved') })
+  }
+
+  return items.sort((a, b) => (a.invoice.dueDate ?? '9999').localeCompare(b.invoice.dueDate ?? '9999'))
+}
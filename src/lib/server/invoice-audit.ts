@@ -0,0 +1,190 @@
+import 'server-only'
+import type { NextRequest } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { getSupabaseAdmin } from './supabase-admin'
+import type { AuthenticatedUser } from './auth'
+import type { AuditLog } from '../types'
+import type { AuditSource, FieldChange } from '../invoice-history'
+
+/**
+ * The audit log: one `AuditLog` row per mutation of an invoice, vendor,
+ * approval policy or batch, whichever route or the chat assistant made it.
+ * Invoice entries are keyed by invoice id; entries written before that were
+ * keyed by invoice number, so invoice history matches both.
+ *
+ * Every entry records its source (ui, chat, api or ingestion) and a request
+ * id shared by all entries written while handling the same request. The
+ * source is decided on the server, never by the caller: routes that know
+ * better (the chat assistant, an ingestion endpoint) set it on the entry;
+ * otherwise same-origin browser requests are `ui` and the rest `api`.
+ *
+ * Only admins and auditors can read the log back.
+ */
+
+const AUDIT_TABLE = 'AuditLog'
+
+const AUDIT_LOG_ROLES = ['admin', 'auditor']
+
+export interface InvoiceAuditEntry {
+  entityType?: string
+  entityId: string
+  action: string
+  changes: Record<string, unknown>
+  /** Per-field before and after values */
+  fields?: FieldChange[]
+  /** Defaults to the source the request came from */
+  source?: AuditSource
+}
+
+type AuditActor = Pick<AuthenticatedUser, 'id' | 'email'>
+
+export interface AuditLogQuery {
+  entityType?: string
+  /** Any of these ids */
+  entityIds?: string[]
+  userId?: string
+  actions?: string[]
+  dateFrom?: string
+  dateTo?: string
+  page?: number
+  limit?: number
+}
+
+const requestIds = new WeakMap<NextRequest, string>()
+
+function requestIdFor(request: NextRequest): string {
+  let id = requestIds.get(request)
+  if (!id) {
+    id = request.headers.get('x-request-id') || crypto.randomUUID()
+    requestIds.set(request, id)
+  }
+  return id
+}
+
+// Browsers set Sec-Fetch-Site themselves; scripts cannot make a cross-site request claim same-origin
+export function auditSourceFor(request: NextRequest): AuditSource {
+  return request.headers.get('sec-fetch-site') === 'same-origin' ? 'ui' : 'api'
+}
+
+/** Whether the user may read the audit log. */
+export function canReadAuditLog(user: Pick<AuthenticatedUser, 'role'>): boolean {
+  return AUDIT_LOG_ROLES.includes(user.role.toLowerCase())
+}
+
+function toAuditRow(request: NextRequest, user: AuditActor, entry: InvoiceAuditEntry, timestamp: string) {
+  return {
+    entityType: entry.entityType ?? 'invoice',
+    entityId: entry.entityId,
+    action: entry.action,
+    userId: user.id,
+    changes: {
+      ...entry.changes,
+      ...(entry.fields && { fields: entry.fields }),
+      source: entry.source ?? auditSourceFor(request),
+      request_id: requestIdFor(request),
+      user_email: user.email,
+      timestamp,
+    },
+    ipAddress: request.headers.get('x-forwarded-for') ||
+               request.headers.get('x-real-ip') ||
+               'unknown',
+    userAgent: request.headers.get('user-agent') || 'unknown',
+  }
+}
+
+function mapAuditRow(row: Record<string, any>): AuditLog {
+  const changes = row.changes ?? {}
+  return {
+    id: String(row.id),
+    entityType: String(row.entityType),
+    entityId: String(row.entityId),
+    action: String(row.action),
+    userId: row.userId ?? null,
+    userEmail: changes.user_email ?? null,
+    changes,
+    ipAddress: row.ipAddress ?? null,
+    userAgent: row.userAgent ?? null,
+    createdAt: row.createdAt ?? changes.timestamp ?? null,
+  }
+}
+
+/**
+ * Record invoice mutations in the AuditLog table with a single insert.
+ * Failures are logged and swallowed so a missing audit table never blocks
+ * the mutation itself; returns the stored entries, or null when they could
+ * not be stored.
+ */
+export async function writeInvoiceAuditEntries(
+  request: NextRequest,
+  user: AuditActor,
+  entries: InvoiceAuditEntry[],
+): Promise<AuditLog[] | null> {
+  if (entries.length === 0) return []
+
+  const timestamp = new Date().toISOString()
+  const rows = entries.map((entry) => toAuditRow(request, user, entry, timestamp))
+
+  const { data, error } = await getSupabaseAdmin().from(AUDIT_TABLE).insert(rows).select()
+
+  if (error) {
+    console.error('Failed to create audit log:', {
+      error,
+      rows,
+      table: AUDIT_TABLE,
+    })
+    return null
+  }
+
+  return (data ?? []).map(mapAuditRow)
+}
+
+export async function writeInvoiceAudit(
+  request: NextRequest,
+  user: AuditActor,
+  entry: InvoiceAuditEntry,
+) {
+  const rows = await writeInvoiceAuditEntries(request, user, [entry])
+  return rows?.[0] ?? null
+}
+
+/** One audit entry by id, or null when there is none. */
+export async function getAuditEntry(
+  id: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<AuditLog | null> {
+  const { data, error } = await client.from(AUDIT_TABLE).select('*').eq('id', id).maybeSingle()
+  if (error) throw error
+  return data ? mapAuditRow(data) : null
+}
+
+/** A page of audit entries, newest first, with the total matching count. */
+export async function listAuditEntries(
+  query: AuditLogQuery,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<{ entries: AuditLog[]; total: number }> {
+  const page = query.page ?? 0
+  const limit = query.limit ?? 20
+
+  let request = client.from(AUDIT_TABLE).select('*', { count: 'exact' })
+  if (query.entityType) request = request.eq('entityType', query.entityType)
+  if (query.entityIds?.length) request = request.in('entityId', query.entityIds)
+  if (query.userId) request = request.eq('userId', query.userId)
+  if (query.actions?.length) request = request.in('action', query.actions)
+  if (query.dateFrom) request = request.gte('createdAt', query.dateFrom)
+  if (query.dateTo) request = request.lte('createdAt', query.dateTo)
+
+  const { data, error, count } = await request
+    .order('createdAt', { ascending: false })
+    .range(page * limit, page * limit + limit - 1)
+
+  if (error) throw error
+  return { entries: (data ?? []).map(mapAuditRow), total: count ?? 0 }
+}
+
+/** Audit ids an invoice's history is stored under: its id, and its number for older entries. */
+export function invoiceAuditIds(invoice: { id: string; invoiceNumber?: string | null }): string[] {
+  return invoice.invoiceNumber && invoice.invoiceNumber !== invoice.id
+    ? [invoice.id, invoice.invoiceNumber]
+    : [invoice.id]
+}
@@ -0,0 +1,226 @@
+import 'server-only'
+
+import type { InvoiceStatus } from '../invoice-status-machine'
+import type { InvoiceDocumentType } from '../types'
+
+/**
+ * Declarative mapping between the heterogeneous invoice table columns and the
+ * camelCase invoice shape served by the API.
+ *
+ * `column` is the canonical column used for SQL filters and writes; `aliases`
+ * are alternative names seen in older imports and are only used when reading.
+ */
+
+export type { InvoiceStatus, InvoiceDocumentType }
+
+type ColumnSpec = { column: string; aliases?: readonly string[] }
+
+export const INVOICE_COLUMN_MAP = {
+  id: { column: 'id', aliases: ['invoice_id', 'uuid'] },
+  invoiceNumber: { column: 'invoice_number', aliases: ['invoiceNumber', 'number'] },
+  vendorName: { column: 'supplier_name', aliases: ['vendor', 'vendor_name', 'supplier'] },
+  vendorEmail: { column: 'supplier_email', aliases: ['vendor_email', 'email'] },
+  vendorAbn: { column: 'supplier_abn' },
+  vendorId: { column: 'vendor_id', aliases: ['vendorId'] },
+  amount: { column: 'total', aliases: ['amount', 'total_amount', 'grand_total'] },
+  subtotal: { column: 'subtotal' },
+  gst: { column: 'gst_total' },
+  amountDue: { column: 'amount_due', aliases: ['due_amount', 'outstanding', 'balance_due'] },
+  issueDate: { column: 'invoice_date', aliases: ['invoiceDate', 'issue_date', 'issueDate'] },
+  dueDate: { column: 'due_date', aliases: ['dueDate', 'payment_due', 'payment_due_date'] },
+  status: { column: 'status', aliases: ['payment_status', 'paymentStatus'] },
+  description: { column: 'line_1_desc', aliases: ['description', 'memo', 'details'] },
+  category: { column: 'category', aliases: ['category_name', 'type'] },
+  paymentTerms: { column: 'payment_terms', aliases: ['terms'] },
+  invoiceUrl: { column: 'file_url', aliases: ['source_url', 'url', 'link'] },
+  paidDate: { column: 'paid_at', aliases: ['paidDate'] },
+  paymentReference: { column: 'payment_reference', aliases: ['paymentReference'] },
+  notes: { column: 'notes' },
+  source: { column: 'source' },
+  fileChecksum: { column: 'file_checksum' },
+  documentType: { column: 'document_type', aliases: ['documentType'] },
+  originalInvoiceId: { column: 'original_invoice_id', aliases: ['originalInvoiceId'] },
+  duplicateOfId: { column: 'duplicate_of', aliases: ['duplicateOfId'] },
+  uploadedByUserId: { column: 'uploaded_by_user_id', aliases: ['uploadedByUserId'] },
+  createdAt: { column: 'created_at', aliases: ['createdAt'] },
+  updatedAt: { column: 'updated_at', aliases: ['updatedAt'] },
+} as const satisfies Record<string, ColumnSpec>
+
+export type InvoiceField = keyof typeof INVOICE_COLUMN_MAP
+
+/**
+ * The received date has no column of its own: it is read from whichever of
+ * these a row has, the issue date first. It is left out of INVOICE_COLUMN_MAP
+ * so it cannot be filtered, sorted on or written as if it were the issue
+ * date; sort by `createdAt` for when an invoice arrived.
+ */
+const RECEIVED_DATE_KEYS = ['invoice_date', 'invoiceDate', 'received_date', 'receivedDate', 'created_at', 'createdAt'] as const
+
+/** Canonical column name for a field, for use in filters, ordering and writes. */
+export function invoiceColumn(field: InvoiceField): string {
+  return INVOICE_COLUMN_MAP[field].column
+}
+
+/** Invoice as served by the API, the kanban, stats and the chat assistant. */
+export interface InvoiceRecord {
+  id: string
+  invoiceNumber: string
+  vendorName: string
+  vendorEmail: string
+  vendorAbn: string | null
+  /** Canonical vendor the supplier name was matched to */
+  vendorId: string | null
+  amount: number
+  subtotal: number | null
+  gst: number | null
+  amountDue: number
+  issueDate: string | null
+  dueDate: string | null
+  receivedDate: string | null
+  status: InvoiceStatus
+  description: string
+  category: string
+  paymentTerms: string
+  invoiceUrl: string
+  paidDate: string | null
+  paymentReference: string | null
+  notes: string | null
+  source: string | null
+  fileChecksum: string | null
+  /** Credit notes carry a negative amount; adjustments a signed one */
+  documentType: InvoiceDocumentType
+  /** Invoice a credit note or adjustment applies to */
+  originalInvoiceId: string | null
+  /** Set once the invoice is confirmed as a duplicate; excluded from totals */
+  duplicateOfId: string | null
+  /** User who created the invoice by hand; they cannot approve it */
+  uploadedByUserId: string | null
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+function readFirst(row: Record<string, any>, keys: readonly string[]): any {
+  for (const key of keys) {
+    if (row[key] !== undefined && row[key] !== null) return row[key]
+  }
+  return undefined
+}
+
+/** Read a field from a raw row, trying the canonical column then each alias. */
+export function readInvoiceField(row: Record<string, any>, field: InvoiceField): any {
+  const spec: ColumnSpec = INVOICE_COLUMN_MAP[field]
+  return readFirst(row, [spec.column, ...(spec.aliases ?? [])])
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function toIsoOrNull(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null
+  if (value instanceof Date) return value.toISOString()
+  return String(value)
+}
+
+/** Map raw document type values onto the known types; anything else is an invoice. */
+export function normalizeDocumentType(value: unknown): InvoiceDocumentType {
+  const raw = String(value ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_')
+  if (raw === 'credit_note' || raw === 'credit') return 'credit_note'
+  if (raw === 'adjustment') return 'adjustment'
+  return 'invoice'
+}
+
+/** Map raw status values ("In Review", "completed", ...) onto board statuses. */
+export function normalizeInvoiceStatus(value: unknown): InvoiceStatus | undefined {
+  if (!value) return undefined
+  const raw = String(value).trim().toLowerCase()
+  if (raw === 'in review' || raw === 'in-review' || raw === 'in_review') return 'in_review'
+  if (raw === 'pending' || raw === 'open') return 'pending'
+  if (raw === 'approved') return 'approved'
+  if (raw === 'paid' || raw === 'complete' || raw === 'completed') return 'paid'
+  if (raw === 'overdue' || raw === 'late') return 'overdue'
+  return undefined
+}
+
+export function deriveInvoiceStatus(amountDue: unknown, dueDate: unknown, issueDate: unknown, now: Date): 'pending' | 'paid' | 'overdue' {
+  const cutoffDate = new Date('2025-05-01T00:00:00.000Z')
+  const issue = issueDate ? new Date(issueDate as string) : null
+
+  // If invoice issued before May 1st 2025, default to paid
+  if (issue && issue.getTime() < cutoffDate.getTime()) {
+    return 'paid'
+  }
+
+  // For invoices from May 1st onwards, check due date vs current date
+  const numericalAmount = typeof amountDue === 'number' ? amountDue : amountDue == null ? null : Number(amountDue)
+  if (numericalAmount === 0) return 'paid'
+
+  const dueDateValue = dueDate ? new Date(dueDate as string) : null
+  if (numericalAmount != null && numericalAmount > 0 && dueDateValue && dueDateValue.getTime() < now.getTime()) {
+    return 'overdue'
+  }
+
+  return 'pending'
+}
+
+/**
+ * Map a raw database row to an InvoiceRecord. A recognised status value on
+ * the row wins; otherwise status is derived from amount due and due date.
+ */
+export function mapInvoiceRow(row: Record<string, any>, now: Date = new Date()): InvoiceRecord {
+  const amount = toNumberOrNull(readInvoiceField(row, 'amount')) ?? 0
+  const amountDue = toNumberOrNull(readInvoiceField(row, 'amountDue')) ?? amount
+  const issueDate = toIsoOrNull(readInvoiceField(row, 'issueDate'))
+  const dueDate = toIsoOrNull(readInvoiceField(row, 'dueDate'))
+  const receivedDate = toIsoOrNull(readFirst(row, RECEIVED_DATE_KEYS))
+  const status =
+    normalizeInvoiceStatus(readInvoiceField(row, 'status')) ??
+    deriveInvoiceStatus(amountDue, dueDate, issueDate || receivedDate, now)
+
+  return {
+    id: String(readInvoiceField(row, 'id') ?? ''),
+    invoiceNumber: String(readInvoiceField(row, 'invoiceNumber') ?? ''),
+    vendorName: String(readInvoiceField(row, 'vendorName') ?? ''),
+    vendorEmail: String(readInvoiceField(row, 'vendorEmail') ?? ''),
+    vendorAbn: readInvoiceField(row, 'vendorAbn') ?? null,
+    vendorId: readInvoiceField(row, 'vendorId') ?? null,
+    amount,
+    subtotal: toNumberOrNull(readInvoiceField(row, 'subtotal')),
+    gst: toNumberOrNull(readInvoiceField(row, 'gst')),
+    amountDue,
+    issueDate,
+    dueDate,
+    receivedDate,
+    status,
+    description: String(readInvoiceField(row, 'description') ?? ''),
+    category: String(readInvoiceField(row, 'category') ?? 'Uncategorized'),
+    paymentTerms: String(readInvoiceField(row, 'paymentTerms') ?? 'Net 30'),
+    invoiceUrl: String(readInvoiceField(row, 'invoiceUrl') ?? ''),
+    paidDate: toIsoOrNull(readInvoiceField(row, 'paidDate')),
+    paymentReference: readInvoiceField(row, 'paymentReference') ?? null,
+    notes: readInvoiceField(row, 'notes') ?? null,
+    source: readInvoiceField(row, 'source') ?? null,
+    fileChecksum: readInvoiceField(row, 'fileChecksum') ?? null,
+    documentType: normalizeDocumentType(readInvoiceField(row, 'documentType')),
+    originalInvoiceId: readInvoiceField(row, 'originalInvoiceId') ?? null,
+    duplicateOfId: readInvoiceField(row, 'duplicateOfId') ?? null,
+    uploadedByUserId: readInvoiceField(row, 'uploadedByUserId') ?? null,
+    createdAt: toIsoOrNull(readInvoiceField(row, 'createdAt')),
+    updatedAt: toIsoOrNull(readInvoiceField(row, 'updatedAt')),
+  }
+}
+
+/**
+ * Translate a partial InvoiceRecord into canonical column values for an
+ * insert or update. Fields that are not set are left out.
+ */
+export function toInvoiceColumns(patch: Partial<InvoiceRecord>): Record<string, unknown> {
+  const columns: Record<string, unknown> = {}
+  for (const [field, value] of Object.entries(patch)) {
+    if (value === undefined || !(field in INVOICE_COLUMN_MAP)) continue
+    columns[invoiceColumn(field as InvoiceField)] = value
+  }
+  return columns
+}
@@ -0,0 +1,288 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { getSupabaseAdmin } from './supabase-admin'
+import { extractMentions } from '../comment-mentions'
+
+/**
+ * Threaded invoice comments. Top-level comments may have replies (one level;
+ * replies to a reply attach to its thread). Edits keep the previous body in
+ * `invoice_comment_edits`, and deletes are soft so replies keep their context.
+ */
+
+const COMMENTS_TABLE = 'invoice_comments'
+const EDITS_TABLE = 'invoice_comment_edits'
+
+export type CommentSource = 'app' | 'chat' | 'legacy'
+
+export interface InvoiceComment {
+  id: string
+  invoiceId: string
+  parentId: string | null
+  authorId: string
+  authorEmail: string | null
+  body: string
+  mentions: string[]
+  source: CommentSource
+  createdAt: string | null
+  updatedAt: string | null
+  editedAt: string | null
+  deletedAt: string | null
+}
+
+export interface InvoiceCommentEdit {
+  id: string
+  commentId: string
+  previousBody: string
+  editedBy: string
+  editedAt: string | null
+}
+
+export interface CommentActor {
+  id: string
+  email?: string
+  role: string
+}
+
+export interface CommentThreadEntry extends InvoiceComment {
+  canEdit: boolean
+}
+
+export interface CommentThread extends CommentThreadEntry {
+  replies: CommentThreadEntry[]
+}
+
+export type CommentChangeResult =
+  | { outcome: 'updated'; comment: InvoiceComment; previousBody: string }
+  | { outcome: 'not_found' }
+  | { outcome: 'forbidden'; message: string }
+
+export type AddCommentResult =
+  | { outcome: 'created'; comment: InvoiceComment }
+  | { outcome: 'parent_not_found' }
+
+function mapCommentRow(row: Record<string, any>): InvoiceComment {
+  return {
+    id: String(row.id),
+    invoiceId: String(row.invoice_id),
+    parentId: row.parent_id ?? null,
+    authorId: String(row.author_id ?? ''),
+    authorEmail: row.author_email ?? null,
+    body: row.deleted_at ? '' : String(row.body ?? ''),
+    mentions: Array.isArray(row.mentions) ? row.mentions : [],
+    source: (row.source ?? 'app') as CommentSource,
+    createdAt: row.created_at ?? null,
+    updatedAt: row.updated_at ?? null,
+    editedAt: row.edited_at ?? null,
+    deletedAt: row.deleted_at ?? null,
+  }
+}
+
+function mapEditRow(row: Record<string, any>): InvoiceCommentEdit {
+  return {
+    id: String(row.id),
+    commentId: String(row.comment_id),
+    previousBody: String(row.previous_body ?? ''),
+    editedBy: String(row.edited_by ?? ''),
+    editedAt: row.edited_at ?? null,
+  }
+}
+
+/** Authors manage their own comments; admins can moderate any comment. */
+export function canModifyComment(comment: Pick<InvoiceComment, 'authorId'>, actor: CommentActor): boolean {
+  return comment.authorId === actor.id || actor.role.toLowerCase() === 'admin'
+}
+
+/**
+ * Group comments into threads for display. Deleted comments are kept only as
+ * placeholders for threads that still have replies.
+ */
+export function buildCommentThreads(comments: InvoiceComment[], actor: CommentActor): CommentThread[] {
+  const entry = (comment: InvoiceComment): CommentThreadEntry => ({
+    ...comment,
+    canEdit: !comment.deletedAt && canModifyComment(comment, actor),
+  })
+
+  const threads = new Map<string, CommentThread>()
+  for (const comment of comments) {
+    if (!comment.parentId) threads.set(comment.id, { ...entry(comment), replies: [] })
+  }
+  for (const comment of comments) {
+    if (!comment.parentId || comment.deletedAt) continue
+    threads.get(comment.parentId)?.replies.push(entry(comment))
+  }
+
+  return Array.from(threads.values()).filter((thread) => !thread.deletedAt || thread.replies.length > 0)
+}
+
+/** All comments on an invoice (by invoice id), oldest first. */
+export async function listInvoiceComments(
+  invoiceId: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<InvoiceComment[]> {
+  const { data, error } = await client
+    .from(COMMENTS_TABLE)
+    .select('*')
+    .eq('invoice_id', invoiceId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data ?? []).map(mapCommentRow)
+}
+
+export async function getInvoiceComment(
+  commentId: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<InvoiceComment | null> {
+  const { data, error } = await client
+    .from(COMMENTS_TABLE)
+    .select('*')
+    .eq('id', commentId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? mapCommentRow(data) : null
+}
+
+/**
+ * Previous bodies of a comment, newest first. A deleted comment has no
+ * history: its earlier bodies are hidden along with the comment itself.
+ */
+export async function listCommentEdits(
+  comment: Pick<InvoiceComment, 'id' | 'deletedAt'>,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<InvoiceCommentEdit[]> {
+  if (comment.deletedAt) return []
+
+  const { data, error } = await client
+    .from(EDITS_TABLE)
+    .select('*')
+    .eq('comment_id', comment.id)
+    .order('edited_at', { ascending: false })
+
+  if (error) throw error
+  return (data ?? []).map(mapEditRow)
+}
+
+/**
+ * Add a comment to an invoice (by invoice id). A reply must belong to the
+ * same invoice; replying to a reply files the comment under its thread.
+ */
+export async function addInvoiceComment(
+  comment: { invoiceId: string; body: string; parentId?: string | null; source?: CommentSource },
+  actor: CommentActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<AddCommentResult> {
+  let parentId: string | null = null
+  if (comment.parentId) {
+    const parent = await getInvoiceComment(comment.parentId, client)
+    if (!parent || parent.invoiceId !== comment.invoiceId) {
+      return { outcome: 'parent_not_found' }
+    }
+    parentId = parent.parentId ?? parent.id
+  }
+
+  const body = comment.body.trim()
+  const { data, error } = await client
+    .from(COMMENTS_TABLE)
+    .insert({
+      invoice_id: comment.invoiceId,
+      parent_id: parentId,
+      author_id: actor.id,
+      author_email: actor.email ?? null,
+      body,
+      mentions: extractMentions(body),
+      source: comment.source ?? 'app',
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return { outcome: 'created', comment: mapCommentRow(data) }
+}
+
+async function loadModifiable(
+  invoiceId: string,
+  commentId: string,
+  actor: CommentActor,
+  client: SupabaseClient,
+): Promise<{ comment: InvoiceComment; previousBody: string } | Exclude<CommentChangeResult, { outcome: 'updated' }>> {
+  const { data, error } = await client
+    .from(COMMENTS_TABLE)
+    .select('*')
+    .eq('id', commentId)
+    .eq('invoice_id', invoiceId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data || data.deleted_at) return { outcome: 'not_found' }
+
+  const comment = mapCommentRow(data)
+  if (!canModifyComment(comment, actor)) {
+    return { outcome: 'forbidden', message: 'Only the author can change this comment' }
+  }
+  return { comment, previousBody: String(data.body ?? '') }
+}
+
+async function recordEdit(commentId: string, previousBody: string, actor: CommentActor, client: SupabaseClient) {
+  const { error } = await client.from(EDITS_TABLE).insert({
+    comment_id: commentId,
+    previous_body: previousBody,
+    edited_by: actor.id,
+  })
+  if (error) throw error
+}
+
+/** Replace a comment's body, keeping the previous body in the edit history. */
+export async function updateInvoiceComment(
+  invoiceId: string,
+  commentId: string,
+  body: string,
+  actor: CommentActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<CommentChangeResult> {
+  const loaded = await loadModifiable(invoiceId, commentId, actor, client)
+  if ('outcome' in loaded) return loaded
+
+  const nextBody = body.trim()
+  if (nextBody === loaded.previousBody) {
+    return { outcome: 'updated', comment: loaded.comment, previousBody: loaded.previousBody }
+  }
+
+  await recordEdit(commentId, loaded.previousBody, actor, client)
+
+  const now = new Date().toISOString()
+  const { data, error } = await client
+    .from(COMMENTS_TABLE)
+    .update({ body: nextBody, mentions: extractMentions(nextBody), edited_at: now, updated_at: now })
+    .eq('id', commentId)
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return { outcome: 'updated', comment: mapCommentRow(data), previousBody: loaded.previousBody }
+}
+
+/** Soft-delete a comment; its body moves to the edit history. */
+export async function deleteInvoiceComment(
+  invoiceId: string,
+  commentId: string,
+  actor: CommentActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<CommentChangeResult> {
+  const loaded = await loadModifiable(invoiceId, commentId, actor, client)
+  if ('outcome' in loaded) return loaded
+
+  await recordEdit(commentId, loaded.previousBody, actor, client)
+
+  const now = new Date().toISOString()
+  const { data, error } = await client
+    .from(COMMENTS_TABLE)
+    .update({ body: '', mentions: [], deleted_at: now, updated_at: now })
+    .eq('id', commentId)
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return { outcome: 'updated', comment: mapCommentRow(data), previousBody: loaded.previousBody }
+}
@@ -0,0 +1,218 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { getSupabaseAdmin } from './supabase-admin'
+import { getApprovalState } from './invoice-approvals'
+import { invoiceColumn, mapInvoiceRow, type InvoiceStatus } from './invoice-columns'
+import {
+  createInvoice,
+  findInvoice,
+  updateInvoiceIf,
+  withInvoiceTable,
+  type InvoiceRecord,
+} from './invoice-repository'
+import { roundCents } from './invoice-payments'
+import {
+  describeBlockedTransition,
+  evaluateTransition,
+  type StatusGuardResult,
+} from '../invoice-status-machine'
+import type { CreditNoteInput } from '../schemas/api'
+
+/**
+ * Credit notes and adjustments. Both are rows in the invoices table linked to
+ * the invoice they apply to through `originalInvoiceId`. A credit note is
+ * stored with a negative amount and an adjustment with a signed one, so
+ * totals over the table are net. Creating one changes the original invoice's
+ * amount due; a credit that clears the balance marks it paid through the
+ * status workflow.
+ */
+
+export interface CreditActor {
+  id: string
+  email?: string
+  role: string
+}
+
+export type CreateCreditNoteResult =
+  | {
+      outcome: 'created'
+      creditNote: InvoiceRecord
+      invoice: InvoiceRecord
+      previousAmountDue: number
+      previousStatus: InvoiceStatus
+    }
+  | { outcome: 'not_found' }
+  | { outcome: 'not_creditable'; message: string }
+  | { outcome: 'exceeds_balance'; invoice: InvoiceRecord; message: string }
+  | { outcome: 'invalid_transition'; invoice: InvoiceRecord; message: string; guards: StatusGuardResult[] }
+  | { outcome: 'conflict'; message: string }
+
+// Times a credit is re-read and re-applied when another write changes the balance first
+const BALANCE_ATTEMPTS = 3
+
+/** Amount a credit note or adjustment contributes to its invoice's balance. */
+export function creditAmount(input: Pick<CreditNoteInput, 'documentType' | 'amount'>): number {
+  const amount = roundCents(input.amount)
+  return input.documentType === 'credit_note' ? -Math.abs(amount) : amount
+}
+
+/** Credit notes and adjustments applied to an invoice (by id), oldest first. */
+export async function listCreditNotes(
+  invoiceId: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<InvoiceRecord[]> {
+  const rows = await withInvoiceTable(async (table) => {
+    const { data, error } = await client
+      .from(table)
+      .select('*')
+      .eq(invoiceColumn('originalInvoiceId'), invoiceId)
+      .order(invoiceColumn('issueDate'), { ascending: true })
+    if (error) throw error
+    return data ?? []
+  })
+  return rows.map((row) => mapInvoiceRow(row))
+}
+
+/**
+ * Raise a credit note or adjustment against an invoice (by id or invoice
+ * number) and apply it to the invoice's amount due. Credits larger than the
+ * outstanding balance are rejected, as are increases to a paid invoice.
+ */
+export async function createCreditNote(
+  idOrNumber: string,
+  input: CreditNoteInput,
+  actor: CreditActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<CreateCreditNoteResult> {
+  for (let attempt = 0; attempt < BALANCE_ATTEMPTS; attempt++) {
+    const result = await applyCreditNote(idOrNumber, input, actor, client)
+    if (result) return result
+  }
+  return { outcome: 'conflict', message: 'The invoice balance kept changing while the credit was applied; try again' }
+}
+
+// One read-check-write pass; null when the balance changed after it was read
+async function applyCreditNote(
+  idOrNumber: string,
+  input: CreditNoteInput,
+  actor: CreditActor,
+  client: SupabaseClient,
+): Promise<CreateCreditNoteResult | null> {
+  const found = await findInvoice(idOrNumber, client)
+  if (!found) {
+    return { outcome: 'not_found' }
+  }
+
+  const invoice = found.invoice
+  if (invoice.documentType !== 'invoice') {
+    return {
+      outcome: 'not_creditable',
+      message: 'Credit notes and adjustments can only be raised against invoices',
+    }
+  }
+
+  const delta = creditAmount(input)
+  const previousAmountDue = roundCents(invoice.amountDue)
+  const amountDue = roundCents(previousAmountDue + delta)
+
+  if (amountDue < 0) {
+    return {
+      outcome: 'exceeds_balance',
+      invoice,
+      message: `Credit of ${Math.abs(delta).toFixed(2)} exceeds the ${previousAmountDue.toFixed(2)} outstanding`,
+    }
+  }
+
+  if (delta > 0 && invoice.status === 'paid') {
+    return {
+      outcome: 'invalid_transition',
+      invoice,
+      message: 'Reopen the invoice before adjusting a paid invoice upwards',
+      guards: [],
+    }
+  }
+
+  const settles = amountDue === 0 && invoice.status !== 'paid'
+  if (settles) {
+    const approval = await getApprovalState(invoice, client)
+    const evaluation = evaluateTransition(
+      'paid',
+      {
+        invoice: {
+          status: invoice.status,
+          paidDate: invoice.paidDate,
+          paymentReference: invoice.paymentReference,
+          issueDate: invoice.issueDate,
+        },
+        actor,
+        input: { paymentDate: input.issueDate, paymentReference: input.documentNumber },
+        approval: { progress: approval.progress, uploadedByUserId: invoice.uploadedByUserId },
+      },
+      { requireInput: true },
+    )
+    if (!evaluation.allowed) {
+      return {
+        outcome: 'invalid_transition',
+        invoice,
+        message: describeBlockedTransition(invoice.status, evaluation),
+        guards: evaluation.blockedBy,
+      }
+    }
+  }
+
+  // As with payments, the balance only moves if it is still the one read above
+  const updated = await updateInvoiceIf(
+    found,
+    ['amountDue'],
+    settles
+      ? { amountDue, status: 'paid', paidDate: input.issueDate, paymentReference: input.documentNumber }
+      : { amountDue },
+    client,
+  )
+  if (!updated) return null
+
+  // The credit note itself owes nothing; its amount is applied to the original
+  let created
+  try {
+    created = await createInvoice(
+      {
+        documentType: input.documentType,
+        originalInvoiceId: invoice.id,
+        invoiceNumber: input.documentNumber,
+        vendorName: invoice.vendorName,
+        vendorEmail: invoice.vendorEmail,
+        vendorAbn: invoice.vendorAbn,
+        amount: delta,
+        amountDue: 0,
+        status: 'paid',
+        issueDate: input.issueDate,
+        paidDate: input.issueDate,
+        description: input.reason,
+        category: invoice.category,
+        invoiceUrl: input.invoiceUrl,
+        source: 'manual',
+      },
+      client,
+    )
+  } catch (error) {
+    // Put the balance back so it still matches the credit notes recorded against it
+    await updateInvoiceIf(
+      updated,
+      ['amountDue'],
+      settles
+        ? { amountDue: invoice.amountDue, status: invoice.status, paidDate: invoice.paidDate, paymentReference: invoice.paymentReference }
+        : { amountDue: invoice.amountDue },
+      client,
+    )
+    throw error
+  }
+
+  return {
+    outcome: 'created',
+    creditNote: created.invoice,
+    invoice: updated.invoice,
+    previousAmountDue,
+    previousStatus: invoice.status,
+  }
+}
@@ -0,0 +1,96 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { getSupabaseAdmin } from './supabase-admin'
+import { findInvoice, type InvoiceRecord } from './invoice-repository'
+import { listCreditNotes } from './invoice-credit-notes'
+import { listDuplicatePairsFor, type DuplicatePairStatus } from './invoice-duplicates'
+import { lineItemsFromRow, type InvoiceLineItem } from '../invoice-line-items'
+
+/**
+ * Everything the invoice detail page shows that is not already served by its
+ * own endpoint (payments, approvals, comments, history): the invoice, its
+ * line items and the invoices related to it.
+ */
+
+export type RelatedInvoice = Pick<
+  InvoiceRecord,
+  'id' | 'invoiceNumber' | 'vendorName' | 'documentType' | 'amount' | 'amountDue' | 'status' | 'issueDate'
+>
+
+export interface RelatedDuplicate {
+  pairId: string
+  status: DuplicatePairStatus
+  score: number
+  invoice: RelatedInvoice
+}
+
+export interface InvoiceDetail {
+  invoice: InvoiceRecord
+  lineItems: InvoiceLineItem[]
+  related: {
+    /** Invoice a credit note or adjustment applies to */
+    original: RelatedInvoice | null
+    creditNotes: RelatedInvoice[]
+    /** Invoice this one was merged into as a duplicate */
+    duplicateOf: RelatedInvoice | null
+    duplicates: RelatedDuplicate[]
+  }
+}
+
+function toRelated(invoice: InvoiceRecord): RelatedInvoice {
+  return {
+    id: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    vendorName: invoice.vendorName,
+    documentType: invoice.documentType,
+    amount: invoice.amount,
+    amountDue: invoice.amountDue,
+    status: invoice.status,
+    issueDate: invoice.issueDate,
+  }
+}
+
+// The duplicate queue is optional (migrations/invoice-duplicates.sql); the page still loads without it
+async function duplicatesFor(invoiceId: string, client: SupabaseClient): Promise<RelatedDuplicate[]> {
+  try {
+    const pairs = await listDuplicatePairsFor(invoiceId, client)
+    return pairs.map((pair) => ({
+      pairId: pair.id,
+      status: pair.status,
+      score: pair.score,
+      invoice: toRelated(pair.invoiceId === invoiceId ? pair.duplicate : pair.invoice),
+    }))
+  } catch (error) {
+    console.error('Failed to load duplicate pairs:', error)
+    return []
+  }
+}
+
+/** The invoice (by id or invoice number) with its line items and related invoices, or null. */
+export async function getInvoiceDetail(
+  idOrNumber: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<InvoiceDetail | null> {
+  const found = await findInvoice(idOrNumber, client)
+  if (!found) return null
+
+  const { invoice, row } = found
+  const [original, creditNotes, duplicateOf, duplicates] = await Promise.all([
+    invoice.originalInvoiceId ? findInvoice(invoice.originalInvoiceId, client) : null,
+    invoice.documentType === 'invoice' ? listCreditNotes(invoice.id, client) : [],
+    invoice.duplicateOfId ? findInvoice(invoice.duplicateOfId, client) : null,
+    duplicatesFor(invoice.id, client),
+  ])
+
+  return {
+    invoice,
+    lineItems: lineItemsFromRow(row),
+    related: {
+      original: original ? toRelated(original.invoice) : null,
+      creditNotes: creditNotes.map(toRelated),
+      duplicateOf: duplicateOf ? toRelated(duplicateOf.invoice) : null,
+      duplicates,
+    },
+  }
+}
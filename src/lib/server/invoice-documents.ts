@@ -0,0 +1,268 @@
+import 'server-only'
+import { createReadStream } from 'node:fs'
+import { stat } from 'node:fs/promises'
+import path from 'node:path'
+import { Readable } from 'node:stream'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { getSupabaseAdmin } from './supabase-admin'
+import { SNIFF_BYTES, documentFilename, invoiceDocumentsBucket } from '../document-types'
+
+/**
+ * Storage backends for invoice documents. The stored `invoiceUrl` decides
+ * which one is used:
+ *
+ * - `local://<path>` or a bare relative path: a file under
+ *   INVOICE_DOCUMENTS_DIR (default `./storage/invoices`), used for local
+ *   development and offline tests
+ * - `storage://<bucket>/<path>`: a Supabase storage object, only in the
+ *   INVOICE_DOCUMENTS_BUCKET bucket (default `invoice-documents`)
+ * - `https://...`: a OneDrive/SharePoint/Xero link, fetched only from hosts
+ *   in INVOICE_DOCUMENT_HOSTS so the proxy cannot be pointed elsewhere
+ */
+
+export type OpenDocumentResult =
+  | {
+      outcome: 'ok'
+      stream: ReadableStream<Uint8Array>
+      size: number | null
+      filename: string
+    }
+  | { outcome: 'not_found' }
+  | { outcome: 'forbidden_host'; host: string }
+  | { outcome: 'unavailable'; message: string }
+
+const DEFAULT_DOCUMENT_HOSTS = ['1drv.ms', 'onedrive.live.com', 'sharepoint.com', 'xero.com']
+const FETCH_TIMEOUT_MS = 15_000
+const MAX_REDIRECTS = 5
+
+export function documentsRoot(): string {
+  return path.resolve(process.env.INVOICE_DOCUMENTS_DIR || path.join(process.cwd(), 'storage', 'invoices'))
+}
+
+export function allowedDocumentHosts(): string[] {
+  const configured = process.env.INVOICE_DOCUMENT_HOSTS
+  const hosts = configured
+    ? configured.split(',').map((host) => host.trim().toLowerCase()).filter(Boolean)
+    : [...DEFAULT_DOCUMENT_HOSTS]
+
+  const supabaseUrl = process.env.SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL
+  if (supabaseUrl) {
+    try {
+      hosts.push(new URL(supabaseUrl).hostname.toLowerCase())
+    } catch {
+      // ignore a malformed Supabase URL here; the admin client reports it
+    }
+  }
+  return hosts
+}
+
+function isAllowedHost(hostname: string, allowed: string[]): boolean {
+  const host = hostname.toLowerCase()
+  return allowed.some((entry) => host === entry || host.endsWith(`.${entry}`))
+}
+
+async function openLocalDocument(relativePath: string, fallbackName: string): Promise<OpenDocumentResult> {
+  const root = documentsRoot()
+  const resolved = path.resolve(root, relativePath.replace(/^\/+/, ''))
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    return { outcome: 'not_found' }
+  }
+
+  const info = await stat(resolved).catch(() => null)
+  if (!info?.isFile()) return { outcome: 'not_found' }
+
+  return {
+    outcome: 'ok',
+    stream: Readable.toWeb(createReadStream(resolved)) as ReadableStream<Uint8Array>,
+    size: info.size,
+    filename: documentFilename(resolved, fallbackName),
+  }
+}
+
+async function openStorageDocument(
+  url: URL,
+  fallbackName: string,
+  client: SupabaseClient,
+): Promise<OpenDocumentResult> {
+  const bucket = url.hostname
+  const objectPath = decodeURIComponent(url.pathname.replace(/^\/+/, ''))
+  if (!bucket || !objectPath) return { outcome: 'not_found' }
+  // The service role can read every bucket, so only the documents bucket is served
+  if (bucket !== invoiceDocumentsBucket()) {
+    return { outcome: 'forbidden_host', host: `storage://${bucket}` }
+  }
+
+  const { data, error } = await client.storage.from(bucket).download(objectPath)
+  if (error || !data) {
+    console.error('Invoice document download error:', error)
+    return { outcome: 'not_found' }
+  }
+
+  return {
+    outcome: 'ok',
+    stream: data.stream() as ReadableStream<Uint8Array>,
+    size: data.size,
+    filename: documentFilename(objectPath, fallbackName),
+  }
+}
+
+async function openRemoteDocument(url: URL, fallbackName: string): Promise<OpenDocumentResult> {
+  const allowed = allowedDocumentHosts()
+  let current = url
+
+  // Redirects are followed by hand so every hop is checked against the allowlist
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (current.protocol !== 'https:' || !isAllowedHost(current.hostname, allowed)) {
+      return { outcome: 'forbidden_host', host: current.hostname }
+    }
+
+    let response: Response
+    try {
+      response = await fetch(current, {
+        redirect: 'manual',
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      })
+    } catch (error) {
+      console.error('Invoice document fetch error:', error)
+      return { outcome: 'unavailable', message: 'Document storage did not respond' }
+    }
+
+    const location = response.headers.get('location')
+    if (response.status >= 300 && response.status < 400 && location) {
+      current = new URL(location, current)
+      continue
+    }
+
+    if (response.status === 404) return { outcome: 'not_found' }
+    if (!response.ok || !response.body) {
+      return { outcome: 'unavailable', message: `Document storage returned ${response.status}` }
+    }
+
+    // fetch decodes compressed bodies, so an encoded length would be wrong
+    const length = response.headers.get('content-encoding') ? NaN : Number(response.headers.get('content-length'))
+    return {
+      outcome: 'ok',
+      stream: response.body,
+      size: Number.isFinite(length) && length > 0 ? length : null,
+      filename: documentFilename(current.pathname, fallbackName),
+    }
+  }
+
+  return { outcome: 'unavailable', message: 'Too many redirects from document storage' }
+}
+
+/**
+ * Open the document stored at `source` (an invoice's `invoiceUrl`).
+ * `fallbackName` is used when no file name can be read from the source.
+ */
+export async function openInvoiceDocument(
+  source: string,
+  fallbackName: string,
+  client?: SupabaseClient,
+): Promise<OpenDocumentResult> {
+  const trimmed = source.trim()
+  if (!trimmed) return { outcome: 'not_found' }
+
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(trimmed)) {
+    return openLocalDocument(trimmed, fallbackName)
+  }
+
+  let url: URL
+  try {
+    url = new URL(trimmed)
+  } catch {
+    return { outcome: 'not_found' }
+  }
+
+  switch (url.protocol) {
+    case 'local:':
+      return openLocalDocument(decodeURIComponent(`${url.hostname}${url.pathname}`), fallbackName)
+    case 'storage:':
+      return openStorageDocument(url, fallbackName, client ?? getSupabaseAdmin())
+    case 'https:':
+    case 'http:':
+      return openRemoteDocument(url, fallbackName)
+    default:
+      return { outcome: 'forbidden_host', host: url.protocol }
+  }
+}
+
+/**
+ * Read the first bytes of a stream for sniffing without consuming them: the
+ * returned stream replays the head followed by the rest of the document.
+ */
+export async function peekDocument(
+  stream: ReadableStream<Uint8Array>,
+  bytes: number = SNIFF_BYTES,
+): Promise<{ head: Uint8Array; stream: ReadableStream<Uint8Array> }> {
+  const reader = stream.getReader()
+  const chunks: Uint8Array[] = []
+  let length = 0
+  let done = false
+
+  while (length < bytes) {
+    const next = await reader.read()
+    if (next.done) {
+      done = true
+      break
+    }
+    chunks.push(next.value)
+    length += next.value.length
+  }
+
+  const head = concatChunks(chunks, length)
+  const replay = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (head.length) controller.enqueue(head)
+      if (done) controller.close()
+    },
+    async pull(controller) {
+      const next = await reader.read()
+      if (next.done) controller.close()
+      else controller.enqueue(next.value)
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    },
+  })
+
+  return { head: head.subarray(0, bytes), stream: replay }
+}
+
+/**
+ * Buffer a document up to `limit` bytes. Returns null (and cancels the
+ * stream) for anything larger.
+ */
+export async function readDocument(
+  stream: ReadableStream<Uint8Array>,
+  limit: number,
+): Promise<Uint8Array | null> {
+  const reader = stream.getReader()
+  const chunks: Uint8Array[] = []
+  let length = 0
+
+  for (;;) {
+    const next = await reader.read()
+    if (next.done) break
+    length += next.value.length
+    if (length > limit) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(next.value)
+  }
+
+  return concatChunks(chunks, length)
+}
+
+function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+  if (chunks.length === 1) return chunks[0]
+  const result = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
@@ -0,0 +1,346 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { getSupabaseAdmin } from './supabase-admin'
+import { invoiceColumn, mapInvoiceRow } from './invoice-columns'
+import {
+  normaliseInvoiceFilters,
+  quote,
+  type NormalisedFilters,
+} from './invoice-query'
+import {
+  scanInvoices,
+  updateInvoice,
+  withInvoiceTable,
+  type InvoiceRecord,
+} from './invoice-repository'
+import {
+  findDuplicatePairs,
+  scoreDuplicatePair,
+  DUPLICATE_THRESHOLD,
+  type DuplicatePair,
+  type DuplicateSignal,
+  type DuplicateSubject,
+} from '../duplicate-detection'
+
+/**
+ * Duplicate invoice review queue. Detection (a full scan, or a single new
+ * invoice against likely candidates) stores scored pairs in
+ * `invoice_duplicate_pairs`; a reviewer then resolves each pair:
+ *
+ * - merge: the duplicate is folded into the invoice that is kept (missing
+ *   details are copied across) and marked with `duplicateOfId`, which leaves
+ *   it out of stats and totals
+ * - link: both invoices are genuine but related; both keep counting
+ * - dismiss: not duplicates
+ *
+ * Resolved pairs are never re-queued by later scans.
+ */
+
+const PAIRS_TABLE = 'invoice_duplicate_pairs'
+
+// Candidates loaded when checking a single invoice
+const CANDIDATE_LIMIT = 200
+
+export type DuplicatePairStatus = 'pending' | 'merged' | 'linked' | 'dismissed'
+export type DuplicateResolution = 'merge' | 'link' | 'dismiss'
+
+export interface DuplicatePairEntry {
+  id: string
+  invoiceId: string
+  duplicateId: string
+  score: number
+  signals: DuplicateSignal[]
+  status: DuplicatePairStatus
+  resolvedByUserId: string | null
+  resolvedByEmail: string | null
+  resolvedAt: string | null
+  createdAt: string | null
+}
+
+export interface DuplicateQueueItem extends DuplicatePairEntry {
+  invoice: InvoiceRecord
+  duplicate: InvoiceRecord
+}
+
+export interface DuplicateActor {
+  id: string
+  email?: string
+  role: string
+}
+
+export type ResolveDuplicateResult =
+  | { outcome: 'resolved'; pair: DuplicatePairEntry; kept: InvoiceRecord; other: InvoiceRecord }
+  | { outcome: 'not_found' }
+  | { outcome: 'already_resolved'; pair: DuplicatePairEntry }
+  | { outcome: 'invalid_keep'; message: string }
+
+const RESOLUTION_STATUS: Record<DuplicateResolution, DuplicatePairStatus> = {
+  merge: 'merged',
+  link: 'linked',
+  dismiss: 'dismissed',
+}
+
+// Details copied from a merged duplicate when the kept invoice lacks them
+const MERGE_FIELDS = ['invoiceUrl', 'fileChecksum', 'vendorEmail', 'vendorAbn', 'dueDate', 'description', 'paymentReference'] as const
+
+function mapPairRow(row: Record<string, any>): DuplicatePairEntry {
+  return {
+    id: String(row.id),
+    invoiceId: String(row.invoice_id),
+    duplicateId: String(row.duplicate_id),
+    score: Number(row.score ?? 0),
+    signals: Array.isArray(row.signals) ? row.signals : [],
+    status: (row.status ?? 'pending') as DuplicatePairStatus,
+    resolvedByUserId: row.resolved_by_user_id ?? null,
+    resolvedByEmail: row.resolved_by_email ?? null,
+    resolvedAt: row.resolved_at ?? null,
+    createdAt: row.created_at ?? null,
+  }
+}
+
+/** Only original invoices take part: credit notes and confirmed duplicates are skipped. */
+function isDetectable(invoice: InvoiceRecord): boolean {
+  return invoice.documentType === 'invoice' && !invoice.duplicateOfId && Boolean(invoice.id)
+}
+
+function toSubject(invoice: InvoiceRecord): DuplicateSubject {
+  return {
+    id: invoice.id,
+    vendorName: invoice.vendorName,
+    invoiceNumber: invoice.invoiceNumber,
+    amount: invoice.amount,
+    issueDate: invoice.issueDate ?? invoice.receivedDate,
+    createdAt: invoice.createdAt,
+    fileChecksum: invoice.fileChecksum,
+  }
+}
+
+/** Queue pairs that have not been seen before; existing pairs keep their status. */
+async function queuePairs(pairs: DuplicatePair[], client: SupabaseClient): Promise<number> {
+  if (pairs.length === 0) return 0
+
+  const { data, error } = await client
+    .from(PAIRS_TABLE)
+    .upsert(
+      pairs.map((pair) => ({
+        invoice_id: pair.invoiceId,
+        duplicate_id: pair.duplicateId,
+        score: pair.score,
+        signals: pair.signals,
+      })),
+      { onConflict: 'invoice_id,duplicate_id', ignoreDuplicates: true },
+    )
+    .select('id')
+
+  if (error) throw error
+  return data?.length ?? 0
+}
+
+/**
+ * Score every invoice against the others and queue new likely duplicates.
+ * `filters` narrows the scan (e.g. to a date range).
+ */
+export async function scanForDuplicates(
+  filters: NormalisedFilters = normaliseInvoiceFilters(),
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<{ scanned: number; found: number; queued: number }> {
+  const invoices = (await scanInvoices(filters, client)).filter(isDetectable)
+  const pairs = findDuplicatePairs(invoices.map(toSubject))
+  const queued = await queuePairs(pairs, client)
+  return { scanned: invoices.length, found: pairs.length, queued }
+}
+
+/**
+ * Check one invoice (typically just created) against invoices sharing its
+ * checksum, supplier, invoice number or amount, and queue any likely
+ * duplicates.
+ */
+export async function detectDuplicatesFor(
+  invoice: InvoiceRecord,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<DuplicatePair[]> {
+  if (!isDetectable(invoice)) return []
+
+  // ilike without wildcards gives a case-insensitive equality match
+  const exactly = (value: string) => quote(value.trim().replace(/[\\%_]/g, (match) => `\\${match}`))
+  const conditions = [`${invoiceColumn('amount')}.eq.${invoice.amount}`]
+  if (invoice.vendorName.trim()) conditions.push(`${invoiceColumn('vendorName')}.ilike.${exactly(invoice.vendorName)}`)
+  if (invoice.invoiceNumber.trim()) conditions.push(`${invoiceColumn('invoiceNumber')}.ilike.${exactly(invoice.invoiceNumber)}`)
+  if (invoice.fileChecksum) conditions.push(`${invoiceColumn('fileChecksum')}.eq.${quote(invoice.fileChecksum)}`)
+
+  const rows = await withInvoiceTable(async (table) => {
+    const { data, error } = await client
+      .from(table)
+      .select('*')
+      .or(conditions.join(','))
+      .neq(invoiceColumn('id'), invoice.id)
+      .limit(CANDIDATE_LIMIT)
+    if (error) throw error
+    return data ?? []
+  })
+
+  const subject = toSubject(invoice)
+  const pairs: DuplicatePair[] = []
+  for (const candidate of rows.map((row) => mapInvoiceRow(row)).filter(isDetectable)) {
+    const other = toSubject(candidate)
+    // The existing invoice is the original unless it was somehow created later
+    const [first, second] = (other.createdAt ?? '') <= (subject.createdAt ?? '') ? [other, subject] : [subject, other]
+    const result = scoreDuplicatePair(first, second)
+    if (result.score >= DUPLICATE_THRESHOLD) {
+      pairs.push({ invoiceId: first.id, duplicateId: second.id, ...result })
+    }
+  }
+
+  await queuePairs(pairs, client)
+  return pairs.sort((a, b) => b.score - a.score)
+}
+
+async function loadInvoicesById(ids: string[], client: SupabaseClient): Promise<Map<string, InvoiceRecord>> {
+  if (ids.length === 0) return new Map()
+  const rows = await withInvoiceTable(async (table) => {
+    const { data, error } = await client.from(table).select('*').in(invoiceColumn('id'), ids)
+    if (error) throw error
+    return data ?? []
+  })
+  return new Map(rows.map((row) => {
+    const invoice = mapInvoiceRow(row)
+    return [invoice.id, invoice]
+  }))
+}
+
+/**
+ * Pairs in the queue with both invoices, highest score first. Pending pairs
+ * whose invoices were since merged elsewhere or deleted are left out.
+ */
+export async function listDuplicatePairs(
+  status: DuplicatePairStatus = 'pending',
+  options: { limit?: number } = {},
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<DuplicateQueueItem[]> {
+  const { data, error } = await client
+    .from(PAIRS_TABLE)
+    .select('*')
+    .eq('status', status)
+    .order(status === 'pending' ? 'score' : 'resolved_at', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 100)
+
+  if (error) throw error
+  const pairs = (data ?? []).map(mapPairRow)
+
+  const invoices = await loadInvoicesById(
+    Array.from(new Set(pairs.flatMap((pair) => [pair.invoiceId, pair.duplicateId]))),
+    client,
+  )
+
+  const items: DuplicateQueueItem[] = []
+  for (const pair of pairs) {
+    const invoice = invoices.get(pair.invoiceId)
+    const duplicate = invoices.get(pair.duplicateId)
+    if (!invoice || !duplicate) continue
+    if (status === 'pending' && (invoice.duplicateOfId || duplicate.duplicateOfId)) continue
+    items.push({ ...pair, invoice, duplicate })
+  }
+  return items
+}
+
+/** Every pair one invoice (by id) takes part in, whatever its status, newest first. */
+export async function listDuplicatePairsFor(
+  invoiceId: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<DuplicateQueueItem[]> {
+  const { data, error } = await client
+    .from(PAIRS_TABLE)
+    .select('*')
+    .or(`invoice_id.eq.${quote(invoiceId)},duplicate_id.eq.${quote(invoiceId)}`)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  const pairs = (data ?? []).map(mapPairRow)
+
+  const invoices = await loadInvoicesById(
+    Array.from(new Set(pairs.flatMap((pair) => [pair.invoiceId, pair.duplicateId]))),
+    client,
+  )
+
+  return pairs.flatMap((pair) => {
+    const invoice = invoices.get(pair.invoiceId)
+    const duplicate = invoices.get(pair.duplicateId)
+    return invoice && duplicate ? [{ ...pair, invoice, duplicate }] : []
+  })
+}
+
+/** Number of pairs waiting for review, for badges. */
+export async function countPendingDuplicates(client: SupabaseClient = getSupabaseAdmin()): Promise<number> {
+  const { count, error } = await client
+    .from(PAIRS_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'pending')
+  if (error) throw error
+  return count ?? 0
+}
+
+/**
+ * Resolve a queued pair. For a merge, `keepId` picks which invoice survives
+ * (the earlier one by default); the other is marked as its duplicate.
+ */
+export async function resolveDuplicatePair(
+  pairId: string,
+  resolution: DuplicateResolution,
+  actor: DuplicateActor,
+  options: { keepId?: string } = {},
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<ResolveDuplicateResult> {
+  const { data: row, error } = await client.from(PAIRS_TABLE).select('*').eq('id', pairId).maybeSingle()
+  if (error) throw error
+  if (!row) return { outcome: 'not_found' }
+
+  const pair = mapPairRow(row)
+  if (pair.status !== 'pending') return { outcome: 'already_resolved', pair }
+
+  const keepId = options.keepId ?? pair.invoiceId
+  if (keepId !== pair.invoiceId && keepId !== pair.duplicateId) {
+    return { outcome: 'invalid_keep', message: 'The invoice to keep must be one of the pair' }
+  }
+  const otherId = keepId === pair.invoiceId ? pair.duplicateId : pair.invoiceId
+
+  const invoices = await loadInvoicesById([keepId, otherId], client)
+  let kept = invoices.get(keepId)
+  let other = invoices.get(otherId)
+  if (!kept || !other) return { outcome: 'not_found' }
+
+  if (resolution === 'merge') {
+    if (kept.duplicateOfId) {
+      return { outcome: 'invalid_keep', message: `Invoice ${kept.invoiceNumber} is itself a confirmed duplicate` }
+    }
+
+    const patch: Partial<InvoiceRecord> = {}
+    for (const field of MERGE_FIELDS) {
+      if (!kept[field] && other[field]) Object.assign(patch, { [field]: other[field] })
+    }
+    if (Object.keys(patch).length > 0) {
+      kept = (await updateInvoice(kept.id, patch, client))?.invoice ?? kept
+    }
+    other = (await updateInvoice(other.id, { duplicateOfId: kept.id }, client))?.invoice ?? other
+  }
+
+  const { data: updated, error: updateError } = await client
+    .from(PAIRS_TABLE)
+    .update({
+      status: RESOLUTION_STATUS[resolution],
+      resolved_by_user_id: actor.id,
+      resolved_by_email: actor.email ?? null,
+      resolved_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', pair.id)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle()
+
+  if (updateError) throw updateError
+  if (!updated) return { outcome: 'already_resolved', pair }
+
+  return { outcome: 'resolved', pair: mapPairRow(updated), kept, other }
+}
@@ -0,0 +1,77 @@
+import 'server-only'
+
+import { createXlsxWriter } from './xlsx'
+import { generateTableCsv } from '../csv-export'
+import {
+  invoiceExportFields,
+  type ExportInvoice,
+  type InvoiceExportColumnId,
+  type InvoiceExportField,
+  type InvoiceExportFormat,
+} from '../invoice-export'
+import { XLSX_CONTENT_TYPE, type XlsxCell, type XlsxColumn } from '../xlsx'
+
+export interface InvoiceExportEncoder {
+  contentType: string
+  /** Header row, if the format has one */
+  start(): Promise<Uint8Array>
+  /** The next page of invoices */
+  write(invoices: ExportInvoice[]): Promise<Uint8Array>
+  finish(): Promise<Uint8Array>
+}
+
+const encoder = new TextEncoder()
+
+function rowsFor(fields: InvoiceExportField[], invoices: ExportInvoice[]): XlsxCell[][] {
+  return invoices.map((invoice) => fields.map((field) => field.value(invoice)))
+}
+
+/**
+ * Encoder for one export. Concatenating `start()`, each `write()` and
+ * `finish()` gives the file. XLSX output is compressed as it goes, so a
+ * `write()` can return nothing and a later call the rows it held back.
+ */
+export function createInvoiceExportEncoder(
+  format: InvoiceExportFormat,
+  columns: InvoiceExportColumnId[],
+  generatedAt: Date = new Date(),
+): InvoiceExportEncoder {
+  const fields = invoiceExportFields(columns)
+  const empty = new Uint8Array(0)
+
+  if (format === 'xlsx') {
+    const xlsxColumns: XlsxColumn[] = fields.map(({ header, width, numberFormat }) => ({ header, width, numberFormat }))
+    const writer = createXlsxWriter({ name: 'Invoices', columns: xlsxColumns }, generatedAt)
+    return {
+      contentType: XLSX_CONTENT_TYPE,
+      start: async () => empty,
+      write: async (invoices) => (invoices.length ? writer.write(rowsFor(fields, invoices)) : empty),
+      finish: () => writer.finish(),
+    }
+  }
+
+  if (format === 'jsonl') {
+    return {
+      contentType: 'application/x-ndjson; charset=utf-8',
+      start: async () => empty,
+      write: async (invoices) =>
+        encoder.encode(
+          invoices
+            .map((invoice) => JSON.stringify(Object.fromEntries(fields.map((field) => [field.key, field.value(invoice)]))) + '\n')
+            .join('')
+        ),
+      finish: async () => empty,
+    }
+  }
+
+  // CSV lines are separated, not terminated, by newlines, as in generateTableCsv
+  return {
+    contentType: 'text/csv; charset=utf-8',
+    start: async () => encoder.encode(generateTableCsv(fields.map((field) => field.header), [])),
+    write: async (invoices) =>
+      invoices.length
+        ? encoder.encode('\n' + generateTableCsv([], rowsFor(fields, invoices), { includeHeaders: false }))
+        : empty,
+    finish: async () => empty,
+  }
+}
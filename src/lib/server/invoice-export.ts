@@ -0,0 +1,95 @@
+import 'server-only'
+
+import { isSupabaseConfigured } from './env'
+import { resolveSavedViewFilters, type NormalisedFilters } from './invoice-query'
+import {
+  filterInvoiceRecords,
+  localInvoiceRecords,
+  scanInvoicePages,
+  sortInvoiceRecords,
+} from './invoice-repository'
+import { invoiceColumn, type InvoiceRecord } from './invoice-columns'
+import { expandVendorFilters } from './vendors'
+import { createInvoiceExportEncoder } from './invoice-export-encoder'
+import {
+  invoiceExportFilename,
+  type InvoiceExportColumnId,
+  type InvoiceExportFormat,
+} from '../invoice-export'
+import type { InvoiceFiltersState } from '@/types/invoice-filters'
+
+/**
+ * Streaming invoice exports. The filters are the invoices page's filter
+ * state, resolved the way the invoice list resolves its query parameters, so
+ * an export holds the invoices the user is looking at. Invoices are read and
+ * written a page at a time; nothing holds the whole result set.
+ */
+
+const LOCAL_PAGE_SIZE = 500
+
+export interface InvoiceExportRequest {
+  filters: InvoiceFiltersState
+  columns: InvoiceExportColumnId[]
+  format: InvoiceExportFormat
+}
+
+export type InvoiceExportResult =
+  | { outcome: 'empty' }
+  | { outcome: 'ready'; filename: string; contentType: string; body: ReadableStream<Uint8Array> }
+
+/** The filter state as list filters, with the invoice list's date floor. */
+export async function resolveExportFilters(filters: InvoiceFiltersState, now: Date = new Date()): Promise<NormalisedFilters> {
+  const resolved = resolveSavedViewFilters(filters, now)
+  return isSupabaseConfigured() ? expandVendorFilters(resolved) : resolved
+}
+
+/** Matching invoices in due date order, a page at a time; local fixtures without Supabase. */
+export async function* exportInvoicePages(filters: NormalisedFilters, now: Date = new Date()): AsyncGenerator<InvoiceRecord[]> {
+  if (isSupabaseConfigured()) {
+    yield* scanInvoicePages(filters, undefined, now)
+    return
+  }
+
+  const invoices = sortInvoiceRecords(filterInvoiceRecords(localInvoiceRecords(now), filters), invoiceColumn('dueDate'), 'asc')
+  for (let offset = 0; offset < invoices.length; offset += LOCAL_PAGE_SIZE) {
+    yield invoices.slice(offset, offset + LOCAL_PAGE_SIZE)
+  }
+}
+
+/**
+ * Start an export. The first page is read before returning so an empty
+ * result or a failing query can be reported as such; the rest is read as
+ * the body is consumed.
+ */
+export async function streamInvoiceExport(request: InvoiceExportRequest, now: Date = new Date()): Promise<InvoiceExportResult> {
+  const pages = exportInvoicePages(await resolveExportFilters(request.filters, now), now)
+  const first = await pages.next()
+  if (first.done) return { outcome: 'empty' }
+
+  const encoder = createInvoiceExportEncoder(request.format, request.columns, now)
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      controller.enqueue(await encoder.start())
+      controller.enqueue(await encoder.write(first.value))
+    },
+    async pull(controller) {
+      try {
+        const next = await pages.next()
+        if (next.done) {
+          controller.enqueue(await encoder.finish())
+          controller.close()
+          return
+        }
+        controller.enqueue(await encoder.write(next.value))
+      } catch (error) {
+        console.error('Unexpected error streaming invoice export', error)
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await pages.return(undefined)
+    },
+  })
+
+  return { outcome: 'ready', filename: invoiceExportFilename(request.format, now), contentType: encoder.contentType, body }
+}
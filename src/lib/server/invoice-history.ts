@@ -0,0 +1,117 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { getSupabaseAdmin } from './supabase-admin'
+import { findInvoice, updateInvoice, type InvoiceRecord } from './invoice-repository'
+import { getAuditEntry, invoiceAuditIds, listAuditEntries } from './invoice-audit'
+import {
+  EDITABLE_INVOICE_FIELDS,
+  canRevertField,
+  diffFields,
+  fieldLabel,
+  sameValue,
+  toHistoryEvent,
+  type EditableInvoiceField,
+  type FieldChange,
+  type HistoryEvent,
+} from '../invoice-history'
+
+/**
+ * Direct edits to an invoice's descriptive fields, its change history and
+ * reverting a single field change. Routes record the returned field changes
+ * in the audit log.
+ */
+
+export type InvoiceFieldUpdates = Partial<Pick<InvoiceRecord, EditableInvoiceField>>
+
+// Text fields stored as empty strings rather than null
+const TEXT_FIELDS = new Set<string>(['category', 'description', 'paymentTerms'])
+
+export type InvoiceEditResult =
+  | { outcome: 'updated'; invoice: InvoiceRecord; fields: FieldChange[] }
+  | { outcome: 'unchanged'; invoice: InvoiceRecord }
+  | { outcome: 'not_found' }
+
+export type FieldRevertResult =
+  | { outcome: 'reverted'; invoice: InvoiceRecord; fields: FieldChange[]; revertedEntryId: string }
+  | { outcome: 'not_found' }
+  | { outcome: 'entry_not_found' }
+  | { outcome: 'not_revertible'; message: string }
+  | { outcome: 'conflict'; message: string; current: unknown }
+
+/** Apply field edits, writing only the fields whose value actually changes. */
+export async function editInvoiceFields(
+  idOrNumber: string,
+  updates: InvoiceFieldUpdates,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<InvoiceEditResult> {
+  const found = await findInvoice(idOrNumber, client)
+  if (!found) return { outcome: 'not_found' }
+
+  const fields = diffFields(found.invoice as unknown as Record<string, unknown>, updates, EDITABLE_INVOICE_FIELDS)
+  if (fields.length === 0) return { outcome: 'unchanged', invoice: found.invoice }
+
+  const patch = Object.fromEntries(
+    fields.map((change) => [change.field, change.after ?? (TEXT_FIELDS.has(change.field) ? '' : null)]),
+  ) as InvoiceFieldUpdates
+  const updated = await updateInvoice(found.invoice.id, patch, client)
+  if (!updated) return { outcome: 'not_found' }
+
+  return { outcome: 'updated', invoice: updated.invoice, fields }
+}
+
+/** A page of an invoice's history, newest first. */
+export async function listInvoiceHistory(
+  invoice: Pick<InvoiceRecord, 'id' | 'invoiceNumber'>,
+  page: { page: number; limit: number },
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<{ events: HistoryEvent[]; total: number }> {
+  const { entries, total } = await listAuditEntries(
+    { entityType: 'invoice', entityIds: invoiceAuditIds(invoice), ...page },
+    client,
+  )
+  return { events: entries.map(toHistoryEvent), total }
+}
+
+/**
+ * Put one field back to its value before the given change. Refused when the
+ * field has been changed again since, so a revert never silently discards a
+ * later edit.
+ */
+export async function revertInvoiceField(
+  idOrNumber: string,
+  entryId: string,
+  field: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<FieldRevertResult> {
+  const found = await findInvoice(idOrNumber, client)
+  if (!found) return { outcome: 'not_found' }
+
+  const entry = await getAuditEntry(entryId, client)
+  if (!entry || entry.entityType !== 'invoice' || !invoiceAuditIds(found.invoice).includes(entry.entityId)) {
+    return { outcome: 'entry_not_found' }
+  }
+
+  const event = toHistoryEvent(entry)
+  if (!canRevertField(event, field)) {
+    return { outcome: 'not_revertible', message: `${fieldLabel(field)} cannot be reverted from this change` }
+  }
+
+  const change = event.fields.find((candidate) => candidate.field === field)!
+  const current = (found.invoice as unknown as Record<string, unknown>)[field]
+  if (!sameValue(current, change.after)) {
+    return {
+      outcome: 'conflict',
+      message: `${fieldLabel(field)} has changed since; revert the later change first`,
+      current,
+    }
+  }
+
+  const result = await editInvoiceFields(found.invoice.id, { [field]: change.before }, client)
+  if (result.outcome === 'not_found') return result
+  if (result.outcome === 'unchanged') {
+    return { outcome: 'not_revertible', message: `${fieldLabel(field)} already has its earlier value` }
+  }
+
+  return { outcome: 'reverted', invoice: result.invoice, fields: result.fields, revertedEntryId: entry.id }
+}
@@ -0,0 +1,255 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { getSupabaseAdmin } from './supabase-admin'
+import { getApprovalState } from './invoice-approvals'
+import type { InvoiceStatus } from './invoice-columns'
+import { findInvoice, updateInvoiceIf, type InvoiceRecord } from './invoice-repository'
+import {
+  describeBlockedTransition,
+  evaluateTransition,
+  type StatusGuardResult,
+} from '../invoice-status-machine'
+import type { InvoicePaymentInput } from '../schemas/api'
+
+/**
+ * Payments ledger. Each payment reduces the invoice's amount due; the
+ * payment that clears the balance moves the invoice to paid through the
+ * status workflow. Partial payments leave the status alone.
+ */
+
+const PAYMENTS_TABLE = 'invoice_payments'
+
+// Times a payment is re-read and re-applied when another write changes the balance first
+const BALANCE_ATTEMPTS = 3
+
+export interface InvoicePayment {
+  id: string
+  invoiceId: string
+  amount: number
+  paidAt: string
+  method: string | null
+  reference: string
+  notes: string | null
+  confirmedBy: string | null
+  amountDueAfter: number
+  recordedByUserId: string
+  recordedByEmail: string | null
+  createdAt: string | null
+}
+
+export type NewInvoicePayment = Omit<InvoicePayment, 'id' | 'createdAt'>
+
+export interface PaymentActor {
+  id: string
+  email?: string
+  role: string
+}
+
+export type RecordPaymentResult =
+  | {
+      outcome: 'recorded'
+      payment: InvoicePayment
+      invoice: InvoiceRecord
+      previousAmountDue: number
+      previousStatus: InvoiceStatus
+    }
+  | { outcome: 'not_found' }
+  | { outcome: 'duplicate'; invoice: InvoiceRecord; message: string }
+  | { outcome: 'overpayment'; invoice: InvoiceRecord; message: string }
+  | { outcome: 'invalid_transition'; invoice: InvoiceRecord; message: string; guards: StatusGuardResult[] }
+  | { outcome: 'conflict'; message: string }
+
+export function roundCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function mapPaymentRow(row: Record<string, any>): InvoicePayment {
+  return {
+    id: String(row.id),
+    invoiceId: String(row.invoice_id),
+    amount: Number(row.amount),
+    paidAt: String(row.paid_at),
+    method: row.method ?? null,
+    reference: String(row.reference ?? ''),
+    notes: row.notes ?? null,
+    confirmedBy: row.confirmed_by ?? null,
+    amountDueAfter: Number(row.amount_due_after ?? 0),
+    recordedByUserId: String(row.recorded_by_user_id ?? ''),
+    recordedByEmail: row.recorded_by_email ?? null,
+    createdAt: row.created_at ?? null,
+  }
+}
+
+/** Payments for an invoice (by invoice id), newest first. */
+export async function listInvoicePayments(
+  invoiceId: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<InvoicePayment[]> {
+  const { data, error } = await client
+    .from(PAYMENTS_TABLE)
+    .select('*')
+    .eq('invoice_id', invoiceId)
+    .order('paid_at', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data ?? []).map(mapPaymentRow)
+}
+
+/** Append a ledger entry. Does not touch the invoice. */
+export async function insertInvoicePayment(
+  payment: NewInvoicePayment,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<InvoicePayment> {
+  const { data, error } = await client
+    .from(PAYMENTS_TABLE)
+    .insert({
+      invoice_id: payment.invoiceId,
+      amount: payment.amount,
+      paid_at: payment.paidAt,
+      method: payment.method,
+      reference: payment.reference,
+      notes: payment.notes,
+      confirmed_by: payment.confirmedBy,
+      amount_due_after: payment.amountDueAfter,
+      recorded_by_user_id: payment.recordedByUserId,
+      recorded_by_email: payment.recordedByEmail,
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return mapPaymentRow(data)
+}
+
+/**
+ * Record a payment against an invoice (by id or invoice number) and apply it
+ * to the amount due. Payments larger than the outstanding balance are
+ * rejected, as are payments against a confirmed duplicate and settling
+ * payments the status workflow would not allow.
+ */
+export async function recordInvoicePayment(
+  idOrNumber: string,
+  input: InvoicePaymentInput,
+  actor: PaymentActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<RecordPaymentResult> {
+  for (let attempt = 0; attempt < BALANCE_ATTEMPTS; attempt++) {
+    const result = await applyInvoicePayment(idOrNumber, input, actor, client)
+    if (result) return result
+  }
+  return { outcome: 'conflict', message: 'The invoice balance kept changing while the payment was recorded; try again' }
+}
+
+// One read-check-write pass; null when the balance changed after it was read
+async function applyInvoicePayment(
+  idOrNumber: string,
+  input: InvoicePaymentInput,
+  actor: PaymentActor,
+  client: SupabaseClient,
+): Promise<RecordPaymentResult | null> {
+  const found = await findInvoice(idOrNumber, client)
+  if (!found) {
+    return { outcome: 'not_found' }
+  }
+
+  const invoice = found.invoice
+  if (invoice.duplicateOfId) {
+    return {
+      outcome: 'duplicate',
+      invoice,
+      message: 'This invoice is a confirmed duplicate; record the payment against the original',
+    }
+  }
+
+  const amount = roundCents(input.amount)
+  const previousAmountDue = roundCents(invoice.amountDue)
+  const amountDue = roundCents(previousAmountDue - amount)
+
+  if (amountDue < 0) {
+    return {
+      outcome: 'overpayment',
+      invoice,
+      message: `Payment of ${amount.toFixed(2)} exceeds the ${previousAmountDue.toFixed(2)} outstanding`,
+    }
+  }
+
+  const settles = amountDue === 0 && invoice.status !== 'paid'
+  if (settles) {
+    const approval = await getApprovalState(invoice, client)
+    const evaluation = evaluateTransition(
+      'paid',
+      {
+        invoice: {
+          status: invoice.status,
+          paidDate: invoice.paidDate,
+          paymentReference: invoice.paymentReference,
+          issueDate: invoice.issueDate,
+        },
+        actor,
+        input: { paymentDate: input.paymentDate, paymentReference: input.reference },
+        approval: { progress: approval.progress, uploadedByUserId: invoice.uploadedByUserId },
+      },
+      { requireInput: true },
+    )
+    if (!evaluation.allowed) {
+      return {
+        outcome: 'invalid_transition',
+        invoice,
+        message: describeBlockedTransition(invoice.status, evaluation),
+        guards: evaluation.blockedBy,
+      }
+    }
+  }
+
+  // The balance only moves if it is still the one read above, so concurrent
+  // payments cannot both be checked against the same amount due
+  const updated = await updateInvoiceIf(
+    found,
+    ['amountDue'],
+    settles
+      ? { amountDue, status: 'paid', paidDate: input.paymentDate, paymentReference: input.reference }
+      : { amountDue },
+    client,
+  )
+  if (!updated) return null
+
+  let payment: InvoicePayment
+  try {
+    payment = await insertInvoicePayment(
+      {
+        invoiceId: invoice.id,
+        amount,
+        paidAt: input.paymentDate,
+        method: input.method ?? null,
+        reference: input.reference,
+        notes: input.notes || null,
+        confirmedBy: input.confirmedBy,
+        amountDueAfter: amountDue,
+        recordedByUserId: actor.id,
+        recordedByEmail: actor.email ?? null,
+      },
+      client,
+    )
+  } catch (error) {
+    // Put the balance back so it can still be rebuilt from the ledger
+    await updateInvoiceIf(
+      updated,
+      ['amountDue'],
+      settles
+        ? { amountDue: invoice.amountDue, status: invoice.status, paidDate: invoice.paidDate, paymentReference: invoice.paymentReference }
+        : { amountDue: invoice.amountDue },
+      client,
+    )
+    throw error
+  }
+
+  return {
+    outcome: 'recorded',
+    payment,
+    invoice: updated.invoice,
+    previousAmountDue,
+    previousStatus: invoice.status,
+  }
+}
@@ -0,0 +1,660 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { agingDueWindow, isAgingBucket, type AgingDueWindow } from '@/lib/payables-aging'
+import { addDays, parseSearchQuery } from '@/lib/invoice-search-query'
+import { searchTerms, sortByRank, toPrefixTsQuery, HIGHLIGHT_START, type SearchMatch } from '@/lib/invoice-search'
+import type { InvoiceFiltersState } from '@/types/invoice-filters'
+import { invoiceColumn, type InvoiceStatus } from './invoice-columns'
+import { isSupabaseConfigured } from './env'
+
+/**
+ * Database-side invoice querying.
+ *
+ * Filters, ordering and pagination are translated into PostgREST filters so
+ * Postgres does the work instead of the route pulling the whole table into
+ * memory. Status is partly derived (amount due / due date) when the row has
+ * no explicit status, so the status predicates below mirror
+ * `deriveInvoiceStatus` in SQL form.
+ *
+ * Search is full-text over the `search_vector` column
+ * (migrations/invoice-search.sql); see src/lib/invoice-search.ts.
+ */
+
+export const INVOICE_STATUSES = ['pending', 'in_review', 'approved', 'paid', 'overdue'] as const satisfies readonly InvoiceStatus[]
+
+export type { InvoiceStatus }
+
+export type InvoiceStatusCounts = Record<InvoiceStatus, number>
+
+export type NormalisedFilters = {
+  search: string
+  statuses: string[]
+  categories: string[]
+  vendors: string[]
+  /** Stored supplier names the search matches through a typo (see `expandVendorFilters`) */
+  searchVendors?: string[]
+  dateFrom?: string
+  dateTo?: string
+  amountMin?: number
+  amountMax?: number
+  /** Inclusive due date bounds (`YYYY-MM-DD`) */
+  dueFrom?: string
+  dueTo?: string
+  /** Only outstanding invoices whose due date falls in this aging bucket */
+  aging?: AgingDueWindow
+}
+
+export interface InvoicePageQuery {
+  filters: NormalisedFilters
+  sortBy: string
+  sortOrder: 'asc' | 'desc'
+  page: number
+  limit: number
+  cursor?: string | null
+  nowIso: string
+}
+
+export interface InvoicePageResult {
+  rows: any[]
+  /** Search rank and snippet by invoice id; empty without a search */
+  matches: Map<string, SearchMatch>
+  total: number
+  totalAmount: number
+  statusCounts: InvoiceStatusCounts
+  nextCursor: string | null
+  /**
+   * Set when a search ordered by relevance matched more rows than are ranked
+   * (MAX_RANKED_RESULTS): only the newest this many can be paged through.
+   */
+  rankedLimit: number | null
+}
+
+// Raw values stored in the status column that map onto each board status
+const STATUS_ALIASES: Record<InvoiceStatus, string[]> = {
+  pending: ['pending', 'open'],
+  in_review: ['in_review', 'in review', 'in-review'],
+  approved: ['approved'],
+  paid: ['paid', 'complete', 'completed'],
+  overdue: ['overdue', 'late'],
+}
+
+const KNOWN_STATUS_VALUES = Object.values(STATUS_ALIASES).flat()
+
+/** Sort key for ordering a search by rank rather than by a column. */
+export const RELEVANCE_SORT = 'relevance'
+
+// Relevance ordering ranks at most this many of the matching rows, the newest
+// first; responses say so through `rankedLimit` when a search matches more
+const MAX_RANKED_RESULTS = 500
+
+const SEARCH_FIELDS = ['invoiceNumber', 'vendorName', 'vendorEmail', 'description', 'category'] as const
+
+const STATUS = invoiceColumn('status')
+const AMOUNT = invoiceColumn('amount')
+const AMOUNT_DUE = invoiceColumn('amountDue')
+const DUE_DATE = invoiceColumn('dueDate')
+const ISSUE_DATE = invoiceColumn('issueDate')
+const CREATED_AT = invoiceColumn('createdAt')
+const DUPLICATE_OF = invoiceColumn('duplicateOfId')
+const DOCUMENT_TYPE = invoiceColumn('documentType')
+const SEARCH_VECTOR = 'search_vector'
+// Computed column with each row's effective status (migrations/invoice-status-counts.sql)
+const BOARD_STATUS = 'board_status'
+
+/** The invoice list never shows invoices dated before this, unless running on local fixtures. */
+export const INVOICE_LIST_MIN_DATE = '2025-05-01T00:00:00.000Z'
+
+export function emptyStatusCounts(): InvoiceStatusCounts {
+  return { pending: 0, in_review: 0, approved: 0, paid: 0, overdue: 0 }
+}
+
+/** Fill in defaults for a partially specified filter set (e.g. from chat tools). */
+export function normaliseInvoiceFilters(partial: Partial<NormalisedFilters> = {}): NormalisedFilters {
+  return {
+    search: partial.search ?? '',
+    statuses: partial.statuses ?? [],
+    categories: partial.categories ?? [],
+    vendors: partial.vendors ?? [],
+    searchVendors: partial.searchVendors,
+    dateFrom: partial.dateFrom,
+    dateTo: partial.dateTo,
+    amountMin: partial.amountMin,
+    amountMax: partial.amountMax,
+    dueFrom: partial.dueFrom,
+    dueTo: partial.dueTo,
+    aging: partial.aging,
+  }
+}
+
+function union(current: string[], added: string[]): string[] {
+  return Array.from(new Set([...current, ...added]))
+}
+
+function narrowest(pick: (...values: number[]) => number, ...values: Array<number | undefined>): number | undefined {
+  const defined = values.filter((value): value is number => typeof value === 'number')
+  return defined.length ? pick(...defined) : undefined
+}
+
+function later(current: string | undefined, added: string | undefined): string | undefined {
+  return current && (!added || current > added) ? current : added
+}
+
+function earlier(current: string | undefined, added: string | undefined): string | undefined {
+  return current && (!added || current < added) ? current : added
+}
+
+function distinct(values: string[], lowercase = false): string[] {
+  return Array.from(new Set(values.map((value) => (lowercase ? value.trim().toLowerCase() : value.trim())).filter(Boolean)))
+}
+
+/**
+ * Fill the filters a request left unset from a saved view, so query
+ * parameters refine the view rather than being replaced by it.
+ */
+export function mergeSavedViewFilters(current: NormalisedFilters, savedView: InvoiceFiltersState, now: Date = new Date()): NormalisedFilters {
+  return {
+    search: current.search || savedView.search || '',
+    statuses: current.statuses.length ? current.statuses : distinct(savedView.statuses ?? [], true),
+    categories: current.categories.length ? current.categories : distinct(savedView.categories ?? []),
+    vendors: current.vendors.length ? current.vendors : distinct(savedView.vendors ?? []),
+    dateFrom: current.dateFrom ?? savedView.dateRange?.start ?? undefined,
+    dateTo: current.dateTo ?? savedView.dateRange?.end ?? undefined,
+    amountMin: current.amountMin ?? savedView.amountRange?.min ?? undefined,
+    amountMax: current.amountMax ?? savedView.amountRange?.max ?? undefined,
+    dueFrom: current.dueFrom ?? savedView.dueRange?.start ?? undefined,
+    dueTo: current.dueTo ?? savedView.dueRange?.end ?? undefined,
+    aging: current.aging ?? (isAgingBucket(savedView.aging) ? agingDueWindow(savedView.aging, now) : undefined),
+  }
+}
+
+/**
+ * Move structured search syntax (`vendor:"origin energy" amount>1200`, see
+ * src/lib/invoice-search-query.ts) out of the search into the filters it
+ * names, leaving the free text as the search. Lists are widened, so a vendor
+ * picked in the filters and one typed in the search both match; ranges are
+ * narrowed. Terms that cannot be applied are dropped.
+ */
+export function applySearchSyntax(filters: NormalisedFilters, now: Date = new Date()): NormalisedFilters {
+  if (!filters.search) return filters
+  const parsed = parseSearchQuery(filters.search)
+
+  return {
+    ...filters,
+    search: parsed.text,
+    statuses: union(filters.statuses, parsed.statuses),
+    categories: union(filters.categories, parsed.categories),
+    vendors: union(filters.vendors, parsed.vendors),
+    dateFrom: later(filters.dateFrom, parsed.dateFrom),
+    dateTo: earlier(filters.dateTo, parsed.dateTo),
+    dueFrom: later(filters.dueFrom, parsed.dueFrom),
+    dueTo: earlier(filters.dueTo, parsed.dueTo),
+    amountMin: narrowest(Math.max, filters.amountMin, parsed.amountMin),
+    amountMax: narrowest(Math.min, filters.amountMax, parsed.amountMax),
+    aging: filters.aging ?? (parsed.aging ? agingDueWindow(parsed.aging, now) : undefined),
+  }
+}
+
+/**
+ * A saved view's filters as the invoice list resolves them: search syntax
+ * applied and dates floored at INVOICE_LIST_MIN_DATE (local fixtures keep an
+ * earlier explicit date). Vendors still need expandVendorFilters.
+ */
+export function resolveSavedViewFilters(savedView: InvoiceFiltersState, now: Date = new Date()): NormalisedFilters {
+  const resolved = applySearchSyntax(mergeSavedViewFilters(normaliseInvoiceFilters(), savedView, now), now)
+  if (!resolved.dateFrom) resolved.dateFrom = INVOICE_LIST_MIN_DATE
+  if (isSupabaseConfigured() && new Date(resolved.dateFrom) < new Date(INVOICE_LIST_MIN_DATE)) {
+    resolved.dateFrom = INVOICE_LIST_MIN_DATE
+  }
+  return resolved
+}
+
+/**
+ * Quote a value for use inside a PostgREST logic tree (`or=(...)`), where
+ * commas, dots, colons and parentheses are reserved.
+ */
+export function quote(value: string | number): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+function inList(values: string[]): string {
+  return `(${values.map(quote).join(',')})`
+}
+
+/**
+ * Build the PostgREST condition that matches a single effective status.
+ * Only invoices have one: credit notes and adjustments are stored as paid
+ * but are not counted or filtered by status. Rows with a recognised status
+ * value use it; anything else falls back to the amount-due / due-date
+ * derivation used when mapping rows.
+ */
+export function buildStatusCondition(status: InvoiceStatus, nowIso: string): string {
+  return `and(${DOCUMENT_TYPE}.eq.invoice,${buildStoredStatusCondition(status, nowIso)})`
+}
+
+function buildStoredStatusCondition(status: InvoiceStatus, nowIso: string): string {
+  const explicit = `${STATUS}.in.${inList(STATUS_ALIASES[status])}`
+  const unset = `or(${STATUS}.is.null,${STATUS}.not.in.${inList(KNOWN_STATUS_VALUES)})`
+  const now = quote(nowIso)
+
+  switch (status) {
+    case 'paid':
+      return (
+        `or(${explicit},and(${unset},` +
+        `or(${AMOUNT_DUE}.eq.0,and(${AMOUNT_DUE}.is.null,or(${AMOUNT}.eq.0,${AMOUNT}.is.null)))))`
+      )
+    case 'overdue':
+      return (
+        `or(${explicit},and(${unset},` +
+        `or(${AMOUNT_DUE}.gt.0,and(${AMOUNT_DUE}.is.null,${AMOUNT}.gt.0)),${DUE_DATE}.lt.${now}))`
+      )
+    case 'pending':
+      return (
+        `or(${explicit},and(${unset},` +
+        `or(${AMOUNT_DUE}.neq.0,and(${AMOUNT_DUE}.is.null,${AMOUNT}.neq.0)),` +
+        `or(${DUE_DATE}.is.null,${DUE_DATE}.gte.${now},${AMOUNT_DUE}.lt.0,and(${AMOUNT_DUE}.is.null,${AMOUNT}.lt.0))))`
+      )
+    default:
+      return explicit
+  }
+}
+
+function isInvoiceStatus(value: string): value is InvoiceStatus {
+  return (INVOICE_STATUSES as readonly string[]).includes(value)
+}
+
+/**
+ * A full-text match on the search's words (as prefixes), a substring of the
+ * invoice number, or a supplier the search matches through a typo. A search
+ * without words ("#", "-") falls back to a substring match on the text columns.
+ */
+function buildSearchCondition(filters: NormalisedFilters): string {
+  const escaped = filters.search.replace(/[\\%_]/g, (match) => `\\${match}`)
+  const pattern = quote(`%${escaped}%`)
+  const tsQuery = toPrefixTsQuery(filters.search)
+  if (!tsQuery) {
+    return SEARCH_FIELDS.map((field) => `${invoiceColumn(field)}.ilike.${pattern}`).join(',')
+  }
+
+  const conditions = [`${SEARCH_VECTOR}.fts(english).${quote(tsQuery)}`, `${invoiceColumn('invoiceNumber')}.ilike.${pattern}`]
+  if (filters.searchVendors?.length) {
+    conditions.push(`${invoiceColumn('vendorName')}.in.${inList(filters.searchVendors)}`)
+  }
+  return conditions.join(',')
+}
+
+/**
+ * Apply every filter except status. Status is applied separately so the
+ * per-status counts can reuse the same base query.
+ */
+export function applyInvoiceFilters(query: any, filters: NormalisedFilters) {
+  let next = query
+
+  if (filters.search) {
+    next = next.or(buildSearchCondition(filters))
+  }
+
+  // Invoices without an invoice date are placed by their created_at timestamp
+  if (filters.dateFrom) {
+    const from = quote(filters.dateFrom)
+    next = next.or(`${ISSUE_DATE}.gte.${from},and(${ISSUE_DATE}.is.null,${CREATED_AT}.gte.${from})`)
+  }
+
+  if (filters.dateTo) {
+    const to = quote(filters.dateTo)
+    next = next.or(`${ISSUE_DATE}.lte.${to},and(${ISSUE_DATE}.is.null,${CREATED_AT}.lte.${to})`)
+  }
+
+  if (filters.categories.length) {
+    next = next.in(invoiceColumn('category'), filters.categories)
+  }
+
+  if (filters.vendors.length) {
+    next = next.in(invoiceColumn('vendorName'), filters.vendors)
+  }
+
+  if (filters.dueFrom) {
+    next = next.gte(DUE_DATE, filters.dueFrom)
+  }
+
+  // Due dates may be stored with a time, so the inclusive end is "before the next day"
+  if (filters.dueTo) {
+    next = next.lt(DUE_DATE, addDays(filters.dueTo, 1))
+  }
+
+  if (typeof filters.amountMin === 'number') {
+    next = next.gte(AMOUNT, filters.amountMin)
+  }
+
+  if (typeof filters.amountMax === 'number') {
+    next = next.lte(AMOUNT, filters.amountMax)
+  }
+
+  if (filters.aging) {
+    next = applyAgingFilter(next, filters.aging)
+  }
+
+  return next
+}
+
+/**
+ * Outstanding invoices (something left to pay, not paid, not a confirmed
+ * duplicate) whose due date falls in an aging bucket's window. Mirrors
+ * `buildAgingReport` so drilling into a bucket lists the invoices it counted.
+ */
+function applyAgingFilter(query: any, window: AgingDueWindow) {
+  let next = query
+    .or(`${AMOUNT_DUE}.gt.0,and(${AMOUNT_DUE}.is.null,${AMOUNT}.gt.0)`)
+    .or(`${STATUS}.is.null,${STATUS}.not.in.${inList(STATUS_ALIASES.paid)}`)
+    .is(DUPLICATE_OF, null)
+
+  if (window.dueOnOrAfter) {
+    const from = quote(window.dueOnOrAfter)
+    next = window.includeUndated
+      ? next.or(`${DUE_DATE}.gte.${from},${DUE_DATE}.is.null`)
+      : next.gte(DUE_DATE, window.dueOnOrAfter)
+  }
+
+  if (window.dueBefore) {
+    next = next.lt(DUE_DATE, window.dueBefore)
+  }
+
+  return next
+}
+
+export function applyStatusFilter(query: any, statuses: string[], nowIso: string) {
+  const known = statuses.filter(isInvoiceStatus)
+  if (!statuses.length) {
+    return query
+  }
+  if (!known.length) {
+    // Only unknown statuses were requested, so nothing can match
+    return query.in(STATUS, [])
+  }
+  return query.or(known.map((status) => buildStatusCondition(status, nowIso)).join(','))
+}
+
+type CursorPayload = { v: string | number | null; id: string }
+
+export function encodeInvoiceCursor(row: any, sortBy: string): string {
+  const payload: CursorPayload = { v: row?.[sortBy] ?? null, id: String(row?.id ?? '') }
+  return Buffer.from(JSON.stringify(payload)).toString('base64url')
+}
+
+export function decodeInvoiceCursor(cursor: string): CursorPayload | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (!parsed || typeof parsed.id !== 'string') return null
+    return { v: parsed.v ?? null, id: parsed.id }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Keyset condition for "rows after the cursor" given `ORDER BY sortBy, id`
+ * with nulls sorted last in both directions.
+ */
+function applyKeyset(query: any, cursor: CursorPayload, sortBy: string, sortOrder: 'asc' | 'desc') {
+  const op = sortOrder === 'asc' ? 'gt' : 'lt'
+  const id = quote(cursor.id)
+
+  if (cursor.v === null) {
+    return query.is(sortBy, null).filter('id', op, cursor.id)
+  }
+
+  const value = quote(cursor.v)
+  return query.or(`${sortBy}.${op}.${value},and(${sortBy}.eq.${value},id.${op}.${id}),${sortBy}.is.null`)
+}
+
+async function countRows(
+  supabase: SupabaseClient,
+  table: string,
+  filters: NormalisedFilters,
+  statuses: string[],
+  nowIso: string,
+): Promise<number> {
+  let query = supabase.from(table).select('id', { count: 'exact', head: true })
+  query = applyInvoiceFilters(query, filters)
+  query = applyStatusFilter(query, statuses, nowIso)
+  const { count, error } = await query
+  if (error) throw error
+  return count ?? 0
+}
+
+export interface InvoiceListSummary {
+  total: number
+  totalAmount: number
+  statusCounts: InvoiceStatusCounts
+}
+
+/**
+ * Status counts, row count and total amount (leaving out confirmed
+ * duplicates) for the whole filtered set, from one aggregate grouped by
+ * effective status. The row count is every row the list would page
+ * through, so without a status filter it includes credit notes and
+ * adjustments, which have no status. Statuses excluded by the active status
+ * filter are reported as zero. Returns null when the `board_status` computed column or
+ * PostgREST aggregates are unavailable so callers can fall back.
+ */
+export async function fetchInvoiceSummary(
+  supabase: SupabaseClient,
+  table: string,
+  filters: NormalisedFilters,
+): Promise<InvoiceListSummary | null> {
+  let query = supabase.from(table).select(`status:${BOARD_STATUS},${DUPLICATE_OF},count:id.count(),${AMOUNT}.sum()`)
+  query = applyInvoiceFilters(query, filters)
+  const { data, error } = await query
+  if (error) {
+    console.warn('Invoice status aggregate unavailable:', error.message)
+    return null
+  }
+
+  const wanted = filters.statuses.length ? filters.statuses.filter(isInvoiceStatus) : null
+  const summary: InvoiceListSummary = { total: 0, totalAmount: 0, statusCounts: emptyStatusCounts() }
+  for (const group of (data as any[]) ?? []) {
+    const status: InvoiceStatus | null = typeof group.status === 'string' && isInvoiceStatus(group.status) ? group.status : null
+    if (wanted && (!status || !wanted.includes(status))) continue
+
+    const count = Number(group.count) || 0
+    if (status) summary.statusCounts[status] += count
+    summary.total += count
+    if (group[DUPLICATE_OF] == null) summary.totalAmount += Number(group.sum) || 0
+  }
+  return summary
+}
+
+/**
+ * Status counts for the whole filtered set (not just the current page), one
+ * `count(*)` per status. Fallback for `fetchInvoiceSummary`; statuses
+ * excluded by the active status filter are reported as zero without querying.
+ */
+export async function fetchInvoiceStatusCounts(
+  supabase: SupabaseClient,
+  table: string,
+  filters: NormalisedFilters,
+  nowIso: string,
+): Promise<InvoiceStatusCounts> {
+  const counts = emptyStatusCounts()
+  const wanted = filters.statuses.length
+    ? INVOICE_STATUSES.filter((status) => filters.statuses.includes(status))
+    : [...INVOICE_STATUSES]
+
+  const results = await Promise.all(
+    wanted.map((status) => countRows(supabase, table, filters, [status], nowIso)),
+  )
+  wanted.forEach((status, index) => {
+    counts[status] = results[index]
+  })
+  return counts
+}
+
+/**
+ * Sum of invoice totals for the filtered set, leaving out confirmed
+ * duplicates (migrations/invoice-duplicates.sql). Requires PostgREST
+ * aggregate functions (see migrations/invoice-query-pushdown.sql); returns
+ * null when they are unavailable so callers can fall back.
+ */
+export async function fetchInvoiceTotalAmount(
+  supabase: SupabaseClient,
+  table: string,
+  filters: NormalisedFilters,
+  nowIso: string,
+): Promise<number | null> {
+  let query = supabase.from(table).select(`${AMOUNT}.sum()`).is(DUPLICATE_OF, null)
+  query = applyInvoiceFilters(query, filters)
+  query = applyStatusFilter(query, filters.statuses, nowIso)
+  const { data, error } = await query
+  if (error) {
+    console.warn('Invoice total aggregate unavailable:', error.message)
+    return null
+  }
+  const row = Array.isArray(data) ? (data[0] as any) : (data as any)
+  return Number(row?.sum ?? 0) || 0
+}
+
+/**
+ * Rank and snippet for each of the given invoices against the search, via
+ * `invoice_search_matches` (migrations/invoice-search.sql). Rows still match
+ * with rank 0 and no snippet when the function is unavailable.
+ */
+export async function fetchSearchMatches(
+  supabase: SupabaseClient,
+  search: string,
+  ids: string[],
+): Promise<Map<string, SearchMatch>> {
+  const terms = searchTerms(search)
+  const matches = new Map<string, SearchMatch>(ids.map((id) => [id, { rank: 0, snippet: null, terms }]))
+  const tsQuery = toPrefixTsQuery(search)
+  if (!tsQuery || ids.length === 0) return matches
+
+  const { data, error } = await supabase.rpc('invoice_search_matches', { search_query: tsQuery, invoice_ids: ids })
+  if (error) {
+    console.warn('Invoice search ranking unavailable:', error.message)
+    return matches
+  }
+
+  for (const row of (data as any[]) ?? []) {
+    const snippet = typeof row.snippet === 'string' && row.snippet.includes(HIGHLIGHT_START) ? row.snippet : null
+    matches.set(String(row.id), { rank: Number(row.rank) || 0, snippet, terms })
+  }
+  return matches
+}
+
+async function querySortedPage(supabase: SupabaseClient, table: string, options: InvoicePageQuery): Promise<any[]> {
+  const { filters, sortBy, sortOrder, page, limit, nowIso } = options
+  const ascending = sortOrder === 'asc'
+
+  let query = supabase.from(table).select('*')
+  query = applyInvoiceFilters(query, filters)
+  query = applyStatusFilter(query, filters.statuses, nowIso)
+
+  const cursor = options.cursor ? decodeInvoiceCursor(options.cursor) : null
+  if (cursor) {
+    query = applyKeyset(query, cursor, sortBy, sortOrder)
+  }
+
+  query = query
+    .order(sortBy, { ascending, nullsFirst: false })
+    .order('id', { ascending })
+
+  query = cursor ? query.limit(limit) : query.range(page * limit, page * limit + limit - 1)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data as any[]) ?? []
+}
+
+/**
+ * A page of search results ordered by rank. Postgres only ranks through
+ * `invoice_search_matches`, so the ids of the newest matching rows (up to
+ * MAX_RANKED_RESULTS) are ranked first and the page is then read by id. Older
+ * matches are left out; `rankedLimit` in the result reports it.
+ */
+async function queryRankedPage(
+  supabase: SupabaseClient,
+  table: string,
+  options: InvoicePageQuery,
+): Promise<{ rows: any[]; matches: Map<string, SearchMatch> }> {
+  const { filters, page, limit, nowIso } = options
+
+  let idQuery = supabase.from(table).select('id')
+  idQuery = applyInvoiceFilters(idQuery, filters)
+  idQuery = applyStatusFilter(idQuery, filters.statuses, nowIso)
+  const { data, error } = await idQuery
+    .order(CREATED_AT, { ascending: false, nullsFirst: false })
+    .limit(MAX_RANKED_RESULTS)
+  if (error) throw error
+
+  const ids = ((data as any[]) ?? []).map((row) => String(row.id))
+  const matches = await fetchSearchMatches(supabase, filters.search, ids)
+  const pageIds = sortByRank(ids, (id) => matches.get(id)?.rank).slice(page * limit, page * limit + limit)
+  if (pageIds.length === 0) return { rows: [], matches }
+
+  const { data: rows, error: rowsError } = await supabase.from(table).select('*').in('id', pageIds)
+  if (rowsError) throw rowsError
+
+  const byId = new Map(((rows as any[]) ?? []).map((row) => [String(row.id), row]))
+  return { rows: pageIds.map((id) => byId.get(id)).filter(Boolean), matches }
+}
+
+// Per-status counts, a row count and a separate sum, for databases without the
+// status aggregate. The row count matches the aggregate's: the rows the list
+// pages through, credit notes and adjustments included.
+async function fetchFallbackSummary(
+  supabase: SupabaseClient,
+  table: string,
+  filters: NormalisedFilters,
+  nowIso: string,
+  rows: any[],
+): Promise<InvoiceListSummary> {
+  const [statusCounts, total, totalAmount] = await Promise.all([
+    fetchInvoiceStatusCounts(supabase, table, filters, nowIso),
+    countRows(supabase, table, filters, filters.statuses, nowIso),
+    fetchInvoiceTotalAmount(supabase, table, filters, nowIso),
+  ])
+  return {
+    total,
+    totalAmount: totalAmount ?? rows.reduce((sum, row) => sum + (row[DUPLICATE_OF] ? 0 : Number(row[AMOUNT]) || 0), 0),
+    statusCounts,
+  }
+}
+
+/**
+ * Fetch a single page of invoices with filters, ordering and pagination
+ * applied in the database. When a cursor is supplied, keyset pagination is
+ * used and `page` is ignored. A search sorted by RELEVANCE_SORT is ordered by
+ * rank and paged by offset only.
+ */
+export async function queryInvoicePage(
+  supabase: SupabaseClient,
+  table: string,
+  options: InvoicePageQuery,
+): Promise<InvoicePageResult> {
+  const { filters, sortBy, limit, nowIso } = options
+  const ranked = sortBy === RELEVANCE_SORT && filters.search !== ''
+
+  const [pageResult, aggregate] = await Promise.all([
+    ranked
+      ? queryRankedPage(supabase, table, options)
+      : querySortedPage(supabase, table, options).then((rows) => ({ rows, matches: null })),
+    fetchInvoiceSummary(supabase, table, filters),
+  ])
+
+  const { rows } = pageResult
+  const summary = aggregate ?? (await fetchFallbackSummary(supabase, table, filters, nowIso, rows))
+  const matches =
+    pageResult.matches ??
+    (filters.search
+      ? await fetchSearchMatches(supabase, filters.search, rows.map((row) => String(row.id)))
+      : new Map<string, SearchMatch>())
+  const lastRow = rows[rows.length - 1]
+
+  return {
+    rows,
+    matches,
+    ...summary,
+    nextCursor: !ranked && rows.length === limit && lastRow ? encodeInvoiceCursor(lastRow, sortBy) : null,
+    rankedLimit: ranked && summary.total > MAX_RANKED_RESULTS ? MAX_RANKED_RESULTS : null,
+  }
+}
@@ -0,0 +1,541 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { getSupabaseAdmin } from './supabase-admin'
+import { isSupabaseConfigured } from './env'
+import {
+  invoiceColumn,
+  mapInvoiceRow,
+  toInvoiceColumns,
+  deriveInvoiceStatus,
+  type InvoiceField,
+  type InvoiceRecord,
+} from './invoice-columns'
+import {
+  applyInvoiceFilters,
+  applyStatusFilter,
+  queryInvoicePage,
+  quote,
+  type InvoicePageQuery,
+  type InvoicePageResult,
+  type NormalisedFilters,
+} from './invoice-query'
+import { inAgingWindow } from '@/lib/payables-aging'
+import { matchInvoiceSearch, type SearchMatch } from '@/lib/invoice-search'
+import { similarVendorNames } from '@/lib/vendor-matching'
+import { mockInvoiceData } from '@/lib/sample-data'
+import type { Invoice } from '@/lib/types'
+
+/**
+ * Single entry point for reading and writing invoices.
+ *
+ * Every route and chat tool goes through this module so they query the same
+ * table and agree on the column mapping and derived status. Functions accept
+ * an optional client so callers holding a user-scoped (RLS) client can pass
+ * it through; the service-role client is used otherwise.
+ */
+
+const SCAN_PAGE_SIZE = 1000
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** A listed invoice, with its rank and snippet when the list was searched. */
+export type InvoiceListItem = InvoiceRecord & { searchMatch?: SearchMatch }
+
+export interface InvoiceListResult extends Omit<InvoicePageResult, 'rows' | 'matches'> {
+  invoices: InvoiceListItem[]
+}
+
+export interface FoundInvoice {
+  table: string
+  row: Record<string, any>
+  invoice: InvoiceRecord
+}
+
+export type DuplicateReason = 'invoice_number' | 'file_checksum'
+
+export interface DuplicateCandidate {
+  invoice: InvoiceRecord
+  reasons: DuplicateReason[]
+}
+
+/** Primary invoice table (SUPABASE_INVOICES_TABLE) followed by its fallback. */
+export function resolveInvoiceTables(): [string, string] {
+  const primary = process.env.SUPABASE_INVOICES_TABLE || 'invoices'
+  return [primary, primary === 'invoices' ? 'Invoice' : 'invoices']
+}
+
+// PostgREST (PGRST205) and Postgres (42P01) codes for a table that does not exist
+const MISSING_TABLE_CODES = new Set(['PGRST205', '42P01'])
+
+function isMissingTable(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code
+  return typeof code === 'string' && MISSING_TABLE_CODES.has(code)
+}
+
+/**
+ * Run a query against the primary invoice table, retrying against the
+ * fallback table only when the primary does not exist. Any other error,
+ * such as a constraint violation on a write, is rethrown as is.
+ */
+export async function withInvoiceTable<T>(run: (table: string) => Promise<T>): Promise<T> {
+  const [primary, fallback] = resolveInvoiceTables()
+  try {
+    return await run(primary)
+  } catch (error) {
+    if (!isMissingTable(error)) throw error
+    return run(fallback)
+  }
+}
+
+export async function listInvoices(
+  query: InvoicePageQuery,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<InvoiceListResult> {
+  const now = new Date(query.nowIso)
+  const { rows, matches, ...rest } = await withInvoiceTable((table) => queryInvoicePage(client, table, query))
+  return { ...rest, invoices: rows.map((row) => withSearchMatch(mapInvoiceRow(row, now), matches)) }
+}
+
+/**
+ * Load every invoice row matching the filters, paging through the table in
+ * batches so large tables are not silently truncated.
+ */
+export async function scanInvoiceRows(
+  filters: NormalisedFilters,
+  client: SupabaseClient = getSupabaseAdmin(),
+  nowIso: string = new Date().toISOString(),
+): Promise<Record<string, any>[]> {
+  return withInvoiceTable(async (table) => {
+    const rows: Record<string, any>[] = []
+    for (let offset = 0; ; offset += SCAN_PAGE_SIZE) {
+      let query = client.from(table).select('*')
+      query = applyInvoiceFilters(query, filters)
+      query = applyStatusFilter(query, filters.statuses, nowIso)
+      const { data, error } = await query.order('id').range(offset, offset + SCAN_PAGE_SIZE - 1)
+      if (error) throw error
+      rows.push(...(data ?? []))
+      if (!data || data.length < SCAN_PAGE_SIZE) break
+    }
+    return rows
+  })
+}
+
+export async function scanInvoices(
+  filters: NormalisedFilters,
+  client: SupabaseClient = getSupabaseAdmin(),
+  now: Date = new Date(),
+): Promise<InvoiceRecord[]> {
+  const rows = await scanInvoiceRows(filters, client, now.toISOString())
+  return rows.map((row) => mapInvoiceRow(row, now))
+}
+
+/** Number of invoices matching the filters, counted by Postgres. */
+export async function countInvoices(
+  filters: NormalisedFilters,
+  client: SupabaseClient = getSupabaseAdmin(),
+  now: Date = new Date(),
+): Promise<number> {
+  return withInvoiceTable(async (table) => {
+    let query = client.from(table).select('id', { count: 'exact', head: true })
+    query = applyInvoiceFilters(query, filters)
+    query = applyStatusFilter(query, filters.statuses, now.toISOString())
+    const { count, error } = await query
+    if (error) throw error
+    return count ?? 0
+  })
+}
+
+/**
+ * Invoices matching the filters a page at a time, in due date order, for
+ * exports that write each page out before loading the next. The first page
+ * picks the table, as in `withInvoiceTable`.
+ */
+export async function* scanInvoicePages(
+  filters: NormalisedFilters,
+  client: SupabaseClient = getSupabaseAdmin(),
+  now: Date = new Date(),
+): AsyncGenerator<InvoiceRecord[]> {
+  const nowIso = now.toISOString()
+  const loadPage = async (table: string, offset: number) => {
+    let query = client.from(table).select('*')
+    query = applyInvoiceFilters(query, filters)
+    query = applyStatusFilter(query, filters.statuses, nowIso)
+    const { data, error } = await query
+      .order(invoiceColumn('dueDate'), { ascending: true, nullsFirst: false })
+      .order('id')
+      .range(offset, offset + SCAN_PAGE_SIZE - 1)
+    if (error) throw error
+    return (data ?? []) as Record<string, any>[]
+  }
+
+  let table = ''
+  let rows = await withInvoiceTable(async (candidate) => {
+    const firstPage = await loadPage(candidate, 0)
+    table = candidate
+    return firstPage
+  })
+  for (let offset = 0; ; offset += SCAN_PAGE_SIZE) {
+    if (offset > 0) rows = await loadPage(table, offset)
+    if (rows.length) yield rows.map((row) => mapInvoiceRow(row, now))
+    if (rows.length < SCAN_PAGE_SIZE) return
+  }
+}
+
+async function selectOne(client: SupabaseClient, table: string, column: string, value: string) {
+  const { data, error } = await client
+    .from(table)
+    .select('*')
+    .eq(column, value)
+    .order(invoiceColumn('createdAt'), { ascending: false })
+    .limit(1)
+  if (error) throw error
+  return (data?.[0] as Record<string, any> | undefined) ?? null
+}
+
+/**
+ * Look up an invoice by id or invoice number. UUIDs are matched against the
+ * id column; anything else is tried as an invoice number first, since the
+ * kanban identifies cards by invoice number.
+ */
+export async function findInvoice(
+  idOrNumber: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+  now: Date = new Date(),
+): Promise<FoundInvoice | null> {
+  const idColumn = invoiceColumn('id')
+  const numberColumn = invoiceColumn('invoiceNumber')
+
+  return withInvoiceTable(async (table) => {
+    let row: Record<string, any> | null
+    if (UUID_PATTERN.test(idOrNumber)) {
+      row = await selectOne(client, table, idColumn, idOrNumber)
+    } else {
+      row = await selectOne(client, table, numberColumn, idOrNumber)
+      if (!row) {
+        row = await selectOne(client, table, idColumn, idOrNumber).catch(() => null)
+      }
+    }
+    return row ? { table, row, invoice: mapInvoiceRow(row, now) } : null
+  })
+}
+
+/**
+ * Apply a partial update to an invoice. Returns null when the invoice does
+ * not exist. `updated_at` is always refreshed.
+ */
+export async function updateInvoice(
+  idOrNumber: string,
+  patch: Partial<InvoiceRecord>,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<FoundInvoice | null> {
+  const existing = await findInvoice(idOrNumber, client)
+  if (!existing) return null
+
+  const updates = toInvoiceColumns({ ...patch, updatedAt: new Date().toISOString() })
+  const { data, error } = await client
+    .from(existing.table)
+    .update(updates)
+    .eq(invoiceColumn('id'), existing.invoice.id)
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return { table: existing.table, row: data, invoice: mapInvoiceRow(data) }
+}
+
+/**
+ * Update an invoice only while the given columns still hold the values in
+ * `found.row`. Returns null when another writer changed them first, so
+ * read-modify-write callers can re-read and try again.
+ */
+export async function updateInvoiceIf(
+  found: FoundInvoice,
+  unchanged: InvoiceField[],
+  patch: Partial<InvoiceRecord>,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<FoundInvoice | null> {
+  const updates = toInvoiceColumns({ ...patch, updatedAt: new Date().toISOString() })
+  let query = client
+    .from(found.table)
+    .update(updates)
+    .eq(invoiceColumn('id'), found.invoice.id)
+
+  for (const field of unchanged) {
+    const column = invoiceColumn(field)
+    const value = found.row[column] ?? null
+    query = value === null ? query.is(column, null) : query.eq(column, value)
+  }
+
+  const { data, error } = await query.select('*').maybeSingle()
+  if (error) throw error
+  return data ? { table: found.table, row: data, invoice: mapInvoiceRow(data) } : null
+}
+
+/** Insert a new invoice and return it in record form. */
+export async function createInvoice(
+  record: Partial<InvoiceRecord>,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<FoundInvoice> {
+  const now = new Date().toISOString()
+  const values = toInvoiceColumns({ ...record, createdAt: now, updatedAt: now })
+
+  return withInvoiceTable(async (table) => {
+    const { data, error } = await client.from(table).insert(values).select('*').single()
+    if (error) throw error
+    return { table, row: data, invoice: mapInvoiceRow(data) }
+  })
+}
+
+/**
+ * Existing invoices that look like the same bill: the same supplier and
+ * invoice number (case-insensitive), or the same source file checksum.
+ */
+export async function findDuplicateInvoices(
+  candidate: { vendorName: string; invoiceNumber: string; fileChecksum?: string | null },
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<DuplicateCandidate[]> {
+  const vendorColumn = invoiceColumn('vendorName')
+  const numberColumn = invoiceColumn('invoiceNumber')
+  const checksumColumn = invoiceColumn('fileChecksum')
+
+  // ilike without wildcards gives a case-insensitive equality match
+  const exactly = (value: string) => quote(value.trim().replace(/[\\%_]/g, (match) => `\\${match}`))
+
+  const conditions = [
+    `and(${vendorColumn}.ilike.${exactly(candidate.vendorName)},${numberColumn}.ilike.${exactly(candidate.invoiceNumber)})`,
+  ]
+  if (candidate.fileChecksum) {
+    conditions.push(`${checksumColumn}.eq.${quote(candidate.fileChecksum)}`)
+  }
+
+  const rows = await withInvoiceTable(async (table) => {
+    const { data, error } = await client.from(table).select('*').or(conditions.join(',')).limit(10)
+    if (error) throw error
+    return data ?? []
+  })
+
+  return rows.map((row) => {
+    const invoice = mapInvoiceRow(row)
+    const reasons: DuplicateReason[] = []
+    if (
+      invoice.vendorName.trim().toLowerCase() === candidate.vendorName.trim().toLowerCase() &&
+      invoice.invoiceNumber.trim().toLowerCase() === candidate.invoiceNumber.trim().toLowerCase()
+    ) {
+      reasons.push('invoice_number')
+    }
+    if (candidate.fileChecksum && invoice.fileChecksum === candidate.fileChecksum) {
+      reasons.push('file_checksum')
+    }
+    return { invoice, reasons }
+  })
+}
+
+export async function deleteInvoice(
+  id: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<boolean> {
+  return withInvoiceTable(async (table) => {
+    const { error, count } = await client
+      .from(table)
+      .delete({ count: 'exact' })
+      .eq(invoiceColumn('id'), id)
+    if (error) throw error
+    return Boolean(count)
+  })
+}
+
+/** Map a local fixture invoice onto the same record shape as database rows. */
+export function fromLocalInvoice(invoice: Invoice, now: Date = new Date()): InvoiceRecord {
+  const toIso = (value: Date | string | undefined | null) =>
+    value ? (typeof value === 'string' ? value : value.toISOString()) : null
+
+  const amount = invoice.amount ?? 0
+  const amountDue = invoice.amountDue ?? amount
+  const issueDate = toIso(invoice.issueDate)
+  const receivedDate = toIso(invoice.receivedDate) ?? issueDate
+
+  return {
+    id: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    vendorName: invoice.vendorName,
+    vendorEmail: invoice.vendorEmail ?? '',
+    vendorAbn: null,
+    vendorId: invoice.vendorId ?? null,
+    amount,
+    subtotal: null,
+    gst: null,
+    amountDue,
+    issueDate,
+    dueDate: toIso(invoice.dueDate),
+    receivedDate,
+    status: deriveInvoiceStatus(amountDue, invoice.dueDate, issueDate ?? receivedDate, now),
+    description: invoice.description ?? '',
+    category: invoice.category ?? 'Uncategorized',
+    paymentTerms: invoice.paymentTerms ?? 'Net 30',
+    invoiceUrl: invoice.invoiceUrl ?? '',
+    paidDate: toIso(invoice.paidDate),
+    paymentReference: null,
+    notes: null,
+    source: null,
+    fileChecksum: null,
+    documentType: invoice.documentType ?? 'invoice',
+    originalInvoiceId: invoice.originalInvoiceId ?? null,
+    duplicateOfId: invoice.duplicateOfId ?? null,
+    uploadedByUserId: invoice.uploadedByUserId ?? null,
+    createdAt: receivedDate,
+    updatedAt: null,
+  }
+}
+
+/** Local fixtures as invoice records, for running without Supabase. */
+export function localInvoiceRecords(now: Date = new Date()): InvoiceRecord[] {
+  return mockInvoiceData.map((invoice) => fromLocalInvoice(invoice, now))
+}
+
+/**
+ * Scan Supabase, or the local fixtures when it is not configured or the
+ * query fails, so reports keep rendering in development.
+ */
+export async function scanInvoicesOrLocal(filters: NormalisedFilters, now: Date = new Date()): Promise<InvoiceRecord[]> {
+  if (!isSupabaseConfigured()) {
+    return filterInvoiceRecords(localInvoiceRecords(now), filters)
+  }
+  try {
+    return await scanInvoices(filters, undefined, now)
+  } catch (error) {
+    console.error('Supabase query failed:', error)
+    return filterInvoiceRecords(localInvoiceRecords(now), filters)
+  }
+}
+
+export function withSearchMatch(invoice: InvoiceRecord, matches: Map<string, SearchMatch>): InvoiceListItem {
+  const searchMatch = matches.get(invoice.id)
+  return searchMatch ? { ...invoice, searchMatch } : invoice
+}
+
+/**
+ * In-memory equivalent of the full-text search: rank and snippet for each
+ * invoice matching the search, by invoice id. Suppliers are matched through
+ * typos against the names in the list itself, so this works offline.
+ */
+export function matchInvoiceRecords(invoices: InvoiceRecord[], filters: NormalisedFilters): Map<string, SearchMatch> {
+  const matches = new Map<string, SearchMatch>()
+  if (!filters.search) return matches
+
+  const similarVendors = new Set([
+    ...(filters.searchVendors ?? []),
+    ...similarVendorNames(filters.search, invoices.map((invoice) => invoice.vendorName)),
+  ])
+  for (const invoice of invoices) {
+    const match = matchInvoiceSearch(invoice, filters.search, similarVendors.has(invoice.vendorName))
+    if (match) matches.set(invoice.id, match)
+  }
+  return matches
+}
+
+/** In-memory equivalent of applyInvoiceFilters + applyStatusFilter. */
+export function filterInvoiceRecords(invoices: InvoiceRecord[], filters: NormalisedFilters): InvoiceRecord[] {
+  const searchMatches = matchInvoiceRecords(invoices, filters)
+
+  return invoices.filter((invoice) => {
+    if (filters.search && !searchMatches.has(invoice.id)) {
+      return false
+    }
+
+    // Credit notes and adjustments have no board status (see buildStatusCondition)
+    if (filters.statuses.length && (invoice.documentType !== 'invoice' || !filters.statuses.includes(invoice.status))) {
+      return false
+    }
+
+    if (filters.categories.length) {
+      const category = invoice.category.toLowerCase()
+      if (!filters.categories.some((value) => category === value.toLowerCase())) {
+        return false
+      }
+    }
+
+    if (filters.vendors.length) {
+      const vendor = invoice.vendorName.toLowerCase()
+      if (!filters.vendors.some((value) => vendor === value.toLowerCase())) {
+        return false
+      }
+    }
+
+    if (filters.dateFrom || filters.dateTo) {
+      const created = invoice.issueDate ?? invoice.receivedDate
+      if (!created) return false
+      const createdDate = new Date(created)
+
+      if (filters.dateFrom && createdDate < new Date(filters.dateFrom)) {
+        return false
+      }
+
+      if (filters.dateTo && createdDate > new Date(filters.dateTo)) {
+        return false
+      }
+    }
+
+    if (filters.dueFrom || filters.dueTo) {
+      const due = invoice.dueDate?.slice(0, 10)
+      if (!due) return false
+      if (filters.dueFrom && due < filters.dueFrom) return false
+      if (filters.dueTo && due > filters.dueTo) return false
+    }
+
+    if (typeof filters.amountMin === 'number' && invoice.amount < filters.amountMin) {
+      return false
+    }
+
+    if (typeof filters.amountMax === 'number' && invoice.amount > filters.amountMax) {
+      return false
+    }
+
+    if (filters.aging) {
+      const outstanding = invoice.status !== 'paid' && invoice.amountDue > 0 && !invoice.duplicateOfId
+      if (!outstanding || !inAgingWindow(invoice.dueDate, filters.aging)) {
+        return false
+      }
+    }
+
+    return true
+  })
+}
+
+/** In-memory ordering by canonical sort column, matching queryInvoicePage. */
+export function sortInvoiceRecords(
+  invoices: InvoiceRecord[],
+  sortBy: string,
+  sortOrder: 'asc' | 'desc',
+): InvoiceRecord[] {
+  const factor = sortOrder === 'asc' ? 1 : -1
+
+  return [...invoices].sort((a, b) => {
+    switch (sortBy) {
+      case invoiceColumn('createdAt'):
+        return factor * compareDate(a.receivedDate ?? a.issueDate, b.receivedDate ?? b.issueDate)
+      case invoiceColumn('invoiceNumber'):
+        return factor * a.invoiceNumber.localeCompare(b.invoiceNumber)
+      case invoiceColumn('vendorName'):
+        return factor * a.vendorName.localeCompare(b.vendorName)
+      case invoiceColumn('amount'):
+        return factor * (a.amount - b.amount)
+      case invoiceColumn('dueDate'):
+        return factor * compareDate(a.dueDate, b.dueDate)
+      case invoiceColumn('issueDate'):
+        return factor * compareDate(a.issueDate, b.issueDate)
+      case invoiceColumn('category'):
+        return factor * a.category.localeCompare(b.category)
+      default:
+        return 0
+    }
+  })
+}
+
+function compareDate(a?: string | null, b?: string | null) {
+  const dateA = a ? new Date(a).getTime() : 0
+  const dateB = b ? new Date(b).getTime() : 0
+  return dateA - dateB
+}
+
+export type { InvoiceRecord, NormalisedFilters }
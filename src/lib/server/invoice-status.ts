@@ -0,0 +1,317 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { getSupabaseAdmin } from './supabase-admin'
+import type { InvoiceStatus } from './invoice-columns'
+import { findInvoice, updateInvoice, updateInvoiceIf, type FoundInvoice, type InvoiceRecord } from './invoice-repository'
+import { insertInvoicePayment, roundCents } from './invoice-payments'
+import {
+  getApprovalState,
+  insertApproval,
+  supersedeApprovals,
+  type ApprovalState,
+  type InvoiceApproval,
+} from './invoice-approvals'
+import { approvalProgress, hasApproverRole, type ApprovalProgress } from '../approval-policy'
+import {
+  describeBlockedTransition,
+  evaluateTransition,
+  evaluateTransitions,
+  nextStatuses,
+  type StatusChangeInput,
+  type StatusGuardResult,
+  type StatusTransitionContext,
+  type StatusTransitionEvaluation,
+} from '../invoice-status-machine'
+
+/**
+ * Status changes shared by the single and bulk status endpoints. The rules
+ * themselves live in the declarative workflow in `invoice-status-machine.ts`.
+ *
+ * Moving an invoice to `approved` counts as the actor's approval. The
+ * invoice only changes to `approved` once its approval policy has enough
+ * distinct approvers; until then the approval is recorded and the outcome is
+ * `approval_recorded`.
+ *
+ * Marking an invoice paid settles its outstanding balance, so like a
+ * payment it only goes through while the amount due is the one read.
+ */
+
+/** Who is changing the status; guards such as the approver role read this */
+export interface StatusActor {
+  id: string
+  email?: string
+  role: string
+}
+
+export type StatusChangeResult =
+  | { outcome: 'updated'; invoice: InvoiceRecord; previousStatus: InvoiceStatus; approval?: InvoiceApproval }
+  | {
+      outcome: 'approval_recorded'
+      invoice: InvoiceRecord
+      previousStatus: InvoiceStatus
+      approval: InvoiceApproval
+      progress: ApprovalProgress
+    }
+  | { outcome: 'unchanged'; invoice: InvoiceRecord; previousStatus: InvoiceStatus }
+  | { outcome: 'not_found' }
+  | {
+      outcome: 'invalid_transition'
+      invoice: InvoiceRecord
+      previousStatus: InvoiceStatus
+      message: string
+      allowedTransitions: InvoiceStatus[]
+      guards: StatusGuardResult[]
+    }
+  | { outcome: 'conflict'; message: string }
+
+export type RejectInvoiceResult =
+  | { outcome: 'rejected'; invoice: InvoiceRecord; previousStatus: InvoiceStatus; approval: InvoiceApproval }
+  | { outcome: 'not_found' }
+  | { outcome: 'forbidden'; message: string }
+  | { outcome: 'invalid_transition'; invoice: InvoiceRecord; message: string }
+
+function transitionContext(
+  invoice: InvoiceRecord,
+  actor: StatusActor,
+  input?: StatusChangeInput,
+  approval?: ApprovalState,
+): StatusTransitionContext {
+  return {
+    invoice: {
+      status: invoice.status,
+      paidDate: invoice.paidDate,
+      paymentReference: invoice.paymentReference,
+      issueDate: invoice.issueDate,
+    },
+    actor,
+    input,
+    approval: approval && { progress: approval.progress, uploadedByUserId: invoice.uploadedByUserId },
+  }
+}
+
+// Times a status change is re-read and re-applied when another write changes the balance first
+const BALANCE_ATTEMPTS = 3
+
+/** Approved or paid invoices sent back for review must be approved again */
+function reopensApproval(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return (from === 'approved' || from === 'paid') && (to === 'pending' || to === 'in_review')
+}
+
+/** Fields written alongside the status, e.g. payment details when marking paid */
+function statusPatch(newStatus: InvoiceStatus, input: StatusChangeInput = {}): Partial<InvoiceRecord> {
+  const patch: Partial<InvoiceRecord> = { status: newStatus }
+  if (newStatus === 'paid') {
+    if (input.paymentDate?.trim()) patch.paidDate = input.paymentDate.trim()
+    if (input.paymentReference?.trim()) patch.paymentReference = input.paymentReference.trim()
+    patch.amountDue = 0
+  }
+  return patch
+}
+
+/**
+ * Mark an invoice paid, settling whatever is still outstanding with a ledger
+ * entry for the balance. Null when the balance changed after it was read. If
+ * the entry cannot be written the invoice is put back and the error thrown.
+ */
+async function settleInvoice(
+  found: FoundInvoice,
+  actor: StatusActor,
+  input: StatusChangeInput,
+  client: SupabaseClient,
+): Promise<FoundInvoice | null> {
+  const invoice = found.invoice
+  const updated = await updateInvoiceIf(found, ['amountDue'], statusPatch('paid', input), client)
+  if (!updated) return null
+
+  const balance = roundCents(invoice.amountDue)
+  if (balance <= 0) return updated
+
+  try {
+    await insertInvoicePayment(
+      {
+        invoiceId: invoice.id,
+        amount: balance,
+        paidAt: input.paymentDate?.trim() || invoice.paidDate || new Date().toISOString().split('T')[0],
+        method: null,
+        reference: input.paymentReference?.trim() || invoice.paymentReference || '',
+        notes: 'Balance settled when the invoice was marked as paid',
+        confirmedBy: null,
+        amountDueAfter: 0,
+        recordedByUserId: actor.id,
+        recordedByEmail: actor.email ?? null,
+      },
+      client,
+    )
+  } catch (error) {
+    await updateInvoiceIf(
+      updated,
+      ['amountDue'],
+      { amountDue: invoice.amountDue, status: invoice.status, paidDate: invoice.paidDate, paymentReference: invoice.paymentReference },
+      client,
+    )
+    throw error
+  }
+  return updated
+}
+
+/**
+ * Move an invoice (by id or invoice number) to a new status if the workflow
+ * and its guards allow it. Does not write audit entries; callers decide how
+ * changes are grouped in the audit log.
+ */
+export async function changeInvoiceStatus(
+  idOrNumber: string,
+  newStatus: InvoiceStatus,
+  actor: StatusActor,
+  input: StatusChangeInput = {},
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<StatusChangeResult> {
+  for (let attempt = 0; attempt < BALANCE_ATTEMPTS; attempt++) {
+    const result = await applyStatusChange(idOrNumber, newStatus, actor, input, client)
+    if (result) return result
+  }
+  return { outcome: 'conflict', message: 'The invoice balance kept changing while its status was changed; try again' }
+}
+
+// One read-check-write pass; null when the balance changed after it was read
+async function applyStatusChange(
+  idOrNumber: string,
+  newStatus: InvoiceStatus,
+  actor: StatusActor,
+  input: StatusChangeInput,
+  client: SupabaseClient,
+): Promise<StatusChangeResult | null> {
+  const found = await findInvoice(idOrNumber, client)
+  if (!found) {
+    return { outcome: 'not_found' }
+  }
+
+  const previousStatus = found.invoice.status
+
+  if (previousStatus === newStatus) {
+    return { outcome: 'unchanged', invoice: found.invoice, previousStatus }
+  }
+
+  // Approving adds to the invoice's approvals, and paying needs them complete
+  const approval = newStatus === 'approved' || newStatus === 'paid'
+    ? await getApprovalState(found.invoice, client)
+    : undefined
+  const evaluation = evaluateTransition(newStatus, transitionContext(found.invoice, actor, input, approval), {
+    requireInput: true,
+  })
+  if (!evaluation.allowed) {
+    return {
+      outcome: 'invalid_transition',
+      invoice: found.invoice,
+      previousStatus,
+      message: describeBlockedTransition(previousStatus, evaluation),
+      allowedTransitions: nextStatuses(previousStatus),
+      guards: evaluation.blockedBy,
+    }
+  }
+
+  let recorded: InvoiceApproval | undefined
+  if (approval && newStatus === 'approved') {
+    recorded = await insertApproval(found.invoice, actor, approval.policy, 'approved', null, client)
+    const progress = approvalProgress(approval.policy, [
+      ...approval.history.filter((entry) => !entry.supersededAt),
+      recorded,
+    ])
+    if (progress.remaining > 0) {
+      // A pending invoice with its first approval is now under review
+      const moved = previousStatus === 'pending'
+        ? await updateInvoice(found.invoice.id, { status: 'in_review' }, client)
+        : null
+      return {
+        outcome: 'approval_recorded',
+        invoice: moved?.invoice ?? found.invoice,
+        previousStatus,
+        approval: recorded,
+        progress,
+      }
+    }
+  }
+
+  const updated = newStatus === 'paid'
+    ? await settleInvoice(found, actor, input, client)
+    : await updateInvoice(found.invoice.id, statusPatch(newStatus, input), client)
+  if (!updated) {
+    return newStatus === 'paid' ? null : { outcome: 'not_found' }
+  }
+
+  if (reopensApproval(previousStatus, newStatus)) {
+    await supersedeApprovals(found.invoice.id, client)
+  }
+
+  return { outcome: 'updated', invoice: updated.invoice, previousStatus, approval: recorded }
+}
+
+/**
+ * Reject an invoice awaiting approval: the rejection is recorded, earlier
+ * approvals stop counting and the invoice goes back to pending. Needs a
+ * role the invoice's approval policy accepts.
+ */
+export async function rejectInvoice(
+  idOrNumber: string,
+  actor: StatusActor,
+  comment: string | null = null,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<RejectInvoiceResult> {
+  const found = await findInvoice(idOrNumber, client)
+  if (!found) {
+    return { outcome: 'not_found' }
+  }
+
+  const previousStatus = found.invoice.status
+  if (previousStatus === 'approved' || previousStatus === 'paid') {
+    return {
+      outcome: 'invalid_transition',
+      invoice: found.invoice,
+      message: `Cannot reject an invoice that is already ${previousStatus}; reopen it instead`,
+    }
+  }
+
+  const state = await getApprovalState(found.invoice, client)
+  if (!hasApproverRole(actor.role, state.policy.approverRoles)) {
+    return { outcome: 'forbidden', message: 'Only approvers can reject invoices' }
+  }
+
+  await supersedeApprovals(found.invoice.id, client)
+  const approval = await insertApproval(found.invoice, actor, state.policy, 'rejected', comment, client)
+  const updated = previousStatus === 'in_review'
+    ? await updateInvoice(found.invoice.id, { status: 'pending' }, client)
+    : null
+
+  return { outcome: 'rejected', invoice: updated?.invoice ?? found.invoice, previousStatus, approval }
+}
+
+export interface InvoiceTransitions {
+  id: string
+  invoiceId: string
+  invoiceNumber: string
+  currentStatus: InvoiceStatus
+  transitions: StatusTransitionEvaluation[]
+}
+
+/**
+ * Evaluate every possible next status for an invoice on behalf of an actor,
+ * so the UI can disable targets before the user tries them.
+ */
+export async function getInvoiceTransitions(
+  idOrNumber: string,
+  actor: StatusActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<InvoiceTransitions | null> {
+  const found = await findInvoice(idOrNumber, client)
+  if (!found) return null
+
+  const approval = await getApprovalState(found.invoice, client)
+  return {
+    id: idOrNumber,
+    invoiceId: found.invoice.id,
+    invoiceNumber: found.invoice.invoiceNumber,
+    currentStatus: found.invoice.status,
+    transitions: evaluateTransitions(transitionContext(found.invoice, actor, undefined, approval)),
+  }
+}
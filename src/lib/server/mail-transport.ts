@@ -0,0 +1,98 @@
+import 'server-only'
+
+import type { MailMessage } from '../mail-message'
+import { sendSmtpMail } from '../smtp-client'
+
+/**
+ * Outgoing mail. Senders call `getMailTransport().send(message)`; which
+ * transport does the sending is configuration:
+ *
+ * - `smtp` (the default when SMTP_HOST is set): SMTP_HOST, SMTP_PORT,
+ *   SMTP_SECURE, SMTP_USER, SMTP_PASSWORD. With a user and password the
+ *   connection must be encrypted, so a relay without STARTTLS fails the send.
+ *   Point it at a local catcher such as Mailpit (`SMTP_HOST=localhost
+ *   SMTP_PORT=1025`, no credentials) to see mail in development.
+ * - `log`: writes a summary of each message to the server log and sends
+ *   nothing.
+ *
+ * Other transports (an email API, a queue) plug in via `registerMailTransport`
+ * and are picked with MAIL_TRANSPORT.
+ */
+
+export interface MailSendResult {
+  messageId: string | null
+  accepted: string[]
+  rejected: string[]
+}
+
+export interface MailTransport {
+  name: string
+  send(message: MailMessage): Promise<MailSendResult>
+}
+
+const DEFAULT_FROM = 'Invoice reports <reports@localhost>'
+
+const factories = new Map<string, () => MailTransport>([
+  ['smtp', createSmtpTransport],
+  ['log', createLogTransport],
+])
+
+let override: MailTransport | null = null
+
+function createSmtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST
+  if (!host) throw new Error('SMTP_HOST is not configured')
+  const secure = process.env.SMTP_SECURE === 'true'
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const result = await sendSmtpMail(message, {
+        host,
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        requireTLS: Boolean(process.env.SMTP_USER),
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      })
+      return { messageId: result.messageId, accepted: result.accepted, rejected: result.rejected }
+    },
+  }
+}
+
+function createLogTransport(): MailTransport {
+  return {
+    name: 'log',
+    async send(message) {
+      console.info('Mail (log transport, not sent)', {
+        to: message.to,
+        subject: message.subject,
+        attachments: message.attachments?.map((attachment) => `${attachment.filename} (${attachment.content.length} bytes)`),
+      })
+      return { messageId: null, accepted: message.to, rejected: [] }
+    },
+  }
+}
+
+/** Make a transport available under MAIL_TRANSPORT=`name`. */
+export function registerMailTransport(name: string, factory: () => MailTransport): void {
+  factories.set(name, factory)
+}
+
+/** Use this transport regardless of configuration (e.g. in tests); null to go back to configuration. */
+export function setMailTransport(transport: MailTransport | null): void {
+  override = transport
+}
+
+export function getMailTransport(): MailTransport {
+  if (override) return override
+  const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'log')
+  const factory = factories.get(name)
+  if (!factory) throw new Error(`Unknown mail transport "${name}"`)
+  return factory()
+}
+
+/** Sender address for outgoing mail. */
+export function mailFrom(): string {
+  return process.env.MAIL_FROM || DEFAULT_FROM
+}
@@ -0,0 +1,67 @@
+import 'server-only'
+
+import { isSupabaseConfigured } from './env'
+import { INVOICE_STATUSES, normaliseInvoiceFilters, type NormalisedFilters } from './invoice-query'
+import { loadVendorIndexOrEmpty } from './vendors'
+import { buildVendorIndex, expandVendorNames, findVendorByName, type VendorIndex } from '@/lib/vendor-matching'
+
+/**
+ * Dashboard filters for the payables reports (/api/outstanding,
+ * /api/forecast): dateFrom, dateTo, status, category, vendor, amountMin and
+ * amountMax, parsed like /api/stats. Paid invoices are never outstanding, so
+ * the status filter defaults to every other status and drops `paid`.
+ */
+
+const OUTSTANDING_STATUSES = INVOICE_STATUSES.filter((status) => status !== 'paid')
+
+export interface PayablesFilters {
+  filters: NormalisedFilters
+  /** True when only paid invoices were asked for, so nothing can be outstanding */
+  excludesOutstanding: boolean
+  vendorIndex: VendorIndex
+}
+
+function parseDateParam(value: string | null): string | undefined {
+  if (!value) return undefined
+  const d = new Date(value)
+  return Number.isNaN(d.getTime()) ? undefined : d.toISOString()
+}
+
+function parseAmountParam(value: string | null): number | undefined {
+  const parsed = parseFloat(value || '')
+  return Number.isNaN(parsed) ? undefined : parsed
+}
+
+export async function parsePayablesFilters(searchParams: URLSearchParams): Promise<PayablesFilters> {
+  // Vendors are reported and filtered by canonical vendor rather than raw supplier name
+  const vendorIndex = isSupabaseConfigured() ? await loadVendorIndexOrEmpty() : buildVendorIndex([])
+
+  const requested = searchParams.getAll('status').map((status) => status.trim().toLowerCase()).filter(Boolean)
+  const statuses = requested.length ? requested.filter((status) => status !== 'paid') : [...OUTSTANDING_STATUSES]
+
+  return {
+    filters: normaliseInvoiceFilters({
+      statuses,
+      categories: searchParams.getAll('category'),
+      vendors: expandVendorNames(searchParams.getAll('vendor'), vendorIndex),
+      dateFrom: parseDateParam(searchParams.get('dateFrom')),
+      dateTo: parseDateParam(searchParams.get('dateTo')),
+      amountMin: parseAmountParam(searchParams.get('amountMin')),
+      amountMax: parseAmountParam(searchParams.get('amountMax')),
+    }),
+    excludesOutstanding: statuses.length === 0,
+    vendorIndex,
+  }
+}
+
+/** The canonical vendor an invoice's supplier name belongs to, for grouping. */
+export function canonicalVendor(
+  invoice: { vendorName: string; vendorId: string | null },
+  vendorIndex: VendorIndex,
+): { vendorName: string; vendorId: string | null } {
+  const knownVendor = findVendorByName(invoice.vendorName, vendorIndex)
+  return {
+    vendorName: knownVendor?.name || invoice.vendorName || 'Unknown Vendor',
+    vendorId: invoice.vendorId ?? knownVendor?.id ?? null,
+  }
+}
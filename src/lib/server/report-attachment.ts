@@ -0,0 +1,37 @@
+import 'server-only'
+
+import { buildXlsx } from './xlsx'
+import { generateTableCsv } from '../csv-export'
+import type { ReportFormat } from '../report-schedule'
+import {
+  buildReportRows,
+  REPORT_COLUMNS,
+  reportFileStem,
+  type ReportAttachment,
+  type ReportInvoice,
+} from '../scheduled-report'
+import { XLSX_CONTENT_TYPE } from '../xlsx'
+
+const encoder = new TextEncoder()
+
+/** The invoices in a report as a CSV file or an Excel workbook. */
+export async function renderReportAttachment(
+  viewName: string,
+  invoices: ReportInvoice[],
+  format: ReportFormat,
+  generatedAt: Date,
+): Promise<ReportAttachment> {
+  const rows = buildReportRows(invoices)
+  const stem = reportFileStem(viewName, generatedAt)
+
+  if (format === 'xlsx') {
+    return {
+      filename: `${stem}.xlsx`,
+      contentType: XLSX_CONTENT_TYPE,
+      content: await buildXlsx({ name: viewName, columns: REPORT_COLUMNS, rows }, generatedAt),
+    }
+  }
+
+  const csv = generateTableCsv(REPORT_COLUMNS.map((column) => column.header), rows)
+  return { filename: `${stem}.csv`, contentType: 'text/csv; charset=utf-8', content: encoder.encode(csv) }
+}
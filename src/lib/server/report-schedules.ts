@@ -0,0 +1,678 @@
+import 'server-only'
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { getSupabaseAdmin } from './supabase-admin'
+import { getSavedView, type SavedView } from './saved-views'
+import { resolveSavedViewFilters } from './invoice-query'
+import { scanInvoicesOrLocal, sortInvoiceRecords } from './invoice-repository'
+import { invoiceColumn } from './invoice-columns'
+import { expandVendorFilters } from './vendors'
+import { getMailTransport, mailFrom } from './mail-transport'
+import { renderReportAttachment } from './report-attachment'
+import type { SavedViewActor } from '../saved-views'
+import {
+  describeReportSchedule,
+  nextReportRun,
+  nextRetryAt,
+  normaliseRecipient,
+  REPORT_MAX_ATTEMPTS,
+  REPORT_TIMEZONE,
+  type ReportFormat,
+  type ReportFrequency,
+  type ReportScheduleTiming,
+} from '../report-schedule'
+import { renderReportEmail, summariseReport } from '../scheduled-report'
+import { invoiceFiltersToSearchQuery } from '@/types/invoice-filters'
+
+/**
+ * Scheduled report deliveries (migrations/report-schedules.sql). A schedule
+ * emails the invoices in one saved view to a list of recipients daily,
+ * weekly or monthly, in Sydney time. Schedules belong to the user who
+ * created them; admins can manage everyone's.
+ *
+ * `runDueReports` is called by the cron route every 15 minutes: it claims
+ * schedules whose next run has passed, moves them on to the following run,
+ * and sends a delivery for each. Each recipient gets their own message so
+ * the unsubscribe link names them. Failed deliveries are retried for the
+ * recipients that did not get the report (see `nextRetryAt`), and any
+ * delivery can be retried by hand from its history. A delivery left
+ * `sending` by a function that was stopped is failed by a later run and
+ * retried like any other failure.
+ */
+
+const SCHEDULES_TABLE = 'report_schedules'
+const DELIVERIES_TABLE = 'report_deliveries'
+// Still sending this long after the attempt started: the function sending it was stopped
+const STALLED_AFTER_MS = 10 * 60 * 1000
+
+export type ReportScheduleStatus = 'active' | 'paused'
+export type ReportDeliveryStatus = 'sending' | 'sent' | 'failed'
+export type ReportDeliveryTrigger = 'schedule' | 'manual'
+
+export interface ReportSchedule extends ReportScheduleTiming {
+  id: string
+  savedViewId: string
+  viewName: string | null
+  ownerId: string
+  ownerEmail: string | null
+  timezone: string
+  format: ReportFormat
+  recipients: string[]
+  status: ReportScheduleStatus
+  nextRunAt: string | null
+  lastRunAt: string | null
+  lastDeliveryStatus: ReportDeliveryStatus | null
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+export interface ReportDelivery {
+  id: string
+  scheduleId: string
+  status: ReportDeliveryStatus
+  trigger: ReportDeliveryTrigger
+  scheduledFor: string | null
+  attempts: number
+  nextAttemptAt: string | null
+  recipients: string[]
+  /** Recipients the report has reached, across attempts */
+  sentTo: string[]
+  rowCount: number | null
+  error: string | null
+  createdAt: string | null
+  sentAt: string | null
+}
+
+export interface ReportScheduleInput extends ReportScheduleTiming {
+  savedViewId: string
+  format: ReportFormat
+  recipients: string[]
+}
+
+export interface ReportScheduleChanges extends Partial<ReportScheduleTiming> {
+  format?: ReportFormat
+  recipients?: string[]
+  status?: ReportScheduleStatus
+}
+
+export type ReportScheduleChangeResult =
+  | { outcome: 'updated'; schedule: ReportSchedule }
+  | { outcome: 'not_found' }
+
+export type ReportDeliveryResult =
+  | { outcome: 'delivered'; delivery: ReportDelivery }
+  | { outcome: 'not_found' }
+  | { outcome: 'conflict'; message: string }
+
+export interface ReportRunOptions {
+  /** Origin for links in the email, e.g. https://invoices.example.com */
+  baseUrl: string
+  now?: Date
+  client?: SupabaseClient
+}
+
+export interface ReportRunSummary {
+  scheduled: number
+  stalled: number
+  retried: number
+  sent: number
+  failed: number
+}
+
+/** Origin for links in report emails: APP_URL, or the origin the request came in on. */
+export function reportBaseUrl(requestUrl: string): string {
+  return (process.env.APP_URL || new URL(requestUrl).origin).replace(/\/$/, '')
+}
+
+const isAdmin = (actor: SavedViewActor) => actor.role.toLowerCase() === 'admin'
+
+function mapScheduleRow(row: Record<string, any>): ReportSchedule {
+  return {
+    id: String(row.id),
+    savedViewId: String(row.saved_view_id),
+    viewName: row.view?.name ?? null,
+    ownerId: String(row.user_id ?? ''),
+    ownerEmail: row.owner_email ?? null,
+    frequency: (row.frequency ?? 'daily') as ReportFrequency,
+    hour: Number(row.hour ?? 0),
+    minute: Number(row.minute ?? 0),
+    dayOfWeek: row.day_of_week ?? null,
+    dayOfMonth: row.day_of_month ?? null,
+    timezone: row.timezone ?? REPORT_TIMEZONE,
+    format: row.format === 'xlsx' ? 'xlsx' : 'csv',
+    recipients: Array.isArray(row.recipients) ? row.recipients.map(String) : [],
+    status: row.status === 'paused' ? 'paused' : 'active',
+    nextRunAt: row.next_run_at ?? null,
+    lastRunAt: row.last_run_at ?? null,
+    lastDeliveryStatus: row.last_delivery_status ?? null,
+    createdAt: row.created_at ?? null,
+    updatedAt: row.updated_at ?? null,
+  }
+}
+
+function mapDeliveryRow(row: Record<string, any>): ReportDelivery {
+  return {
+    id: String(row.id),
+    scheduleId: String(row.schedule_id),
+    status: row.status as ReportDeliveryStatus,
+    trigger: (row.trigger ?? 'schedule') as ReportDeliveryTrigger,
+    scheduledFor: row.scheduled_for ?? null,
+    attempts: Number(row.attempts ?? 0),
+    nextAttemptAt: row.next_attempt_at ?? null,
+    recipients: Array.isArray(row.recipients) ? row.recipients.map(String) : [],
+    sentTo: Array.isArray(row.sent_to) ? row.sent_to.map(String) : [],
+    rowCount: row.row_count ?? null,
+    error: row.error ?? null,
+    createdAt: row.created_at ?? null,
+    sentAt: row.sent_at ?? null,
+  }
+}
+
+const SCHEDULE_SELECT = '*, view:invoice_saved_views(name)'
+
+function timingColumns(timing: ReportScheduleTiming) {
+  return {
+    frequency: timing.frequency,
+    hour: timing.hour,
+    minute: timing.minute,
+    day_of_week: timing.frequency === 'weekly' ? timing.dayOfWeek ?? 1 : null,
+    day_of_month: timing.frequency === 'monthly' ? timing.dayOfMonth ?? 1 : null,
+  }
+}
+
+/** The actor's schedules (everyone's for admins), soonest first. */
+export async function listReportSchedules(
+  actor: SavedViewActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<ReportSchedule[]> {
+  let query = client.from(SCHEDULES_TABLE).select(SCHEDULE_SELECT).order('next_run_at', { ascending: true })
+  if (!isAdmin(actor)) query = query.eq('user_id', actor.id)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data ?? []).map(mapScheduleRow)
+}
+
+/** A schedule the actor may manage, or null. */
+export async function getReportSchedule(
+  id: string,
+  actor: SavedViewActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<ReportSchedule | null> {
+  const { data, error } = await client.from(SCHEDULES_TABLE).select(SCHEDULE_SELECT).eq('id', id).maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+  const schedule = mapScheduleRow(data)
+  return schedule.ownerId === actor.id || isAdmin(actor) ? schedule : null
+}
+
+/** Schedule a saved view the actor can see; null when they cannot. */
+export async function createReportSchedule(
+  input: ReportScheduleInput,
+  actor: SavedViewActor,
+  now: Date = new Date(),
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<ReportSchedule | null> {
+  const view = await getSavedView(input.savedViewId, actor, client)
+  if (!view) return null
+
+  const { data, error } = await client
+    .from(SCHEDULES_TABLE)
+    .insert({
+      saved_view_id: view.id,
+      user_id: actor.id,
+      owner_email: actor.email ?? null,
+      ...timingColumns(input),
+      timezone: REPORT_TIMEZONE,
+      format: input.format,
+      recipients: input.recipients,
+      status: 'active',
+      next_run_at: nextReportRun(input, now).toISOString(),
+    })
+    .select(SCHEDULE_SELECT)
+    .single()
+
+  if (error) throw error
+  return mapScheduleRow(data)
+}
+
+/** Change timing, format or recipients, or pause and resume. Resuming skips the runs missed while paused. */
+export async function updateReportSchedule(
+  id: string,
+  changes: ReportScheduleChanges,
+  actor: SavedViewActor,
+  now: Date = new Date(),
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<ReportScheduleChangeResult> {
+  const schedule = await getReportSchedule(id, actor, client)
+  if (!schedule) return { outcome: 'not_found' }
+
+  const timing: ReportScheduleTiming = {
+    frequency: changes.frequency ?? schedule.frequency,
+    hour: changes.hour ?? schedule.hour,
+    minute: changes.minute ?? schedule.minute,
+    dayOfWeek: changes.dayOfWeek !== undefined ? changes.dayOfWeek : schedule.dayOfWeek,
+    dayOfMonth: changes.dayOfMonth !== undefined ? changes.dayOfMonth : schedule.dayOfMonth,
+  }
+  const status = changes.status ?? schedule.status
+  const timingChanged = (['frequency', 'hour', 'minute', 'dayOfWeek', 'dayOfMonth'] as const).some(
+    (key) => changes[key] !== undefined
+  )
+
+  const update: Record<string, unknown> = { ...timingColumns(timing), status, updated_at: now.toISOString() }
+  if (changes.format) update.format = changes.format
+  if (changes.recipients) update.recipients = changes.recipients
+  if (timingChanged || (status === 'active' && schedule.status === 'paused')) {
+    update.next_run_at = nextReportRun(timing, now).toISOString()
+  }
+
+  const { data, error } = await client.from(SCHEDULES_TABLE).update(update).eq('id', id).select(SCHEDULE_SELECT).single()
+  if (error) throw error
+  return { outcome: 'updated', schedule: mapScheduleRow(data) }
+}
+
+export async function deleteReportSchedule(
+  id: string,
+  actor: SavedViewActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<{ outcome: 'deleted' } | { outcome: 'not_found' }> {
+  const schedule = await getReportSchedule(id, actor, client)
+  if (!schedule) return { outcome: 'not_found' }
+
+  const { error } = await client.from(SCHEDULES_TABLE).delete().eq('id', id)
+  if (error) throw error
+  return { outcome: 'deleted' }
+}
+
+/** Delivery history for a schedule, newest first; null when the actor cannot see the schedule. */
+export async function listReportDeliveries(
+  scheduleId: string,
+  actor: SavedViewActor,
+  limit = 20,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<ReportDelivery[] | null> {
+  const schedule = await getReportSchedule(scheduleId, actor, client)
+  if (!schedule) return null
+
+  const { data, error } = await client
+    .from(DELIVERIES_TABLE)
+    .select('*')
+    .eq('schedule_id', scheduleId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data ?? []).map(mapDeliveryRow)
+}
+
+// Links go out by email, so they are signed with a key of their own rather than
+// one that also grants access elsewhere. Without it no link is issued or accepted.
+function unsubscribeSecret(): string {
+  const secret = process.env.REPORT_UNSUBSCRIBE_SECRET
+  if (!secret) throw new Error('REPORT_UNSUBSCRIBE_SECRET is not configured')
+  return secret
+}
+
+/** Token that lets `email` unsubscribe from `scheduleId` without signing in. */
+export function reportUnsubscribeToken(scheduleId: string, email: string): string {
+  return createHmac('sha256', unsubscribeSecret()).update(`${scheduleId}:${normaliseRecipient(email)}`).digest('base64url')
+}
+
+function unsubscribeQuery(scheduleId: string, email: string): string {
+  return new URLSearchParams({ schedule: scheduleId, email, token: reportUnsubscribeToken(scheduleId, email) }).toString()
+}
+
+/**
+ * Take a recipient off a schedule. A schedule left without recipients is
+ * paused rather than deleted, so the owner can add people back.
+ */
+export async function unsubscribeReportRecipient(
+  scheduleId: string,
+  email: string,
+  token: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<{ outcome: 'unsubscribed' | 'invalid' }> {
+  const expected = Buffer.from(reportUnsubscribeToken(scheduleId, email))
+  const given = Buffer.from(token)
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return { outcome: 'invalid' }
+
+  const { data, error } = await client.from(SCHEDULES_TABLE).select('recipients').eq('id', scheduleId).maybeSingle()
+  if (error) throw error
+  // Already deleted: nothing left to unsubscribe from
+  if (!data) return { outcome: 'unsubscribed' }
+
+  const recipients = ((data.recipients ?? []) as string[]).filter(
+    (recipient) => normaliseRecipient(recipient) !== normaliseRecipient(email),
+  )
+  const { error: updateError } = await client
+    .from(SCHEDULES_TABLE)
+    .update({ recipients, ...(recipients.length ? {} : { status: 'paused' }), updated_at: new Date().toISOString() })
+    .eq('id', scheduleId)
+  if (updateError) throw updateError
+  return { outcome: 'unsubscribed' }
+}
+
+// Invoices in the view as its owner would see them on the invoices page
+async function loadReportInvoices(view: SavedView, now: Date) {
+  const filters = await expandVendorFilters(resolveSavedViewFilters(view.filters, now))
+  return sortInvoiceRecords(await scanInvoicesOrLocal(filters, now), invoiceColumn('dueDate'), 'asc')
+}
+
+// Recipients of a delivery still on its schedule; those who unsubscribed since are skipped
+function subscribedRecipients(delivery: ReportDelivery, schedule: ReportSchedule): string[] {
+  const current = new Set(schedule.recipients.map(normaliseRecipient))
+  return delivery.recipients.filter((recipient) => current.has(normaliseRecipient(recipient)))
+}
+
+// Send to every recipient the delivery has not reached yet, then record the outcome
+async function attemptDelivery(
+  delivery: ReportDelivery,
+  schedule: ReportSchedule,
+  options: ReportRunOptions,
+): Promise<ReportDelivery> {
+  const client = options.client ?? getSupabaseAdmin()
+  const now = options.now ?? new Date()
+  const attempts = delivery.attempts + 1
+  const reached = new Set(delivery.sentTo.map(normaliseRecipient))
+  const pending = delivery.recipients.filter((recipient) => !reached.has(normaliseRecipient(recipient)))
+  const sentTo = [...delivery.sentTo]
+  const errors: string[] = []
+  let rowCount = delivery.rowCount
+  let retryable = true
+
+  await client
+    .from(DELIVERIES_TABLE)
+    .update({ status: 'sending', attempts, attempted_at: now.toISOString() })
+    .eq('id', delivery.id)
+
+  try {
+    // The schedule runs with its owner's access, so a view unshared from them stops the report
+    const view = await getSavedView(schedule.savedViewId, { id: schedule.ownerId, role: 'user' }, client)
+    if (!view) {
+      retryable = false
+      throw new Error('The saved view was deleted or is no longer shared with the schedule owner')
+    }
+
+    const invoices = await loadReportInvoices(view, now)
+    rowCount = invoices.length
+    const attachment = await renderReportAttachment(view.name, invoices, schedule.format, now)
+    const summary = summariseReport(invoices)
+    const viewUrl = `${options.baseUrl}/invoices?${new URLSearchParams({ q: invoiceFiltersToSearchQuery(view.filters) })}`
+    const transport = getMailTransport()
+
+    for (const recipient of pending) {
+      const query = unsubscribeQuery(schedule.id, recipient)
+      const email = renderReportEmail({
+        viewName: view.name,
+        schedule: describeReportSchedule(schedule),
+        format: schedule.format,
+        summary,
+        generatedAt: now,
+        viewUrl,
+        unsubscribeUrl: `${options.baseUrl}/reports/unsubscribe?${query}`,
+      })
+      try {
+        const result = await transport.send({
+          from: mailFrom(),
+          to: [recipient],
+          ...email,
+          attachments: [attachment],
+          headers: {
+            'List-Unsubscribe': `<${options.baseUrl}/api/reports/unsubscribe?${query}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          },
+        })
+        if (result.accepted.length) sentTo.push(recipient)
+        else errors.push(`${recipient}: rejected by the mail server`)
+      } catch (error) {
+        errors.push(`${recipient}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : String(error))
+  }
+
+  const failed = errors.length > 0
+  const retryAt = failed && retryable ? nextRetryAt(now, attempts) : null
+  const { data, error } = await client
+    .from(DELIVERIES_TABLE)
+    .update({
+      status: failed ? 'failed' : 'sent',
+      sent_to: sentTo,
+      row_count: rowCount,
+      error: failed ? errors.join('\n') : null,
+      next_attempt_at: retryAt?.toISOString() ?? null,
+      sent_at: failed ? null : now.toISOString(),
+    })
+    .eq('id', delivery.id)
+    .select('*')
+    .single()
+  if (error) throw error
+
+  await client
+    .from(SCHEDULES_TABLE)
+    .update({ last_run_at: now.toISOString(), last_delivery_status: failed ? 'failed' : 'sent' })
+    .eq('id', schedule.id)
+
+  return mapDeliveryRow(data)
+}
+
+async function createDelivery(
+  schedule: ReportSchedule,
+  trigger: ReportDeliveryTrigger,
+  scheduledFor: string,
+  now: Date,
+  client: SupabaseClient,
+): Promise<ReportDelivery> {
+  const { data, error } = await client
+    .from(DELIVERIES_TABLE)
+    .insert({
+      schedule_id: schedule.id,
+      status: 'sending',
+      trigger,
+      scheduled_for: scheduledFor,
+      attempts: 0,
+      attempted_at: now.toISOString(),
+      recipients: schedule.recipients,
+      sent_to: [],
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return mapDeliveryRow(data)
+}
+
+/** Send a schedule's report now, outside its schedule. */
+export async function sendReportNow(
+  scheduleId: string,
+  actor: SavedViewActor,
+  options: ReportRunOptions,
+): Promise<ReportDeliveryResult> {
+  const client = options.client ?? getSupabaseAdmin()
+  const schedule = await getReportSchedule(scheduleId, actor, client)
+  if (!schedule) return { outcome: 'not_found' }
+  if (schedule.recipients.length === 0) return { outcome: 'conflict', message: 'The schedule has no recipients' }
+
+  const now = options.now ?? new Date()
+  const delivery = await createDelivery(schedule, 'manual', now.toISOString(), now, client)
+  return { outcome: 'delivered', delivery: await attemptDelivery(delivery, schedule, { ...options, client }) }
+}
+
+/** Retry a failed delivery by hand, for the recipients it has not reached. */
+export async function retryReportDelivery(
+  deliveryId: string,
+  actor: SavedViewActor,
+  options: ReportRunOptions,
+): Promise<ReportDeliveryResult> {
+  const client = options.client ?? getSupabaseAdmin()
+  const { data, error } = await client.from(DELIVERIES_TABLE).select('*').eq('id', deliveryId).maybeSingle()
+  if (error) throw error
+  if (!data) return { outcome: 'not_found' }
+
+  const delivery = mapDeliveryRow(data)
+  const schedule = await getReportSchedule(delivery.scheduleId, actor, client)
+  if (!schedule) return { outcome: 'not_found' }
+  if (delivery.status !== 'failed') return { outcome: 'conflict', message: `The delivery is ${delivery.status}, not failed` }
+
+  const retry = { ...delivery, recipients: subscribedRecipients(delivery, schedule) }
+  return { outcome: 'delivered', delivery: await attemptDelivery(retry, schedule, { ...options, client }) }
+}
+
+/**
+ * Fail deliveries still `sending` long after their attempt started, so the
+ * retry pass below picks them up. Recipients reached before the function
+ * stopped were not recorded and may get the report twice.
+ */
+async function failStalledDeliveries(client: SupabaseClient, now: Date): Promise<number> {
+  const stalledBefore = new Date(now.getTime() - STALLED_AFTER_MS).toISOString()
+  const fail = (retryAt: string | null) => ({
+    status: 'failed',
+    error: 'The delivery stopped while sending',
+    next_attempt_at: retryAt,
+  })
+
+  const { data: retrying, error } = await client
+    .from(DELIVERIES_TABLE)
+    .update(fail(now.toISOString()))
+    .eq('status', 'sending')
+    .lt('attempted_at', stalledBefore)
+    .lt('attempts', REPORT_MAX_ATTEMPTS)
+    .select('id')
+  if (error) throw error
+
+  const { data: exhausted, error: exhaustedError } = await client
+    .from(DELIVERIES_TABLE)
+    .update(fail(null))
+    .eq('status', 'sending')
+    .lt('attempted_at', stalledBefore)
+    .select('id')
+  if (exhaustedError) throw exhaustedError
+
+  return (retrying?.length ?? 0) + (exhausted?.length ?? 0)
+}
+
+/**
+ * Record an error that escaped a scheduled run (a failed claim, insert or
+ * status update) on its delivery, as a failed attempt with the usual retry,
+ * so the run can carry on with the other schedules. Without a delivery row
+ * there is nothing to retry, and the error is only logged.
+ */
+async function recordRunFailure(
+  schedule: ReportSchedule,
+  delivery: ReportDelivery | null,
+  runError: unknown,
+  now: Date,
+  client: SupabaseClient,
+): Promise<void> {
+  console.error(`Scheduled report ${schedule.id} failed:`, runError)
+  if (!delivery) return
+
+  const attempts = delivery.attempts + 1
+  const retryAt = nextRetryAt(now, attempts)
+  const { error } = await client
+    .from(DELIVERIES_TABLE)
+    .update({
+      status: 'failed',
+      attempts,
+      error: runError instanceof Error ? runError.message : String(runError),
+      next_attempt_at: retryAt?.toISOString() ?? null,
+      sent_at: null,
+    })
+    .eq('id', delivery.id)
+  if (error) {
+    console.error(`Could not record the failure of report delivery ${delivery.id}:`, error)
+    return
+  }
+
+  await client
+    .from(SCHEDULES_TABLE)
+    .update({ last_run_at: now.toISOString(), last_delivery_status: 'failed' })
+    .eq('id', schedule.id)
+}
+
+/**
+ * Send every report that is due and retry failed deliveries whose retry
+ * time has come. Each schedule and retry is claimed with a conditional
+ * update, so overlapping runs do not send the same report twice. A
+ * schedule whose run throws is recorded as failed and the others still run.
+ */
+export async function runDueReports(options: ReportRunOptions): Promise<ReportRunSummary> {
+  const client = options.client ?? getSupabaseAdmin()
+  const now = options.now ?? new Date()
+  const summary: ReportRunSummary = { scheduled: 0, stalled: 0, retried: 0, sent: 0, failed: 0 }
+  const record = (delivery: ReportDelivery) => {
+    summary[delivery.status === 'sent' ? 'sent' : 'failed'] += 1
+  }
+
+  const { data: due, error } = await client
+    .from(SCHEDULES_TABLE)
+    .select(SCHEDULE_SELECT)
+    .eq('status', 'active')
+    .lte('next_run_at', now.toISOString())
+  if (error) throw error
+
+  for (const schedule of (due ?? []).map(mapScheduleRow)) {
+    let delivery: ReportDelivery | null = null
+    try {
+      const { data: claimed, error: claimError } = await client
+        .from(SCHEDULES_TABLE)
+        .update({ next_run_at: nextReportRun(schedule, now).toISOString() })
+        .eq('id', schedule.id)
+        .eq('next_run_at', schedule.nextRunAt)
+        .select('id')
+      if (claimError) throw claimError
+      if (!claimed?.length || schedule.recipients.length === 0) continue
+
+      summary.scheduled += 1
+      delivery = await createDelivery(schedule, 'schedule', schedule.nextRunAt ?? now.toISOString(), now, client)
+      record(await attemptDelivery(delivery, schedule, { ...options, client, now }))
+    } catch (runError) {
+      summary.failed += 1
+      await recordRunFailure(schedule, delivery, runError, now, client)
+    }
+  }
+
+  summary.stalled = await failStalledDeliveries(client, now)
+
+  const { data: retries, error: retryError } = await client
+    .from(DELIVERIES_TABLE)
+    .select(`*, schedule:${SCHEDULES_TABLE}(${SCHEDULE_SELECT})`)
+    .eq('status', 'failed')
+    .lt('attempts', REPORT_MAX_ATTEMPTS)
+    .lte('next_attempt_at', now.toISOString())
+  if (retryError) throw retryError
+
+  for (const row of retries ?? []) {
+    if (!row.schedule || row.schedule.status !== 'active') continue
+    const schedule = mapScheduleRow(row.schedule)
+    const delivery = mapDeliveryRow(row)
+    // Only a claimed retry is ours to mark failed
+    let claimedDelivery: ReportDelivery | null = null
+    try {
+      const { data: claimed, error: claimError } = await client
+        .from(DELIVERIES_TABLE)
+        .update({ next_attempt_at: null })
+        .eq('id', row.id)
+        .eq('next_attempt_at', row.next_attempt_at)
+        .select('id')
+      if (claimError) throw claimError
+      if (!claimed?.length) continue
+
+      claimedDelivery = delivery
+      summary.retried += 1
+      record(await attemptDelivery(
+        { ...delivery, recipients: subscribedRecipients(delivery, schedule) },
+        schedule,
+        { ...options, client, now },
+      ))
+    } catch (runError) {
+      summary.failed += 1
+      await recordRunFailure(schedule, claimedDelivery, runError, now, client)
+    }
+  }
+
+  return summary
+}
@@ -0,0 +1,292 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { getSupabaseAdmin } from './supabase-admin'
+import {
+  canEditSavedView,
+  canManageSavedView,
+  canShareSavedView,
+  canViewSavedView,
+  duplicateSavedViewName,
+  isSavedViewVisibility,
+  resolveDefaultSavedView,
+  sortSavedViews,
+  type SavedViewActor,
+  type SavedViewPermission,
+  type SavedViewVisibility,
+} from '../saved-views'
+import { serializeInvoiceFilters, type InvoiceFiltersState } from '@/types/invoice-filters'
+
+/**
+ * Saved invoice views, owned by the Supabase user who created them and
+ * optionally shared with the team or pinned org-wide (see
+ * src/lib/saved-views.ts for the sharing rules). Each owner has at most one
+ * default view; an org-pinned default applies to users without one.
+ */
+
+const SAVED_VIEWS_TABLE = 'invoice_saved_views'
+
+export interface SavedView {
+  id: string
+  name: string
+  filters: InvoiceFiltersState
+  isDefault: boolean
+  ownerId: string
+  ownerEmail: string | null
+  visibility: SavedViewVisibility
+  permission: SavedViewPermission
+  position: number
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+/** A view as the actor sees it, with what they may do to it. */
+export interface SavedViewEntry extends SavedView {
+  isOwner: boolean
+  canEdit: boolean
+  canManage: boolean
+}
+
+export interface SavedViewChanges {
+  name?: string
+  filters?: InvoiceFiltersState
+  isDefault?: boolean
+  visibility?: SavedViewVisibility
+  permission?: SavedViewPermission
+}
+
+export type SavedViewChangeResult =
+  | { outcome: 'updated'; view: SavedViewEntry }
+  | { outcome: 'not_found' }
+  | { outcome: 'forbidden'; message: string }
+
+function mapSavedViewRow(row: Record<string, any>): SavedView {
+  return {
+    id: String(row.id),
+    name: String(row.name ?? ''),
+    filters: row.filters as InvoiceFiltersState,
+    isDefault: Boolean(row.is_default),
+    ownerId: String(row.user_id ?? ''),
+    ownerEmail: row.owner_email ?? null,
+    visibility: isSavedViewVisibility(row.visibility) ? row.visibility : 'private',
+    permission: row.permission === 'edit' ? 'edit' : 'read',
+    position: Number(row.position ?? 0),
+    createdAt: row.created_at ?? null,
+    updatedAt: row.updated_at ?? null,
+  }
+}
+
+export function toSavedViewEntry(view: SavedView, actor: SavedViewActor): SavedViewEntry {
+  return {
+    ...view,
+    isOwner: view.ownerId === actor.id,
+    canEdit: canEditSavedView(view, actor),
+    canManage: canManageSavedView(view, actor),
+  }
+}
+
+/** The actor's views and those shared with them, in display order, with the view to load by default. */
+export async function listSavedViews(
+  actor: SavedViewActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<{ views: SavedViewEntry[]; defaultViewId: string | null }> {
+  const { data, error } = await client
+    .from(SAVED_VIEWS_TABLE)
+    .select('*')
+    .or(`user_id.eq.${actor.id},visibility.in.(team,org)`)
+
+  if (error) throw error
+  const views = sortSavedViews((data ?? []).map(mapSavedViewRow), actor).map((view) => toSavedViewEntry(view, actor))
+  return { views, defaultViewId: resolveDefaultSavedView(views, actor)?.id ?? null }
+}
+
+/** A view the actor may see, or null. */
+export async function getSavedView(
+  id: string,
+  actor: SavedViewActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<SavedView | null> {
+  const { data, error } = await client
+    .from(SAVED_VIEWS_TABLE)
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+  const view = mapSavedViewRow(data)
+  return canViewSavedView(view, actor) ? view : null
+}
+
+// One default per owner, and one org-wide default among pinned views
+async function clearDefaults(view: Pick<SavedView, 'ownerId' | 'visibility'>, client: SupabaseClient) {
+  const { error } = await client
+    .from(SAVED_VIEWS_TABLE)
+    .update({ is_default: false })
+    .eq('user_id', view.ownerId)
+    .eq('is_default', true)
+  if (error) throw error
+
+  if (view.visibility === 'org') {
+    const { error: orgError } = await client
+      .from(SAVED_VIEWS_TABLE)
+      .update({ is_default: false })
+      .eq('visibility', 'org')
+      .eq('is_default', true)
+    if (orgError) throw orgError
+  }
+}
+
+// New views go to the end of the owner's list
+async function nextPosition(ownerId: string, client: SupabaseClient): Promise<number> {
+  const { data, error } = await client
+    .from(SAVED_VIEWS_TABLE)
+    .select('position')
+    .eq('user_id', ownerId)
+    .order('position', { ascending: false })
+    .limit(1)
+
+  if (error) throw error
+  return data?.length ? Number(data[0].position ?? 0) + 1 : 0
+}
+
+async function insertSavedView(
+  input: Required<Pick<SavedViewChanges, 'name' | 'filters'>> & SavedViewChanges,
+  actor: SavedViewActor,
+  client: SupabaseClient,
+): Promise<SavedViewEntry> {
+  const visibility = input.visibility ?? 'private'
+  if (input.isDefault) await clearDefaults({ ownerId: actor.id, visibility }, client)
+
+  const { data, error } = await client
+    .from(SAVED_VIEWS_TABLE)
+    .insert({
+      user_id: actor.id,
+      owner_email: actor.email ?? null,
+      name: input.name.trim(),
+      filters: serializeInvoiceFilters(input.filters),
+      is_default: Boolean(input.isDefault),
+      visibility,
+      permission: input.permission ?? 'read',
+      position: await nextPosition(actor.id, client),
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return toSavedViewEntry(mapSavedViewRow(data), actor)
+}
+
+export async function createSavedView(
+  input: Required<Pick<SavedViewChanges, 'name' | 'filters'>> & SavedViewChanges,
+  actor: SavedViewActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<{ outcome: 'created'; view: SavedViewEntry } | { outcome: 'forbidden'; message: string }> {
+  if (!canShareSavedView(input.visibility ?? 'private', actor)) {
+    return { outcome: 'forbidden', message: 'Only admins can pin views for everyone' }
+  }
+  return { outcome: 'created', view: await insertSavedView(input, actor, client) }
+}
+
+/**
+ * Rename a view or change its filters (anyone who can edit it), or its
+ * sharing and default (owner, or an admin for shared views).
+ */
+export async function updateSavedView(
+  id: string,
+  changes: SavedViewChanges,
+  actor: SavedViewActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<SavedViewChangeResult> {
+  const view = await getSavedView(id, actor, client)
+  if (!view) return { outcome: 'not_found' }
+
+  const managing = changes.isDefault !== undefined || changes.visibility !== undefined || changes.permission !== undefined
+  if (!canEditSavedView(view, actor) || (managing && !canManageSavedView(view, actor))) {
+    return { outcome: 'forbidden', message: 'This view is shared read-only' }
+  }
+  const visibility = changes.visibility ?? view.visibility
+  if (changes.visibility && !canShareSavedView(changes.visibility, actor)) {
+    return { outcome: 'forbidden', message: 'Only admins can pin views for everyone' }
+  }
+
+  const updates: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  if (changes.name !== undefined) updates.name = changes.name.trim()
+  if (changes.filters !== undefined) updates.filters = serializeInvoiceFilters(changes.filters)
+  if (changes.visibility !== undefined) updates.visibility = changes.visibility
+  if (changes.permission !== undefined) updates.permission = changes.permission
+  if (changes.isDefault !== undefined) {
+    if (changes.isDefault) await clearDefaults({ ownerId: view.ownerId, visibility }, client)
+    updates.is_default = changes.isDefault
+  }
+
+  const { data, error } = await client
+    .from(SAVED_VIEWS_TABLE)
+    .update(updates)
+    .eq('id', id)
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return { outcome: 'updated', view: toSavedViewEntry(mapSavedViewRow(data), actor) }
+}
+
+export async function deleteSavedView(
+  id: string,
+  actor: SavedViewActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<{ outcome: 'deleted' } | Exclude<SavedViewChangeResult, { outcome: 'updated' }>> {
+  const view = await getSavedView(id, actor, client)
+  if (!view) return { outcome: 'not_found' }
+  if (!canManageSavedView(view, actor)) {
+    return { outcome: 'forbidden', message: 'Only the owner can delete this view' }
+  }
+
+  const { error } = await client.from(SAVED_VIEWS_TABLE).delete().eq('id', id)
+  if (error) throw error
+  return { outcome: 'deleted' }
+}
+
+/** Copy any view the actor can see into a private view of their own. */
+export async function duplicateSavedView(
+  id: string,
+  actor: SavedViewActor,
+  name?: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<{ outcome: 'created'; view: SavedViewEntry } | { outcome: 'not_found' }> {
+  const view = await getSavedView(id, actor, client)
+  if (!view) return { outcome: 'not_found' }
+
+  const { data, error } = await client
+    .from(SAVED_VIEWS_TABLE)
+    .select('name')
+    .eq('user_id', actor.id)
+  if (error) throw error
+
+  const existing = (data ?? []).map((row) => String(row.name ?? ''))
+  const copy = await insertSavedView(
+    { name: name ?? duplicateSavedViewName(view.name, existing), filters: view.filters },
+    actor,
+    client,
+  )
+  return { outcome: 'created', view: copy }
+}
+
+/**
+ * Put the actor's own views in the given order. Ids of views they do not
+ * own are ignored.
+ */
+export async function reorderSavedViews(
+  ids: string[],
+  actor: SavedViewActor,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<void> {
+  for (const [position, id] of ids.entries()) {
+    const { error } = await client
+      .from(SAVED_VIEWS_TABLE)
+      .update({ position })
+      .eq('id', id)
+      .eq('user_id', actor.id)
+    if (error) throw error
+  }
+}
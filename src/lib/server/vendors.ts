@@ -0,0 +1,441 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { getSupabaseAdmin } from './supabase-admin'
+import { invoiceColumn } from './invoice-columns'
+import {
+  normaliseInvoiceFilters,
+  type NormalisedFilters,
+} from './invoice-query'
+import {
+  scanInvoices,
+  withInvoiceTable,
+  type InvoiceRecord,
+} from './invoice-repository'
+import {
+  buildVendorIndex,
+  expandVendorNames,
+  findSimilarVendors,
+  matchVendor,
+  normaliseAbn,
+  normaliseVendorName,
+  type VendorCandidate,
+  type VendorIdentity,
+  type VendorIndex,
+  type VendorMatchReason,
+} from '../vendor-matching'
+
+/**
+ * Vendor master data. Each vendor has a canonical name, optional ABN and
+ * contact details, defaults applied to new invoices, and the raw supplier
+ * names it has been seen under (aliases). Invoices are linked through
+ * `vendorId`; merging vendors moves their aliases and invoices to the
+ * vendor that is kept.
+ */
+
+const VENDORS_TABLE = 'vendors'
+const ALIASES_TABLE = 'vendor_aliases'
+
+// Invoice ids updated per request when linking invoices to a vendor
+const LINK_BATCH_SIZE = 200
+
+export interface Vendor {
+  id: string
+  name: string
+  abn: string | null
+  email: string | null
+  phone: string | null
+  address: string | null
+  defaultCategory: string | null
+  defaultPaymentTerms: string | null
+  mergedIntoId: string | null
+  aliases: string[]
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+export type VendorDetails = Partial<Pick<
+  Vendor,
+  'name' | 'abn' | 'email' | 'phone' | 'address' | 'defaultCategory' | 'defaultPaymentTerms'
+>>
+
+export type SaveVendorResult =
+  | { outcome: 'saved'; vendor: Vendor }
+  | { outcome: 'not_found' }
+  | { outcome: 'conflict'; vendor: Vendor; message: string }
+
+export type MergeVendorsResult =
+  | { outcome: 'merged'; vendor: Vendor; merged: Vendor[]; invoicesMoved: number }
+  | { outcome: 'not_found'; missing: string[] }
+  | { outcome: 'invalid'; message: string }
+
+function mapVendorRow(row: Record<string, any>, aliases: string[] = []): Vendor {
+  return {
+    id: String(row.id),
+    name: String(row.name ?? ''),
+    abn: row.abn ?? null,
+    email: row.email ?? null,
+    phone: row.phone ?? null,
+    address: row.address ?? null,
+    defaultCategory: row.default_category ?? null,
+    defaultPaymentTerms: row.default_payment_terms ?? null,
+    mergedIntoId: row.merged_into ?? null,
+    aliases,
+    createdAt: row.created_at ?? null,
+    updatedAt: row.updated_at ?? null,
+  }
+}
+
+function toVendorColumns(details: VendorDetails): Record<string, unknown> {
+  const columns: Record<string, unknown> = {}
+  if (details.name !== undefined) {
+    columns.name = details.name.trim()
+    columns.normalized_name = normaliseVendorName(details.name)
+  }
+  if (details.abn !== undefined) columns.abn = normaliseAbn(details.abn)
+  if (details.email !== undefined) columns.email = details.email?.trim() || null
+  if (details.phone !== undefined) columns.phone = details.phone?.trim() || null
+  if (details.address !== undefined) columns.address = details.address?.trim() || null
+  if (details.defaultCategory !== undefined) columns.default_category = details.defaultCategory?.trim() || null
+  if (details.defaultPaymentTerms !== undefined) columns.default_payment_terms = details.defaultPaymentTerms?.trim() || null
+  return columns
+}
+
+async function loadAliases(vendorIds: string[] | null, client: SupabaseClient): Promise<Map<string, string[]>> {
+  let query = client.from(ALIASES_TABLE).select('vendor_id, alias').order('alias')
+  if (vendorIds) {
+    if (vendorIds.length === 0) return new Map()
+    query = query.in('vendor_id', vendorIds)
+  }
+  const { data, error } = await query
+  if (error) throw error
+
+  const aliases = new Map<string, string[]>()
+  for (const row of data ?? []) {
+    const list = aliases.get(String(row.vendor_id)) ?? []
+    list.push(String(row.alias))
+    aliases.set(String(row.vendor_id), list)
+  }
+  return aliases
+}
+
+/** Active vendors (not merged away) with their aliases, by name. */
+export async function listVendors(client: SupabaseClient = getSupabaseAdmin()): Promise<Vendor[]> {
+  const { data, error } = await client
+    .from(VENDORS_TABLE)
+    .select('*')
+    .is('merged_into', null)
+    .order('name')
+  if (error) throw error
+
+  const aliases = await loadAliases(null, client)
+  return (data ?? []).map((row) => mapVendorRow(row, aliases.get(String(row.id)) ?? []))
+}
+
+/** A vendor by id. A merged vendor resolves to the vendor that replaced it. */
+export async function getVendor(
+  id: string,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<Vendor | null> {
+  let currentId = id
+  // Merges can chain (A into B, later B into C)
+  for (let hops = 0; hops < 5; hops++) {
+    const { data, error } = await client.from(VENDORS_TABLE).select('*').eq('id', currentId).maybeSingle()
+    if (error) throw error
+    if (!data) return null
+    if (!data.merged_into) {
+      const aliases = await loadAliases([String(data.id)], client)
+      return mapVendorRow(data, aliases.get(String(data.id)) ?? [])
+    }
+    currentId = String(data.merged_into)
+  }
+  return null
+}
+
+/** Matching index over active vendors and their aliases. */
+export async function loadVendorIndex(client: SupabaseClient = getSupabaseAdmin()): Promise<VendorIndex> {
+  const vendors = await listVendors(client)
+  return buildVendorIndex(vendors.map((vendor): VendorIdentity => ({
+    id: vendor.id,
+    name: vendor.name,
+    abn: vendor.abn,
+    email: vendor.email,
+    aliases: vendor.aliases,
+  })))
+}
+
+/**
+ * Same as loadVendorIndex, but an empty index when the vendors tables are
+ * missing, so grouping falls back to normalised names.
+ */
+export async function loadVendorIndexOrEmpty(client: SupabaseClient = getSupabaseAdmin()): Promise<VendorIndex> {
+  try {
+    return await loadVendorIndex(client)
+  } catch (error) {
+    console.warn('Vendor index unavailable:', error)
+    return buildVendorIndex([])
+  }
+}
+
+/** Record a raw supplier spelling against a vendor; known spellings are ignored. */
+async function addAliases(vendorId: string, names: string[], client: SupabaseClient): Promise<void> {
+  const rows = Array.from(new Set(names.map((name) => name.trim()).filter(Boolean))).map((alias) => ({
+    vendor_id: vendorId,
+    alias,
+    normalized_alias: normaliseVendorName(alias),
+  }))
+  if (rows.length === 0) return
+
+  const { error } = await client.from(ALIASES_TABLE).upsert(rows, { onConflict: 'alias', ignoreDuplicates: true })
+  if (error) throw error
+}
+
+export async function createVendor(
+  details: VendorDetails & { name: string },
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<Exclude<SaveVendorResult, { outcome: 'not_found' }>> {
+  const index = await loadVendorIndex(client)
+  const existing = matchVendor({ name: details.name, abn: details.abn }, index)
+  if (existing && existing.matchedBy !== 'email') {
+    const vendor = await getVendor(existing.vendor.id, client)
+    if (vendor) {
+      return {
+        outcome: 'conflict',
+        vendor,
+        message: existing.matchedBy === 'abn'
+          ? `ABN already belongs to ${vendor.name}`
+          : `${vendor.name} already exists`,
+      }
+    }
+  }
+
+  const { data, error } = await client.from(VENDORS_TABLE).insert(toVendorColumns(details)).select('*').single()
+  if (error) throw error
+
+  await addAliases(String(data.id), [details.name], client)
+  return { outcome: 'saved', vendor: mapVendorRow(data, [details.name.trim()]) }
+}
+
+export async function updateVendor(
+  id: string,
+  details: VendorDetails,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<SaveVendorResult> {
+  const vendor = await getVendor(id, client)
+  if (!vendor) return { outcome: 'not_found' }
+
+  if (details.name !== undefined || details.abn !== undefined) {
+    const index = await loadVendorIndex(client)
+    const clash = matchVendor({ name: details.name ?? vendor.name, abn: details.abn }, index)
+    if (clash && clash.vendor.id !== vendor.id && clash.matchedBy !== 'email') {
+      const other = (await getVendor(clash.vendor.id, client)) ?? vendor
+      return {
+        outcome: 'conflict',
+        vendor: other,
+        message: `${clash.matchedBy === 'abn' ? 'ABN' : 'Name'} already belongs to ${other.name}; merge the vendors instead`,
+      }
+    }
+  }
+
+  const { data, error } = await client
+    .from(VENDORS_TABLE)
+    .update({ ...toVendorColumns(details), updated_at: new Date().toISOString() })
+    .eq('id', vendor.id)
+    .select('*')
+    .single()
+  if (error) throw error
+
+  if (details.name) await addAliases(vendor.id, [details.name], client)
+  const aliases = await loadAliases([vendor.id], client)
+  return { outcome: 'saved', vendor: mapVendorRow(data, aliases.get(vendor.id) ?? []) }
+}
+
+/**
+ * Find the vendor for an invoice's supplier details, creating one when
+ * nothing matches. The raw supplier name is recorded as an alias so filters
+ * can find every spelling.
+ */
+export async function matchOrCreateVendor(
+  candidate: VendorCandidate,
+  client: SupabaseClient = getSupabaseAdmin(),
+  index?: VendorIndex,
+): Promise<{ vendor: VendorIdentity & Partial<Vendor>; matchedBy: VendorMatchReason | 'created' } | null> {
+  const name = candidate.name.trim()
+  if (!name) return null
+
+  const match = matchVendor(candidate, index ?? await loadVendorIndex(client))
+  if (match) {
+    if (!match.vendor.aliases.includes(name) && match.vendor.name !== name) {
+      await addAliases(match.vendor.id, [name], client)
+      match.vendor.aliases.push(name)
+    }
+    return match
+  }
+
+  const created = await createVendor(
+    { name, abn: candidate.abn ?? null, email: candidate.email ?? null },
+    client,
+  )
+  return { vendor: created.vendor, matchedBy: created.outcome === 'saved' ? 'created' : 'name' }
+}
+
+async function linkInvoices(invoiceIds: string[], vendorId: string, client: SupabaseClient): Promise<number> {
+  let linked = 0
+  for (let start = 0; start < invoiceIds.length; start += LINK_BATCH_SIZE) {
+    const batch = invoiceIds.slice(start, start + LINK_BATCH_SIZE)
+    const count = await withInvoiceTable(async (table) => {
+      const { error, count } = await client
+        .from(table)
+        .update({ [invoiceColumn('vendorId')]: vendorId }, { count: 'exact' })
+        .in(invoiceColumn('id'), batch)
+      if (error) throw error
+      return count ?? batch.length
+    })
+    linked += count
+  }
+  return linked
+}
+
+/**
+ * Link every invoice without a vendor to one, creating vendors for new
+ * suppliers. Used to backfill after migrations/vendors.sql and for invoices
+ * written straight to the table by the pipelines.
+ */
+export async function syncInvoiceVendors(
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<{ scanned: number; linked: number; vendorsCreated: number }> {
+  const invoices = (await scanInvoices(normaliseInvoiceFilters(), client)).filter((invoice) => !invoice.vendorId)
+  const index = await loadVendorIndex(client)
+  const vendorByInvoice = new Map<string, string[]>()
+  let vendorsCreated = 0
+
+  for (const invoice of invoices) {
+    const result = await matchOrCreateVendor(
+      { name: invoice.vendorName, email: invoice.vendorEmail, abn: invoice.vendorAbn },
+      client,
+      index,
+    )
+    if (!result) continue
+    if (result.matchedBy === 'created') {
+      vendorsCreated += 1
+      // Later invoices from the same supplier match the new vendor
+      const vendor = result.vendor
+      const key = normaliseVendorName(vendor.name)
+      if (key) index.byName.set(key, vendor)
+      const abn = normaliseAbn(vendor.abn)
+      if (abn) index.byAbn.set(abn, vendor)
+    }
+    const ids = vendorByInvoice.get(result.vendor.id) ?? []
+    ids.push(invoice.id)
+    vendorByInvoice.set(result.vendor.id, ids)
+  }
+
+  let linked = 0
+  for (const [vendorId, invoiceIds] of vendorByInvoice) {
+    linked += await linkInvoices(invoiceIds, vendorId, client)
+  }
+
+  return { scanned: invoices.length, linked, vendorsCreated }
+}
+
+/**
+ * Merge `sourceIds` into `targetId`: aliases and invoices move to the
+ * target, missing details are copied across, and each source is marked as
+ * merged so links to it still resolve. All of it happens in one database
+ * transaction.
+ */
+export async function mergeVendors(
+  targetId: string,
+  sourceIds: string[],
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<MergeVendorsResult> {
+  const ids = Array.from(new Set(sourceIds.filter((id) => id !== targetId)))
+  if (ids.length === 0) return { outcome: 'invalid', message: 'Choose at least one other vendor to merge' }
+
+  const target = await getVendor(targetId, client)
+  const sources = await Promise.all(ids.map((id) => getVendor(id, client)))
+  const missing = [targetId, ...ids].filter((id, position) => (position === 0 ? !target : !sources[position - 1]))
+  if (!target || missing.length > 0) return { outcome: 'not_found', missing }
+
+  const merged = sources.filter((source): source is Vendor => Boolean(source) && source!.id !== target.id)
+  if (merged.length === 0) return { outcome: 'invalid', message: 'These vendors are already merged' }
+
+  const fill: VendorDetails = {}
+  for (const vendor of merged) {
+    if (!target.abn && !fill.abn && vendor.abn) fill.abn = vendor.abn
+    if (!target.email && !fill.email && vendor.email) fill.email = vendor.email
+    if (!target.phone && !fill.phone && vendor.phone) fill.phone = vendor.phone
+    if (!target.address && !fill.address && vendor.address) fill.address = vendor.address
+    if (!target.defaultCategory && !fill.defaultCategory && vendor.defaultCategory) fill.defaultCategory = vendor.defaultCategory
+    if (!target.defaultPaymentTerms && !fill.defaultPaymentTerms && vendor.defaultPaymentTerms) {
+      fill.defaultPaymentTerms = vendor.defaultPaymentTerms
+    }
+  }
+
+  // One transaction in merge_vendors (migrations/vendors.sql), so a failure
+  // never leaves aliases or invoices moved while the sources are still active
+  const aliases = Array.from(new Set(merged.map((vendor) => vendor.name.trim()).filter(Boolean)))
+  const { data: invoicesMoved, error } = await client.rpc('merge_vendors', {
+    target_id: target.id,
+    source_ids: merged.map((vendor) => vendor.id),
+    alias_names: aliases,
+    normalized_aliases: aliases.map(normaliseVendorName),
+    details: toVendorColumns(fill),
+  })
+  // no_data_found: the target was merged into another vendor meanwhile
+  if (error?.code === 'P0002') return { outcome: 'not_found', missing: [targetId] }
+  if (error) throw error
+
+  const vendor = (await getVendor(target.id, client)) ?? target
+  return { outcome: 'merged', vendor, merged, invoicesMoved: Number(invoicesMoved) || 0 }
+}
+
+/**
+ * Every invoice recorded under one of the vendor's names, confirmed
+ * duplicates excluded, newest first.
+ */
+export async function listVendorInvoices(
+  vendor: Pick<Vendor, 'id' | 'name' | 'aliases'>,
+  client: SupabaseClient = getSupabaseAdmin(),
+  now: Date = new Date(),
+): Promise<InvoiceRecord[]> {
+  const names = Array.from(new Set([vendor.name, ...vendor.aliases]))
+  const invoices = await scanInvoices(normaliseInvoiceFilters({ vendors: names }), client, now)
+  return invoices
+    .filter((invoice) => !invoice.duplicateOfId && (!invoice.vendorId || invoice.vendorId === vendor.id))
+    .sort((a, b) => (b.issueDate ?? b.createdAt ?? '').localeCompare(a.issueDate ?? a.createdAt ?? ''))
+}
+
+/**
+ * Vendor filters widened to every stored spelling of the vendors they name,
+ * and the search resolved to the spellings of vendors it matches through a
+ * typo ("telstar" → "Telstra Corporation", "Telstra Corp Ltd").
+ */
+export async function expandVendorFilters(
+  filters: NormalisedFilters,
+  client: SupabaseClient = getSupabaseAdmin(),
+): Promise<NormalisedFilters> {
+  if (filters.vendors.length === 0 && !filters.search) return filters
+  const index = await loadVendorIndexOrEmpty(client)
+  const similar = filters.search ? findSimilarVendors(filters.search, index) : []
+  return {
+    ...filters,
+    vendors: expandVendorNames(filters.vendors, index),
+    searchVendors: similar.length
+      ? expandVendorNames(similar.map((vendor) => vendor.name), index)
+      : filters.searchVendors,
+  }
+}
+
+/** Defaults from the vendor applied to a new invoice that does not set them. */
+export function applyVendorDefaults(
+  record: Partial<InvoiceRecord>,
+  vendor: Partial<Pick<Vendor, 'id' | 'defaultCategory' | 'defaultPaymentTerms'>>,
+): Partial<InvoiceRecord> {
+  return {
+    ...record,
+    vendorId: vendor.id ?? record.vendorId,
+    category: record.category || vendor.defaultCategory || record.category,
+    paymentTerms: record.paymentTerms || vendor.defaultPaymentTerms || record.paymentTerms,
+  }
+}
@@ -0,0 +1,79 @@
+import 'server-only'
+import { PassThrough } from 'node:stream'
+import { finished } from 'node:stream/promises'
+import ExcelJS from 'exceljs'
+
+import type { XlsxCell, XlsxSheet, XlsxSheetLayout, XlsxWriter } from '../xlsx'
+
+/**
+ * XLSX output for report attachments and exports, written with ExcelJS's
+ * streaming workbook writer: one worksheet of strings and numbers with a
+ * bold, frozen header row. `createXlsxWriter` hands back the file in chunks
+ * as rows are added, so large exports can be streamed a page of rows at a
+ * time.
+ */
+
+// Sheet names are at most 31 characters and cannot contain []:*?/\
+function sheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet1'
+}
+
+function cellValue(value: XlsxCell): string | number | null {
+  if (value === null || value === undefined || value === '') return null
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  // Characters XML 1.0 cannot carry at all
+  return value.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+}
+
+function openWorkbook(sheet: XlsxSheetLayout, modified: Date, output: PassThrough) {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+    useSharedStrings: false,
+  })
+  workbook.created = modified
+  workbook.modified = modified
+
+  const worksheet = workbook.addWorksheet(sheetName(sheet.name), { views: [{ state: 'frozen', ySplit: 1 }] })
+  worksheet.columns = sheet.columns.map((column) => ({
+    header: column.header,
+    width: column.width ?? Math.max(10, column.header.length + 2),
+    style: column.numberFormat ? { numFmt: column.numberFormat } : {},
+  }))
+  const header = worksheet.getRow(1)
+  header.font = { bold: true }
+  header.commit()
+
+  return { workbook, worksheet }
+}
+
+/** A workbook with a single sheet, written in chunks. */
+export function createXlsxWriter(sheet: XlsxSheetLayout, modified: Date = new Date()): XlsxWriter {
+  const output = new PassThrough()
+  const chunks: Buffer[] = []
+  output.on('data', (chunk: Buffer) => chunks.push(chunk))
+  const { workbook, worksheet } = openWorkbook(sheet, modified, output)
+
+  const drain = (): Uint8Array => Buffer.concat(chunks.splice(0))
+
+  return {
+    async write(rows) {
+      for (const row of rows) worksheet.addRow(row.map(cellValue)).commit()
+      return drain()
+    },
+    async finish() {
+      worksheet.commit()
+      await workbook.commit()
+      await finished(output)
+      return drain()
+    },
+  }
+}
+
+/** A workbook with a single sheet. */
+export async function buildXlsx(sheet: XlsxSheet, modified: Date = new Date()): Promise<Uint8Array> {
+  const writer = createXlsxWriter(sheet, modified)
+  const rows = await writer.write(sheet.rows)
+  const rest = await writer.finish()
+  return Buffer.concat([rows, rest])
+}
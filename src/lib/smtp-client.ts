@@ -0,0 +1,84 @@
+import type tls from 'node:tls'
+import nodemailer from 'nodemailer'
+
+import type { MailMessage } from './mail-message'
+
+/**
+ * Sends report emails over SMTP with nodemailer, one message per connection.
+ * Credentials are only ever sent over an encrypted connection: when a user
+ * and password are set, a server that does not offer STARTTLS (or has it
+ * stripped) fails the send instead of receiving them in cleartext. Works
+ * against any relay, and against a local catcher such as Mailpit
+ * (`SMTP_HOST=localhost SMTP_PORT=1025`) when no credentials are set.
+ */
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  /** Implicit TLS from the start (port 465); otherwise STARTTLS when offered */
+  secure?: boolean
+  /** Refuse to send unless the connection is encrypted; always on with credentials */
+  requireTLS?: boolean
+  user?: string
+  password?: string
+  /** Name sent with EHLO */
+  clientName?: string
+  timeoutMs?: number
+  tls?: tls.ConnectionOptions
+}
+
+export interface SmtpSendResult {
+  messageId: string | null
+  accepted: string[]
+  rejected: string[]
+  response: string
+}
+
+// nodemailer reports recipients as strings or { name, address } objects
+function addresses(list: Array<string | { address: string }> | undefined): string[] {
+  return (list ?? []).map((entry) => (typeof entry === 'string' ? entry : entry.address))
+}
+
+/** Send one message. Fails if the server rejects every recipient. */
+export async function sendSmtpMail(message: MailMessage, options: SmtpOptions): Promise<SmtpSendResult> {
+  const timeoutMs = options.timeoutMs ?? 30_000
+  const credentials = options.user && options.password ? { user: options.user, pass: options.password } : undefined
+
+  const transport = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure ?? false,
+    requireTLS: Boolean(options.requireTLS || credentials),
+    auth: credentials,
+    name: options.clientName,
+    connectionTimeout: timeoutMs,
+    greetingTimeout: timeoutMs,
+    socketTimeout: timeoutMs,
+    tls: { servername: options.host, ...options.tls },
+  })
+
+  try {
+    const info = await transport.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      headers: message.headers,
+      attachments: message.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        content: Buffer.from(attachment.content),
+      })),
+    })
+
+    return {
+      messageId: info.messageId ?? null,
+      accepted: addresses(info.accepted),
+      rejected: addresses(info.rejected),
+      response: info.response,
+    }
+  } finally {
+    transport.close()
+  }
+}
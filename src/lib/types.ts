@@ -1,8 +1,13 @@
+import { INVOICE_STATUSES, nextStatuses } from './invoice-status-machine';
+import type { PaginationResponse } from './schemas/pagination';
+import type { SearchMatch } from './invoice-search';
+
 export interface Invoice {
   id: string;
   invoiceNumber: string;
   vendorName: string;
   vendorEmail: string;
+  vendorId?: string | null;
   amount: number;
   amountDue: number;
   issueDate: Date;
@@ -15,8 +20,17 @@ export interface Invoice {
   invoiceUrl?: string;
   receivedDate: Date;
   paidDate?: Date;
+  documentType?: InvoiceDocumentType;
+  originalInvoiceId?: string | null;
+  duplicateOfId?: string | null;
+  uploadedByUserId?: string | null;
+  /** Rank and highlighted snippet when the list was searched */
+  searchMatch?: SearchMatch;
 }
 
+// Credit notes and adjustments are stored alongside invoices with a signed amount
+export type InvoiceDocumentType = 'invoice' | 'credit_note' | 'adjustment';
+
 export type InvoiceCategory = 'standard_pdf' | 'xero_with_pdf' | 'xero_links_only';
 
 export type ProcessingStatus = 'Processed' | 'Needs Manual Download' | 'Pending' | 'Failed';
@@ -44,6 +58,7 @@ export interface ExtendedDashboardStats {
     pendingAmount: number
     overdueAmount: number
     paidAmount: number
+    creditNotes?: { count: number; amount: number }
     trends: {
       invoices: number | null
       amount: number | null
@@ -65,6 +80,7 @@ export interface ExtendedDashboardStats {
     }>
     topVendors: Array<{
       vendor: string
+      vendorId?: string | null
       count: number
       amount: number
     }>
@@ -117,14 +133,21 @@ export type Theme = 'light' | 'dark' | 'system';
 // Audit logging types
 export interface AuditLog {
   id: string;
-  invoice_id: string;
-  old_status: string | null;
-  new_status: string;
-  user_id: string | null;
-  user_email: string | null;
-  action_type: string;
-  metadata: Record<string, any>;
-  created_at: string;
+  /** invoice, vendor, approval_policy or invoice_batch */
+  entityType: string;
+  entityId: string;
+  action: string;
+  userId: string | null;
+  userEmail: string | null;
+  changes: Record<string, any>;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string | null;
+}
+
+export interface AuditLogPage {
+  entries: AuditLog[];
+  pagination: PaginationResponse;
 }
 
 export interface StatusUpdateRequest {
@@ -143,11 +166,7 @@ export interface StatusHistoryResponse {
   history: AuditLog[];
 }
 
-// Valid status transitions for validation
-export const VALID_STATUS_TRANSITIONS: Record<string, string[]> = {
-  'pending': ['in_review', 'approved', 'paid', 'overdue'],
-  'in_review': ['pending', 'approved', 'paid'],
-  'approved': ['paid', 'pending'],
-  'paid': ['pending'], // Allow reverting paid status if needed
-  'overdue': ['pending', 'in_review', 'approved', 'paid']
-};
\ No newline at end of file
+// Valid status transitions (workflow graph only; guards are evaluated server-side)
+export const VALID_STATUS_TRANSITIONS: Record<string, string[]> = Object.fromEntries(
+  INVOICE_STATUSES.map((status) => [status, nextStatuses(status)])
+);
\ No newline at end of file
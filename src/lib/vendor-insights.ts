@@ -0,0 +1,153 @@
+/**
+ * Spend and payment behaviour for one vendor, computed from its invoices.
+ * Amounts are signed, so credit notes and adjustments reduce spend; counts,
+ * status breakdowns and payment timing only consider original invoices.
+ */
+
+export interface VendorInvoiceSubject {
+  amount: number
+  status: string
+  category: string
+  documentType: string
+  issueDate: string | null
+  receivedDate: string | null
+  dueDate: string | null
+  paidDate: string | null
+  createdAt: string | null
+}
+
+export interface VendorSpendTotals {
+  count: number
+  amount: number
+}
+
+export interface VendorSummary {
+  lifetime: VendorSpendTotals
+  period: VendorSpendTotals & { from: string; to: string }
+  byStatus: Array<{ status: string } & VendorSpendTotals>
+  categories: Array<{ category: string } & VendorSpendTotals>
+  /** Spend per calendar month, oldest first, including months with none */
+  monthly: Array<{ month: string; amount: number }>
+  /** Mean days from issue to payment over paid invoices, or null when none are paid */
+  averageDaysToPay: number | null
+  /** Share (0-1) of paid invoices with a due date that were paid on or before it */
+  onTimeRate: number | null
+  firstInvoiceDate: string | null
+  lastInvoiceDate: string | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const SPARKLINE_MONTHS = 12
+
+function toDay(value: string | null): number | null {
+  if (!value) return null
+  const time = Date.parse(value.length === 10 ? `${value}T00:00:00Z` : value)
+  return Number.isNaN(time) ? null : Math.floor(time / DAY_MS)
+}
+
+/** The date an invoice is reported under: issue date, else received, else created. */
+function invoiceDate(invoice: VendorInvoiceSubject): string | null {
+  return invoice.issueDate ?? invoice.receivedDate ?? invoice.createdAt
+}
+
+function monthKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function addTo<K>(map: Map<K, VendorSpendTotals>, key: K, amount: number, counted: boolean) {
+  const entry = map.get(key) ?? { count: 0, amount: 0 }
+  entry.amount += amount
+  if (counted) entry.count += 1
+  map.set(key, entry)
+}
+
+/**
+ * Summarise a vendor's invoices. `period` bounds the period totals (ISO
+ * dates, inclusive); the sparkline always covers the 12 months up to `now`.
+ */
+export function summariseVendorInvoices(
+  invoices: VendorInvoiceSubject[],
+  period: { from: string; to: string },
+  now: Date = new Date(),
+): VendorSummary {
+  const fromDay = toDay(period.from) ?? Number.NEGATIVE_INFINITY
+  const toDayValue = toDay(period.to) ?? Number.POSITIVE_INFINITY
+
+  const months = new Map<string, number>()
+  for (let offset = SPARKLINE_MONTHS - 1; offset >= 0; offset--) {
+    months.set(monthKey(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - offset, 1))), 0)
+  }
+
+  const lifetime: VendorSpendTotals = { count: 0, amount: 0 }
+  const inPeriod: VendorSpendTotals = { count: 0, amount: 0 }
+  const byStatus = new Map<string, VendorSpendTotals>()
+  const byCategory = new Map<string, VendorSpendTotals>()
+  let daysToPayTotal = 0
+  let paidCount = 0
+  let dueTracked = 0
+  let onTime = 0
+  let firstDate: string | null = null
+  let lastDate: string | null = null
+
+  for (const invoice of invoices) {
+    const isInvoice = invoice.documentType === 'invoice'
+    const date = invoiceDate(invoice)
+    const day = toDay(date)
+
+    lifetime.amount += invoice.amount
+    if (isInvoice) lifetime.count += 1
+
+    if (day !== null && day >= fromDay && day <= toDayValue) {
+      inPeriod.amount += invoice.amount
+      if (isInvoice) inPeriod.count += 1
+    }
+
+    if (date && day !== null) {
+      const key = monthKey(new Date(day * DAY_MS))
+      if (months.has(key)) months.set(key, months.get(key)! + invoice.amount)
+      if (isInvoice) {
+        if (!firstDate || date < firstDate) firstDate = date
+        if (!lastDate || date > lastDate) lastDate = date
+      }
+    }
+
+    addTo(byCategory, invoice.category || 'Uncategorized', invoice.amount, isInvoice)
+    if (!isInvoice) continue
+
+    addTo(byStatus, invoice.status, invoice.amount, true)
+
+    const paidDay = toDay(invoice.paidDate)
+    if (invoice.status !== 'paid' || paidDay === null) continue
+
+    if (day !== null) {
+      daysToPayTotal += Math.max(0, paidDay - day)
+      paidCount += 1
+    }
+    const dueDay = toDay(invoice.dueDate)
+    if (dueDay !== null) {
+      dueTracked += 1
+      if (paidDay <= dueDay) onTime += 1
+    }
+  }
+
+  return {
+    lifetime: { count: lifetime.count, amount: round(lifetime.amount) },
+    period: { ...period, count: inPeriod.count, amount: round(inPeriod.amount) },
+    byStatus: Array.from(byStatus.entries())
+      .map(([status, totals]) => ({ status, count: totals.count, amount: round(totals.amount) }))
+      .sort((a, b) => b.count - a.count),
+    categories: Array.from(byCategory.entries())
+      .map(([category, totals]) => ({ category, count: totals.count, amount: round(totals.amount) }))
+      .sort((a, b) => b.amount - a.amount),
+    monthly: Array.from(months.entries()).map(([month, amount]) => ({ month, amount: round(amount) })),
+    averageDaysToPay: paidCount > 0 ? Math.round((daysToPayTotal / paidCount) * 10) / 10 : null,
+    onTimeRate: dueTracked > 0 ? onTime / dueTracked : null,
+    firstInvoiceDate: firstDate,
+    lastInvoiceDate: lastDate,
+  }
+}
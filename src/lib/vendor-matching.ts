@@ -0,0 +1,200 @@
+/**
+ * Supplier identity matching. Invoices carry free-text supplier names
+ * ("ACME Pty Ltd", "Acme P/L"), so names are normalised before comparison
+ * and each vendor keeps the raw spellings it has been seen under as aliases.
+ * Persistence lives in src/lib/server/vendors.ts.
+ */
+
+export interface VendorIdentity {
+  id: string
+  name: string
+  abn?: string | null
+  email?: string | null
+  aliases: string[]
+}
+
+export interface VendorCandidate {
+  name: string
+  email?: string | null
+  abn?: string | null
+}
+
+export type VendorMatchReason = 'abn' | 'name' | 'email'
+
+export interface VendorMatch {
+  vendor: VendorIdentity
+  matchedBy: VendorMatchReason
+}
+
+export interface VendorIndex {
+  byName: Map<string, VendorIdentity>
+  byAbn: Map<string, VendorIdentity>
+  byEmail: Map<string, VendorIdentity>
+}
+
+const VENDOR_SUFFIXES = /\b(pty|ltd|limited|inc|incorporated|llc|co|company|corp|corporation|the)\b/g
+
+export function normaliseVendorName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    // "P/L" is the common shorthand for "Pty Ltd"
+    .replace(/\bp\s*\/\s*l\b/g, ' ')
+    .replace(/[^a-z0-9 ]+/g, ' ')
+    .replace(VENDOR_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/** ABNs are 11 digits; spacing and punctuation are dropped. */
+export function normaliseAbn(value: string | null | undefined): string | null {
+  const digits = String(value ?? '').replace(/\D/g, '')
+  return digits.length === 11 ? digits : null
+}
+
+function normaliseEmail(value: string | null | undefined): string | null {
+  const email = String(value ?? '').trim().toLowerCase()
+  return email.includes('@') ? email : null
+}
+
+export function buildVendorIndex(vendors: VendorIdentity[]): VendorIndex {
+  const index: VendorIndex = { byName: new Map(), byAbn: new Map(), byEmail: new Map() }
+  for (const vendor of vendors) {
+    for (const name of [vendor.name, ...vendor.aliases]) {
+      const key = normaliseVendorName(name)
+      if (key && !index.byName.has(key)) index.byName.set(key, vendor)
+    }
+    const abn = normaliseAbn(vendor.abn)
+    if (abn && !index.byAbn.has(abn)) index.byAbn.set(abn, vendor)
+    const email = normaliseEmail(vendor.email)
+    if (email && !index.byEmail.has(email)) index.byEmail.set(email, vendor)
+  }
+  return index
+}
+
+/**
+ * Find the vendor an invoice's supplier details belong to. An ABN is the
+ * strongest identifier, then the normalised name (or any alias), then an
+ * exact contact email.
+ */
+export function matchVendor(candidate: VendorCandidate, index: VendorIndex): VendorMatch | null {
+  const abn = normaliseAbn(candidate.abn)
+  const byAbn = abn ? index.byAbn.get(abn) : undefined
+  if (byAbn) return { vendor: byAbn, matchedBy: 'abn' }
+
+  const name = normaliseVendorName(candidate.name)
+  const byName = name ? index.byName.get(name) : undefined
+  if (byName) return { vendor: byName, matchedBy: 'name' }
+
+  const email = normaliseEmail(candidate.email)
+  const byEmail = email ? index.byEmail.get(email) : undefined
+  if (byEmail) return { vendor: byEmail, matchedBy: 'email' }
+
+  return null
+}
+
+/** Display name for a raw supplier name: its vendor's canonical name when known. */
+export function canonicalVendorName(rawName: string, index: VendorIndex): string {
+  return findVendorByName(rawName, index)?.name || rawName
+}
+
+/** The vendor a raw supplier name belongs to, by normalised name or alias. */
+export function findVendorByName(rawName: string, index: VendorIndex): VendorIdentity | undefined {
+  const key = normaliseVendorName(rawName)
+  return key ? index.byName.get(key) : undefined
+}
+
+/** Minimum trigram similarity for a search to match a vendor name through a typo. */
+export const SIMILAR_VENDOR_THRESHOLD = 0.4
+
+// pg_trgm-style trigrams: each word padded with two leading spaces and one trailing
+function trigrams(value: string): Set<string> {
+  const result = new Set<string>()
+  for (const word of value.split(' ').filter(Boolean)) {
+    const padded = `  ${word} `
+    for (let i = 0; i + 3 <= padded.length; i++) result.add(padded.slice(i, i + 3))
+  }
+  return result
+}
+
+/** Trigram similarity (0–1) between two strings, as computed by pg_trgm's `similarity()`. */
+export function trigramSimilarity(a: string, b: string): number {
+  const left = trigrams(a)
+  const right = trigrams(b)
+  if (left.size === 0 || right.size === 0) return 0
+  let shared = 0
+  for (const gram of left) if (right.has(gram)) shared++
+  return shared / (left.size + right.size - shared)
+}
+
+/**
+ * Similarity between a search and a vendor name, compared against every run
+ * of the name's words as long as the search, so "orgin" finds
+ * "Origin Energy Pty Ltd" as readily as "orgin energy" does.
+ */
+export function vendorNameSimilarity(query: string, name: string): number {
+  const search = normaliseVendorName(query)
+  const words = normaliseVendorName(name).split(' ').filter(Boolean)
+  const length = search.split(' ').filter(Boolean).length
+  if (!search || words.length === 0) return 0
+
+  let best = trigramSimilarity(search, words.join(' '))
+  for (let start = 0; start + length <= words.length; start++) {
+    best = Math.max(best, trigramSimilarity(search, words.slice(start, start + length).join(' ')))
+  }
+  return best
+}
+
+/** Raw supplier names a search matches, tolerating typos. Searches under three characters match nothing. */
+export function similarVendorNames(query: string, names: string[], threshold = SIMILAR_VENDOR_THRESHOLD): string[] {
+  if (normaliseVendorName(query).length < 3) return []
+  return Array.from(new Set(names)).filter((name) => vendorNameSimilarity(query, name) >= threshold)
+}
+
+/** Vendors whose name or any alias a search matches, tolerating typos. */
+export function findSimilarVendors(query: string, index: VendorIndex, threshold = SIMILAR_VENDOR_THRESHOLD): VendorIdentity[] {
+  if (normaliseVendorName(query).length < 3) return []
+  const found = new Map<string, VendorIdentity>()
+  for (const [key, vendor] of index.byName) {
+    if (!found.has(vendor.id) && vendorNameSimilarity(query, key) >= threshold) found.set(vendor.id, vendor)
+  }
+  return Array.from(found.values())
+}
+
+/**
+ * Expand vendor names (as listed in facets) to every spelling of the same
+ * vendor, so a filter on "ACME Pty Ltd" also matches "Acme P/L". Names that
+ * are not known vendors are kept as they are.
+ */
+export function expandVendorNames(names: string[], index: VendorIndex): string[] {
+  const expanded = new Set(names)
+  for (const name of names) {
+    const vendor = findVendorByName(name, index)
+    if (!vendor) continue
+    expanded.add(vendor.name)
+    for (const alias of vendor.aliases) expanded.add(alias)
+  }
+  return Array.from(expanded)
+}
+
+/**
+ * Group rows by canonical vendor. Rows whose supplier is not a known vendor
+ * are grouped by their normalised name, so spelling variants still collapse.
+ */
+export function groupByVendor<T>(
+  rows: T[],
+  rawName: (row: T) => string,
+  index: VendorIndex,
+): Array<{ vendorId: string | null; vendor: string; rows: T[] }> {
+  const groups = new Map<string, { vendorId: string | null; vendor: string; rows: T[] }>()
+  for (const row of rows) {
+    const raw = rawName(row)
+    const key = normaliseVendorName(raw)
+    const vendor = key ? index.byName.get(key) : undefined
+    const groupKey = vendor ? `vendor:${vendor.id}` : `name:${key}`
+    const group = groups.get(groupKey)
+    if (group) group.rows.push(row)
+    else groups.set(groupKey, { vendorId: vendor?.id ?? null, vendor: vendor?.name ?? raw, rows: [row] })
+  }
+  return Array.from(groups.values())
+}
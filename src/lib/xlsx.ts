@@ -0,0 +1,34 @@
+/**
+ * Layout of the single-sheet workbooks used for report attachments and
+ * exports. The writer itself is server-only (`lib/server/xlsx`); these types
+ * are shared with the column definitions client components import.
+ */
+
+export type XlsxCell = string | number | null | undefined
+
+export interface XlsxColumn {
+  header: string
+  /** Approximate width in characters */
+  width?: number
+  /** Excel number format for numeric cells, e.g. '#,##0.00' */
+  numberFormat?: string
+}
+
+export interface XlsxSheetLayout {
+  name: string
+  columns: XlsxColumn[]
+}
+
+export interface XlsxSheet extends XlsxSheetLayout {
+  rows: XlsxCell[][]
+}
+
+/** Writes a workbook in pieces; concatenating the chunks gives the file. */
+export interface XlsxWriter {
+  /** Adds the next rows; returns whatever of the file has been written so far, possibly nothing */
+  write(rows: XlsxCell[][]): Promise<Uint8Array>
+  /** Closes the sheet and the package; returns the rest of the file */
+  finish(): Promise<Uint8Array>
+}
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
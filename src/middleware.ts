@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { isSupabaseConfigured } from '@/lib/server/env';
+import { roleFromUser } from '@/lib/server/auth';
 
 // Define protected routes
-const protectedRoutes = ['/overview', '/invoices', '/kanban', '/dashboard', '/analytics', '/settings'];
+const protectedRoutes = ['/overview', '/invoices', '/kanban', '/dashboard', '/analytics', '/settings', '/reports', '/exports', '/duplicates', '/vendors', '/approvals'];
 const adminOnlyRoutes = ['/admin'];
 const authRoutes = ['/auth/login', '/auth/register'];
-const publicRoutes = ['/api/auth/create-users', '/api/debug-env', '/api/test-client'];
+// Report unsubscribe links are signed, and the cron runner checks CRON_SECRET
+const publicRoutes = ['/api/auth/create-users', '/api/debug-env', '/api/test-client', '/reports/unsubscribe', '/api/reports/unsubscribe', '/api/reports/run', '/api/exports/run'];
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
@@ -62,8 +64,12 @@ export async function middleware(request: NextRequest) {
   }
 
   const isAuthenticated = Boolean(session);
-  const userRole = session?.user?.user_metadata?.role || 'user';
   const userEmail = session?.user?.email;
+  // The cookie's copy of the user can be edited, so the role comes from Supabase Auth
+  const verifiedRole = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    return user ? roleFromUser(user) : 'user';
+  };
 
   // Handle auth routes (login, register, etc.)
   if (authRoutes.some(route => pathname.startsWith(route))) {
@@ -82,6 +88,7 @@ export async function middleware(request: NextRequest) {
 
     // Check admin-only routes
     if (adminOnlyRoutes.some(route => pathname.startsWith(route))) {
+      const userRole = await verifiedRole();
       if (userRole !== 'ADMIN' && userRole !== 'admin') {
         return NextResponse.redirect(new URL('/unauthorized', request.url));
       }
@@ -90,7 +97,7 @@ export async function middleware(request: NextRequest) {
     // Add user info to request headers for API routes
     if (pathname.startsWith('/api/') && !publicRoutes.some(route => pathname.startsWith(route))) {
       const requestHeaders = new Headers(request.headers);
-      requestHeaders.set('x-user-role', userRole || '');
+      requestHeaders.set('x-user-role', await verifiedRole());
       requestHeaders.set('x-user-authenticated', 'true');
       requestHeaders.set('x-user-email', userEmail || '');
 
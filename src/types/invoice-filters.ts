@@ -1,3 +1,6 @@
+import type { AgingBucketKey } from '@/lib/payables-aging'
+import { formatSearchQuery, type ParsedSearchQuery } from '@/lib/invoice-search-query'
+
 export type InvoiceStatusFilter = 'pending' | 'paid' | 'overdue'
 
 export interface InvoiceFiltersState {
@@ -13,6 +16,13 @@ export interface InvoiceFiltersState {
     start?: string
     end?: string
   }
+  /** Inclusive due date bounds */
+  dueRange?: {
+    start?: string
+    end?: string
+  }
+  /** Only outstanding invoices in this accounts-payable aging bucket */
+  aging?: AgingBucketKey
   savedViewId?: string
 }
 
@@ -46,6 +56,8 @@ export function cloneInvoiceFilters(filters: InvoiceFiltersState): InvoiceFilter
     vendors: [...filters.vendors],
     amountRange: filters.amountRange ? { ...filters.amountRange } : undefined,
     dateRange: filters.dateRange ? { ...filters.dateRange } : undefined,
+    dueRange: filters.dueRange ? { ...filters.dueRange } : undefined,
+    aging: filters.aging,
     savedViewId: filters.savedViewId,
   }
 }
@@ -58,5 +70,69 @@ export function serializeInvoiceFilters(filters: InvoiceFiltersState): InvoiceFi
     vendors: [...filters.vendors],
     amountRange: filters.amountRange ? { ...filters.amountRange } : undefined,
     dateRange: filters.dateRange ? { ...filters.dateRange } : undefined,
+    dueRange: filters.dueRange ? { ...filters.dueRange } : undefined,
+    aging: filters.aging,
+  }
+}
+
+function addMissing<T>(current: T[], added: T[]): T[] {
+  return [...current, ...added.filter((value) => !current.includes(value))]
+}
+
+function mergeRange<T>(current: { min?: T; max?: T } | undefined, min: T | undefined, max: T | undefined) {
+  if (min === undefined && max === undefined) return current
+  return { min: min ?? current?.min, max: max ?? current?.max }
+}
+
+/**
+ * Apply a parsed search query (see src/lib/invoice-search-query.ts) to the
+ * filters: its fields become filters, shown as chips, and its free text
+ * becomes the search.
+ */
+export function applySearchQueryToFilters(filters: InvoiceFiltersState, query: ParsedSearchQuery): InvoiceFiltersState {
+  const amountRange = mergeRange(filters.amountRange, query.amountMin, query.amountMax)
+  const dateRange = mergeRange(
+    filters.dateRange && { min: filters.dateRange.start, max: filters.dateRange.end },
+    query.dateFrom,
+    query.dateTo,
+  )
+  const dueRange = mergeRange(
+    filters.dueRange && { min: filters.dueRange.start, max: filters.dueRange.end },
+    query.dueFrom,
+    query.dueTo,
+  )
+
+  return {
+    ...filters,
+    search: query.text,
+    // Status filters in the UI also carry in_review and approved
+    statuses: addMissing(filters.statuses, query.statuses as InvoiceStatusFilter[]),
+    categories: addMissing(filters.categories, query.categories),
+    vendors: addMissing(filters.vendors, query.vendors),
+    amountRange,
+    dateRange: dateRange && { start: dateRange.min, end: dateRange.max },
+    dueRange: dueRange && { start: dueRange.min, end: dueRange.max },
+    aging: query.aging ?? filters.aging,
+    savedViewId: undefined,
   }
 }
+
+/** The filters as search syntax, e.g. for the URL. The default date range is left out. */
+export function invoiceFiltersToSearchQuery(filters: InvoiceFiltersState): string {
+  const isDefaultDateRange =
+    filters.dateRange?.start === defaultInvoiceFilters.dateRange?.start && !filters.dateRange?.end
+
+  return formatSearchQuery({
+    vendors: filters.vendors,
+    categories: filters.categories,
+    statuses: filters.statuses,
+    amountMin: filters.amountRange?.min,
+    amountMax: filters.amountRange?.max,
+    dateFrom: isDefaultDateRange ? undefined : filters.dateRange?.start,
+    dateTo: filters.dateRange?.end,
+    dueFrom: filters.dueRange?.start,
+    dueTo: filters.dueRange?.end,
+    aging: filters.aging,
+    text: filters.search,
+  })
+}